@@ -3,18 +3,27 @@ import { validateConfig, config } from './src/shared/config.js';
 import bot from './src/bot/bot.js';
 import { SchedulerService } from './src/shared/scheduler-service.js';
 import { EventBus } from './src/shared/event-bus.js';
+import { ApplicationServiceFactory } from './src/application/services/application-service-factory.js';
 import { HealthCheckService } from './src/infrastructure/health.js';
 import { registerEventHandlers } from './src/shared/event-handlers.js';
+import { registerWebhookDispatcher } from './src/shared/webhook-dispatcher.js';
+import { registerAuditLog } from './src/shared/audit-log.js';
+import { registerGroupAnnouncements } from './src/shared/group-announcements.js';
 import { enhancedLogger} from './src/shared/enhanced-logger.js';
 import { LOG_MESSAGES } from './src/shared/logging-messages.js';
 import { prisma } from './src/infrastructure/prisma.js';
+import { setSessionRedisClient } from './src/shared/session-store.js';
+import { createServer } from './src/api/server.js';
+import { initTracing, shutdownTracing } from './src/shared/tracing.js';
 import { createClient } from 'redis';
+import type { FastifyInstance } from 'fastify';
 
 async function startApp() {
   try {
     // 1. Валидация конфигурации
     validateConfig(config);
     enhancedLogger.info(LOG_MESSAGES.STARTUP.CONFIG_VALIDATED);
+    initTracing();
 
     // 2. Инициализация сервисов
     const redisClient = createClient({
@@ -25,9 +34,10 @@ async function startApp() {
       password: config.redis.password,
     });
     await redisClient.connect();
+    setSessionRedisClient(redisClient);
 
     const eventBus = EventBus.getInstance();
-    const schedulerService = new SchedulerService(eventBus);
+    const schedulerService = ApplicationServiceFactory.getInstance().getSchedulerService();
     const healthService = new HealthCheckService(
       prisma,
       redisClient,
@@ -36,11 +46,18 @@ async function startApp() {
 
     // 3. Настройка обработчиков событий
     await registerEventHandlers(eventBus);
+    registerWebhookDispatcher(eventBus, schedulerService);
+    registerAuditLog(eventBus);
+    registerGroupAnnouncements(eventBus, bot.telegram);
     enhancedLogger.info(LOG_MESSAGES.STARTUP.EVENT_HANDLERS_REGISTERED);
 
     // 4. Инициализация workers
     schedulerService.initializeWorkers();
     enhancedLogger.info(LOG_MESSAGES.STARTUP.QUEUE_WORKERS_INITIALIZED);
+    await schedulerService.scheduleSeriesGeneration();
+    await schedulerService.scheduleOutboxRelay();
+    await schedulerService.scheduleGameLifecycleSweep();
+    await schedulerService.scheduleWaitlistOfferSweep();
 
     // 5. Проверка здоровья системы
     const health = await healthService.checkHealth();
@@ -49,12 +66,20 @@ async function startApp() {
     }
     enhancedLogger.info(LOG_MESSAGES.STARTUP.HEALTH_CHECK_PASSED, { status: health.status });
 
-    // 6. Запуск бота
+    // 6. Запуск REST API
+    let apiServer: FastifyInstance | null = null;
+    if (config.api.enabled) {
+      apiServer = await createServer();
+      const address = await apiServer.listen({ host: '0.0.0.0', port: config.api.port });
+      enhancedLogger.info(LOG_MESSAGES.STARTUP.API_SERVER_STARTED, { address });
+    }
+
+    // 7. Запуск бота
     await bot.launch();
     enhancedLogger.info(LOG_MESSAGES.STARTUP.BOT_STARTED_SUCCESSFULLY);
 
-    // 7. Настройка graceful shutdown
-    setupGracefulShutdown(schedulerService, redisClient);
+    // 8. Настройка graceful shutdown
+    setupGracefulShutdown(schedulerService, redisClient, apiServer);
 
   } catch (error) {
     enhancedLogger.error(LOG_MESSAGES.STARTUP.FAILED_TO_START_APPLICATION, { error: error instanceof Error ? error.message : error });
@@ -62,7 +87,7 @@ async function startApp() {
   }
 }
 
-function setupGracefulShutdown(schedulerService: SchedulerService, redisClient: any) {
+function setupGracefulShutdown(schedulerService: SchedulerService, redisClient: any, apiServer: FastifyInstance | null) {
   const gracefulShutdown = async (signal: string) => {
     enhancedLogger.info(LOG_MESSAGES.STARTUP.GRACEFUL_SHUTDOWN_INITIATED, { signal });
 
@@ -71,6 +96,11 @@ function setupGracefulShutdown(schedulerService: SchedulerService, redisClient:
       bot.stop(signal);
       enhancedLogger.info(LOG_MESSAGES.STARTUP.BOT_STOPPED);
 
+      if (apiServer) {
+        await apiServer.close();
+        enhancedLogger.info(LOG_MESSAGES.STARTUP.API_SERVER_CLOSED);
+      }
+
       // 2. Завершение текущих задач (timeout 30 секунд)
       await Promise.race([
         schedulerService.close(),
@@ -86,6 +116,9 @@ function setupGracefulShutdown(schedulerService: SchedulerService, redisClient:
       await prisma.$disconnect();
       enhancedLogger.info(LOG_MESSAGES.STARTUP.DATABASE_DISCONNECTED);
 
+      // 5. Выгрузка оставшихся спанов трассировки
+      await shutdownTracing();
+
       enhancedLogger.info(LOG_MESSAGES.STARTUP.GRACEFUL_SHUTDOWN_COMPLETED);
       process.exit(0);
 
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "venues" (
+    "id" TEXT NOT NULL,
+    "organizerId" TEXT,
+    "name" TEXT NOT NULL,
+    "address" TEXT,
+    "courtCount" INTEGER NOT NULL DEFAULT 1,
+    "isIndoor" BOOLEAN NOT NULL DEFAULT true,
+    "defaultPriceText" TEXT,
+    "defaultCapacity" INTEGER NOT NULL DEFAULT 12,
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "venues_pkey" PRIMARY KEY ("id")
+);
+
+-- Переносим площадки из VENUE_IDS, чтобы существующие игры сохранили ссылки
+INSERT INTO "venues" ("id", "name", "courtCount", "isIndoor", "defaultCapacity") VALUES
+    ('venue-chaika-id', '"Чайка"', 1, true, 12),
+    ('venue-fok-id', '"ФОК"', 1, true, 12),
+    ('venue-5th-school-id', '5-ая школа', 1, true, 12);
+
+-- Игры с неизвестными площадками привязываем к отдельной общей записи
+INSERT INTO "venues" ("id", "name", "archivedAt")
+SELECT DISTINCT "venueId", "venueId", CURRENT_TIMESTAMP
+FROM "games"
+WHERE "venueId" NOT IN (SELECT "id" FROM "venues");
+
+-- CreateIndex
+CREATE INDEX "venues_organizerId_idx" ON "venues"("organizerId");
+
+-- CreateIndex
+CREATE INDEX "games_venueId_startsAt_idx" ON "games"("venueId", "startsAt");
+
+-- AddForeignKey
+ALTER TABLE "venues" ADD CONSTRAINT "venues_organizerId_fkey" FOREIGN KEY ("organizerId") REFERENCES "organizers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "games" ADD CONSTRAINT "games_venueId_fkey" FOREIGN KEY ("venueId") REFERENCES "venues"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN "seriesId" TEXT;
+
+-- CreateTable
+CREATE TABLE "game_series" (
+    "id" TEXT NOT NULL,
+    "organizerId" TEXT NOT NULL,
+    "venueId" TEXT NOT NULL,
+    "weekdays" INTEGER[],
+    "startTime" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'Asia/Irkutsk',
+    "capacity" INTEGER NOT NULL,
+    "levelTag" TEXT,
+    "priceText" TEXT,
+    "createAheadDays" INTEGER NOT NULL DEFAULT 7,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "game_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "game_series_organizerId_idx" ON "game_series"("organizerId");
+
+-- CreateIndex
+CREATE INDEX "game_series_active_idx" ON "game_series"("active");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "games_seriesId_startsAt_key" ON "games"("seriesId", "startsAt");
+
+-- AddForeignKey
+ALTER TABLE "games" ADD CONSTRAINT "games_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "game_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "game_series" ADD CONSTRAINT "game_series_organizerId_fkey" FOREIGN KEY ("organizerId") REFERENCES "organizers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "game_series" ADD CONSTRAINT "game_series_venueId_fkey" FOREIGN KEY ("venueId") REFERENCES "venues"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
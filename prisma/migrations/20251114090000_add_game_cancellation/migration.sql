@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "PaymentStatus" ADD VALUE 'refund_due';
+
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN     "cancelReason" TEXT,
+ADD COLUMN     "canceledAt" TIMESTAMP(3);
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'Asia/Irkutsk',
+ADD COLUMN     "locale" TEXT NOT NULL DEFAULT 'ru-RU';
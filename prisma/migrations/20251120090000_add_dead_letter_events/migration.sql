@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "DeadLetterStatus" AS ENUM ('pending', 'replayed', 'discarded');
+
+-- CreateTable
+CREATE TABLE "dead_letter_events" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT,
+    "eventType" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "handler" TEXT NOT NULL,
+    "error" TEXT NOT NULL,
+    "status" "DeadLetterStatus" NOT NULL DEFAULT 'pending',
+    "replayAttempts" INTEGER NOT NULL DEFAULT 0,
+    "lastReplayError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "dead_letter_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "dead_letter_events_status_createdAt_idx" ON "dead_letter_events"("status", "createdAt");
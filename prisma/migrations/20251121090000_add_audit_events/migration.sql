@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "audit_events" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT,
+    "eventType" TEXT NOT NULL,
+    "gameId" TEXT,
+    "actorId" TEXT,
+    "payload" JSONB NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "audit_events_eventId_key" ON "audit_events"("eventId");
+
+-- CreateIndex
+CREATE INDEX "audit_events_gameId_occurredAt_idx" ON "audit_events"("gameId", "occurredAt");
@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "PricingMode" AS ENUM ('per_player', 'split_total');
+
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN "pricingMode" "PricingMode",
+ADD COLUMN "priceAmount" INTEGER,
+ADD COLUMN "currency" TEXT;
+
+-- AlterTable
+ALTER TABLE "registrations" ADD COLUMN "amountPaid" INTEGER;
+
+-- Перенос простых цен вида "150₽" / "500 руб" с каждого игрока; остальные цены остаются текстом
+UPDATE "games"
+SET "pricingMode" = 'per_player',
+    "priceAmount" = (substring("priceText" from '^\s*(\d+)'))::INTEGER * 100,
+    "currency" = 'RUB'
+WHERE "priceText" ~* '^\s*\d+\s*(₽|р\.?|руб\.?|рублей)?\s*$';
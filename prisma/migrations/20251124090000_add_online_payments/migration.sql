@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "OnlinePaymentStatus" AS ENUM ('pending', 'paid');
+
+-- CreateTable
+CREATE TABLE "online_payments" (
+    "id" TEXT NOT NULL,
+    "registrationId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "status" "OnlinePaymentStatus" NOT NULL DEFAULT 'pending',
+    "telegramChargeId" TEXT,
+    "providerChargeId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "paidAt" TIMESTAMP(3),
+
+    CONSTRAINT "online_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "online_payments_telegramChargeId_key" ON "online_payments"("telegramChargeId");
+
+-- CreateIndex
+CREATE INDEX "online_payments_registrationId_idx" ON "online_payments"("registrationId");
+
+-- AddForeignKey
+ALTER TABLE "online_payments" ADD CONSTRAINT "online_payments_registrationId_fkey" FOREIGN KEY ("registrationId") REFERENCES "registrations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "LedgerEntryType" AS ENUM ('deposit', 'game_charge', 'refund', 'adjustment');
+
+-- CreateTable
+CREATE TABLE "ledger_entries" (
+    "id" TEXT NOT NULL,
+    "organizerId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "LedgerEntryType" NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "gameId" TEXT,
+    "note" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_entries_userId_gameId_type_key" ON "ledger_entries"("userId", "gameId", "type");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_organizerId_userId_idx" ON "ledger_entries"("organizerId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_organizerId_fkey" FOREIGN KEY ("organizerId") REFERENCES "organizers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
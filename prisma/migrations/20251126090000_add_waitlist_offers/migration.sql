@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "RegStatus" ADD VALUE 'offered';
+
+-- AlterTable
+ALTER TABLE "registrations" ADD COLUMN "offerExpiresAt" TIMESTAMP(3);
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "organizers" ADD COLUMN "groupChatId" BIGINT,
+ADD COLUMN "groupChatTitle" TEXT;
+
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN "announcementChatId" BIGINT,
+ADD COLUMN "announcementMessageId" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organizers_groupChatId_key" ON "organizers"("groupChatId");
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "OrganizerRole" AS ENUM ('owner', 'co_organizer', 'treasurer');
+
+-- CreateTable
+CREATE TABLE "organizer_members" (
+    "id" TEXT NOT NULL,
+    "organizerId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "OrganizerRole" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "organizer_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organizer_members_userId_key" ON "organizer_members"("userId");
+
+-- CreateIndex
+CREATE INDEX "organizer_members_organizerId_idx" ON "organizer_members"("organizerId");
+
+-- AddForeignKey
+ALTER TABLE "organizer_members" ADD CONSTRAINT "organizer_members_organizerId_fkey" FOREIGN KEY ("organizerId") REFERENCES "organizers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "organizer_members" ADD CONSTRAINT "organizer_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Существующие организаторы становятся владельцами своих команд
+INSERT INTO "organizer_members" ("id", "organizerId", "userId", "role")
+SELECT gen_random_uuid()::text, "id", "userId", 'owner' FROM "organizers";
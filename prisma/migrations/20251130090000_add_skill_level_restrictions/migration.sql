@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "levelVerifiedAt" TIMESTAMP(3),
+ADD COLUMN "levelVerifiedById" TEXT;
+
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN "minLevel" TEXT,
+ADD COLUMN "maxLevel" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_levelVerifiedById_fkey" FOREIGN KEY ("levelVerifiedById") REFERENCES "organizers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "game_series_failures" (
+    "id" TEXT NOT NULL,
+    "seriesId" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "game_series_failures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "game_series_failures_seriesId_startsAt_key" ON "game_series_failures"("seriesId", "startsAt");
+
+-- AddForeignKey
+ALTER TABLE "game_series_failures" ADD CONSTRAINT "game_series_failures_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "game_series"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,100 @@
+import { FastifyInstance } from 'fastify';
+import { prisma } from '../infrastructure/prisma.js';
+import { BusinessRuleError } from '../domain/errors/business-rule-error.js';
+import { ERROR_CODES } from '../domain/errors.js';
+import { OrganizerRole } from '../domain/organizer-team.js';
+import { config } from '../shared/config.js';
+import { verifyLoginWidgetData, verifyWebAppInitData, type TelegramAuthUser, type TelegramLoginData } from './telegram-auth.js';
+import { issueSessionToken } from './session-token.js';
+
+const sessionResponseSchema = {
+  type: 'object',
+  properties: {
+    token: { type: 'string' },
+    expiresAt: { type: 'string', format: 'date-time' },
+    user: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        isOrganizer: { type: 'boolean' },
+        organizerId: { type: 'string' },
+        organizerRole: { type: 'string', enum: Object.values(OrganizerRole) },
+        locale: { type: 'string' },
+        timezone: { type: 'string' }
+      },
+      required: ['id', 'name', 'isOrganizer']
+    }
+  },
+  required: ['token', 'expiresAt', 'user']
+} as const;
+
+// Пользователь бота по проверенным данным Telegram и сессионный токен для него
+async function createSession(telegramUser: TelegramAuthUser | null) {
+  if (!telegramUser) {
+    throw new BusinessRuleError(ERROR_CODES.UNAUTHORIZED, 'Неверная подпись данных Telegram');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { telegramId: BigInt(telegramUser.id) },
+    include: { organizerMembership: true }
+  });
+  if (!user) {
+    throw new BusinessRuleError(ERROR_CODES.UNAUTHORIZED, 'Сначала зарегистрируйся в боте командой /start');
+  }
+
+  const { token, expiresAt } = issueSessionToken(user);
+  return {
+    token,
+    expiresAt: expiresAt.toISOString(),
+    user: {
+      id: user.id,
+      name: user.name,
+      isOrganizer: Boolean(user.organizerMembership),
+      organizerId: user.organizerMembership?.organizerId,
+      organizerRole: user.organizerMembership?.role,
+      locale: user.locale,
+      timezone: user.timezone
+    }
+  };
+}
+
+/**
+ * Вход в API через Telegram: Login Widget на сайте или initData Mini App
+ * Подпись проверяется токеном бота, в ответ выдается короткоживущий сессионный токен
+ */
+export async function authRoutes(fastify: FastifyInstance) {
+  fastify.post<{ Body: TelegramLoginData }>('/auth/telegram', {
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          id: { type: ['integer', 'string'] },
+          first_name: { type: 'string' },
+          last_name: { type: 'string' },
+          username: { type: 'string' },
+          photo_url: { type: 'string' },
+          auth_date: { type: ['integer', 'string'] },
+          hash: { type: 'string' }
+        },
+        required: ['id', 'first_name', 'auth_date', 'hash']
+      },
+      response: { 200: sessionResponseSchema }
+    }
+  }, async (request) => {
+    return createSession(verifyLoginWidgetData(request.body, config.telegram.botToken, config.api.authMaxAgeSeconds));
+  });
+
+  fastify.post<{ Body: { initData: string } }>('/auth/webapp', {
+    schema: {
+      body: {
+        type: 'object',
+        properties: { initData: { type: 'string', minLength: 1 } },
+        required: ['initData']
+      },
+      response: { 200: sessionResponseSchema }
+    }
+  }, async (request) => {
+    return createSession(verifyWebAppInitData(request.body.initData, config.telegram.botToken, config.api.authMaxAgeSeconds));
+  });
+}
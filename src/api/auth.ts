@@ -0,0 +1,132 @@
+import { timingSafeEqual } from 'node:crypto';
+import type { FastifyRequest } from 'fastify';
+import { prisma } from '../infrastructure/prisma.js';
+import type { Organizer, User } from '../infrastructure/prisma-types.js';
+import { BusinessRuleError } from '../domain/errors/business-rule-error.js';
+import { ERROR_CODES } from '../domain/errors.js';
+import { config, isAdmin } from '../shared/config.js';
+import { verifySessionToken } from './session-token.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    // Пользователь, от имени которого выполняется запрос (заполняется authenticate)
+    user?: User;
+    // Профиль организатора (заполняется requireRole('organizer'))
+    organizer?: Organizer;
+  }
+}
+
+// Роли, которые может требовать маршрут - как BaseHandler.requireUser и requireOrganizer в боте;
+// администраторы задаются в ADMIN_TELEGRAM_IDS
+export type ApiRole = 'player' | 'organizer' | 'admin';
+
+// Заголовок с Telegram ID пользователя, от имени которого действует доверенный клиент
+export const TELEGRAM_USER_HEADER = 'x-telegram-user-id';
+
+function tokenMatches(token: string, expected: string | undefined): boolean {
+  if (!expected) return false;
+  const actual = Buffer.from(token);
+  const reference = Buffer.from(expected);
+  return actual.length === reference.length && timingSafeEqual(actual, reference);
+}
+
+function isValidServiceToken(token: string): boolean {
+  return tokenMatches(token, config.api.token);
+}
+
+// Доверенный клиент с сервисным токеном действует от имени пользователя из заголовка X-Telegram-User-Id
+async function authenticateServiceClient(request: FastifyRequest): Promise<User> {
+  const telegramId = request.headers[TELEGRAM_USER_HEADER];
+  if (typeof telegramId !== 'string' || !/^\d+$/.test(telegramId)) {
+    throw new BusinessRuleError(ERROR_CODES.UNAUTHORIZED, 'Не указан пользователь');
+  }
+
+  const user = await prisma.user.findUnique({ where: { telegramId: BigInt(telegramId) } });
+  if (!user) {
+    throw new BusinessRuleError(ERROR_CODES.UNAUTHORIZED, 'Пользователь не найден. Начни с команды /start');
+  }
+  return user;
+}
+
+/**
+ * Аутентификация запроса к API (Authorization: Bearer <token>)
+ * Принимает сессионный токен, выданный после входа через Telegram (/auth/telegram, /auth/webapp),
+ * или сервисный токен API_TOKEN с Telegram ID пользователя в заголовке X-Telegram-User-Id
+ */
+export async function authenticate(request: FastifyRequest): Promise<void> {
+  const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    throw new BusinessRuleError(ERROR_CODES.UNAUTHORIZED, 'Требуется авторизация');
+  }
+
+  if (isValidServiceToken(token)) {
+    request.user = await authenticateServiceClient(request);
+    return;
+  }
+
+  const session = verifySessionToken(token);
+  if (!session) {
+    throw new BusinessRuleError(ERROR_CODES.UNAUTHORIZED, 'Сессия истекла или недействительна. Войди заново');
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: session.sub } });
+  if (!user) {
+    throw new BusinessRuleError(ERROR_CODES.UNAUTHORIZED, 'Пользователь не найден. Начни с команды /start');
+  }
+
+  request.user = user;
+}
+
+/**
+ * preHandler выгрузки метрик (Authorization: Bearer <METRICS_TOKEN>)
+ * Отдельный токен: сборщику метрик не нужен доступ к API от имени пользователей. Без METRICS_TOKEN выгрузка закрыта
+ */
+export async function requireMetricsToken(request: FastifyRequest): Promise<void> {
+  const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+  if (scheme !== 'Bearer' || !token || !tokenMatches(token, config.metrics.token)) {
+    throw new BusinessRuleError(ERROR_CODES.UNAUTHORIZED, 'Требуется токен метрик');
+  }
+}
+
+/**
+ * Пользователь запроса; маршрут должен быть защищен authenticate
+ */
+export function requireUser(request: FastifyRequest): User {
+  if (!request.user) {
+    throw new BusinessRuleError(ERROR_CODES.UNAUTHORIZED, 'Требуется авторизация');
+  }
+  return request.user;
+}
+
+/**
+ * Профиль организатора, в команде которого состоит пользователь запроса
+ * @throws {BusinessRuleError} FORBIDDEN - если пользователь не состоит в команде организатора
+ */
+export async function requireOrganizer(request: FastifyRequest): Promise<Organizer> {
+  if (request.organizer) return request.organizer;
+
+  const user = requireUser(request);
+  const membership = await prisma.organizerMember.findUnique({ where: { userId: user.id }, include: { organizer: true } });
+  if (!membership) {
+    throw new BusinessRuleError(ERROR_CODES.FORBIDDEN, 'Ты не зарегистрирован как организатор');
+  }
+  request.organizer = membership.organizer;
+  return membership.organizer;
+}
+
+/**
+ * preHandler маршрута, требующий роль пользователя
+ * Любой зарегистрированный пользователь - игрок; для роли organizer нужен профиль организатора
+ */
+export function requireRole(role: ApiRole) {
+  return async (request: FastifyRequest): Promise<void> => {
+    if (role === 'organizer') {
+      await requireOrganizer(request);
+      return;
+    }
+    const user = requireUser(request);
+    if (role === 'admin' && !isAdmin(user.telegramId)) {
+      throw new BusinessRuleError(ERROR_CODES.FORBIDDEN, 'Доступно только администраторам');
+    }
+  };
+}
@@ -0,0 +1,176 @@
+import { FastifyInstance } from 'fastify';
+import {
+  discardAllDeadLetters,
+  discardDeadLetter,
+  getDeadLetter,
+  listDeadLetters,
+  replayAllDeadLetters,
+  replayDeadLetter
+} from '../application/use-cases.js';
+import type { DeadLetterStatus } from '../application/services/dead-letter-service.js';
+import { authenticate, requireRole, requireUser } from './auth.js';
+import { errorResponses } from './http-errors.js';
+
+interface DeadLetterParams {
+  deadLetterId: string;
+}
+
+interface DeadLettersQuerystring {
+  status?: DeadLetterStatus;
+  limit?: number;
+}
+
+const deadLetterParamsSchema = {
+  type: 'object',
+  properties: {
+    deadLetterId: { type: 'string', format: 'uuid' }
+  },
+  required: ['deadLetterId']
+} as const;
+
+const deadLetterSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    eventId: { type: ['string', 'null'] },
+    eventType: { type: 'string' },
+    handler: { type: 'string' },
+    error: { type: 'string' },
+    status: { type: 'string', enum: ['pending', 'replayed', 'discarded'] },
+    replayAttempts: { type: 'integer' },
+    lastReplayError: { type: ['string', 'null'] },
+    occurredAt: { type: 'string', format: 'date-time' },
+    createdAt: { type: 'string', format: 'date-time' },
+    resolvedAt: { type: ['string', 'null'], format: 'date-time' }
+  },
+  required: ['id', 'eventType', 'handler', 'error', 'status', 'createdAt']
+} as const;
+
+const replayResultSchema = {
+  type: 'object',
+  properties: {
+    replayed: { type: 'boolean' },
+    error: { type: 'string' }
+  },
+  required: ['replayed']
+} as const;
+
+function serializeDeadLetter<T extends { occurredAt: Date; createdAt: Date; resolvedAt: Date | null }>(deadLetter: T) {
+  return {
+    ...deadLetter,
+    occurredAt: deadLetter.occurredAt.toISOString(),
+    createdAt: deadLetter.createdAt.toISOString(),
+    resolvedAt: deadLetter.resolvedAt?.toISOString() ?? null
+  };
+}
+
+/**
+ * Dead letter queue EventBus для администраторов: просмотр, повтор и удаление событий,
+ * которые обработчики не смогли обработать
+ */
+export async function deadLettersRoutes(fastify: FastifyInstance) {
+  fastify.addHook('preHandler', authenticate);
+
+  const admin = requireRole('admin');
+
+  fastify.get<{ Querystring: DeadLettersQuerystring }>('/admin/dead-letters', {
+    preHandler: admin,
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['pending', 'replayed', 'discarded'] },
+          limit: { type: 'integer', minimum: 1, maximum: 200 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            total: { type: 'integer' },
+            deadLetters: { type: 'array', items: deadLetterSchema }
+          },
+          required: ['total', 'deadLetters']
+        },
+        ...errorResponses
+      }
+    }
+  }, async (request) => {
+    const user = requireUser(request);
+    const { items, total } = await listDeadLetters(user.id, request.query);
+    return { total, deadLetters: items.map(serializeDeadLetter) };
+  });
+
+  fastify.get<{ Params: DeadLetterParams }>('/admin/dead-letters/:deadLetterId', {
+    preHandler: admin,
+    schema: {
+      params: deadLetterParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: { ...deadLetterSchema.properties, payload: {} },
+          required: [...deadLetterSchema.required, 'payload']
+        },
+        ...errorResponses
+      }
+    }
+  }, async (request) => {
+    const user = requireUser(request);
+    return serializeDeadLetter(await getDeadLetter(user.id, request.params.deadLetterId));
+  });
+
+  fastify.post<{ Params: DeadLetterParams }>('/admin/dead-letters/:deadLetterId/replay', {
+    preHandler: admin,
+    schema: {
+      params: deadLetterParamsSchema,
+      response: { 200: replayResultSchema, ...errorResponses }
+    }
+  }, async (request) => {
+    const user = requireUser(request);
+    return replayDeadLetter(user.id, request.params.deadLetterId);
+  });
+
+  fastify.post('/admin/dead-letters/replay', {
+    preHandler: admin,
+    schema: {
+      response: {
+        200: {
+          type: 'object',
+          properties: { replayed: { type: 'integer' }, failed: { type: 'integer' } },
+          required: ['replayed', 'failed']
+        },
+        ...errorResponses
+      }
+    }
+  }, async (request) => {
+    const user = requireUser(request);
+    return replayAllDeadLetters(user.id);
+  });
+
+  fastify.delete<{ Params: DeadLetterParams }>('/admin/dead-letters/:deadLetterId', {
+    preHandler: admin,
+    schema: {
+      params: deadLetterParamsSchema,
+      response: {
+        200: { type: 'object', properties: { ok: { type: 'boolean' } }, required: ['ok'] },
+        ...errorResponses
+      }
+    }
+  }, async (request) => {
+    const user = requireUser(request);
+    return discardDeadLetter(user.id, request.params.deadLetterId);
+  });
+
+  fastify.delete('/admin/dead-letters', {
+    preHandler: admin,
+    schema: {
+      response: {
+        200: { type: 'object', properties: { discarded: { type: 'integer' } }, required: ['discarded'] },
+        ...errorResponses
+      }
+    }
+  }, async (request) => {
+    const user = requireUser(request);
+    return discardAllDeadLetters(user.id);
+  });
+}
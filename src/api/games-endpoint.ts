@@ -0,0 +1,387 @@
+import { FastifyInstance } from 'fastify';
+import { prisma } from '../infrastructure/prisma.js';
+import { admitPlayer, createGame, ensureGameVisible, joinGame, leaveGame, listGames, markPayment, overridePayment } from '../application/use-cases.js';
+import { PAYMENT_OVERRIDE_STATUSES } from '../domain/registration.js';
+import type { GamePricing } from '../domain/pricing.js';
+import { GameDetailsQuery } from '../application/queries/GameDetailsQuery.js';
+import { GamePaymentsDashboardQuery } from '../application/queries/GamePaymentsDashboardQuery.js';
+import { authenticate, requireRole, requireUser } from './auth.js';
+import { errorResponses } from './http-errors.js';
+
+interface GameParams {
+  gameId: string;
+}
+
+interface PlayerParams extends GameParams {
+  userId: string;
+}
+
+interface GamesQuerystring {
+  level?: string;
+  venueId?: string;
+}
+
+interface CreateGameBody {
+  venueId: string;
+  startsAt: string;
+  capacity: number;
+  levelTag?: string;
+  priceText?: string;
+  pricing?: GamePricing;
+  minLevel?: string;
+  maxLevel?: string;
+}
+
+const gameParamsSchema = {
+  type: 'object',
+  properties: {
+    gameId: { type: 'string', format: 'uuid' }
+  },
+  required: ['gameId']
+} as const;
+
+const pricingSchema = {
+  type: 'object',
+  properties: {
+    mode: { type: 'string', enum: ['per_player', 'split_total'] },
+    // В минимальных единицах валюты (копейки, центы)
+    amount: { type: 'integer' },
+    currency: { type: 'string' }
+  },
+  required: ['mode', 'amount', 'currency']
+} as const;
+
+const playerParamsSchema = {
+  type: 'object',
+  properties: {
+    gameId: { type: 'string', format: 'uuid' },
+    userId: { type: 'string', format: 'uuid' }
+  },
+  required: ['gameId', 'userId']
+} as const;
+
+const gameSummarySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    status: { type: 'string' },
+    startsAt: { type: 'string', format: 'date-time' },
+    capacity: { type: 'integer' },
+    confirmedCount: { type: 'integer' },
+    levelTag: { type: 'string' },
+    minLevel: { type: 'string' },
+    maxLevel: { type: 'string' },
+    priceText: { type: 'string' },
+    pricing: pricingSchema,
+    venue: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' }
+      }
+    }
+  },
+  required: ['id', 'status', 'startsAt', 'capacity', 'confirmedCount']
+} as const;
+
+const gameDetailsSchema = {
+  type: 'object',
+  properties: {
+    ...gameSummarySchema.properties,
+    waitlistedCount: { type: 'integer' },
+    amountPerPlayer: { type: 'integer' },
+    organizer: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        title: { type: 'string' }
+      }
+    },
+    venue: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        address: { type: 'string' }
+      }
+    },
+    players: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          userId: { type: 'string' },
+          name: { type: 'string' },
+          status: { type: 'string', enum: ['confirmed', 'waitlisted', 'offered'] },
+          levelTag: { type: 'string' },
+          levelVerified: { type: 'boolean' }
+        }
+      }
+    }
+  },
+  required: [...gameSummarySchema.required, 'waitlistedCount', 'players']
+} as const;
+
+const okResponseSchema = {
+  type: 'object',
+  properties: { ok: { type: 'boolean' } },
+  required: ['ok']
+} as const;
+
+const paymentsDashboardSchema = {
+  type: 'object',
+  properties: {
+    gameId: { type: 'string' },
+    paidCount: { type: 'integer' },
+    unpaidCount: { type: 'integer' },
+    disputedCount: { type: 'integer' },
+    pricing: pricingSchema,
+    totals: {
+      type: 'object',
+      properties: {
+        currency: { type: 'string' },
+        amountPerPlayer: { type: 'integer' },
+        collected: { type: 'integer' },
+        outstanding: { type: 'integer' }
+      },
+      required: ['currency', 'amountPerPlayer', 'collected', 'outstanding']
+    },
+    players: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          registrationId: { type: 'string' },
+          userId: { type: 'string' },
+          name: { type: 'string' },
+          paymentStatus: { type: 'string', enum: ['unpaid', 'paid', 'refund_due', 'disputed'] },
+          paymentMarkedAt: { type: 'string', format: 'date-time' },
+          amountDue: { type: 'integer' },
+          amountPaid: { type: 'integer' }
+        }
+      }
+    }
+  },
+  required: ['gameId', 'paidCount', 'unpaidCount', 'disputedCount', 'players']
+} as const;
+
+/**
+ * REST API игр: создание, просмотр, запись, выход, отметка оплаты, дашборд оплат и ручная смена статуса оплаты организатором
+ * Маршруты вызывают те же use cases, что и бот, ошибки отдаются обработчиком apiErrorHandler
+ */
+export async function gamesRoutes(fastify: FastifyInstance) {
+  fastify.addHook('preHandler', authenticate);
+
+  const player = requireRole('player');
+  const organizer = requireRole('organizer');
+
+  fastify.get<{ Querystring: GamesQuerystring }>('/games', {
+    preHandler: player,
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          level: { type: 'string' },
+          venueId: { type: 'string' }
+        }
+      },
+      response: {
+        200: { type: 'object', properties: { games: { type: 'array', items: gameSummarySchema } }, required: ['games'] },
+        ...errorResponses
+      }
+    }
+  }, async (request) => {
+    const user = requireUser(request);
+    const { level, venueId } = request.query;
+
+    // Те же игры, что видит пользователь в /games, с учетом приоритетного окна
+    const games = (await listGames(user.id)).filter(game =>
+      (!level || game.levelTag === level) && (!venueId || game.venueId === venueId)
+    );
+
+    const [venues, confirmedCounts] = await Promise.all([
+      prisma.venue.findMany({ where: { id: { in: games.map(game => game.venueId) } } }),
+      prisma.registration.groupBy({
+        by: ['gameId'],
+        where: { gameId: { in: games.map(game => game.id) }, status: 'confirmed' },
+        _count: { _all: true }
+      })
+    ]);
+    const venuesById = new Map(venues.map(venue => [venue.id, venue]));
+    const confirmedByGame = new Map(confirmedCounts.map(row => [row.gameId, row._count._all]));
+
+    return {
+      games: games.map(game => {
+        const venue = venuesById.get(game.venueId);
+        return {
+          id: game.id,
+          status: game.status,
+          startsAt: game.startsAt.toISOString(),
+          capacity: game.capacity,
+          confirmedCount: confirmedByGame.get(game.id) ?? 0,
+          levelTag: game.levelTag,
+          minLevel: game.minLevel,
+          maxLevel: game.maxLevel,
+          priceText: game.priceText,
+          pricing: game.pricing,
+          venue: venue ? { id: venue.id, name: venue.name } : undefined
+        };
+      })
+    };
+  });
+
+  // Цена задается явно полем pricing; без него она определяется по priceText, если текст однозначен
+  fastify.post<{ Body: CreateGameBody }>('/games', {
+    preHandler: organizer,
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          venueId: { type: 'string', minLength: 1 },
+          startsAt: { type: 'string', format: 'date-time' },
+          capacity: { type: 'integer', minimum: 1, maximum: 100 },
+          levelTag: { type: 'string' },
+          priceText: { type: 'string', minLength: 1, maxLength: 100 },
+          pricing: { ...pricingSchema, properties: { ...pricingSchema.properties, amount: { type: 'integer', minimum: 1 } } },
+          minLevel: { type: 'string' },
+          maxLevel: { type: 'string' }
+        },
+        required: ['venueId', 'startsAt', 'capacity'],
+        additionalProperties: false
+      },
+      response: {
+        201: gameSummarySchema,
+        ...errorResponses
+      }
+    }
+  }, async (request, reply) => {
+    const game = await createGame({
+      ...request.body,
+      organizerId: requireUser(request).id,
+      startsAt: new Date(request.body.startsAt)
+    });
+    reply.code(201);
+    return {
+      id: game.id,
+      status: game.status,
+      startsAt: game.startsAt.toISOString(),
+      capacity: game.capacity,
+      confirmedCount: 0,
+      levelTag: game.levelTag,
+      minLevel: game.minLevel,
+      maxLevel: game.maxLevel,
+      priceText: game.priceText,
+      pricing: game.pricing
+    };
+  });
+
+  fastify.get<{ Params: GameParams }>('/games/:gameId', {
+    preHandler: player,
+    schema: {
+      params: gameParamsSchema,
+      response: { 200: gameDetailsSchema, ...errorResponses }
+    }
+  }, async (request) => {
+    // В приоритетное окно игра видна не всем - как в списке /games
+    await ensureGameVisible(request.params.gameId, requireUser(request).id);
+    const details = await new GameDetailsQuery(request.params.gameId).execute();
+    return { ...details, startsAt: details.startsAt.toISOString() };
+  });
+
+  fastify.post<{ Params: GameParams }>('/games/:gameId/join', {
+    preHandler: player,
+    schema: {
+      params: gameParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: { status: { type: 'string', enum: ['confirmed', 'waitlisted', 'offered'] } },
+          required: ['status']
+        },
+        ...errorResponses
+      }
+    }
+  }, async (request) => {
+    const user = requireUser(request);
+    return joinGame(request.params.gameId, user.id);
+  });
+
+  fastify.post<{ Params: GameParams }>('/games/:gameId/leave', {
+    preHandler: player,
+    schema: {
+      params: gameParamsSchema,
+      response: { 200: okResponseSchema, ...errorResponses }
+    }
+  }, async (request) => {
+    const user = requireUser(request);
+    return leaveGame(request.params.gameId, user.id);
+  });
+
+  fastify.post<{ Params: GameParams }>('/games/:gameId/payment', {
+    preHandler: player,
+    schema: {
+      params: gameParamsSchema,
+      response: { 200: okResponseSchema, ...errorResponses }
+    }
+  }, async (request) => {
+    const user = requireUser(request);
+    return markPayment(request.params.gameId, user.id);
+  });
+
+  // Организатор записывает игрока в обход ограничения уровня
+  fastify.post<{ Params: PlayerParams }>('/games/:gameId/players/:userId', {
+    preHandler: organizer,
+    schema: {
+      params: playerParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: { status: { type: 'string', enum: ['confirmed', 'waitlisted', 'offered'] } },
+          required: ['status']
+        },
+        ...errorResponses
+      }
+    }
+  }, async (request) => {
+    return admitPlayer(request.params.gameId, requireUser(request).id, request.params.userId);
+  });
+
+  fastify.get<{ Params: GameParams }>('/games/:gameId/payments', {
+    preHandler: organizer,
+    schema: {
+      params: gameParamsSchema,
+      response: { 200: paymentsDashboardSchema, ...errorResponses }
+    }
+  }, async (request) => {
+    const dashboard = await new GamePaymentsDashboardQuery(request.params.gameId, requireUser(request).id).execute();
+    return {
+      ...dashboard,
+      players: dashboard.players.map(player => ({
+        ...player,
+        paymentMarkedAt: player.paymentMarkedAt?.toISOString()
+      }))
+    };
+  });
+
+  fastify.put<{ Params: PlayerParams; Body: { status: string } }>('/games/:gameId/payments/:userId', {
+    preHandler: organizer,
+    schema: {
+      params: playerParamsSchema,
+      body: {
+        type: 'object',
+        properties: { status: { type: 'string', enum: PAYMENT_OVERRIDE_STATUSES } },
+        required: ['status']
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: { from: { type: 'string' }, to: { type: 'string' } },
+          required: ['from', 'to']
+        },
+        ...errorResponses
+      }
+    }
+  }, async (request) => {
+    return overridePayment(request.params.gameId, requireUser(request).id, request.params.userId, request.body.status);
+  });
+}
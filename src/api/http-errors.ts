@@ -0,0 +1,113 @@
+import type { FastifyError, FastifyReply, FastifyRequest } from 'fastify';
+import { AbstractDomainError, SystemError } from '../domain/errors/index.js';
+import { DomainError, ERROR_CODES } from '../domain/errors.js';
+import { ErrorHandler } from '../shared/error-handler.js';
+import { getTranslator } from '../shared/i18n/index.js';
+import { logger } from '../shared/logger.js';
+
+/**
+ * Тело ответа с ошибкой, общее для всех маршрутов API
+ */
+export interface ApiErrorBody {
+  error: {
+    code: string;
+    message: string;
+  };
+}
+
+// JSON схема ApiErrorBody
+export const errorResponseSchema = {
+  type: 'object',
+  properties: {
+    error: {
+      type: 'object',
+      properties: {
+        code: { type: 'string' },
+        message: { type: 'string' }
+      },
+      required: ['code', 'message']
+    }
+  },
+  required: ['error']
+} as const;
+
+// Ответы с ошибками для JSON схем маршрутов
+export const errorResponses = {
+  400: errorResponseSchema,
+  401: errorResponseSchema,
+  403: errorResponseSchema,
+  404: errorResponseSchema,
+  409: errorResponseSchema,
+  422: errorResponseSchema
+} as const;
+
+// HTTP статус по коду доменной ошибки; нарушения бизнес-правил без явного статуса - 422
+const HTTP_STATUS_BY_ERROR_CODE: Record<string, number> = {
+  [ERROR_CODES.NOT_FOUND]: 404,
+  [ERROR_CODES.UNAUTHORIZED]: 401,
+  [ERROR_CODES.FORBIDDEN]: 403,
+  [ERROR_CODES.INVALID_INPUT]: 400,
+  [ERROR_CODES.MISSING_REQUIRED_FIELD]: 400,
+  [ERROR_CODES.INVALID_FORMAT]: 400,
+  [ERROR_CODES.VALUE_OUT_OF_RANGE]: 400,
+  [ERROR_CODES.VALIDATION_FAILED]: 400,
+  [ERROR_CODES.ALREADY_REGISTERED]: 409,
+  [ERROR_CODES.CAPACITY_REACHED]: 409,
+  [ERROR_CODES.VENUE_OCCUPIED]: 409,
+  [ERROR_CODES.INVALID_STATE]: 409,
+  [ERROR_CODES.TIMEOUT_ERROR]: 503,
+  [ERROR_CODES.EXTERNAL_SERVICE_ERROR]: 503,
+  [ERROR_CODES.DATABASE_ERROR]: 503,
+  [ERROR_CODES.SYSTEM_ERROR]: 503,
+};
+
+/**
+ * Определяет HTTP статус для ошибки
+ */
+export function getHttpStatus(error: Error): number {
+  if (error instanceof SystemError) return 503;
+  if (error instanceof AbstractDomainError || error instanceof DomainError) {
+    return HTTP_STATUS_BY_ERROR_CODE[error.code] ?? 422;
+  }
+  return 500;
+}
+
+/**
+ * Код ошибки для ответа API: доменный код или INTERNAL_ERROR для неожиданных ошибок
+ */
+export function getApiErrorCode(error: Error): string {
+  if (error instanceof AbstractDomainError || error instanceof DomainError) {
+    return error.code;
+  }
+  return 'INTERNAL_ERROR';
+}
+
+/**
+ * Обработчик ошибок Fastify: доменные ошибки отдаются с кодом и текстом на языке клиента,
+ * ошибки валидации схем запроса - как VALIDATION_FAILED
+ */
+export async function apiErrorHandler(error: FastifyError, request: FastifyRequest, reply: FastifyReply): Promise<ApiErrorBody> {
+  const t = getTranslator(request.user, request.headers['accept-language']);
+
+  if (error.validation) {
+    reply.code(400);
+    return { error: { code: ERROR_CODES.VALIDATION_FAILED, message: error.message } };
+  }
+
+  const statusCode = getHttpStatus(error);
+  if (statusCode >= 500) {
+    logger.error('API request failed', {
+      method: request.method,
+      url: request.url,
+      error: error.message
+    });
+  }
+
+  reply.code(statusCode);
+  return {
+    error: {
+      code: getApiErrorCode(error),
+      message: ErrorHandler.mapToUserMessage(error, t)
+    }
+  };
+}
@@ -0,0 +1,38 @@
+import { FastifyInstance } from 'fastify';
+import type { JobType } from 'bullmq';
+import { ApplicationServiceFactory } from '../application/services/application-service-factory.js';
+import { metrics, renderPrometheusMetrics } from '../shared/metrics.js';
+import { logger } from '../shared/logger.js';
+import { requireMetricsToken } from './auth.js';
+
+const QUEUE_JOB_STATES: JobType[] = ['waiting', 'active', 'completed', 'failed'];
+
+/**
+ * Обновляет глубину очередей BullMQ по счетчикам задач (Queue.getJobCounts)
+ * Недоступный Redis не ломает выгрузку: остаются значения прошлого сбора
+ */
+async function collectQueueDepths(): Promise<void> {
+  try {
+    const queues = await ApplicationServiceFactory.getInstance().getSchedulerService().getQueueJobCounts(QUEUE_JOB_STATES);
+    for (const { name, counts } of queues) {
+      for (const state of QUEUE_JOB_STATES) {
+        metrics.queueJobs.set({ queue: name, state }, counts[state] ?? 0);
+      }
+    }
+  } catch (error) {
+    logger.warn('Failed to collect queue depths for metrics', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function metricsRoutes(fastify: FastifyInstance) {
+  // Выгрузка метрик для Prometheus; доступна только с токеном METRICS_TOKEN
+  fastify.get('/metrics', { preHandler: requireMetricsToken }, async (request, reply) => {
+    await collectQueueDepths();
+
+    reply
+      .header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+      .send(renderPrometheusMetrics());
+  });
+}
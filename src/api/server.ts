@@ -1,6 +1,14 @@
 import Fastify from 'fastify';
 import { healthRoutes } from './health-endpoint.js';
+import { metricsRoutes } from './metrics-endpoint.js';
+import { gamesRoutes } from './games-endpoint.js';
+import { authRoutes } from './auth-endpoint.js';
+import { webAppRoutes } from './webapp-endpoint.js';
+import { webhooksRoutes } from './webhooks-endpoint.js';
+import { deadLettersRoutes } from './dead-letters-endpoint.js';
+import { apiErrorHandler } from './http-errors.js';
 import { logger } from '../shared/logger.js';
+import { config } from '../shared/config.js';
 
 export async function createServer() {
   const fastify = Fastify({
@@ -9,9 +17,24 @@ export async function createServer() {
     maxParamLength: 500,
   });
 
+  // Единый формат ошибок для всех маршрутов
+  fastify.setErrorHandler(apiErrorHandler);
+
   // Register health check routes
   await fastify.register(healthRoutes);
 
+  // Метрики в формате Prometheus
+  await fastify.register(metricsRoutes);
+
+  // REST API для дашборда и других клиентов: вход через Telegram и маршруты, требующие сессии
+  await fastify.register(authRoutes, { prefix: '/api/v1' });
+  await fastify.register(gamesRoutes, { prefix: '/api/v1' });
+  await fastify.register(webhooksRoutes, { prefix: '/api/v1' });
+  await fastify.register(deadLettersRoutes, { prefix: '/api/v1' });
+
+  // Telegram Mini App
+  await fastify.register(webAppRoutes);
+
   // Add root route
   fastify.get('/', async (request, reply) => {
     return {
@@ -22,16 +45,6 @@ export async function createServer() {
     };
   });
 
-  // Graceful shutdown
-  const closeGracefully = async (signal: string) => {
-    logger.info(`Received signal ${signal}, closing server gracefully`);
-    await fastify.close();
-    process.exit(0);
-  };
-
-  process.on('SIGINT', () => closeGracefully('SIGINT'));
-  process.on('SIGTERM', () => closeGracefully('SIGTERM'));
-
   return fastify;
 }
 
@@ -41,14 +54,24 @@ export async function startServer() {
 
     const address = await server.listen({
       host: '0.0.0.0',
-      port: 3001, // Different port from bot
+      port: config.api.port, // Different port from bot
     });
 
     logger.info(`API server listening on ${address}`);
 
+    // Graceful shutdown
+    const closeGracefully = async (signal: string) => {
+      logger.info(`Received signal ${signal}, closing server gracefully`);
+      await server.close();
+      process.exit(0);
+    };
+
+    process.on('SIGINT', () => closeGracefully('SIGINT'));
+    process.on('SIGTERM', () => closeGracefully('SIGTERM'));
+
     return server;
   } catch (err) {
     logger.error('Failed to start API server', { error: err });
     process.exit(1);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,67 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { config } from '../shared/config.js';
+
+/**
+ * Короткоживущие сессионные токены API
+ * Токен - подписанный HMAC payload (base64url), состояние на сервере не хранится
+ */
+
+export interface SessionTokenPayload {
+  // ID пользователя (User.id)
+  sub: string;
+  // Telegram ID пользователя
+  tid: string;
+  // Время истечения, секунды Unix
+  exp: number;
+}
+
+export interface IssuedSessionToken {
+  token: string;
+  expiresAt: Date;
+}
+
+function getSessionSecret(): string {
+  // Без отдельного секрета подписываем производным от токена бота ключом, чтобы не использовать токен напрямую
+  return config.api.sessionSecret
+    || createHmac('sha256', 'api-session').update(config.telegram.botToken ?? '').digest('hex');
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getSessionSecret()).update(data).digest('base64url');
+}
+
+/**
+ * Выпускает сессионный токен для пользователя
+ */
+export function issueSessionToken(
+  user: { id: string; telegramId: bigint },
+  ttlSeconds: number = config.api.sessionTtlSeconds,
+  now: Date = new Date()
+): IssuedSessionToken {
+  const exp = Math.floor(now.getTime() / 1000) + ttlSeconds;
+  const payload: SessionTokenPayload = { sub: user.id, tid: user.telegramId.toString(), exp };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return { token: `${data}.${sign(data)}`, expiresAt: new Date(exp * 1000) };
+}
+
+/**
+ * Проверяет подпись и срок действия сессионного токена
+ * @returns Payload токена или null, если токен неверный или истек
+ */
+export function verifySessionToken(token: string, now: Date = new Date()): SessionTokenPayload | null {
+  const [data, signature] = token.split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString()) as SessionTokenPayload;
+    if (typeof payload.sub !== 'string' || typeof payload.exp !== 'number') return null;
+    if (payload.exp <= Math.floor(now.getTime() / 1000)) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
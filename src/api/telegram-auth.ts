@@ -0,0 +1,114 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Проверка подписи данных авторизации Telegram
+ * Login Widget: https://core.telegram.org/widgets/login#checking-authorization
+ * Mini App initData: https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app
+ */
+
+// Пользователь Telegram из подписанных данных
+export interface TelegramAuthUser {
+  id: number;
+  firstName: string;
+  lastName?: string;
+  username?: string;
+  languageCode?: string;
+}
+
+// Данные, которые Login Widget передает в callback
+export interface TelegramLoginData {
+  id: number | string;
+  first_name: string;
+  last_name?: string;
+  username?: string;
+  photo_url?: string;
+  auth_date: number | string;
+  hash: string;
+}
+
+function safeEqualHex(actual: string, expected: string): boolean {
+  const a = Buffer.from(actual, 'hex');
+  const b = Buffer.from(expected, 'hex');
+  return a.length === b.length && a.length > 0 && timingSafeEqual(a, b);
+}
+
+// Строка для проверки: пары key=value кроме hash, отсортированные по ключу и разделенные переводом строки
+function buildDataCheckString(fields: Array<[string, string]>): string {
+  return fields
+    .filter(([key]) => key !== 'hash')
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('\n');
+}
+
+function isFresh(authDate: number, maxAgeSeconds: number, now: Date): boolean {
+  if (!Number.isFinite(authDate)) return false;
+  const age = now.getTime() / 1000 - authDate;
+  return age >= -60 && age <= maxAgeSeconds;
+}
+
+/**
+ * Проверяет данные Telegram Login Widget
+ * Ключ подписи - SHA-256 от токена бота
+ * @returns Пользователь Telegram или null, если подпись неверна или данные устарели
+ */
+export function verifyLoginWidgetData(
+  data: TelegramLoginData,
+  botToken: string,
+  maxAgeSeconds: number,
+  now: Date = new Date()
+): TelegramAuthUser | null {
+  const fields = Object.entries(data)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]): [string, string] => [key, String(value)]);
+
+  const secret = createHash('sha256').update(botToken).digest();
+  const expected = createHmac('sha256', secret).update(buildDataCheckString(fields)).digest('hex');
+  if (!safeEqualHex(data.hash, expected)) return null;
+  if (!isFresh(Number(data.auth_date), maxAgeSeconds, now)) return null;
+
+  return {
+    id: Number(data.id),
+    firstName: data.first_name,
+    lastName: data.last_name,
+    username: data.username
+  };
+}
+
+/**
+ * Проверяет initData Mini App
+ * Ключ подписи - HMAC-SHA256 токена бота с ключом "WebAppData"
+ * @returns Пользователь Telegram или null, если подпись неверна или данные устарели
+ */
+export function verifyWebAppInitData(
+  initData: string,
+  botToken: string,
+  maxAgeSeconds: number,
+  now: Date = new Date()
+): TelegramAuthUser | null {
+  const params = new URLSearchParams(initData);
+  const hash = params.get('hash');
+  if (!hash) return null;
+
+  const secret = createHmac('sha256', 'WebAppData').update(botToken).digest();
+  const expected = createHmac('sha256', secret).update(buildDataCheckString(Array.from(params.entries()))).digest('hex');
+  if (!safeEqualHex(hash, expected)) return null;
+  if (!isFresh(Number(params.get('auth_date')), maxAgeSeconds, now)) return null;
+
+  const rawUser = params.get('user');
+  if (!rawUser) return null;
+
+  try {
+    const user = JSON.parse(rawUser);
+    if (typeof user?.id !== 'number') return null;
+    return {
+      id: user.id,
+      firstName: user.first_name,
+      lastName: user.last_name,
+      username: user.username,
+      languageCode: user.language_code
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,50 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { getCatalogSections, resolveLocale } from '../shared/i18n/index.js';
+import { SKILL_LEVELS } from '../domain/skill-level.js';
+
+// Каталог статики Mini App (в корне проекта, рядом с package.json)
+const WEBAPP_DIR = path.resolve(process.cwd(), 'webapp');
+
+// Отдаются только известные файлы - никаких путей из запроса в файловую систему
+const WEBAPP_FILES: Record<string, string> = {
+  'index.html': 'text/html; charset=utf-8',
+  'app.js': 'application/javascript; charset=utf-8',
+  'styles.css': 'text/css; charset=utf-8',
+};
+
+// Разделы общего каталога сообщений, которые нужны Mini App
+const WEBAPP_CATALOG_SECTIONS = ['webapp', 'level', 'gameStatus'];
+
+/**
+ * Статика Telegram Mini App: список игр, карточка игры и дашборд оплат организатора, и каталог ее текстов
+ * Данные приложение получает через REST API (/api/v1), вход - по initData Mini App
+ */
+export async function webAppRoutes(fastify: FastifyInstance) {
+  const sendFile = async (file: string, reply: FastifyReply) => {
+    const contentType = Object.hasOwn(WEBAPP_FILES, file) ? WEBAPP_FILES[file] : undefined;
+    if (!contentType) {
+      reply.code(404);
+      return { error: { code: 'NOT_FOUND', message: 'Not found' } };
+    }
+
+    const content = await readFile(path.join(WEBAPP_DIR, file));
+    return reply
+      .type(contentType)
+      // Mini App обновляется вместе с сервером - не даем клиенту Telegram держать старую версию
+      .header('cache-control', 'no-cache')
+      .send(content);
+  };
+
+  // Тексты Mini App берутся из общего каталога бота, чтобы переводы не расходились
+  fastify.get<{ Querystring: { locale?: string } }>('/app/messages', async (request, reply) => {
+    const locale = resolveLocale(request.query.locale);
+    reply.header('cache-control', 'no-cache');
+    return { locale, levels: SKILL_LEVELS, messages: getCatalogSections(locale, WEBAPP_CATALOG_SECTIONS) };
+  });
+
+  fastify.get('/app', async (request, reply) => reply.redirect('/app/'));
+  fastify.get('/app/', async (request, reply) => sendFile('index.html', reply));
+  fastify.get<{ Params: { file: string } }>('/app/:file', async (request, reply) => sendFile(request.params.file, reply));
+}
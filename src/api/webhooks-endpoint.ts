@@ -0,0 +1,162 @@
+import { FastifyInstance } from 'fastify';
+import {
+  createWebhook,
+  deleteWebhook,
+  listWebhookDeliveries,
+  listWebhooks
+} from '../application/use-cases.js';
+import { WEBHOOK_EVENT_TYPES } from '../application/services/webhook-service.js';
+import { authenticate, requireRole, requireUser } from './auth.js';
+import { errorResponses } from './http-errors.js';
+
+interface WebhookParams {
+  webhookId: string;
+}
+
+interface CreateWebhookBody {
+  url: string;
+  eventTypes: string[];
+  description?: string;
+}
+
+interface DeliveriesQuerystring {
+  limit?: number;
+}
+
+const webhookParamsSchema = {
+  type: 'object',
+  properties: {
+    webhookId: { type: 'string', format: 'uuid' }
+  },
+  required: ['webhookId']
+} as const;
+
+const webhookSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    organizerId: { type: ['string', 'null'] },
+    url: { type: 'string' },
+    eventTypes: { type: 'array', items: { type: 'string' } },
+    description: { type: ['string', 'null'] },
+    active: { type: 'boolean' },
+    createdAt: { type: 'string', format: 'date-time' }
+  },
+  required: ['id', 'url', 'eventTypes', 'active', 'createdAt']
+} as const;
+
+const deliverySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    eventId: { type: 'string' },
+    eventType: { type: 'string' },
+    status: { type: 'string', enum: ['pending', 'delivered', 'failed'] },
+    attempts: { type: 'integer' },
+    responseStatus: { type: ['integer', 'null'] },
+    error: { type: ['string', 'null'] },
+    createdAt: { type: 'string', format: 'date-time' },
+    deliveredAt: { type: ['string', 'null'], format: 'date-time' }
+  },
+  required: ['id', 'eventId', 'eventType', 'status', 'attempts', 'createdAt']
+} as const;
+
+/**
+ * Управление webhooks: организатор подписывает свой сервис на события своих игр,
+ * администратор - на события всех игр. Права проверяет WebhookApplicationService
+ */
+export async function webhooksRoutes(fastify: FastifyInstance) {
+  fastify.addHook('preHandler', authenticate);
+
+  const player = requireRole('player');
+
+  fastify.get('/webhooks', {
+    preHandler: player,
+    schema: {
+      response: {
+        200: { type: 'object', properties: { webhooks: { type: 'array', items: webhookSchema } }, required: ['webhooks'] },
+        ...errorResponses
+      }
+    }
+  }, async (request) => {
+    const user = requireUser(request);
+    const webhooks = await listWebhooks(user.id);
+    return {
+      webhooks: webhooks.map(webhook => ({ ...webhook, createdAt: webhook.createdAt.toISOString() }))
+    };
+  });
+
+  fastify.post<{ Body: CreateWebhookBody }>('/webhooks', {
+    preHandler: player,
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          url: { type: 'string', minLength: 1, maxLength: 2048 },
+          eventTypes: {
+            type: 'array',
+            minItems: 1,
+            items: { type: 'string', enum: [...WEBHOOK_EVENT_TYPES] }
+          },
+          description: { type: 'string', maxLength: 200 }
+        },
+        required: ['url', 'eventTypes'],
+        additionalProperties: false
+      },
+      response: {
+        201: {
+          type: 'object',
+          properties: { ...webhookSchema.properties, secret: { type: 'string' } },
+          required: [...webhookSchema.required, 'secret']
+        },
+        ...errorResponses
+      }
+    }
+  }, async (request, reply) => {
+    const user = requireUser(request);
+    const webhook = await createWebhook({ userId: user.id, ...request.body });
+    reply.code(201);
+    return { ...webhook, createdAt: webhook.createdAt.toISOString() };
+  });
+
+  fastify.delete<{ Params: WebhookParams }>('/webhooks/:webhookId', {
+    preHandler: player,
+    schema: {
+      params: webhookParamsSchema,
+      response: {
+        200: { type: 'object', properties: { ok: { type: 'boolean' } }, required: ['ok'] },
+        ...errorResponses
+      }
+    }
+  }, async (request) => {
+    const user = requireUser(request);
+    return deleteWebhook(user.id, request.params.webhookId);
+  });
+
+  fastify.get<{ Params: WebhookParams; Querystring: DeliveriesQuerystring }>('/webhooks/:webhookId/deliveries', {
+    preHandler: player,
+    schema: {
+      params: webhookParamsSchema,
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', minimum: 1, maximum: 200 }
+        }
+      },
+      response: {
+        200: { type: 'object', properties: { deliveries: { type: 'array', items: deliverySchema } }, required: ['deliveries'] },
+        ...errorResponses
+      }
+    }
+  }, async (request) => {
+    const user = requireUser(request);
+    const deliveries = await listWebhookDeliveries(user.id, request.params.webhookId, request.query.limit);
+    return {
+      deliveries: deliveries.map(delivery => ({
+        ...delivery,
+        createdAt: delivery.createdAt.toISOString(),
+        deliveredAt: delivery.deliveredAt?.toISOString() ?? null
+      }))
+    };
+  });
+}
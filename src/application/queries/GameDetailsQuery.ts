@@ -0,0 +1,96 @@
+import { prisma } from '../../infrastructure/prisma.js';
+import { BusinessRuleError } from '../../domain/errors/business-rule-error.js';
+import { ERROR_CODES } from '../../domain/errors.js';
+import { amountPerPlayer, toGamePricing, type GamePricing } from '../../domain/pricing.js';
+
+export interface GameDetails {
+  id: string;
+  status: string;
+  startsAt: Date;
+  capacity: number;
+  levelTag?: string;
+  // Ограничение уровня игроков (включительно)
+  minLevel?: string;
+  maxLevel?: string;
+  priceText?: string;
+  pricing?: GamePricing;
+  // Текущая доля одного игрока в минимальных единицах валюты
+  amountPerPlayer?: number;
+  organizer: {
+    id: string;
+    title?: string;
+  };
+  venue: {
+    id: string;
+    name: string;
+    address?: string;
+  };
+  confirmedCount: number;
+  waitlistedCount: number;
+  players: Array<{
+    userId: string;
+    name: string;
+    status: 'confirmed' | 'waitlisted' | 'offered';
+    levelTag?: string;
+    levelVerified: boolean;
+  }>;
+}
+
+export class GameDetailsQuery {
+  constructor(public gameId: string) {}
+
+  async execute(): Promise<GameDetails> {
+    const game = await prisma.game.findUnique({
+      where: { id: this.gameId },
+      include: {
+        organizer: true,
+        venue: true,
+        registrations: {
+          where: { status: { in: ['confirmed', 'waitlisted', 'offered'] } },
+          include: { user: true },
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    });
+
+    if (!game) {
+      throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Игра не найдена', { gameId: this.gameId });
+    }
+
+    const players = game.registrations.map(reg => ({
+      userId: reg.userId,
+      name: reg.user.name,
+      status: reg.status as 'confirmed' | 'waitlisted' | 'offered',
+      levelTag: reg.user.levelTag || undefined,
+      levelVerified: reg.user.levelVerifiedAt !== null
+    }));
+
+    const pricing = toGamePricing(game);
+    const confirmedCount = players.filter(p => p.status === 'confirmed').length;
+
+    return {
+      id: game.id,
+      status: game.status,
+      startsAt: game.startsAt,
+      capacity: game.capacity,
+      levelTag: game.levelTag || undefined,
+      minLevel: game.minLevel || undefined,
+      maxLevel: game.maxLevel || undefined,
+      priceText: game.priceText || undefined,
+      pricing,
+      amountPerPlayer: pricing ? amountPerPlayer(pricing, confirmedCount) : undefined,
+      organizer: {
+        id: game.organizer.id,
+        title: game.organizer.title || undefined
+      },
+      venue: {
+        id: game.venue.id,
+        name: game.venue.name,
+        address: game.venue.address || undefined
+      },
+      confirmedCount,
+      waitlistedCount: players.filter(p => p.status === 'waitlisted').length,
+      players
+    };
+  }
+}
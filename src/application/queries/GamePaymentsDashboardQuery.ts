@@ -1,23 +1,47 @@
 import { prisma } from '../../infrastructure/prisma.js';
+import { BusinessRuleError } from '../../domain/errors/business-rule-error.js';
+import { ERROR_CODES } from '../../domain/errors.js';
+import { PaymentStatus } from '../../domain/registration.js';
+import { amountPerPlayer, toGamePricing, type GamePricing } from '../../domain/pricing.js';
+import { OrganizerRole, TeamPermission, hasTeamPermission } from '../../domain/organizer-team.js';
 
 export interface GamePaymentsDashboard {
   gameId: string;
   players: Array<{
+    registrationId: string;
     userId: string;
     name: string;
-    paymentStatus: 'paid' | 'unpaid';
+    paymentStatus: PaymentStatus;
     paymentMarkedAt?: Date;
+    // Суммы в минимальных единицах валюты; отсутствуют, если цена игры не структурирована
+    amountDue?: number;
+    amountPaid?: number;
   }>;
   paidCount: number;
   unpaidCount: number;
+  disputedCount: number;
+  pricing?: GamePricing;
+  // Итоги по оплатам (только при структурированной цене)
+  totals?: {
+    currency: string;
+    amountPerPlayer: number;
+    collected: number;
+    outstanding: number;
+  };
 }
 
+/**
+ * Дашборд оплат игры для участника команды ее организатора с правом вести оплаты
+ */
 export class GamePaymentsDashboardQuery {
-  constructor(public gameId: string, public organizerId: string) {}
+  constructor(public gameId: string, public userId: string) {}
 
   async execute(): Promise<GamePaymentsDashboard> {
-    const game = await prisma.game.findUnique({
-      where: { id: this.gameId, organizerId: this.organizerId },
+    const membership = await prisma.organizerMember.findUnique({ where: { userId: this.userId } });
+    const canView = membership && hasTeamPermission(membership.role as OrganizerRole, TeamPermission.managePayments);
+
+    const game = canView && await prisma.game.findUnique({
+      where: { id: this.gameId, organizerId: membership.organizerId },
       include: {
         registrations: {
           where: { status: 'confirmed' },
@@ -28,24 +52,44 @@ export class GamePaymentsDashboardQuery {
     });
 
     if (!game) {
-      throw new Error('Game not found or access denied');
+      throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Игра не найдена или нет доступа', { gameId: this.gameId });
     }
 
+    const pricing = toGamePricing(game);
+    const amountDue = pricing ? amountPerPlayer(pricing, game.registrations.length) : undefined;
+
     const players = game.registrations.map(reg => ({
+      registrationId: reg.id,
       userId: reg.userId,
       name: reg.user.name,
-      paymentStatus: reg.paymentStatus as 'paid' | 'unpaid',
-      paymentMarkedAt: reg.paymentMarkedAt || undefined
+      paymentStatus: reg.paymentStatus as PaymentStatus,
+      paymentMarkedAt: reg.paymentMarkedAt || undefined,
+      amountDue,
+      // Оплата, отмеченная до появления структурированной цены, считается по текущей доле
+      amountPaid: reg.paymentStatus === PaymentStatus.paid ? reg.amountPaid ?? amountDue : undefined
     }));
 
-    const paidCount = players.filter(p => p.paymentStatus === 'paid').length;
-    const unpaidCount = players.filter(p => p.paymentStatus === 'unpaid').length;
+    const paidCount = players.filter(p => p.paymentStatus === PaymentStatus.paid).length;
+    const unpaidCount = players.filter(p => p.paymentStatus === PaymentStatus.unpaid).length;
+    const disputedCount = players.filter(p => p.paymentStatus === PaymentStatus.disputed).length;
+
+    const totals = pricing && amountDue !== undefined
+      ? {
+        currency: pricing.currency,
+        amountPerPlayer: amountDue,
+        collected: players.reduce((sum, p) => sum + (p.amountPaid ?? 0), 0),
+        outstanding: amountDue * (unpaidCount + disputedCount)
+      }
+      : undefined;
 
     return {
       gameId: this.gameId,
       players,
       paidCount,
-      unpaidCount
+      unpaidCount,
+      disputedCount,
+      pricing,
+      totals
     };
   }
 }
\ No newline at end of file
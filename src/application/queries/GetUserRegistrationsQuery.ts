@@ -4,16 +4,40 @@ export class GetUserRegistrationsQuery {
   constructor(public userId: string) {}
 
   async execute() {
-    return await prisma.registration.findMany({
+    const registrations = await prisma.registration.findMany({
       where: { userId: this.userId },
       include: {
         game: {
           include: {
-            organizer: true
+            organizer: true,
+            venue: true
           }
         }
       },
       orderBy: { createdAt: 'desc' }
     });
+
+    // Позиция в листе ожидания (с 1): сколько игроков записались в ожидание раньше.
+    // Одним запросом на все игры: у игрока одна регистрация на игру, поэтому условие строится по каждой игре
+    const waitlisted = registrations.filter(reg => reg.status === 'waitlisted');
+    const aheadByGame = new Map<string, number>();
+    if (waitlisted.length > 0) {
+      const groups = await prisma.registration.groupBy({
+        by: ['gameId'],
+        where: {
+          status: 'waitlisted',
+          OR: waitlisted.map(reg => ({ gameId: reg.gameId, createdAt: { lt: reg.createdAt } }))
+        },
+        _count: { _all: true }
+      });
+      for (const group of groups) {
+        aheadByGame.set(group.gameId, group._count._all);
+      }
+    }
+
+    return registrations.map(reg => ({
+      ...reg,
+      waitlistPosition: reg.status === 'waitlisted' ? (aheadByGame.get(reg.gameId) ?? 0) + 1 : null
+    }));
   }
-}
\ No newline at end of file
+}
@@ -1,12 +1,19 @@
 import { GameApplicationService } from './game-service.js';
 import { UserApplicationService } from './user-service.js';
+import { VenueApplicationService } from './venue-service.js';
+import { GameSeriesApplicationService } from './game-series-service.js';
+import { LedgerApplicationService } from './ledger-service.js';
+import { WaitlistApplicationService } from './waitlist-service.js';
 import {
   PrismaGameRepo,
   PrismaRegistrationRepo,
   PrismaUserRepo,
-  PrismaOrganizerRepo
+  PrismaOrganizerRepo,
+  PrismaVenueRepo,
+  PrismaGameSeriesRepo
 } from '../../infrastructure/repositories/index.js';
 import { EventBus } from '../../shared/event-bus.js';
+import { EventOutbox } from '../../shared/event-outbox.js';
 import { GameDomainService } from '../../domain/services/game-domain-service.js';
 import { SchedulerService } from '../../shared/scheduler-service.js';
 
@@ -18,6 +25,11 @@ export class ApplicationServiceFactory {
   private static instance: ApplicationServiceFactory;
   private gameApplicationService: GameApplicationService | null = null;
   private userApplicationService: UserApplicationService | null = null;
+  private venueApplicationService: VenueApplicationService | null = null;
+  private gameSeriesApplicationService: GameSeriesApplicationService | null = null;
+  private ledgerApplicationService: LedgerApplicationService | null = null;
+  private waitlistApplicationService: WaitlistApplicationService | null = null;
+  private schedulerService: SchedulerService | null = null;
 
   private constructor() {}
 
@@ -39,22 +51,55 @@ export class ApplicationServiceFactory {
       const gameRepo = new PrismaGameRepo();
       const registrationRepo = new PrismaRegistrationRepo();
       const organizerRepo = new PrismaOrganizerRepo();
+      const venueRepo = new PrismaVenueRepo();
       const eventBus = EventBus.getInstance();
-      const gameDomainService = new GameDomainService(gameRepo, registrationRepo);
-      const schedulerService = new SchedulerService(eventBus);
+      const gameDomainService = new GameDomainService(gameRepo, registrationRepo, new PrismaUserRepo());
 
       this.gameApplicationService = new GameApplicationService(
         gameRepo,
         registrationRepo,
         organizerRepo,
+        venueRepo,
         eventBus,
         gameDomainService,
-        schedulerService
+        this.getSchedulerService(),
+        EventOutbox.getInstance(),
+        this.getLedgerApplicationService(),
+        this.getWaitlistApplicationService()
       );
     }
     return this.gameApplicationService;
   }
 
+  /**
+   * Получает или создает LedgerApplicationService
+   */
+  getLedgerApplicationService(): LedgerApplicationService {
+    if (!this.ledgerApplicationService) {
+      this.ledgerApplicationService = new LedgerApplicationService(
+        new PrismaGameRepo(),
+        new PrismaRegistrationRepo(),
+        EventOutbox.getInstance()
+      );
+    }
+    return this.ledgerApplicationService;
+  }
+
+  /**
+   * Получает или создает WaitlistApplicationService
+   */
+  getWaitlistApplicationService(): WaitlistApplicationService {
+    if (!this.waitlistApplicationService) {
+      this.waitlistApplicationService = new WaitlistApplicationService(
+        new PrismaGameRepo(),
+        new PrismaRegistrationRepo(),
+        this.getSchedulerService(),
+        EventOutbox.getInstance()
+      );
+    }
+    return this.waitlistApplicationService;
+  }
+
   /**
    * Получает или создает UserApplicationService
    */
@@ -66,6 +111,33 @@ export class ApplicationServiceFactory {
     return this.userApplicationService;
   }
 
+  /**
+   * Получает или создает VenueApplicationService
+   */
+  getVenueApplicationService(): VenueApplicationService {
+    if (!this.venueApplicationService) {
+      this.venueApplicationService = new VenueApplicationService(
+        new PrismaVenueRepo(),
+        new PrismaOrganizerRepo()
+      );
+    }
+    return this.venueApplicationService;
+  }
+
+  /**
+   * Получает или создает GameSeriesApplicationService
+   */
+  getGameSeriesApplicationService(): GameSeriesApplicationService {
+    if (!this.gameSeriesApplicationService) {
+      this.gameSeriesApplicationService = new GameSeriesApplicationService(
+        new PrismaGameSeriesRepo(),
+        new PrismaOrganizerRepo(),
+        new PrismaVenueRepo()
+      );
+    }
+    return this.gameSeriesApplicationService;
+  }
+
   /**
    * Получает GameRepo через GameApplicationService
    */
@@ -94,6 +166,13 @@ export class ApplicationServiceFactory {
     return new PrismaOrganizerRepo();
   }
 
+  /**
+   * Получает VenueRepo
+   */
+  getVenueRepo() {
+    return new PrismaVenueRepo();
+  }
+
   /**
    * Получает EventBus
    */
@@ -102,10 +181,14 @@ export class ApplicationServiceFactory {
   }
 
   /**
-   * Получает SchedulerService
+   * Получает или создает SchedulerService
+   * Один экземпляр на процесс: каждый держит свои соединения с очередями
    */
   getSchedulerService(): SchedulerService {
-    return new SchedulerService(this.getEventBus());
+    if (!this.schedulerService) {
+      this.schedulerService = new SchedulerService(this.getEventBus());
+    }
+    return this.schedulerService;
   }
 
   /**
@@ -114,5 +197,9 @@ export class ApplicationServiceFactory {
   reset(): void {
     this.gameApplicationService = null;
     this.userApplicationService = null;
+    this.venueApplicationService = null;
+    this.gameSeriesApplicationService = null;
+    this.ledgerApplicationService = null;
+    this.waitlistApplicationService = null;
   }
 }
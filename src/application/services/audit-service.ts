@@ -0,0 +1,99 @@
+import { prisma } from '../../infrastructure/prisma.js';
+import { BusinessRuleError } from '../../domain/errors/business-rule-error.js';
+import { ERROR_CODES } from '../../domain/errors.js';
+import { fromStoredPayload } from '../../shared/dead-letter-store.js';
+import { isAdmin } from '../../shared/config.js';
+import type { DomainEvent } from '../../shared/types.js';
+
+/**
+ * События, из которых строится история игры: запись, выход, лист ожидания, оплата и смена статуса
+ */
+export const GAME_HISTORY_EVENT_TYPES = [
+  'PlayerJoined',
+  'RegistrationCanceled',
+  'WaitlistOfferMade',
+  'WaitlistOfferExpired',
+  'WaitlistedPromoted',
+  'PaymentMarked',
+  'PaymentStatusOverridden',
+  'PaymentChargedFromBalance',
+  'GameUpdated',
+  'GameClosed',
+  'GameFinished',
+  'GameCanceled',
+  'GamePublishedForAll',
+] as const satisfies ReadonlyArray<DomainEvent['type']>;
+
+export type GameHistoryEventType = typeof GAME_HISTORY_EVENT_TYPES[number];
+
+export interface GameHistoryEntry {
+  type: GameHistoryEventType;
+  occurredAt: Date;
+  // Кто совершил действие (null - система)
+  actorName: string | null;
+  // Игрок, которого касается событие (записался, вышел, продвинут, оплатил, статус оплаты изменен)
+  playerName: string | null;
+  payload: Record<string, unknown>;
+}
+
+// Сколько последних событий показывается в истории
+const GAME_HISTORY_LIMIT = 50;
+
+/**
+ * Application Service журнала аудита
+ * Журнал заполняется подписчиком EventBus (см. shared/audit-log.ts) и только читается здесь
+ */
+export class AuditApplicationService {
+  /**
+   * История игры в хронологическом порядке
+   * @param userId - Участник команды организатора игры или администратор
+   * @throws BusinessRuleError NOT_FOUND если игры нет, FORBIDDEN если игра чужая
+   */
+  async getGameHistory(userId: string, gameId: string): Promise<GameHistoryEntry[]> {
+    const game = await prisma.game.findUnique({
+      where: { id: gameId },
+      select: { organizerId: true }
+    });
+    if (!game) {
+      throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Игра не найдена', { gameId });
+    }
+    const membership = await prisma.organizerMember.findUnique({ where: { userId } });
+    if (membership?.organizerId !== game.organizerId) {
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      if (!user || !isAdmin(user.telegramId)) {
+        throw new BusinessRuleError(ERROR_CODES.FORBIDDEN, 'Историю игры может смотреть только ее организатор', { gameId });
+      }
+    }
+
+    // Последние события; при равном времени порядок определяет момент записи в журнал
+    const events = (await prisma.auditEvent.findMany({
+      where: { gameId, eventType: { in: [...GAME_HISTORY_EVENT_TYPES] } },
+      orderBy: [{ occurredAt: 'desc' }, { createdAt: 'desc' }],
+      take: GAME_HISTORY_LIMIT
+    })).reverse();
+
+    const payloads = events.map(event => fromStoredPayload(event.payload) as Record<string, unknown>);
+    const userIds = new Set<string>();
+    events.forEach((event, index) => {
+      if (event.actorId) userIds.add(event.actorId);
+      const playerId = payloads[index]!.userId;
+      if (typeof playerId === 'string') userIds.add(playerId);
+    });
+    const users = await prisma.user.findMany({
+      where: { id: { in: [...userIds] } },
+      select: { id: true, name: true }
+    });
+    const names = new Map(users.map(user => [user.id, user.name]));
+
+    return events.map((event, index) => {
+      const payload = payloads[index]!;
+      return {
+        type: event.eventType as GameHistoryEventType,
+        occurredAt: event.occurredAt,
+        actorName: event.actorId ? names.get(event.actorId) ?? null : null,
+        playerName: typeof payload.userId === 'string' ? names.get(payload.userId) ?? null : null,
+        payload
+      };
+    });
+  }
+}
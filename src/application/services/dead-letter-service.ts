@@ -0,0 +1,178 @@
+import { prisma } from '../../infrastructure/prisma.js';
+import { BusinessRuleError } from '../../domain/errors/business-rule-error.js';
+import { ERROR_CODES } from '../../domain/errors.js';
+import { EventBus, type DomainEvent } from '../../shared/event-bus.js';
+import { fromStoredPayload } from '../../shared/dead-letter-store.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { LOG_MESSAGES } from '../../shared/logging-messages.js';
+import { isAdmin } from '../../shared/config.js';
+
+export type DeadLetterStatus = 'pending' | 'replayed' | 'discarded';
+
+export interface ListDeadLettersQuery {
+  status?: DeadLetterStatus;
+  limit?: number;
+}
+
+export interface ReplayResult {
+  replayed: boolean;
+  error?: string;
+}
+
+// Сколько событий повторяется за один вызов replayAll
+const REPLAY_ALL_BATCH = 100;
+
+/**
+ * Application Service для dead letter queue EventBus
+ * Администратор просматривает события, которые обработчики не смогли обработать,
+ * повторяет их после устранения причины (например, недоступности Telegram) или отбрасывает
+ */
+export class DeadLetterApplicationService {
+  private logger = LoggerFactory.service('DeadLetterApplicationService');
+
+  constructor(private eventBus: EventBus) {}
+
+  /**
+   * События очереди, новые сначала
+   */
+  async list(userId: string, query: ListDeadLettersQuery = {}) {
+    await this.requireAdmin(userId);
+    const [items, total] = await Promise.all([
+      prisma.deadLetterEvent.findMany({
+        where: { status: query.status ?? 'pending' },
+        orderBy: { createdAt: 'desc' },
+        take: query.limit ?? 20
+      }),
+      prisma.deadLetterEvent.count({ where: { status: query.status ?? 'pending' } })
+    ]);
+    return { items, total };
+  }
+
+  /**
+   * Событие очереди вместе с payload
+   * @throws BusinessRuleError NOT_FOUND если события нет
+   */
+  async get(userId: string, deadLetterId: string) {
+    await this.requireAdmin(userId);
+    return this.findOrThrow(deadLetterId);
+  }
+
+  /**
+   * Повторяет событие для обработчика, который с ним не справился
+   * Ошибка повтора не бросается, а возвращается и сохраняется - событие остается в очереди
+   * @throws BusinessRuleError INVALID_STATE если событие уже повторено или отброшено
+   */
+  async replay(userId: string, deadLetterId: string): Promise<ReplayResult> {
+    await this.requireAdmin(userId);
+    const deadLetter = await this.findOrThrow(deadLetterId);
+    if (deadLetter.status !== 'pending') {
+      throw new BusinessRuleError(ERROR_CODES.INVALID_STATE, 'Событие уже обработано', { deadLetterId, status: deadLetter.status });
+    }
+    return this.replayOne(deadLetter);
+  }
+
+  /**
+   * Повторяет все ожидающие события, старые сначала
+   */
+  async replayAll(userId: string): Promise<{ replayed: number; failed: number }> {
+    await this.requireAdmin(userId);
+    const deadLetters = await prisma.deadLetterEvent.findMany({
+      where: { status: 'pending' },
+      orderBy: { createdAt: 'asc' },
+      take: REPLAY_ALL_BATCH
+    });
+
+    let replayed = 0;
+    for (const deadLetter of deadLetters) {
+      if ((await this.replayOne(deadLetter)).replayed) replayed++;
+    }
+
+    this.logger.info('replayAll', LOG_MESSAGES.SERVICES.DEAD_LETTER_REPLAYED_ALL,
+      { userId, replayed, failed: deadLetters.length - replayed }
+    );
+    return { replayed, failed: deadLetters.length - replayed };
+  }
+
+  /**
+   * Отбрасывает событие без повторной обработки
+   */
+  async discard(userId: string, deadLetterId: string): Promise<{ ok: boolean }> {
+    await this.requireAdmin(userId);
+    const deadLetter = await this.findOrThrow(deadLetterId);
+    if (deadLetter.status !== 'pending') {
+      throw new BusinessRuleError(ERROR_CODES.INVALID_STATE, 'Событие уже обработано', { deadLetterId, status: deadLetter.status });
+    }
+
+    await prisma.deadLetterEvent.update({
+      where: { id: deadLetterId },
+      data: { status: 'discarded', resolvedAt: new Date() }
+    });
+    this.logger.info('discard', LOG_MESSAGES.SERVICES.DEAD_LETTER_DISCARDED, { userId, deadLetterId });
+    return { ok: true };
+  }
+
+  /**
+   * Отбрасывает все ожидающие события
+   * @returns Количество отброшенных событий
+   */
+  async discardAll(userId: string): Promise<{ discarded: number }> {
+    await this.requireAdmin(userId);
+    const { count } = await prisma.deadLetterEvent.updateMany({
+      where: { status: 'pending' },
+      data: { status: 'discarded', resolvedAt: new Date() }
+    });
+    this.logger.info('discardAll', LOG_MESSAGES.SERVICES.DEAD_LETTER_DISCARDED, { userId, discarded: count });
+    return { discarded: count };
+  }
+
+  private async replayOne(deadLetter: Awaited<ReturnType<DeadLetterApplicationService['findOrThrow']>>): Promise<ReplayResult> {
+    const event = {
+      // У старых записей без ID события повторы одной записи отсекаются по ее ID
+      id: deadLetter.eventId ?? deadLetter.id,
+      type: deadLetter.eventType,
+      payload: fromStoredPayload(deadLetter.payload),
+      occurredAt: deadLetter.occurredAt
+    } as DomainEvent;
+
+    try {
+      await this.eventBus.replay(event, deadLetter.handler);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await prisma.deadLetterEvent.update({
+        where: { id: deadLetter.id },
+        data: { replayAttempts: { increment: 1 }, lastReplayError: message }
+      });
+      this.logger.warn('replay', LOG_MESSAGES.SERVICES.DEAD_LETTER_REPLAY_FAILED,
+        { deadLetterId: deadLetter.id, eventType: deadLetter.eventType, handler: deadLetter.handler, error: message }
+      );
+      return { replayed: false, error: message };
+    }
+
+    await prisma.deadLetterEvent.update({
+      where: { id: deadLetter.id },
+      data: { status: 'replayed', replayAttempts: { increment: 1 }, lastReplayError: null, resolvedAt: new Date() }
+    });
+    this.logger.info('replay', LOG_MESSAGES.SERVICES.DEAD_LETTER_REPLAYED,
+      { deadLetterId: deadLetter.id, eventType: deadLetter.eventType, handler: deadLetter.handler }
+    );
+    return { replayed: true };
+  }
+
+  private async findOrThrow(deadLetterId: string) {
+    const deadLetter = await prisma.deadLetterEvent.findUnique({ where: { id: deadLetterId } });
+    if (!deadLetter) {
+      throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Событие не найдено', { deadLetterId });
+    }
+    return deadLetter;
+  }
+
+  private async requireAdmin(userId: string): Promise<void> {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Пользователь не найден');
+    }
+    if (!isAdmin(user.telegramId)) {
+      throw new BusinessRuleError(ERROR_CODES.FORBIDDEN, 'Доступно только администраторам');
+    }
+  }
+}
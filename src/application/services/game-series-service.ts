@@ -0,0 +1,183 @@
+import { GameSeriesRepo, OrganizerRepo, VenueRepo } from '../../infrastructure/repositories/index.js';
+import { GameSeries } from '../../domain/game-series.js';
+import { BusinessRuleError } from '../../domain/errors/business-rule-error.js';
+import { TeamPermission, hasTeamPermission } from '../../domain/organizer-team.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { LOG_MESSAGES } from '../../shared/logging-messages.js';
+import { config } from '../../shared/config.js';
+import { v4 as uuid } from 'uuid';
+
+export interface CreateGameSeriesCommand {
+  userId: string;
+  venueId: string;
+  weekdays: number[];
+  startTime: string;
+  timezone?: string;
+  capacity: number;
+  levelTag?: string;
+  priceText?: string;
+  createAheadDays?: number;
+}
+
+export interface PendingSeriesGame {
+  series: GameSeries;
+  organizerUserId: string;
+  startsAt: Date;
+}
+
+/**
+ * Application Service для регулярных серий игр
+ * Хранит шаблон игры и правило повторения; сами игры создаются через createGame
+ */
+export class GameSeriesApplicationService {
+  private logger = LoggerFactory.service('GameSeriesApplicationService');
+
+  constructor(
+    private seriesRepo: GameSeriesRepo,
+    private organizerRepo: OrganizerRepo,
+    private venueRepo: VenueRepo
+  ) {}
+
+  /**
+   * Создает серию игр организатора
+   * @param command - Шаблон игры и правило повторения
+   * @returns Созданная серия
+   * @throws BusinessRuleError если пользователь не организатор или площадка недоступна
+   */
+  async createSeries(command: CreateGameSeriesCommand): Promise<GameSeries> {
+    const organizer = await this.requireOrganizer(command.userId);
+
+    const venue = await this.venueRepo.findById(command.venueId);
+    if (!venue) throw new BusinessRuleError('NOT_FOUND', 'Площадка не найдена');
+    venue.ensureCanHostGame(organizer.id);
+
+    const series = new GameSeries(
+      uuid(),
+      organizer.id,
+      venue.id,
+      [...new Set(command.weekdays)].sort((a, b) => a - b),
+      command.startTime,
+      command.timezone ?? config.localization.defaultTimezone,
+      command.capacity,
+      command.levelTag,
+      command.priceText,
+      command.createAheadDays ?? config.series.defaultCreateAheadDays
+    );
+
+    await this.seriesRepo.insert(series);
+
+    this.logger.info('createSeries', LOG_MESSAGES.SERVICES.SERIES_SERVICE_CREATED,
+      { seriesId: series.id, organizerId: organizer.id, weekdays: series.weekdays, startTime: series.startTime }
+    );
+
+    return series;
+  }
+
+  /**
+   * Возвращает серии организатора
+   * @param userId - ID пользователя-организатора
+   */
+  async listSeries(userId: string): Promise<GameSeries[]> {
+    const organizer = await this.requireOrganizer(userId);
+    return this.seriesRepo.listByOrganizer(organizer.id);
+  }
+
+  /**
+   * Останавливает серию. Уже созданные игры не затрагиваются
+   * @param userId - ID пользователя-организатора
+   * @param seriesId - ID серии
+   */
+  async stopSeries(userId: string, seriesId: string): Promise<{ ok: boolean }> {
+    const organizer = await this.requireOrganizer(userId);
+    const series = await this.seriesRepo.findById(seriesId);
+    if (!series) throw new BusinessRuleError('NOT_FOUND', 'Серия не найдена');
+    if (series.organizerId !== organizer.id) throw new BusinessRuleError('FORBIDDEN', 'Можно остановить только свою серию');
+    if (!series.active) throw new BusinessRuleError('INVALID_STATE', 'Серия уже остановлена');
+
+    series.stop();
+    await this.seriesRepo.updateActive(series.id, series.active);
+
+    this.logger.info('stopSeries', LOG_MESSAGES.SERVICES.SERIES_SERVICE_STOPPED,
+      { seriesId, organizerId: organizer.id }
+    );
+
+    return { ok: true };
+  }
+
+  /**
+   * Находит игры активных серий, которые должны существовать к моменту now,
+   * но еще не созданы (горизонт - createAheadDays каждой серии)
+   * @param now - Текущий момент
+   * @param seriesId - Ограничить одной серией (опционально)
+   */
+  async getPendingGames(now: Date, seriesId?: string): Promise<PendingSeriesGame[]> {
+    let seriesList: GameSeries[];
+    if (seriesId) {
+      const series = await this.seriesRepo.findById(seriesId);
+      seriesList = series?.active ? [series] : [];
+    } else {
+      seriesList = await this.seriesRepo.listActive();
+    }
+
+    const pending: PendingSeriesGame[] = [];
+    for (const series of seriesList) {
+      const horizon = new Date(now.getTime() + series.createAheadDays * 24 * 60 * 60 * 1000);
+      const occurrences = series.occurrencesBetween(now, horizon);
+      if (occurrences.length === 0) continue;
+
+      // Игры, которые не удалось создать за maxGenerationAttempts попыток, ждут ручного повтора из dead letter queue
+      const existing = new Set([
+        ...await this.seriesRepo.findExistingStarts(series.id, now, horizon),
+        ...await this.seriesRepo.findExhaustedStarts(series.id, config.series.maxGenerationAttempts)
+      ].map(d => d.getTime()));
+      const organizer = await this.organizerRepo.findById(series.organizerId);
+      if (!organizer) continue;
+
+      for (const startsAt of occurrences) {
+        if (!existing.has(startsAt.getTime())) {
+          pending.push({ series, organizerUserId: organizer.userId, startsAt });
+        }
+      }
+    }
+
+    return pending;
+  }
+
+  /**
+   * Находит игру серии для ручного повтора: серия активна, игра в будущем и еще не создана.
+   * Сбрасывает счетчик неудачных попыток
+   * @param seriesId - ID серии
+   * @param startsAt - Момент начала игры
+   * @returns Игра для создания или null, если создавать уже нечего
+   */
+  async preparePendingGame(seriesId: string, startsAt: Date): Promise<PendingSeriesGame | null> {
+    await this.seriesRepo.clearGenerationFailure(seriesId, startsAt);
+
+    const series = await this.seriesRepo.findById(seriesId);
+    if (!series?.active || startsAt <= new Date()) return null;
+
+    const existing = await this.seriesRepo.findExistingStarts(series.id, new Date(startsAt.getTime() - 1), startsAt);
+    if (existing.length > 0) return null;
+
+    const organizer = await this.organizerRepo.findById(series.organizerId);
+    return organizer ? { series, organizerUserId: organizer.userId, startsAt } : null;
+  }
+
+  /**
+   * Засчитывает неудачную попытку создать игру серии
+   * @returns true, если попытки исчерпаны и игра больше не будет создаваться автоматически
+   */
+  async recordGenerationFailure(pending: PendingSeriesGame, error: unknown): Promise<boolean> {
+    const message = error instanceof Error ? error.message : String(error);
+    const attempts = await this.seriesRepo.recordGenerationFailure(pending.series.id, pending.startsAt, message);
+    return attempts >= config.series.maxGenerationAttempts;
+  }
+
+  private async requireOrganizer(userId: string) {
+    const membership = await this.organizerRepo.findMembershipByUserId(userId);
+    if (!membership || !hasTeamPermission(membership.role, TeamPermission.manageGames)) {
+      throw new BusinessRuleError('FORBIDDEN', 'Только организаторы могут управлять сериями игр');
+    }
+    return membership.organizer;
+  }
+}
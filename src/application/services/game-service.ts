@@ -1,24 +1,47 @@
-import { GameRepo, RegistrationRepo, OrganizerRepo, PrismaOrganizerRepo } from '../../infrastructure/repositories/index.js';
+import { GameRepo, RegistrationRepo, OrganizerRepo, VenueRepo, PrismaOrganizerRepo } from '../../infrastructure/repositories/index.js';
 import { EventBus } from '../../shared/event-bus.js';
+import { EventOutbox } from '../../shared/event-outbox.js';
 import { GameDomainService } from '../../domain/services/game-domain-service.js';
 import { SchedulerService } from '../../shared/scheduler-service.js';
+import { LedgerApplicationService } from './ledger-service.js';
+import { WaitlistApplicationService } from './waitlist-service.js';
 import { v4 as uuid } from 'uuid';
-import { Game } from '../../domain/game.js';
+import { Game, GameStatus, GameChanges, GameEditableFields } from '../../domain/game.js';
 import { logger } from '../../shared/logger.js';
 import { BusinessRuleError } from '../../domain/errors/business-rule-error.js';
 import { metrics } from '../../shared/metrics.js';
 import { LoggerFactory } from '../../shared/layer-logger.js';
 import { LOG_MESSAGES } from '../../shared/logging-messages.js';
-import { RegStatus } from '../../domain/registration.js';
+import { RegStatus, PaymentStatus, PaymentOverrideStatus } from '../../domain/registration.js';
+import { OrganizerRole, TeamPermission, hasTeamPermission } from '../../domain/organizer-team.js';
+import { ERROR_CODES } from '../../domain/errors.js';
+import { parsePriceText, type GamePricing } from '../../domain/pricing.js';
+import { ensureValidLevelRange } from '../../domain/skill-level.js';
+import { config } from '../../shared/config.js';
+import { getDb } from '../../infrastructure/prisma.js';
 
 export interface MarkPaymentCommand {
   gameId: string;
   userId: string;
 }
 
+export interface OverridePaymentCommand {
+  gameId: string;
+  actorId: string; // Участник команды организатора, выполняющий действие
+  userId: string;
+  status: PaymentOverrideStatus;
+}
+
 export interface JoinGameCommand {
   gameId: string;
   userId: string;
+  ignoreLevel?: boolean; // Запись организатором в обход ограничения уровня
+}
+
+export interface AdmitPlayerCommand {
+  gameId: string;
+  organizerUserId: string; // Участник команды организатора, записывающий игрока
+  userId: string;
 }
 
 export interface CreateGameCommand {
@@ -28,6 +51,29 @@ export interface CreateGameCommand {
   capacity: number;
   levelTag?: string;
   priceText?: string;
+  // Структурированная цена; без нее определяется по priceText
+  pricing?: GamePricing;
+  seriesId?: string;
+  minLevel?: string;
+  maxLevel?: string;
+}
+
+export interface UpdateGameCommand extends Partial<GameEditableFields> {
+  gameId: string;
+  actorId: string; // Участник команды организатора, выполняющий действие
+  // Структурированная цена к новому priceText; без нее определяется по тексту
+  pricing?: GamePricing;
+}
+
+export interface CancelGameCommand {
+  gameId: string;
+  actorId: string; // Участник команды организатора, выполняющий действие
+  reason?: string;
+}
+
+export interface CloseGameCommand {
+  gameId: string;
+  userId?: string; // Участник команды организатора; без него - автоматическое закрытие перед началом игры
 }
 
 export interface RegisterOrganizerCommand {
@@ -35,14 +81,23 @@ export interface RegisterOrganizerCommand {
   title: string;
 }
 
+// Приоритетное окно закрывается за 2 часа до начала игры
+function getPriorityWindowClosesAt(startsAt: Date): Date {
+  return new Date(startsAt.getTime() - 2 * 60 * 60 * 1000);
+}
+
 export class GameApplicationService {
   constructor(
     private gameRepo: GameRepo,
     private registrationRepo: RegistrationRepo,
     private organizerRepo: OrganizerRepo,
+    private venueRepo: VenueRepo,
     private eventBus: EventBus,
     private gameDomainService: GameDomainService,
-    private schedulerService: SchedulerService
+    private schedulerService: SchedulerService,
+    private eventOutbox: EventOutbox,
+    private ledgerService: LedgerApplicationService,
+    private waitlistService: WaitlistApplicationService
   ) {}
 
   /**
@@ -58,31 +113,75 @@ export class GameApplicationService {
       const { game, registration } = await this.gameDomainService
         .validatePaymentMarking(command.gameId, command.userId);
 
-      // Доменная логика
-      registration.markPaid(game);
-
-      // Персистенция
-      await this.registrationRepo.upsert(registration);
+      // Доменная логика: фиксируем долю игрока на момент оплаты
+      const confirmedCount = await this.gameRepo.countConfirmed(command.gameId);
+      registration.markPaid(game, game.amountDue(confirmedCount));
 
-      // События - отложенная обработка через event bus
-      await this.eventBus.publish({
-        type: 'PaymentMarked',
-        payload: { gameId: command.gameId, userId: command.userId },
-        occurredAt: new Date(),
+      // Персистенция вместе с событием в outbox - обработка после коммита
+      await this.gameRepo.transaction(async () => {
+        await this.registrationRepo.upsert(registration);
+        await this.eventOutbox.record({
+          type: 'PaymentMarked',
+          payload: { gameId: command.gameId, userId: command.userId }
+        });
       });
     } catch (error: any) {
       // Публикуем событие об ошибке оплаты
       if (error.code === 'PAYMENT_WINDOW_NOT_OPEN') {
-        await this.eventBus.publish({
+        await this.eventOutbox.record({
           type: 'PaymentAttemptRejectedEarly',
-          payload: { gameId: command.gameId, userId: command.userId },
-          occurredAt: new Date(),
+          payload: { gameId: command.gameId, userId: command.userId }
         });
       }
       throw error;
     }
   }
 
+  /**
+   * Устанавливает статус оплаты участника от имени организатора
+   * Изменение попадает в журнал аудита через событие PaymentStatusOverridden
+   * @param command - Игра, участник команды, игрок и новый статус
+   * @returns Статус до и после изменения
+   * @throws BusinessRuleError если игра или запись не найдены, игра отменена
+   * или пользователь не ведет оплаты в команде организатора игры
+   */
+  async overridePayment(command: OverridePaymentCommand): Promise<{ from: PaymentStatus; to: PaymentStatus }> {
+    const game = await this.gameRepo.findById(command.gameId);
+    if (!game) {
+      throw new BusinessRuleError('NOT_FOUND', 'Игра не найдена');
+    }
+    await this.requireTeamPermission(command.actorId, game, TeamPermission.managePayments,
+      'Только команда организатора игры может менять статус оплаты');
+    if (game.status === GameStatus.canceled) {
+      throw new BusinessRuleError('GAME_NOT_EDITABLE', 'Игра отменена');
+    }
+
+    return await this.gameRepo.transaction(async () => {
+      const registration = await this.registrationRepo.get(command.gameId, command.userId);
+      if (!registration) {
+        throw new BusinessRuleError('NOT_FOUND', 'Игрок не записан на эту игру');
+      }
+
+      const from = registration.paymentStatus;
+      const confirmedCount = await this.gameRepo.countConfirmed(command.gameId);
+      registration.overridePayment(command.status, game.amountDue(confirmedCount));
+      if (from === command.status) {
+        return { from, to: from };
+      }
+
+      await this.registrationRepo.upsert(registration);
+      // Снятая отметка об оплате возвращает списание за игру на баланс игрока
+      if (from === PaymentStatus.paid) {
+        await this.ledgerService.refundGameCharge(game, command.userId);
+      }
+      await this.eventOutbox.record({
+        type: 'PaymentStatusOverridden',
+        payload: { gameId: command.gameId, actorId: command.actorId, userId: command.userId, from, to: command.status }
+      });
+      return { from, to: command.status };
+    });
+  }
+
   /**
    * Записывает игрока на игру
    * Обрабатывает запись в основной состав или в лист ожидания
@@ -94,7 +193,8 @@ export class GameApplicationService {
     return await this.gameRepo.transaction(async () => {
       const result = await this.gameDomainService.processJoinGame(
         command.gameId,
-        command.userId
+        command.userId,
+        { ignoreLevel: command.ignoreLevel }
       );
 
       metrics.registrationsProcessed.increment();
@@ -102,14 +202,13 @@ export class GameApplicationService {
       // Публикуем событие только если это новая регистрация или повторная после отмены
       // (не для случая, когда игрок уже в листе ожидания)
       if (result.isReactivation !== false) {
-        await this.eventBus.publish({
+        await this.eventOutbox.record({
           type: 'PlayerJoined',
           payload: {
             gameId: command.gameId,
             userId: command.userId,
             status: result.status
-          },
-          occurredAt: new Date(),
+          }
         });
       }
 
@@ -117,6 +216,24 @@ export class GameApplicationService {
     });
   }
 
+  /**
+   * Записывает игрока на игру от имени организатора в обход ограничения уровня
+   * Остальные правила записи (статус игры, вместимость, лист ожидания) действуют как обычно
+   * @throws BusinessRuleError если игра не найдена или пользователь не управляет игроками организатора игры
+   */
+  async admitPlayer(command: AdmitPlayerCommand): Promise<{ status: RegStatus; isReactivation?: boolean }> {
+    const game = await this.gameRepo.findById(command.gameId);
+    if (!game) {
+      throw new BusinessRuleError('NOT_FOUND', 'Игра не найдена');
+    }
+    const membership = await this.organizerRepo.findMembershipByUserId(command.organizerUserId);
+    if (membership?.organizer.id !== game.organizerId || !hasTeamPermission(membership.role, TeamPermission.managePlayers)) {
+      throw new BusinessRuleError('FORBIDDEN', 'Записать игрока может только команда организатора игры');
+    }
+
+    return this.joinGame({ gameId: command.gameId, userId: command.userId, ignoreLevel: true });
+  }
+
   /**
    * Создает новую игру
    * Валидирует организатора и создает игру с планированием напоминаний
@@ -126,34 +243,42 @@ export class GameApplicationService {
    */
   async createGame(command: CreateGameCommand): Promise<Game> {
     const serviceLogger = LoggerFactory.service('game-service');
-    const correlationId = `create_game_${command.organizerId}_${Date.now()}`;
+    const startedAt = Date.now();
 
     serviceLogger.info('createGame', LOG_MESSAGES.SERVICES.GAME_SERVICE_CREATE_START,
-      { organizerId: command.organizerId, venueId: command.venueId, capacity: command.capacity },
-      { correlationId }
+      { organizerId: command.organizerId, venueId: command.venueId, capacity: command.capacity }
     );
 
-    // Get organizer record to ensure it exists
-    const organizer = await this.organizerRepo.findByUserId(command.organizerId);
-    if (!organizer) {
+    // Игру создает участник команды организатора, игра принадлежит команде
+    const membership = await this.organizerRepo.findMembershipByUserId(command.organizerId);
+    if (!membership) {
       serviceLogger.error('createGame', LOG_MESSAGES.SERVICES.GAME_SERVICE_ORGANIZER_NOT_FOUND,
         new BusinessRuleError('NOT_FOUND', 'Организатор не найден'),
-        { organizerId: command.organizerId },
-        { correlationId }
+        { organizerId: command.organizerId }
       );
       throw new BusinessRuleError('NOT_FOUND', 'Организатор не найден');
     }
+    if (!hasTeamPermission(membership.role, TeamPermission.manageGames)) {
+      throw new BusinessRuleError(ERROR_CODES.FORBIDDEN, 'Роль в команде не позволяет создавать игры');
+    }
+    const organizer = membership.organizer;
+
+    const venue = await this.venueRepo.findById(command.venueId);
+    if (!venue) {
+      throw new BusinessRuleError('NOT_FOUND', 'Площадка не найдена');
+    }
+    venue.ensureCanHostGame(organizer.id);
 
     // Check if venue is available at the specified time
     const conflictingGame = await this.gameRepo.findConflictingGame(command.venueId, command.startsAt);
     if (conflictingGame) {
       serviceLogger.warn('createGame', LOG_MESSAGES.SERVICES.GAME_SERVICE_VENUE_CONFLICT,
-        { venueId: command.venueId, startsAt: command.startsAt, conflictingGameId: conflictingGame.id },
-        { correlationId }
+        { venueId: command.venueId, startsAt: command.startsAt, conflictingGameId: conflictingGame.id }
       );
       throw new BusinessRuleError('VENUE_OCCUPIED', `Площадка занята в это время. Конфликтующая игра: ${conflictingGame.id}`);
     }
 
+    ensureValidLevelRange({ minLevel: command.minLevel, maxLevel: command.maxLevel });
     const g = new Game(
       uuid(),
       organizer.id,
@@ -161,115 +286,357 @@ export class GameApplicationService {
       command.startsAt,
       command.capacity,
       command.levelTag,
-      command.priceText
+      command.priceText,
+      GameStatus.open,
+      command.seriesId,
+      command.pricing ?? parsePriceText(command.priceText, config.payments.defaultCurrency),
+      command.minLevel,
+      command.maxLevel
     );
 
-    await this.gameRepo.insertGame(g);
-    serviceLogger.database('createGame', 'games', 'INSERT', {
-      gameId: g.id,
-      organizerId: organizer.id,
-      venueId: command.venueId
+    // Установить время закрытия приоритетного окна (2 часа до начала игры)
+    const priorityWindowClosesAt = getPriorityWindowClosesAt(g.startsAt);
+
+    // Игра, ожидание ответов приоритетных игроков и события - в одной транзакции
+    await this.gameRepo.transaction(async () => {
+      await this.gameRepo.insertGame(g);
+      serviceLogger.database('createGame', 'games', 'INSERT', {
+        gameId: g.id,
+        organizerId: organizer.id,
+        venueId: command.venueId
+      });
+      await this.gameRepo.updatePriorityWindow(g.id, priorityWindowClosesAt);
+
+      // Получить всех подтвержденных игроков организатора
+      const confirmedPlayers = await getDb().playerOrganizer.findMany({
+        where: {
+          organizerId: organizer.id,
+          status: 'confirmed'
+        },
+        include: { player: true }
+      });
+
+      // Создать записи GamePlayerResponse со статусом 'ignored' (ожидание ответа)
+      if (confirmedPlayers.length > 0) {
+        await getDb().gamePlayerResponse.createMany({
+          data: confirmedPlayers.map(po => ({
+            gameId: g.id,
+            playerId: po.player.id,
+            response: 'ignored' as const
+          })),
+          skipDuplicates: true
+        });
+      }
+
+      // Если есть приоритетные игроки - отправляем им приглашение
+      // Если нет - сразу открываем для всех
+      if (confirmedPlayers.length > 0) {
+        await this.eventOutbox.record({
+          type: 'GameCreatedWithPriorityWindow',
+          payload: {
+            gameId: g.id,
+            priorityWindowClosesAt: priorityWindowClosesAt.toISOString(),
+            confirmedPlayers: confirmedPlayers.map(po => ({
+              playerId: po.player.id,
+              telegramId: po.player.telegramId
+            }))
+          }
+        });
+      } else {
+        await this.eventOutbox.record({
+          type: 'GamePublishedForAll',
+          payload: { gameId: g.id }
+        });
+      }
     });
 
     serviceLogger.info('createGame', LOG_MESSAGES.SERVICES.GAME_SERVICE_CREATE_COMPLETED,
       { gameId: g.id, organizerId: command.organizerId },
-      { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[2] || '0') }
+      { executionTimeMs: Date.now() - startedAt }
     );
 
     metrics.gamesCreated.increment();
 
-    // Установить время закрытия приоритетного окна (2 часа до начала игры)
-    const priorityWindowClosesAt = new Date(g.startsAt.getTime() - 2 * 60 * 60 * 1000);
-    await this.gameRepo.updatePriorityWindow(g.id, priorityWindowClosesAt);
+    // Запланировать проверку истечения приоритетного окна через 2 часа
+    await this.schedulerService.schedulePriorityWindowCheck(g.id, priorityWindowClosesAt);
 
-    // Получить всех подтвержденных игроков организатора
-    const { prisma } = await import('../../infrastructure/prisma.js');
-    const confirmedPlayers = await (prisma as any).playerOrganizer.findMany({
-      where: {
-        organizerId: organizer.id,
-        status: 'confirmed'
-      },
-      include: { player: true }
-    });
+    // Schedule reminders
+    await this.schedulerService.scheduleGameReminder24h(g.id, g.startsAt);
+    await this.schedulerService.scheduleGameLifecycle(g.id, g.startsAt);
+
+    return g;
+  }
 
-    // Создать записи GamePlayerResponse со статусом 'ignored' (ожидание ответа)
-    const responses = confirmedPlayers.map((po: any) => ({
-      gameId: g.id,
-      playerId: po.player.id,
-      response: 'ignored' as const
-    }));
-
-    if (responses.length > 0) {
-      await (prisma as any).gamePlayerResponse.createMany({
-        data: responses,
-        skipDuplicates: true
+  /**
+   * Изменяет параметры игры
+   * При переносе времени перепланирует напоминания, при увеличении вместимости
+   * предлагает освободившиеся места игрокам из листа ожидания. Публикует GameUpdated с diff изменений
+   * @param command - Команда с gameId, участником команды и новыми значениями полей
+   * @returns Diff изменений и ID игроков, которым предложено место
+   * @throws BusinessRuleError если игра не найдена, неактивна, площадка занята
+   * или пользователь не ведет игры в команде организатора игры
+   */
+  async updateGame(command: UpdateGameCommand): Promise<{ changes: GameChanges; offeredUserIds: string[] }> {
+    const { gameId, actorId, pricing, ...fields } = command;
+
+    const game = await this.gameRepo.findById(gameId);
+    if (!game) {
+      throw new BusinessRuleError('NOT_FOUND', 'Игра не найдена');
+    }
+    await this.requireTeamPermission(actorId, game, TeamPermission.manageGames,
+      'Только команда организатора игры может её изменить');
+
+    if (fields.venueId && fields.venueId !== game.venueId) {
+      const venue = await this.venueRepo.findById(fields.venueId);
+      if (!venue) {
+        throw new BusinessRuleError('NOT_FOUND', 'Площадка не найдена');
+      }
+      venue.ensureCanHostGame(game.organizerId);
+    }
+
+    if (fields.venueId || fields.startsAt) {
+      const conflictingGame = await this.gameRepo.findConflictingGame(
+        fields.venueId ?? game.venueId,
+        fields.startsAt ?? game.startsAt,
+        game.id
+      );
+      if (conflictingGame) {
+        throw new BusinessRuleError('VENUE_OCCUPIED', `Площадка занята в это время. Конфликтующая игра: ${conflictingGame.id}`);
+      }
+    }
+
+    const { changes, offeredUserIds } = await this.gameRepo.transaction(async () => {
+      // Места, предложенные игрокам из листа ожидания, тоже нельзя убрать уменьшением вместимости
+      const occupiedCount = await this.gameRepo.countOccupied(game.id);
+      const changes = game.applyChanges(fields, occupiedCount);
+      if (Object.keys(changes).length === 0) {
+        return { changes, offeredUserIds: [] as string[] };
+      }
+      if (changes.priceText) {
+        game.pricing = pricing ?? parsePriceText(game.priceText, config.payments.defaultCurrency);
+      }
+
+      await this.gameRepo.updateDetails(game);
+
+      // Освободившиеся места предлагаются игрокам из листа ожидания по очереди
+      const offeredUserIds = changes.capacity ? await this.waitlistService.offerFreeSpots(game.id) : [];
+
+      await this.eventOutbox.record({
+        type: 'GameUpdated',
+        payload: { gameId: game.id, actorId, changes, offeredUserIds }
       });
+
+      return { changes, offeredUserIds };
+    });
+
+    if (changes.startsAt) {
+      const priorityWindowClosesAt = getPriorityWindowClosesAt(game.startsAt);
+      await this.gameRepo.updatePriorityWindow(game.id, priorityWindowClosesAt);
+      await this.schedulerService.rescheduleGameJobs(game.id, game.startsAt, priorityWindowClosesAt);
     }
 
-    // Запланировать проверку истечения приоритетного окна через 2 часа
-    await this.schedulerService.schedulePriorityWindowCheck(g.id, priorityWindowClosesAt);
+    return { changes, offeredUserIds };
+  }
+
+  /**
+   * Отменяет игру
+   * Переводит игру в статус canceled, помечает оплаченные записи к возврату,
+   * удаляет отложенные напоминания и уведомляет участников через событие GameCanceled
+   * @param command - Команда с gameId, участником команды и причиной
+   * @returns Количество уведомляемых игроков и записей, требующих возврата
+   * @throws BusinessRuleError если игра не найдена, уже завершена/отменена
+   * или пользователь не ведет игры в команде организатора игры
+   */
+  async cancelGame(command: CancelGameCommand): Promise<{ notified: number; refundDue: number }> {
+    const game = await this.gameRepo.findById(command.gameId);
+    if (!game) {
+      throw new BusinessRuleError('NOT_FOUND', 'Игра не найдена');
+    }
+    await this.requireTeamPermission(command.actorId, game, TeamPermission.manageGames,
+      'Только команда организатора игры может её отменить');
+
+    const { registrations, refundDue } = await this.gameRepo.transaction(async () => {
+      game.cancel(command.reason);
+      await this.gameRepo.saveCancellation(game);
+
+      const registrations = await this.registrationRepo.listActive(game.id);
+      const refundDue = registrations.filter(reg => reg.paymentStatus === PaymentStatus.paid);
+      for (const reg of refundDue) {
+        reg.markRefundDue();
+        await this.registrationRepo.upsert(reg);
+      }
 
-    // Опубликовать событие о создании игры с приоритетным окном
-    // Если есть приоритетные игроки - отправляем им приглашение
-    // Если нет - сразу открываем для всех
-    if (confirmedPlayers.length > 0) {
-      await this.eventBus.publish({
-        type: 'GameCreatedWithPriorityWindow',
-        occurredAt: new Date(),
-        id: '',
+      await this.eventOutbox.record({
+        type: 'GameCanceled',
         payload: {
-          gameId: g.id,
-          priorityWindowClosesAt: priorityWindowClosesAt.toISOString(),
-          confirmedPlayers: confirmedPlayers.map((po: any) => ({
-            playerId: po.player.id,
-            telegramId: po.player.telegramId
-          }))
+          gameId: game.id,
+          actorId: command.actorId,
+          reason: command.reason,
+          notifyUserIds: registrations.map(reg => reg.userId),
+          refundDueUserIds: refundDue.map(reg => reg.userId)
         }
       });
-    } else {
-      // Нет приоритетных игроков - сразу открываем для всех
-      await this.eventBus.publish({
-        type: 'GamePublishedForAll',
-        occurredAt: new Date(),
-        id: '',
-        payload: { gameId: g.id }
-      });
-    }
 
-    // Schedule reminders
-    await this.schedulerService.scheduleGameReminder24h(g.id, g.startsAt);
-    await this.schedulerService.initializeWorkers();
+      return { registrations, refundDue };
+    });
 
-    return g;
+    await this.schedulerService.removeGameJobs(game.id);
+
+    return { notified: registrations.length, refundDue: refundDue.length };
+  }
+
+  /**
+   * Закрывает запись на игру
+   * @param command - Игра и пользователь; без пользователя - автоматическое закрытие
+   * @returns false, если статус игры параллельно изменил другой процесс
+   * @throws BusinessRuleError если игра не найдена, пользователь не ведет игры в команде ее организатора
+   * или статус игры не позволяет закрыть запись
+   */
+  async closeGame(command: CloseGameCommand): Promise<boolean> {
+    const game = await this.gameRepo.findById(command.gameId);
+    if (!game) {
+      throw new BusinessRuleError('NOT_FOUND', 'Игра не найдена');
+    }
+    if (command.userId !== undefined) {
+      const membership = await this.organizerRepo.findMembershipByUserId(command.userId);
+      if (membership?.organizer.id !== game.organizerId || !hasTeamPermission(membership.role, TeamPermission.manageGames)) {
+        throw new BusinessRuleError('FORBIDDEN', 'Закрыть запись может только команда организатора игры');
+      }
+    }
+
+    const previous = game.status;
+    game.close();
+    const automatic = command.userId === undefined;
+    return this.gameRepo.transaction(async () => {
+      if (!(await this.gameRepo.transitionStatus(game.id, previous, game.status))) {
+        return false;
+      }
+      await this.eventOutbox.record({
+        type: 'GameClosed',
+        payload: { gameId: game.id, ...(automatic ? { automatic } : {}) }
+      });
+      return true;
+    });
   }
 
-  async finishGame(gameId: string): Promise<void> {
+  /**
+   * Завершает игру: списывает оплату с балансов и планирует напоминания об оплате
+   * @param automatic - Завершение по расписанию, а не организатором
+   * @returns false, если статус игры параллельно изменил другой процесс
+   * @throws BusinessRuleError если игра не найдена или уже завершена либо отменена
+   */
+  async finishGame(gameId: string, automatic: boolean = false): Promise<boolean> {
     const game = await this.gameRepo.findById(gameId);
     if (!game) {
       throw new BusinessRuleError('NOT_FOUND', 'Игра не найдена');
     }
 
+    const previous = game.status;
     game.finish();
-    await this.gameRepo.updateStatus(gameId, game.status);
+    const charged = await this.gameRepo.transaction(async () => {
+      // Условный переход: параллельное завершение не спишет оплату второй раз
+      if (!(await this.gameRepo.transitionStatus(gameId, previous, game.status))) {
+        return null;
+      }
+      await this.eventOutbox.record({ type: 'GameFinished', payload: { gameId, automatic } });
+      // Оплата списывается с баланса тех, у кого хватает предоплаты; остальным придут напоминания
+      return this.ledgerService.chargeFinishedGame(game);
+    });
+    if (!charged) {
+      logger.info('Game status changed concurrently, finish skipped', { gameId });
+      return false;
+    }
 
     // Schedule payment reminders after game finishes
     await this.schedulerService.schedulePaymentReminder12h(gameId, game.startsAt);
     await this.schedulerService.schedulePaymentReminder24h(gameId, game.startsAt);
 
-    logger.info('Game finished and payment reminders scheduled', { gameId });
+    logger.info('Game finished and payment reminders scheduled', { gameId, automatic, chargedFromBalance: charged.length });
+    return true;
+  }
+
+  /**
+   * Автоматический переход по расписанию: закрытие записи перед началом или завершение после окончания игры.
+   * Задача могла устареть (игру перенесли, закрыли или отменили) - тогда переход пропускается
+   * @param now - Текущее время
+   * @returns Новый статус игры или null, если переход не нужен
+   */
+  async advanceLifecycle(gameId: string, now: Date = new Date()): Promise<GameStatus | null> {
+    const game = await this.gameRepo.findById(gameId);
+    if (!game) return null;
+
+    const { autoCloseMinutesBeforeStart, gameDurationMinutes } = config.lifecycle;
+    if (game.canTransitionTo(GameStatus.finished) && game.expectedEndAt(gameDurationMinutes) <= now) {
+      return (await this.finishGame(gameId, true)) ? GameStatus.finished : null;
+    }
+    if (game.canTransitionTo(GameStatus.closed) && game.registrationClosesAt(autoCloseMinutesBeforeStart) <= now) {
+      return (await this.closeGame({ gameId })) ? GameStatus.closed : null;
+    }
+    return null;
+  }
+
+  /**
+   * Переводит все игры, пропустившие автоматический переход (например, созданные сериями или во время простоя воркера)
+   * @param now - Текущее время
+   * @returns Количество закрытых и завершенных игр
+   */
+  async advanceDueGames(now: Date = new Date()): Promise<{ closed: number; finished: number }> {
+    const { autoCloseMinutesBeforeStart, gameDurationMinutes } = config.lifecycle;
+    const [toClose, toFinish] = await Promise.all([
+      this.gameRepo.findIdsStartingBefore([GameStatus.open], new Date(now.getTime() + autoCloseMinutesBeforeStart * 60 * 1000)),
+      this.gameRepo.findIdsStartingBefore([GameStatus.open, GameStatus.closed], new Date(now.getTime() - gameDurationMinutes * 60 * 1000))
+    ]);
+
+    const result = { closed: 0, finished: 0 };
+    for (const gameId of new Set([...toFinish, ...toClose])) {
+      try {
+        const status = await this.advanceLifecycle(gameId, now);
+        if (status === GameStatus.closed) result.closed++;
+        if (status === GameStatus.finished) result.finished++;
+      } catch (error) {
+        // Ошибка одной игры не должна останавливать остальные
+        logger.error('Failed to advance game lifecycle', { gameId, error: (error as Error).message });
+      }
+    }
+
+    logger.info('Game lifecycle sweep completed', result);
+    return result;
   }
 
   async registerOrganizer(command: RegisterOrganizerCommand): Promise<{ ok: boolean }> {
     await this.gameRepo.transaction(async () => {
-      const { prisma } = await import('../../infrastructure/prisma.js');
-      await prisma.organizer.upsert({
+      const { getDb } = await import('../../infrastructure/prisma.js');
+      const organizer = await getDb().organizer.upsert({
         where: { userId: command.userId },
         update: {},
         create: { userId: command.userId, title: command.title }
       });
+
+      // Участник чужой команды не может завести свою: у пользователя одна команда
+      const membership = await getDb().organizerMember.findUnique({ where: { userId: command.userId } });
+      if (membership && membership.organizerId !== organizer.id) {
+        throw new BusinessRuleError(ERROR_CODES.ALREADY_TEAM_MEMBER, 'Пользователь уже состоит в команде другого организатора');
+      }
+      if (!membership) {
+        await getDb().organizerMember.create({
+          data: { organizerId: organizer.id, userId: command.userId, role: OrganizerRole.owner }
+        });
+      }
     });
 
     logger.info('Organizer registered', { userId: command.userId, title: command.title });
     return { ok: true };
   }
-}
\ No newline at end of file
+
+  /**
+   * Проверяет, что пользователь состоит в команде организатора игры и его роль дает право на действие
+   * Проверка в сервисе, а не только в боте и API: маршрут организатора проверяет лишь членство в команде
+   * @throws BusinessRuleError FORBIDDEN
+   */
+  private async requireTeamPermission(userId: string, game: Game, permission: TeamPermission, message: string): Promise<void> {
+    const membership = await this.organizerRepo.findMembershipByUserId(userId);
+    if (membership?.organizer.id !== game.organizerId || !hasTeamPermission(membership.role, permission)) {
+      throw new BusinessRuleError(ERROR_CODES.FORBIDDEN, message, { gameId: game.id, userId, permission });
+    }
+  }
+}
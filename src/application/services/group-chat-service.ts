@@ -0,0 +1,82 @@
+import { prisma } from '../../infrastructure/prisma.js';
+import { BusinessRuleError } from '../../domain/errors/business-rule-error.js';
+import { ERROR_CODES } from '../../domain/errors.js';
+import { OrganizerRole, TeamPermission, hasTeamPermission } from '../../domain/organizer-team.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { LOG_MESSAGES } from '../../shared/logging-messages.js';
+
+export interface BindGroupChatCommand {
+  userId: string;
+  chatId: bigint;
+  chatTitle?: string;
+}
+
+export interface GroupChatView {
+  organizerId: string;
+  groupChatId: bigint | null;
+  groupChatTitle: string | null;
+}
+
+/**
+ * Application Service для привязки группы клуба к организатору
+ * В привязанную группу публикуются новые игры организатора с кнопками записи
+ */
+export class GroupChatApplicationService {
+  private logger = LoggerFactory.service('GroupChatApplicationService');
+
+  /**
+   * Привязывает группу к профилю организатора; повторная привязка заменяет прежнюю группу
+   * @throws BusinessRuleError если пользователь не организатор или группа привязана к другому организатору
+   */
+  async bindGroupChat(command: BindGroupChatCommand): Promise<GroupChatView> {
+    const organizer = await this.requireOrganizer(command.userId);
+
+    const boundOrganizer = await prisma.organizer.findUnique({ where: { groupChatId: command.chatId } });
+    if (boundOrganizer && boundOrganizer.id !== organizer.id) {
+      throw new BusinessRuleError(ERROR_CODES.GROUP_CHAT_ALREADY_BOUND, 'Группа уже привязана к другому организатору',
+        { chatId: command.chatId.toString(), organizerId: boundOrganizer.id }
+      );
+    }
+
+    const updated = await prisma.organizer.update({
+      where: { id: organizer.id },
+      data: { groupChatId: command.chatId, groupChatTitle: command.chatTitle?.trim() || null }
+    });
+
+    this.logger.info('bindGroupChat', LOG_MESSAGES.SERVICES.GROUP_CHAT_BOUND,
+      { organizerId: organizer.id, chatId: command.chatId.toString() }
+    );
+
+    return this.toView(updated);
+  }
+
+  /**
+   * Отвязывает группу; уже опубликованные сообщения продолжают обновляться
+   */
+  async unbindGroupChat(userId: string): Promise<GroupChatView> {
+    const organizer = await this.requireOrganizer(userId);
+    const updated = await prisma.organizer.update({
+      where: { id: organizer.id },
+      data: { groupChatId: null, groupChatTitle: null }
+    });
+
+    this.logger.info('unbindGroupChat', LOG_MESSAGES.SERVICES.GROUP_CHAT_UNBOUND, { organizerId: organizer.id });
+    return this.toView(updated);
+  }
+
+  private async requireOrganizer(userId: string) {
+    const membership = await prisma.organizerMember.findUnique({ where: { userId }, include: { organizer: true } });
+    if (!membership || !hasTeamPermission(membership.role as OrganizerRole, TeamPermission.manageTeam)) {
+      throw new BusinessRuleError(ERROR_CODES.FORBIDDEN, 'Привязать группу может только владелец команды организатора', { userId });
+    }
+    return membership.organizer;
+  }
+
+  private toView(organizer: { id: string; groupChatId: bigint | null; groupChatTitle: string | null }): GroupChatView {
+    return {
+      organizerId: organizer.id,
+      groupChatId: organizer.groupChatId,
+      groupChatTitle: organizer.groupChatTitle
+    };
+  }
+}
@@ -1,8 +1,8 @@
 import { LoggerFactory } from '../../shared/layer-logger.js';
 import { BusinessRuleError } from '../../domain/errors/business-rule-error.js';
 import { InputValidator } from '../../shared/input-validator.js';
-import { EventBus } from '../../shared/event-bus.js';
-import { prisma } from '../../infrastructure/prisma.js';
+import { EventOutbox } from '../../shared/event-outbox.js';
+import { prisma, getDb, runInTransaction } from '../../infrastructure/prisma.js';
 
 /**
  * Application Service для управления приглашениями на игры
@@ -11,7 +11,7 @@ export class InvitationApplicationService {
   private logger = LoggerFactory.service('InvitationApplicationService');
 
   constructor(
-    private eventBus: EventBus
+    private eventOutbox: EventOutbox
   ) {}
 
   /**
@@ -43,32 +43,32 @@ export class InvitationApplicationService {
       throw new BusinessRuleError('FORBIDDEN', 'Только подтвержденные игроки организатора могут отвечать на приглашения');
     }
 
-    // Обновить или создать запись GamePlayerResponse
-    await (prisma as any).gamePlayerResponse.upsert({
-      where: {
-        gameId_playerId: { gameId, playerId }
-      },
-      update: {
-        response: response as any,
-        respondedAt: response !== 'ignored' ? new Date() : null
-      },
-      create: {
-        gameId,
-        playerId,
-        response: response as any,
-        respondedAt: response !== 'ignored' ? new Date() : null
-      }
-    });
+    // Обновить или создать запись GamePlayerResponse, события - в той же транзакции
+    await runInTransaction(async () => {
+      await getDb().gamePlayerResponse.upsert({
+        where: {
+          gameId_playerId: { gameId, playerId }
+        },
+        update: {
+          response: response as any,
+          respondedAt: response !== 'ignored' ? new Date() : null
+        },
+        create: {
+          gameId,
+          playerId,
+          response: response as any,
+          respondedAt: response !== 'ignored' ? new Date() : null
+        }
+      });
 
-    await this.eventBus.publish({
-      type: 'PlayerRespondedToGameInvitation',
-      occurredAt: new Date(),
-      id: '',
-      payload: { gameId, playerId, response }
-    });
+      await this.eventOutbox.record({
+        type: 'PlayerRespondedToGameInvitation',
+        payload: { gameId, playerId, response }
+      });
 
-    // Проверить, все ли приоритетные игроки ответили
-    await this.checkIfAllPriorityPlayersResponded(gameId);
+      // Проверить, все ли приоритетные игроки ответили
+      await this.checkIfAllPriorityPlayersResponded(gameId);
+    });
 
     return { ok: true };
   }
@@ -106,25 +106,25 @@ export class InvitationApplicationService {
       response: 'ignored' as const
     }));
 
-    await (prisma as any).gamePlayerResponse.createMany({
-      data: responses,
-      skipDuplicates: true
-    });
-
-    // Опубликовать событие для уведомления игроков
     const priorityWindowClosesAt = new Date(game.createdAt.getTime() + 2 * 60 * 60 * 1000);
-    await this.eventBus.publish({
-      type: 'GameCreatedWithPriorityWindow',
-      occurredAt: new Date(),
-      id: '',
-      payload: {
-        gameId,
-        priorityWindowClosesAt: priorityWindowClosesAt.toISOString(),
-        confirmedPlayers: confirmedPlayers.map((po: any) => ({
-          playerId: po.player.id,
-          telegramId: po.player.telegramId
-        }))
-      }
+    await runInTransaction(async () => {
+      await getDb().gamePlayerResponse.createMany({
+        data: responses,
+        skipDuplicates: true
+      });
+
+      // Событие для уведомления игроков
+      await this.eventOutbox.record({
+        type: 'GameCreatedWithPriorityWindow',
+        payload: {
+          gameId,
+          priorityWindowClosesAt: priorityWindowClosesAt.toISOString(),
+          confirmedPlayers: confirmedPlayers.map((po: any) => ({
+            playerId: po.player.id,
+            telegramId: po.player.telegramId
+          }))
+        }
+      });
     });
   }
 
@@ -132,7 +132,7 @@ export class InvitationApplicationService {
    * Проверяет, все ли приоритетные игроки ответили на приглашение
    */
   private async checkIfAllPriorityPlayersResponded(gameId: string): Promise<void> {
-    const game = await prisma.game.findUnique({
+    const game = await getDb().game.findUnique({
       where: { id: gameId },
       select: { organizerId: true }
     });
@@ -142,7 +142,7 @@ export class InvitationApplicationService {
     }
 
     // Получить всех подтвержденных игроков организатора
-    const confirmedPlayers = await (prisma as any).playerOrganizer.findMany({
+    const confirmedPlayers = await getDb().playerOrganizer.findMany({
       where: {
         organizerId: game.organizerId,
         status: 'confirmed'
@@ -152,33 +152,29 @@ export class InvitationApplicationService {
 
     if (confirmedPlayers.length === 0) {
       // Нет приоритетных игроков — сразу открываем для всех
-      await this.eventBus.publish({
+      await this.eventOutbox.record({
         type: 'GamePublishedForAll',
-        occurredAt: new Date(),
-        id: '',
         payload: { gameId }
       });
       return;
     }
 
     // Получить ответы всех приоритетных игроков
-    const responses = await (prisma as any).gamePlayerResponse.findMany({
+    const responses = await getDb().gamePlayerResponse.findMany({
       where: {
         gameId,
-        playerId: { in: confirmedPlayers.map((p: any) => p.playerId) }
+        playerId: { in: confirmedPlayers.map(p => p.playerId) }
       },
       select: { response: true }
     });
 
     // Проверить, все ли ответили (не 'ignored')
     const allResponded = responses.length === confirmedPlayers.length &&
-      responses.every((r: any) => r.response !== 'ignored');
+      responses.every(r => r.response !== 'ignored');
 
     if (allResponded) {
-      await this.eventBus.publish({
+      await this.eventOutbox.record({
         type: 'GamePublishedForAll',
-        occurredAt: new Date(),
-        id: '',
         payload: { gameId }
       });
     }
@@ -192,24 +188,22 @@ export class InvitationApplicationService {
 
     const game = await prisma.game.findUnique({
       where: { id: gameId },
-      select: { status: true, createdAt: true }
+      select: { status: true, createdAt: true, priorityWindowClosesAt: true }
     });
 
     if (!game || game.status !== 'open') {
       return;
     }
 
-    // Проверить, истекло ли приоритетное окно (2 часа после создания)
-    const priorityWindowClosesAt = new Date(game.createdAt.getTime() + 2 * 60 * 60 * 1000);
+    // Проверить, истекло ли приоритетное окно (сохраненное время закрытия; у старых игр - 2 часа после создания)
+    const priorityWindowClosesAt = game.priorityWindowClosesAt ?? new Date(game.createdAt.getTime() + 2 * 60 * 60 * 1000);
     if (priorityWindowClosesAt > new Date()) {
       return;
     }
 
     // Приоритетное окно истекло — публикуем игру для всех
-    await this.eventBus.publish({
+    await this.eventOutbox.record({
       type: 'GamePublishedForAll',
-      occurredAt: new Date(),
-      id: '',
       payload: { gameId }
     });
   }
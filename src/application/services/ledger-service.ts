@@ -0,0 +1,323 @@
+import { prisma, getDb, runInTransaction } from '../../infrastructure/prisma.js';
+import { BusinessRuleError } from '../../domain/errors/business-rule-error.js';
+import { ValidationError } from '../../domain/errors/validation-error.js';
+import { ERROR_CODES } from '../../domain/errors.js';
+import type { Game } from '../../domain/game.js';
+import { LedgerEntryType, MANUAL_LEDGER_ENTRY_TYPES, signedLedgerAmount, type ManualLedgerEntryType } from '../../domain/ledger.js';
+import { OrganizerRole, TeamPermission, hasTeamPermission } from '../../domain/organizer-team.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { EventOutbox } from '../../shared/event-outbox.js';
+import { config } from '../../shared/config.js';
+import type { GameRepo, RegistrationRepo } from '../../infrastructure/repositories/index.js';
+
+export interface RecordLedgerEntryCommand {
+  organizerUserId: string; // Пользователь-организатор, который вносит запись
+  userId: string; // Игрок
+  type: ManualLedgerEntryType;
+  amount: number; // В минимальных единицах валюты; у корректировки со знаком
+  currency?: string;
+  note?: string;
+}
+
+export interface LedgerEntryView {
+  id: string;
+  type: LedgerEntryType;
+  amount: number;
+  currency: string;
+  gameId: string | null;
+  note: string | null;
+  createdAt: Date;
+}
+
+// Баланс игрока у одного организатора в одной валюте
+export interface PlayerBalance {
+  organizerId: string;
+  organizerName: string;
+  currency: string;
+  balance: number;
+}
+
+// Строка обзора балансов организатора
+export interface OrganizerBalanceRow {
+  userId: string;
+  name: string;
+  balances: Array<{ currency: string; balance: number }>;
+}
+
+// Сколько последних движений показывается в выписке
+const LEDGER_HISTORY_LIMIT = 20;
+
+/**
+ * Application Service баланса игроков у организаторов
+ * Баланс не хранится, а считается как сумма движений: пополнений, списаний за игры, возвратов и корректировок.
+ * Движения только добавляются - ошибочная запись исправляется корректировкой
+ */
+export class LedgerApplicationService {
+  private logger = LoggerFactory.service('LedgerApplicationService');
+
+  constructor(
+    private gameRepo: GameRepo,
+    private registrationRepo: RegistrationRepo,
+    private eventOutbox: EventOutbox
+  ) {}
+
+  /**
+   * Вносит движение по балансу игрока: пополнение, возврат или корректировку
+   * @throws BusinessRuleError если пользователь не организатор, игрок не найден или не подтвержден у организатора
+   * @throws ValidationError если тип или сумма некорректны
+   */
+  async recordEntry(command: RecordLedgerEntryCommand): Promise<{ entry: LedgerEntryView; balance: number }> {
+    if (!MANUAL_LEDGER_ENTRY_TYPES.includes(command.type)) {
+      throw new ValidationError('type', command.type, 'enum');
+    }
+    const amount = signedLedgerAmount(command.type, command.amount);
+    const currency = command.currency ?? config.payments.defaultCurrency;
+
+    const organizer = await this.requireOrganizer(command.organizerUserId);
+    const player = await prisma.user.findUnique({ where: { id: command.userId }, select: { id: true } });
+    if (!player) {
+      throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Игрок не найден', { userId: command.userId });
+    }
+    // Баланс ведется только постоянным игрокам организатора: запись на случайного пользователя запрещена
+    const link = await prisma.playerOrganizer.findFirst({
+      where: { playerId: command.userId, organizerId: organizer.id, status: 'confirmed' },
+      select: { id: true }
+    });
+    if (!link) {
+      throw new BusinessRuleError(ERROR_CODES.PLAYER_NOT_LINKED, 'Баланс ведется только для подтвержденных игроков организатора', {
+        userId: command.userId
+      });
+    }
+
+    return runInTransaction(async () => {
+      const entry = await getDb().ledgerEntry.create({
+        data: {
+          organizerId: organizer.id,
+          userId: command.userId,
+          type: command.type,
+          amount,
+          currency,
+          note: command.note ?? null,
+          createdById: command.organizerUserId
+        }
+      });
+      const balance = await this.balanceOf(organizer.id, command.userId, currency);
+      await this.eventOutbox.record({
+        type: 'LedgerEntryRecorded',
+        payload: { organizerId: organizer.id, userId: command.userId, type: command.type, amount, currency, balance }
+      });
+
+      this.logger.info('recordEntry', 'Движение по балансу внесено', {
+        organizerId: organizer.id, userId: command.userId, type: command.type, amount, currency
+      });
+      return { entry: toView(entry), balance };
+    });
+  }
+
+  /**
+   * Балансы игрока у всех организаторов, у которых есть движения
+   */
+  async getPlayerBalances(userId: string): Promise<PlayerBalance[]> {
+    const groups = await prisma.ledgerEntry.groupBy({
+      by: ['organizerId', 'currency'],
+      where: { userId },
+      _sum: { amount: true }
+    });
+    if (groups.length === 0) return [];
+
+    const organizers = await prisma.organizer.findMany({
+      where: { id: { in: groups.map(group => group.organizerId) } },
+      include: { user: true }
+    });
+    const names = new Map(organizers.map(organizer => [organizer.id, organizer.title ?? organizer.user.name]));
+
+    return groups.map(group => ({
+      organizerId: group.organizerId,
+      organizerName: names.get(group.organizerId) ?? '',
+      currency: group.currency,
+      balance: group._sum.amount ?? 0
+    }));
+  }
+
+  /**
+   * Обзор балансов игроков организатора: постоянные игроки и все, у кого есть движения
+   * @throws BusinessRuleError если пользователь не организатор
+   */
+  async getOrganizerOverview(organizerUserId: string): Promise<OrganizerBalanceRow[]> {
+    const organizer = await this.requireOrganizer(organizerUserId);
+
+    const [groups, links] = await Promise.all([
+      prisma.ledgerEntry.groupBy({
+        by: ['userId', 'currency'],
+        where: { organizerId: organizer.id },
+        _sum: { amount: true }
+      }),
+      prisma.playerOrganizer.findMany({
+        where: { organizerId: organizer.id, status: 'confirmed' },
+        select: { playerId: true }
+      })
+    ]);
+
+    const userIds = [...new Set([...links.map(link => link.playerId), ...groups.map(group => group.userId)])];
+    const users = await prisma.user.findMany({ where: { id: { in: userIds } }, select: { id: true, name: true } });
+
+    return users
+      .map(user => ({
+        userId: user.id,
+        name: user.name,
+        balances: groups
+          .filter(group => group.userId === user.id)
+          .map(group => ({ currency: group.currency, balance: group._sum.amount ?? 0 }))
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Выписка по балансу игрока у организатора: балансы по валютам и последние движения
+   * @throws BusinessRuleError если пользователь не организатор или игрок не найден
+   */
+  async getPlayerLedger(organizerUserId: string, userId: string): Promise<{ name: string; balances: Array<{ currency: string; balance: number }>; entries: LedgerEntryView[] }> {
+    const organizer = await this.requireOrganizer(organizerUserId);
+    const player = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
+    if (!player) {
+      throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Игрок не найден', { userId });
+    }
+
+    const [groups, entries] = await Promise.all([
+      prisma.ledgerEntry.groupBy({
+        by: ['currency'],
+        where: { organizerId: organizer.id, userId },
+        _sum: { amount: true }
+      }),
+      prisma.ledgerEntry.findMany({
+        where: { organizerId: organizer.id, userId },
+        orderBy: { createdAt: 'desc' },
+        take: LEDGER_HISTORY_LIMIT
+      })
+    ]);
+
+    return {
+      name: player.name,
+      balances: groups.map(group => ({ currency: group.currency, balance: group._sum.amount ?? 0 })),
+      entries: entries.map(toView)
+    };
+  }
+
+  /**
+   * Списывает долю за завершенную игру с баланса подтвержденных игроков, которые еще не оплатили.
+   * Если баланса не хватает, игрок остается неоплаченным и оплачивает игру как обычно
+   * @returns Игроки, с баланса которых списана оплата
+   */
+  async chargeFinishedGame(game: Game): Promise<Array<{ userId: string; amount: number; balance: number }>> {
+    const pricing = game.pricing;
+    if (!pricing) return [];
+
+    return runInTransaction(async () => {
+      const amount = game.amountDue(await this.gameRepo.countConfirmed(game.id))!;
+      const registrations = (await this.registrationRepo.listActive(game.id))
+        .filter(registration => registration.canPayFromBalance());
+      if (registrations.length === 0) return [];
+
+      const groups = await getDb().ledgerEntry.groupBy({
+        by: ['userId'],
+        where: { organizerId: game.organizerId, currency: pricing.currency, userId: { in: registrations.map(r => r.userId) } },
+        _sum: { amount: true }
+      });
+      const balances = new Map(groups.map(group => [group.userId, group._sum.amount ?? 0]));
+
+      const charged: Array<{ userId: string; amount: number; balance: number }> = [];
+      for (const registration of registrations) {
+        const balanceBefore = balances.get(registration.userId) ?? 0;
+        if (balanceBefore < amount) continue;
+
+        await getDb().ledgerEntry.create({
+          data: {
+            organizerId: game.organizerId,
+            userId: registration.userId,
+            type: LedgerEntryType.game_charge,
+            amount: signedLedgerAmount(LedgerEntryType.game_charge, amount),
+            currency: pricing.currency,
+            gameId: game.id
+          }
+        });
+        registration.markPaidFromBalance(amount);
+        await this.registrationRepo.upsert(registration);
+
+        const balance = balanceBefore - amount;
+        await this.eventOutbox.record({
+          type: 'PaymentChargedFromBalance',
+          payload: { gameId: game.id, userId: registration.userId, amount, currency: pricing.currency, balance }
+        });
+        charged.push({ userId: registration.userId, amount, balance });
+      }
+
+      this.logger.info('chargeFinishedGame', 'Оплата игры списана с балансов игроков', {
+        gameId: game.id, amount, charged: charged.length, skipped: registrations.length - charged.length
+      });
+      return charged;
+    });
+  }
+
+  /**
+   * Возвращает на баланс списание за игру, если организатор снял отметку об оплате
+   * @returns Сумма возврата или null, если за игру ничего не списывалось или уже возвращено
+   */
+  async refundGameCharge(game: Game, userId: string): Promise<number | null> {
+    return runInTransaction(async () => {
+      const entries = await getDb().ledgerEntry.findMany({
+        where: { userId, gameId: game.id, type: { in: [LedgerEntryType.game_charge, LedgerEntryType.refund] } }
+      });
+      const charge = entries.find(entry => entry.type === LedgerEntryType.game_charge);
+      if (!charge || entries.some(entry => entry.type === LedgerEntryType.refund)) return null;
+
+      const amount = signedLedgerAmount(LedgerEntryType.refund, charge.amount);
+      await getDb().ledgerEntry.create({
+        data: {
+          organizerId: charge.organizerId,
+          userId,
+          type: LedgerEntryType.refund,
+          amount,
+          currency: charge.currency,
+          gameId: game.id
+        }
+      });
+      const balance = await this.balanceOf(charge.organizerId, userId, charge.currency);
+      await this.eventOutbox.record({
+        type: 'LedgerEntryRecorded',
+        payload: { organizerId: charge.organizerId, userId, type: LedgerEntryType.refund, amount, currency: charge.currency, balance, gameId: game.id }
+      });
+
+      this.logger.info('refundGameCharge', 'Списание за игру возвращено на баланс', { gameId: game.id, userId, amount });
+      return amount;
+    });
+  }
+
+  private async balanceOf(organizerId: string, userId: string, currency: string): Promise<number> {
+    const result = await getDb().ledgerEntry.aggregate({
+      where: { organizerId, userId, currency },
+      _sum: { amount: true }
+    });
+    return result._sum.amount ?? 0;
+  }
+
+  // Балансами ведают участники команды с правом на оплаты, включая казначея
+  private async requireOrganizer(userId: string) {
+    const membership = await prisma.organizerMember.findUnique({ where: { userId }, include: { organizer: true } });
+    if (!membership || !hasTeamPermission(membership.role as OrganizerRole, TeamPermission.managePayments)) {
+      throw new BusinessRuleError(ERROR_CODES.FORBIDDEN, 'Балансами игроков управляет только организатор', { userId });
+    }
+    return membership.organizer;
+  }
+}
+
+function toView(entry: { id: string; type: string; amount: number; currency: string; gameId: string | null; note: string | null; createdAt: Date }): LedgerEntryView {
+  return {
+    id: entry.id,
+    type: entry.type as LedgerEntryType,
+    amount: entry.amount,
+    currency: entry.currency,
+    gameId: entry.gameId,
+    note: entry.note,
+    createdAt: entry.createdAt
+  };
+}
@@ -0,0 +1,159 @@
+import { prisma, getDb, runInTransaction } from '../../infrastructure/prisma.js';
+import { BusinessRuleError } from '../../domain/errors/business-rule-error.js';
+import { ERROR_CODES } from '../../domain/errors.js';
+import { GameStatus } from '../../domain/game.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { EventOutbox } from '../../shared/event-outbox.js';
+import type { GameRepo, RegistrationRepo } from '../../infrastructure/repositories/index.js';
+
+/**
+ * Счет на оплату участия в игре
+ * Заголовок и описание счета формирует бот на языке игрока
+ */
+export interface PaymentInvoice {
+  paymentId: string; // Передается провайдеру как payload счета
+  gameId: string;
+  startsAt: Date;
+  amount: number; // В минимальных единицах валюты
+  currency: string;
+}
+
+export interface CompleteOnlinePaymentCommand {
+  paymentId: string;
+  totalAmount: number;
+  currency: string;
+  telegramChargeId: string;
+  providerChargeId: string;
+}
+
+/**
+ * Application Service онлайн-оплаты через платежного провайдера
+ * Сценарий Telegram Payments: счет (sendInvoice) -> проверка перед списанием (pre_checkout_query)
+ * -> подтверждение (successful_payment), после которого запись отмечается оплаченной
+ */
+export class OnlinePaymentApplicationService {
+  private logger = LoggerFactory.service('OnlinePaymentApplicationService');
+
+  constructor(
+    private gameRepo: GameRepo,
+    private registrationRepo: RegistrationRepo,
+    private eventOutbox: EventOutbox
+  ) {}
+
+  /**
+   * Выставляет счет игроку на его текущую долю
+   * @param provider - Имя провайдера, через который будет отправлен счет
+   * @throws BusinessRuleError если игра не найдена или отменена, у нее нет цены или запись не может быть оплачена
+   */
+  async createInvoice(gameId: string, userId: string, provider: string): Promise<PaymentInvoice> {
+    const game = await this.gameRepo.findById(gameId);
+    if (!game) {
+      throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Игра не найдена', { gameId });
+    }
+    if (game.status === GameStatus.canceled) {
+      throw new BusinessRuleError(ERROR_CODES.GAME_NOT_EDITABLE, 'Игра отменена', { gameId });
+    }
+    if (!game.pricing) {
+      throw new BusinessRuleError(ERROR_CODES.PRICING_NOT_SET, 'У игры не указана сумма для онлайн-оплаты', { gameId });
+    }
+
+    const registration = await this.registrationRepo.get(gameId, userId);
+    if (!registration) {
+      throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Игрок не записан на эту игру', { gameId, userId });
+    }
+    registration.ensureCanPayOnline();
+
+    const amount = game.amountDue(await this.gameRepo.countConfirmed(gameId))!;
+    const payment = await prisma.onlinePayment.create({
+      data: { registrationId: registration.id, provider, amount, currency: game.pricing.currency }
+    });
+
+    this.logger.info('createInvoice', 'Выставлен счет на оплату игры', { paymentId: payment.id, gameId, userId, amount, provider });
+    return { paymentId: payment.id, gameId, startsAt: game.startsAt, amount, currency: payment.currency };
+  }
+
+  /**
+   * Проверка перед списанием (pre_checkout_query): счет не оплачен, сумма не изменилась, запись можно оплатить
+   * @throws BusinessRuleError если оплату нужно отклонить
+   */
+  async validateCheckout(paymentId: string, totalAmount: number, currency: string): Promise<void> {
+    const payment = await prisma.onlinePayment.findUnique({
+      where: { id: paymentId },
+      include: { registration: true }
+    });
+    if (!payment) {
+      throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Счет не найден', { paymentId });
+    }
+    if (payment.status !== 'pending') {
+      throw new BusinessRuleError(ERROR_CODES.PAYMENT_ALREADY_MARKED, 'Счет уже оплачен', { paymentId });
+    }
+    if (payment.amount !== totalAmount || payment.currency !== currency) {
+      throw new BusinessRuleError(ERROR_CODES.INVOICE_OUTDATED, 'Сумма оплаты не совпадает со счетом', { paymentId, totalAmount, currency });
+    }
+
+    const { gameId, userId } = payment.registration;
+    const game = await this.gameRepo.findById(gameId);
+    if (!game || game.status === GameStatus.canceled) {
+      throw new BusinessRuleError(ERROR_CODES.GAME_NOT_EDITABLE, 'Игра отменена', { gameId });
+    }
+    // Аренда пересчитывается при изменении состава - счет на старую долю не принимается
+    if (game.amountDue(await this.gameRepo.countConfirmed(gameId)) !== payment.amount) {
+      throw new BusinessRuleError(ERROR_CODES.INVOICE_OUTDATED, 'Доля игрока изменилась после выставления счета', { paymentId, gameId });
+    }
+
+    const registration = await this.registrationRepo.get(gameId, userId);
+    if (!registration) {
+      throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Игрок не записан на эту игру', { gameId, userId });
+    }
+    registration.ensureCanPayOnline();
+  }
+
+  /**
+   * Фиксирует подтвержденную провайдером оплату (successful_payment) и отмечает запись оплаченной
+   * Повторное уведомление по тому же счету игнорируется
+   * @returns paid: false, если оплата уже была зафиксирована
+   */
+  async completePayment(command: CompleteOnlinePaymentCommand): Promise<{ paid: boolean; gameId: string; amount: number; currency: string }> {
+    return runInTransaction(async () => {
+      const payment = await getDb().onlinePayment.findUnique({
+        where: { id: command.paymentId },
+        include: { registration: true }
+      });
+      if (!payment) {
+        throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Счет не найден', { paymentId: command.paymentId });
+      }
+      const { gameId, userId } = payment.registration;
+      const result = { gameId, amount: command.totalAmount, currency: command.currency };
+
+      // Условное обновление: параллельное уведомление об оплате не засчитает ее второй раз
+      const { count } = await getDb().onlinePayment.updateMany({
+        where: { id: payment.id, status: 'pending' },
+        data: {
+          status: 'paid',
+          telegramChargeId: command.telegramChargeId,
+          providerChargeId: command.providerChargeId,
+          paidAt: new Date()
+        }
+      });
+      if (count === 0) {
+        this.logger.warn('completePayment', 'Повторное уведомление об оплате пропущено', { paymentId: payment.id, gameId, userId });
+        return { ...result, paid: false };
+      }
+
+      const registration = await this.registrationRepo.get(gameId, userId);
+      if (!registration) {
+        throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Игрок не записан на эту игру', { gameId, userId });
+      }
+      // Деньги уже списаны: оплата фиксируется, даже если состояние записи изменилось после проверки
+      registration.markPaidOnline(command.totalAmount);
+      await this.registrationRepo.upsert(registration);
+      await this.eventOutbox.record({
+        type: 'PaymentMarked',
+        payload: { gameId, userId }
+      });
+
+      this.logger.info('completePayment', 'Онлайн-оплата зафиксирована', { paymentId: payment.id, gameId, userId, amount: command.totalAmount });
+      return { ...result, paid: true };
+    });
+  }
+}
@@ -1,8 +1,21 @@
 import { LoggerFactory } from '../../shared/layer-logger.js';
 import { BusinessRuleError } from '../../domain/errors/business-rule-error.js';
 import { InputValidator } from '../../shared/input-validator.js';
-import { EventBus } from '../../shared/event-bus.js';
-import { prisma } from '../../infrastructure/prisma.js';
+import { EventOutbox } from '../../shared/event-outbox.js';
+import { prisma, getDb, runInTransaction } from '../../infrastructure/prisma.js';
+
+/**
+ * Игрок в списке организатора
+ */
+export interface OrganizerPlayer {
+  playerId: string;
+  playerName: string;
+  levelTag: string | null;
+  levelVerified: boolean;
+  status: string;
+  requestedAt: Date;
+  confirmedAt: Date | null;
+}
 
 /**
  * Application Service для управления организаторами и их игроками
@@ -11,7 +24,7 @@ export class OrganizerApplicationService {
   private logger = LoggerFactory.service('OrganizerApplicationService');
 
   constructor(
-    private eventBus: EventBus
+    private eventOutbox: EventOutbox
   ) {}
 
   /**
@@ -40,9 +53,9 @@ export class OrganizerApplicationService {
       throw new BusinessRuleError('NOT_FOUND', 'Один или несколько организаторов не найдены');
     }
 
-    // Удалить существующие связи и создать новые со статусом pending
-    await prisma.$transaction(async (tx: any) => {
-      await tx.playerOrganizer.deleteMany({
+    // Удалить существующие связи и создать новые со статусом pending, событие - в той же транзакции
+    await runInTransaction(async () => {
+      await getDb().playerOrganizer.deleteMany({
         where: { playerId }
       });
 
@@ -52,16 +65,14 @@ export class OrganizerApplicationService {
         status: 'pending' as const,
       }));
 
-      await tx.playerOrganizer.createMany({
+      await getDb().playerOrganizer.createMany({
         data: playerOrganizers
       });
-    });
 
-    await this.eventBus.publish({
-      type: 'PlayerSelectedOrganizers',
-      occurredAt: new Date(),
-      id: '',
-      payload: { playerId, organizerIds }
+      await this.eventOutbox.record({
+        type: 'PlayerSelectedOrganizers',
+        payload: { playerId, organizerIds }
+      });
     });
 
     return { ok: true };
@@ -85,20 +96,20 @@ export class OrganizerApplicationService {
       throw new BusinessRuleError('INVALID_STATE', 'Игрок уже подтвержден или отклонен');
     }
 
-    // Обновить статус на confirmed
-    await (prisma as any).playerOrganizer.update({
-      where: { playerId_organizerId: { playerId, organizerId } },
-      data: { status: 'confirmed', confirmedAt: new Date() }
-    });
-
     // Получить имя игрока для события
     const player = await prisma.user.findUnique({ where: { id: playerId } });
 
-    await this.eventBus.publish({
-      type: 'PlayerConfirmedByOrganizer',
-      occurredAt: new Date(),
-      id: '',
-      payload: { organizerId, playerId, playerName: player?.name || 'Unknown' }
+    // Обновить статус на confirmed
+    await runInTransaction(async () => {
+      await getDb().playerOrganizer.update({
+        where: { playerId_organizerId: { playerId, organizerId } },
+        data: { status: 'confirmed', confirmedAt: new Date() }
+      });
+
+      await this.eventOutbox.record({
+        type: 'PlayerConfirmedByOrganizer',
+        payload: { organizerId, playerId, playerName: player?.name || 'Unknown' }
+      });
     });
 
     return { ok: true };
@@ -111,28 +122,28 @@ export class OrganizerApplicationService {
     InputValidator.validateRequired(organizerId, 'organizerId');
     InputValidator.validateRequired(playerId, 'playerId');
 
-    // Обновить статус на rejected
-    const result = await (prisma as any).playerOrganizer.updateMany({
-      where: {
-        playerId,
-        organizerId,
-        status: 'pending'
-      },
-      data: { status: 'rejected' }
-    });
-
-    if (result.count === 0) {
-      throw new BusinessRuleError('NOT_FOUND', 'Связь между игроком и организатором не найдена или уже обработана');
-    }
-
     // Получить имя игрока для события
     const player = await prisma.user.findUnique({ where: { id: playerId } });
 
-    await this.eventBus.publish({
-      type: 'PlayerRejectedByOrganizer',
-      occurredAt: new Date(),
-      id: '',
-      payload: { organizerId, playerId, playerName: player?.name || 'Unknown' }
+    // Обновить статус на rejected
+    await runInTransaction(async () => {
+      const result = await getDb().playerOrganizer.updateMany({
+        where: {
+          playerId,
+          organizerId,
+          status: 'pending'
+        },
+        data: { status: 'rejected' }
+      });
+
+      if (result.count === 0) {
+        throw new BusinessRuleError('NOT_FOUND', 'Связь между игроком и организатором не найдена или уже обработана');
+      }
+
+      await this.eventOutbox.record({
+        type: 'PlayerRejectedByOrganizer',
+        payload: { organizerId, playerId, playerName: player?.name || 'Unknown' }
+      });
     });
 
     return { ok: true };
@@ -141,7 +152,7 @@ export class OrganizerApplicationService {
   /**
    * Получает список игроков организатора
    */
-  async getOrganizerPlayers(organizerId: string, status?: string): Promise<Array<any>> {
+  async getOrganizerPlayers(organizerId: string, status?: string): Promise<OrganizerPlayer[]> {
     InputValidator.validateRequired(organizerId, 'organizerId');
 
     const where: any = { organizerId };
@@ -153,7 +164,7 @@ export class OrganizerApplicationService {
       where,
       include: {
         player: {
-          select: { id: true, name: true, levelTag: true }
+          select: { id: true, name: true, levelTag: true, levelVerifiedAt: true }
         }
       },
       orderBy: { requestedAt: 'desc' }
@@ -163,6 +174,7 @@ export class OrganizerApplicationService {
       playerId: po.player.id,
       playerName: po.player.name,
       levelTag: po.player.levelTag,
+      levelVerified: po.player.levelVerifiedAt !== null,
       status: po.status,
       requestedAt: po.requestedAt,
       confirmedAt: po.confirmedAt
@@ -183,10 +195,8 @@ export class OrganizerApplicationService {
     const organizer = await (prisma as any).organizer.findUnique({ where: { id: organizerId } });
     if (!organizer) throw new BusinessRuleError('NOT_FOUND', 'Организатор не найден');
 
-    await this.eventBus.publish({
+    await this.eventOutbox.record({
       type: 'PlayerLinkedToOrganizer',
-      occurredAt: new Date(),
-      id: '',
       payload: {
         playerId,
         organizerId,
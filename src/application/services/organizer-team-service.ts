@@ -0,0 +1,142 @@
+import { prisma } from '../../infrastructure/prisma.js';
+import type { Organizer } from '../../infrastructure/prisma-types.js';
+import { BusinessRuleError } from '../../domain/errors/business-rule-error.js';
+import { ValidationError } from '../../domain/errors/validation-error.js';
+import { ERROR_CODES } from '../../domain/errors.js';
+import { OrganizerRole, TeamPermission, ASSIGNABLE_ORGANIZER_ROLES, hasTeamPermission, type AssignableOrganizerRole } from '../../domain/organizer-team.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { LOG_MESSAGES } from '../../shared/logging-messages.js';
+
+export interface AddTeamMemberCommand {
+  ownerUserId: string; // Владелец команды
+  userId: string; // Добавляемый пользователь
+  role: AssignableOrganizerRole;
+}
+
+export interface TeamMemberView {
+  userId: string;
+  name: string;
+  role: OrganizerRole;
+}
+
+/**
+ * Application Service для команды организатора
+ * Профиль организатора ведут несколько пользователей: владелец, соорганизаторы и казначеи.
+ * Права ролей описаны в domain/organizer-team.ts
+ */
+export class OrganizerTeamApplicationService {
+  private logger = LoggerFactory.service('OrganizerTeamApplicationService');
+
+  /**
+   * Команда, в которой состоит пользователь, и его роль в ней
+   * @returns null, если пользователь не состоит ни в одной команде
+   */
+  async findMembership(userId: string): Promise<{ organizer: Organizer; role: OrganizerRole } | null> {
+    const member = await prisma.organizerMember.findUnique({ where: { userId }, include: { organizer: true } });
+    return member ? { organizer: member.organizer, role: member.role as OrganizerRole } : null;
+  }
+
+  /**
+   * Участники команды пользователя: сначала владелец, затем в порядке добавления
+   * @throws BusinessRuleError если пользователь не состоит в команде
+   */
+  async listMembers(userId: string): Promise<TeamMemberView[]> {
+    const { organizer } = await this.requireMembership(userId);
+    const members = await prisma.organizerMember.findMany({
+      where: { organizerId: organizer.id },
+      include: { user: { select: { name: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return members
+      .map(member => ({ userId: member.userId, name: member.user.name, role: member.role as OrganizerRole }))
+      .sort((a, b) => Number(b.role === OrganizerRole.owner) - Number(a.role === OrganizerRole.owner));
+  }
+
+  /**
+   * Подтвержденные игроки организатора, которых можно добавить в команду
+   * @throws BusinessRuleError если пользователь не управляет командой
+   */
+  async listCandidates(ownerUserId: string): Promise<Array<{ userId: string; name: string }>> {
+    const { organizer } = await this.requireMembership(ownerUserId, TeamPermission.manageTeam);
+    const links = await prisma.playerOrganizer.findMany({
+      where: { organizerId: organizer.id, status: 'confirmed', player: { organizerMembership: null } },
+      include: { player: { select: { id: true, name: true } } },
+      orderBy: { confirmedAt: 'asc' }
+    });
+    return links.map(link => ({ userId: link.player.id, name: link.player.name }));
+  }
+
+  /**
+   * Добавляет пользователя в команду или меняет роль участника
+   * @throws BusinessRuleError если пользователь не управляет командой, добавляемый не найден,
+   * уже состоит в другой команде или является владельцем
+   * @throws ValidationError если роль нельзя назначить
+   */
+  async addMember(command: AddTeamMemberCommand): Promise<TeamMemberView> {
+    if (!ASSIGNABLE_ORGANIZER_ROLES.includes(command.role)) {
+      throw new ValidationError('role', command.role, `must be one of ${ASSIGNABLE_ORGANIZER_ROLES.join(', ')}`);
+    }
+    const { organizer } = await this.requireMembership(command.ownerUserId, TeamPermission.manageTeam);
+
+    const user = await prisma.user.findUnique({
+      where: { id: command.userId },
+      include: { organizerMembership: true }
+    });
+    if (!user) {
+      throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Пользователь не найден', { userId: command.userId });
+    }
+    const current = user.organizerMembership;
+    if (current && current.organizerId !== organizer.id) {
+      throw new BusinessRuleError(ERROR_CODES.ALREADY_TEAM_MEMBER, 'Пользователь уже состоит в команде другого организатора',
+        { userId: command.userId }
+      );
+    }
+    if (current?.role === OrganizerRole.owner) {
+      throw new BusinessRuleError(ERROR_CODES.FORBIDDEN, 'Роль владельца команды не меняется', { userId: command.userId });
+    }
+
+    await prisma.organizerMember.upsert({
+      where: { userId: command.userId },
+      update: { role: command.role },
+      create: { organizerId: organizer.id, userId: command.userId, role: command.role }
+    });
+
+    this.logger.info('addMember', LOG_MESSAGES.SERVICES.TEAM_MEMBER_ADDED,
+      { organizerId: organizer.id, userId: command.userId, role: command.role }
+    );
+    return { userId: user.id, name: user.name, role: command.role };
+  }
+
+  /**
+   * Исключает участника из команды; владельца исключить нельзя
+   * @throws BusinessRuleError если пользователь не управляет командой или участник не найден
+   */
+  async removeMember(ownerUserId: string, userId: string): Promise<{ ok: boolean }> {
+    const { organizer } = await this.requireMembership(ownerUserId, TeamPermission.manageTeam);
+
+    const member = await prisma.organizerMember.findUnique({ where: { userId } });
+    if (!member || member.organizerId !== organizer.id) {
+      throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Участник команды не найден', { userId });
+    }
+    if (member.role === OrganizerRole.owner) {
+      throw new BusinessRuleError(ERROR_CODES.FORBIDDEN, 'Владельца нельзя исключить из команды', { userId });
+    }
+
+    await prisma.organizerMember.delete({ where: { userId } });
+
+    this.logger.info('removeMember', LOG_MESSAGES.SERVICES.TEAM_MEMBER_REMOVED, { organizerId: organizer.id, userId });
+    return { ok: true };
+  }
+
+  private async requireMembership(userId: string, permission?: TeamPermission) {
+    const membership = await this.findMembership(userId);
+    if (!membership) {
+      throw new BusinessRuleError(ERROR_CODES.FORBIDDEN, 'Пользователь не состоит в команде организатора', { userId });
+    }
+    if (permission && !hasTeamPermission(membership.role, permission)) {
+      throw new BusinessRuleError(ERROR_CODES.FORBIDDEN, 'Роль в команде не позволяет это действие', { userId, permission });
+    }
+    return membership;
+  }
+}
@@ -0,0 +1,78 @@
+import { prisma, getDb, runInTransaction } from '../../infrastructure/prisma.js';
+import { BusinessRuleError } from '../../domain/errors/business-rule-error.js';
+import { ValidationError } from '../../domain/errors/validation-error.js';
+import { ERROR_CODES } from '../../domain/errors.js';
+import { OrganizerRole, TeamPermission, hasTeamPermission } from '../../domain/organizer-team.js';
+import { isSkillLevel } from '../../domain/skill-level.js';
+import { EventOutbox } from '../../shared/event-outbox.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { LOG_MESSAGES } from '../../shared/logging-messages.js';
+
+export interface VerifyPlayerLevelCommand {
+  organizerUserId: string; // Участник команды организатора
+  userId: string; // Игрок
+  levelTag: string; // Подтвержденный или исправленный уровень
+}
+
+export interface PlayerLevelView {
+  userId: string;
+  name: string;
+  from: string | null;
+  to: string;
+}
+
+/**
+ * Application Service для подтверждения уровня игроков
+ * Уровень игрок выбирает сам при регистрации; организатор подтверждает или исправляет его,
+ * после чего игрок больше не может изменить уровень самостоятельно
+ */
+export class PlayerLevelApplicationService {
+  private logger = LoggerFactory.service('PlayerLevelApplicationService');
+
+  constructor(private eventOutbox: EventOutbox) {}
+
+  /**
+   * Подтверждает или исправляет уровень подтвержденного игрока организатора
+   * @throws BusinessRuleError если пользователь не управляет игроками или игрок не подтвержден у организатора
+   * @throws ValidationError если уровень неизвестен
+   */
+  async verifyLevel(command: VerifyPlayerLevelCommand): Promise<PlayerLevelView> {
+    if (!isSkillLevel(command.levelTag)) {
+      throw new ValidationError('levelTag', command.levelTag, 'skill_level');
+    }
+
+    const membership = await prisma.organizerMember.findUnique({ where: { userId: command.organizerUserId } });
+    if (!membership || !hasTeamPermission(membership.role as OrganizerRole, TeamPermission.managePlayers)) {
+      throw new BusinessRuleError(ERROR_CODES.FORBIDDEN, 'Подтвердить уровень может только команда организатора',
+        { userId: command.organizerUserId }
+      );
+    }
+
+    const link = await prisma.playerOrganizer.findUnique({
+      where: { playerId_organizerId: { playerId: command.userId, organizerId: membership.organizerId } },
+      include: { player: { select: { name: true, levelTag: true } } }
+    });
+    if (!link || link.status !== 'confirmed') {
+      throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Игрок не подтвержден у организатора',
+        { userId: command.userId, organizerId: membership.organizerId }
+      );
+    }
+
+    const from = link.player.levelTag;
+    await runInTransaction(async () => {
+      await getDb().user.update({
+        where: { id: command.userId },
+        data: { levelTag: command.levelTag, levelVerifiedAt: new Date(), levelVerifiedById: membership.organizerId }
+      });
+      await this.eventOutbox.record({
+        type: 'PlayerLevelVerified',
+        payload: { organizerId: membership.organizerId, verifiedByUserId: command.organizerUserId, userId: command.userId, from, to: command.levelTag }
+      });
+    });
+
+    this.logger.info('verifyLevel', LOG_MESSAGES.SERVICES.PLAYER_LEVEL_VERIFIED,
+      { organizerId: membership.organizerId, userId: command.userId, from, to: command.levelTag }
+    );
+    return { userId: command.userId, name: link.player.name, from, to: command.levelTag };
+  }
+}
@@ -1,4 +1,6 @@
 import { UserRepo } from '../../infrastructure/repositories/index.js';
+import { BusinessRuleError } from '../../domain/errors/business-rule-error.js';
+import { ERROR_CODES } from '../../domain/errors.js';
 import { LoggerFactory } from '../../shared/layer-logger.js';
 import { LOG_MESSAGES } from '../../shared/logging-messages.js';
 
@@ -64,6 +66,7 @@ export class UserApplicationService {
    * @param {string} command.userId - ID пользователя
    * @param {string} command.levelTag - Новый уровень пользователя (опционально)
    * @returns {Promise<{ok: boolean}>} Результат операции
+   * @throws {BusinessRuleError} Если уровень уже подтвержден организатором
    */
   async updateUserLevel(command: UpdateUserLevelCommand): Promise<{ ok: boolean }> {
     const serviceLogger = LoggerFactory.service('user-service');
@@ -74,6 +77,13 @@ export class UserApplicationService {
     );
 
     await this.userRepo.transaction(async () => {
+      // Подтвержденный уровень меняет только организатор
+      const current = await this.userRepo.findLevel(command.userId);
+      if (current?.levelVerifiedAt && current.levelTag !== command.levelTag) {
+        throw new BusinessRuleError(ERROR_CODES.LEVEL_ALREADY_VERIFIED, 'Уровень подтвержден организатором, изменить его может только организатор',
+          { userId: command.userId }
+        );
+      }
       await this.userRepo.updateUserLevel(command.userId, command.levelTag);
     });
 
@@ -0,0 +1,138 @@
+import { VenueRepo, OrganizerRepo } from '../../infrastructure/repositories/index.js';
+import { Venue } from '../../domain/venue.js';
+import { BusinessRuleError } from '../../domain/errors/business-rule-error.js';
+import { TeamPermission, hasTeamPermission } from '../../domain/organizer-team.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { LOG_MESSAGES } from '../../shared/logging-messages.js';
+import { v4 as uuid } from 'uuid';
+
+export interface VenueFields {
+  name: string;
+  address?: string;
+  courtCount?: number;
+  isIndoor?: boolean;
+  defaultPriceText?: string;
+  defaultCapacity?: number;
+}
+
+export interface CreateVenueCommand extends VenueFields {
+  userId: string;
+}
+
+export interface UpdateVenueCommand extends Partial<VenueFields> {
+  userId: string;
+  venueId: string;
+}
+
+/**
+ * Application Service для управления площадками организаторов
+ * Организатор видит общие площадки и свои собственные, изменять может только свои
+ */
+export class VenueApplicationService {
+  private logger = LoggerFactory.service('VenueApplicationService');
+
+  constructor(
+    private venueRepo: VenueRepo,
+    private organizerRepo: OrganizerRepo
+  ) {}
+
+  /**
+   * Возвращает площадки, доступные организатору для новых игр
+   * @param userId - ID пользователя-организатора
+   */
+  async listVenues(userId: string): Promise<Venue[]> {
+    const organizer = await this.requireOrganizer(userId);
+    return this.venueRepo.listForOrganizer(organizer.id);
+  }
+
+  /**
+   * Создает собственную площадку организатора
+   * @param command - Параметры площадки
+   * @returns Созданная площадка
+   */
+  async createVenue(command: CreateVenueCommand): Promise<Venue> {
+    const organizer = await this.requireOrganizer(command.userId);
+
+    const venue = new Venue(
+      uuid(),
+      organizer.id,
+      command.name.trim(),
+      command.address?.trim() || undefined,
+      command.courtCount ?? 1,
+      command.isIndoor ?? true,
+      command.defaultPriceText?.trim() || undefined,
+      command.defaultCapacity ?? 12
+    );
+
+    await this.venueRepo.insert(venue);
+
+    this.logger.info('createVenue', LOG_MESSAGES.SERVICES.VENUE_SERVICE_CREATED,
+      { venueId: venue.id, organizerId: organizer.id }
+    );
+
+    return venue;
+  }
+
+  /**
+   * Обновляет поля собственной площадки организатора
+   * @param command - ID площадки и изменяемые поля
+   * @returns Обновленная площадка
+   * @throws BusinessRuleError если площадка не найдена, чужая или в архиве
+   */
+  async updateVenue(command: UpdateVenueCommand): Promise<Venue> {
+    const organizer = await this.requireOrganizer(command.userId);
+    const venue = await this.requireVenue(command.venueId);
+    venue.ensureCanManage(organizer.id);
+
+    if (command.name !== undefined) venue.name = command.name.trim();
+    if (command.address !== undefined) venue.address = command.address.trim() || undefined;
+    if (command.courtCount !== undefined) venue.courtCount = command.courtCount;
+    if (command.isIndoor !== undefined) venue.isIndoor = command.isIndoor;
+    if (command.defaultPriceText !== undefined) venue.defaultPriceText = command.defaultPriceText.trim() || undefined;
+    if (command.defaultCapacity !== undefined) venue.defaultCapacity = command.defaultCapacity;
+
+    await this.venueRepo.update(venue);
+
+    this.logger.info('updateVenue', LOG_MESSAGES.SERVICES.VENUE_SERVICE_UPDATED,
+      { venueId: venue.id, organizerId: organizer.id }
+    );
+
+    return venue;
+  }
+
+  /**
+   * Архивирует площадку. Прошедшие и запланированные игры сохраняют ссылку,
+   * но новые игры на ней создать нельзя
+   * @param userId - ID пользователя-организатора
+   * @param venueId - ID площадки
+   */
+  async archiveVenue(userId: string, venueId: string): Promise<{ ok: boolean }> {
+    const organizer = await this.requireOrganizer(userId);
+    const venue = await this.requireVenue(venueId);
+    venue.ensureCanManage(organizer.id);
+
+    venue.archive();
+    await this.venueRepo.update(venue);
+
+    this.logger.info('archiveVenue', LOG_MESSAGES.SERVICES.VENUE_SERVICE_ARCHIVED,
+      { venueId, organizerId: organizer.id }
+    );
+
+    return { ok: true };
+  }
+
+  // Площадками команды управляют участники с правом вести игры
+  private async requireOrganizer(userId: string) {
+    const membership = await this.organizerRepo.findMembershipByUserId(userId);
+    if (!membership || !hasTeamPermission(membership.role, TeamPermission.manageGames)) {
+      throw new BusinessRuleError('FORBIDDEN', 'Только организаторы могут управлять площадками');
+    }
+    return membership.organizer;
+  }
+
+  private async requireVenue(venueId: string): Promise<Venue> {
+    const venue = await this.venueRepo.findById(venueId);
+    if (!venue) throw new BusinessRuleError('NOT_FOUND', 'Площадка не найдена');
+    return venue;
+  }
+}
@@ -0,0 +1,160 @@
+import { runInTransaction, onCommit } from '../../infrastructure/prisma.js';
+import { BusinessRuleError } from '../../domain/errors/business-rule-error.js';
+import { ERROR_CODES } from '../../domain/errors.js';
+import { GameStatus } from '../../domain/game.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { EventOutbox } from '../../shared/event-outbox.js';
+import { SchedulerService } from '../../shared/scheduler-service.js';
+import { config } from '../../shared/config.js';
+import type { GameRepo, RegistrationRepo } from '../../infrastructure/repositories/index.js';
+
+/**
+ * Application Service листа ожидания
+ * Освободившееся место не отдается молча: первому в очереди оно предлагается на ограниченный срок.
+ * Пока игрок думает, место занято; отказ или истечение срока отменяют его запись и передают место следующему
+ */
+export class WaitlistApplicationService {
+  private logger = LoggerFactory.service('WaitlistApplicationService');
+
+  constructor(
+    private gameRepo: GameRepo,
+    private registrationRepo: RegistrationRepo,
+    private schedulerService: SchedulerService,
+    private eventOutbox: EventOutbox
+  ) {}
+
+  /**
+   * Предлагает свободные места игры следующим игрокам из листа ожидания
+   * Вызывается после выхода игрока, увеличения вместимости и закрытия предыдущего предложения
+   * @returns Игроки, которым предложено место
+   */
+  async offerFreeSpots(gameId: string, now: Date = new Date()): Promise<string[]> {
+    const game = await this.gameRepo.findById(gameId);
+    if (!game) {
+      throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Игра не найдена', { gameId });
+    }
+    const expiresAt = game.waitlistOfferExpiresAt(config.waitlist.offerWindowMinutes, now);
+    if (!expiresAt) return [];
+
+    const offered = await runInTransaction(async () => {
+      const offered: string[] = [];
+      let occupied = await this.gameRepo.countOccupied(gameId);
+      while (occupied < game.capacity) {
+        const next = await this.registrationRepo.firstWaitlisted(gameId);
+        if (!next) break;
+
+        next.offerSpot(expiresAt);
+        await this.registrationRepo.upsert(next);
+        await this.eventOutbox.record({
+          type: 'WaitlistOfferMade',
+          payload: { gameId, userId: next.userId, expiresAt: expiresAt.toISOString() }
+        });
+        offered.push(next.userId);
+        occupied++;
+      }
+
+      // Задачи истечения ставятся после коммита, чтобы откат не оставил задачу без предложения
+      await onCommit(async () => {
+        for (const userId of offered) {
+          await this.schedulerService.scheduleWaitlistOfferExpiry(gameId, userId, expiresAt);
+        }
+      });
+      return offered;
+    });
+
+    if (offered.length > 0) {
+      this.logger.info('offerFreeSpots', 'Освободившиеся места предложены игрокам из листа ожидания', {
+        gameId, offered, expiresAt: expiresAt.toISOString()
+      });
+    }
+    return offered;
+  }
+
+  /**
+   * Игрок принимает предложенное место и переходит в основной состав
+   * @throws BusinessRuleError если предложения нет, срок истек или игра уже завершена либо отменена
+   */
+  async acceptOffer(gameId: string, userId: string, now: Date = new Date()): Promise<void> {
+    const game = await this.gameRepo.findById(gameId);
+    if (!game) {
+      throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Игра не найдена', { gameId });
+    }
+    if (game.status === GameStatus.finished || game.status === GameStatus.canceled) {
+      throw new BusinessRuleError(ERROR_CODES.GAME_NOT_OPEN, 'Игра уже завершена или отменена', { gameId });
+    }
+
+    await runInTransaction(async () => {
+      const registration = await this.registrationRepo.get(gameId, userId);
+      if (!registration) {
+        throw new BusinessRuleError(ERROR_CODES.NO_WAITLIST_OFFER, 'Место не предлагалось или предложение уже закрыто', { gameId, userId });
+      }
+      registration.acceptOffer(now);
+      await this.registrationRepo.upsert(registration);
+      await this.eventOutbox.record({ type: 'WaitlistedPromoted', payload: { gameId, userId } });
+    });
+
+    this.logger.info('acceptOffer', 'Игрок принял предложенное место', { gameId, userId });
+  }
+
+  /**
+   * Игрок отказывается от предложенного места; место предлагается следующему в очереди
+   * @throws BusinessRuleError если предложения нет
+   */
+  async declineOffer(gameId: string, userId: string): Promise<void> {
+    await runInTransaction(async () => {
+      const registration = await this.registrationRepo.get(gameId, userId);
+      if (!registration) {
+        throw new BusinessRuleError(ERROR_CODES.NO_WAITLIST_OFFER, 'Место не предлагалось или предложение уже закрыто', { gameId, userId });
+      }
+      registration.declineOffer();
+      await this.registrationRepo.upsert(registration);
+      await this.eventOutbox.record({ type: 'RegistrationCanceled', payload: { gameId, userId } });
+    });
+
+    this.logger.info('declineOffer', 'Игрок отказался от предложенного места', { gameId, userId });
+    await this.offerFreeSpots(gameId);
+  }
+
+  /**
+   * Закрывает предложение, на которое игрок не ответил вовремя, и передает место следующему
+   * Задача истечения может прийти после ответа игрока - тогда ничего не меняется
+   * @returns false, если предложения уже нет или срок еще не истек
+   */
+  async expireOffer(gameId: string, userId: string, now: Date = new Date()): Promise<boolean> {
+    const expired = await runInTransaction(async () => {
+      const registration = await this.registrationRepo.get(gameId, userId);
+      if (!registration || !registration.isOfferExpired(now)) return false;
+
+      registration.declineOffer();
+      await this.registrationRepo.upsert(registration);
+      await this.eventOutbox.record({ type: 'WaitlistOfferExpired', payload: { gameId, userId } });
+      return true;
+    });
+    if (!expired) return false;
+
+    this.logger.info('expireOffer', 'Срок ответа на предложенное место истек', { gameId, userId });
+    await this.offerFreeSpots(gameId, now);
+    return true;
+  }
+
+  /**
+   * Закрывает все просроченные предложения, задачи истечения которых потерялись (например, при сбое Redis)
+   * @returns Количество закрытых предложений
+   */
+  async expireDueOffers(now: Date = new Date()): Promise<number> {
+    const due = await this.registrationRepo.findExpiredOffers(now);
+
+    let expired = 0;
+    for (const { gameId, userId } of due) {
+      try {
+        if (await this.expireOffer(gameId, userId, now)) expired++;
+      } catch (error) {
+        // Ошибка одного предложения не должна останавливать остальные
+        this.logger.error('expireDueOffers', 'Не удалось закрыть просроченное предложение', error as Error, { gameId, userId });
+      }
+    }
+
+    this.logger.info('expireDueOffers', 'Проверка просроченных предложений завершена', { found: due.length, expired });
+    return expired;
+  }
+}
@@ -0,0 +1,189 @@
+import { randomBytes } from 'node:crypto';
+import { prisma } from '../../infrastructure/prisma.js';
+import { BusinessRuleError } from '../../domain/errors/business-rule-error.js';
+import { ValidationError } from '../../domain/errors/validation-error.js';
+import { ERROR_CODES } from '../../domain/errors.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { LOG_MESSAGES } from '../../shared/logging-messages.js';
+import { isAdmin } from '../../shared/config.js';
+import { isPublicHost } from '../../shared/public-address.js';
+import type { DomainEvent } from '../../shared/types.js';
+
+/**
+ * Типы событий, которые можно получать через webhook
+ * Служебные события (напоминания, внутренние команды) наружу не отдаются
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  'GameCreated',
+  'GameUpdated',
+  'GameClosed',
+  'GameFinished',
+  'GameCanceled',
+  'GamePublishedForAll',
+  'PlayerJoined',
+  'RegistrationCanceled',
+  'WaitlistOfferMade',
+  'WaitlistOfferExpired',
+  'WaitlistedPromoted',
+  'PaymentMarked',
+  'PaymentStatusOverridden',
+  'PaymentChargedFromBalance',
+] as const satisfies ReadonlyArray<DomainEvent['type']>;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export interface CreateWebhookCommand {
+  userId: string;
+  url: string;
+  eventTypes: string[];
+  description?: string;
+}
+
+export interface WebhookEndpointView {
+  id: string;
+  organizerId: string | null;
+  url: string;
+  eventTypes: string[];
+  description: string | null;
+  active: boolean;
+  createdAt: Date;
+}
+
+function isWebhookEventType(type: string): type is WebhookEventType {
+  return (WEBHOOK_EVENT_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Application Service для управления webhook эндпоинтами
+ * Организатор получает события своих игр, администратор - события всех игр
+ */
+export class WebhookApplicationService {
+  private logger = LoggerFactory.service('WebhookApplicationService');
+
+  /**
+   * Регистрирует эндпоинт; секрет подписи возвращается только при создании
+   * @param command - URL, типы событий и описание эндпоинта
+   * @throws ValidationError если URL не HTTPS, ведет во внутреннюю сеть или указаны неизвестные типы событий
+   */
+  async createWebhook(command: CreateWebhookCommand): Promise<WebhookEndpointView & { secret: string }> {
+    const owner = await this.resolveOwner(command.userId);
+
+    let url: URL;
+    try {
+      url = new URL(command.url);
+    } catch {
+      throw new ValidationError('url', command.url, 'must be a valid URL');
+    }
+    if (url.protocol !== 'https:') {
+      throw new ValidationError('url', command.url, 'must use HTTPS');
+    }
+    // Запросы во внутреннюю сеть недопустимы: журнал доставок показал бы организатору их результат
+    const isPublic = await isPublicHost(url.hostname).catch(() => {
+      throw new ValidationError('url', command.url, 'host must resolve');
+    });
+    if (!isPublic) {
+      throw new ValidationError('url', command.url, 'must point to a public address');
+    }
+
+    const eventTypes = [...new Set(command.eventTypes)];
+    const unknownTypes = eventTypes.filter(type => !isWebhookEventType(type));
+    if (eventTypes.length === 0 || unknownTypes.length > 0) {
+      throw new ValidationError('eventTypes', unknownTypes, `must be a non-empty subset of ${WEBHOOK_EVENT_TYPES.join(', ')}`);
+    }
+
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: {
+        organizerId: owner.organizerId,
+        url: url.toString(),
+        secret: randomBytes(32).toString('hex'),
+        eventTypes,
+        description: command.description?.trim() || null
+      }
+    });
+
+    this.logger.info('createWebhook', LOG_MESSAGES.SERVICES.WEBHOOK_SERVICE_CREATED,
+      { webhookId: endpoint.id, organizerId: owner.organizerId, eventTypes }
+    );
+
+    return { ...this.toView(endpoint), secret: endpoint.secret };
+  }
+
+  /**
+   * Эндпоинты, которыми может управлять пользователь
+   */
+  async listWebhooks(userId: string): Promise<WebhookEndpointView[]> {
+    const owner = await this.resolveOwner(userId);
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: owner.isAdmin ? {} : { organizerId: owner.organizerId },
+      orderBy: { createdAt: 'asc' }
+    });
+    return endpoints.map(endpoint => this.toView(endpoint));
+  }
+
+  /**
+   * Удаляет эндпоинт вместе с журналом доставок
+   */
+  async deleteWebhook(userId: string, webhookId: string): Promise<{ ok: boolean }> {
+    await this.requireOwnEndpoint(userId, webhookId);
+    await prisma.webhookEndpoint.delete({ where: { id: webhookId } });
+
+    this.logger.info('deleteWebhook', LOG_MESSAGES.SERVICES.WEBHOOK_SERVICE_DELETED, { webhookId, userId });
+    return { ok: true };
+  }
+
+  /**
+   * Журнал доставок эндпоинта, новые сначала
+   */
+  async listDeliveries(userId: string, webhookId: string, limit = 50) {
+    await this.requireOwnEndpoint(userId, webhookId);
+    return prisma.webhookDelivery.findMany({
+      where: { endpointId: webhookId },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+  }
+
+  private async requireOwnEndpoint(userId: string, webhookId: string) {
+    const owner = await this.resolveOwner(userId);
+    const endpoint = await prisma.webhookEndpoint.findUnique({ where: { id: webhookId } });
+    if (!endpoint || (!owner.isAdmin && endpoint.organizerId !== owner.organizerId)) {
+      throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Webhook не найден', { webhookId });
+    }
+    return endpoint;
+  }
+
+  // Администратор управляет общими эндпоинтами (organizerId = null), организатор - своими
+  private async resolveOwner(userId: string): Promise<{ organizerId: string | null; isAdmin: boolean }> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, include: { organizer: true } });
+    if (!user) {
+      throw new BusinessRuleError(ERROR_CODES.NOT_FOUND, 'Пользователь не найден');
+    }
+    if (isAdmin(user.telegramId)) {
+      return { organizerId: null, isAdmin: true };
+    }
+    if (!user.organizer) {
+      throw new BusinessRuleError(ERROR_CODES.FORBIDDEN, 'Webhooks доступны только организаторам');
+    }
+    return { organizerId: user.organizer.id, isAdmin: false };
+  }
+
+  private toView(endpoint: {
+    id: string;
+    organizerId: string | null;
+    url: string;
+    eventTypes: string[];
+    description: string | null;
+    active: boolean;
+    createdAt: Date;
+  }): WebhookEndpointView {
+    return {
+      id: endpoint.id,
+      organizerId: endpoint.organizerId,
+      url: endpoint.url,
+      eventTypes: endpoint.eventTypes,
+      description: endpoint.description,
+      active: endpoint.active,
+      createdAt: endpoint.createdAt
+    };
+  }
+}
@@ -1,17 +1,42 @@
   import { Game, GameStatus } from '../domain/game.js';
-  import { RegStatus } from '../domain/registration.js';
+  import type { GameEditableFields } from '../domain/game.js';
+  import { toGamePricing, isSupportedCurrency, PricingMode } from '../domain/pricing.js';
+  import type { GamePricing } from '../domain/pricing.js';
+  import { RegStatus, PAYMENT_OVERRIDE_STATUSES } from '../domain/registration.js';
+  import type { PaymentOverrideStatus } from '../domain/registration.js';
   import type { GameRepo, RegistrationRepo } from '../infrastructure/repositories/index.js';
   import { PrismaGameRepo, PrismaRegistrationRepo } from '../infrastructure/repositories/index.js';
   import { LoggerFactory } from '../shared/layer-logger.js';
   import { LOG_MESSAGES } from '../shared/logging-messages.js';
+  import { withSpan } from '../shared/tracing.js';
+  import { metrics } from '../shared/metrics.js';
   import { BusinessRuleError } from '../domain/errors/business-rule-error.js';
   import { InputValidator } from '../shared/input-validator.js';
   import { ValidationError } from '../domain/errors/validation-error.js';
   import { GameAlreadyStartedError } from '../domain/errors/game-errors.js';
-  import { prisma } from '../infrastructure/prisma.js';
+  import { prisma, getDb, runInTransaction } from '../infrastructure/prisma.js';
+  import { EventOutbox } from '../shared/event-outbox.js';
+  import { recordDeadLetter } from '../shared/dead-letter-store.js';
   import { ApplicationServiceFactory } from './services/application-service-factory.js';
   import { OrganizerApplicationService } from './services/organizer-service.js';
   import { InvitationApplicationService } from './services/invitation-service.js';
+  import { WebhookApplicationService } from './services/webhook-service.js';
+  import type { CreateWebhookCommand } from './services/webhook-service.js';
+  import { GroupChatApplicationService } from './services/group-chat-service.js';
+  import type { BindGroupChatCommand } from './services/group-chat-service.js';
+  import { OrganizerTeamApplicationService } from './services/organizer-team-service.js';
+  import type { AddTeamMemberCommand } from './services/organizer-team-service.js';
+  import { PlayerLevelApplicationService } from './services/player-level-service.js';
+  import type { VerifyPlayerLevelCommand } from './services/player-level-service.js';
+  import { DeadLetterApplicationService } from './services/dead-letter-service.js';
+  import type { ListDeadLettersQuery } from './services/dead-letter-service.js';
+  import { AuditApplicationService } from './services/audit-service.js';
+  import { OnlinePaymentApplicationService } from './services/online-payment-service.js';
+  import type { CompleteOnlinePaymentCommand } from './services/online-payment-service.js';
+  import type { RecordLedgerEntryCommand } from './services/ledger-service.js';
+  import type { VenueFields } from './services/venue-service.js';
+  import type { CreateGameSeriesCommand, PendingSeriesGame } from './services/game-series-service.js';
+  import { config } from '../shared/config.js';
 
   // Инициализируем фабрику сервисов
   const serviceFactory = ApplicationServiceFactory.getInstance();
@@ -21,8 +46,36 @@
   const registrationRepo: RegistrationRepo = serviceFactory.getRegistrationRepo();
   const eventBus = serviceFactory.getEventBus();
   const schedulerService = serviceFactory.getSchedulerService();
-  const organizerApplicationService = new OrganizerApplicationService(eventBus);
-  const invitationApplicationService = new InvitationApplicationService(eventBus);
+  const venueApplicationService = serviceFactory.getVenueApplicationService();
+  const gameSeriesApplicationService = serviceFactory.getGameSeriesApplicationService();
+  const ledgerApplicationService = serviceFactory.getLedgerApplicationService();
+  const waitlistApplicationService = serviceFactory.getWaitlistApplicationService();
+  const eventOutbox = EventOutbox.getInstance();
+  const organizerApplicationService = new OrganizerApplicationService(eventOutbox);
+  const invitationApplicationService = new InvitationApplicationService(eventOutbox);
+  const webhookApplicationService = new WebhookApplicationService();
+  const groupChatApplicationService = new GroupChatApplicationService();
+  const organizerTeamApplicationService = new OrganizerTeamApplicationService();
+  const deadLetterApplicationService = new DeadLetterApplicationService(eventBus);
+  const auditApplicationService = new AuditApplicationService();
+  const onlinePaymentApplicationService = new OnlinePaymentApplicationService(gameRepo, registrationRepo, eventOutbox);
+  const playerLevelApplicationService = new PlayerLevelApplicationService(eventOutbox);
+
+  /**
+   * Выполняет use case в отдельном спане и записывает его длительность в метрики.
+   * Длительность пишется в finally, чтобы неудачные вызовы тоже попадали в гистограмму (outcome="error").
+   */
+  async function runUseCase<T>(name: string, attributes: Parameters<typeof withSpan>[1], fn: () => Promise<T>): Promise<T> {
+    const startedAt = Date.now();
+    let outcome = 'error';
+    try {
+      const result = await withSpan(`use-case ${name}`, attributes, fn);
+      outcome = 'success';
+      return result;
+    } finally {
+      metrics.useCaseDuration.observe((Date.now() - startedAt) / 1000, { use_case: name, outcome });
+    }
+  }
 
   /**
    * Позволяет пользователю присоединиться к игре.
@@ -32,97 +85,98 @@
    * @throws {BusinessRuleError} - Если игра не найдена или пользователь не может присоединиться.
    */
    export async function joinGame(gameId: string, userId: string): Promise<{ status: RegStatus; }> {
-     // Валидация входных данных
-     InputValidator.validateRequired(gameId, 'gameId');
-     InputValidator.validateRequired(userId, 'userId');
-
-    const useCaseLogger = LoggerFactory.useCase('joinGame');
-    const correlationId = `join_${userId}_${gameId}_${Date.now()}`;
+    return runUseCase('joinGame', { gameId, userId }, async () => {
+       // Валидация входных данных
+       InputValidator.validateRequired(gameId, 'gameId');
+       InputValidator.validateRequired(userId, 'userId');
 
-    useCaseLogger.info('joinGame', LOG_MESSAGES.USE_CASES.JOIN_GAME_PROCESSING,
-      { gameId, userId },
-      { correlationId }
-    );
+      const useCaseLogger = LoggerFactory.useCase('joinGame');
+      const startedAt = Date.now();
 
-    // Проверить, находится ли игра в приоритетном окне
-    const game = await prisma.game.findUnique({
-      where: { id: gameId },
-      select: { status: true, organizerId: true, startsAt: true, createdAt: true }
-    });
+      useCaseLogger.info('joinGame', LOG_MESSAGES.USE_CASES.JOIN_GAME_PROCESSING,
+        { gameId, userId }
+      );
 
-    if (!game) {
-      throw new BusinessRuleError('NOT_FOUND', 'Игра не найдена');
-    }
+      // Проверить, находится ли игра в приоритетном окне
+      const game = await prisma.game.findUnique({
+        where: { id: gameId },
+        select: { status: true, organizerId: true, startsAt: true, createdAt: true }
+      });
 
-    // Проверить, что игра еще не началась
-    // NOTE: Время игры хранится в UTC, сравниваем с текущим временем в UTC
-    if (game.startsAt <= new Date()) {
-      throw new GameAlreadyStartedError(gameId, game.startsAt);
-    }
+      if (!game) {
+        throw new BusinessRuleError('NOT_FOUND', 'Игра не найдена');
+      }
 
-    // Если игра создана недавно (в течение последних 2 часов), проверить статус ответов приоритетных игроков
-    // Но только если пользователь не является организатором игры
-    const gameAge = Date.now() - game.createdAt.getTime();
-    let isInPriorityWindow = game.status === 'open' && gameAge < 2 * 60 * 60 * 1000;
+      // Проверить, что игра еще не началась
+      // NOTE: Время игры хранится в UTC, сравниваем с текущим временем в UTC
+      if (game.startsAt <= new Date()) {
+        throw new GameAlreadyStartedError(gameId, game.startsAt);
+      }
 
-    if (isInPriorityWindow) {
-      // Получить подтвержденных игроков организатора
-      const confirmedPlayers = await (prisma as any).playerOrganizer.findMany({
-        where: {
-          organizerId: game.organizerId,
-          status: 'confirmed'
-        },
-        select: { playerId: true }
-      });
+      // Если игра создана недавно (в течение последних 2 часов), проверить статус ответов приоритетных игроков
+      // Но только если пользователь не является организатором игры
+      const gameAge = Date.now() - game.createdAt.getTime();
+      let isInPriorityWindow = game.status === 'open' && gameAge < 2 * 60 * 60 * 1000;
 
-      if (confirmedPlayers.length > 0) {
-        // Получить ответы приоритетных игроков
-        const responses = await (prisma as any).gamePlayerResponse.findMany({
+      if (isInPriorityWindow) {
+        // Получить подтвержденных игроков организатора
+        const confirmedPlayers = await (prisma as any).playerOrganizer.findMany({
           where: {
-            gameId,
-            playerId: { in: confirmedPlayers.map((p: any) => p.playerId) }
+            organizerId: game.organizerId,
+            status: 'confirmed'
           },
-          select: { response: true }
+          select: { playerId: true }
         });
 
-        // Проверить, все ли приоритетные игроки ответили (не 'ignored')
-        const allResponded = responses.length === confirmedPlayers.length &&
-          responses.every((r: any) => r.response !== 'ignored');
-
-        // Если все ответили, приоритетное окно закрыто
-        isInPriorityWindow = !allResponded;
-      } else {
-        // Нет приоритетных игроков - окно не активно
-        isInPriorityWindow = false;
+        if (confirmedPlayers.length > 0) {
+          // Получить ответы приоритетных игроков
+          const responses = await (prisma as any).gamePlayerResponse.findMany({
+            where: {
+              gameId,
+              playerId: { in: confirmedPlayers.map((p: any) => p.playerId) }
+            },
+            select: { response: true }
+          });
+
+          // Проверить, все ли приоритетные игроки ответили (не 'ignored')
+          const allResponded = responses.length === confirmedPlayers.length &&
+            responses.every((r: any) => r.response !== 'ignored');
+
+          // Если все ответили, приоритетное окно закрыто
+          isInPriorityWindow = !allResponded;
+        } else {
+          // Нет приоритетных игроков - окно не активно
+          isInPriorityWindow = false;
+        }
       }
-    }
 
-    if (isInPriorityWindow) {
-      // Проверить, является ли пользователь организатором игры
-      const isOrganizer = game.organizerId === userId;
-      if (!isOrganizer) {
-        const isConfirmedPlayer = await (prisma as any).playerOrganizer.findFirst({
-          where: {
-            playerId: userId,
-            organizerId: game.organizerId,
-            status: 'confirmed'
-          }
-        });
+      if (isInPriorityWindow) {
+        // Проверить, является ли пользователь организатором игры
+        const isOrganizer = game.organizerId === userId;
+        if (!isOrganizer) {
+          const isConfirmedPlayer = await (prisma as any).playerOrganizer.findFirst({
+            where: {
+              playerId: userId,
+              organizerId: game.organizerId,
+              status: 'confirmed'
+            }
+          });
 
-        if (!isConfirmedPlayer) {
-          throw new BusinessRuleError('PRIORITY_WINDOW_ACTIVE', 'Игра доступна только для подтвержденных игроков организатора в приоритетное окно');
+          if (!isConfirmedPlayer) {
+            throw new BusinessRuleError('PRIORITY_WINDOW_ACTIVE', 'Игра доступна только для подтвержденных игроков организатора в приоритетное окно');
+          }
         }
       }
-    }
     
-    const result = await gameApplicationService.joinGame({ gameId, userId });
+      const result = await gameApplicationService.joinGame({ gameId, userId });
 
-    useCaseLogger.info('joinGame', LOG_MESSAGES.USE_CASES.JOIN_GAME_COMPLETED,
-      { gameId, userId, status: result.status },
-      { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[2] || '0') }
-    );
+      useCaseLogger.info('joinGame', LOG_MESSAGES.USE_CASES.JOIN_GAME_COMPLETED,
+        { gameId, userId, status: result.status },
+        { executionTimeMs: Date.now() - startedAt }
+      );
 
-    return result;
+      return result;
+    });
   }
 
   /**
@@ -132,43 +186,43 @@
    * @returns {Promise<{ ok: boolean }>} - Успех операции.
    */
   export async function leaveGame(gameId: string, userId: string): Promise<{ ok: boolean; }> {
-    // Валидация входных данных
-    InputValidator.validateRequired(gameId, 'gameId');
-    InputValidator.validateRequired(userId, 'userId');
-
-    const useCaseLogger = LoggerFactory.useCase('leaveGame');
-    const correlationId = `leave_${userId}_${gameId}_${Date.now()}`;
-
-    useCaseLogger.info('leaveGame', 'Обработка запроса на выход из игры',
-      { gameId, userId },
-      { correlationId }
-    );
-
-    return prisma.$transaction(async (tx: any) => {
-      const reg = await registrationRepo.get(gameId, userId);
-      if (!reg) return { ok: true };
-      if (reg.status === RegStatus.canceled) return { ok: true };
-
-      reg.cancel();
-      await registrationRepo.upsert(reg);
-      useCaseLogger.info('leaveGame', 'Пользователь вышел из игры',
-        { gameId, userId },
-        { correlationId }
+    return runUseCase('leaveGame', { gameId, userId }, async () => {
+      // Валидация входных данных
+      InputValidator.validateRequired(gameId, 'gameId');
+      InputValidator.validateRequired(userId, 'userId');
+
+      const useCaseLogger = LoggerFactory.useCase('leaveGame');
+
+      useCaseLogger.info('leaveGame', 'Обработка запроса на выход из игры',
+        { gameId, userId }
       );
-      await eventBus.publish({ type: 'RegistrationCanceled', occurredAt: new Date(), id: '', payload: { gameId, userId } });
 
-      // Продвинуть следующего из списка ожидания
-      const next = await registrationRepo.firstWaitlisted(gameId);
-      if (next) {
-        await registrationRepo.promoteToConfirmed(next.id);
-        useCaseLogger.info('leaveGame', 'Пользователь из списка ожидания повышен до подтвержденного',
-          { gameId, promotedUserId: next.userId },
-          { correlationId }
+      // Запись, предложение места из листа ожидания и события в outbox - одной транзакцией
+      return runInTransaction(async () => {
+        const reg = await registrationRepo.get(gameId, userId);
+        if (!reg) return { ok: true };
+        if (reg.status === RegStatus.canceled) return { ok: true };
+
+        const freesSpot = reg.status === RegStatus.confirmed || reg.status === RegStatus.offered;
+        reg.cancel();
+        await registrationRepo.upsert(reg);
+        useCaseLogger.info('leaveGame', 'Пользователь вышел из игры',
+          { gameId, userId }
         );
-        await eventBus.publish({ type: 'WaitlistedPromoted', occurredAt: new Date(), id: '', payload: { gameId, userId: next.userId } });
-      }
+        await eventOutbox.record({ type: 'RegistrationCanceled', payload: { gameId, userId } });
+
+        // Освободившееся место предлагается следующему из списка ожидания - он должен его принять
+        if (freesSpot) {
+          const offered = await waitlistApplicationService.offerFreeSpots(gameId);
+          if (offered.length > 0) {
+            useCaseLogger.info('leaveGame', 'Освободившееся место предложено пользователю из списка ожидания',
+              { gameId, offeredUserIds: offered }
+            );
+          }
+        }
 
-      return { ok: true };
+        return { ok: true };
+      });
     });
   }
 
@@ -180,26 +234,63 @@
    * @throws {BusinessRuleError} - Если игра не найдена или окно оплаты еще не открыто.
    */
   export async function markPayment(gameId: string, userId: string): Promise<{ ok: boolean; }> {
-    // Валидация входных данных
-    InputValidator.validateRequired(gameId, 'gameId');
-    InputValidator.validateRequired(userId, 'userId');
+    return runUseCase('markPayment', { gameId, userId }, async () => {
+      // Валидация входных данных
+      InputValidator.validateRequired(gameId, 'gameId');
+      InputValidator.validateRequired(userId, 'userId');
+
+      const useCaseLogger = LoggerFactory.useCase('markPayment');
+      const startedAt = Date.now();
 
-    const useCaseLogger = LoggerFactory.useCase('markPayment');
-    const correlationId = `mark_payment_${userId}_${gameId}_${Date.now()}`;
+      useCaseLogger.info('markPayment', 'Обработка запроса на отметку оплаты',
+        { gameId, userId }
+      );
+
+      await gameApplicationService.markPayment({ gameId, userId });
+
+      useCaseLogger.info('markPayment', 'Оплата отмечена успешно',
+        { gameId, userId },
+        { executionTimeMs: Date.now() - startedAt }
+      );
+
+      return { ok: true };
+    });
+  }
+
+  /**
+   * Устанавливает статус оплаты участника от имени организатора (наличные, ошибочная отметка, спор).
+   * @param {string} gameId - Идентификатор игры.
+   * @param {string} actorId - ID участника команды организатора, меняющего статус.
+   * @param {string} userId - Идентификатор игрока.
+   * @param {string} status - Новый статус: paid, unpaid или disputed.
+   * @returns Статус оплаты до и после изменения.
+   * @throws {BusinessRuleError} - Если роль в команде организатора игры не позволяет вести оплаты, игра отменена либо игрок не подтвержден.
+   */
+  export async function overridePayment(gameId: string, actorId: string, userId: string, status: string) {
+    return runUseCase('overridePayment', { gameId, actorId, userId }, async () => {
+      // Валидация входных данных
+      InputValidator.validateRequired(gameId, 'gameId');
+      InputValidator.validateRequired(actorId, 'actorId');
+      InputValidator.validateRequired(userId, 'userId');
+      if (!PAYMENT_OVERRIDE_STATUSES.includes(status as PaymentOverrideStatus)) {
+        throw new ValidationError('status', status, 'payment_override_status');
+      }
 
-    useCaseLogger.info('markPayment', 'Обработка запроса на отметку оплаты',
-      { gameId, userId },
-      { correlationId }
-    );
+      const useCaseLogger = LoggerFactory.useCase('overridePayment');
 
-    await gameApplicationService.markPayment({ gameId, userId });
+      const result = await gameApplicationService.overridePayment({
+        gameId,
+        actorId,
+        userId,
+        status: status as PaymentOverrideStatus
+      });
 
-    useCaseLogger.info('markPayment', 'Оплата отмечена успешно',
-      { gameId, userId },
-      { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[3] || '0') }
-    );
+      useCaseLogger.info('overridePayment', 'Организатор изменил статус оплаты',
+        { gameId, actorId, userId, from: result.from, to: result.to }
+      );
 
-    return { ok: true };
+      return result;
+    });
   }
 
   /**
@@ -208,28 +299,28 @@
    * @returns {Promise<void>} - Успех операции.
    */
   export async function scheduleGameReminders(gameId: string) {
-    // Валидация входных данных
-    InputValidator.validateRequired(gameId, 'gameId');
+    return runUseCase('scheduleGameReminders', { gameId }, async () => {
+      // Валидация входных данных
+      InputValidator.validateRequired(gameId, 'gameId');
 
-    const useCaseLogger = LoggerFactory.useCase('scheduleGameReminders');
-    const correlationId = `schedule_reminders_${gameId}_${Date.now()}`;
+      const useCaseLogger = LoggerFactory.useCase('scheduleGameReminders');
+      const startedAt = Date.now();
 
-    useCaseLogger.info('scheduleGameReminders', 'Обработка запроса на планирование напоминаний игры',
-      { gameId },
-      { correlationId }
-    );
+      useCaseLogger.info('scheduleGameReminders', 'Обработка запроса на планирование напоминаний игры',
+        { gameId }
+      );
 
-    const game = await gameRepo.findById(gameId);
-    if (!game) throw new BusinessRuleError('NOT_FOUND', 'Игра не найдена');
+      const game = await gameRepo.findById(gameId);
+      if (!game) throw new BusinessRuleError('NOT_FOUND', 'Игра не найдена');
 
-    // Use new SchedulerService
-    await schedulerService.scheduleGameReminder24h(gameId, game.startsAt);
-    await schedulerService.initializeWorkers(); // Ensure workers are running
+      // Use new SchedulerService
+      await schedulerService.scheduleGameReminder24h(gameId, game.startsAt);
 
-    useCaseLogger.info('scheduleGameReminders', 'Напоминания игры запланированы',
-      { gameId },
-      { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[2] || '0') }
-    );
+      useCaseLogger.info('scheduleGameReminders', 'Напоминания игры запланированы',
+        { gameId },
+        { executionTimeMs: Date.now() - startedAt }
+      );
+    });
   }
 
   /**
@@ -238,28 +329,29 @@
    * @returns {Promise<void>} - Успех операции.
    */
   export async function schedulePaymentReminders(gameId: string) {
-    // Валидация входных данных
-    InputValidator.validateRequired(gameId, 'gameId');
+    return runUseCase('schedulePaymentReminders', { gameId }, async () => {
+      // Валидация входных данных
+      InputValidator.validateRequired(gameId, 'gameId');
 
-    const useCaseLogger = LoggerFactory.useCase('schedulePaymentReminders');
-    const correlationId = `schedule_payment_reminders_${gameId}_${Date.now()}`;
+      const useCaseLogger = LoggerFactory.useCase('schedulePaymentReminders');
+      const startedAt = Date.now();
 
-    useCaseLogger.info('schedulePaymentReminders', 'Обработка запроса на планирование напоминаний оплаты',
-      { gameId },
-      { correlationId }
-    );
+      useCaseLogger.info('schedulePaymentReminders', 'Обработка запроса на планирование напоминаний оплаты',
+        { gameId }
+      );
 
-    const game = await gameRepo.findById(gameId);
-    if (!game) throw new BusinessRuleError('NOT_FOUND', 'Игра не найдена');
+      const game = await gameRepo.findById(gameId);
+      if (!game) throw new BusinessRuleError('NOT_FOUND', 'Игра не найдена');
 
-    // Use new SchedulerService
-    await schedulerService.schedulePaymentReminder12h(gameId, game.startsAt);
-    await schedulerService.schedulePaymentReminder24h(gameId, game.startsAt);
+      // Use new SchedulerService
+      await schedulerService.schedulePaymentReminder12h(gameId, game.startsAt);
+      await schedulerService.schedulePaymentReminder24h(gameId, game.startsAt);
 
-    useCaseLogger.info('schedulePaymentReminders', 'Напоминания оплаты запланированы',
-      { gameId },
-      { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[3] || '0') }
-    );
+      useCaseLogger.info('schedulePaymentReminders', 'Напоминания оплаты запланированы',
+        { gameId },
+        { executionTimeMs: Date.now() - startedAt }
+      );
+    });
   }
 
   /**
@@ -269,53 +361,52 @@
    * @returns {Promise<{ sent: number }>} - Количество отправленных напоминаний.
    */
   export async function sendPaymentReminders(gameId: string, organizerId: string | undefined) {
-    // Валидация входных данных
-    InputValidator.validateRequired(gameId, 'gameId');
-    InputValidator.validateRequired(organizerId, 'organizerId');
-
-    const useCaseLogger = LoggerFactory.useCase('sendPaymentReminders');
-    const correlationId = `send_payment_reminders_${gameId}_${organizerId}_${Date.now()}`;
-
-    useCaseLogger.info('sendPaymentReminders', 'Обработка запроса на отправку напоминаний оплаты',
-      { gameId, organizerId },
-      { correlationId }
-    );
-
-    // Проверить, что организатор владеет игрой
-    const game = await prisma.game.findUnique({
-      where: { id: gameId, organizerId },
-      include: {
-        registrations: {
-          where: { status: 'confirmed', paymentStatus: 'unpaid' },
-          include: { user: true }
-        }
-      }
-    });
+    return runUseCase('sendPaymentReminders', { gameId, organizerId }, async () => {
+      // Валидация входных данных
+      InputValidator.validateRequired(gameId, 'gameId');
+      InputValidator.validateRequired(organizerId, 'organizerId');
 
-    if (!game) {
-      throw new BusinessRuleError('NOT_FOUND', 'Игра не найдена или доступ запрещен');
-    }
+      const useCaseLogger = LoggerFactory.useCase('sendPaymentReminders');
+      const startedAt = Date.now();
 
-    // Публикуем событие для массовых напоминаний
-    await eventBus.publish({
-      type: 'SendPaymentReminders',
-      occurredAt: new Date(),
-      id: '',
-      payload: {
-        gameId,
-        unpaidRegistrations: game.registrations.map(r => ({
-          userId: r.userId,
-          telegramId: r.user.telegramId
-        }))
+      useCaseLogger.info('sendPaymentReminders', 'Обработка запроса на отправку напоминаний оплаты',
+        { gameId, organizerId }
+      );
+
+      // Проверить, что организатор владеет игрой
+      const game = await prisma.game.findUnique({
+        where: { id: gameId, organizerId },
+        include: {
+          registrations: {
+            where: { status: 'confirmed', paymentStatus: 'unpaid' },
+            include: { user: true }
+          }
+        }
+      });
+
+      if (!game) {
+        throw new BusinessRuleError('NOT_FOUND', 'Игра не найдена или доступ запрещен');
       }
-    });
 
-    useCaseLogger.info('sendPaymentReminders', 'Напоминания оплаты отправлены',
-      { gameId, count: game.registrations.length },
-      { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[3] || '0') }
-    );
+      // Событие для массовых напоминаний доставляется через outbox
+      await eventOutbox.record({
+        type: 'SendPaymentReminders',
+        payload: {
+          gameId,
+          unpaidRegistrations: game.registrations.map(r => ({
+            userId: r.userId,
+            telegramId: r.user.telegramId
+          }))
+        }
+      });
+
+      useCaseLogger.info('sendPaymentReminders', 'Напоминания оплаты отправлены',
+        { gameId, count: game.registrations.length },
+        { executionTimeMs: Date.now() - startedAt }
+      );
 
-    return { sent: game.registrations.length };
+      return { sent: game.registrations.length };
+    });
   }
 
   /**
@@ -327,6 +418,8 @@
    * @param {number} data.capacity - Вместимость игры.
    * @param {string} [data.levelTag] - Уровень игры (опционально).
    * @param {string} [data.priceText] - Цена игры (опционально).
+   * @param {GamePricing} [data.pricing] - Структурированная цена; без нее определяется по priceText, если текст однозначен.
+   * @param {string} [data.seriesId] - Серия, по расписанию которой создается игра (опционально).
    * @returns {Promise<Game>} - Созданная игра.
    */
   export async function createGame(data: {
@@ -336,366 +429,845 @@
     capacity: number;
     levelTag?: string;
     priceText?: string;
+    pricing?: GamePricing;
+    seriesId?: string;
+    minLevel?: string;
+    maxLevel?: string;
   }) {
-    // Валидация входных данных
-    InputValidator.validateRequired(data.organizerId, 'organizerId');
-    InputValidator.validateRequired(data.venueId, 'venueId');
-    InputValidator.validateDate(data.startsAt, 'startsAt');
-    InputValidator.validatePositiveNumber(data.capacity, 'capacity');
-    if (data.capacity > 100) {
-      throw new ValidationError('capacity', data.capacity, 'max_100');
-    }
+    return runUseCase('createGame', { organizerId: data.organizerId }, async () => {
+      // Валидация входных данных
+      InputValidator.validateRequired(data.organizerId, 'organizerId');
+      InputValidator.validateRequired(data.venueId, 'venueId');
+      InputValidator.validateDate(data.startsAt, 'startsAt');
+      InputValidator.validatePositiveNumber(data.capacity, 'capacity');
+      if (data.capacity > 100) {
+        throw new ValidationError('capacity', data.capacity, 'max_100');
+      }
+      if (data.pricing) {
+        validatePricing(data.pricing);
+      }
 
-    const useCaseLogger = LoggerFactory.useCase('createGame');
-    const correlationId = `create_game_${data.organizerId}_${Date.now()}`;
+      const useCaseLogger = LoggerFactory.useCase('createGame');
+      const startedAt = Date.now();
 
-    useCaseLogger.info('createGame', 'Обработка запроса на создание игры',
-      { organizerId: data.organizerId, venueId: data.venueId, capacity: data.capacity },
-      { correlationId }
-    );
+      useCaseLogger.info('createGame', 'Обработка запроса на создание игры',
+        { organizerId: data.organizerId, venueId: data.venueId, capacity: data.capacity }
+      );
 
-    // Use new Application Service
-    const result = await gameApplicationService.createGame(data);
+      // Use new Application Service
+      const result = await gameApplicationService.createGame(data);
 
-    useCaseLogger.info('createGame', 'Игра создана успешно',
-      { gameId: result.id, organizerId: data.organizerId },
-      { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[2] || '0') }
-    );
+      useCaseLogger.info('createGame', 'Игра создана успешно',
+        { gameId: result.id, organizerId: data.organizerId },
+        { executionTimeMs: Date.now() - startedAt }
+      );
 
-    return result;
+      return result;
+    });
   }
 
   /**
-   * Регистрирует пользователя.
-   * @param {number | bigint} telegramId - Telegram ID пользователя.
-   * @param {string} name - Имя пользователя.
-   * @returns {Promise<{ userId: string }>} - ID созданного пользователя.
+   * Изменяет параметры существующей игры.
+   * @param {string} gameId - Идентификатор игры.
+   * @param {string} actorId - ID участника команды организатора, изменяющего игру.
+   * @param {Partial<GameEditableFields> & { pricing?: GamePricing }} data - Новые значения полей (незаданные не меняются);
+   * pricing - структурированная цена к новому priceText.
+   * @returns {Promise<{ changes: GameChanges; offeredUserIds: string[] }>} - Diff изменений и игроки из листа ожидания, которым предложено место.
+   * @throws {BusinessRuleError} - Если игра не найдена, неактивна, площадка занята или роль в команде организатора игры не позволяет вести игры.
    */
-  export async function registerUser(telegramId: number | bigint, name: string): Promise<{ userId: string; }> {
-    // Валидация входных данных
-    InputValidator.validatePositiveNumber(Number(telegramId), 'telegramId');
-    InputValidator.validateRequired(name, 'name');
-    InputValidator.validateStringLength(name, 'name', 1, 100);
+  export async function updateGame(
+    gameId: string,
+    actorId: string,
+    data: Partial<GameEditableFields> & { pricing?: GamePricing }
+  ) {
+    return runUseCase('updateGame', { gameId, actorId }, async () => {
+      // Валидация входных данных
+      InputValidator.validateRequired(gameId, 'gameId');
+      InputValidator.validateRequired(actorId, 'actorId');
+      if (data.startsAt !== undefined) {
+        InputValidator.validateDate(data.startsAt, 'startsAt');
+      }
+      if (data.capacity !== undefined) {
+        InputValidator.validatePositiveNumber(data.capacity, 'capacity');
+        if (data.capacity > 100) {
+          throw new ValidationError('capacity', data.capacity, 'max_100');
+        }
+      }
+      if (data.priceText !== undefined) {
+        InputValidator.validateStringLength(data.priceText, 'priceText', 1, 100);
+      }
+      if (data.pricing) {
+        validatePricing(data.pricing);
+      }
 
-    const useCaseLogger = LoggerFactory.useCase('registerUser');
-    const correlationId = `register_${telegramId}_${Date.now()}`;
+      const useCaseLogger = LoggerFactory.useCase('updateGame');
+      const startedAt = Date.now();
 
-    useCaseLogger.info('registerUser', LOG_MESSAGES.USE_CASES.REGISTER_USER_PROCESSING,
-      { telegramId, name },
-      { correlationId }
-    );
+      useCaseLogger.info('updateGame', 'Обработка запроса на изменение игры',
+        { gameId, actorId, fields: Object.keys(data) }
+      );
 
-    try {
-      const result = await userApplicationService.registerUser({ telegramId, name });
+      const result = await gameApplicationService.updateGame({ gameId, actorId, ...data });
 
-      useCaseLogger.info('registerUser', LOG_MESSAGES.USE_CASES.REGISTER_USER_COMPLETED,
-        { userId: result.userId, telegramId },
-        { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[2] || '0') }
+      useCaseLogger.info('updateGame', 'Игра изменена',
+        { gameId, changedFields: Object.keys(result.changes), offered: result.offeredUserIds.length },
+        { executionTimeMs: Date.now() - startedAt }
       );
 
       return result;
-    } catch (error) {
-      useCaseLogger.error('registerUser', LOG_MESSAGES.USE_CASES.REGISTER_USER_FAILED,
-        error as Error,
-        { telegramId, name, error: (error as Error).message },
-        { correlationId }
-      );
-      throw error;
+    });
+  }
+
+  /**
+   * Валидирует структурированную цену игры.
+   * @param {GamePricing} pricing - Способ расчета, сумма в минимальных единицах и валюта.
+   */
+  function validatePricing(pricing: GamePricing) {
+    InputValidator.validateEnum(pricing.mode, 'pricing.mode', Object.values(PricingMode));
+    if (!Number.isInteger(pricing.amount) || pricing.amount <= 0) {
+      throw new ValidationError('pricing.amount', pricing.amount, 'positive_minor_units');
+    }
+    if (!isSupportedCurrency(pricing.currency)) {
+      throw new ValidationError('pricing.currency', pricing.currency, 'iso_4217');
     }
   }
 
   /**
-   * Обновляет уровень пользователя.
-   * @param {string} userId - ID пользователя.
-   * @param {string} levelTag - Уровень игры.
-   * @returns {Promise<{ ok: boolean }>} - Успех операции.
+   * Валидирует поля площадки, общие для создания и редактирования.
+   * @param {Partial<VenueFields>} fields - Поля площадки.
    */
-  export async function updateUserLevel(userId: string, levelTag: string | undefined): Promise<{ ok: boolean; }> {
-    // Валидация входных данных
-    InputValidator.validateRequired(userId, 'userId');
+  function validateVenueFields(fields: Partial<VenueFields>) {
+    if (fields.name !== undefined) {
+      InputValidator.validateStringLength(fields.name.trim(), 'name', 1, 100);
+    }
+    if (fields.address !== undefined) {
+      InputValidator.validateStringLength(fields.address, 'address', 0, 200);
+    }
+    if (fields.courtCount !== undefined) {
+      InputValidator.validatePositiveNumber(fields.courtCount, 'courtCount');
+      if (fields.courtCount > 20) {
+        throw new ValidationError('courtCount', fields.courtCount, 'max_20');
+      }
+    }
+    if (fields.defaultCapacity !== undefined) {
+      InputValidator.validatePositiveNumber(fields.defaultCapacity, 'defaultCapacity');
+      if (fields.defaultCapacity > 100) {
+        throw new ValidationError('defaultCapacity', fields.defaultCapacity, 'max_100');
+      }
+    }
+  }
+
+  /**
+   * Возвращает площадки, доступные организатору: собственные и общие.
+   * @param {string} userId - ID пользователя-организатора.
+   * @returns {Promise<Venue[]>} - Список активных площадок.
+   */
+  export async function listVenues(userId: string) {
+    return runUseCase('listVenues', { userId }, async () => {
+      InputValidator.validateRequired(userId, 'userId');
+      return venueApplicationService.listVenues(userId);
+    });
+  }
+
+  /**
+   * Создает площадку организатора.
+   * @param {string} userId - ID пользователя-организатора.
+   * @param {VenueFields} fields - Название, адрес, корты, тип и значения по умолчанию.
+   * @returns {Promise<Venue>} - Созданная площадка.
+   */
+  export async function createVenue(userId: string, fields: VenueFields) {
+    return runUseCase('createVenue', { userId }, async () => {
+      InputValidator.validateRequired(userId, 'userId');
+      InputValidator.validateRequired(fields.name, 'name');
+      validateVenueFields(fields);
 
-    const useCaseLogger = LoggerFactory.useCase('updateUserLevel');
-    const correlationId = `update_level_${userId}_${Date.now()}`;
+      const useCaseLogger = LoggerFactory.useCase('createVenue');
+      const startedAt = Date.now();
 
-    useCaseLogger.info('updateUserLevel', 'Обработка запроса на обновление уровня пользователя',
-      { userId, levelTag },
-      { correlationId }
-    );
+      useCaseLogger.info('createVenue', 'Обработка запроса на создание площадки',
+        { userId, name: fields.name }
+      );
 
-    const result = await userApplicationService.updateUserLevel({ userId, levelTag });
+      const result = await venueApplicationService.createVenue({ userId, ...fields });
 
-    useCaseLogger.info('updateUserLevel', 'Уровень пользователя обновлен',
-      { userId, levelTag },
-      { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[2] || '0') }
-    );
+      useCaseLogger.info('createVenue', 'Площадка создана',
+        { userId, venueId: result.id },
+        { executionTimeMs: Date.now() - startedAt }
+      );
 
-    return result;
+      return result;
+    });
   }
 
   /**
-   * Регистрирует организатора.
-   * @param {string} userId - ID пользователя.
-   * @param {string} title - Название организатора.
-   * @returns {Promise<{ ok: boolean }>} - Успех операции.
+   * Обновляет площадку организатора.
+   * @param {string} userId - ID пользователя-организатора.
+   * @param {string} venueId - ID площадки.
+   * @param {Partial<VenueFields>} fields - Изменяемые поля.
+   * @returns {Promise<Venue>} - Обновленная площадка.
    */
-  export async function registerOrganizer(userId: string, title: string): Promise<{ ok: boolean; }> {
-    // Валидация входных данных
-    InputValidator.validateRequired(userId, 'userId');
-    InputValidator.validateRequired(title, 'title');
-    InputValidator.validateStringLength(title, 'title', 1, 100);
+  export async function updateVenue(userId: string, venueId: string, fields: Partial<VenueFields>) {
+    return runUseCase('updateVenue', { userId, venueId }, async () => {
+      InputValidator.validateRequired(userId, 'userId');
+      InputValidator.validateRequired(venueId, 'venueId');
+      validateVenueFields(fields);
 
-    const useCaseLogger = LoggerFactory.useCase('registerOrganizer');
-    const correlationId = `register_org_${userId}_${Date.now()}`;
+      const useCaseLogger = LoggerFactory.useCase('updateVenue');
+      const startedAt = Date.now();
 
-    useCaseLogger.info('registerOrganizer', LOG_MESSAGES.USE_CASES.REGISTER_ORGANIZER_PROCESSING,
-      { userId, title },
-      { correlationId }
-    );
+      useCaseLogger.info('updateVenue', 'Обработка запроса на изменение площадки',
+        { userId, venueId }
+      );
 
-    try {
-      const result = await gameApplicationService.registerOrganizer({ userId, title });
+      const result = await venueApplicationService.updateVenue({ userId, venueId, ...fields });
 
-      useCaseLogger.info('registerOrganizer', LOG_MESSAGES.USE_CASES.REGISTER_ORGANIZER_COMPLETED,
-        { userId, title },
-        { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[2] || '0') }
+      useCaseLogger.info('updateVenue', 'Площадка обновлена',
+        { userId, venueId },
+        { executionTimeMs: Date.now() - startedAt }
       );
 
       return result;
-    } catch (error) {
-      useCaseLogger.error('registerOrganizer', LOG_MESSAGES.USE_CASES.REGISTER_ORGANIZER_FAILED,
-        error as Error,
-        { userId, title, error: (error as Error).message },
-        { correlationId }
-      );
-      throw error;
-    }
+    });
   }
 
   /**
-   * Получает список игр.
-   * @param {string} [userId] - ID пользователя (опционально, для фильтрации по приоритетному окну).
-   * @returns {Promise<Game[]>} - Список игр.
+   * Удаляет (архивирует) площадку организатора.
+   * @param {string} userId - ID пользователя-организатора.
+   * @param {string} venueId - ID площадки.
+   * @returns {Promise<{ ok: boolean }>} - Успех операции.
    */
-  export async function listGames(userId?: string) {
-    const games = await prisma.game.findMany({
-      where: { status: 'open' },
-      orderBy: { startsAt: 'asc' }
-    });
-
-    // Если передан userId, фильтруем игры по приоритетному окну
-    let filteredGames = games;
-    if (userId) {
-      filteredGames = [];
-      for (const game of games) {
-        const gameAge = Date.now() - game.createdAt.getTime();
-        const isInPriorityWindow = game.status === 'open' && gameAge < 2 * 60 * 60 * 1000 && !game.publishedForAll;
-
-        if (!isInPriorityWindow) {
-          // Игра не в приоритетном окне или опубликована для всех - показываем всем
-          filteredGames.push(game);
-        } else {
-          // Игра в приоритетном окне - проверяем, является ли пользователь подтвержденным игроком или организатором
-          const isOrganizer = game.organizerId === userId;
-          if (isOrganizer) {
-            filteredGames.push(game);
-          } else {
-            const isConfirmedPlayer = await (prisma as any).playerOrganizer.findFirst({
-              where: {
-                playerId: userId,
-                organizerId: game.organizerId,
-                status: 'confirmed'
-              }
-            });
-            if (isConfirmedPlayer) {
-              filteredGames.push(game);
-            }
-          }
-        }
-      }
-    }
+  export async function deleteVenue(userId: string, venueId: string): Promise<{ ok: boolean; }> {
+    return runUseCase('deleteVenue', { userId, venueId }, async () => {
+      InputValidator.validateRequired(userId, 'userId');
+      InputValidator.validateRequired(venueId, 'venueId');
+
+      const useCaseLogger = LoggerFactory.useCase('deleteVenue');
+      const startedAt = Date.now();
+
+      useCaseLogger.info('deleteVenue', 'Обработка запроса на удаление площадки',
+        { userId, venueId }
+      );
+
+      const result = await venueApplicationService.archiveVenue(userId, venueId);
+
+      useCaseLogger.info('deleteVenue', 'Площадка удалена',
+        { userId, venueId },
+        { executionTimeMs: Date.now() - startedAt }
+      );
 
-    return filteredGames.map((g: any) => new Game(
-      g.id,
-      g.organizerId,
-      g.venueId,
-      g.startsAt,
-      g.capacity,
-      g.levelTag || undefined,
-      g.priceText || undefined,
-      g.status
-    ));
+      return result;
+    });
   }
 
   /**
-   * Закрывает игру.
-   * @param {string} gameId - Идентификатор игры.
-   * @param {string} organizerId - Идентификатор организатора.
-   * @returns {Promise<void>} - Успех операции.
+   * Создает регулярную серию игр и сразу создает игры на ближайший горизонт.
+   * @param {string} userId - ID пользователя-организатора.
+   * @param {Omit<CreateGameSeriesCommand, 'userId'>} data - Шаблон игры и правило повторения.
+   * @returns {Promise<{ series: GameSeries; createdGames: number }>} - Серия и количество созданных игр.
    */
-  export async function closeGame(gameId: string, organizerId: string) {
-    // Валидация входных данных
-    InputValidator.validateRequired(gameId, 'gameId');
-    InputValidator.validateRequired(organizerId, 'organizerId');
+  export async function createGameSeries(userId: string, data: Omit<CreateGameSeriesCommand, 'userId'>) {
+    return runUseCase('createGameSeries', { userId }, async () => {
+      InputValidator.validateRequired(userId, 'userId');
+      InputValidator.validateRequired(data.venueId, 'venueId');
+      InputValidator.validatePositiveNumber(data.capacity, 'capacity');
+      if (data.capacity > 100) {
+        throw new ValidationError('capacity', data.capacity, 'max_100');
+      }
+      if (!data.weekdays?.length || data.weekdays.some(d => !Number.isInteger(d) || d < 1 || d > 7)) {
+        throw new ValidationError('weekdays', data.weekdays, 'iso_weekdays_1_7');
+      }
+      if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(data.startTime)) {
+        throw new ValidationError('startTime', data.startTime, 'format_HH:MM');
+      }
+      if (data.createAheadDays !== undefined) {
+        InputValidator.validatePositiveNumber(data.createAheadDays, 'createAheadDays');
+        if (data.createAheadDays > config.series.maxCreateAheadDays) {
+          throw new ValidationError('createAheadDays', data.createAheadDays, `max_${config.series.maxCreateAheadDays}`);
+        }
+      }
+
+      const useCaseLogger = LoggerFactory.useCase('createGameSeries');
+      const startedAt = Date.now();
 
-    const useCaseLogger = LoggerFactory.useCase('closeGame');
-    const correlationId = `close_game_${gameId}_${organizerId}_${Date.now()}`;
+      useCaseLogger.info('createGameSeries', 'Обработка запроса на создание серии игр',
+        { userId, venueId: data.venueId, weekdays: data.weekdays, startTime: data.startTime }
+      );
 
-    useCaseLogger.info('closeGame', 'Обработка запроса на закрытие игры',
-      { gameId, organizerId },
-      { correlationId }
-    );
+      const series = await gameSeriesApplicationService.createSeries({ userId, ...data });
+      const createdGames = await generateSeriesGames(series.id);
 
-    // Проверить, что организатор владеет игрой
-    const game = await gameRepo.findById(gameId);
-    if (!game) {
-      throw new BusinessRuleError('NOT_FOUND', 'Игра не найдена');
-    }
-    if (game.organizerId !== organizerId) {
-      throw new BusinessRuleError('FORBIDDEN', 'Только организатор игры может её закрыть');
-    }
+      useCaseLogger.info('createGameSeries', 'Серия игр создана',
+        { userId, seriesId: series.id, createdGames },
+        { executionTimeMs: Date.now() - startedAt }
+      );
 
-    await gameRepo.updateStatus(gameId, GameStatus.closed);
-    useCaseLogger.info('closeGame', 'Игра закрыта',
-      { gameId },
-      { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[3] || '0') }
-    );
-    await eventBus.publish({ type: 'GameClosed', occurredAt: new Date(), id: '', payload: { gameId } });
+      return { series, createdGames };
+    });
   }
 
   /**
-   * Завершает игру и планирует напоминания об оплате.
-   * @param {string} gameId - Идентификатор игры.
-   * @returns {Promise<void>} - Успех операции.
+   * Возвращает серии игр организатора.
+   * @param {string} userId - ID пользователя-организатора.
+   * @returns {Promise<GameSeries[]>} - Список серий.
    */
-  export async function finishGame(gameId: string) {
-    // Валидация входных данных
-    InputValidator.validateRequired(gameId, 'gameId');
+  export async function listGameSeries(userId: string) {
+    return runUseCase('listGameSeries', { userId }, async () => {
+      InputValidator.validateRequired(userId, 'userId');
+      return gameSeriesApplicationService.listSeries(userId);
+    });
+  }
 
-    const useCaseLogger = LoggerFactory.useCase('finishGame');
-    const correlationId = `finish_game_${gameId}_${Date.now()}`;
+  /**
+   * Останавливает серию игр. Уже созданные игры остаются.
+   * @param {string} userId - ID пользователя-организатора.
+   * @param {string} seriesId - ID серии.
+   * @returns {Promise<{ ok: boolean }>} - Успех операции.
+   */
+  export async function stopGameSeries(userId: string, seriesId: string): Promise<{ ok: boolean; }> {
+    return runUseCase('stopGameSeries', { userId, seriesId }, async () => {
+      InputValidator.validateRequired(userId, 'userId');
+      InputValidator.validateRequired(seriesId, 'seriesId');
 
-    useCaseLogger.info('finishGame', 'Обработка запроса на завершение игры',
-      { gameId },
-      { correlationId }
-    );
+      const useCaseLogger = LoggerFactory.useCase('stopGameSeries');
 
-    // Use new Application Service
-    await gameApplicationService.finishGame(gameId);
+      useCaseLogger.info('stopGameSeries', 'Обработка запроса на остановку серии игр',
+        { userId, seriesId }
+      );
 
-    useCaseLogger.info('finishGame', 'Игра завершена и напоминания оплаты запланированы',
-      { gameId },
-      { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[2] || '0') }
-    );
+      return gameSeriesApplicationService.stopSeries(userId, seriesId);
+    });
   }
 
   /**
-   * Позволяет игроку выбрать организаторов.
-   * @param {string} playerId - ID игрока.
-   * @param {string[]} organizerIds - Массив ID организаторов.
-   * @returns {Promise<{ ok: boolean }>} - Успех операции.
+   * Создает недостающие игры активных серий на горизонт createAheadDays.
+   * Каждая игра создается через createGame, поэтому получает приоритетное окно и напоминания.
+   * Вызывается периодической задачей SchedulerService и при создании серии.
+   * @param {string} [seriesId] - Ограничить одной серией (опционально).
+   * @returns {Promise<number>} - Количество созданных игр.
    */
-  export async function selectOrganizers(playerId: string, organizerIds: string[]): Promise<{ ok: boolean; }> {
-    const useCaseLogger = LoggerFactory.useCase('selectOrganizers');
-    const correlationId = `select_orgs_${playerId}_${Date.now()}`;
+  export async function generateSeriesGames(seriesId?: string): Promise<number> {
+    return runUseCase('generateSeriesGames', { seriesId }, async () => {
+      const useCaseLogger = LoggerFactory.useCase('generateSeriesGames');
+
+      const pending = await gameSeriesApplicationService.getPendingGames(new Date(), seriesId);
+      let created = 0;
+
+      for (const game of pending) {
+        const { series, startsAt } = game;
+        try {
+          await createSeriesGame(game);
+          created++;
+        } catch (error) {
+          // Ошибка одной игры (например, площадка занята) не должна останавливать остальные
+          useCaseLogger.error('generateSeriesGames', 'Не удалось создать игру серии',
+            error as Error,
+            { seriesId: series.id, startsAt: startsAt.toISOString() }
+          );
+
+          // Исчерпав попытки, игра уходит в dead letter queue: повтор оттуда вызовет retrySeriesGame
+          if (await gameSeriesApplicationService.recordGenerationFailure(game, error)) {
+            await recordDeadLetter({
+              type: 'SeriesGameGenerationFailed',
+              payload: { seriesId: series.id, startsAt: startsAt.toISOString() },
+              occurredAt: new Date()
+            }, 'handleSeriesGameGenerationFailed', error);
+          }
+        }
+      }
 
-    useCaseLogger.info('selectOrganizers', 'Обработка запроса на выбор организаторов',
-      { playerId, organizerIds },
-      { correlationId }
-    );
+      useCaseLogger.info('generateSeriesGames', 'Генерация игр серий завершена',
+        { seriesId, pending: pending.length, created }
+      );
+
+      return created;
+    });
+  }
 
-    const result = await organizerApplicationService.selectOrganizers(playerId, organizerIds);
+  /**
+   * Повторно создает игру серии, которую не удалось создать автоматически (повтор из dead letter queue)
+   * @param {string} seriesId - ID серии.
+   * @param {Date} startsAt - Момент начала игры.
+   * @returns {Promise<boolean>} - true, если игра создана; false, если создавать уже нечего.
+   * @throws {BusinessRuleError} - Если игру снова не удалось создать.
+   */
+  export async function retrySeriesGame(seriesId: string, startsAt: Date): Promise<boolean> {
+    return runUseCase('retrySeriesGame', { seriesId }, async () => {
+      const pending = await gameSeriesApplicationService.preparePendingGame(seriesId, startsAt);
+      if (!pending) return false;
 
-    useCaseLogger.info('selectOrganizers', 'Организаторы выбраны',
-      { playerId, organizerIds },
-      { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[2] || '0') }
-    );
+      await createSeriesGame(pending);
+      return true;
+    });
+  }
 
-    return result;
+  async function createSeriesGame({ series, organizerUserId, startsAt }: PendingSeriesGame): Promise<void> {
+    await createGame({
+      organizerId: organizerUserId,
+      venueId: series.venueId,
+      startsAt,
+      capacity: series.capacity,
+      levelTag: series.levelTag,
+      priceText: series.priceText,
+      seriesId: series.id
+    });
   }
 
   /**
-   * Позволяет организатору подтвердить игрока.
-   * @param {string} organizerId - ID организатора.
-   * @param {string} playerId - ID игрока.
-   * @returns {Promise<{ ok: boolean }>} - Успех операции.
+   * Регистрирует пользователя.
+   * @param {number | bigint} telegramId - Telegram ID пользователя.
+   * @param {string} name - Имя пользователя.
+   * @returns {Promise<{ userId: string }>} - ID созданного пользователя.
    */
-  export async function confirmPlayer(organizerId: string, playerId: string) {
-    const useCaseLogger = LoggerFactory.useCase('confirmPlayer');
-    const correlationId = `confirm_player_${organizerId}_${playerId}_${Date.now()}`;
+  export async function registerUser(telegramId: number | bigint, name: string): Promise<{ userId: string; }> {
+    return runUseCase('registerUser', {}, async () => {
+      // Валидация входных данных
+      InputValidator.validatePositiveNumber(Number(telegramId), 'telegramId');
+      InputValidator.validateRequired(name, 'name');
+      InputValidator.validateStringLength(name, 'name', 1, 100);
+
+      const useCaseLogger = LoggerFactory.useCase('registerUser');
+      const startedAt = Date.now();
 
-    useCaseLogger.info('confirmPlayer', 'Обработка запроса на подтверждение игрока',
-      { organizerId, playerId },
-      { correlationId }
-    );
+      useCaseLogger.info('registerUser', LOG_MESSAGES.USE_CASES.REGISTER_USER_PROCESSING,
+        { telegramId, name }
+      );
 
-    const result = await organizerApplicationService.confirmPlayer(organizerId, playerId);
+      try {
+        const result = await userApplicationService.registerUser({ telegramId, name });
 
-    useCaseLogger.info('confirmPlayer', 'Игрок подтвержден',
-      { organizerId, playerId },
-      { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[3] || '0') }
-    );
+        useCaseLogger.info('registerUser', LOG_MESSAGES.USE_CASES.REGISTER_USER_COMPLETED,
+          { userId: result.userId, telegramId },
+          { executionTimeMs: Date.now() - startedAt }
+        );
 
-    return result;
+        return result;
+      } catch (error) {
+        useCaseLogger.error('registerUser', LOG_MESSAGES.USE_CASES.REGISTER_USER_FAILED,
+          error as Error,
+          { telegramId, name, error: (error as Error).message }
+        );
+        throw error;
+      }
+    });
   }
 
   /**
-   * Позволяет организатору отклонить игрока.
-   * @param {string} organizerId - ID организатора.
-   * @param {string} playerId - ID игрока.
+   * Обновляет уровень пользователя.
+   * @param {string} userId - ID пользователя.
+   * @param {string} levelTag - Уровень игры.
    * @returns {Promise<{ ok: boolean }>} - Успех операции.
    */
-  export async function rejectPlayer(organizerId: string, playerId: string): Promise<{ ok: boolean; }> {
-    const useCaseLogger = LoggerFactory.useCase('rejectPlayer');
-    const correlationId = `reject_player_${organizerId}_${playerId}_${Date.now()}`;
+  export async function updateUserLevel(userId: string, levelTag: string | undefined): Promise<{ ok: boolean; }> {
+    return runUseCase('updateUserLevel', { userId }, async () => {
+      // Валидация входных данных
+      InputValidator.validateRequired(userId, 'userId');
+
+      const useCaseLogger = LoggerFactory.useCase('updateUserLevel');
+      const startedAt = Date.now();
 
-    useCaseLogger.info('rejectPlayer', 'Обработка запроса на отклонение игрока',
-      { organizerId, playerId },
-      { correlationId }
-    );
+      useCaseLogger.info('updateUserLevel', 'Обработка запроса на обновление уровня пользователя',
+        { userId, levelTag }
+      );
 
-    const result = await organizerApplicationService.rejectPlayer(organizerId, playerId);
+      const result = await userApplicationService.updateUserLevel({ userId, levelTag });
 
-    useCaseLogger.info('rejectPlayer', 'Игрок отклонен',
-      { organizerId, playerId },
-      { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[3] || '0') }
-    );
+      useCaseLogger.info('updateUserLevel', 'Уровень пользователя обновлен',
+        { userId, levelTag },
+        { executionTimeMs: Date.now() - startedAt }
+      );
 
-    return result;
+      return result;
+    });
   }
 
   /**
-   * Получает список игроков организатора.
-   * @param {string} organizerId - ID организатора.
-   * @param {string} [status] - Фильтр по статусу (опционально).
-   * @returns {Promise<Array>} - Список игроков.
+   * Регистрирует организатора.
+   * @param {string} userId - ID пользователя.
+   * @param {string} title - Название организатора.
+   * @returns {Promise<{ ok: boolean }>} - Успех операции.
    */
-  export async function getOrganizerPlayers(organizerId: string, status?: string) {
-    const useCaseLogger = LoggerFactory.useCase('getOrganizerPlayers');
-    const correlationId = `get_org_players_${organizerId}_${Date.now()}`;
+  export async function registerOrganizer(userId: string, title: string): Promise<{ ok: boolean; }> {
+    return runUseCase('registerOrganizer', { userId }, async () => {
+      // Валидация входных данных
+      InputValidator.validateRequired(userId, 'userId');
+      InputValidator.validateRequired(title, 'title');
+      InputValidator.validateStringLength(title, 'title', 1, 100);
 
-    useCaseLogger.info('getOrganizerPlayers', 'Обработка запроса на получение игроков организатора',
-      { organizerId, status },
-      { correlationId }
-    );
+      const useCaseLogger = LoggerFactory.useCase('registerOrganizer');
+      const startedAt = Date.now();
 
-    const result = await organizerApplicationService.getOrganizerPlayers(organizerId, status);
+      useCaseLogger.info('registerOrganizer', LOG_MESSAGES.USE_CASES.REGISTER_ORGANIZER_PROCESSING,
+        { userId, title }
+      );
 
-    useCaseLogger.info('getOrganizerPlayers', 'Игроки организатора получены',
-      { organizerId, count: result.length },
-      { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[2] || '0') }
-    );
+      try {
+        const result = await gameApplicationService.registerOrganizer({ userId, title });
 
-    return result;
-  }
+        useCaseLogger.info('registerOrganizer', LOG_MESSAGES.USE_CASES.REGISTER_ORGANIZER_COMPLETED,
+          { userId, title },
+          { executionTimeMs: Date.now() - startedAt }
+        );
 
-   /**
+        return result;
+      } catch (error) {
+        useCaseLogger.error('registerOrganizer', LOG_MESSAGES.USE_CASES.REGISTER_ORGANIZER_FAILED,
+          error as Error,
+          { userId, title, error: (error as Error).message }
+        );
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Получает список игр.
+   * @param {string} [userId] - ID пользователя (опционально, для фильтрации по приоритетному окну).
+   * @returns {Promise<Game[]>} - Список игр.
+   */
+  export async function listGames(userId?: string) {
+    return runUseCase('listGames', { userId }, async () => {
+      const games = await prisma.game.findMany({
+        where: { status: 'open' },
+        orderBy: { startsAt: 'asc' }
+      });
+
+      // Если передан userId, фильтруем игры по приоритетному окну
+      let filteredGames = games;
+      if (userId) {
+        filteredGames = [];
+        for (const game of games) {
+          if (await isGameVisibleTo(game, userId)) {
+            filteredGames.push(game);
+          }
+        }
+      }
+
+      return filteredGames.map((g: any) => new Game(
+        g.id,
+        g.organizerId,
+        g.venueId,
+        g.startsAt,
+        g.capacity,
+        g.levelTag || undefined,
+        g.priceText || undefined,
+        g.status,
+        g.seriesId || undefined,
+        toGamePricing(g),
+        g.minLevel || undefined,
+        g.maxLevel || undefined
+      ));
+    });
+  }
+
+  /**
+   * Проверяет, что пользователь видит игру: в приоритетное окно игра скрыта от всех,
+   * кроме команды организатора и его подтвержденных игроков (как в listGames).
+   * @param {string} gameId - Идентификатор игры.
+   * @param {string} userId - Идентификатор пользователя.
+   * @throws {BusinessRuleError} - NOT_FOUND, если игры нет или она скрыта от пользователя.
+   */
+  export async function ensureGameVisible(gameId: string, userId: string): Promise<void> {
+    return runUseCase('ensureGameVisible', { gameId, userId }, async () => {
+      const game = await prisma.game.findUnique({ where: { id: gameId } });
+      if (!game || !(await isGameVisibleTo(game, userId))) {
+        throw new BusinessRuleError('NOT_FOUND', 'Игра не найдена');
+      }
+    });
+  }
+
+  async function isGameVisibleTo(
+    game: { organizerId: string; status: string; createdAt: Date; publishedForAll: boolean },
+    userId: string
+  ): Promise<boolean> {
+    const gameAge = Date.now() - game.createdAt.getTime();
+    const isInPriorityWindow = game.status === 'open' && gameAge < 2 * 60 * 60 * 1000 && !game.publishedForAll;
+
+    // Игра не в приоритетном окне или опубликована для всех - показываем всем
+    if (!isInPriorityWindow) return true;
+
+    // Игра в приоритетном окне - проверяем, является ли пользователь участником команды организатора или подтвержденным игроком
+    const [member, confirmedPlayer] = await Promise.all([
+      prisma.organizerMember.findFirst({ where: { organizerId: game.organizerId, userId } }),
+      prisma.playerOrganizer.findFirst({ where: { playerId: userId, organizerId: game.organizerId, status: 'confirmed' } })
+    ]);
+    return Boolean(member || confirmedPlayer);
+  }
+
+  /**
+   * Закрывает игру.
+   * @param {string} gameId - Идентификатор игры.
+   * @param {string} userId - Участник команды организатора игры (владелец или соорганизатор).
+   * @returns {Promise<void>} - Успех операции.
+   */
+  export async function closeGame(gameId: string, userId: string) {
+    return runUseCase('closeGame', { gameId, userId }, async () => {
+      // Валидация входных данных
+      InputValidator.validateRequired(gameId, 'gameId');
+      InputValidator.validateRequired(userId, 'userId');
+
+      const useCaseLogger = LoggerFactory.useCase('closeGame');
+      const startedAt = Date.now();
+
+      useCaseLogger.info('closeGame', 'Обработка запроса на закрытие игры',
+        { gameId, userId }
+      );
+
+      // Сервис проверяет, что пользователь ведет игры в команде организатора и что запись еще можно закрыть
+      await gameApplicationService.closeGame({ gameId, userId });
+      useCaseLogger.info('closeGame', 'Игра закрыта',
+        { gameId },
+        { executionTimeMs: Date.now() - startedAt }
+      );
+    });
+  }
+
+  /**
+   * Отменяет игру, уведомляет участников и помечает оплаченные записи к возврату.
+   * @param {string} gameId - Идентификатор игры.
+   * @param {string} actorId - ID участника команды организатора, отменяющего игру.
+   * @param {string} [reason] - Причина отмены (опционально).
+   * @returns {Promise<{ notified: number; refundDue: number }>} - Количество уведомленных игроков и записей к возврату.
+   * @throws {BusinessRuleError} - Если роль в команде организатора игры не позволяет вести игры.
+   */
+  export async function cancelGame(gameId: string, actorId: string, reason?: string) {
+    return runUseCase('cancelGame', { gameId, actorId }, async () => {
+      // Валидация входных данных
+      InputValidator.validateRequired(gameId, 'gameId');
+      InputValidator.validateRequired(actorId, 'actorId');
+      if (reason !== undefined) {
+        InputValidator.validateStringLength(reason, 'reason', 1, 500);
+      }
+
+      const useCaseLogger = LoggerFactory.useCase('cancelGame');
+      const startedAt = Date.now();
+
+      useCaseLogger.info('cancelGame', 'Обработка запроса на отмену игры',
+        { gameId, actorId, reason }
+      );
+
+      const result = await gameApplicationService.cancelGame({ gameId, actorId, reason });
+
+      useCaseLogger.info('cancelGame', 'Игра отменена',
+        { gameId, ...result },
+        { executionTimeMs: Date.now() - startedAt }
+      );
+
+      return result;
+    });
+  }
+
+  /**
+   * Завершает игру и планирует напоминания об оплате.
+   * @param {string} gameId - Идентификатор игры.
+   * @returns {Promise<void>} - Успех операции.
+   */
+  export async function finishGame(gameId: string) {
+    return runUseCase('finishGame', { gameId }, async () => {
+      // Валидация входных данных
+      InputValidator.validateRequired(gameId, 'gameId');
+
+      const useCaseLogger = LoggerFactory.useCase('finishGame');
+      const startedAt = Date.now();
+
+      useCaseLogger.info('finishGame', 'Обработка запроса на завершение игры',
+        { gameId }
+      );
+
+      // Use new Application Service
+      await gameApplicationService.finishGame(gameId);
+
+      useCaseLogger.info('finishGame', 'Игра завершена и напоминания оплаты запланированы',
+        { gameId },
+        { executionTimeMs: Date.now() - startedAt }
+      );
+    });
+  }
+
+  /**
+   * Выполняет автоматический переход игры по расписанию: закрытие записи или завершение.
+   * @param {string} gameId - Идентификатор игры.
+   * @returns Новый статус игры или null, если переход не нужен.
+   */
+  export async function advanceGameLifecycle(gameId: string) {
+    return runUseCase('advanceGameLifecycle', { gameId }, async () => {
+      InputValidator.validateRequired(gameId, 'gameId');
+      return gameApplicationService.advanceLifecycle(gameId);
+    });
+  }
+
+  /**
+   * Закрывает и завершает все игры, пропустившие автоматический переход.
+   * @returns Количество закрытых и завершенных игр.
+   */
+  export async function advanceDueGames() {
+    return runUseCase('advanceDueGames', {}, async () => {
+      return gameApplicationService.advanceDueGames();
+    });
+  }
+
+  /**
+   * Игрок принимает место, предложенное ему из листа ожидания.
+   * @param {string} gameId - Идентификатор игры.
+   * @param {string} userId - Идентификатор игрока.
+   * @throws {BusinessRuleError} - Если предложения нет, срок ответа истек или игра завершена либо отменена.
+   */
+  export async function acceptWaitlistOffer(gameId: string, userId: string) {
+    return runUseCase('acceptWaitlistOffer', { gameId, userId }, async () => {
+      InputValidator.validateRequired(gameId, 'gameId');
+      InputValidator.validateRequired(userId, 'userId');
+      return waitlistApplicationService.acceptOffer(gameId, userId);
+    });
+  }
+
+  /**
+   * Игрок отказывается от предложенного места; место переходит следующему в листе ожидания.
+   * @param {string} gameId - Идентификатор игры.
+   * @param {string} userId - Идентификатор игрока.
+   * @throws {BusinessRuleError} - Если предложения нет.
+   */
+  export async function declineWaitlistOffer(gameId: string, userId: string) {
+    return runUseCase('declineWaitlistOffer', { gameId, userId }, async () => {
+      InputValidator.validateRequired(gameId, 'gameId');
+      InputValidator.validateRequired(userId, 'userId');
+      return waitlistApplicationService.declineOffer(gameId, userId);
+    });
+  }
+
+  /**
+   * Закрывает предложение места, если игрок не ответил вовремя (задача по расписанию).
+   * @param {string} gameId - Идентификатор игры.
+   * @param {string} userId - Идентификатор игрока.
+   * @returns false, если предложение уже закрыто или срок еще не истек.
+   */
+  export async function expireWaitlistOffer(gameId: string, userId: string) {
+    return runUseCase('expireWaitlistOffer', { gameId, userId }, async () => {
+      InputValidator.validateRequired(gameId, 'gameId');
+      InputValidator.validateRequired(userId, 'userId');
+      return waitlistApplicationService.expireOffer(gameId, userId);
+    });
+  }
+
+  /**
+   * Закрывает все предложения из листа ожидания, срок ответа на которые истек.
+   * @returns Количество закрытых предложений.
+   */
+  export async function expireDueWaitlistOffers() {
+    return runUseCase('expireDueWaitlistOffers', {}, async () => {
+      return waitlistApplicationService.expireDueOffers();
+    });
+  }
+
+  /**
+   * Позволяет игроку выбрать организаторов.
+   * @param {string} playerId - ID игрока.
+   * @param {string[]} organizerIds - Массив ID организаторов.
+   * @returns {Promise<{ ok: boolean }>} - Успех операции.
+   */
+  export async function selectOrganizers(playerId: string, organizerIds: string[]): Promise<{ ok: boolean; }> {
+    return runUseCase('selectOrganizers', { playerId }, async () => {
+      const useCaseLogger = LoggerFactory.useCase('selectOrganizers');
+      const startedAt = Date.now();
+
+      useCaseLogger.info('selectOrganizers', 'Обработка запроса на выбор организаторов',
+        { playerId, organizerIds }
+      );
+
+      const result = await organizerApplicationService.selectOrganizers(playerId, organizerIds);
+
+      useCaseLogger.info('selectOrganizers', 'Организаторы выбраны',
+        { playerId, organizerIds },
+        { executionTimeMs: Date.now() - startedAt }
+      );
+
+      return result;
+    });
+  }
+
+  /**
+   * Позволяет организатору подтвердить игрока.
+   * @param {string} organizerId - ID организатора.
+   * @param {string} playerId - ID игрока.
+   * @returns {Promise<{ ok: boolean }>} - Успех операции.
+   */
+  export async function confirmPlayer(organizerId: string, playerId: string) {
+    return runUseCase('confirmPlayer', { organizerId, playerId }, async () => {
+      const useCaseLogger = LoggerFactory.useCase('confirmPlayer');
+      const startedAt = Date.now();
+
+      useCaseLogger.info('confirmPlayer', 'Обработка запроса на подтверждение игрока',
+        { organizerId, playerId }
+      );
+
+      const result = await organizerApplicationService.confirmPlayer(organizerId, playerId);
+
+      useCaseLogger.info('confirmPlayer', 'Игрок подтвержден',
+        { organizerId, playerId },
+        { executionTimeMs: Date.now() - startedAt }
+      );
+
+      return result;
+    });
+  }
+
+  /**
+   * Позволяет организатору отклонить игрока.
+   * @param {string} organizerId - ID организатора.
+   * @param {string} playerId - ID игрока.
+   * @returns {Promise<{ ok: boolean }>} - Успех операции.
+   */
+  export async function rejectPlayer(organizerId: string, playerId: string): Promise<{ ok: boolean; }> {
+    return runUseCase('rejectPlayer', { organizerId, playerId }, async () => {
+      const useCaseLogger = LoggerFactory.useCase('rejectPlayer');
+      const startedAt = Date.now();
+
+      useCaseLogger.info('rejectPlayer', 'Обработка запроса на отклонение игрока',
+        { organizerId, playerId }
+      );
+
+      const result = await organizerApplicationService.rejectPlayer(organizerId, playerId);
+
+      useCaseLogger.info('rejectPlayer', 'Игрок отклонен',
+        { organizerId, playerId },
+        { executionTimeMs: Date.now() - startedAt }
+      );
+
+      return result;
+    });
+  }
+
+  /**
+   * Получает список игроков организатора.
+   * @param {string} organizerId - ID организатора.
+   * @param {string} [status] - Фильтр по статусу (опционально).
+   * @returns {Promise<Array>} - Список игроков.
+   */
+  export async function getOrganizerPlayers(organizerId: string, status?: string) {
+    return runUseCase('getOrganizerPlayers', { organizerId }, async () => {
+      const useCaseLogger = LoggerFactory.useCase('getOrganizerPlayers');
+      const startedAt = Date.now();
+
+      useCaseLogger.info('getOrganizerPlayers', 'Обработка запроса на получение игроков организатора',
+        { organizerId, status }
+      );
+
+      const result = await organizerApplicationService.getOrganizerPlayers(organizerId, status);
+
+      useCaseLogger.info('getOrganizerPlayers', 'Игроки организатора получены',
+        { organizerId, count: result.length },
+        { executionTimeMs: Date.now() - startedAt }
+      );
+
+      return result;
+    });
+  }
+
+   /**
     * Проверяет, все ли приоритетные игроки ответили на приглашение.
     * Если все ответили — публикует GamePublishedForAll.
     * @param {string} gameId - ID игры.
     */
    async function checkIfAllPriorityPlayersResponded(gameId: string): Promise<void> {
      const useCaseLogger = LoggerFactory.useCase('checkIfAllPriorityPlayersResponded');
-     const correlationId = `check_priority_${gameId}_${Date.now()}`;
 
      const game = await prisma.game.findUnique({
        where: { id: gameId },
@@ -704,8 +1276,7 @@
 
      if (!game) {
        useCaseLogger.warn('checkIfAllPriorityPlayersResponded', 'Игра не найдена для проверки приоритета',
-         { gameId },
-         { correlationId }
+         { gameId }
        );
        return;
      }
@@ -722,13 +1293,10 @@
      if (confirmedPlayers.length === 0) {
        // Нет приоритетных игроков — сразу открываем для всех
        useCaseLogger.info('checkIfAllPriorityPlayersResponded', 'Нет приоритетных игроков для игры, открываем для всех',
-         { gameId },
-         { correlationId }
+         { gameId }
        );
-       await eventBus.publish({
+       await eventOutbox.record({
          type: 'GamePublishedForAll',
-         occurredAt: new Date(),
-         id: '',
          payload: { gameId }
        });
        return;
@@ -749,13 +1317,10 @@
 
      if (allResponded) {
        useCaseLogger.info('checkIfAllPriorityPlayersResponded', 'Все приоритетные игроки ответили, открываем игру для всех',
-         { gameId, playerCount: confirmedPlayers.length },
-         { correlationId }
+         { gameId, playerCount: confirmedPlayers.length }
        );
-       await eventBus.publish({
+       await eventOutbox.record({
          type: 'GamePublishedForAll',
-         occurredAt: new Date(),
-         id: '',
          payload: { gameId }
        });
      } else {
@@ -764,8 +1329,7 @@
            gameId,
            responded: responses.length,
            total: confirmedPlayers.length
-         },
-         { correlationId }
+         }
        );
      }
    }
@@ -778,22 +1342,23 @@
    * @returns {Promise<{ ok: boolean }>} - Успех операции.
    */
   export async function respondToGameInvitation(gameId: string, playerId: string, response: string) {
-    const useCaseLogger = LoggerFactory.useCase('respondToGameInvitation');
-    const correlationId = `respond_invitation_${gameId}_${playerId}_${Date.now()}`;
+    return runUseCase('respondToGameInvitation', { gameId, playerId }, async () => {
+      const useCaseLogger = LoggerFactory.useCase('respondToGameInvitation');
+      const startedAt = Date.now();
 
-    useCaseLogger.info('respondToGameInvitation', 'Обработка ответа на приглашение к игре',
-      { gameId, playerId, response },
-      { correlationId }
-    );
+      useCaseLogger.info('respondToGameInvitation', 'Обработка ответа на приглашение к игре',
+        { gameId, playerId, response }
+      );
 
-    const result = await invitationApplicationService.respondToGameInvitation(gameId, playerId, response);
+      const result = await invitationApplicationService.respondToGameInvitation(gameId, playerId, response);
 
-    useCaseLogger.info('respondToGameInvitation', 'Игрок ответил на приглашение к игре',
-      { gameId, playerId, response },
-      { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[3] || '0') }
-    );
+      useCaseLogger.info('respondToGameInvitation', 'Игрок ответил на приглашение к игре',
+        { gameId, playerId, response },
+        { executionTimeMs: Date.now() - startedAt }
+      );
 
-    return result;
+      return result;
+    });
   }
 
   /**
@@ -802,69 +1367,70 @@
    * @returns {Promise<void>} - Успех операции.
    */
   export async function notifyConfirmedPlayersAboutGame(gameId: string) {
-    // Валидация входных данных
-    InputValidator.validateRequired(gameId, 'gameId');
+    return runUseCase('notifyConfirmedPlayersAboutGame', { gameId }, async () => {
+      // Валидация входных данных
+      InputValidator.validateRequired(gameId, 'gameId');
 
-    const useCaseLogger = LoggerFactory.useCase('notifyConfirmedPlayersAboutGame');
-    const correlationId = `notify_players_${gameId}_${Date.now()}`;
+      const useCaseLogger = LoggerFactory.useCase('notifyConfirmedPlayersAboutGame');
+      const startedAt = Date.now();
 
-    useCaseLogger.info('notifyConfirmedPlayersAboutGame', 'Обработка уведомления подтвержденных игроков о игре',
-      { gameId },
-      { correlationId }
-    );
-
-    // Найти игру и организатора
-    const game = await prisma.game.findUnique({
-      where: { id: gameId },
-      include: { organizer: true }
-    });
-    if (!game) {
-      throw new BusinessRuleError('NOT_FOUND', 'Игра не найдена');
-    }
+      useCaseLogger.info('notifyConfirmedPlayersAboutGame', 'Обработка уведомления подтвержденных игроков о игре',
+        { gameId }
+      );
 
-    // Найти всех подтвержденных игроков организатора
-    const confirmedPlayers = await (prisma as any).playerOrganizer.findMany({
-      where: {
-        organizerId: game.organizer.id,
-        status: 'confirmed'
-      },
-      include: {
-        player: true
+      // Найти игру и организатора
+      const game = await prisma.game.findUnique({
+        where: { id: gameId },
+        include: { organizer: true }
+      });
+      if (!game) {
+        throw new BusinessRuleError('NOT_FOUND', 'Игра не найдена');
       }
-    });
 
-    // Создать записи GamePlayerResponse со статусом 'ignored' (ожидание ответа)
-    const responses = confirmedPlayers.map((po: any) => ({
-      gameId,
-      playerId: po.player.id,
-      response: 'ignored' as const
-    }));
-
-    await (prisma as any).gamePlayerResponse.createMany({
-      data: responses,
-      skipDuplicates: true
-    });
+      // Найти всех подтвержденных игроков организатора
+      const confirmedPlayers = await (prisma as any).playerOrganizer.findMany({
+        where: {
+          organizerId: game.organizer.id,
+          status: 'confirmed'
+        },
+        include: {
+          player: true
+        }
+      });
 
-    // Опубликовать событие для уведомления игроков
-    const priorityWindowClosesAt = new Date(game.createdAt.getTime() + 2 * 60 * 60 * 1000);
-    await eventBus.publish({
-      type: 'GameCreatedWithPriorityWindow',
-      occurredAt: new Date(),
-      id: '',
-      payload: {
+      // Создать записи GamePlayerResponse со статусом 'ignored' (ожидание ответа)
+      const responses = confirmedPlayers.map((po: any) => ({
         gameId,
-        priorityWindowClosesAt: priorityWindowClosesAt.toISOString(),
-        confirmedPlayers: confirmedPlayers.map((po: any) => ({
-          playerId: po.player.id,
-          telegramId: po.player.telegramId
-        }))
-      }
-    });
+        playerId: po.player.id,
+        response: 'ignored' as const
+      }));
+
+      const priorityWindowClosesAt = new Date(game.createdAt.getTime() + 2 * 60 * 60 * 1000);
+      await runInTransaction(async () => {
+        await getDb().gamePlayerResponse.createMany({
+          data: responses,
+          skipDuplicates: true
+        });
+
+        // Событие для уведомления игроков записывается вместе с ответами
+        await eventOutbox.record({
+          type: 'GameCreatedWithPriorityWindow',
+          payload: {
+            gameId,
+            priorityWindowClosesAt: priorityWindowClosesAt.toISOString(),
+            confirmedPlayers: confirmedPlayers.map((po: any) => ({
+              playerId: po.player.id,
+              telegramId: po.player.telegramId
+            }))
+          }
+        });
+      });
 
-    useCaseLogger.info('notifyConfirmedPlayersAboutGame', 'Подтвержденные игроки уведомлены о игре',
-      { gameId, playerCount: confirmedPlayers.length },
-      { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[2] || '0') }
-    );
+      useCaseLogger.info('notifyConfirmedPlayersAboutGame', 'Подтвержденные игроки уведомлены о игре',
+        { gameId, playerCount: confirmedPlayers.length },
+        { executionTimeMs: Date.now() - startedAt }
+      );
+    });
   }
 
   /**
@@ -874,20 +1440,21 @@
    * @returns {Promise<void>} - Успех операции.
    */
   export async function checkPriorityWindowExpiration(gameId: string) {
-    const useCaseLogger = LoggerFactory.useCase('checkPriorityWindowExpiration');
-    const correlationId = `check_expiration_${gameId}_${Date.now()}`;
+    return runUseCase('checkPriorityWindowExpiration', { gameId }, async () => {
+      const useCaseLogger = LoggerFactory.useCase('checkPriorityWindowExpiration');
+      const startedAt = Date.now();
 
-    useCaseLogger.info('checkPriorityWindowExpiration', 'Обработка проверки истечения приоритетного окна',
-      { gameId },
-      { correlationId }
-    );
+      useCaseLogger.info('checkPriorityWindowExpiration', 'Обработка проверки истечения приоритетного окна',
+        { gameId }
+      );
 
-    await invitationApplicationService.checkPriorityWindowExpiration(gameId);
+      await invitationApplicationService.checkPriorityWindowExpiration(gameId);
 
-    useCaseLogger.info('checkPriorityWindowExpiration', 'Приоритетное окно проверено',
-      { gameId },
-      { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[2] || '0') }
-    );
+      useCaseLogger.info('checkPriorityWindowExpiration', 'Приоритетное окно проверено',
+        { gameId },
+        { executionTimeMs: Date.now() - startedAt }
+      );
+    });
   }
 
   /**
@@ -897,20 +1464,368 @@
    * @returns {Promise<{ ok: boolean }>} - Успех операции.
    */
   export async function linkPlayerToOrganizer(playerId: string, organizerId: string) {
-    const useCaseLogger = LoggerFactory.useCase('linkPlayerToOrganizer');
-    const correlationId = `link_player_${playerId}_${organizerId}_${Date.now()}`;
+    return runUseCase('linkPlayerToOrganizer', { playerId, organizerId }, async () => {
+      const useCaseLogger = LoggerFactory.useCase('linkPlayerToOrganizer');
+      const startedAt = Date.now();
+
+      useCaseLogger.info('linkPlayerToOrganizer', 'Обработка привязки игрока к организатору',
+        { playerId, organizerId }
+      );
 
-    useCaseLogger.info('linkPlayerToOrganizer', 'Обработка привязки игрока к организатору',
-      { playerId, organizerId },
-      { correlationId }
-    );
+      const result = await organizerApplicationService.linkPlayerToOrganizer(playerId, organizerId);
 
-    const result = await organizerApplicationService.linkPlayerToOrganizer(playerId, organizerId);
+      useCaseLogger.info('linkPlayerToOrganizer', 'Игрок привязан к организатору',
+        { playerId, organizerId },
+        { executionTimeMs: Date.now() - startedAt }
+      );
 
-    useCaseLogger.info('linkPlayerToOrganizer', 'Игрок привязан к организатору',
-      { playerId, organizerId },
-      { correlationId, executionTimeMs: Date.now() - parseInt(correlationId.split('_')[3] || '0') }
-    );
+      return result;
+    });
+  }
+
+  /**
+   * Регистрирует webhook эндпоинт организатора или администратора.
+   * @param {CreateWebhookCommand} command - Пользователь, URL и типы событий.
+   * @returns Эндпоинт вместе с секретом подписи (показывается один раз).
+   */
+  export async function createWebhook(command: CreateWebhookCommand) {
+    return runUseCase('createWebhook', {}, async () => {
+      InputValidator.validateRequired(command.userId, 'userId');
+      InputValidator.validateRequired(command.url, 'url');
+
+      return webhookApplicationService.createWebhook(command);
+    });
+  }
+
+  /**
+   * Возвращает webhook эндпоинты, доступные пользователю.
+   * @param {string} userId - ID пользователя.
+   */
+  export async function listWebhooks(userId: string) {
+    return runUseCase('listWebhooks', { userId }, async () => {
+      return webhookApplicationService.listWebhooks(userId);
+    });
+  }
+
+  /**
+   * Удаляет webhook эндпоинт.
+   * @param {string} userId - ID пользователя.
+   * @param {string} webhookId - ID эндпоинта.
+   * @returns {Promise<{ ok: boolean }>} - Успех операции.
+   */
+  export async function deleteWebhook(userId: string, webhookId: string) {
+    return runUseCase('deleteWebhook', { userId, webhookId }, async () => {
+      return webhookApplicationService.deleteWebhook(userId, webhookId);
+    });
+  }
+
+  /**
+   * Возвращает журнал доставок webhook эндпоинта.
+   * @param {string} userId - ID пользователя.
+   * @param {string} webhookId - ID эндпоинта.
+   * @param {number} limit - Максимальное число записей.
+   */
+  export async function listWebhookDeliveries(userId: string, webhookId: string, limit?: number) {
+    return runUseCase('listWebhookDeliveries', { userId, webhookId }, async () => {
+      return webhookApplicationService.listDeliveries(userId, webhookId, limit);
+    });
+  }
+
+  /**
+   * Возвращает события dead letter queue (только для администраторов).
+   * @param {string} userId - ID администратора.
+   * @param {ListDeadLettersQuery} query - Статус и количество событий.
+   */
+  export async function listDeadLetters(userId: string, query?: ListDeadLettersQuery) {
+    return runUseCase('listDeadLetters', { userId }, async () => {
+      return deadLetterApplicationService.list(userId, query);
+    });
+  }
+
+  /**
+   * Возвращает событие dead letter queue вместе с payload.
+   * @param {string} userId - ID администратора.
+   * @param {string} deadLetterId - ID события в очереди.
+   */
+  export async function getDeadLetter(userId: string, deadLetterId: string) {
+    return runUseCase('getDeadLetter', { userId, deadLetterId }, async () => {
+      return deadLetterApplicationService.get(userId, deadLetterId);
+    });
+  }
+
+  /**
+   * Повторяет событие для обработчика, который не смог его обработать.
+   * @param {string} userId - ID администратора.
+   * @param {string} deadLetterId - ID события в очереди.
+   * @returns Результат повтора и ошибка, если повтор не удался.
+   */
+  export async function replayDeadLetter(userId: string, deadLetterId: string) {
+    return runUseCase('replayDeadLetter', { userId, deadLetterId }, async () => {
+      return deadLetterApplicationService.replay(userId, deadLetterId);
+    });
+  }
+
+  /**
+   * Повторяет все ожидающие события dead letter queue.
+   * @param {string} userId - ID администратора.
+   * @returns Количество успешно повторенных и неудачных событий.
+   */
+  export async function replayAllDeadLetters(userId: string) {
+    return runUseCase('replayAllDeadLetters', { userId }, async () => {
+      return deadLetterApplicationService.replayAll(userId);
+    });
+  }
+
+  /**
+   * Отбрасывает событие dead letter queue.
+   * @param {string} userId - ID администратора.
+   * @param {string} deadLetterId - ID события в очереди.
+   */
+  export async function discardDeadLetter(userId: string, deadLetterId: string) {
+    return runUseCase('discardDeadLetter', { userId, deadLetterId }, async () => {
+      return deadLetterApplicationService.discard(userId, deadLetterId);
+    });
+  }
+
+  /**
+   * Отбрасывает все ожидающие события dead letter queue.
+   * @param {string} userId - ID администратора.
+   */
+  export async function discardAllDeadLetters(userId: string) {
+    return runUseCase('discardAllDeadLetters', { userId }, async () => {
+      return deadLetterApplicationService.discardAll(userId);
+    });
+  }
 
-    return result;
+  /**
+   * Возвращает историю игры из журнала аудита: записи, выходы, продвижения, оплаты и смены статуса.
+   * @param {string} userId - ID организатора игры или администратора.
+   * @param {string} gameId - Идентификатор игры.
+   * @throws {BusinessRuleError} - Если игра не найдена или пользователь не ее организатор.
+   */
+  export async function getGameHistory(userId: string, gameId: string) {
+    return runUseCase('getGameHistory', { userId, gameId }, async () => {
+      return auditApplicationService.getGameHistory(userId, gameId);
+    });
+  }
+
+  /**
+   * Выставляет счет на онлайн-оплату участия в игре на текущую долю игрока.
+   * @param {string} gameId - Идентификатор игры.
+   * @param {string} userId - Идентификатор игрока.
+   * @param {string} provider - Провайдер, через который будет отправлен счет.
+   * @throws {BusinessRuleError} - Если у игры нет цены или запись не может быть оплачена.
+   */
+  export async function createPaymentInvoice(gameId: string, userId: string, provider: string) {
+    return runUseCase('createPaymentInvoice', { gameId, userId }, async () => {
+      InputValidator.validateRequired(gameId, 'gameId');
+      InputValidator.validateRequired(userId, 'userId');
+      return onlinePaymentApplicationService.createInvoice(gameId, userId, provider);
+    });
+  }
+
+  /**
+   * Проверяет счет перед списанием денег (pre_checkout_query).
+   * @param {string} paymentId - ID счета из payload.
+   * @param {number} totalAmount - Сумма к списанию в минимальных единицах валюты.
+   * @param {string} currency - Валюта списания.
+   * @throws {BusinessRuleError} - Если оплату нужно отклонить.
+   */
+  export async function validatePaymentCheckout(paymentId: string, totalAmount: number, currency: string) {
+    return runUseCase('validatePaymentCheckout', { paymentId }, async () => {
+      InputValidator.validateRequired(paymentId, 'paymentId');
+      return onlinePaymentApplicationService.validateCheckout(paymentId, totalAmount, currency);
+    });
+  }
+
+  /**
+   * Фиксирует подтвержденную провайдером оплату (successful_payment) и отмечает запись оплаченной.
+   * @param {CompleteOnlinePaymentCommand} command - Счет и данные списания.
+   * @returns Игра, сумма и признак того, что оплата зафиксирована впервые.
+   */
+  export async function completeOnlinePayment(command: CompleteOnlinePaymentCommand) {
+    return runUseCase('completeOnlinePayment', {}, async () => {
+      InputValidator.validateRequired(command.paymentId, 'paymentId');
+      return onlinePaymentApplicationService.completePayment(command);
+    });
+  }
+
+  /**
+   * Вносит движение по балансу игрока у организатора: пополнение, возврат или корректировку.
+   * @param {RecordLedgerEntryCommand} command - Организатор, игрок, тип и сумма движения.
+   * @returns Запись и новый баланс игрока в валюте записи.
+   * @throws {BusinessRuleError} - Если пользователь не организатор или игрок не найден.
+   * @throws {ValidationError} - Если тип или сумма некорректны.
+   */
+  export async function recordLedgerEntry(command: RecordLedgerEntryCommand) {
+    return runUseCase('recordLedgerEntry', {}, async () => {
+      InputValidator.validateRequired(command.organizerUserId, 'organizerUserId');
+      InputValidator.validateRequired(command.userId, 'userId');
+      return ledgerApplicationService.recordEntry(command);
+    });
+  }
+
+  /**
+   * Возвращает балансы игрока у всех организаторов.
+   * @param {string} userId - Идентификатор игрока.
+   */
+  export async function getPlayerBalances(userId: string) {
+    return runUseCase('getPlayerBalances', { userId }, async () => {
+      InputValidator.validateRequired(userId, 'userId');
+      return ledgerApplicationService.getPlayerBalances(userId);
+    });
+  }
+
+  /**
+   * Возвращает обзор балансов игроков организатора.
+   * @param {string} organizerUserId - Идентификатор пользователя-организатора.
+   * @throws {BusinessRuleError} - Если пользователь не организатор.
+   */
+  export async function getOrganizerBalances(organizerUserId: string) {
+    return runUseCase('getOrganizerBalances', { organizerUserId }, async () => {
+      InputValidator.validateRequired(organizerUserId, 'organizerUserId');
+      return ledgerApplicationService.getOrganizerOverview(organizerUserId);
+    });
+  }
+
+  /**
+   * Возвращает выписку по балансу игрока у организатора.
+   * @param {string} organizerUserId - Идентификатор пользователя-организатора.
+   * @param {string} userId - Идентификатор игрока.
+   * @throws {BusinessRuleError} - Если пользователь не организатор или игрок не найден.
+   */
+  export async function getPlayerLedger(organizerUserId: string, userId: string) {
+    return runUseCase('getPlayerLedger', { organizerUserId, userId }, async () => {
+      InputValidator.validateRequired(organizerUserId, 'organizerUserId');
+      InputValidator.validateRequired(userId, 'userId');
+      return ledgerApplicationService.getPlayerLedger(organizerUserId, userId);
+    });
+  }
+
+  /**
+   * Привязывает группу клуба к профилю организатора.
+   * @param {BindGroupChatCommand} command - Пользователь-организатор, ID и название группы.
+   * @throws {BusinessRuleError} - Если пользователь не организатор или группа привязана к другому организатору.
+   */
+  export async function bindGroupChat(command: BindGroupChatCommand) {
+    return runUseCase('bindGroupChat', { userId: command.userId }, async () => {
+      InputValidator.validateRequired(command.userId, 'userId');
+      InputValidator.validateRequired(command.chatId, 'chatId');
+      return groupChatApplicationService.bindGroupChat(command);
+    });
+  }
+
+  /**
+   * Отвязывает группу клуба от профиля организатора.
+   * @param {string} userId - Идентификатор пользователя-организатора.
+   * @throws {BusinessRuleError} - Если пользователь не организатор.
+   */
+  export async function unbindGroupChat(userId: string) {
+    return runUseCase('unbindGroupChat', { userId }, async () => {
+      InputValidator.validateRequired(userId, 'userId');
+      return groupChatApplicationService.unbindGroupChat(userId);
+    });
+  }
+
+  /**
+   * Возвращает команду организатора, в которой состоит пользователь, и его роль.
+   * @param {string} userId - Идентификатор пользователя.
+   * @returns Организатор команды и роль или null, если пользователь не в команде.
+   */
+  export async function getOrganizerMembership(userId: string) {
+    return runUseCase('getOrganizerMembership', { userId }, async () => {
+      InputValidator.validateRequired(userId, 'userId');
+      return organizerTeamApplicationService.findMembership(userId);
+    });
+  }
+
+  /**
+   * Возвращает участников команды организатора.
+   * @param {string} userId - Идентификатор участника команды.
+   * @throws {BusinessRuleError} - Если пользователь не состоит в команде.
+   */
+  export async function listTeamMembers(userId: string) {
+    return runUseCase('listTeamMembers', { userId }, async () => {
+      InputValidator.validateRequired(userId, 'userId');
+      return organizerTeamApplicationService.listMembers(userId);
+    });
+  }
+
+  /**
+   * Возвращает подтвержденных игроков, которых владелец может добавить в команду.
+   * @param {string} ownerUserId - Идентификатор владельца команды.
+   * @throws {BusinessRuleError} - Если пользователь не управляет командой.
+   */
+  export async function listTeamCandidates(ownerUserId: string) {
+    return runUseCase('listTeamCandidates', { ownerUserId }, async () => {
+      InputValidator.validateRequired(ownerUserId, 'ownerUserId');
+      return organizerTeamApplicationService.listCandidates(ownerUserId);
+    });
+  }
+
+  /**
+   * Добавляет пользователя в команду организатора или меняет его роль.
+   * @param {AddTeamMemberCommand} command - Владелец команды, пользователь и роль.
+   * @throws {BusinessRuleError} - Если пользователь не управляет командой или добавляемый уже в другой команде.
+   */
+  export async function addTeamMember(command: AddTeamMemberCommand) {
+    return runUseCase('addTeamMember', { ownerUserId: command.ownerUserId, userId: command.userId }, async () => {
+      InputValidator.validateRequired(command.ownerUserId, 'ownerUserId');
+      InputValidator.validateRequired(command.userId, 'userId');
+      InputValidator.validateRequired(command.role, 'role');
+      return organizerTeamApplicationService.addMember(command);
+    });
+  }
+
+  /**
+   * Исключает участника из команды организатора.
+   * @param {string} ownerUserId - Идентификатор владельца команды.
+   * @param {string} userId - Идентификатор исключаемого участника.
+   * @throws {BusinessRuleError} - Если пользователь не управляет командой или участник не найден.
+   */
+  export async function removeTeamMember(ownerUserId: string, userId: string) {
+    return runUseCase('removeTeamMember', { ownerUserId, userId }, async () => {
+      InputValidator.validateRequired(ownerUserId, 'ownerUserId');
+      InputValidator.validateRequired(userId, 'userId');
+      return organizerTeamApplicationService.removeMember(ownerUserId, userId);
+    });
+  }
+
+  /**
+   * Подтверждает или исправляет уровень игрока от имени организатора.
+   * @param {VerifyPlayerLevelCommand} command - Участник команды организатора, игрок и уровень.
+   * @returns Уровень игрока до и после подтверждения.
+   * @throws {BusinessRuleError} - Если пользователь не управляет игроками или игрок не подтвержден у организатора.
+   */
+  export async function verifyPlayerLevel(command: VerifyPlayerLevelCommand) {
+    return runUseCase('verifyPlayerLevel', { organizerUserId: command.organizerUserId, userId: command.userId }, async () => {
+      InputValidator.validateRequired(command.organizerUserId, 'organizerUserId');
+      InputValidator.validateRequired(command.userId, 'userId');
+      InputValidator.validateRequired(command.levelTag, 'levelTag');
+      return playerLevelApplicationService.verifyLevel(command);
+    });
+  }
+
+  /**
+   * Записывает игрока на игру от имени организатора в обход ограничения уровня.
+   * @param {string} gameId - Идентификатор игры.
+   * @param {string} organizerUserId - Участник команды организатора игры.
+   * @param {string} userId - Идентификатор игрока.
+   * @returns {Promise<{ status: RegStatus }>} - Статус регистрации игрока.
+   * @throws {BusinessRuleError} - Если игра чужая, закрыта или игрок уже записан.
+   */
+  export async function admitPlayer(gameId: string, organizerUserId: string, userId: string): Promise<{ status: RegStatus; }> {
+    return runUseCase('admitPlayer', { gameId, organizerUserId, userId }, async () => {
+      InputValidator.validateRequired(gameId, 'gameId');
+      InputValidator.validateRequired(organizerUserId, 'organizerUserId');
+      InputValidator.validateRequired(userId, 'userId');
+
+      const useCaseLogger = LoggerFactory.useCase('admitPlayer');
+      const result = await gameApplicationService.admitPlayer({ gameId, organizerUserId, userId });
+
+      useCaseLogger.info('admitPlayer', 'Организатор записал игрока в обход ограничения уровня',
+        { gameId, organizerUserId, userId, status: result.status }
+      );
+      return { status: result.status };
+    });
   }
\ No newline at end of file
@@ -0,0 +1,148 @@
+import { Context } from 'telegraf';
+import { BaseHandler } from '../common/base-handler.js';
+import { CommandValidator } from '../common/command-validator.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { ErrorHandler } from '../../shared/error-handler.js';
+import { formatGameTimeForUser } from '../../shared/date-utils.js';
+import {
+  listDeadLetters,
+  getDeadLetter,
+  replayDeadLetter,
+  replayAllDeadLetters,
+  discardDeadLetter,
+  discardAllDeadLetters
+} from '../../application/use-cases.js';
+
+// Telegram ограничивает сообщение 4096 символами - длинный payload обрезается
+const MAX_PAYLOAD_LENGTH = 3000;
+// Длинные ошибки в списке обрезаются, полный текст - в /deadletter ID
+const MAX_ERROR_LENGTH = 200;
+
+/**
+ * Обработчик команд администратора для dead letter queue событий
+ * Ответы без Markdown: в ошибках и payload встречаются символы разметки
+ */
+export class DeadLetterHandler extends BaseHandler {
+  protected static override logger = LoggerFactory.bot('dead-letter-handler');
+
+  /**
+   * Обработчик команды /deadletters
+   * Показывает последние события, которые обработчики не смогли обработать
+   */
+  static async handleDeadLetters(ctx: Context): Promise<void> {
+    const t = await DeadLetterHandler.translatorFor(ctx);
+    try {
+      const user = await DeadLetterHandler.requireUser(ctx);
+      const { items, total } = await listDeadLetters(user.id, { limit: 10 });
+
+      if (items.length === 0) {
+        await ctx.reply(t('deadLetters.empty'));
+        return;
+      }
+
+      const list = items.map(deadLetter => t('deadLetters.item', {
+        id: deadLetter.id,
+        eventType: deadLetter.eventType,
+        handler: deadLetter.handler,
+        createdAt: formatGameTimeForUser(deadLetter.createdAt, user),
+        error: DeadLetterHandler.truncate(deadLetter.error, MAX_ERROR_LENGTH)
+      })).join('\n\n');
+      await ctx.reply(t('deadLetters.list', { total, list, usage: t('deadLetters.usage') }));
+    } catch (error: any) {
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик команды /deadletter ID
+   * Показывает событие вместе с payload
+   */
+  static async handleDeadLetter(ctx: Context): Promise<void> {
+    const t = await DeadLetterHandler.translatorFor(ctx);
+    const deadLetterId = CommandValidator.validateMultiArgCommand(ctx).trim();
+    if (!CommandValidator.isValidUUID(deadLetterId)) {
+      await ctx.reply(CommandValidator.createUsageMessage('deadletter', 'ID', t));
+      return;
+    }
+
+    try {
+      const user = await DeadLetterHandler.requireUser(ctx);
+      const deadLetter = await getDeadLetter(user.id, deadLetterId);
+      await ctx.reply(t('deadLetters.details', {
+        id: deadLetter.id,
+        eventType: deadLetter.eventType,
+        handler: deadLetter.handler,
+        status: deadLetter.status,
+        occurredAt: formatGameTimeForUser(deadLetter.occurredAt, user),
+        createdAt: formatGameTimeForUser(deadLetter.createdAt, user),
+        attempts: deadLetter.replayAttempts,
+        error: deadLetter.lastReplayError ?? deadLetter.error,
+        payload: DeadLetterHandler.truncate(JSON.stringify(deadLetter.payload, null, 2), MAX_PAYLOAD_LENGTH)
+      }));
+    } catch (error: any) {
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик команды /replayevent ID|all
+   */
+  static async handleReplayEvent(ctx: Context): Promise<void> {
+    const t = await DeadLetterHandler.translatorFor(ctx);
+    const target = CommandValidator.validateMultiArgCommand(ctx).trim();
+    if (target !== 'all' && !CommandValidator.isValidUUID(target)) {
+      await ctx.reply(CommandValidator.createUsageMessage('replayevent', 'ID|all', t));
+      return;
+    }
+
+    try {
+      const user = await DeadLetterHandler.requireUser(ctx);
+      if (target === 'all') {
+        const { replayed, failed } = await replayAllDeadLetters(user.id);
+        await ctx.reply(t('deadLetters.replayedAll', { replayed, failed }));
+        return;
+      }
+
+      const result = await replayDeadLetter(user.id, target);
+      await ctx.reply(result.replayed
+        ? t('deadLetters.replayed')
+        : t('deadLetters.replayFailed', { error: result.error ?? '' })
+      );
+    } catch (error: any) {
+      DeadLetterHandler.logger.error('handleReplayEvent', 'Не удалось повторить событие', error as Error,
+        { telegramId: ctx.from?.id, target }
+      );
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик команды /discardevent ID|all
+   */
+  static async handleDiscardEvent(ctx: Context): Promise<void> {
+    const t = await DeadLetterHandler.translatorFor(ctx);
+    const target = CommandValidator.validateMultiArgCommand(ctx).trim();
+    if (target !== 'all' && !CommandValidator.isValidUUID(target)) {
+      await ctx.reply(CommandValidator.createUsageMessage('discardevent', 'ID|all', t));
+      return;
+    }
+
+    try {
+      const user = await DeadLetterHandler.requireUser(ctx);
+      if (target === 'all') {
+        const { discarded } = await discardAllDeadLetters(user.id);
+        await ctx.reply(t('deadLetters.discardedAll', { count: discarded }));
+        return;
+      }
+
+      await discardDeadLetter(user.id, target);
+      await ctx.reply(t('deadLetters.discarded'));
+    } catch (error: any) {
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  private static truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+  }
+}
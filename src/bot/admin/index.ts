@@ -0,0 +1 @@
+export { DeadLetterHandler } from './dead-letter-handler.js';
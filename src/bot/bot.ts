@@ -8,8 +8,12 @@ import {
   ProfileModule,
   SettingsModule,
   InvitationsModule,
+  VenuesModule,
+  AdminModule,
+  GroupChatModule,
   CommonModule
 } from './modules/index.js';
+import { traceTelegramUpdate } from './common/index.js';
 
 /**
  * Инициализирует бота с модульной архитектурой
@@ -17,6 +21,9 @@ import {
 async function initializeBot(): Promise<Telegraf> {
   const bot = new Telegraf(process.env.TELEGRAM_BOT_TOKEN!);
 
+  // Спан на каждое обновление - первым, чтобы в трассу попало все, включая rate limiting
+  bot.use(traceTelegramUpdate);
+
   // Применяем rate limiting
   const limitConfig = { in: 2, out: 1, unique: true }; // 2 сообщения в секунду
   bot.use(rateLimit(limitConfig));
@@ -31,6 +38,9 @@ async function initializeBot(): Promise<Telegraf> {
   registry.registerModule(new ProfileModule());
   registry.registerModule(new SettingsModule());
   registry.registerModule(new InvitationsModule());
+  registry.registerModule(new VenuesModule());
+  registry.registerModule(new AdminModule());
+  registry.registerModule(new GroupChatModule());
   registry.registerModule(new CommonModule());
 
   // Инициализируем все модули
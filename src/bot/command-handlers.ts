@@ -1,34 +1,29 @@
 import { Context } from 'telegraf';
 import { z } from 'zod';
-import { joinGame, leaveGame, markPayment, listGames, closeGame, selectOrganizers, confirmPlayer, rejectPlayer, getOrganizerPlayers, respondToGameInvitation } from '../application/use-cases.js';
+import { joinGame, leaveGame, markPayment, listGames, closeGame, selectOrganizers, confirmPlayer, rejectPlayer, getOrganizerPlayers, respondToGameInvitation, getOrganizerMembership } from '../application/use-cases.js';
+import { TeamPermission, hasTeamPermission } from '../domain/organizer-team.js';
 import { prisma } from '../infrastructure/prisma.js';
-import { formatGameTimeForNotification, formatDateForButton } from '../shared/date-utils.js';
+import { formatGameTimeForUser, formatDateForButton, getUserPreferences } from '../shared/date-utils.js';
 import { ErrorHandler } from '../shared/error-handler.js';
 import { userPreferencesService } from '../shared/user-preferences-service.js';
-import { getVenueName, getRegistrationStatusName, getPaymentStatusName, getGameStatusName, getOrganizerName, getLevelName } from '../shared/game-constants.js';
+import { createSessionStore } from '../shared/session-store.js';
+import { getVenueName, getRegistrationStatusName, getPaymentStatusName, getGameStatusName, getOrganizerName, getLevelName, getLevelRestrictionLine, getPlayerLevelName, getLocaleName, formatMoney } from '../shared/game-constants.js';
+import { getTranslator, type Translator } from '../shared/i18n/index.js';
 import { KeyboardBuilder } from './common/keyboard-builder.js';
 import { InlineKeyboardButton } from 'telegraf/types';
 
 const GameIdSchema = z.string().uuid();
 
 export class CommandHandlers {
-  static organizerSelectionSessions = new Map<number, { session: Set<string>, timestamp: number }>();
-
-  // Очистка сессий по таймауту (30 минут)
-  private static cleanupSessions(): void {
-    const now = Date.now();
-    const timeout = 30 * 60 * 1000; // 30 минут
-
-    for (const [telegramId, data] of this.organizerSelectionSessions) {
-      if (now - data.timestamp > timeout) {
-        this.organizerSelectionSessions.delete(telegramId);
-      }
-    }
-  }
+  // Выбранные игроком организаторы до нажатия "Готово"
+  static organizerSelectionSessions = createSessionStore<{ selectedIds: Set<string> }>('organizer-selection');
   static async handleGameInfo(ctx: Context, gameId: string): Promise<void> {
+    const viewer = ctx.from ? await prisma.user.findUnique({ where: { telegramId: ctx.from.id } }) : null;
+    const t = getTranslator(viewer, ctx.from?.language_code);
+
     const validationResult = GameIdSchema.safeParse(gameId);
     if (!validationResult.success) {
-      await ctx.reply('Неверный формат ID игры. Используй UUID.');
+      await ctx.reply(t('common.invalidGameIdUuid'));
       return;
     }
 
@@ -36,6 +31,7 @@ export class CommandHandlers {
       where: { id: gameId },
       include: {
         organizer: true,
+        venue: true,
         registrations: {
           include: { user: true }
         }
@@ -43,26 +39,37 @@ export class CommandHandlers {
     });
 
     if (!game) {
-      await ctx.reply('Игра не найдена');
+      await ctx.reply(t('common.gameNotFound'));
       return;
     }
 
-    const date = formatGameTimeForNotification(game.startsAt);
-    const status = getGameStatusName(game.status);
-    const level = getLevelName(game.levelTag || "") ?? '';
+    const date = formatGameTimeForUser(game.startsAt, viewer);
+    const status = getGameStatusName(game.status, t);
+    const level = getLevelName(game.levelTag || '', t);
     const price = game.priceText ? ` - ${game.priceText}` : '';
-    const venue = getVenueName(game.venueId);
+    const venue = getVenueName(game.venue);
     const organizer = game.organizer.title
 
     const confirmedCount = game.registrations.filter((r: any) => r.status === 'confirmed').length;
-    const waitlistedCount = game.registrations.filter((r: any) => r.status === 'waitlisted').length;
+    const waitlisted = game.registrations
+      .filter((r: any) => r.status === 'waitlisted')
+      .sort((a: any, b: any) => a.createdAt.getTime() - b.createdAt.getTime());
+    const waitlistedCount = waitlisted.length;
+    const viewerRegistration = viewer ? game.registrations.find((r: any) => r.userId === viewer.id) : undefined;
 
-    const organizerName = getOrganizerName(game);
+    const organizerName = getOrganizerName(game, t);
 
     let message = `🎾 ${date}${level}${price}\n${venue}\n${status}\n${organizer}\n\n`;
-    message += `Участников: ${confirmedCount}/${game.capacity}\n`;
+    message += `${t('games.participants', { confirmed: confirmedCount, capacity: game.capacity })}\n`;
     if (waitlistedCount > 0) {
-      message += `В ожидании: ${waitlistedCount}\n`;
+      message += `${t('games.waitlisted', { count: waitlistedCount })}\n`;
+    }
+    // Свое место в очереди или предложенное место зритель видит прямо в карточке игры
+    if (viewerRegistration?.status === 'waitlisted') {
+      const position = waitlisted.findIndex((r: any) => r.userId === viewer!.id) + 1;
+      message += `${t('waitlist.position', { position, count: waitlistedCount })}\n`;
+    } else if (viewerRegistration?.status === 'offered' && viewerRegistration.offerExpiresAt) {
+      message += `${t('waitlist.offeredUntil', { time: formatGameTimeForUser(viewerRegistration.offerExpiresAt, viewer) })}\n`;
     }
     message += `${organizerName}ID: \`${game.id}\``;
 
@@ -72,15 +79,17 @@ export class CommandHandlers {
   static async handleGames(ctx: Context): Promise<void> {
     const user = await prisma.user.findUnique({ where: { telegramId: ctx.from!.id } });
     const userId = user?.id;
+    const prefs = getUserPreferences(user);
+    const t = getTranslator(user, ctx.from?.language_code);
     const allGames = await listGames(userId);
 
     if (allGames.length === 0) {
       const user = await prisma.user.findUnique({ where: { telegramId: ctx.from!.id } });
-      const isOrganizer = user ? await prisma.organizer.findUnique({ where: { userId: user.id } }) : null;
+      const isOrganizer = user ? await getOrganizerMembership(user.id) : null;
 
       const message = isOrganizer
-        ? 'Нет активных игр. Создай новую командой /newgame'
-        : 'Нет активных игр. Ждем, когда организаторы создадут новые игры';
+        ? t('games.noneOrganizer')
+        : t('games.nonePlayer');
 
       await ctx.reply(message);
       return;
@@ -105,7 +114,7 @@ export class CommandHandlers {
     }
 
     if (availableGames.length === 0) {
-          await ctx.reply('Все доступные игры уже заняты тобой. Проверь свои регистрации командой /my');
+          await ctx.reply(t('games.allJoined'));
           return;
         }
     
@@ -121,24 +130,29 @@ export class CommandHandlers {
             return { ...game, confirmedRegistrations: confirmedCount };
           })
         );
+        const venues = await prisma.venue.findMany({
+          where: { id: { in: gamesWithRegistrations.map((game: any) => game.venueId) } }
+        });
+        const venuesById = new Map(venues.map(venue => [venue.id, venue]));
     
         const gamesList = gamesWithRegistrations.map((game: any) => {
-          const date = formatGameTimeForNotification(game.startsAt);
-          const status = getGameStatusName(game._status);
-          const level = game.levelTag ? ` (${game.levelTag})` : '';
+          const date = formatGameTimeForUser(game.startsAt, user);
+          const status = getGameStatusName(game._status, t);
+          const level = game.levelTag ? ` (${getLevelName(game.levelTag, t)})` : '';
           const price = game.priceText ? ` - ${game.priceText}` : '';
           const availableSpots = game.capacity - game.confirmedRegistrations;
-          const venue = getVenueName(game.venueId);
+          const venue = getVenueName(venuesById.get(game.venueId));
+          const restriction = getLevelRestrictionLine(game, t);
     
-          return `🎾 ${date}${level}${price}\n${venue}\n${status} (${availableSpots} мест свободно)\nID: \`${game.id}\``;
+          return `🎾 ${date}${level}${price}\n${venue}${restriction ? `\n${restriction}` : ''}\n${status} (${t('games.freeSpots', { count: availableSpots })})\nID: \`${game.id}\``;
         }).join('\n\n');
     
         // Создаем кнопки для каждой игры
         const buttons: InlineKeyboardButton[][] = gamesWithRegistrations.map((game: any) => [
-          { text: `${formatDateForButton(game.startsAt)} 🎾 Присоединиться`, callback_data: `join_game_${game.id}` }
+          { text: t('games.joinButton', { date: formatDateForButton(game.startsAt, prefs.timezone, prefs.locale) }), callback_data: `join_game_${game.id}` }
         ]);
 
-        await ctx.reply(`Доступные игры:\n\n${gamesList}`, {
+        await ctx.reply(t('games.available', { list: gamesList }), {
           parse_mode: 'Markdown',
           reply_markup: { inline_keyboard: buttons }
         });
@@ -146,102 +160,107 @@ export class CommandHandlers {
 
   static async handleJoin(ctx: Context, gameId: string): Promise<void> {
     const user = await prisma.user.findUnique({ where: { telegramId: ctx.from!.id } });
+    const t = getTranslator(user, ctx.from?.language_code);
     if (!user) {
-      await ctx.reply('Сначала зарегистрируйся командой /start');
+      await ctx.reply(t('common.registerFirst'));
       return;
     }
 
     const validationResult = GameIdSchema.safeParse(gameId);
     if (!validationResult.success) {
-      await ctx.reply('Неверный формат ID игры. Используй UUID.');
+      await ctx.reply(t('common.invalidGameIdUuid'));
       return;
     }
 
     try {
       const result = await joinGame(gameId, user.id!);
       const message = result.status === 'confirmed'
-        ? 'Место забронировано ✅'
-        : 'Лист ожидания ⏳ (сообщим, если место освободится)';
+        ? t('games.joinedConfirmed')
+        : t('games.joinedWaitlisted');
       await ctx.reply(message);
     } catch (error: any) {
       if (error.code === 'ALREADY_REGISTERED') {
-        await ctx.reply('Вы уже зарегистрированы на эту игру');
+        await ctx.reply(t('errors.ALREADY_REGISTERED'));
       } else {
-        await ctx.reply(ErrorHandler.mapToUserMessage(error));
+        await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
       }
     }
   }
 
   static async handleLeave(ctx: Context, gameId: string): Promise<void> {
     const user = await prisma.user.findUnique({ where: { telegramId: ctx.from!.id } });
+    const t = getTranslator(user, ctx.from?.language_code);
     if (!user) {
-      await ctx.reply('Сначала зарегистрируйся командой /start');
+      await ctx.reply(t('common.registerFirst'));
       return;
     }
 
     const validationResult = GameIdSchema.safeParse(gameId);
     if (!validationResult.success) {
-      await ctx.reply('Неверный формат ID игры. Используй UUID.');
+      await ctx.reply(t('common.invalidGameIdUuid'));
       return;
     }
 
     try {
       await leaveGame(gameId, user.id!);
-      await ctx.reply('Запись отменена. Если освободилось место, пригласили следующего.');
+      await ctx.reply(t('games.left'));
     } catch (error: any) {
-      await ctx.reply(ErrorHandler.mapToUserMessage(error));
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
     }
   }
 
   static async handlePay(ctx: Context, gameId: string): Promise<void> {
     const user = await prisma.user.findUnique({ where: { telegramId: ctx.from!.id } });
+    const t = getTranslator(user, ctx.from?.language_code);
     if (!user) {
-      await ctx.reply('Сначала зарегистрируйся командой /start');
+      await ctx.reply(t('common.registerFirst'));
       return;
     }
 
     const validationResult = GameIdSchema.safeParse(gameId);
     if (!validationResult.success) {
-      await ctx.reply('Неверный формат ID игры. Используй UUID.');
+      await ctx.reply(t('common.invalidGameIdUuid'));
       return;
     }
 
     try {
       await markPayment(gameId, user.id!);
-      await ctx.reply('Оплата отмечена 💰 Спасибо!');
+      await ctx.reply(t('games.paymentMarked'));
     } catch (error: any) {
       if (error.code === 'PAYMENT_WINDOW_NOT_OPEN') {
-        await ctx.reply('Окно оплаты еще не открыто');
+        await ctx.reply(t('errors.PAYMENT_WINDOW_NOT_OPEN'));
       } else {
-        await ctx.reply(ErrorHandler.mapToUserMessage(error));
+        await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
       }
     }
   }
 
   static async handleClose(ctx: Context, gameId: string): Promise<void> {
     const user = await prisma.user.findUnique({ where: { telegramId: ctx.from!.id } });
+    const t = getTranslator(user, ctx.from?.language_code);
     if (!user) {
-      await ctx.reply('Сначала зарегистрируйся командой /start');
+      await ctx.reply(t('common.registerFirst'));
       return;
     }
 
-    const organizer = await prisma.organizer.findUnique({ where: { userId: user.id } });
-    if (!organizer) {
-      await ctx.reply('Ты не зарегистрирован как организатор');
+    const membership = await getOrganizerMembership(user.id);
+    if (!membership) {
+      await ctx.reply(t('common.notOrganizer'));
       return;
     }
 
     const validationResult = GameIdSchema.safeParse(gameId);
     if (!validationResult.success) {
-      await ctx.reply('Неверный формат ID игры. Используй UUID.');
+      await ctx.reply(t('common.invalidGameIdUuid'));
       return;
     }
 
     try {
-      await closeGame(gameId, organizer.id);
-      await ctx.reply('Игра закрыта для новых записей 🔒');
+      // Права роли и принадлежность игры команде проверяет сервис
+      await closeGame(gameId, user.id);
+      await ctx.reply(t('games.closed'));
     } catch (error: any) {
-      await ctx.reply(ErrorHandler.mapToUserMessage(error));
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
     }
   }
 
@@ -249,12 +268,15 @@ export class CommandHandlers {
     const telegramId = ctx.from!.id;
 
     const user = await prisma.user.findUnique({ where: { telegramId } });
+
+    const t = getTranslator(user, ctx.from?.language_code);
     if (!user) {
-      await ctx.reply('Сначала зарегистрируйся командой /start');
+      await ctx.reply(t('common.registerFirst'));
       return;
     }
 
-    const isOrganizer = await prisma.organizer.findUnique({ where: { userId: user.id } });
+    const isOrganizer = (await getOrganizerMembership(user.id))?.organizer;
+    const prefs = getUserPreferences(user);
 
     let message = '';
         let buttons: InlineKeyboardButton[][] = [];
@@ -265,19 +287,24 @@ export class CommandHandlers {
         const playerRegistrations = await playerQuery.execute();
     
         if (playerRegistrations.length > 0) {
-          message += '🎾 *Игры как участник:*\n\n';
+          message += `${t('my.playerGames')}\n\n`;
     
           const playerGamesList = playerRegistrations.map((reg: any) => {
             const game = reg.game;
-            const date = formatGameTimeForNotification(game.startsAt);
+            const date = formatGameTimeForUser(game.startsAt, user);
     
-            const status = getRegistrationStatusName(reg.status);
-            const payment = getPaymentStatusName(reg.paymentStatus);
-            const level = game.levelTag ? ` (${game.levelTag})` : '';
+            let status = getRegistrationStatusName(reg.status, t);
+            if (reg.waitlistPosition) {
+              status += ` (${t('waitlist.positionShort', { position: reg.waitlistPosition })})`;
+            } else if (reg.status === 'offered' && reg.offerExpiresAt) {
+              status += ` (${t('waitlist.offeredUntil', { time: formatGameTimeForUser(reg.offerExpiresAt, user) })})`;
+            }
+            const payment = getPaymentStatusName(reg.paymentStatus, t);
+            const level = game.levelTag ? ` (${getLevelName(game.levelTag, t)})` : '';
             const price = game.priceText ? ` - ${game.priceText}` : '';
-            const venue = getVenueName(game.venueId);
+            const venue = getVenueName(game.venue);
     
-            const organizerName = getOrganizerName(game);
+            const organizerName = getOrganizerName(game, t);
             return `🎾 ${date}${level}${price}\n${venue}\n${status} | ${payment}\n${organizerName}ID: \`${game.id}\``;
           }).join('\n\n');
     
@@ -288,25 +315,35 @@ export class CommandHandlers {
             const game = reg.game;
             const buttonRow: InlineKeyboardButton[] = [];
     
-            const buttonDate = formatDateForButton(game.startsAt);
+            const buttonDate = formatDateForButton(game.startsAt, prefs.timezone, prefs.locale);
     
             if (reg.status === 'canceled') {
               // Для отмененных регистраций - кнопка повторного присоединения
               buttonRow.push({
-                text: `🔄 ${buttonDate} Присоединиться`,
+                text: t('my.rejoinButton', { date: buttonDate }),
                 callback_data: `join_game_${game.id}`
               });
+            } else if (reg.status === 'offered') {
+              // Для предложенного места - принять или отказаться
+              buttonRow.push({
+                text: t('my.acceptOfferButton', { date: buttonDate }),
+                callback_data: `offer_accept_${game.id}`
+              });
+              buttonRow.push({
+                text: t('my.declineOfferButton', { date: buttonDate }),
+                callback_data: `offer_decline_${game.id}`
+              });
             } else {
               // Для активных регистраций - кнопка отмены записи
               buttonRow.push({
-                text: `❌ ${buttonDate} Отменить`,
+                text: t('my.leaveButton', { date: buttonDate }),
                 callback_data: `leave_game_${game.id}`
               });
     
               // Кнопка оплаты, если не оплачено и статус confirmed
               if (reg.paymentStatus === 'unpaid' && reg.status === 'confirmed') {
                 buttonRow.push({
-                  text: `💰 ${buttonDate} Оплатить`,
+                  text: t('my.payButton', { date: buttonDate }),
                   callback_data: `pay_game_${game.id}`
                 });
               }
@@ -323,6 +360,7 @@ export class CommandHandlers {
           const currentOrganizerGames = await prisma.game.findMany({
             where: { organizerId: isOrganizer.id },
             include: {
+              venue: true,
               registrations: {
                 include: { user: true }
               }
@@ -331,38 +369,49 @@ export class CommandHandlers {
           });
     
           if (currentOrganizerGames.length > 0) {
-            message += '👑 *Созданные игры:*\n\n';
+            message += `${t('my.organizerGames')}\n\n`;
     
             const organizerGamesList = currentOrganizerGames.map((game: any) => {
-              const date = formatGameTimeForNotification(game.startsAt);
-              const status = getGameStatusName(game.status);
-              const level = game.levelTag ? ` (${game.levelTag})` : '';
+              const date = formatGameTimeForUser(game.startsAt, user);
+              const status = getGameStatusName(game.status, t);
+              const level = game.levelTag ? ` (${getLevelName(game.levelTag, t)})` : '';
               const price = game.priceText ? ` - ${game.priceText}` : '';
               const confirmedCount = game.registrations.filter((r: any) => r.status === 'confirmed').length;
               const availableSpots = game.capacity - confirmedCount;
-              const venue = getVenueName(game.venueId);
+              const venue = getVenueName(game.venue);
     
-              return `🎾 ${date}${level}${price}\n${venue}\n${status} (${availableSpots} мест свободно)\nУчастников: ${confirmedCount}/${game.capacity}\nID: \`${game.id}\``;
+              return `🎾 ${date}${level}${price}\n${venue}\n${status} (${t('games.freeSpots', { count: availableSpots })})\n${t('games.participants', { confirmed: confirmedCount, capacity: game.capacity })}\nID: \`${game.id}\``;
             }).join('\n\n');
     
             message += organizerGamesList;
     
             // Кнопки для управления созданными играми
                     const organizerButtons = currentOrganizerGames.map((game: any) => {
-                      const buttonDate = formatDateForButton(game.startsAt);
+                      const buttonDate = formatDateForButton(game.startsAt, prefs.timezone, prefs.locale);
                       const buttonRow: InlineKeyboardButton[] = [];
             
                       if (game.status === 'open') {
                         buttonRow.push({
-                          text: `🔒 ${buttonDate} Закрыть`,
+                          text: t('my.closeButton', { date: buttonDate }),
                           callback_data: `close_game_${game.id}`
                         });
                       }
             
                       buttonRow.push({
-                        text: `💰 ${buttonDate} Оплаты`,
+                        text: t('my.paymentsButton', { date: buttonDate }),
                         callback_data: `payments_game_${game.id}`
                       });
+
+                      if (game.status === 'open' || game.status === 'closed') {
+                        buttonRow.push({
+                          text: t('my.editButton', { date: buttonDate }),
+                          callback_data: `edit_game_${game.id}`
+                        });
+                        buttonRow.push({
+                          text: t('my.cancelButton', { date: buttonDate }),
+                          callback_data: `cancel_game_${game.id}`
+                        });
+                      }
             
                       return buttonRow;
                     });
@@ -372,7 +421,7 @@ export class CommandHandlers {
         }
 
     if (message === '') {
-          await ctx.reply('У тебя нет активных регистраций и созданных игр. Найди игру командой /games или создай новую командой /newgame');
+          await ctx.reply(t('my.empty'));
           return;
         }
 
@@ -386,57 +435,73 @@ export class CommandHandlers {
     const telegramId = ctx.from!.id;
 
     const user = await prisma.user.findUnique({ where: { telegramId } });
+
+    const t = getTranslator(user, ctx.from?.language_code);
     if (!user) {
-      await ctx.reply('Сначала зарегистрируйся командой /start');
+      await ctx.reply(t('common.registerFirst'));
       return;
     }
 
-    const organizer = await prisma.organizer.findUnique({ where: { userId: user.id } });
-    if (!organizer) {
-      await ctx.reply('Ты не зарегистрирован как организатор');
+    const membership = await getOrganizerMembership(user.id);
+    if (!membership) {
+      await ctx.reply(t('common.notOrganizer'));
       return;
     }
 
     const validationResult = GameIdSchema.safeParse(gameId);
     if (!validationResult.success) {
-      await ctx.reply('Неверный формат ID игры. Используй UUID.');
+      await ctx.reply(t('common.invalidGameIdUuid'));
       return;
     }
 
     // Использовать новый query для дашборда
     const { GamePaymentsDashboardQuery } = await import('../application/queries/GamePaymentsDashboardQuery.js');
-    const query = new GamePaymentsDashboardQuery(gameId, organizer.id);
+    const query = new GamePaymentsDashboardQuery(gameId, user.id);
 
     try {
       const dashboard = await query.execute();
 
       const game = await prisma.game.findUnique({ where: { id: gameId } });
       if (!game) {
-        await ctx.reply('Игра не найдена');
+        await ctx.reply(t('common.gameNotFound'));
         return;
       }
 
-      const date = formatGameTimeForNotification(game.startsAt);
+      const prefs = getUserPreferences(user);
+      const date = formatGameTimeForUser(game.startsAt, user);
 
       const payments = dashboard.players.map(player => {
-        const paymentStatus = getPaymentStatusName(player.paymentStatus);
-        const paymentDate = player.paymentMarkedAt ? ` (${player.paymentMarkedAt.toLocaleDateString('ru-RU')})` : '';
+        const paymentStatus = getPaymentStatusName(player.paymentStatus, t);
+        const paymentDate = player.paymentMarkedAt ? ` (${player.paymentMarkedAt.toLocaleDateString(prefs.locale, { timeZone: prefs.timezone })})` : '';
         return `${player.name}: ${paymentStatus}${paymentDate}`;
       }).join('\n');
 
       const buttons = dashboard.unpaidCount > 0 && game.startsAt < new Date() ? [
-        [{ text: '📢 Отправить напоминания', callback_data: `remind_payments_${gameId}` }]
+        [{ text: t('payments.remindButton'), callback_data: `remind_payments_${gameId}` }]
       ] : [];
 
+      // Ручная смена статуса оплаты: наличные, ошибочная отметка, спор
+      if (game.status !== 'canceled') {
+        for (const player of dashboard.players.filter(player => player.paymentStatus !== 'refund_due')) {
+          buttons.push([{ text: t('payments.editButton', { name: player.name }), callback_data: `payedit_${player.registrationId}` }]);
+        }
+      }
+
+      const disputed = dashboard.disputedCount > 0 ? `\n${t('payments.disputedCount', { count: dashboard.disputedCount })}` : '';
+      const totals = dashboard.totals ? `\n\n${t('payments.totals', {
+        perPlayer: formatMoney(dashboard.totals.amountPerPlayer, dashboard.totals.currency, t),
+        collected: formatMoney(dashboard.totals.collected, dashboard.totals.currency, t),
+        outstanding: formatMoney(dashboard.totals.outstanding, dashboard.totals.currency, t)
+      })}` : '';
       await ctx.reply(
-        `💰 Статус оплат для игры ${date}\n\n${payments}\n\nОплачено: ${dashboard.paidCount}/${dashboard.players.length}`,
+        t('payments.status', { date, payments, paid: dashboard.paidCount, total: dashboard.players.length }) + disputed + totals,
         {
           parse_mode: 'Markdown',
           reply_markup: buttons.length > 0 ? { inline_keyboard: buttons } : undefined
         }
       );
     } catch (error) {
-      await ctx.reply('Не удалось получить данные об оплатах');
+      await ctx.reply(t('payments.loadFailed'));
     }
   }
 
@@ -444,39 +509,49 @@ export class CommandHandlers {
     const telegramId = ctx.from!.id;
 
     const user = await prisma.user.findUnique({ where: { telegramId } });
+
+    const t = getTranslator(user, ctx.from?.language_code);
     if (!user) {
-      await ctx.reply('Сначала зарегистрируйся командой /start');
+      await ctx.reply(t('common.registerFirst'));
       return;
     }
 
     try {
       const prefs = await userPreferencesService.getPreferences(user.id);
-
-      const settingsText = `
-🔔 Настройки уведомлений:
-
-🌐 Глобальные уведомления: ${prefs.globalNotifications ? '✅ Включены' : '❌ Отключены'}
-
-💰 Автоматические напоминания об оплате: ${prefs.paymentRemindersAuto ? '✅ Включены' : '❌ Отключены'}
-📢 Ручные напоминания об оплате: ${prefs.paymentRemindersManual ? '✅ Включены' : '❌ Отключены'}
-
-🎾 Напоминания за 24 часа: ${prefs.gameReminders24h ? '✅ Включены' : '❌ Отключены'}
-🚨 Напоминания за 2 часа: ${prefs.gameReminders2h ? '✅ Включены' : '❌ Отключены'}
-
-👥 Уведомления организатора: ${prefs.organizerNotifications ? '✅ Включены' : '❌ Отключены'}
-      `.trim();
+      const localization = getUserPreferences(user);
+
+      const state = (enabled: boolean) => t(enabled ? 'common.enabled' : 'common.disabled');
+      const settingsText = [
+        t('settings.title'),
+        '',
+        t('settings.global', { state: state(prefs.globalNotifications) }),
+        '',
+        t('settings.paymentAuto', { state: state(prefs.paymentRemindersAuto) }),
+        t('settings.paymentManual', { state: state(prefs.paymentRemindersManual) }),
+        '',
+        t('settings.reminder24h', { state: state(prefs.gameReminders24h) }),
+        t('settings.reminder2h', { state: state(prefs.gameReminders2h) }),
+        '',
+        t('settings.organizer', { state: state(prefs.organizerNotifications) }),
+        '',
+        t('settings.timezone', { timezone: localization.timezone }),
+        t('settings.language', { language: getLocaleName(localization.locale, t) }),
+      ].join('\n');
 
       const buttons = [
         [
-          { text: prefs.globalNotifications ? '❌ Отключить все' : '✅ Включить все', callback_data: 'toggle_global' }
+          { text: t(prefs.globalNotifications ? 'settings.disableAll' : 'settings.enableAll'), callback_data: 'toggle_global' }
+        ],
+        [
+          { text: t('settings.paymentsButton'), callback_data: 'settings_payments' },
+          { text: t('settings.gamesButton'), callback_data: 'settings_games' }
         ],
         [
-          { text: '💰 Оплаты', callback_data: 'settings_payments' },
-          { text: '🎾 Игры', callback_data: 'settings_games' }
+          { text: t('settings.organizerButton'), callback_data: 'settings_organizer' },
+          { text: t('settings.selectOrganizersButton'), callback_data: 'settings_select_organizers' }
         ],
         [
-          { text: '👥 Организатор', callback_data: 'settings_organizer' },
-          { text: '🔗 Выбрать организаторов', callback_data: 'settings_select_organizers' }
+          { text: t('settings.localeButton'), callback_data: 'settings_locale' }
         ]
       ];
 
@@ -484,35 +559,37 @@ export class CommandHandlers {
         reply_markup: { inline_keyboard: buttons }
       });
     } catch (error) {
-      await ctx.reply('Не удалось загрузить настройки');
+      await ctx.reply(t('settings.loadFailed'));
     }
   }
 
   static async handleSelectOrganizers(ctx: Context, organizerIds: string): Promise<void> {
     const user = await prisma.user.findUnique({ where: { telegramId: ctx.from!.id } });
+    const t = getTranslator(user, ctx.from?.language_code);
     if (!user) {
-      await ctx.reply('Сначала зарегистрируйся командой /start');
+      await ctx.reply(t('common.registerFirst'));
       return;
     }
 
     const ids = organizerIds.split(',').map(id => id.trim()).filter(id => id);
     if (ids.length === 0) {
-      await ctx.reply('Укажи ID организаторов через запятую. Пример: /selectorganizers uuid1,uuid2');
+      await ctx.reply(t('organizers.selectUsage'));
       return;
     }
 
     try {
       await selectOrganizers(user.id, ids);
-      await ctx.reply('Запросы отправлены организаторам. Ожидай подтверждения ✅');
+      await ctx.reply(t('organizers.requestsSent'));
     } catch (error: any) {
-      await ctx.reply(ErrorHandler.mapToUserMessage(error));
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
     }
   }
 
   static async handleMyOrganizers(ctx: Context): Promise<void> {
     const user = await prisma.user.findUnique({ where: { telegramId: ctx.from!.id } });
+    const t = getTranslator(user, ctx.from?.language_code);
     if (!user) {
-      await ctx.reply('Сначала зарегистрируйся командой /start');
+      await ctx.reply(t('common.registerFirst'));
       return;
     }
 
@@ -529,67 +606,70 @@ export class CommandHandlers {
       });
 
       if (playerOrganizers.length === 0) {
-        await ctx.reply('У тебя нет связей с организаторами. Выбери организаторов командой /selectorganizers');
+        await ctx.reply(t('organizers.none'));
         return;
       }
 
       const organizersList = playerOrganizers.map((po: any) => {
-        const statusText = po.status === 'confirmed' ? '✅ Подтвержден' :
-                          po.status === 'pending' ? '⏳ Ожидает' : '❌ Отклонен';
+        const statusText = po.status === 'confirmed' ? t('organizers.status.confirmed') :
+                          po.status === 'pending' ? t('organizers.status.pending') : t('organizers.status.rejected');
         const organizerName = po.organizer.title || po.organizer.user.name;
         return `${organizerName}: ${statusText}`;
       }).join('\n');
 
-      await ctx.reply(`👥 Мои организаторы:\n\n${organizersList}`, { parse_mode: 'Markdown' });
+      await ctx.reply(t('organizers.list', { list: organizersList }), { parse_mode: 'Markdown' });
     } catch (error: any) {
-      await ctx.reply('Не удалось получить список организаторов');
+      await ctx.reply(t('organizers.loadFailed'));
     }
   }
 
   static async handleRespondToGame(ctx: Context, args: string): Promise<void> {
     const user = await prisma.user.findUnique({ where: { telegramId: ctx.from!.id } });
+    const t = getTranslator(user, ctx.from?.language_code);
     if (!user) {
-      await ctx.reply('Сначала зарегистрируйся командой /start');
+      await ctx.reply(t('common.registerFirst'));
       return;
     }
 
     const parts = args.split(' ');
     if (parts.length !== 2) {
-      await ctx.reply('Формат: /respondtogame <game_id> <yes/no>');
+      await ctx.reply(t('invitations.usage'));
       return;
     }
 
     const [gameId, response] = parts;
     const validationResult = GameIdSchema.safeParse(gameId);
     if (!validationResult.success) {
-      await ctx.reply('Неверный формат ID игры');
+      await ctx.reply(t('common.invalidGameId'));
       return;
     }
 
     if (!response || !['yes', 'no'].includes(response.toLowerCase())) {
-      await ctx.reply('Ответ должен быть "yes" или "no"');
+      await ctx.reply(t('invitations.invalidResponse'));
       return;
     }
 
     try {
       await respondToGameInvitation(gameId || "", user.id!, response.toLowerCase());
-      const responseText = response.toLowerCase() === 'yes' ? '✅ Да' : '❌ Нет';
-      await ctx.reply(`Ответ "${responseText}" отправлен организатору`);
+      const responseText = t(response.toLowerCase() === 'yes' ? 'common.yes' : 'common.no');
+      await ctx.reply(t('invitations.responseSent', { response: responseText }));
     } catch (error: any) {
-      await ctx.reply(ErrorHandler.mapToUserMessage(error));
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
     }
   }
 
   static async handleMyPlayers(ctx: Context): Promise<void> {
     const user = await prisma.user.findUnique({ where: { telegramId: ctx.from!.id } });
+    const t = getTranslator(user, ctx.from?.language_code);
     if (!user) {
-      await ctx.reply('Сначала зарегистрируйся командой /start');
+      await ctx.reply(t('common.registerFirst'));
       return;
     }
 
-    const organizer = await prisma.organizer.findUnique({ where: { userId: user.id } });
+    const membership = await getOrganizerMembership(user.id);
+    const organizer = membership?.organizer;
     if (!organizer) {
-      await ctx.reply('Ты не зарегистрирован как организатор');
+      await ctx.reply(t('common.notOrganizer'));
       return;
     }
 
@@ -597,30 +677,42 @@ export class CommandHandlers {
       const players = await getOrganizerPlayers(organizer.id, 'confirmed');
 
       if (players.length === 0) {
-        await ctx.reply('У тебя нет подтвержденных игроков. Используй /pendingplayers для просмотра ожидающих подтверждения');
+        await ctx.reply(t('players.noConfirmed'));
         return;
       }
 
-      const playersList = players.map((player: any) =>
-        `${player.playerName} (${player.levelTag || 'Без уровня'})`
+      const playersList = players.map((player) =>
+        `${player.playerName} (${getPlayerLevelName(player.levelTag, t)}${player.levelVerified ? ' ✅' : ''})`
       ).join('\n');
 
-      await ctx.reply(`👥 Мои подтвержденные игроки:\n\n${playersList}`, { parse_mode: 'Markdown' });
+      // Уровень подтверждает или исправляет тот, кто управляет игроками
+      const buttons = membership && hasTeamPermission(membership.role, TeamPermission.managePlayers)
+        ? players.map((player) => [{
+            text: t('players.verifyLevelButton', { name: player.playerName }),
+            callback_data: `verify_level_${player.playerId}`
+          }])
+        : [];
+
+      await ctx.reply(t('players.confirmedList', { list: playersList }), {
+        parse_mode: 'Markdown',
+        reply_markup: { inline_keyboard: buttons }
+      });
     } catch (error: any) {
-      await ctx.reply('Не удалось получить список игроков');
+      await ctx.reply(t('players.loadFailed'));
     }
   }
 
   static async handlePendingPlayers(ctx: Context): Promise<void> {
     const user = await prisma.user.findUnique({ where: { telegramId: ctx.from!.id } });
+    const t = getTranslator(user, ctx.from?.language_code);
     if (!user) {
-      await ctx.reply('Сначала зарегистрируйся командой /start');
+      await ctx.reply(t('common.registerFirst'));
       return;
     }
 
-    const organizer = await prisma.organizer.findUnique({ where: { userId: user.id } });
+    const organizer = (await getOrganizerMembership(user.id))?.organizer;
     if (!organizer) {
-      await ctx.reply('Ты не зарегистрирован как организатор');
+      await ctx.reply(t('common.notOrganizer'));
       return;
     }
 
@@ -628,18 +720,18 @@ export class CommandHandlers {
       const players = await getOrganizerPlayers(organizer.id, 'pending');
 
       if (players.length === 0) {
-        await ctx.reply('Нет игроков, ожидающих подтверждения');
+        await ctx.reply(t('players.noPending'));
         return;
       }
 
-      const playersList = players.map((player: any) =>
-        `${player.playerName} (${player.levelTag || 'Без уровня'})`
+      const playersList = players.map((player) =>
+        `${player.playerName} (${getPlayerLevelName(player.levelTag, t)})`
       ).join('\n');
 
-      const message = `⏳ Игроки, ожидающие подтверждения:\n\n${playersList}`;
+      const message = t('players.pendingList', { list: playersList });
 
       // Создать кнопки для каждого игрока
-      const buttons = players.map((player: any) => [
+      const buttons = players.map((player) => [
         {
           text: `✅ ${player.playerName}`,
           callback_data: `confirm_player_${player.playerId}`
@@ -654,61 +746,71 @@ export class CommandHandlers {
         reply_markup: { inline_keyboard: buttons }
       });
     } catch (error: any) {
-      await ctx.reply('Не удалось получить список игроков');
+      await ctx.reply(t('players.loadFailed'));
     }
   }
 
   static async handleConfirmPlayer(ctx: Context, playerId: string): Promise<void> {
     const user = await prisma.user.findUnique({ where: { telegramId: ctx.from!.id } });
+    const t = getTranslator(user, ctx.from?.language_code);
     if (!user) {
-      await ctx.reply('Сначала зарегистрируйся командой /start');
+      await ctx.reply(t('common.registerFirst'));
       return;
     }
 
-    const organizer = await prisma.organizer.findUnique({ where: { userId: user.id } });
-    if (!organizer) {
-      await ctx.reply('Ты не зарегистрирован как организатор');
+    const membership = await getOrganizerMembership(user.id);
+    if (!membership) {
+      await ctx.reply(t('common.notOrganizer'));
+      return;
+    }
+    if (!hasTeamPermission(membership.role, TeamPermission.managePlayers)) {
+      await ctx.reply(t('team.roleForbidden'));
       return;
     }
 
     const validationResult = z.string().uuid().safeParse(playerId);
     if (!validationResult.success) {
-      await ctx.reply('Неверный формат ID игрока');
+      await ctx.reply(t('common.invalidPlayerId'));
       return;
     }
 
     try {
-      await confirmPlayer(organizer.id, playerId);
-      await ctx.reply('Игрок подтвержден ✅');
+      await confirmPlayer(membership.organizer.id, playerId);
+      await ctx.reply(t('players.confirmed'));
     } catch (error: any) {
-      await ctx.reply(ErrorHandler.mapToUserMessage(error));
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
     }
   }
 
   static async handleRejectPlayer(ctx: Context, playerId: string): Promise<void> {
     const user = await prisma.user.findUnique({ where: { telegramId: ctx.from!.id } });
+    const t = getTranslator(user, ctx.from?.language_code);
     if (!user) {
-      await ctx.reply('Сначала зарегистрируйся командой /start');
+      await ctx.reply(t('common.registerFirst'));
       return;
     }
 
-    const organizer = await prisma.organizer.findUnique({ where: { userId: user.id } });
-    if (!organizer) {
-      await ctx.reply('Ты не зарегистрирован как организатор');
+    const membership = await getOrganizerMembership(user.id);
+    if (!membership) {
+      await ctx.reply(t('common.notOrganizer'));
+      return;
+    }
+    if (!hasTeamPermission(membership.role, TeamPermission.managePlayers)) {
+      await ctx.reply(t('team.roleForbidden'));
       return;
     }
 
     const validationResult = z.string().uuid().safeParse(playerId);
     if (!validationResult.success) {
-      await ctx.reply('Неверный формат ID игрока');
+      await ctx.reply(t('common.invalidPlayerId'));
       return;
     }
 
     try {
-      await rejectPlayer(organizer.id, playerId);
-      await ctx.reply('Игрок отклонен ❌');
+      await rejectPlayer(membership.organizer.id, playerId);
+      await ctx.reply(t('players.rejected'));
     } catch (error: any) {
-      await ctx.reply(ErrorHandler.mapToUserMessage(error));
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
     }
   }
 
@@ -716,61 +818,44 @@ export class CommandHandlers {
     const telegramId = ctx.from!.id;
 
     const user = await prisma.user.findUnique({ where: { telegramId } });
+
+    const t = getTranslator(user, ctx.from?.language_code);
     if (!user) {
-      await ctx.reply('Сначала зарегистрируйся командой /start');
+      await ctx.reply(t('common.registerFirst'));
       return;
     }
 
-    const isOrganizer = await prisma.organizer.findUnique({ where: { userId: user.id } });
+    const isOrganizer = await getOrganizerMembership(user.id);
 
     // Проверить, является ли пользователь игроком
     const hasPlayerRegistrations = user.levelTag;
 
-    let helpText = '🎾 Доступные команды:\n\n';
-    
-        // Общие команды
-        helpText += 'Общие команды:\n';
-        helpText += '/start - Регистрация в боте\n';
-        helpText += '/games - Список активных игр\n';
-        helpText += '/game ID - Информация об игре\n';
-        helpText += '/my - Мои игры и регистрации\n';
-        helpText += '/menu - Палитра команд\n\n';
-    
-        // Команды для игроков, если пользователь имеет регистрации
-        if (hasPlayerRegistrations) {
-          helpText += 'Команды для игроков:\n';
-          helpText += '/join ID - Записаться на игру\n';
-          helpText += '/leave ID - Отменить запись\n';
-          helpText += '/pay ID - Отметить оплату\n';
-          helpText += '/selectorganizers - Выбрать организаторов\n';
-          helpText += '/myorganizers - Мои организаторы\n';
-          helpText += '/respondtogame GAME_ID yes/no - Ответить на приглашение\n\n';
-        }
-    
-        // Команды для организаторов
-        if (isOrganizer) {
-          helpText += 'Команды для организаторов:\n';
-          helpText += '/newgame - Создать новую игру\n';
-          helpText += '/close ID - Закрыть запись на игру\n';
-          helpText += '/payments ID - Статус оплат участников\n';
-          helpText += '/myplayers - Мои подтвержденные игроки\n';
-          helpText += '/pendingplayers - Игроки, ожидающие подтверждения\n';
-          }
+    const sections = [t('help.title'), t('help.common')];
+
+    // Команды для игроков, если пользователь имеет регистрации
+    if (hasPlayerRegistrations) {
+      sections.push(t('help.player'));
+    }
+
+    // Команды для организаторов
+    if (isOrganizer) {
+      sections.push(t('help.organizer'));
+    }
+
+    const helpText = sections.join('\n\n');
 
     await ctx.reply(helpText);
   }
 
   static async handleSelectOrganizersSettings(ctx: Context): Promise<void> {
     const user = await prisma.user.findUnique({ where: { telegramId: ctx.from!.id } });
+    const t = getTranslator(user, ctx.from?.language_code);
     if (!user) {
-      await ctx.reply('Сначала зарегистрируйся командой /start');
+      await ctx.reply(t('common.registerFirst'));
       return;
     }
 
     try {
-      // Очистить старые сессии перед началом
-      this.cleanupSessions();
-
       // Инициализировать сессию с текущими выбранными организаторами из БД
       const telegramId = ctx.from!.id;
       const existingOrganizers = await (prisma as any).playerOrganizer.findMany({
@@ -779,63 +864,57 @@ export class CommandHandlers {
       });
       const selectedIds = new Set<string>(existingOrganizers.map((po: any) => String(po.organizerId)));
 
-      this.organizerSelectionSessions.set(telegramId, {
-        session: selectedIds,
-        timestamp: Date.now()
-      });
+      await this.organizerSelectionSessions.set(telegramId, { selectedIds });
 
-      const buttons = await this.buildOrganizerSelectionButtons(user.id, telegramId);
+      const buttons = await this.buildOrganizerSelectionButtons(user.id, telegramId, t);
 
       if (buttons.length === 0) {
-        await ctx.reply('Нет доступных организаторов');
+        await ctx.reply(t('organizers.noneAvailable'));
         return;
       }
 
-      await ctx.reply('🔗 Выбери организаторов:', {
+      await ctx.reply(t('organizers.selectPrompt'), {
         reply_markup: { inline_keyboard: buttons }
       });
     } catch (error: any) {
-      await ctx.reply('Не удалось загрузить список организаторов');
+      await ctx.reply(t('organizers.selectLoadFailed'));
     }
   }
 
   static async handleToggleOrganizer(ctx: Context, organizerId: string): Promise<void> {
     const user = await prisma.user.findUnique({ where: { telegramId: ctx.from!.id } });
+    const t = getTranslator(user, ctx.from?.language_code);
     if (!user) {
-      await ctx.answerCbQuery('Пользователь не найден');
+      await ctx.answerCbQuery(t('common.userNotFound'));
       return;
     }
 
     try {
       const telegramId = ctx.from!.id;
-      let sessionData = this.organizerSelectionSessions.get(telegramId);
-      if (!sessionData) {
-        sessionData = { session: new Set<string>(), timestamp: Date.now() };
-        this.organizerSelectionSessions.set(telegramId, sessionData);
-      }
+      const sessionData = await this.organizerSelectionSessions.get(telegramId) ?? { selectedIds: new Set<string>() };
 
-      if (sessionData.session.has(organizerId)) {
-        sessionData.session.delete(organizerId);
+      if (sessionData.selectedIds.has(organizerId)) {
+        sessionData.selectedIds.delete(organizerId);
       } else {
-        sessionData.session.add(organizerId);
+        sessionData.selectedIds.add(organizerId);
       }
 
-      // Обновить timestamp
-      sessionData.timestamp = Date.now();
+      // Сохранение продлевает время жизни сессии
+      await this.organizerSelectionSessions.set(telegramId, sessionData);
 
-      const buttons = await this.buildOrganizerSelectionButtons(user.id, telegramId);
+      const buttons = await this.buildOrganizerSelectionButtons(user.id, telegramId, t);
 
       // Обновить сообщение вместо отправки нового
-      await ctx.editMessageText('🔗 Выбери организаторов:', {
+      await ctx.editMessageText(t('organizers.selectPrompt'), {
         reply_markup: { inline_keyboard: buttons }
       });
-      await ctx.answerCbQuery('✅ Выбор обновлен');
+      await ctx.answerCbQuery(t('organizers.selectionUpdated'));
     } catch (error: any) {
-      await ctx.answerCbQuery('Ошибка при обновлении выбора');
+      await ctx.answerCbQuery(t('organizers.selectionUpdateFailed'));
     }
   }
 
-  private static async buildOrganizerSelectionButtons(userId: string, telegramId: number): Promise<any[]> {
+  private static async buildOrganizerSelectionButtons(userId: string, telegramId: number, t: Translator): Promise<any[]> {
     // Получить всех организаторов, исключая самого пользователя, если он организатор
     const organizers = await prisma.organizer.findMany({
       where: {
@@ -852,8 +931,8 @@ export class CommandHandlers {
     }
 
     // Получить выбранные организаторы из сессии
-    const sessionData = this.organizerSelectionSessions.get(telegramId);
-    const selectedOrganizerIds = sessionData ? sessionData.session : new Set<string>();
+    const sessionData = await this.organizerSelectionSessions.get(telegramId);
+    const selectedOrganizerIds = sessionData ? sessionData.selectedIds : new Set<string>();
 
     // Создать кнопки для каждого организатора
     const buttons = organizers.map((org: any) => {
@@ -870,7 +949,7 @@ export class CommandHandlers {
 
     // Добавить кнопку "Готово"
     buttons.push([
-      { text: '✅ Готово', callback_data: 'organizers_done' }
+      { text: t('common.done'), callback_data: 'organizers_done' }
     ]);
 
     return buttons;
@@ -1,7 +1,10 @@
 import { Context } from 'telegraf';
 import { prisma } from '../../infrastructure/prisma.js';
 import { LoggerFactory } from '../../shared/layer-logger.js';
+import { currentTraceId } from '../../shared/tracing.js';
 import { User, Organizer } from '../../infrastructure/prisma-types.js';
+import { createTranslator, getTranslator, type Translator } from '../../shared/i18n/index.js';
+import { OrganizerRole, TeamPermission, hasTeamPermission } from '../../domain/organizer-team.js';
 
 /**
  * Базовый класс для всех обработчиков бота
@@ -23,12 +26,31 @@ export abstract class BaseHandler {
   }
 
   /**
-   * Получить организатора по userId
+   * Получить функцию перевода для пользователя из контекста
+   * Пока пользователь не зарегистрирован, язык берется из клиента Telegram
+   * @param user - Уже загруженный пользователь (чтобы не читать его повторно)
    */
-  protected static async getOrganizer(userId: string): Promise<Organizer | null> {
-    return await prisma.organizer.findUnique({
-      where: { userId }
+  protected static async translatorFor(ctx: Context, user?: User | null): Promise<Translator> {
+    const recipient = user === undefined ? await BaseHandler.getUser(ctx) : user;
+    return getTranslator(recipient, ctx.from?.language_code);
+  }
+
+  /**
+   * Получить организатора, в команде которого состоит пользователь, и роль пользователя в ней
+   */
+  protected static async getOrganizerMembership(userId: string): Promise<{ organizer: Organizer; role: OrganizerRole } | null> {
+    const member = await prisma.organizerMember.findUnique({
+      where: { userId },
+      include: { organizer: true }
     });
+    return member ? { organizer: member.organizer, role: member.role as OrganizerRole } : null;
+  }
+
+  /**
+   * Получить организатора, в команде которого состоит пользователь
+   */
+  protected static async getOrganizer(userId: string): Promise<Organizer | null> {
+    return (await BaseHandler.getOrganizerMembership(userId))?.organizer ?? null;
   }
 
   /**
@@ -45,28 +67,33 @@ export abstract class BaseHandler {
   protected static async requireUser(ctx: Context): Promise<User> {
     const user = await BaseHandler.getUser(ctx);
     if (!user) {
-      throw new Error('Пользователь не найден. Начни с команды /start');
+      throw new Error(createTranslator(ctx.from?.language_code)('common.userNotFoundStart'));
     }
     return user;
   }
 
   /**
-   * Требовать наличие организатора, иначе бросить ошибку
+   * Требовать членство в команде организатора, иначе бросить ошибку
+   * @param permission - Действие, которое должна разрешать роль пользователя в команде
+   * @returns Организатор команды: игры, площадки и игроки принадлежат ему, а не участнику
    */
-  protected static async requireOrganizer(ctx: Context): Promise<Organizer> {
+  protected static async requireOrganizer(ctx: Context, permission?: TeamPermission): Promise<Organizer> {
     const user = await BaseHandler.requireUser(ctx);
-    const organizer = await BaseHandler.getOrganizer(user.id);
-    if (!organizer) {
-      throw new Error('Ты не организатор этой игры');
+    const membership = await BaseHandler.getOrganizerMembership(user.id);
+    if (!membership) {
+      throw new Error(getTranslator(user)('common.notGameOrganizer'));
+    }
+    if (permission && !hasTeamPermission(membership.role, permission)) {
+      throw new Error(getTranslator(user)('team.roleForbidden'));
     }
-    return organizer;
+    return membership.organizer;
   }
 
   /**
-   * Создать correlationId для логирования
+   * Создать correlationId для логирования: trace ID текущего обновления, без трассировки - локальный ID
    */
   protected static createCorrelationId(ctx: Context, action: string): string {
     const telegramId = ctx.from?.id || 'unknown';
-    return `${action}_${telegramId}_${Date.now()}`;
+    return currentTraceId() ?? `${action}_${telegramId}_${Date.now()}`;
   }
 }
\ No newline at end of file
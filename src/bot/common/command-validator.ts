@@ -1,4 +1,5 @@
 import { Context } from 'telegraf';
+import { createTranslator, type Translator } from '../../shared/i18n/index.js';
 
 /**
  * Валидаторы для команд бота
@@ -40,8 +41,8 @@ export class CommandValidator {
   /**
    * Создает сообщение об ошибке для команды без аргументов
    */
-  static createUsageMessage(commandName: string, usage: string): string {
-    return `Использование: /${commandName} ${usage}`;
+  static createUsageMessage(commandName: string, usage: string, t: Translator = createTranslator()): string {
+    return t('common.usage', { command: commandName, usage });
   }
 
   /**
@@ -56,17 +57,22 @@ export class CommandValidator {
 
   /**
    * Валидирует команду и возвращает gameId с обработкой ошибок
+   * @param t - Функция перевода пользователя (по умолчанию - по языку клиента Telegram)
    */
-  static async validateAndExtractGameId(ctx: Context, commandName: string): Promise<string> {
+  static async validateAndExtractGameId(
+    ctx: Context,
+    commandName: string,
+    t: Translator = createTranslator(ctx.from?.language_code)
+  ): Promise<string> {
     const gameId = CommandValidator.validateSingleArgCommand(ctx, commandName);
     if (!gameId) {
-      await ctx.reply(CommandValidator.createUsageMessage(commandName, '<game_id>'));
+      await ctx.reply(CommandValidator.createUsageMessage(commandName, '<game_id>', t));
       throw new Error(`Invalid command usage: /${commandName}`);
     }
 
     const validGameId = CommandValidator.validateGameId(gameId);
     if (!validGameId) {
-      await ctx.reply('Неверный формат ID игры');
+      await ctx.reply(t('common.invalidGameId'));
       throw new Error(`Invalid game ID format: ${gameId}`);
     }
 
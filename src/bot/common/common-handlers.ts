@@ -5,6 +5,9 @@ import { CommandHandlers } from '../command-handlers.js';
 import { ValidationError, BusinessRuleError, SystemError } from '../../domain/errors/index.js';
 import { KeyboardBuilder } from './keyboard-builder.js';
 import { prisma } from '../../infrastructure/prisma.js';
+import { ErrorHandler } from '../../shared/error-handler.js';
+import { createTranslator } from '../../shared/i18n/index.js';
+import { config } from '../../shared/config.js';
 
 /**
  * Общие обработчики (help, неизвестные команды, ошибки)
@@ -28,23 +31,25 @@ export class CommonHandlers extends BaseHandler {
     const telegramId = ctx.from!.id;
 
     const user = await prisma.user.findUnique({ where: { telegramId } });
+    const t = await CommonHandlers.translatorFor(ctx, user);
     if (!user) {
-      await ctx.reply('Сначала зарегистрируйся командой /start');
+      await ctx.reply(t('common.registerFirst'));
       return;
     }
 
-    const isOrganizer = await prisma.organizer.findUnique({ where: { userId: user.id } });
+    const isOrganizer = await prisma.organizerMember.findUnique({ where: { userId: user.id } });
     const hasPlayerRegistrations = user.levelTag !== null;
 
     const userInfo = {
       isOrganizer: !!isOrganizer,
-      hasPlayerRegistrations
+      hasPlayerRegistrations,
+      webAppUrl: config.telegram.webAppUrl
     };
 
-    const buttons = KeyboardBuilder.createMainCommandPalette(userInfo);
+    const buttons = KeyboardBuilder.createMainCommandPalette(userInfo, t);
 
     await ctx.reply(
-      '🎾 *Палитра команд*\n\nВыбери нужное действие:',
+      t('menu.title'),
       {
         parse_mode: 'Markdown',
         reply_markup: { inline_keyboard: buttons }
@@ -57,8 +62,9 @@ export class CommonHandlers extends BaseHandler {
    */
   static async handleCommandPaletteCallback(ctx: any): Promise<void> {
     const callbackData = ctx.match?.[0];
+    const t = await CommonHandlers.translatorFor(ctx);
     if (!callbackData) {
-      await ctx.answerCbQuery('Ошибка обработки команды');
+      await ctx.answerCbQuery(t('menu.callbackFailed'));
       return;
     }
     
@@ -87,15 +93,15 @@ export class CommonHandlers extends BaseHandler {
           await CommandHandlers.handleHelp(ctx);
           break;
         default:
-          await ctx.answerCbQuery('Неизвестная команда');
+          await ctx.answerCbQuery(t('menu.unknownCommand'));
           return;
       }
 
       // Подтверждаем callback
-      await ctx.answerCbQuery('✅ Выполнено');
+      await ctx.answerCbQuery(t('menu.done'));
     } catch (error) {
       this.logger.error('handleCommandPaletteCallback', 'Error handling command palette callback', error as Error, { callbackData });
-      await ctx.answerCbQuery('❌ Ошибка выполнения команды');
+      await ctx.answerCbQuery(t('menu.failed'));
     }
   }
 
@@ -103,9 +109,11 @@ export class CommonHandlers extends BaseHandler {
    * Обработчик неизвестных команд
    */
   static async handleUnknownCommand(ctx: Context): Promise<void> {
-    // Обработка неизвестных команд
+    // Обработка неизвестных команд; в группе клуба команды адресованы и другим ботам - молчим
+    if (ctx.chat?.type !== 'private') return;
     if (ctx.message && 'text' in ctx.message && ctx.message.text?.startsWith('/')) {
-      await ctx.reply('Неизвестная команда. Используй /help для просмотра доступных команд или /menu для быстрого доступа к командам.');
+      const t = await CommonHandlers.translatorFor(ctx);
+      await ctx.reply(t('common.unknownCommand'));
     }
   }
 
@@ -114,13 +122,16 @@ export class CommonHandlers extends BaseHandler {
    * Логирует ошибки и отправляет пользователю сообщение об ошибке
    */
   static async handleError(err: Error, ctx: Context): Promise<void> {
-    const correlationId = `bot_${ctx.from?.id || 'unknown'}_${Date.now()}`;
+    // Обработчик ошибок вызывается после спана обновления, поэтому trace ID берем из ctx.state
+    const correlationId: string = ctx.state.traceId ?? `bot_${ctx.from?.id || 'unknown'}_${Date.now()}`;
+    // База может быть недоступна (это и могло стать причиной ошибки) - тогда язык берем из клиента Telegram
+    const t = await CommonHandlers.translatorFor(ctx).catch(() => createTranslator(ctx.from?.language_code));
 
     if (err instanceof ValidationError) {
       // Ошибки валидации - показываем пользователю что исправить
       await ctx.reply(
-        `❌ ${err.getUserMessage()}\n\n` +
-        `Исправьте данные и попробуйте снова.`,
+        `❌ ${ErrorHandler.mapToUserMessage(err, t)}\n\n` +
+        t('common.fixAndRetry'),
         { parse_mode: 'Markdown' }
       );
       return;
@@ -128,21 +139,21 @@ export class CommonHandlers extends BaseHandler {
 
     if (err instanceof BusinessRuleError) {
       // Ошибки бизнес-правил - объясняем почему нельзя
-      await ctx.reply(`❌ ${err.getUserMessage()}`);
+      await ctx.reply(`❌ ${ErrorHandler.mapToUserMessage(err, t)}`);
       return;
     }
 
     if (err instanceof SystemError) {
       // Системные ошибки - предлагаем повторить
       await ctx.reply(
-        `⚠️ ${err.getUserMessage()}\n\n` +
-        `Попробуйте повторить операцию через несколько минут.`
+        `⚠️ ${ErrorHandler.mapToUserMessage(err, t)}\n\n` +
+        t('common.retryLater')
       );
       return;
     }
 
     // Неожиданные ошибки - логируем и показываем generic сообщение
     console.error('Bot error:', err, { correlationId, ctx: ctx.update });
-    await ctx.reply('Произошла неожиданная ошибка. Попробуйте позже.');
+    await ctx.reply(t('common.unexpectedError'));
   }
 }
\ No newline at end of file
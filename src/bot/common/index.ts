@@ -2,4 +2,5 @@ export { BaseHandler } from './base-handler.js';
 export { CallbackDataParser } from './callback-parser.js';
 export { KeyboardBuilder } from './keyboard-builder.js';
 export { CommonHandlers } from './common-handlers.js';
-export { CommandValidator } from './command-validator.js';
\ No newline at end of file
+export { CommandValidator } from './command-validator.js';
+export { traceTelegramUpdate } from './tracing-middleware.js';
\ No newline at end of file
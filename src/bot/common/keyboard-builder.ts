@@ -1,7 +1,9 @@
 import { InlineKeyboardButton } from 'telegraf/types';
+import { createTranslator, type Translator } from '../../shared/i18n/index.js';
 
 /**
  * Утилиты для создания inline клавиатур
+ * Тексты кнопок переводятся функцией перевода получателя (последний параметр)
  */
 export class KeyboardBuilder {
   /**
@@ -13,27 +15,27 @@ export class KeyboardBuilder {
     canPay?: boolean;
     canClose?: boolean;
     canViewPayments?: boolean;
-  } = {}): InlineKeyboardButton[][] {
+  } = {}, t: Translator = createTranslator()): InlineKeyboardButton[][] {
     const buttons: InlineKeyboardButton[] = [];
 
     if (options.canJoin) {
-      buttons.push({ text: '📥 Присоединиться', callback_data: `join_game_${gameId}` });
+      buttons.push({ text: t('keyboard.join'), callback_data: `join_game_${gameId}` });
     }
 
     if (options.canLeave) {
-      buttons.push({ text: '📤 Отменить запись', callback_data: `leave_game_${gameId}` });
+      buttons.push({ text: t('keyboard.leave'), callback_data: `leave_game_${gameId}` });
     }
 
     if (options.canPay) {
-      buttons.push({ text: '💰 Отметить оплату', callback_data: `pay_game_${gameId}` });
+      buttons.push({ text: t('keyboard.pay'), callback_data: `pay_game_${gameId}` });
     }
 
     if (options.canViewPayments) {
-      buttons.push({ text: '📊 Статус оплат', callback_data: `payments_game_${gameId}` });
+      buttons.push({ text: t('keyboard.payments'), callback_data: `payments_game_${gameId}` });
     }
 
     if (options.canClose) {
-      buttons.push({ text: '🔒 Закрыть игру', callback_data: `close_game_${gameId}` });
+      buttons.push({ text: t('keyboard.close'), callback_data: `close_game_${gameId}` });
     }
 
     // Разбиваем на ряды по 2 кнопки
@@ -55,23 +57,23 @@ export class KeyboardBuilder {
     gameReminders24h?: boolean;
     gameReminders2h?: boolean;
     organizerNotifications?: boolean;
-  }): InlineKeyboardButton[][] {
+  }, t: Translator = createTranslator()): InlineKeyboardButton[][] {
     return [
       [
         {
-          text: `🌐 Глобальные уведомления: ${preferences.globalNotifications ? '✅' : '❌'}`,
+          text: t('keyboard.globalNotifications', { state: preferences.globalNotifications ? '✅' : '❌' }),
           callback_data: 'toggle_global'
         }
       ],
       [
-        { text: '💰 Настройки оплат', callback_data: 'settings_payments' },
-        { text: '🎾 Настройки игр', callback_data: 'settings_games' }
+        { text: t('keyboard.paymentSettings'), callback_data: 'settings_payments' },
+        { text: t('keyboard.gameSettings'), callback_data: 'settings_games' }
       ],
       [
-        { text: '👥 Уведомления организатора', callback_data: 'settings_organizer' }
+        { text: t('keyboard.organizerNotifications'), callback_data: 'settings_organizer' }
       ],
       [
-        { text: '⬅️ Назад', callback_data: 'back_to_main' }
+        { text: t('common.back'), callback_data: 'back_to_main' }
       ]
     ];
   }
@@ -83,7 +85,7 @@ export class KeyboardBuilder {
     id: string;
     title: string | null;
     user: { name: string };
-  }>, selectedIds: Set<string>): InlineKeyboardButton[][] {
+  }>, selectedIds: Set<string>, t: Translator = createTranslator()): InlineKeyboardButton[][] {
     const buttons: InlineKeyboardButton[][] = organizers.map(organizer => [
       {
         text: `${selectedIds.has(organizer.id) ? '✅' : '⬜'} ${organizer.title || organizer.user.name}`,
@@ -93,7 +95,7 @@ export class KeyboardBuilder {
 
     // Добавляем кнопку "Готово"
     buttons.push([
-      { text: '✅ Готово', callback_data: 'organizers_done' }
+      { text: t('common.done'), callback_data: 'organizers_done' }
     ]);
 
     return buttons;
@@ -102,37 +104,37 @@ export class KeyboardBuilder {
   /**
    * Создать клавиатуру для выбора уровня игрока
    */
-  static createLevelSelectionKeyboard(): InlineKeyboardButton[][] {
+  static createLevelSelectionKeyboard(t: Translator = createTranslator()): InlineKeyboardButton[][] {
     return [
-      [{ text: 'Новичок', callback_data: 'level_novice' }],
-      [{ text: 'Любитель', callback_data: 'level_amateur' }],
-      [{ text: 'Опытный', callback_data: 'level_experienced' }],
-      [{ text: 'Профи', callback_data: 'level_pro' }]
+      [{ text: t('playerLevel.novice'), callback_data: 'level_novice' }],
+      [{ text: t('playerLevel.amateur'), callback_data: 'level_amateur' }],
+      [{ text: t('playerLevel.experienced'), callback_data: 'level_experienced' }],
+      [{ text: t('playerLevel.pro'), callback_data: 'level_pro' }]
     ];
   }
 
   /**
    * Создать клавиатуру для выбора роли
    */
-  static createRoleSelectionKeyboard(): InlineKeyboardButton[][] {
+  static createRoleSelectionKeyboard(t: Translator = createTranslator()): InlineKeyboardButton[][] {
     return [
-      [{ text: 'Игрок', callback_data: 'role_player' }],
-      [{ text: 'Организатор', callback_data: 'role_organizer' }]
+      [{ text: t('keyboard.rolePlayer'), callback_data: 'role_player' }],
+      [{ text: t('keyboard.roleOrganizer'), callback_data: 'role_organizer' }]
     ];
   }
 
   /**
    * Создать клавиатуру для завершения регистрации
    */
-  static createRegistrationCompletionKeyboard(hasOrganizers: boolean): InlineKeyboardButton[][] {
+  static createRegistrationCompletionKeyboard(hasOrganizers: boolean, t: Translator = createTranslator()): InlineKeyboardButton[][] {
     if (hasOrganizers) {
       return [
-        [{ text: '🔗 Выбрать организаторов', callback_data: 'select_organizers_registration' }],
-        [{ text: '✅ Завершить регистрацию', callback_data: 'finish_registration' }]
+        [{ text: t('keyboard.selectOrganizers'), callback_data: 'select_organizers_registration' }],
+        [{ text: t('keyboard.finishRegistration'), callback_data: 'finish_registration' }]
       ];
     } else {
       return [
-        [{ text: '✅ Завершить регистрацию', callback_data: 'finish_registration' }]
+        [{ text: t('keyboard.finishRegistration'), callback_data: 'finish_registration' }]
       ];
     }
   }
@@ -143,34 +145,42 @@ export class KeyboardBuilder {
   static createMainCommandPalette(userInfo: {
     isOrganizer: boolean;
     hasPlayerRegistrations: boolean;
-  }): InlineKeyboardButton[][] {
+    webAppUrl?: string;
+  }, t: Translator = createTranslator()): InlineKeyboardButton[][] {
     const buttons: InlineKeyboardButton[][] = [];
 
+    // Mini App - список игр, запись и оплаты без длинных сообщений
+    if (userInfo.webAppUrl) {
+      buttons.push([
+        { text: t('keyboard.openApp'), web_app: { url: userInfo.webAppUrl } }
+      ]);
+    }
+
     // Первый ряд - основные действия
     buttons.push([
-      { text: '🎾 Найти игры', callback_data: 'cmd_games' },
-      { text: '📋 Мои игры', callback_data: 'cmd_my' }
+      { text: t('keyboard.findGames'), callback_data: 'cmd_games' },
+      { text: t('keyboard.myGames'), callback_data: 'cmd_my' }
     ]);
 
     // Второй ряд - действия по ролям
     if (userInfo.hasPlayerRegistrations) {
       buttons.push([
-        { text: '⚙️ Настройки', callback_data: 'cmd_settings' },
-        { text: '👥 Мои организаторы', callback_data: 'cmd_myorganizers' }
+        { text: t('keyboard.settings'), callback_data: 'cmd_settings' },
+        { text: t('keyboard.myOrganizers'), callback_data: 'cmd_myorganizers' }
       ]);
     }
 
     // Третий ряд - для организаторов
     if (userInfo.isOrganizer) {
       buttons.push([
-        { text: '➕ Создать игру', callback_data: 'cmd_newgame' },
-        { text: '👑 Мои игроки', callback_data: 'cmd_myplayers' }
+        { text: t('keyboard.newGame'), callback_data: 'cmd_newgame' },
+        { text: t('keyboard.myPlayers'), callback_data: 'cmd_myplayers' }
       ]);
     }
 
     // Четвертый ряд - общие действия
     buttons.push([
-      { text: '❓ Помощь', callback_data: 'cmd_help' }
+      { text: t('keyboard.help'), callback_data: 'cmd_help' }
     ]);
 
     return buttons;
@@ -182,21 +192,21 @@ export class KeyboardBuilder {
   static createQuickCommandPalette(userInfo: {
     isOrganizer: boolean;
     hasPlayerRegistrations: boolean;
-  }): InlineKeyboardButton[][] {
+  }, t: Translator = createTranslator()): InlineKeyboardButton[][] {
     const buttons: InlineKeyboardButton[][] = [];
 
     // Основные действия в один ряд
     const mainButtons = [
-      { text: '🎾 Игры', callback_data: 'cmd_games' },
-      { text: '📋 Мои', callback_data: 'cmd_my' }
+      { text: t('keyboard.quickGames'), callback_data: 'cmd_games' },
+      { text: t('keyboard.quickMy'), callback_data: 'cmd_my' }
     ];
 
     if (userInfo.isOrganizer) {
-      mainButtons.push({ text: '➕ Создать', callback_data: 'cmd_newgame' });
+      mainButtons.push({ text: t('keyboard.quickNewGame'), callback_data: 'cmd_newgame' });
     }
 
     if (userInfo.hasPlayerRegistrations) {
-      mainButtons.push({ text: '⚙️ Настройки', callback_data: 'cmd_settings' });
+      mainButtons.push({ text: t('keyboard.settings'), callback_data: 'cmd_settings' });
     }
 
     // Разбиваем на ряды по 2 кнопки
@@ -210,11 +220,11 @@ export class KeyboardBuilder {
   /**
    * Создать клавиатуру для ответа на приглашение
    */
-  static createInvitationResponseKeyboard(gameId: string): InlineKeyboardButton[][] {
+  static createInvitationResponseKeyboard(gameId: string, t: Translator = createTranslator()): InlineKeyboardButton[][] {
     return [
       [
-        { text: '✅ Да', callback_data: `respond_game_${gameId}_yes` },
-        { text: '❌ Нет', callback_data: `respond_game_${gameId}_no` }
+        { text: t('common.yes'), callback_data: `respond_game_${gameId}_yes` },
+        { text: t('common.no'), callback_data: `respond_game_${gameId}_no` }
       ]
     ];
   }
@@ -222,11 +232,11 @@ export class KeyboardBuilder {
   /**
    * Создать клавиатуру для управления игроками (для организаторов)
    */
-  static createPlayerManagementKeyboard(playerId: string): InlineKeyboardButton[][] {
+  static createPlayerManagementKeyboard(playerId: string, t: Translator = createTranslator()): InlineKeyboardButton[][] {
     return [
       [
-        { text: '✅ Подтвердить', callback_data: `confirm_player_${playerId}` },
-        { text: '❌ Отклонить', callback_data: `reject_player_${playerId}` }
+        { text: t('keyboard.confirmPlayer'), callback_data: `confirm_player_${playerId}` },
+        { text: t('keyboard.rejectPlayer'), callback_data: `reject_player_${playerId}` }
       ]
     ];
   }
@@ -234,10 +244,10 @@ export class KeyboardBuilder {
   /**
    * Создать клавиатуру для напоминаний об оплате
    */
-  static createPaymentReminderKeyboard(gameId: string): InlineKeyboardButton[][] {
+  static createPaymentReminderKeyboard(gameId: string, t: Translator = createTranslator()): InlineKeyboardButton[][] {
     return [
       [
-        { text: '📢 Отправить напоминания', callback_data: `remind_payments_${gameId}` }
+        { text: t('payments.remindButton'), callback_data: `remind_payments_${gameId}` }
       ]
     ];
   }
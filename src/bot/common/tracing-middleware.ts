@@ -0,0 +1,17 @@
+import { Context, MiddlewareFn } from 'telegraf';
+import { withSpan, currentTraceId, SpanKind } from '../../shared/tracing.js';
+
+/**
+ * Middleware трассировки: каждое обновление Telegram обрабатывается в своем корневом спане.
+ * Trace ID сохраняется в ctx.state, чтобы обработчик ошибок бота (он работает уже после спана) мог сослаться на трассу
+ */
+export const traceTelegramUpdate: MiddlewareFn<Context> = (ctx, next) =>
+  withSpan(`telegram ${ctx.updateType}`, {
+    'telegram.update_id': ctx.update.update_id,
+    'telegram.update_type': ctx.updateType,
+    'telegram.user_id': ctx.from?.id,
+    'telegram.chat_id': ctx.chat?.id
+  }, async () => {
+    ctx.state.traceId = currentTraceId();
+    await next();
+  }, { kind: SpanKind.SERVER });
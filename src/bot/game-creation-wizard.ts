@@ -1,11 +1,21 @@
 import { Context } from 'telegraf';
-import { createGame } from '../application/use-cases.js';
+import { createGame, listVenues, updateGame, getOrganizerMembership } from '../application/use-cases.js';
+import { TeamPermission, hasTeamPermission } from '../domain/organizer-team.js';
 import { prisma } from '../infrastructure/prisma.js';
-import { formatGameTimeForNotification, getUserTimezone, getMinGameStartTime, isTodayInTimezone, getCurrentTimeInTimezone } from '../shared/date-utils.js';
-import { getVenueName, VENUE_IDS } from '../shared/game-constants.js';
+import { PricingMode, toMinorUnits, type GamePricing } from '../domain/pricing.js';
+import { formatGameTimeForUser, getUserPreferences, getMinGameStartTime, getCurrentTimeInTimezone, toTimezoneWallClock, zonedTimeToUTC } from '../shared/date-utils.js';
+import { describeGameChanges, getLevelName, getLevelRangeName, getPlayerLevelName, getVenueName, GAME_LEVELS } from '../shared/game-constants.js';
+import { ErrorHandler } from '../shared/error-handler.js';
+import { getTranslator, type Translator } from '../shared/i18n/index.js';
+import { createSessionStore } from '../shared/session-store.js';
+
+// Кнопки цены: "150" - цена с игрока, "split_3000" - аренда корта на всех; суммы кнопок - в рублях
+const PRICE_PRESET_PATTERN = /^(split_)?(\d+)$/;
+const PRICE_PRESET_CURRENCY = 'RUB';
 
 export class GameCreationWizard {
-  private static sessions = new Map<number, Partial<GameCreationSession>>();
+  // Сессии хранятся вне процесса: незавершенное создание игры переживает рестарт и работает на любой реплике
+  private static sessions = createSessionStore<Partial<GameCreationSession>>('game-wizard');
 
   /**
    * Инициирует процесс создания игры
@@ -18,274 +28,701 @@ export class GameCreationWizard {
 
     // Получаем пользователя по Telegram ID
     const user = await prisma.user.findUnique({ where: { telegramId } });
+    const t = getTranslator(user, ctx.from?.language_code);
     if (!user) {
-      await ctx.reply('Сначала зарегистрируйся командой /start');
+      await ctx.reply(t('common.registerFirst'));
       return;
     }
 
-    // Проверяем, что пользователь зарегистрирован как организатор
-    const organizer = await prisma.organizer.findUnique({ where: { userId: user.id } });
-    if (!organizer) {
-      await ctx.reply('Ты не зарегистрирован как организатор. Выбери роль организатора в /start');
+    // Проверяем, что пользователь ведет игры в команде организатора
+    const membership = await getOrganizerMembership(user.id);
+    if (!membership) {
+      await ctx.reply(t('common.notOrganizerChooseRole'));
+      return;
+    }
+    if (!hasTeamPermission(membership.role, TeamPermission.manageGames)) {
+      await ctx.reply(t('team.roleForbidden'));
       return;
     }
 
-    // Инициализируем сессию создания игры
-    GameCreationWizard.sessions.set(telegramId, { userId: user.id });
+    // Незавершенное создание игры можно продолжить с того же шага
+    const existing = await GameCreationWizard.sessions.get(telegramId);
+    if (existing && !existing.edit && existing.step && existing.step !== 'date') {
+      await ctx.reply(t('wizard.unfinished', { summary: GameCreationWizard.describeSession(existing, t) }), {
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: t('wizard.resumeButton'), callback_data: 'wizard_resume' }],
+            [{ text: t('wizard.restartButton'), callback_data: 'wizard_restart' }]
+          ]
+        }
+      });
+      return;
+    }
 
-    // Определяем, можно ли создать игру сегодня
-    // Правило: игру можно создать только если минимальное время начала (текущее время + 4 часа) <= 21:00
-    // Это гарантирует, что есть хотя бы один доступный слот времени (21:00 - максимальное время)
-    const userTz = getUserTimezone(user.id);
-    const minStartTime = getMinGameStartTime(userTz);
-    const todayMinHour = minStartTime.getHours();
-    // showToday = true только если минимальное время начала в пределах дня (часы < 24)
-    // т.е. если текущее время + 4 часа не переходит на следующий день
-    const nowInUserTz = getCurrentTimeInTimezone(userTz);
-    const isSameDay = minStartTime.toDateString() === nowInUserTz.toDateString();
-    const showToday = isSameDay && todayMinHour <= 21;
+    // Инициализируем сессию создания игры в часовом поясе организатора
+    const { timezone } = getUserPreferences(user);
+    await GameCreationWizard.sessions.set(telegramId, { userId: user.id, timezone, step: 'date' });
 
-    // Формируем кнопки выбора даты
-    const dateButtons = [];
-    if (showToday) {
-      dateButtons.push([{ text: 'Сегодня', callback_data: 'wizard_date_today' }]);
+    // Отправляем сообщение с выбором даты
+    await ctx.reply(t('wizard.chooseDate'), {
+      reply_markup: {
+        inline_keyboard: GameCreationWizard.dateButtons(timezone, t)
+      }
+    });
+  }
+
+  /**
+   * Продолжает незавершенное создание игры с сохраненного шага
+   */
+  static async handleResume(ctx: Context): Promise<void> {
+    const telegramId = ctx.from!.id;
+    const session = await GameCreationWizard.sessions.get(telegramId);
+    const t = await GameCreationWizard.translatorFor(ctx);
+    if (!session || !session.userId || !session.step) {
+      await ctx.editMessageText(t('wizard.sessionExpired'));
+      return;
     }
-    dateButtons.push(
-      [{ text: 'Завтра', callback_data: 'wizard_date_tomorrow' }],
-      [{ text: 'Послезавтра', callback_data: 'wizard_date_day_after' }]
-    );
 
-    // Отправляем сообщение с выбором даты
-    await ctx.reply('🗓️ Выбери дату игры:', {
+    const prompts: Record<WizardStep, string> = {
+      date: t('wizard.chooseDate'),
+      time: t('wizard.chooseTime'),
+      level: t('wizard.chooseLevel'),
+      levelrange: t('wizard.chooseLevelRange', { level: getPlayerLevelName(session.levelTag, t) }),
+      venue: t('wizard.chooseVenue'),
+      capacity: t('wizard.chooseCapacity'),
+      price: t('wizard.choosePrice')
+    };
+
+    const timezone = GameCreationWizard.sessionTimezone(session);
+    let keyboard;
+    switch (session.step) {
+      case 'time':
+        keyboard = session.date ? GameCreationWizard.timeButtons(timezone, session.date) : undefined;
+        break;
+      case 'level':
+        keyboard = GameCreationWizard.levelButtons(t);
+        break;
+      case 'levelrange':
+        keyboard = session.levelTag ? GameCreationWizard.levelRangeButtons(session.levelTag, t) : undefined;
+        break;
+      case 'venue':
+        keyboard = GameCreationWizard.venueButtons(await listVenues(session.userId));
+        break;
+      case 'capacity':
+        keyboard = session.venue ? GameCreationWizard.capacityButtons(session.venue, t) : undefined;
+        break;
+      case 'price':
+        keyboard = session.venue ? GameCreationWizard.priceButtons(session.venue, t) : undefined;
+        break;
+      default:
+        keyboard = GameCreationWizard.dateButtons(timezone, t);
+    }
+
+    if (!keyboard || keyboard.length === 0) {
+      await GameCreationWizard.sessions.delete(telegramId);
+      await ctx.editMessageText(t('wizard.resumeFailed'));
+      return;
+    }
+
+    const summary = GameCreationWizard.describeSession(session, t);
+    await ctx.editMessageText(`${summary ? `${summary}\n\n` : ''}${prompts[session.step]}`, {
+      reply_markup: { inline_keyboard: keyboard }
+    });
+  }
+
+  /**
+   * Сбрасывает незавершенное создание игры и начинает с выбора даты
+   */
+  static async handleRestart(ctx: Context): Promise<void> {
+    const telegramId = ctx.from!.id;
+    const session = await GameCreationWizard.sessions.get(telegramId);
+    const t = await GameCreationWizard.translatorFor(ctx);
+    if (!session?.userId) {
+      await ctx.editMessageText(t('wizard.sessionExpired'));
+      return;
+    }
+
+    const timezone = GameCreationWizard.sessionTimezone(session);
+    await GameCreationWizard.sessions.set(telegramId, { userId: session.userId, timezone, step: 'date' });
+    await ctx.editMessageText(t('wizard.chooseDate'), {
       reply_markup: {
-        inline_keyboard: dateButtons
+        inline_keyboard: GameCreationWizard.dateButtons(timezone, t)
       }
     });
   }
 
   static async handleDateSelection(ctx: Context, dateKey: string): Promise<void> {
     const telegramId = ctx.from!.id;
-    const session = GameCreationWizard.sessions.get(telegramId);
+    const session = await GameCreationWizard.sessions.get(telegramId);
+    const t = await GameCreationWizard.translatorFor(ctx);
     if (!session) {
-      await ctx.editMessageText('Сессия истекла. Начни заново с /newgame');
+      await ctx.editMessageText(t('wizard.sessionExpired'));
       return;
     }
 
     // Вычисляем дату в пользовательском TZ
-    const userTz = getUserTimezone(session.userId!);
-    const selectedDate = GameCreationWizard.calculateDate(dateKey, userTz);
+    const userTz = GameCreationWizard.sessionTimezone(session);
+    const selectedDate = GameCreationWizard.calculateDate(dateKey, userTz, t);
     session.date = selectedDate;
+    session.step = 'time';
+    await GameCreationWizard.sessions.set(telegramId, session);
 
     // Шаг 2: выбор времени
-    const minStartTime = getMinGameStartTime(userTz);
-    const isToday = isTodayInTimezone(selectedDate, userTz);
-
-    let startHour = 9;
-    if (isToday) {
-      startHour = Math.max(9, minStartTime.getHours());
-    }
-
-    const timeButtons = [];
-    for (let hour = startHour; hour <= 21; hour += 1) {
-      const timeStr = `${hour.toString().padStart(2, '0')}:00`;
-      timeButtons.push([{ text: timeStr, callback_data: `wizard_time_${hour}` }]);
-    }
-
-    await ctx.editMessageText(`📅 Дата: ${selectedDate.toLocaleDateString('ru-RU')}\n\n⏰ Выбери время начала:`, {
+    await ctx.editMessageText(`${t('wizard.dateLine', { date: selectedDate.toLocaleDateString(t.locale) })}\n\n${t('wizard.chooseTime')}`, {
       reply_markup: {
-        inline_keyboard: timeButtons
+        inline_keyboard: GameCreationWizard.timeButtons(userTz, selectedDate)
       }
     });
   }
 
   static async handleTimeSelection(ctx: Context, hour: number): Promise<void> {
     const telegramId = ctx.from!.id;
-    const session = GameCreationWizard.sessions.get(telegramId);
+    const session = await GameCreationWizard.sessions.get(telegramId);
+    const t = await GameCreationWizard.translatorFor(ctx);
     if (!session || !session.date) {
-      await ctx.editMessageText('Сессия истекла. Начни заново с /newgame');
+      await ctx.editMessageText(t('wizard.sessionExpired'));
       return;
     }
 
     // Устанавливаем время
     session.date.setHours(hour, 0, 0, 0);
 
+    if (session.edit) {
+      await GameCreationWizard.applyEdit(ctx, telegramId, session, { startsAt: GameCreationWizard.toStartsAt(session) });
+      return;
+    }
+
+    session.step = 'level';
+    await GameCreationWizard.sessions.set(telegramId, session);
+
     // Шаг 3: выбор уровня игры
-    await ctx.editMessageText(`📅 ${session.date.toLocaleDateString('ru-RU')} в ${hour.toString().padStart(2, '0')}:00\n\n🎯 Выбери уровень игры:`, {
+    await ctx.editMessageText(`${GameCreationWizard.describeSession(session, t)}\n\n${t('wizard.chooseLevel')}`, {
       reply_markup: {
-        inline_keyboard: [
-          [{ text: 'Новички', callback_data: `wizard_level_novice` }],
-          [{ text: 'Любители', callback_data: `wizard_level_amateur` }],
-          [{ text: 'Опытные', callback_data: `wizard_level_experienced` }],
-          [{ text: 'Профи', callback_data: `wizard_level_pro` }]
-        ]
+        inline_keyboard: GameCreationWizard.levelButtons(t)
       }
     });
   }
 
   static async handleLevelSelection(ctx: Context, level: string): Promise<void> {
     const telegramId = ctx.from!.id;
-    const session = GameCreationWizard.sessions.get(telegramId);
+    const session = await GameCreationWizard.sessions.get(telegramId);
+    const t = await GameCreationWizard.translatorFor(ctx);
     if (!session || !session.date) {
-      await ctx.editMessageText('Сессия истекла. Начни заново с /newgame');
+      await ctx.editMessageText(t('wizard.sessionExpired'));
       return;
     }
 
-    // Map level identifiers to readable names
-    const levelNames: Record<string, string> = {
-      novice: 'Новички',
-      amateur: 'Любители',
-      experienced: 'Опытные',
-      pro: 'Профи'
-    };
+    session.levelTag = level;
+
+    if (session.edit) {
+      await GameCreationWizard.applyEdit(ctx, telegramId, session, { levelTag: session.levelTag });
+      return;
+    }
 
-    session.levelTag = levelNames[level] || level;
+    session.step = 'levelrange';
+    await GameCreationWizard.sessions.set(telegramId, session);
 
-    // Шаг 4: выбор площадки
-    await ctx.editMessageText(`📅 ${
-      session.date.toLocaleDateString('ru-RU')
-      } в ${
-        session.date.getHours().toString().padStart(2, '0')
-      }:00\n🎯 Уровень: ${
-        session.levelTag
-      }\n\n🏟️ Выбери площадку:`, {
+    // Шаг 4: кого пускать на игру относительно ее уровня
+    await ctx.editMessageText(`${GameCreationWizard.describeSession(session, t)}\n\n${t('wizard.chooseLevelRange', { level: getPlayerLevelName(level, t) })}`, {
       reply_markup: {
-        inline_keyboard: [
-          [{ text: '"Чайка"', callback_data: `wizard_venue_${VENUE_IDS.CHAIKA}` }],
-          [{ text: '"ФОК"', callback_data: `wizard_venue_${VENUE_IDS.FOK}` }],
-          [{ text: '5-ая школа', callback_data: `wizard_venue_${VENUE_IDS.FIFTH_SCHOOL}` }]
-        ]
+        inline_keyboard: GameCreationWizard.levelRangeButtons(level, t)
       }
     });
   }
 
-  static async handleVenueSelection(ctx: Context, venueKey: string): Promise<void> {
+  static async handleVenueSelection(ctx: Context, venueId: string): Promise<void> {
     const telegramId = ctx.from!.id;
-    const session = GameCreationWizard.sessions.get(telegramId);
-    if (!session || !session.date || !session.levelTag || !session.userId) {
-      await ctx.editMessageText('Сессия истекла. Начни заново с /newgame');
+    const session = await GameCreationWizard.sessions.get(telegramId);
+    const t = await GameCreationWizard.translatorFor(ctx);
+    if (!session || !session.date || session.levelTag === undefined || !session.userId) {
+      await ctx.editMessageText(t('wizard.sessionExpired'));
       return;
     }
 
-    // Сохраняем venueKey в сессии
-    (session as any).venueKey = venueKey;
+    const venue = (await listVenues(session.userId)).find(v => v.id === venueId);
+    if (!venue) {
+      await ctx.editMessageText(t('wizard.venueNotFound'));
+      return;
+    }
 
-    // Шаг 5: выбор вместимости (с default значением)
-    await ctx.editMessageText(`📅 ${
-      session.date.toLocaleDateString('ru-RU')
-      } в ${
-        session.date.getHours().toString().padStart(2, '0')
-      }:00\n🎯 Уровень: ${
-        session.levelTag
-      }\n${
-        getVenueName(venueKey) || ''
-      }\n\n👥 Выбери вместимость игры:`, {
+    // Сохраняем площадку и ее значения по умолчанию в сессии
+    session.venue = {
+      id: venue.id,
+      name: venue.name,
+      defaultCapacity: venue.defaultCapacity,
+      defaultPriceText: venue.defaultPriceText
+    };
+
+    if (session.edit) {
+      await GameCreationWizard.applyEdit(ctx, telegramId, session, { venueId: venue.id });
+      return;
+    }
+
+    session.step = 'capacity';
+    await GameCreationWizard.sessions.set(telegramId, session);
+
+    // Шаг 6: выбор вместимости (с default значением)
+    await ctx.editMessageText(`${GameCreationWizard.describeSession(session, t)}\n\n${t('wizard.chooseCapacity')}`, {
       reply_markup: {
-        inline_keyboard: [
-          [{ text: '8 игроков', callback_data: `wizard_capacity_8` }],
-          [{ text: '12 игроков (по умолчанию)', callback_data: `wizard_capacity_12` }],
-          [{ text: '14 игроков', callback_data: `wizard_capacity_14` }]
-        ]
+        inline_keyboard: GameCreationWizard.capacityButtons(session.venue, t)
       }
     });
   }
 
   static async handleCapacitySelection(ctx: Context, capacity: number): Promise<void> {
     const telegramId = ctx.from!.id;
-    const session = GameCreationWizard.sessions.get(telegramId);
-    if (!session || !session.date || !session.levelTag || !session.userId) {
-      await ctx.editMessageText('Сессия истекла. Начни заново с /newgame');
+    const session = await GameCreationWizard.sessions.get(telegramId);
+    const t = await GameCreationWizard.translatorFor(ctx);
+    if (!session || !session.date || session.levelTag === undefined || !session.userId || !session.venue) {
+      await ctx.editMessageText(t('wizard.sessionExpired'));
       return;
     }
 
     session.capacity = capacity;
 
-    // Шаг 6: выбор цены
-    await ctx.editMessageText(`📅 ${
-      session.date.toLocaleDateString('ru-RU')
-      } в ${
-        session.date.getHours().toString().padStart(2, '0')
-      }:00\n🎯 Уровень: ${
-        session.levelTag
-      }\n${
-        getVenueName((session as any).venueKey) || ''
-      }\n👥 Вместимость: ${
-        capacity
-      } игроков\n\n💰 Выбери стоимость игры:`, {
+    if (session.edit) {
+      await GameCreationWizard.applyEdit(ctx, telegramId, session, { capacity });
+      return;
+    }
+
+    session.step = 'price';
+    await GameCreationWizard.sessions.set(telegramId, session);
+
+    // Шаг 7: выбор цены
+    await ctx.editMessageText(`${GameCreationWizard.describeSession(session, t)}\n\n${t('wizard.choosePrice')}`, {
       reply_markup: {
-        inline_keyboard: [
-          [{ text: '125₽', callback_data: `wizard_price_125` }],
-          [{ text: '150₽', callback_data: `wizard_price_150` }],
-          [{ text: '200₽', callback_data: `wizard_price_200` }],
-          [{ text: 'Другое', callback_data: `wizard_price_other` }]
-        ]
+        inline_keyboard: GameCreationWizard.priceButtons(session.venue, t)
       }
     });
   }
 
   static async handlePriceSelection(ctx: Context, price: string): Promise<void> {
     const telegramId = ctx.from!.id;
-    const session = GameCreationWizard.sessions.get(telegramId);
-    if (!session || !session.date || !session.levelTag || !session.userId || !session.capacity) {
-      await ctx.editMessageText('Сессия истекла. Начни заново с /newgame');
+    const session = await GameCreationWizard.sessions.get(telegramId);
+    const t = await GameCreationWizard.translatorFor(ctx);
+    if (!session || !session.date || session.levelTag === undefined || !session.userId || !session.capacity) {
+      await ctx.editMessageText(t('wizard.sessionExpired'));
       return;
     }
 
-    // Валидация: проверяем, что время игры не в прошлом
-    const userTz = getUserTimezone(session.userId);
-    const nowInUserTz = getCurrentTimeInTimezone(userTz);
-    const gameTimeInUserTz = new Date(session.date.toLocaleString('en-US', { timeZone: userTz }));
+    if (session.edit && session.venue) {
+      await GameCreationWizard.applyEdit(ctx, telegramId, session, {
+        priceText: GameCreationWizard.resolvePriceText(price, session.venue, t),
+        pricing: GameCreationWizard.resolvePricing(price)
+      });
+      return;
+    }
 
-    if (gameTimeInUserTz <= nowInUserTz) {
-      await ctx.editMessageText('❌ Ошибка: время игры не может быть в прошлом. Начни заново с /newgame');
-      GameCreationWizard.sessions.delete(telegramId);
+    // Валидация: проверяем, что время игры не в прошлом
+    const startsAt = GameCreationWizard.toStartsAt(session);
+    if (startsAt <= new Date()) {
+      await ctx.editMessageText(t('wizard.pastTime'));
+      await GameCreationWizard.sessions.delete(telegramId);
       return;
     }
 
-    const venueId = (session as any).venueKey;
-    if (!venueId) {
-      await ctx.editMessageText('Площадка не найдена');
+    const venue = session.venue;
+    if (!venue) {
+      await ctx.editMessageText(t('wizard.venueMissing'));
       return;
     }
 
-    const priceText = price === 'other' ? 'По согласованию с организатором' : `${price}₽`;
+    const priceText = GameCreationWizard.resolvePriceText(price, venue, t);
 
     try {
       const game = await createGame({
         organizerId: session.userId,
-        venueId,
-        startsAt: session.date,
+        venueId: venue.id,
+        startsAt,
         capacity: session.capacity,
         levelTag: session.levelTag,
-        priceText
+        minLevel: session.minLevel ?? undefined,
+        maxLevel: session.maxLevel ?? undefined,
+        priceText,
+        pricing: GameCreationWizard.resolvePricing(price)
       });
 
       // Очищаем сессию
-      GameCreationWizard.sessions.delete(telegramId);
+      await GameCreationWizard.sessions.delete(telegramId);
 
       await ctx.editMessageText(
-        `✅ Игра создана!\n\n📅 ${
-          formatGameTimeForNotification(session.date)
-        }\n🎯 Уровень: ${
-          session.levelTag
-        }\n${
-          getVenueName(venueId) || ''
-        }\n👥 Вместимость: ${
-          session.capacity
-        } игроков\n💰 ${
-          priceText
-        }\n\nID игры: \`${
-          game.id
-        }\`\n\nРасскажи друзьям: \`/join ${
-          game.id
-        }\``,
+        t('wizard.created', {
+          time: formatGameTimeForUser(startsAt, await GameCreationWizard.getUser(telegramId)),
+          level: getLevelName(session.levelTag, t),
+          venue: getVenueName(venue),
+          players: t('common.players', { count: session.capacity }),
+          price: priceText,
+          gameId: game.id
+        }),
         { parse_mode: 'Markdown' }
       );
     } catch (error: any) {
-      await ctx.editMessageText(`❌ Ошибка создания игры: ${error.message}`);
+      await ctx.editMessageText(t('wizard.createFailed', { error: error.message }));
     }
   }
 
-  private static calculateDate(dateKey: string, timezone: string = 'Asia/Irkutsk'): Date {
+  /**
+   * Инициирует изменение существующей игры
+   * Сессия заполняется текущими значениями игры, дальше используются те же шаги, что и при создании:
+   * после выбора значения в выбранном шаге изменение сразу сохраняется
+   */
+  static async startEdit(ctx: Context, gameId: string): Promise<void> {
+    const telegramId = ctx.from!.id;
+
+    const user = await prisma.user.findUnique({ where: { telegramId } });
+    const t = getTranslator(user, ctx.from?.language_code);
+    if (!user) {
+      await ctx.reply(t('common.registerFirst'));
+      return;
+    }
+
+    const membership = await getOrganizerMembership(user.id);
+    if (!membership) {
+      await ctx.reply(t('common.notOrganizerChooseRole'));
+      return;
+    }
+    if (!hasTeamPermission(membership.role, TeamPermission.manageGames)) {
+      await ctx.reply(t('team.roleForbidden'));
+      return;
+    }
+    const organizer = membership.organizer;
+
+    const game = await prisma.game.findUnique({ where: { id: gameId }, include: { venue: true } });
+    if (!game) {
+      await ctx.reply(t('common.gameNotFound'));
+      return;
+    }
+    if (game.organizerId !== organizer.id) {
+      await ctx.reply(t('wizard.onlyOrganizerCanEdit'));
+      return;
+    }
+    if (game.status !== 'open' && game.status !== 'closed') {
+      await ctx.reply(t('errors.GAME_NOT_EDITABLE'));
+      return;
+    }
+
+    const { timezone } = getUserPreferences(user);
+    await GameCreationWizard.sessions.set(telegramId, {
+      userId: user.id,
+      timezone,
+      edit: { gameId },
+      date: toTimezoneWallClock(game.startsAt, timezone),
+      levelTag: game.levelTag ?? '',
+      venue: {
+        id: game.venue.id,
+        name: game.venue.name,
+        defaultCapacity: game.venue.defaultCapacity,
+        defaultPriceText: game.venue.defaultPriceText ?? undefined
+      },
+      capacity: game.capacity
+    });
+
+    await ctx.reply(t('wizard.editSummary', {
+      time: formatGameTimeForUser(game.startsAt, user),
+      level: getLevelName(game.levelTag ?? undefined, t) || '—',
+      range: getLevelRangeName(game, t) || t('levelRange.any'),
+      venue: getVenueName(game.venue),
+      players: t('common.players', { count: game.capacity }),
+      price: game.priceText || '—'
+    }), {
+      reply_markup: {
+        inline_keyboard: [
+          [{ text: t('wizard.editDatetimeButton'), callback_data: 'wizard_edit_datetime' }],
+          [{ text: t('wizard.editLevelButton'), callback_data: 'wizard_edit_level' }],
+          [{ text: t('wizard.editLevelRangeButton'), callback_data: 'wizard_edit_levelrange' }],
+          [{ text: t('wizard.editVenueButton'), callback_data: 'wizard_edit_venue' }],
+          [{ text: t('wizard.editCapacityButton'), callback_data: 'wizard_edit_capacity' }],
+          [{ text: t('wizard.editPriceButton'), callback_data: 'wizard_edit_price' }]
+        ]
+      }
+    });
+  }
+
+  /**
+   * Показывает шаг мастера для выбранного поля изменяемой игры
+   */
+  static async handleEditFieldSelection(ctx: Context, field: string): Promise<void> {
+    const telegramId = ctx.from!.id;
+    const session = await GameCreationWizard.sessions.get(telegramId);
+    const t = await GameCreationWizard.translatorFor(ctx);
+    if (!session?.edit || !session.userId || !session.venue) {
+      await ctx.editMessageText(t('wizard.editSessionExpired'));
+      return;
+    }
+
+    switch (field) {
+      case 'datetime':
+        await ctx.editMessageText(t('wizard.chooseNewDate'), {
+          reply_markup: { inline_keyboard: GameCreationWizard.dateButtons(GameCreationWizard.sessionTimezone(session), t) }
+        });
+        break;
+      case 'level':
+        await ctx.editMessageText(t('wizard.chooseLevel'), {
+          reply_markup: { inline_keyboard: GameCreationWizard.levelButtons(t) }
+        });
+        break;
+      case 'levelrange':
+        // Ограничение строится от уровня игры, поэтому без уровня его не задать
+        if (!session.levelTag) {
+          await ctx.editMessageText(t('wizard.levelRangeNeedsLevel'));
+          return;
+        }
+        await ctx.editMessageText(t('wizard.chooseLevelRange', { level: getPlayerLevelName(session.levelTag, t) }), {
+          reply_markup: { inline_keyboard: GameCreationWizard.levelRangeButtons(session.levelTag, t) }
+        });
+        break;
+      case 'venue': {
+        const venues = await listVenues(session.userId);
+        if (venues.length === 0) {
+          await GameCreationWizard.sessions.delete(telegramId);
+          await ctx.editMessageText(t('wizard.noVenuesEdit'));
+          return;
+        }
+        await ctx.editMessageText(t('wizard.chooseVenue'), {
+          reply_markup: { inline_keyboard: GameCreationWizard.venueButtons(venues) }
+        });
+        break;
+      }
+      case 'capacity':
+        await ctx.editMessageText(t('wizard.chooseCapacity'), {
+          reply_markup: { inline_keyboard: GameCreationWizard.capacityButtons(session.venue, t) }
+        });
+        break;
+      case 'price':
+        await ctx.editMessageText(t('wizard.choosePrice'), {
+          reply_markup: { inline_keyboard: GameCreationWizard.priceButtons(session.venue, t) }
+        });
+        break;
+      default:
+        await ctx.editMessageText(t('wizard.unknownField'));
+    }
+  }
+
+  /**
+   * Задает ограничение уровня игроков относительно уровня игры
+   * При создании - шаг после выбора уровня, при изменении игры - сразу сохраняется
+   * @param mode - any (без ограничения), only (только уровень игры), min (не ниже), max (не выше)
+   */
+  static async handleLevelRangeSelection(ctx: Context, mode: string): Promise<void> {
+    const telegramId = ctx.from!.id;
+    const session = await GameCreationWizard.sessions.get(telegramId);
+    const t = await GameCreationWizard.translatorFor(ctx);
+    if (!session?.levelTag || (!session.edit && !session.date)) {
+      await ctx.editMessageText(t(session?.edit ? 'wizard.editSessionExpired' : 'wizard.sessionExpired'));
+      return;
+    }
+
+    const level = session.levelTag;
+    const ranges: Record<string, { minLevel: string | null; maxLevel: string | null }> = {
+      any: { minLevel: null, maxLevel: null },
+      only: { minLevel: level, maxLevel: level },
+      min: { minLevel: level, maxLevel: null },
+      max: { minLevel: null, maxLevel: level }
+    };
+    const range = ranges[mode];
+    if (!range) {
+      await ctx.editMessageText(t('wizard.unknownField'));
+      return;
+    }
+
+    if (session.edit) {
+      await GameCreationWizard.applyEdit(ctx, telegramId, session, range);
+      return;
+    }
+
+    session.minLevel = range.minLevel;
+    session.maxLevel = range.maxLevel;
+    session.step = 'venue';
+    await GameCreationWizard.sessions.set(telegramId, session);
+
+    // Шаг 5: выбор площадки из доступных организатору (свои и общие)
+    const venues = await listVenues(session.userId!);
+    if (venues.length === 0) {
+      await GameCreationWizard.sessions.delete(telegramId);
+      await ctx.editMessageText(t('wizard.noVenues'));
+      return;
+    }
+
+    await ctx.editMessageText(`${GameCreationWizard.describeSession(session, t)}\n\n${t('wizard.chooseVenue')}`, {
+      reply_markup: {
+        inline_keyboard: GameCreationWizard.venueButtons(venues)
+      }
+    });
+  }
+
+  /**
+   * Сохраняет изменение игры и показывает организатору итог
+   */
+  private static async applyEdit(
+    ctx: Context,
+    telegramId: number,
+    session: Partial<GameCreationSession>,
+    fields: Parameters<typeof updateGame>[2]
+  ): Promise<void> {
+    await GameCreationWizard.sessions.delete(telegramId);
+    const user = await GameCreationWizard.getUser(telegramId);
+    const t = getTranslator(user, ctx.from?.language_code);
+
+    try {
+      const { changes, offeredUserIds } = await updateGame(session.edit!.gameId, session.userId!, fields);
+      if (Object.keys(changes).length === 0) {
+        await ctx.editMessageText(t('wizard.nothingChanged'));
+        return;
+      }
+
+      const venueIds = changes.venueId ? [String(changes.venueId.from), String(changes.venueId.to)] : [];
+      const venues = venueIds.length > 0 ? await prisma.venue.findMany({ where: { id: { in: venueIds } } }) : [];
+      const venueNames = Object.fromEntries(venues.map(venue => [venue.id, venue.name]));
+
+      let message = t('wizard.updated', { changes: describeGameChanges(changes, venueNames, user).join('\n') });
+      if (offeredUserIds.length > 0) {
+        message += `\n\n${t('wizard.offered', { count: offeredUserIds.length })}`;
+      }
+      message += `\n\n${t('wizard.participantsNotified')}`;
+
+      await ctx.editMessageText(message);
+    } catch (error: any) {
+      await ctx.editMessageText(t('wizard.updateFailed', { error: ErrorHandler.mapToUserMessage(error, t) }));
+    }
+  }
+
+  /**
+   * Кнопки выбора даты
+   * Правило: "Сегодня" доступно только если минимальное время начала (текущее время + 4 часа) <= 21:00
+   * Это гарантирует, что есть хотя бы один доступный слот времени (21:00 - максимальное время)
+   */
+  private static dateButtons(userTz: string, t: Translator) {
+    const minStartTime = getMinGameStartTime(userTz);
+    const todayMinHour = minStartTime.getHours();
+    // showToday = true только если минимальное время начала в пределах дня (часы < 24)
+    // т.е. если текущее время + 4 часа не переходит на следующий день
+    const nowInUserTz = getCurrentTimeInTimezone(userTz);
+    const isSameDay = minStartTime.toDateString() === nowInUserTz.toDateString();
+    const showToday = isSameDay && todayMinHour <= 21;
+
+    const dateButtons = [];
+    if (showToday) {
+      dateButtons.push([{ text: t('wizard.today'), callback_data: 'wizard_date_today' }]);
+    }
+    dateButtons.push(
+      [{ text: t('wizard.tomorrow'), callback_data: 'wizard_date_tomorrow' }],
+      [{ text: t('wizard.dayAfter'), callback_data: 'wizard_date_day_after' }]
+    );
+    return dateButtons;
+  }
+
+  // date - "настенное" время в TZ организатора, как его возвращает calculateDate
+  private static timeButtons(userTz: string, date: Date) {
+    const minStartTime = getMinGameStartTime(userTz);
+    const isToday = date.toDateString() === getCurrentTimeInTimezone(userTz).toDateString();
+
+    let startHour = 9;
+    if (isToday) {
+      startHour = Math.max(9, minStartTime.getHours());
+    }
+
+    const timeButtons = [];
+    for (let hour = startHour; hour <= 21; hour += 1) {
+      const timeStr = `${hour.toString().padStart(2, '0')}:00`;
+      timeButtons.push([{ text: timeStr, callback_data: `wizard_time_${hour}` }]);
+    }
+    return timeButtons;
+  }
+
+  // Уже выбранные параметры игры для сообщения о продолжении
+  private static describeSession(session: Partial<GameCreationSession>, t: Translator): string {
+    const lines: string[] = [];
+    if (session.date) {
+      const date = session.date.toLocaleDateString(t.locale);
+      lines.push(session.step === 'time'
+        ? t('wizard.dayLine', { date })
+        : t('wizard.dateTimeLine', { date, time: `${session.date.getHours().toString().padStart(2, '0')}:00` }));
+    }
+    if (session.levelTag) lines.push(t('wizard.levelLine', { level: getLevelName(session.levelTag, t) }));
+    const range = getLevelRangeName({ minLevel: session.minLevel, maxLevel: session.maxLevel }, t);
+    if (range) lines.push(t('games.levelRestriction', { range }));
+    if (session.venue) lines.push(getVenueName(session.venue));
+    if (session.capacity) lines.push(t('wizard.capacityLine', { players: t('common.players', { count: session.capacity }) }));
+    return lines.join('\n');
+  }
+
+  // В callback данных передается ID уровня, название - на языке организатора
+  private static levelButtons(t: Translator) {
+    return Object.values(GAME_LEVELS).map(level => [
+      { text: getLevelName(level, t), callback_data: `wizard_level_${level}` }
+    ]);
+  }
+
+  private static levelRangeButtons(level: string, t: Translator) {
+    const name = getPlayerLevelName(level, t);
+    return [
+      [{ text: t('wizard.rangeAnyButton'), callback_data: 'wizard_range_any' }],
+      [{ text: t('wizard.rangeOnlyButton', { level: name }), callback_data: 'wizard_range_only' }],
+      [{ text: t('wizard.rangeMinButton', { level: name }), callback_data: 'wizard_range_min' }],
+      [{ text: t('wizard.rangeMaxButton', { level: name }), callback_data: 'wizard_range_max' }]
+    ];
+  }
+
+  private static venueButtons(venues: Array<{ id: string; name: string }>) {
+    return venues.map(venue => [
+      { text: venue.name, callback_data: `wizard_venue_${venue.id}` }
+    ]);
+  }
+
+  // Вместимость площадки по умолчанию добавляется к стандартным вариантам
+  private static capacityButtons(venue: NonNullable<GameCreationSession['venue']>, t: Translator) {
+    const capacityOptions = [...new Set([8, 12, 14, venue.defaultCapacity])].sort((a, b) => a - b);
+    return capacityOptions.map(capacity => {
+      const players = t('common.players', { count: capacity });
+      return [{
+        text: capacity === venue.defaultCapacity ? t('wizard.defaultCapacity', { players }) : players,
+        callback_data: `wizard_capacity_${capacity}`
+      }];
+    });
+  }
+
+  private static priceButtons(venue: NonNullable<GameCreationSession['venue']>, t: Translator) {
+    const priceButtons = [
+      [{ text: '125₽', callback_data: `wizard_price_125` }],
+      [{ text: '150₽', callback_data: `wizard_price_150` }],
+      [{ text: '200₽', callback_data: `wizard_price_200` }],
+      [
+        { text: t('wizard.splitPrice', { price: 3000 }), callback_data: `wizard_price_split_3000` },
+        { text: t('wizard.splitPrice', { price: 4000 }), callback_data: `wizard_price_split_4000` }
+      ],
+      [{ text: t('wizard.priceOther'), callback_data: `wizard_price_other` }]
+    ];
+    if (venue.defaultPriceText) {
+      priceButtons.unshift([{ text: t('wizard.venuePrice', { price: venue.defaultPriceText }), callback_data: `wizard_price_default` }]);
+    }
+    return priceButtons;
+  }
+
+  private static resolvePriceText(price: string, venue: NonNullable<GameCreationSession['venue']>, t: Translator): string {
+    if (price === 'default' && venue.defaultPriceText) {
+      return venue.defaultPriceText;
+    }
+    if (price === 'other') {
+      return t('common.priceByOrganizer');
+    }
+    const preset = PRICE_PRESET_PATTERN.exec(price);
+    return preset?.[1] ? t('wizard.splitPrice', { price: preset[2]! }) : `${price}₽`;
+  }
+
+  /**
+   * Явная цена кнопки с суммой; для цены площадки и "Другое" - undefined (цена определяется по тексту, если он однозначен)
+   */
+  private static resolvePricing(price: string): GamePricing | undefined {
+    const preset = PRICE_PRESET_PATTERN.exec(price);
+    if (!preset) return undefined;
+    return {
+      mode: preset[1] ? PricingMode.split_total : PricingMode.per_player,
+      amount: toMinorUnits(Number(preset[2]), PRICE_PRESET_CURRENCY),
+      currency: PRICE_PRESET_CURRENCY
+    };
+  }
+
+  private static calculateDate(dateKey: string, timezone: string, t: Translator): Date {
     // Получаем текущую дату в пользовательском TZ
     const nowInUserTz = getCurrentTimeInTimezone(timezone);
     let selectedDate: Date;
@@ -303,21 +740,66 @@ export class GameCreationWizard {
         selectedDate.setDate(selectedDate.getDate() + 2);
         break;
       default:
-        throw new Error('Неверная дата');
+        throw new Error(t('wizard.invalidDate'));
     }
 
     return selectedDate;
   }
 
-  static clearSession(telegramId: number): void {
-    GameCreationWizard.sessions.delete(telegramId);
+  // Сессии, начатые до появления настроек пользователя, не содержат часового пояса
+  private static sessionTimezone(session: Partial<GameCreationSession>): string {
+    return session.timezone || getUserPreferences().timezone;
+  }
+
+  // Дата в сессии хранится как "настенное" время организатора - переводим ее в момент времени UTC
+  private static toStartsAt(session: Partial<GameCreationSession>): Date {
+    const date = session.date!;
+    return zonedTimeToUTC(
+      date.getFullYear(),
+      date.getMonth() + 1,
+      date.getDate(),
+      date.getHours(),
+      date.getMinutes(),
+      GameCreationWizard.sessionTimezone(session)
+    );
+  }
+
+  private static async getUser(telegramId: number) {
+    return prisma.user.findUnique({ where: { telegramId } });
+  }
+
+  // Тексты мастера - на языке организатора, до регистрации - на языке клиента Telegram
+  private static async translatorFor(ctx: Context): Promise<Translator> {
+    return getTranslator(await GameCreationWizard.getUser(ctx.from!.id), ctx.from?.language_code);
+  }
+
+  static async clearSession(telegramId: number): Promise<void> {
+    await GameCreationWizard.sessions.delete(telegramId);
   }
 }
 
+// Шаг мастера, ожидающий ввода от пользователя
+type WizardStep = 'date' | 'time' | 'level' | 'levelrange' | 'venue' | 'capacity' | 'price';
+
 interface GameCreationSession {
   userId: string;
+  // Часовой пояс организатора, в котором выбираются дата и время
+  timezone?: string;
+  step?: WizardStep;
+  // Заполнено, если мастер используется для изменения существующей игры
+  edit?: {
+    gameId: string;
+  };
   date?: Date;
   levelTag?: string;
-  venueKey?: string;
+  // Ограничение уровня игроков, выбранное при создании; null - без границы
+  minLevel?: string | null;
+  maxLevel?: string | null;
+  venue?: {
+    id: string;
+    name: string;
+    defaultCapacity: number;
+    defaultPriceText?: string;
+  };
   capacity?: number;
 }
\ No newline at end of file
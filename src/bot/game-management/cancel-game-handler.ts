@@ -0,0 +1,175 @@
+import { Context } from 'telegraf';
+import { BaseHandler } from '../common/base-handler.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { ErrorHandler } from '../../shared/error-handler.js';
+import { formatGameTimeForUser } from '../../shared/date-utils.js';
+import { prisma } from '../../infrastructure/prisma.js';
+import { cancelGame } from '../../application/use-cases.js';
+import { createSessionStore } from '../../shared/session-store.js';
+import { TeamPermission } from '../../domain/organizer-team.js';
+
+interface CancelGameSession {
+  gameId: string;
+  reason?: string;
+  awaitingReason: boolean;
+}
+
+/**
+ * Обработчик отмены игры организатором
+ * Сценарий: /cancel <game_id> -> причина (текстом или "Без причины") -> подтверждение
+ */
+export class CancelGameHandler extends BaseHandler {
+  protected static override logger = LoggerFactory.bot('cancel-game-handler');
+
+  private static sessions = createSessionStore<CancelGameSession>('cancel-game');
+
+  /**
+   * Обработчик команды /cancel <game_id> и кнопки cancel_game_*
+   * Проверяет права и запрашивает причину отмены
+   */
+  static async handleCancel(ctx: Context, gameId: string): Promise<void> {
+    const t = await CancelGameHandler.translatorFor(ctx);
+    if (!CancelGameHandler.validateGameId(gameId)) {
+      await ctx.reply(t('common.invalidGameId'));
+      return;
+    }
+
+    try {
+      const user = await CancelGameHandler.requireUser(ctx);
+      const organizer = await CancelGameHandler.requireOrganizer(ctx, TeamPermission.manageGames);
+      const game = await prisma.game.findUnique({ where: { id: gameId } });
+      if (!game) {
+        await ctx.reply(t('common.gameNotFound'));
+        return;
+      }
+      if (game.organizerId !== organizer.id) {
+        await ctx.reply(t('cancel.onlyOrganizer'));
+        return;
+      }
+      if (game.status === 'finished' || game.status === 'canceled') {
+        await ctx.reply(t('errors.GAME_NOT_CANCELABLE'));
+        return;
+      }
+
+      await CancelGameHandler.sessions.set(ctx.from!.id, { gameId, awaitingReason: true });
+
+      await ctx.reply(t('cancel.askReason', { time: formatGameTimeForUser(game.startsAt, user) }), {
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: t('cancel.noReasonButton'), callback_data: `cancel_skip_reason_${gameId}` }],
+            [{ text: t('cancel.keepButton'), callback_data: `cancel_abort_${gameId}` }]
+          ]
+        }
+      });
+    } catch (error: any) {
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик текстового сообщения с причиной отмены
+   * @returns true, если сообщение относилось к отмене игры
+   */
+  static async handleReasonInput(ctx: Context): Promise<boolean> {
+    const telegramId = ctx.from?.id;
+    const session = telegramId ? await CancelGameHandler.sessions.get(telegramId) : null;
+    if (!session?.awaitingReason || !ctx.message || !('text' in ctx.message)) {
+      return false;
+    }
+
+    const text = ctx.message.text.trim();
+    if (text.startsWith('/')) {
+      return false;
+    }
+
+    session.reason = text.slice(0, 500);
+    session.awaitingReason = false;
+    await CancelGameHandler.sessions.set(telegramId!, session);
+
+    await CancelGameHandler.askConfirmation(ctx, session, false);
+    return true;
+  }
+
+  /**
+   * Обработчик кнопки "Без причины"
+   */
+  static async handleSkipReason(ctx: Context, gameId: string): Promise<void> {
+    const session = await CancelGameHandler.sessions.get(ctx.from!.id);
+    if (!session || session.gameId !== gameId) {
+      const t = await CancelGameHandler.translatorFor(ctx);
+      await ctx.answerCbQuery(t('cancel.sessionExpired'));
+      return;
+    }
+
+    session.reason = undefined;
+    session.awaitingReason = false;
+    await CancelGameHandler.sessions.set(ctx.from!.id, session);
+
+    await ctx.answerCbQuery();
+    await CancelGameHandler.askConfirmation(ctx, session, true);
+  }
+
+  /**
+   * Обработчик кнопки подтверждения отмены
+   */
+  static async handleConfirm(ctx: Context, gameId: string): Promise<void> {
+    const telegramId = ctx.from!.id;
+    const session = await CancelGameHandler.sessions.get(telegramId);
+    const t = await CancelGameHandler.translatorFor(ctx);
+    if (!session || session.gameId !== gameId || session.awaitingReason) {
+      await ctx.answerCbQuery(t('cancel.sessionExpired'));
+      return;
+    }
+
+    try {
+      await CancelGameHandler.requireOrganizer(ctx, TeamPermission.manageGames);
+      const user = await CancelGameHandler.requireUser(ctx);
+      const result = await cancelGame(gameId, user.id, session.reason);
+      await CancelGameHandler.sessions.delete(telegramId);
+
+      await ctx.answerCbQuery(t('cancel.canceledToast'));
+      let message = t('cancel.done', { count: result.notified });
+      if (result.refundDue > 0) {
+        message += `\n\n${t('cancel.refundDue', { count: result.refundDue, gameId })}`;
+      }
+      await ctx.editMessageText(message);
+    } catch (error: any) {
+      CancelGameHandler.logger.error('handleConfirm', 'Не удалось отменить игру', error as Error,
+        { telegramId, gameId }
+      );
+      await ctx.answerCbQuery();
+      await ctx.editMessageText(`❌ ${ErrorHandler.mapToUserMessage(error, t)}`);
+    }
+  }
+
+  /**
+   * Обработчик кнопки "Не отменять"
+   */
+  static async handleAbort(ctx: Context): Promise<void> {
+    await CancelGameHandler.sessions.delete(ctx.from!.id);
+    const t = await CancelGameHandler.translatorFor(ctx);
+    await ctx.answerCbQuery();
+    await ctx.editMessageText(t('cancel.aborted'));
+  }
+
+  private static async askConfirmation(ctx: Context, session: CancelGameSession, edit: boolean): Promise<void> {
+    const t = await CancelGameHandler.translatorFor(ctx);
+    const text = `${t('cancel.confirm')}${
+      session.reason ? `\n\n${t('cancel.reason', { reason: session.reason })}` : ''
+    }`;
+    const extra = {
+      reply_markup: {
+        inline_keyboard: [
+          [{ text: t('cancel.confirmButton'), callback_data: `cancel_confirm_${session.gameId}` }],
+          [{ text: t('cancel.keepButton'), callback_data: `cancel_abort_${session.gameId}` }]
+        ]
+      }
+    };
+
+    if (edit) {
+      await ctx.editMessageText(text, extra);
+    } else {
+      await ctx.reply(text, extra);
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { Context } from 'telegraf';
+import { BaseHandler } from '../common/base-handler.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { ErrorHandler } from '../../shared/error-handler.js';
+import { formatGameTimeForUser } from '../../shared/date-utils.js';
+import { describeGameChanges, formatMoney, getPaymentStatusName } from '../../shared/game-constants.js';
+import { prisma } from '../../infrastructure/prisma.js';
+import { getGameHistory } from '../../application/use-cases.js';
+import type { GameHistoryEntry } from '../../application/services/audit-service.js';
+import type { GameChanges } from '../../domain/game.js';
+import type { User } from '../../infrastructure/prisma-types.js';
+import type { Translator } from '../../shared/i18n/index.js';
+
+/**
+ * Обработчик истории игры для организатора
+ * Помогает разбирать споры: кто записался раньше, кого продвинули из листа ожидания, кто отметил оплату
+ */
+export class GameHistoryHandler extends BaseHandler {
+  protected static override logger = LoggerFactory.bot('game-history-handler');
+
+  /**
+   * Обработчик команды /history <game_id>
+   * Показывает хронологию событий игры
+   */
+  static async handleHistory(ctx: Context, gameId: string): Promise<void> {
+    const user = await GameHistoryHandler.getUser(ctx);
+    const t = await GameHistoryHandler.translatorFor(ctx, user);
+
+    try {
+      const currentUser = user ?? await GameHistoryHandler.requireUser(ctx);
+      const history = await getGameHistory(currentUser.id, gameId);
+      if (history.length === 0) {
+        await ctx.reply(t('history.empty'));
+        return;
+      }
+
+      const game = await prisma.game.findUnique({ where: { id: gameId } });
+      const venueNames = await GameHistoryHandler.loadVenueNames(history);
+      const timeline = history.map(entry => t('history.line', {
+        time: formatGameTimeForUser(entry.occurredAt, currentUser),
+        text: GameHistoryHandler.describeEntry(entry, venueNames, currentUser, t)
+      })).join('\n');
+
+      await ctx.reply(t('history.title', {
+        time: game ? formatGameTimeForUser(game.startsAt, currentUser) : '',
+        timeline
+      }));
+    } catch (error: any) {
+      GameHistoryHandler.logger.error('handleHistory', 'Не удалось получить историю игры', error as Error,
+        { telegramId: ctx.from?.id, gameId }
+      );
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  private static describeEntry(entry: GameHistoryEntry, venueNames: Record<string, string>, recipient: User, t: Translator): string {
+    const player = entry.playerName ?? t('history.unknownUser');
+    const actor = entry.actorName ?? t('history.unknownUser');
+
+    switch (entry.type) {
+      case 'PlayerJoined':
+        return entry.payload.status === 'waitlisted'
+          ? t('history.PlayerJoinedWaitlist', { player })
+          : t('history.PlayerJoined', { player });
+      case 'RegistrationCanceled':
+      case 'WaitlistOfferExpired':
+      case 'WaitlistedPromoted':
+      case 'PaymentMarked':
+        return t(`history.${entry.type}`, { player });
+      case 'WaitlistOfferMade':
+        return t('history.WaitlistOfferMade', {
+          player,
+          time: formatGameTimeForUser(new Date(String(entry.payload.expiresAt)), recipient)
+        });
+      case 'PaymentStatusOverridden':
+        return t('history.PaymentStatusOverridden', {
+          actor,
+          player,
+          status: getPaymentStatusName(String(entry.payload.to), t)
+        });
+      case 'PaymentChargedFromBalance':
+        return t('history.PaymentChargedFromBalance', {
+          player,
+          amount: formatMoney(Number(entry.payload.amount), String(entry.payload.currency), t)
+        });
+      case 'GameUpdated': {
+        const changes = describeGameChanges(entry.payload.changes as GameChanges, venueNames, recipient);
+        return [t('history.GameUpdated', { actor }), ...changes.map(line => `   ${line}`)].join('\n');
+      }
+      case 'GameCanceled':
+        return typeof entry.payload.reason === 'string' && entry.payload.reason
+          ? t('history.GameCanceledReason', { actor, reason: entry.payload.reason })
+          : t('history.GameCanceled', { actor });
+      case 'GameClosed':
+        return entry.payload.automatic ? t('history.GameClosedAutomatically') : t('history.GameClosed', { actor });
+      case 'GameFinished':
+        return entry.payload.automatic ? t('history.GameFinishedAutomatically') : t('history.GameFinished', { actor });
+      case 'GamePublishedForAll':
+        return t('history.GamePublishedForAll');
+    }
+  }
+
+  // Названия площадок для изменений площадки в GameUpdated
+  private static async loadVenueNames(history: GameHistoryEntry[]): Promise<Record<string, string>> {
+    const venueIds = history.flatMap(entry => {
+      const venueChange = entry.type === 'GameUpdated' ? (entry.payload.changes as GameChanges).venueId : undefined;
+      return venueChange ? [String(venueChange.from), String(venueChange.to)] : [];
+    });
+    if (venueIds.length === 0) return {};
+
+    const venues = await prisma.venue.findMany({ where: { id: { in: venueIds } }, select: { id: true, name: true } });
+    return Object.fromEntries(venues.map(venue => [venue.id, venue.name]));
+  }
+}
@@ -24,7 +24,8 @@ export class GameManagementHandler extends BaseHandler {
    */
   static async handleGameInfo(ctx: Context, gameId: string): Promise<void> {
     if (!GameManagementHandler.validateGameId(gameId)) {
-      await ctx.reply('Неверный формат ID игры');
+      const t = await GameManagementHandler.translatorFor(ctx);
+      await ctx.reply(t('common.invalidGameId'));
       return;
     }
     await CommandHandlers.handleGameInfo(ctx, gameId);
@@ -36,7 +37,8 @@ export class GameManagementHandler extends BaseHandler {
    */
   static async handleJoin(ctx: Context, gameId: string): Promise<void> {
     if (!GameManagementHandler.validateGameId(gameId)) {
-      await ctx.reply('Неверный формат ID игры');
+      const t = await GameManagementHandler.translatorFor(ctx);
+      await ctx.reply(t('common.invalidGameId'));
       return;
     }
     await CommandHandlers.handleJoin(ctx, gameId);
@@ -48,7 +50,8 @@ export class GameManagementHandler extends BaseHandler {
    */
   static async handleClose(ctx: Context, gameId: string): Promise<void> {
     if (!GameManagementHandler.validateGameId(gameId)) {
-      await ctx.reply('Неверный формат ID игры');
+      const t = await GameManagementHandler.translatorFor(ctx);
+      await ctx.reply(t('common.invalidGameId'));
       return;
     }
     await CommandHandlers.handleClose(ctx, gameId);
@@ -60,7 +63,8 @@ export class GameManagementHandler extends BaseHandler {
    */
   static async handleLeave(ctx: Context, gameId: string): Promise<void> {
     if (!GameManagementHandler.validateGameId(gameId)) {
-      await ctx.reply('Неверный формат ID игры');
+      const t = await GameManagementHandler.translatorFor(ctx);
+      await ctx.reply(t('common.invalidGameId'));
       return;
     }
     await CommandHandlers.handleLeave(ctx, gameId);
@@ -77,7 +81,8 @@ export class GameManagementHandler extends BaseHandler {
                    CallbackDataParser.parsePaymentsGameId(action);
 
     if (!gameId) {
-      await ctx.answerCbQuery('Неверный формат действия');
+      const t = await GameManagementHandler.translatorFor(ctx);
+      await ctx.answerCbQuery(t('common.invalidAction'));
       return;
     }
 
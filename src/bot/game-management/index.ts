@@ -1 +1,5 @@
-export { GameManagementHandler } from './game-management-handler.js';
\ No newline at end of file
+export { GameManagementHandler } from './game-management-handler.js';
+export { SeriesHandler } from './series-handler.js';
+export { CancelGameHandler } from './cancel-game-handler.js';
+export { GameHistoryHandler } from './game-history-handler.js';
+export { WaitlistOfferHandler } from './waitlist-offer-handler.js';
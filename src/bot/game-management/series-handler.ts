@@ -0,0 +1,128 @@
+import { Context } from 'telegraf';
+import { BaseHandler } from '../common/base-handler.js';
+import { CommandValidator } from '../common/command-validator.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { ErrorHandler } from '../../shared/error-handler.js';
+import { createGameSeries, listGameSeries, stopGameSeries } from '../../application/use-cases.js';
+import type { GameSeries } from '../../domain/game-series.js';
+import { getLevelName } from '../../shared/game-constants.js';
+import type { Translator } from '../../shared/i18n/index.js';
+
+// Сокращенные названия дней недели в локали пользователя, начиная с понедельника
+function weekdayNames(t: Translator): string[] {
+  return t('series.weekdays').split(',');
+}
+
+/**
+ * Обработчик регулярных серий игр организатора
+ */
+export class SeriesHandler extends BaseHandler {
+  protected static override logger = LoggerFactory.bot('series-handler');
+
+  /**
+   * Обработчик команды /series
+   * Показывает серии игр организатора
+   */
+  static async handleSeries(ctx: Context): Promise<void> {
+    const t = await SeriesHandler.translatorFor(ctx);
+    try {
+      const user = await SeriesHandler.requireUser(ctx);
+      const seriesList = await listGameSeries(user.id);
+
+      if (seriesList.length === 0) {
+        await ctx.reply(t('series.empty', { format: t('series.format') }));
+        return;
+      }
+
+      const list = seriesList.map(series => SeriesHandler.formatSeries(series, t)).join('\n\n');
+      await ctx.reply(t('series.list', { list }), { parse_mode: 'Markdown' });
+    } catch (error: any) {
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик команды /addseries ID_площадки | вт,чт | 20:00 | Вместимость | Уровень | Цена | Дней вперед
+   * Уровень, цена и горизонт необязательны
+   */
+  static async handleAddSeries(ctx: Context): Promise<void> {
+    const t = await SeriesHandler.translatorFor(ctx);
+    const [venueId = '', days = '', time = '', capacity = '', levelTag, priceText, aheadDays] =
+      CommandValidator.validateMultiArgCommand(ctx).split('|').map(part => part.trim());
+
+    const weekdays = SeriesHandler.parseWeekdays(days, t);
+    const parsedCapacity = parseInt(capacity, 10);
+    if (!venueId || !weekdays || !time || isNaN(parsedCapacity)) {
+      await ctx.reply(CommandValidator.createUsageMessage('addseries', t('series.format'), t));
+      return;
+    }
+
+    try {
+      const user = await SeriesHandler.requireUser(ctx);
+      const { series, createdGames } = await createGameSeries(user.id, {
+        venueId,
+        weekdays,
+        startTime: time,
+        capacity: parsedCapacity,
+        levelTag: levelTag || undefined,
+        priceText: priceText || undefined,
+        createAheadDays: aheadDays ? parseInt(aheadDays, 10) : undefined
+      });
+
+      await ctx.reply(t('series.created', {
+        series: SeriesHandler.formatSeries(series, t),
+        created: createdGames,
+        days: t('common.days', { count: series.createAheadDays })
+      }), {
+        parse_mode: 'Markdown'
+      });
+    } catch (error: any) {
+      SeriesHandler.logger.error('handleAddSeries', 'Не удалось создать серию игр', error as Error,
+        { telegramId: ctx.from?.id, venueId }
+      );
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик команды /stopseries ID
+   * Новые игры серии больше не создаются, уже созданные остаются
+   */
+  static async handleStopSeries(ctx: Context): Promise<void> {
+    const t = await SeriesHandler.translatorFor(ctx);
+    const seriesId = CommandValidator.validateMultiArgCommand(ctx).trim();
+    if (!CommandValidator.isValidUUID(seriesId)) {
+      await ctx.reply(CommandValidator.createUsageMessage('stopseries', 'ID', t));
+      return;
+    }
+
+    try {
+      const user = await SeriesHandler.requireUser(ctx);
+      await stopGameSeries(user.id, seriesId);
+      await ctx.reply(t('series.stopped'));
+    } catch (error: any) {
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Разбирает список дней недели "вт,чт" (на языке пользователя) в ISO номера (1 - понедельник)
+   */
+  private static parseWeekdays(value: string, t: Translator): number[] | null {
+    const names = weekdayNames(t);
+    const weekdays = value.toLowerCase().split(/[\s,]+/).filter(Boolean).map(day => names.indexOf(day) + 1);
+    if (weekdays.length === 0 || weekdays.includes(0)) return null;
+    return weekdays;
+  }
+
+  private static formatSeries(series: GameSeries, t: Translator): string {
+    const names = weekdayNames(t);
+    const days = series.weekdays.map(day => names[day - 1]).join(', ');
+    const lines = [`${t('series.schedule', { days, time: series.startTime })}${series.active ? '' : t('series.inactive')}`];
+    lines.push(`👥 ${t('common.players', { count: series.capacity })}${series.levelTag ? `, 🎯 ${getLevelName(series.levelTag, t)}` : ''}`);
+    if (series.priceText) lines.push(`💰 ${series.priceText}`);
+    lines.push(t('series.createdAhead', { days: t('common.days', { count: series.createAheadDays }) }));
+    lines.push(`ID: \`${series.id}\``);
+    return lines.join('\n');
+  }
+}
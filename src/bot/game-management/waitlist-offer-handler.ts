@@ -0,0 +1,58 @@
+import { Context } from 'telegraf';
+import { BaseHandler } from '../common/base-handler.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { ErrorHandler } from '../../shared/error-handler.js';
+import { acceptWaitlistOffer, declineWaitlistOffer } from '../../application/use-cases.js';
+
+/**
+ * Обработчик ответа игрока на место, предложенное из листа ожидания
+ * Кнопки offer_accept_* / offer_decline_* приходят в уведомлении о предложении и в /my
+ */
+export class WaitlistOfferHandler extends BaseHandler {
+  protected static override logger = LoggerFactory.bot('waitlist-offer-handler');
+
+  /**
+   * Обработчик кнопки offer_accept_<gameId>: игрок занимает предложенное место
+   */
+  static async handleAccept(ctx: Context, gameId: string): Promise<void> {
+    const t = await WaitlistOfferHandler.translatorFor(ctx);
+    if (!WaitlistOfferHandler.validateGameId(gameId)) {
+      await ctx.answerCbQuery(t('common.invalidGameId'));
+      return;
+    }
+
+    try {
+      const user = await WaitlistOfferHandler.requireUser(ctx);
+      await acceptWaitlistOffer(gameId, user.id);
+      await ctx.answerCbQuery();
+      await ctx.editMessageReplyMarkup(undefined);
+      await ctx.reply(t('waitlist.accepted'));
+    } catch (error: any) {
+      WaitlistOfferHandler.logger.warn('handleAccept', 'Не удалось принять предложенное место',
+        { telegramId: ctx.from?.id, gameId, code: error.code }
+      );
+      await ctx.answerCbQuery(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик кнопки offer_decline_<gameId>: место переходит следующему в листе ожидания
+   */
+  static async handleDecline(ctx: Context, gameId: string): Promise<void> {
+    const t = await WaitlistOfferHandler.translatorFor(ctx);
+    if (!WaitlistOfferHandler.validateGameId(gameId)) {
+      await ctx.answerCbQuery(t('common.invalidGameId'));
+      return;
+    }
+
+    try {
+      const user = await WaitlistOfferHandler.requireUser(ctx);
+      await declineWaitlistOffer(gameId, user.id);
+      await ctx.answerCbQuery();
+      await ctx.editMessageReplyMarkup(undefined);
+      await ctx.reply(t('waitlist.declined'));
+    } catch (error: any) {
+      await ctx.answerCbQuery(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { Context } from 'telegraf';
+import { BaseHandler } from '../common/base-handler.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { ErrorHandler } from '../../shared/error-handler.js';
+import { prisma } from '../../infrastructure/prisma.js';
+import { RegStatus } from '../../domain/registration.js';
+import { bindGroupChat, unbindGroupChat, joinGame, leaveGame } from '../../application/use-cases.js';
+
+/**
+ * Обработчик режима группы клуба
+ * Организатор привязывает группу командой /bindgroup, игроки записываются кнопками group_join_* / group_leave_*
+ * под опубликованным сообщением игры
+ */
+export class GroupChatHandler extends BaseHandler {
+  protected static override logger = LoggerFactory.bot('group-chat-handler');
+
+  /**
+   * Обработчик команды /bindgroup: привязывает текущую группу к организатору
+   * Привязать группу может только ее администратор
+   */
+  static async handleBind(ctx: Context): Promise<void> {
+    const user = await GroupChatHandler.getUser(ctx);
+    const t = await GroupChatHandler.translatorFor(ctx, user);
+    const chat = ctx.chat;
+    if (!chat || (chat.type !== 'group' && chat.type !== 'supergroup')) {
+      await ctx.reply(t('groupChat.groupOnly'));
+      return;
+    }
+    if (!user) {
+      await ctx.reply(t('groupChat.startPrivately'));
+      return;
+    }
+
+    try {
+      const member = await ctx.getChatMember(ctx.from!.id);
+      if (member.status !== 'creator' && member.status !== 'administrator') {
+        await ctx.reply(t('groupChat.adminOnly'));
+        return;
+      }
+
+      await bindGroupChat({ userId: user.id, chatId: BigInt(chat.id), chatTitle: chat.title });
+      await ctx.reply(t('groupChat.bound', { title: chat.title }));
+    } catch (error: any) {
+      GroupChatHandler.logger.warn('handleBind', 'Не удалось привязать группу',
+        { telegramId: ctx.from?.id, chatId: chat.id, code: error.code }
+      );
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик команды /unbindgroup: новые игры больше не публикуются в группе
+   */
+  static async handleUnbind(ctx: Context): Promise<void> {
+    const user = await GroupChatHandler.getUser(ctx);
+    const t = await GroupChatHandler.translatorFor(ctx, user);
+    if (!user) {
+      await ctx.reply(t('common.registerFirst'));
+      return;
+    }
+
+    try {
+      await unbindGroupChat(user.id);
+      await ctx.reply(t('groupChat.unbound'));
+    } catch (error: any) {
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик кнопки group_join_<gameId>: запись на игру прямо из группы
+   */
+  static async handleJoin(ctx: Context, gameId: string): Promise<void> {
+    const user = await GroupChatHandler.getUser(ctx);
+    const t = await GroupChatHandler.translatorFor(ctx, user);
+    if (!GroupChatHandler.validateGameId(gameId)) {
+      await ctx.answerCbQuery(t('common.invalidGameId'));
+      return;
+    }
+    // Без профиля в боте нельзя ни записаться, ни получить напоминания
+    if (!user) {
+      await ctx.answerCbQuery(t('groupChat.startPrivately'), { show_alert: true });
+      return;
+    }
+
+    try {
+      const { status } = await joinGame(gameId, user.id);
+      await ctx.answerCbQuery(status === RegStatus.confirmed ? t('games.joinedConfirmed') : t('games.joinedWaitlisted'));
+    } catch (error: any) {
+      GroupChatHandler.logger.warn('handleJoin', 'Не удалось записаться на игру из группы',
+        { telegramId: ctx.from?.id, gameId, code: error.code }
+      );
+      await ctx.answerCbQuery(ErrorHandler.mapToUserMessage(error, t), { show_alert: true });
+    }
+  }
+
+  /**
+   * Обработчик кнопки group_leave_<gameId>: отмена записи из группы
+   */
+  static async handleLeave(ctx: Context, gameId: string): Promise<void> {
+    const user = await GroupChatHandler.getUser(ctx);
+    const t = await GroupChatHandler.translatorFor(ctx, user);
+    if (!GroupChatHandler.validateGameId(gameId)) {
+      await ctx.answerCbQuery(t('common.invalidGameId'));
+      return;
+    }
+
+    const registration = user
+      ? await prisma.registration.findUnique({ where: { gameId_userId: { gameId, userId: user.id } } })
+      : null;
+    if (!user || !registration || registration.status === RegStatus.canceled) {
+      await ctx.answerCbQuery(t('groupChat.notJoined'));
+      return;
+    }
+
+    try {
+      await leaveGame(gameId, user.id);
+      await ctx.answerCbQuery(t('games.left'));
+    } catch (error: any) {
+      await ctx.answerCbQuery(ErrorHandler.mapToUserMessage(error, t), { show_alert: true });
+    }
+  }
+}
@@ -0,0 +1 @@
+export { GroupChatHandler } from './group-chat-handler.js';
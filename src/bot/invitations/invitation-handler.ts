@@ -26,24 +26,26 @@ export class InvitationHandler extends BaseHandler {
   static async handleRespondGameYes(ctx: Context, data: string): Promise<void> {
     const parsed = CallbackDataParser.parseRespondGame(data);
     if (!parsed) {
-      await ctx.answerCbQuery('Неверный формат действия');
+      const t = await InvitationHandler.translatorFor(ctx);
+      await ctx.answerCbQuery(t('common.invalidAction'));
       return;
     }
 
     const { gameId, response } = parsed;
     const user = await InvitationHandler.requireUser(ctx);
+    const t = await InvitationHandler.translatorFor(ctx, user);
 
     try {
       const { respondToGameInvitation } = await import('../../application/use-cases.js');
       await respondToGameInvitation(gameId, user.id, response);
-      await ctx.answerCbQuery('✅ Ответ "Да" отправлен');
-      await ctx.editMessageText('✅ Вы ответили "Да" на приглашение!');
+      await ctx.answerCbQuery(t('invitations.answeredYesToast'));
+      await ctx.editMessageText(t('invitations.answeredYes'));
     } catch (error) {
       InvitationHandler.logger.error('handleRespondGameYes', 'Failed to respond to game invitation',
         error as Error,
         { userId: user.id, gameId, response }
       );
-      await ctx.answerCbQuery('Ошибка при отправке ответа');
+      await ctx.answerCbQuery(t('invitations.responseFailed'));
     }
   }
 
@@ -54,24 +56,26 @@ export class InvitationHandler extends BaseHandler {
   static async handleRespondGameNo(ctx: Context, data: string): Promise<void> {
     const parsed = CallbackDataParser.parseRespondGame(data);
     if (!parsed) {
-      await ctx.answerCbQuery('Неверный формат действия');
+      const t = await InvitationHandler.translatorFor(ctx);
+      await ctx.answerCbQuery(t('common.invalidAction'));
       return;
     }
 
     const { gameId, response } = parsed;
     const user = await InvitationHandler.requireUser(ctx);
+    const t = await InvitationHandler.translatorFor(ctx, user);
 
     try {
       const { respondToGameInvitation } = await import('../../application/use-cases.js');
       await respondToGameInvitation(gameId, user.id, response);
-      await ctx.answerCbQuery('❌ Ответ "Нет" отправлен');
-      await ctx.editMessageText('❌ Вы ответили "Нет" на приглашение!');
+      await ctx.answerCbQuery(t('invitations.answeredNoToast'));
+      await ctx.editMessageText(t('invitations.answeredNo'));
     } catch (error) {
       InvitationHandler.logger.error('handleRespondGameNo', 'Failed to respond to game invitation',
         error as Error,
         { userId: user.id, gameId, response }
       );
-      await ctx.answerCbQuery('Ошибка при отправке ответа');
+      await ctx.answerCbQuery(t('invitations.responseFailed'));
     }
   }
 }
\ No newline at end of file
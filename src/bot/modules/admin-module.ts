@@ -0,0 +1,28 @@
+import { Telegraf, Context } from 'telegraf';
+import { IBotModule } from './bot-module-registry.js';
+import { DeadLetterHandler } from '../admin/index.js';
+
+/**
+ * Модуль команд администратора бота
+ */
+export class AdminModule implements IBotModule {
+  name = 'AdminModule';
+
+  async register(bot: Telegraf<Context>): Promise<void> {
+    bot.command('deadletters', async (ctx) => {
+      await DeadLetterHandler.handleDeadLetters(ctx);
+    });
+
+    bot.command('deadletter', async (ctx) => {
+      await DeadLetterHandler.handleDeadLetter(ctx);
+    });
+
+    bot.command('replayevent', async (ctx) => {
+      await DeadLetterHandler.handleReplayEvent(ctx);
+    });
+
+    bot.command('discardevent', async (ctx) => {
+      await DeadLetterHandler.handleDiscardEvent(ctx);
+    });
+  }
+}
@@ -1,6 +1,6 @@
 import { Telegraf, Context } from 'telegraf';
 import { IBotModule } from './bot-module-registry.js';
-import { GameManagementHandler } from '../game-management/index.js';
+import { GameManagementHandler, SeriesHandler, CancelGameHandler, GameHistoryHandler, WaitlistOfferHandler } from '../game-management/index.js';
 import { CommandValidator } from '../common/index.js';
 import { GameCreationWizard } from '../game-creation-wizard.js';
 
@@ -34,6 +34,41 @@ export class GameManagementModule implements IBotModule {
       await GameManagementHandler.handleLeave(ctx, gameId);
     });
 
+    bot.command('history', async (ctx) => {
+      const gameId = await CommandValidator.validateAndExtractGameId(ctx, 'history');
+      await GameHistoryHandler.handleHistory(ctx, gameId);
+    });
+
+    // Отмена игры: причина -> подтверждение
+    bot.command('cancel', async (ctx) => {
+      const gameId = await CommandValidator.validateAndExtractGameId(ctx, 'cancel');
+      await CancelGameHandler.handleCancel(ctx, gameId);
+    });
+
+    bot.action(/^cancel_game_(.+)$/, async (ctx) => {
+      await ctx.answerCbQuery();
+      await CancelGameHandler.handleCancel(ctx, ctx.match[1] ?? '');
+    });
+
+    bot.action(/^cancel_skip_reason_(.+)$/, async (ctx) => {
+      await CancelGameHandler.handleSkipReason(ctx, ctx.match[1] ?? '');
+    });
+
+    bot.action(/^cancel_confirm_(.+)$/, async (ctx) => {
+      await CancelGameHandler.handleConfirm(ctx, ctx.match[1] ?? '');
+    });
+
+    bot.action(/^cancel_abort_(.+)$/, async (ctx) => {
+      await CancelGameHandler.handleAbort(ctx);
+    });
+
+    // Причина отмены приходит обычным текстом; остальные сообщения передаем дальше
+    bot.on('text', async (ctx, next) => {
+      if (!(await CancelGameHandler.handleReasonInput(ctx))) {
+        await next();
+      }
+    });
+
     // Обработчики callback'ов для управления играми
     bot.action(/^join_game_(.+)$/, async (ctx) => {
       await GameManagementHandler.handleGameAction(ctx, ctx.match[0] ?? '');
@@ -55,11 +90,41 @@ export class GameManagementModule implements IBotModule {
       await GameManagementHandler.handleGameAction(ctx, ctx.match[0] ?? '');
     });
 
+    // Ответ на место, предложенное из листа ожидания
+    bot.action(/^offer_accept_(.+)$/, async (ctx) => {
+      await WaitlistOfferHandler.handleAccept(ctx, ctx.match[1] ?? '');
+    });
+
+    bot.action(/^offer_decline_(.+)$/, async (ctx) => {
+      await WaitlistOfferHandler.handleDecline(ctx, ctx.match[1] ?? '');
+    });
+
+    // Регулярные серии игр
+    bot.command('series', async (ctx) => {
+      await SeriesHandler.handleSeries(ctx);
+    });
+
+    bot.command('addseries', async (ctx) => {
+      await SeriesHandler.handleAddSeries(ctx);
+    });
+
+    bot.command('stopseries', async (ctx) => {
+      await SeriesHandler.handleStopSeries(ctx);
+    });
+
     // Мастер создания игры
     bot.command('newgame', async (ctx: any) => {
       await GameCreationWizard.start(ctx);
     });
 
+    bot.action('wizard_resume', async (ctx: any) => {
+      await GameCreationWizard.handleResume(ctx);
+    });
+
+    bot.action('wizard_restart', async (ctx: any) => {
+      await GameCreationWizard.handleRestart(ctx);
+    });
+
     bot.action(/^wizard_date_(.+)$/, async (ctx: any) => {
       const dateKey = ctx.match[1];
       await GameCreationWizard.handleDateSelection(ctx, dateKey);
@@ -76,8 +141,8 @@ export class GameManagementModule implements IBotModule {
     });
 
     bot.action(/^wizard_venue_(.+)$/, async (ctx: any) => {
-      const venueKey = ctx.match[1];
-      await GameCreationWizard.handleVenueSelection(ctx, venueKey);
+      const venueId = ctx.match[1];
+      await GameCreationWizard.handleVenueSelection(ctx, venueId);
     });
 
     bot.action(/^wizard_capacity_(\d+)$/, async (ctx: any) => {
@@ -89,5 +154,25 @@ export class GameManagementModule implements IBotModule {
       const price = ctx.match[1];
       await GameCreationWizard.handlePriceSelection(ctx, price);
     });
+
+    // Изменение игры через шаги мастера создания
+    bot.command('editgame', async (ctx) => {
+      const gameId = await CommandValidator.validateAndExtractGameId(ctx, 'editgame');
+      await GameCreationWizard.startEdit(ctx, gameId);
+    });
+
+    bot.action(/^edit_game_(.+)$/, async (ctx) => {
+      await ctx.answerCbQuery();
+      await GameCreationWizard.startEdit(ctx, ctx.match[1] ?? '');
+    });
+
+    bot.action(/^wizard_edit_(.+)$/, async (ctx: any) => {
+      const field = ctx.match[1];
+      await GameCreationWizard.handleEditFieldSelection(ctx, field);
+    });
+
+    bot.action(/^wizard_range_(any|only|min|max)$/, async (ctx) => {
+      await GameCreationWizard.handleLevelRangeSelection(ctx, ctx.match[1] ?? '');
+    });
   }
 }
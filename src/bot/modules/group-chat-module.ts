@@ -0,0 +1,28 @@
+import { Telegraf, Context } from 'telegraf';
+import { IBotModule } from './bot-module-registry.js';
+import { GroupChatHandler } from '../group-chat/index.js';
+
+/**
+ * Модуль группы клуба: привязка группы и запись на игры кнопками под сообщением игры
+ */
+export class GroupChatModule implements IBotModule {
+  name = 'GroupChatModule';
+
+  async register(bot: Telegraf<Context>): Promise<void> {
+    bot.command('bindgroup', async (ctx) => {
+      await GroupChatHandler.handleBind(ctx);
+    });
+
+    bot.command('unbindgroup', async (ctx) => {
+      await GroupChatHandler.handleUnbind(ctx);
+    });
+
+    bot.action(/^group_join_(.+)$/, async (ctx) => {
+      await GroupChatHandler.handleJoin(ctx, ctx.match[1] ?? '');
+    });
+
+    bot.action(/^group_leave_(.+)$/, async (ctx) => {
+      await GroupChatHandler.handleLeave(ctx, ctx.match[1] ?? '');
+    });
+  }
+}
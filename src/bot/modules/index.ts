@@ -5,4 +5,7 @@ export { PaymentModule } from './payment-module.js';
 export { ProfileModule } from './profile-module.js';
 export { SettingsModule } from './settings-module.js';
 export { InvitationsModule } from './invitations-module.js';
+export { VenuesModule } from './venues-module.js';
+export { AdminModule } from './admin-module.js';
+export { GroupChatModule } from './group-chat-module.js';
 export { CommonModule } from './common-module.js';
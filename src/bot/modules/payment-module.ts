@@ -1,6 +1,9 @@
 import { Telegraf, Context } from 'telegraf';
+import { message } from 'telegraf/filters';
 import { IBotModule } from './bot-module-registry.js';
-import { PaymentHandler, PaymentReminderHandler } from '../payments/index.js';
+import { PaymentHandler, PaymentReminderHandler, PaymentOverrideHandler, OnlinePaymentHandler, BalanceHandler } from '../payments/index.js';
+import type { PaymentOverrideStatus } from '../../domain/registration.js';
+import type { ManualLedgerEntryType } from '../../domain/ledger.js';
 import { CommandValidator } from '../common/index.js';
 
 /**
@@ -25,5 +28,55 @@ export class PaymentModule implements IBotModule {
     bot.action(/^remind_payments_(.+)$/, async (ctx) => {
       await PaymentReminderHandler.handleRemindPaymentsCallback(ctx, ctx.match[0]);
     });
+
+    // Ручная смена статуса оплаты организатором
+    bot.action(/^payedit_(.+)$/, async (ctx) => {
+      await PaymentOverrideHandler.handleEditPayment(ctx, ctx.match[1] ?? '');
+    });
+
+    bot.action(/^payset_(.+)_(paid|unpaid|disputed)$/, async (ctx) => {
+      await PaymentOverrideHandler.handleSetPayment(ctx, ctx.match[1] ?? '', ctx.match[2] as PaymentOverrideStatus);
+    });
+
+    // Онлайн-оплата (Telegram Payments и тестовый провайдер)
+    bot.on('pre_checkout_query', async (ctx) => {
+      await OnlinePaymentHandler.handlePreCheckout(ctx, ctx.preCheckoutQuery);
+    });
+
+    bot.on(message('successful_payment'), async (ctx) => {
+      await OnlinePaymentHandler.handleSuccessfulPayment(ctx, ctx.message.successful_payment);
+    });
+
+    bot.action(/^fakepay_(.+)$/, async (ctx) => {
+      await OnlinePaymentHandler.handleFakePay(ctx, ctx.match[1] ?? '');
+    });
+
+    // Балансы предоплаты
+    bot.command('balance', async (ctx) => {
+      await BalanceHandler.handleBalance(ctx);
+    });
+
+    bot.command('balances', async (ctx) => {
+      await BalanceHandler.handleOverview(ctx);
+    });
+
+    bot.action(/^ledger_(.+)$/, async (ctx) => {
+      await BalanceHandler.handleLedger(ctx, ctx.match[1] ?? '');
+    });
+
+    bot.action(/^ledgeradd_(.+)_(deposit|refund|adjustment)$/, async (ctx) => {
+      await BalanceHandler.handleAddEntry(ctx, ctx.match[1] ?? '', ctx.match[2] as ManualLedgerEntryType);
+    });
+
+    bot.action('ledgerabort', async (ctx) => {
+      await BalanceHandler.handleAbort(ctx);
+    });
+
+    // Сумма движения по балансу приходит обычным текстом; остальные сообщения передаем дальше
+    bot.on('text', async (ctx, next) => {
+      if (!(await BalanceHandler.handleAmountInput(ctx))) {
+        await next();
+      }
+    });
   }
 }
@@ -1,9 +1,10 @@
 import { Telegraf, Context } from 'telegraf';
 import { IBotModule } from './bot-module-registry.js';
-import { ProfileHandler, PlayerManagementHandler } from '../profile/index.js';
+import { ProfileHandler, PlayerManagementHandler, TeamHandler } from '../profile/index.js';
+import type { AssignableOrganizerRole } from '../../domain/organizer-team.js';
 
 /**
- * Модуль профиля и управления игроками
+ * Модуль профиля, управления игроками и командой организатора
  */
 export class ProfileModule implements IBotModule {
   name = 'ProfileModule';
@@ -23,5 +24,35 @@ export class ProfileModule implements IBotModule {
     bot.action(/^reject_player_(.+)$/, async (ctx) => {
       await PlayerManagementHandler.handleRejectPlayer(ctx, ctx.match[0]);
     });
+
+    // Подтверждение уровня игроков
+    bot.action(/^verify_level_(.+)$/, async (ctx) => {
+      await PlayerManagementHandler.handleVerifyLevel(ctx, ctx.match[1] ?? '');
+    });
+
+    bot.action(/^set_level_(.+)_(novice|amateur|experienced|pro)$/, async (ctx) => {
+      await PlayerManagementHandler.handleSetLevel(ctx, ctx.match[1] ?? '', ctx.match[2] ?? '');
+    });
+
+    // Команда организатора: соорганизаторы и казначеи
+    bot.command('team', async (ctx) => {
+      await TeamHandler.handleTeam(ctx);
+    });
+
+    bot.action('team_add', async (ctx) => {
+      await TeamHandler.handleAdd(ctx);
+    });
+
+    bot.action(/^team_pick_(.+)$/, async (ctx) => {
+      await TeamHandler.handlePick(ctx, ctx.match[1] ?? '');
+    });
+
+    bot.action(/^team_role_(.+)_(co_organizer|treasurer)$/, async (ctx) => {
+      await TeamHandler.handleRole(ctx, ctx.match[1] ?? '', ctx.match[2] as AssignableOrganizerRole);
+    });
+
+    bot.action(/^team_remove_(.+)$/, async (ctx) => {
+      await TeamHandler.handleRemove(ctx, ctx.match[1] ?? '');
+    });
   }
 }
@@ -27,6 +27,15 @@ export class SettingsModule implements IBotModule {
     bot.action('toggle_game_2h', SettingsHandler.handleToggleGame2h);
     bot.action('toggle_organizer_notifications', SettingsHandler.handleToggleOrganizerNotifications);
 
+    // Часовой пояс и язык
+    bot.action('settings_locale', SettingsHandler.handleSettingsLocale);
+    bot.action(/^set_timezone_(.+)$/, async (ctx) => {
+      await SettingsHandler.handleSetTimezone(ctx, ctx.match[1]!);
+    });
+    bot.action(/^set_locale_(.+)$/, async (ctx) => {
+      await SettingsHandler.handleSetLocale(ctx, ctx.match[1]!);
+    });
+
     // Выбор организаторов
     bot.action(/^toggle_organizer_(.+)$/, async (ctx) => {
       await OrganizerSelectionHandler.handleToggleOrganizer(ctx, ctx.match[0]);
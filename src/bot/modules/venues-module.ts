@@ -0,0 +1,28 @@
+import { Telegraf, Context } from 'telegraf';
+import { IBotModule } from './bot-module-registry.js';
+import { VenueHandler } from '../venues/index.js';
+
+/**
+ * Модуль управления площадками организатора
+ */
+export class VenuesModule implements IBotModule {
+  name = 'VenuesModule';
+
+  async register(bot: Telegraf<Context>): Promise<void> {
+    bot.command('venues', async (ctx) => {
+      await VenueHandler.handleVenues(ctx);
+    });
+
+    bot.command('addvenue', async (ctx) => {
+      await VenueHandler.handleAddVenue(ctx);
+    });
+
+    bot.command('editvenue', async (ctx) => {
+      await VenueHandler.handleEditVenue(ctx);
+    });
+
+    bot.command('deletevenue', async (ctx) => {
+      await VenueHandler.handleDeleteVenue(ctx);
+    });
+  }
+}
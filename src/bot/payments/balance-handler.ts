@@ -0,0 +1,215 @@
+import { Context } from 'telegraf';
+import { BaseHandler } from '../common/base-handler.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { ErrorHandler } from '../../shared/error-handler.js';
+import { formatGameTimeForUser } from '../../shared/date-utils.js';
+import { formatMoney, getLedgerEntryTypeName } from '../../shared/game-constants.js';
+import { config } from '../../shared/config.js';
+import { createSessionStore } from '../../shared/session-store.js';
+import { recordLedgerEntry, getPlayerBalances, getOrganizerBalances, getPlayerLedger } from '../../application/use-cases.js';
+import { parseLedgerInput, type ManualLedgerEntryType } from '../../domain/ledger.js';
+import type { Translator } from '../../shared/i18n/index.js';
+
+interface LedgerEntrySession {
+  userId: string;
+  name: string;
+  type: ManualLedgerEntryType;
+}
+
+/**
+ * Обработчик балансов предоплаты
+ * Игрок: /balance. Организатор: /balances -> игрок (ledger_*) -> тип движения (ledgeradd_*) -> сумма текстом.
+ * Ввод суммы отменяется кнопкой (ledgerabort) или любой командой
+ */
+export class BalanceHandler extends BaseHandler {
+  protected static override logger = LoggerFactory.bot('balance-handler');
+
+  private static sessions = createSessionStore<LedgerEntrySession>('ledger-entry');
+
+  /**
+   * Обработчик команды /balance: балансы игрока у всех организаторов
+   */
+  static async handleBalance(ctx: Context): Promise<void> {
+    const user = await BalanceHandler.getUser(ctx);
+    const t = await BalanceHandler.translatorFor(ctx, user);
+    if (!user) {
+      await ctx.reply(t('common.registerFirst'));
+      return;
+    }
+
+    try {
+      const balances = await getPlayerBalances(user.id);
+      if (balances.length === 0) {
+        await ctx.reply(t('balance.empty'));
+        return;
+      }
+
+      await ctx.reply(t('balance.title', {
+        balances: balances.map(balance => t('balance.line', {
+          organizer: balance.organizerName,
+          amount: formatMoney(balance.balance, balance.currency, t)
+        })).join('\n')
+      }));
+    } catch (error: any) {
+      BalanceHandler.logger.error('handleBalance', 'Не удалось получить баланс игрока', error as Error, { telegramId: ctx.from?.id });
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик команды /balances: обзор балансов игроков организатора
+   */
+  static async handleOverview(ctx: Context): Promise<void> {
+    const t = await BalanceHandler.translatorFor(ctx);
+    try {
+      const user = await BalanceHandler.requireUser(ctx);
+      const rows = await getOrganizerBalances(user.id);
+      if (rows.length === 0) {
+        await ctx.reply(t('balance.overviewEmpty'));
+        return;
+      }
+
+      await ctx.reply(t('balance.overviewTitle', {
+        players: rows.map(row => t('balance.overviewLine', {
+          name: row.name,
+          amount: BalanceHandler.formatBalances(row.balances, t)
+        })).join('\n')
+      }), {
+        reply_markup: {
+          inline_keyboard: rows.map(row => [
+            { text: t('balance.playerButton', { name: row.name }), callback_data: `ledger_${row.userId}` }
+          ])
+        }
+      });
+    } catch (error: any) {
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик кнопки ledger_<userId>: выписка по балансу игрока и кнопки новых движений
+   */
+  static async handleLedger(ctx: Context, userId: string): Promise<void> {
+    const t = await BalanceHandler.translatorFor(ctx);
+    try {
+      const user = await BalanceHandler.requireUser(ctx);
+      const ledger = await getPlayerLedger(user.id, userId);
+
+      const entries = ledger.entries.map(entry => {
+        const line = t('balance.ledgerEntry', {
+          date: formatGameTimeForUser(entry.createdAt, user),
+          type: getLedgerEntryTypeName(entry.type, t),
+          amount: formatMoney(entry.amount, entry.currency, t)
+        });
+        return entry.note ? `${line} (${entry.note})` : line;
+      });
+
+      await ctx.answerCbQuery();
+      await ctx.reply(t('balance.ledgerTitle', {
+        name: ledger.name,
+        amount: BalanceHandler.formatBalances(ledger.balances, t),
+        entries: entries.length > 0 ? entries.join('\n') : t('balance.noEntries')
+      }), {
+        reply_markup: {
+          inline_keyboard: [
+            [
+              { text: t('balance.depositButton'), callback_data: `ledgeradd_${userId}_deposit` },
+              { text: t('balance.refundButton'), callback_data: `ledgeradd_${userId}_refund` }
+            ],
+            [{ text: t('balance.adjustmentButton'), callback_data: `ledgeradd_${userId}_adjustment` }]
+          ]
+        }
+      });
+    } catch (error: any) {
+      await ctx.answerCbQuery(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик кнопки ledgeradd_<userId>_<type>: запрашивает сумму движения
+   */
+  static async handleAddEntry(ctx: Context, userId: string, type: ManualLedgerEntryType): Promise<void> {
+    const t = await BalanceHandler.translatorFor(ctx);
+    try {
+      const user = await BalanceHandler.requireUser(ctx);
+      const ledger = await getPlayerLedger(user.id, userId);
+      await BalanceHandler.sessions.set(ctx.from!.id, { userId, name: ledger.name, type });
+
+      await ctx.answerCbQuery();
+      await ctx.reply(t('balance.askAmount', { type: getLedgerEntryTypeName(type, t), name: ledger.name }), {
+        reply_markup: {
+          inline_keyboard: [[{ text: t('balance.abortButton'), callback_data: 'ledgerabort' }]]
+        }
+      });
+    } catch (error: any) {
+      await ctx.answerCbQuery(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик кнопки ledgerabort: отменяет ввод суммы
+   */
+  static async handleAbort(ctx: Context): Promise<void> {
+    await BalanceHandler.sessions.delete(ctx.from!.id);
+    const t = await BalanceHandler.translatorFor(ctx);
+    await ctx.answerCbQuery();
+    await ctx.editMessageText(t('balance.aborted'));
+  }
+
+  /**
+   * Обработчик текстового сообщения с суммой движения
+   * @returns true, если сообщение относилось к вводу суммы
+   */
+  static async handleAmountInput(ctx: Context): Promise<boolean> {
+    const telegramId = ctx.from?.id;
+    const session = telegramId ? await BalanceHandler.sessions.get(telegramId) : null;
+    if (!session || !ctx.message || !('text' in ctx.message)) {
+      return false;
+    }
+
+    // Команда прерывает ввод суммы, иначе следующий текст после нее записался бы в баланс
+    const text = ctx.message.text.trim();
+    if (text.startsWith('/')) {
+      await BalanceHandler.sessions.delete(telegramId!);
+      return false;
+    }
+
+    const t = await BalanceHandler.translatorFor(ctx);
+    const input = parseLedgerInput(text);
+    if (!input) {
+      await ctx.reply(t('balance.invalidAmount'));
+      return true;
+    }
+
+    try {
+      const user = await BalanceHandler.requireUser(ctx);
+      const result = await recordLedgerEntry({
+        organizerUserId: user.id,
+        userId: session.userId,
+        type: session.type,
+        amount: input.amount,
+        note: input.note?.slice(0, 200)
+      });
+      await BalanceHandler.sessions.delete(telegramId!);
+
+      await ctx.reply(t('balance.recorded', {
+        type: getLedgerEntryTypeName(session.type, t),
+        name: session.name,
+        amount: formatMoney(result.entry.amount, result.entry.currency, t),
+        balance: formatMoney(result.balance, result.entry.currency, t)
+      }));
+    } catch (error: any) {
+      BalanceHandler.logger.error('handleAmountInput', 'Не удалось внести движение по балансу', error as Error,
+        { telegramId, userId: session.userId, type: session.type }
+      );
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+    return true;
+  }
+
+  // Балансы по валютам через запятую; без движений - ноль в валюте по умолчанию
+  private static formatBalances(balances: Array<{ currency: string; balance: number }>, t: Translator): string {
+    if (balances.length === 0) return formatMoney(0, config.payments.defaultCurrency, t);
+    return balances.map(balance => formatMoney(balance.balance, balance.currency, t)).join(', ');
+  }
+}
@@ -1,2 +1,5 @@
 export { PaymentHandler } from './payment-handler.js';
-export { PaymentReminderHandler } from './payment-reminder-handler.js';
\ No newline at end of file
+export { PaymentReminderHandler } from './payment-reminder-handler.js';
+export { PaymentOverrideHandler } from './payment-override-handler.js';
+export { OnlinePaymentHandler } from './online-payment-handler.js';
+export { BalanceHandler } from './balance-handler.js';
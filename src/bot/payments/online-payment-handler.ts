@@ -0,0 +1,130 @@
+import { Context } from 'telegraf';
+import type { PreCheckoutQuery, SuccessfulPayment } from 'telegraf/types';
+import { v4 as uuid } from 'uuid';
+import { BaseHandler } from '../common/base-handler.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { ErrorHandler } from '../../shared/error-handler.js';
+import { formatMoney } from '../../shared/game-constants.js';
+import { getPaymentProvider, type PaymentProvider } from '../../shared/payment-provider.js';
+import { prisma } from '../../infrastructure/prisma.js';
+import { ERROR_CODES } from '../../domain/errors.js';
+import { CommandHandlers } from '../command-handlers.js';
+import { createPaymentInvoice, validatePaymentCheckout, completeOnlinePayment } from '../../application/use-cases.js';
+import type { CompleteOnlinePaymentCommand } from '../../application/services/online-payment-service.js';
+import type { Translator } from '../../shared/i18n/index.js';
+
+/**
+ * Обработчик онлайн-оплаты игр
+ * Сценарий: /pay -> счет от провайдера -> pre_checkout_query -> successful_payment
+ */
+export class OnlinePaymentHandler extends BaseHandler {
+  protected static override logger = LoggerFactory.bot('online-payment-handler');
+
+  /**
+   * Отправляет игроку счет на оплату игры
+   * Если у игры нет структурированной цены, оплата отмечается по-старому (на честном слове)
+   */
+  static async handleInvoice(ctx: Context, gameId: string, provider: PaymentProvider): Promise<void> {
+    const user = await OnlinePaymentHandler.getUser(ctx);
+    const t = await OnlinePaymentHandler.translatorFor(ctx, user);
+    if (!user) {
+      await ctx.reply(t('common.registerFirst'));
+      return;
+    }
+
+    try {
+      const invoice = await createPaymentInvoice(gameId, user.id, provider.name);
+      await provider.sendInvoice(ctx.telegram, ctx.chat!.id, invoice, user);
+    } catch (error: any) {
+      if (error.code === ERROR_CODES.PRICING_NOT_SET) {
+        await CommandHandlers.handlePay(ctx, gameId);
+        return;
+      }
+      OnlinePaymentHandler.logger.error('handleInvoice', 'Не удалось выставить счет', error as Error,
+        { telegramId: ctx.from?.id, gameId, provider: provider.name }
+      );
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик pre_checkout_query: последняя проверка перед списанием денег
+   * Telegram ждет ответа не дольше 10 секунд
+   */
+  static async handlePreCheckout(ctx: Context, query: PreCheckoutQuery): Promise<void> {
+    const t = await OnlinePaymentHandler.translatorFor(ctx);
+    try {
+      await validatePaymentCheckout(query.invoice_payload, query.total_amount, query.currency);
+      await ctx.answerPreCheckoutQuery(true);
+    } catch (error: any) {
+      OnlinePaymentHandler.logger.warn('handlePreCheckout', 'Оплата отклонена перед списанием',
+        { telegramId: ctx.from?.id, paymentId: query.invoice_payload, code: error.code }
+      );
+      await ctx.answerPreCheckoutQuery(false, ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик successful_payment: провайдер списал деньги, отмечаем запись оплаченной
+   */
+  static async handleSuccessfulPayment(ctx: Context, payment: SuccessfulPayment): Promise<void> {
+    const t = await OnlinePaymentHandler.translatorFor(ctx);
+    await OnlinePaymentHandler.complete(ctx, t, {
+      paymentId: payment.invoice_payload,
+      totalAmount: payment.total_amount,
+      currency: payment.currency,
+      telegramChargeId: payment.telegram_payment_charge_id,
+      providerChargeId: payment.provider_payment_charge_id
+    });
+  }
+
+  /**
+   * Обработчик кнопки fakepay_<paymentId> тестового провайдера
+   * Проходит те же проверки, что и настоящая оплата
+   */
+  static async handleFakePay(ctx: Context, paymentId: string): Promise<void> {
+    const t = await OnlinePaymentHandler.translatorFor(ctx);
+    if (getPaymentProvider()?.name !== 'fake') {
+      await ctx.answerCbQuery(t('errors.FORBIDDEN'));
+      return;
+    }
+
+    try {
+      const user = await OnlinePaymentHandler.requireUser(ctx);
+      const payment = await prisma.onlinePayment.findUnique({ where: { id: paymentId }, include: { registration: true } });
+      if (!payment || payment.registration.userId !== user.id) {
+        await ctx.answerCbQuery(t('errors.NOT_FOUND'));
+        return;
+      }
+
+      await validatePaymentCheckout(payment.id, payment.amount, payment.currency);
+      await ctx.answerCbQuery();
+      await ctx.editMessageReplyMarkup(undefined);
+      await OnlinePaymentHandler.complete(ctx, t, {
+        paymentId: payment.id,
+        totalAmount: payment.amount,
+        currency: payment.currency,
+        telegramChargeId: `fake_${uuid()}`,
+        providerChargeId: `fake_${uuid()}`
+      });
+    } catch (error: any) {
+      await ctx.answerCbQuery(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  private static async complete(ctx: Context, t: Translator, command: CompleteOnlinePaymentCommand): Promise<void> {
+    try {
+      const result = await completeOnlinePayment(command);
+      await ctx.reply(result.paid
+        ? t('onlinePayments.paid', { amount: formatMoney(result.amount, result.currency, t) })
+        : t('onlinePayments.alreadyProcessed')
+      );
+    } catch (error: any) {
+      // Деньги уже списаны - ошибку нужно разобрать вручную
+      OnlinePaymentHandler.logger.error('complete', 'Не удалось зафиксировать онлайн-оплату', error as Error,
+        { telegramId: ctx.from?.id, paymentId: command.paymentId, telegramChargeId: command.telegramChargeId }
+      );
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+}
@@ -2,6 +2,8 @@ import { Context } from 'telegraf';
 import { BaseHandler } from '../common/base-handler.js';
 import { LoggerFactory } from '../../shared/layer-logger.js';
 import { CommandHandlers } from '../command-handlers.js';
+import { getPaymentProvider } from '../../shared/payment-provider.js';
+import { OnlinePaymentHandler } from './online-payment-handler.js';
 
 /**
  * Обработчик платежей и статусов оплаты
@@ -11,11 +13,18 @@ export class PaymentHandler extends BaseHandler {
 
   /**
    * Обработчик команды /pay <game_id>
-   * Отмечает оплату за игру
+   * При подключенном провайдере присылает счет на онлайн-оплату, иначе отмечает оплату со слов игрока
    */
   static async handlePay(ctx: Context, gameId: string): Promise<void> {
     if (!PaymentHandler.validateGameId(gameId)) {
-      await ctx.reply('Неверный формат ID игры');
+      const t = await PaymentHandler.translatorFor(ctx);
+      await ctx.reply(t('common.invalidGameId'));
+      return;
+    }
+
+    const provider = getPaymentProvider();
+    if (provider) {
+      await OnlinePaymentHandler.handleInvoice(ctx, gameId, provider);
       return;
     }
     await CommandHandlers.handlePay(ctx, gameId);
@@ -27,7 +36,8 @@ export class PaymentHandler extends BaseHandler {
    */
   static async handlePayments(ctx: Context, gameId: string): Promise<void> {
     if (!PaymentHandler.validateGameId(gameId)) {
-      await ctx.reply('Неверный формат ID игры');
+      const t = await PaymentHandler.translatorFor(ctx);
+      await ctx.reply(t('common.invalidGameId'));
       return;
     }
     await CommandHandlers.handlePayments(ctx, gameId);
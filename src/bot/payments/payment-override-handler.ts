@@ -0,0 +1,87 @@
+import { Context } from 'telegraf';
+import { BaseHandler } from '../common/base-handler.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { ErrorHandler } from '../../shared/error-handler.js';
+import { getPaymentStatusName } from '../../shared/game-constants.js';
+import { prisma } from '../../infrastructure/prisma.js';
+import { overridePayment } from '../../application/use-cases.js';
+import { PaymentStatus, type PaymentOverrideStatus } from '../../domain/registration.js';
+import { TeamPermission } from '../../domain/organizer-team.js';
+
+/**
+ * Обработчик ручной смены статуса оплаты организатором из дашборда /payments
+ * Сценарий: кнопка игрока (payedit_*) -> выбор статуса (payset_*)
+ */
+export class PaymentOverrideHandler extends BaseHandler {
+  protected static override logger = LoggerFactory.bot('payment-override-handler');
+
+  /**
+   * Обработчик кнопки payedit_<registrationId>
+   * Показывает текущий статус оплаты игрока и кнопки выбора нового
+   */
+  static async handleEditPayment(ctx: Context, registrationId: string): Promise<void> {
+    const t = await PaymentOverrideHandler.translatorFor(ctx);
+    try {
+      const registration = await PaymentOverrideHandler.findOwnRegistration(ctx, registrationId);
+      if (!registration) {
+        await ctx.answerCbQuery(t('common.notGameOrganizer'));
+        return;
+      }
+
+      await ctx.answerCbQuery();
+      await ctx.reply(t('payments.chooseStatus', {
+        name: registration.user.name,
+        status: getPaymentStatusName(registration.paymentStatus, t)
+      }), {
+        reply_markup: {
+          inline_keyboard: [
+            [
+              { text: t('payments.setPaidButton'), callback_data: `payset_${registrationId}_${PaymentStatus.paid}` },
+              { text: t('payments.setUnpaidButton'), callback_data: `payset_${registrationId}_${PaymentStatus.unpaid}` }
+            ],
+            [{ text: t('payments.setDisputedButton'), callback_data: `payset_${registrationId}_${PaymentStatus.disputed}` }]
+          ]
+        }
+      });
+    } catch (error: any) {
+      await ctx.answerCbQuery(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик кнопки payset_<registrationId>_<status>
+   * Сохраняет новый статус оплаты; изменение попадает в историю игры
+   */
+  static async handleSetPayment(ctx: Context, registrationId: string, status: PaymentOverrideStatus): Promise<void> {
+    const t = await PaymentOverrideHandler.translatorFor(ctx);
+    try {
+      const registration = await PaymentOverrideHandler.findOwnRegistration(ctx, registrationId);
+      if (!registration) {
+        await ctx.answerCbQuery(t('common.notGameOrganizer'));
+        return;
+      }
+
+      const actor = await PaymentOverrideHandler.requireUser(ctx);
+      await overridePayment(registration.gameId, actor.id, registration.userId, status);
+
+      const text = t('payments.statusChanged', { name: registration.user.name, status: getPaymentStatusName(status, t) });
+      await ctx.answerCbQuery(text);
+      await ctx.editMessageText(text);
+    } catch (error: any) {
+      PaymentOverrideHandler.logger.error('handleSetPayment', 'Не удалось изменить статус оплаты', error as Error,
+        { telegramId: ctx.from?.id, registrationId, status }
+      );
+      await ctx.answerCbQuery(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  // Запись игрока на игру текущего организатора; null - если запись чужая или не найдена
+  private static async findOwnRegistration(ctx: Context, registrationId: string) {
+    const organizer = await PaymentOverrideHandler.requireOrganizer(ctx, TeamPermission.managePayments);
+    const registration = await prisma.registration.findUnique({
+      where: { id: registrationId },
+      include: { user: true, game: true }
+    });
+    return registration && registration.game.organizerId === organizer.id ? registration : null;
+  }
+}
@@ -3,6 +3,7 @@ import { BaseHandler } from '../common/base-handler.js';
 import { LoggerFactory } from '../../shared/layer-logger.js';
 import { CallbackDataParser } from '../common/callback-parser.js';
 import { prisma } from '../../infrastructure/prisma.js';
+import { TeamPermission } from '../../domain/organizer-team.js';
 
 /**
  * Обработчик напоминаний об оплате
@@ -16,16 +17,17 @@ export class PaymentReminderHandler extends BaseHandler {
    */
   static async handleSendReminders(ctx: Context, gameId: string): Promise<void> {
     const telegramId = ctx.from!.id;
+    const t = await PaymentReminderHandler.translatorFor(ctx);
 
     try {
-      const organizer = await PaymentReminderHandler.requireOrganizer(ctx);
+      const organizer = await PaymentReminderHandler.requireOrganizer(ctx, TeamPermission.managePayments);
 
       const { sendPaymentReminders } = await import('../../application/use-cases.js');
       await sendPaymentReminders(gameId, organizer.id!);
 
-      await ctx.answerCbQuery('Напоминания отправлены!');
+      await ctx.answerCbQuery(t('payments.remindersSent'));
       if (ctx.callbackQuery?.message && 'text' in ctx.callbackQuery.message) {
-        await ctx.editMessageText(ctx.callbackQuery.message.text + '\n\n✅ Напоминания отправлены!', {
+        await ctx.editMessageText(ctx.callbackQuery.message.text + '\n\n' + t('payments.remindersSentMark'), {
           parse_mode: 'Markdown'
         });
       }
@@ -34,7 +36,7 @@ export class PaymentReminderHandler extends BaseHandler {
         error as Error,
         { telegramId, gameId }
       );
-      await ctx.answerCbQuery('Ошибка при отправке напоминаний');
+      await ctx.answerCbQuery(t('payments.remindersFailed'));
     }
   }
 
@@ -44,7 +46,8 @@ export class PaymentReminderHandler extends BaseHandler {
   static async handleRemindPaymentsCallback(ctx: Context, data: string): Promise<void> {
     const gameId = CallbackDataParser.parseRemindPaymentsGameId(data);
     if (!gameId) {
-      await ctx.answerCbQuery('Неверный формат действия');
+      const t = await PaymentReminderHandler.translatorFor(ctx);
+      await ctx.answerCbQuery(t('common.invalidAction'));
       return;
     }
 
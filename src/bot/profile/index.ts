@@ -1,2 +1,3 @@
 export { ProfileHandler } from './profile-handler.js';
-export { PlayerManagementHandler } from './player-management-handler.js';
\ No newline at end of file
+export { PlayerManagementHandler } from './player-management-handler.js';
+export { TeamHandler } from './team-handler.js';
\ No newline at end of file
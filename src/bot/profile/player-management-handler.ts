@@ -3,6 +3,12 @@ import { BaseHandler } from '../common/base-handler.js';
 import { LoggerFactory } from '../../shared/layer-logger.js';
 import { CommandHandlers } from '../command-handlers.js';
 import { CallbackDataParser } from '../common/callback-parser.js';
+import { ErrorHandler } from '../../shared/error-handler.js';
+import { getPlayerLevelName } from '../../shared/game-constants.js';
+import { prisma } from '../../infrastructure/prisma.js';
+import { verifyPlayerLevel } from '../../application/use-cases.js';
+import { SkillLevel } from '../../domain/skill-level.js';
+import { TeamPermission } from '../../domain/organizer-team.js';
 
 /**
  * Обработчик управления игроками (для организаторов)
@@ -32,13 +38,14 @@ export class PlayerManagementHandler extends BaseHandler {
    */
   static async handleConfirmPlayer(ctx: Context, data: string): Promise<void> {
     const playerId = CallbackDataParser.parsePlayerId(data);
+    const t = await PlayerManagementHandler.translatorFor(ctx);
     if (!playerId) {
-      await ctx.answerCbQuery('Неверный формат действия');
+      await ctx.answerCbQuery(t('common.invalidAction'));
       return;
     }
 
     await CommandHandlers.handleConfirmPlayer(ctx, playerId);
-    await ctx.answerCbQuery('✅ Игрок подтвержден');
+    await ctx.answerCbQuery(t('players.confirmedToast'));
   }
 
   /**
@@ -47,12 +54,67 @@ export class PlayerManagementHandler extends BaseHandler {
    */
   static async handleRejectPlayer(ctx: Context, data: string): Promise<void> {
     const playerId = CallbackDataParser.parsePlayerId(data);
+    const t = await PlayerManagementHandler.translatorFor(ctx);
     if (!playerId) {
-      await ctx.answerCbQuery('Неверный формат действия');
+      await ctx.answerCbQuery(t('common.invalidAction'));
       return;
     }
 
     await CommandHandlers.handleRejectPlayer(ctx, playerId);
-    await ctx.answerCbQuery('❌ Игрок отклонен');
+    await ctx.answerCbQuery(t('players.rejectedToast'));
   }
-}
\ No newline at end of file
+
+  /**
+   * Обработчик действия verify_level_<userId>
+   * Предлагает выбрать подтвержденный уровень игрока
+   */
+  static async handleVerifyLevel(ctx: Context, userId: string): Promise<void> {
+    const t = await PlayerManagementHandler.translatorFor(ctx);
+    try {
+      // Уровень показываем только тому, кто управляет игроками, и только для своих подтвержденных игроков
+      const organizer = await PlayerManagementHandler.requireOrganizer(ctx, TeamPermission.managePlayers);
+      const link = await prisma.playerOrganizer.findUnique({
+        where: { playerId_organizerId: { playerId: userId, organizerId: organizer.id } },
+        include: { player: { select: { name: true, levelTag: true } } }
+      });
+      if (!link || link.status !== 'confirmed') {
+        await ctx.answerCbQuery(t('common.invalidAction'));
+        return;
+      }
+
+      await ctx.answerCbQuery();
+      await ctx.reply(t('players.chooseVerifiedLevel', { name: link.player.name, level: getPlayerLevelName(link.player.levelTag, t) }), {
+        reply_markup: {
+          inline_keyboard: Object.values(SkillLevel).map(level => [
+            { text: getPlayerLevelName(level, t), callback_data: `set_level_${userId}_${level}` }
+          ])
+        }
+      });
+    } catch (error: any) {
+      PlayerManagementHandler.logger.warn('handleVerifyLevel', 'Нет прав на подтверждение уровня игрока',
+        { telegramId: ctx.from?.id, userId }
+      );
+      await ctx.answerCbQuery(error.message);
+    }
+  }
+
+  /**
+   * Обработчик действия set_level_<userId>_<level>
+   * Подтверждает или исправляет уровень игрока
+   */
+  static async handleSetLevel(ctx: Context, userId: string, level: string): Promise<void> {
+    const t = await PlayerManagementHandler.translatorFor(ctx);
+    try {
+      const user = await PlayerManagementHandler.requireUser(ctx);
+      const result = await verifyPlayerLevel({ organizerUserId: user.id, userId, levelTag: level });
+
+      await ctx.answerCbQuery();
+      await ctx.editMessageText(t('players.levelVerified', { name: result.name, level: getPlayerLevelName(result.to, t) }));
+    } catch (error: any) {
+      PlayerManagementHandler.logger.warn('handleSetLevel', 'Не удалось подтвердить уровень игрока',
+        { telegramId: ctx.from?.id, userId, level, code: error.code }
+      );
+      await ctx.answerCbQuery(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+}
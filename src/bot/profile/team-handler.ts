@@ -0,0 +1,131 @@
+import { Context } from 'telegraf';
+import { BaseHandler } from '../common/base-handler.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { ErrorHandler } from '../../shared/error-handler.js';
+import { getOrganizerRoleName } from '../../shared/game-constants.js';
+import { listTeamMembers, listTeamCandidates, addTeamMember, removeTeamMember } from '../../application/use-cases.js';
+import { OrganizerRole, TeamPermission, ASSIGNABLE_ORGANIZER_ROLES, hasTeamPermission, type AssignableOrganizerRole } from '../../domain/organizer-team.js';
+
+/**
+ * Обработчик команды организатора
+ * /team -> участники; владелец: team_add -> игрок (team_pick_*) -> роль (team_role_*), исключение team_remove_*
+ */
+export class TeamHandler extends BaseHandler {
+  protected static override logger = LoggerFactory.bot('team-handler');
+
+  /**
+   * Обработчик команды /team: состав команды, у владельца - кнопки управления
+   */
+  static async handleTeam(ctx: Context): Promise<void> {
+    const t = await TeamHandler.translatorFor(ctx);
+    try {
+      const user = await TeamHandler.requireUser(ctx);
+      const organizer = await TeamHandler.requireOrganizer(ctx);
+      const members = await listTeamMembers(user.id);
+      const canManage = hasTeamPermission(members.find(member => member.userId === user.id)!.role, TeamPermission.manageTeam);
+
+      const buttons = canManage
+        ? [
+            ...members
+              .filter(member => member.role !== OrganizerRole.owner)
+              .map(member => [{ text: t('team.removeButton', { name: member.name }), callback_data: `team_remove_${member.userId}` }]),
+            [{ text: t('team.addButton'), callback_data: 'team_add' }]
+          ]
+        : [];
+
+      await ctx.reply(t('team.title', {
+        organizer: organizer.title ?? '',
+        members: members.map(member => t('team.memberLine', { role: getOrganizerRoleName(member.role, t), name: member.name })).join('\n')
+      }), { reply_markup: { inline_keyboard: buttons } });
+    } catch (error: any) {
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик кнопки team_add: подтвержденные игроки, которых можно добавить
+   */
+  static async handleAdd(ctx: Context): Promise<void> {
+    const t = await TeamHandler.translatorFor(ctx);
+    try {
+      const user = await TeamHandler.requireUser(ctx);
+      const candidates = await listTeamCandidates(user.id);
+
+      await ctx.answerCbQuery();
+      if (candidates.length === 0) {
+        await ctx.reply(t('team.noCandidates'));
+        return;
+      }
+      await ctx.reply(t('team.chooseCandidate'), {
+        reply_markup: {
+          inline_keyboard: candidates.map(candidate => [{ text: candidate.name, callback_data: `team_pick_${candidate.userId}` }])
+        }
+      });
+    } catch (error: any) {
+      await ctx.answerCbQuery(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик кнопки team_pick_<userId>: выбор роли нового участника
+   */
+  static async handlePick(ctx: Context, userId: string): Promise<void> {
+    const t = await TeamHandler.translatorFor(ctx);
+    try {
+      const user = await TeamHandler.requireUser(ctx);
+      const candidate = (await listTeamCandidates(user.id)).find(c => c.userId === userId);
+      if (!candidate) {
+        await ctx.answerCbQuery(t('team.noCandidates'));
+        return;
+      }
+
+      await ctx.answerCbQuery();
+      await ctx.reply(t('team.chooseRole', { name: candidate.name }), {
+        reply_markup: {
+          inline_keyboard: [ASSIGNABLE_ORGANIZER_ROLES.map(role => (
+            { text: getOrganizerRoleName(role, t), callback_data: `team_role_${userId}_${role}` }
+          ))]
+        }
+      });
+    } catch (error: any) {
+      await ctx.answerCbQuery(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик кнопки team_role_<userId>_<role>: добавляет игрока в команду с выбранной ролью
+   */
+  static async handleRole(ctx: Context, userId: string, role: AssignableOrganizerRole): Promise<void> {
+    const t = await TeamHandler.translatorFor(ctx);
+    try {
+      const user = await TeamHandler.requireUser(ctx);
+      const member = await addTeamMember({ ownerUserId: user.id, userId, role });
+
+      await ctx.answerCbQuery();
+      await ctx.editMessageReplyMarkup(undefined);
+      await ctx.reply(t('team.added', { name: member.name, role: getOrganizerRoleName(member.role, t) }));
+    } catch (error: any) {
+      TeamHandler.logger.warn('handleRole', 'Не удалось добавить участника в команду',
+        { telegramId: ctx.from?.id, userId, role, code: error.code }
+      );
+      await ctx.answerCbQuery(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик кнопки team_remove_<userId>: исключает участника из команды
+   */
+  static async handleRemove(ctx: Context, userId: string): Promise<void> {
+    const t = await TeamHandler.translatorFor(ctx);
+    try {
+      const user = await TeamHandler.requireUser(ctx);
+      const member = (await listTeamMembers(user.id)).find(m => m.userId === userId);
+      await removeTeamMember(user.id, userId);
+
+      await ctx.answerCbQuery();
+      await ctx.reply(t('team.removed', { name: member?.name ?? '' }));
+    } catch (error: any) {
+      await ctx.answerCbQuery(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+}
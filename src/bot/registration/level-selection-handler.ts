@@ -4,6 +4,8 @@ import { updateUserLevel } from '../../application/use-cases.js';
 import { LoggerFactory } from '../../shared/layer-logger.js';
 import { KeyboardBuilder } from '../common/keyboard-builder.js';
 import { prisma } from '../../infrastructure/prisma.js';
+import { ErrorHandler } from '../../shared/error-handler.js';
+import { BusinessRuleError } from '../../domain/errors/index.js';
 
 /**
  * Обработчик выбора уровня мастерства игрока
@@ -16,9 +18,10 @@ export class LevelSelectionHandler extends BaseHandler {
    * Предлагает выбрать уровень мастерства
    */
   static async handleRolePlayer(ctx: Context): Promise<void> {
-    await ctx.editMessageText('Ты выбрал роль игрока. Теперь оцени свой уровень:', {
+    const t = await LevelSelectionHandler.translatorFor(ctx);
+    await ctx.editMessageText(t('registration.chooseLevel'), {
       reply_markup: {
-        inline_keyboard: KeyboardBuilder.createLevelSelectionKeyboard()
+        inline_keyboard: KeyboardBuilder.createLevelSelectionKeyboard(t)
       }
     });
   }
@@ -30,6 +33,7 @@ export class LevelSelectionHandler extends BaseHandler {
   static async handleLevelSelection(ctx: Context, level: string): Promise<void> {
     const telegramId = ctx.from!.id;
     const correlationId = LevelSelectionHandler.createCorrelationId(ctx, 'level_selection');
+    const t = await LevelSelectionHandler.translatorFor(ctx);
     try {
       const user = await LevelSelectionHandler.requireUser(ctx);
 
@@ -40,16 +44,21 @@ export class LevelSelectionHandler extends BaseHandler {
       const otherOrganizersCount = organizers.filter(org => org.userId !== user.id).length;
 
       if (otherOrganizersCount > 0) {
-        await ctx.editMessageText('Отлично! Хочешь выбрать организаторов для приоритетных приглашений на игры?', {
+        await ctx.editMessageText(t('registration.selectOrganizersPrompt'), {
           reply_markup: {
-            inline_keyboard: KeyboardBuilder.createRegistrationCompletionKeyboard(true)
+            inline_keyboard: KeyboardBuilder.createRegistrationCompletionKeyboard(true, t)
           }
         });
       } else {
-        await ctx.editMessageText('Отлично! Теперь ты можешь искать игры командой /games');
+        await ctx.editMessageText(t('registration.completed'));
       }
 
     } catch (error) {
+      // Уровень, подтвержденный организатором, игрок сам не меняет
+      if (error instanceof BusinessRuleError) {
+        await ctx.editMessageText(ErrorHandler.mapToUserMessage(error, t));
+        return;
+      }
       LevelSelectionHandler.logger.error('handleLevelSelection', 'Failed to update user level',
         error as Error,
         { telegramId, level, correlationId }
@@ -62,6 +71,7 @@ export class LevelSelectionHandler extends BaseHandler {
    * Обработчик завершения регистрации без выбора организаторов
    */
   static async handleFinishRegistration(ctx: Context): Promise<void> {
-    await ctx.editMessageText('Отлично! Теперь ты можешь искать игры командой /games');
+    const t = await LevelSelectionHandler.translatorFor(ctx);
+    await ctx.editMessageText(t('registration.completed'));
   }
 }
\ No newline at end of file
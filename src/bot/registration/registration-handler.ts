@@ -30,9 +30,10 @@ export class RegistrationHandler extends BaseHandler {
       const result = await registerUser(telegramId, name);
       RegistrationHandler.logger.exit('registerUser', { userId: result.userId, correlationId });
 
-      await ctx.reply('Привет! Я бот для организации волейбольных игр. Выбери свою роль:', {
+      const t = await RegistrationHandler.translatorFor(ctx);
+      await ctx.reply(t('registration.welcome'), {
         reply_markup: {
-          inline_keyboard: KeyboardBuilder.createRoleSelectionKeyboard()
+          inline_keyboard: KeyboardBuilder.createRoleSelectionKeyboard(t)
         }
       });
 
@@ -59,7 +60,8 @@ export class RegistrationHandler extends BaseHandler {
 
       await registerOrganizer(user.id, ctx.from!.first_name);
 
-      await ctx.editMessageText('Ты зарегистрирован как организатор! Создай игру командой /newgame');
+      const t = await RegistrationHandler.translatorFor(ctx, user);
+      await ctx.editMessageText(t('registration.organizerRegistered'));
 
     } catch (error) {
       RegistrationHandler.logger.error('handleRoleOrganizer', 'Failed to register organizer',
@@ -29,7 +29,8 @@ export class OrganizerSelectionHandler extends BaseHandler {
     const organizerId = CallbackDataParser.parseOrganizerId(data);
     if (!organizerId) {
       OrganizerSelectionHandler.logger.warn('handleToggleOrganizer', 'Invalid organizer id format', { data });
-      await ctx.answerCbQuery('Неверный формат действия');
+      const t = await OrganizerSelectionHandler.translatorFor(ctx);
+      await ctx.answerCbQuery(t('common.invalidAction'));
       return;
     }
 
@@ -50,16 +51,17 @@ export class OrganizerSelectionHandler extends BaseHandler {
     const user = await prisma.user.findUnique({
       where: { telegramId: ctx.from!.id }
     });
+    const t = await OrganizerSelectionHandler.translatorFor(ctx, user);
     if (!user) {
       OrganizerSelectionHandler.logger.warn('handleOrganizersDone', 'User not found', { telegramId: ctx.from!.id });
-      await ctx.answerCbQuery('Пользователь не найден');
+      await ctx.answerCbQuery(t('common.userNotFound'));
       return;
     }
 
     try {
       const telegramId = ctx.from!.id;
-      const sessionData = CommandHandlers.organizerSelectionSessions.get(telegramId);
-      const session = sessionData ? sessionData.session : new Set<string>();
+      const sessionData = await CommandHandlers.organizerSelectionSessions.get(telegramId);
+      const session = sessionData ? sessionData.selectedIds : new Set<string>();
 
       const organizerIds = Array.from(session);
 
@@ -69,17 +71,17 @@ export class OrganizerSelectionHandler extends BaseHandler {
       await selectOrganizers(user.id, organizerIds);
 
       // Очистить сессию
-      CommandHandlers.organizerSelectionSessions.delete(telegramId);
+      await CommandHandlers.organizerSelectionSessions.delete(telegramId);
 
       OrganizerSelectionHandler.logger.info('handleOrganizersDone', 'Organizer selection saved successfully');
-      await ctx.answerCbQuery('✅ Выбор организаторов сохранен');
+      await ctx.answerCbQuery(t('organizers.selectionSaved'));
       const message = organizerIds.length > 0
-        ? '🔗 Выбор организаторов сохранен. Организаторы получат запрос на подтверждение.'
-        : '🔗 Все связи с организаторами удалены.';
+        ? t('organizers.selectionSavedMessage')
+        : t('organizers.allRemoved');
       await ctx.editMessageText(message);
     } catch (error: any) {
       OrganizerSelectionHandler.logger.error('handleOrganizersDone', 'Error saving organizer selection', error);
-      await ctx.answerCbQuery('Ошибка при сохранении выбора');
+      await ctx.answerCbQuery(t('organizers.selectionSaveFailed'));
     }
   }
 }
\ No newline at end of file
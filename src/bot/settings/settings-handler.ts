@@ -2,6 +2,10 @@ import { Context } from 'telegraf';
 import { BaseHandler } from '../common/base-handler.js';
 import { LoggerFactory } from '../../shared/layer-logger.js';
 import { CommandHandlers } from '../command-handlers.js';
+import { config } from '../../shared/config.js';
+import { getUserPreferences } from '../../shared/date-utils.js';
+import { getLocaleName } from '../../shared/game-constants.js';
+import { createTranslator } from '../../shared/i18n/index.js';
 
 /**
  * Обработчик настроек пользователя
@@ -30,33 +34,34 @@ export class SettingsHandler extends BaseHandler {
    */
   static async handleSettingsPayments(ctx: Context): Promise<void> {
     const user = await SettingsHandler.requireUser(ctx);
+    const t = await SettingsHandler.translatorFor(ctx, user);
 
     try {
       const { userPreferencesService } = await import('../../shared/user-preferences-service.js');
       const prefs = await userPreferencesService.getPreferences(user.id);
 
-      const settingsText = `
-💰 Настройки уведомлений об оплате:
-
-🤖 Автоматические напоминания: ${prefs.paymentRemindersAuto ? '✅ Включены' : '❌ Отключены'}
-📢 Ручные напоминания: ${prefs.paymentRemindersManual ? '✅ Включены' : '❌ Отключены'}
-      `.trim();
+      const settingsText = [
+        t('settings.payments.title'),
+        '',
+        t('settings.payments.auto', { state: t(prefs.paymentRemindersAuto ? 'common.enabled' : 'common.disabled') }),
+        t('settings.payments.manual', { state: t(prefs.paymentRemindersManual ? 'common.enabled' : 'common.disabled') }),
+      ].join('\n');
 
       const buttons = [
         [
           {
-            text: prefs.paymentRemindersAuto ? '❌ Отключить авто' : '✅ Включить авто',
+            text: t(prefs.paymentRemindersAuto ? 'settings.payments.disableAuto' : 'settings.payments.enableAuto'),
             callback_data: 'toggle_payment_auto'
           }
         ],
         [
           {
-            text: prefs.paymentRemindersManual ? '❌ Отключить ручные' : '✅ Включить ручные',
+            text: t(prefs.paymentRemindersManual ? 'settings.payments.disableManual' : 'settings.payments.enableManual'),
             callback_data: 'toggle_payment_manual'
           }
         ],
         [
-          { text: '⬅️ Назад', callback_data: 'back_to_settings' }
+          { text: t('common.back'), callback_data: 'back_to_settings' }
         ]
       ];
 
@@ -68,7 +73,7 @@ export class SettingsHandler extends BaseHandler {
         error as Error,
         { userId: user.id }
       );
-      await ctx.answerCbQuery('Ошибка при загрузке настроек');
+      await ctx.answerCbQuery(t('settings.loadError'));
     }
   }
 
@@ -78,33 +83,34 @@ export class SettingsHandler extends BaseHandler {
    */
   static async handleSettingsGames(ctx: Context): Promise<void> {
     const user = await SettingsHandler.requireUser(ctx);
+    const t = await SettingsHandler.translatorFor(ctx, user);
 
     try {
       const { userPreferencesService } = await import('../../shared/user-preferences-service.js');
       const prefs = await userPreferencesService.getPreferences(user.id);
 
-      const settingsText = `
-🎾 Настройки уведомлений об играх:
-
-⏰ Напоминания за 24 часа: ${prefs.gameReminders24h ? '✅ Включены' : '❌ Отключены'}
-🚨 Напоминания за 2 часа: ${prefs.gameReminders2h ? '✅ Включены' : '❌ Отключены'}
-      `.trim();
+      const settingsText = [
+        t('settings.games.title'),
+        '',
+        t('settings.games.reminder24h', { state: t(prefs.gameReminders24h ? 'common.enabled' : 'common.disabled') }),
+        t('settings.games.reminder2h', { state: t(prefs.gameReminders2h ? 'common.enabled' : 'common.disabled') }),
+      ].join('\n');
 
       const buttons = [
         [
           {
-            text: prefs.gameReminders24h ? '❌ Отключить 24ч' : '✅ Включить 24ч',
+            text: t(prefs.gameReminders24h ? 'settings.games.disable24h' : 'settings.games.enable24h'),
             callback_data: 'toggle_game_24h'
           }
         ],
         [
           {
-            text: prefs.gameReminders2h ? '❌ Отключить 2ч' : '✅ Включить 2ч',
+            text: t(prefs.gameReminders2h ? 'settings.games.disable2h' : 'settings.games.enable2h'),
             callback_data: 'toggle_game_2h'
           }
         ],
         [
-          { text: '⬅️ Назад', callback_data: 'back_to_settings' }
+          { text: t('common.back'), callback_data: 'back_to_settings' }
         ]
       ];
 
@@ -116,7 +122,7 @@ export class SettingsHandler extends BaseHandler {
         error as Error,
         { userId: user.id }
       );
-      await ctx.answerCbQuery('Ошибка при загрузке настроек');
+      await ctx.answerCbQuery(t('settings.loadError'));
     }
   }
 
@@ -126,26 +132,27 @@ export class SettingsHandler extends BaseHandler {
    */
   static async handleSettingsOrganizer(ctx: Context): Promise<void> {
     const user = await SettingsHandler.requireUser(ctx);
+    const t = await SettingsHandler.translatorFor(ctx, user);
 
     try {
       const { userPreferencesService } = await import('../../shared/user-preferences-service.js');
       const prefs = await userPreferencesService.getPreferences(user.id);
 
-      const settingsText = `
-👥 Настройки уведомлений организатора:
-
-📬 Уведомления организатора: ${prefs.organizerNotifications ? '✅ Включены' : '❌ Отключены'}
-      `.trim();
+      const settingsText = [
+        t('settings.organizerNotifications.title'),
+        '',
+        t('settings.organizerNotifications.state', { state: t(prefs.organizerNotifications ? 'common.enabled' : 'common.disabled') }),
+      ].join('\n');
 
       const buttons = [
         [
           {
-            text: prefs.organizerNotifications ? '❌ Отключить' : '✅ Включить',
+            text: t(prefs.organizerNotifications ? 'settings.organizerNotifications.disable' : 'settings.organizerNotifications.enable'),
             callback_data: 'toggle_organizer_notifications'
           }
         ],
         [
-          { text: '⬅️ Назад', callback_data: 'back_to_settings' }
+          { text: t('common.back'), callback_data: 'back_to_settings' }
         ]
       ];
 
@@ -157,7 +164,88 @@ export class SettingsHandler extends BaseHandler {
         error as Error,
         { userId: user.id }
       );
-      await ctx.answerCbQuery('Ошибка при загрузке настроек');
+      await ctx.answerCbQuery(t('settings.loadError'));
+    }
+  }
+
+  /**
+   * Обработчик действия settings_locale
+   * Показывает выбор часового пояса и языка
+   */
+  static async handleSettingsLocale(ctx: Context): Promise<void> {
+    const user = await SettingsHandler.requireUser(ctx);
+    const t = await SettingsHandler.translatorFor(ctx, user);
+    const localization = getUserPreferences(user);
+
+    const settingsText = [
+      t('settings.locale.title'),
+      '',
+      t('settings.locale.timezone', { timezone: localization.timezone }),
+      t('settings.locale.language', { language: getLocaleName(localization.locale, t) }),
+      '',
+      t('settings.locale.hint'),
+    ].join('\n');
+
+    const buttons = [
+      ...config.localization.supportedTimezones.map(timezone => [{
+        text: timezone === localization.timezone ? `✅ ${timezone}` : timezone,
+        callback_data: `set_timezone_${timezone}`
+      }]),
+      config.localization.supportedLocales.map(locale => ({
+        text: locale === localization.locale ? `✅ ${getLocaleName(locale, t)}` : getLocaleName(locale, t),
+        callback_data: `set_locale_${locale}`
+      })),
+      [
+        { text: t('common.back'), callback_data: 'back_to_settings' }
+      ]
+    ];
+
+    await ctx.editMessageText(settingsText, {
+      reply_markup: { inline_keyboard: buttons }
+    });
+  }
+
+  /**
+   * Обработчик действия set_timezone_<tz>
+   */
+  static async handleSetTimezone(ctx: Context, timezone: string): Promise<void> {
+    const user = await SettingsHandler.requireUser(ctx);
+    const t = await SettingsHandler.translatorFor(ctx, user);
+
+    try {
+      const { userPreferencesService } = await import('../../shared/user-preferences-service.js');
+      await userPreferencesService.updateLocalization(user.id, { timezone });
+      await ctx.answerCbQuery(t('settings.locale.timezoneSet', { timezone }));
+      await SettingsHandler.handleSettingsLocale(ctx);
+    } catch (error) {
+      SettingsHandler.logger.error('handleSetTimezone', 'Failed to update timezone',
+        error as Error,
+        { userId: user.id, timezone }
+      );
+      await ctx.answerCbQuery(t('settings.updateError'));
+    }
+  }
+
+  /**
+   * Обработчик действия set_locale_<locale>
+   */
+  static async handleSetLocale(ctx: Context, locale: string): Promise<void> {
+    const user = await SettingsHandler.requireUser(ctx);
+    const t = await SettingsHandler.translatorFor(ctx, user);
+
+    try {
+      const { userPreferencesService } = await import('../../shared/user-preferences-service.js');
+      await userPreferencesService.updateLocalization(user.id, { locale });
+      // Подтверждение уже на выбранном языке
+      const selected = createTranslator(locale);
+      await ctx.answerCbQuery(selected('settings.locale.languageSet', { language: getLocaleName(locale, selected) }));
+      await SettingsHandler.handleSettingsLocale(ctx);
+    } catch (error) {
+      SettingsHandler.logger.error('handleSetLocale', 'Failed to update locale',
+        error as Error,
+        { userId: user.id, locale }
+      );
+      await ctx.answerCbQuery(t('settings.updateError'));
     }
   }
 
@@ -174,6 +262,7 @@ export class SettingsHandler extends BaseHandler {
    */
   static async handleToggleGlobal(ctx: Context): Promise<void> {
     const user = await SettingsHandler.requireUser(ctx);
+    const t = await SettingsHandler.translatorFor(ctx, user);
 
     try {
       const { userPreferencesService } = await import('../../shared/user-preferences-service.js');
@@ -183,19 +272,20 @@ export class SettingsHandler extends BaseHandler {
         globalNotifications: !prefs.globalNotifications
       });
 
-      await ctx.answerCbQuery('✅ Настройки обновлены');
+      await ctx.answerCbQuery(t('settings.updated'));
       await SettingsHandler.handleSettings(ctx);
     } catch (error) {
       SettingsHandler.logger.error('handleToggleGlobal', 'Failed to toggle global notifications',
         error as Error,
         { userId: user.id }
       );
-      await ctx.answerCbQuery('Ошибка при обновлении настроек');
+      await ctx.answerCbQuery(t('settings.updateError'));
     }
   }
 
   static async handleTogglePaymentAuto(ctx: Context): Promise<void> {
     const user = await SettingsHandler.requireUser(ctx);
+    const t = await SettingsHandler.translatorFor(ctx, user);
 
     try {
       const { userPreferencesService } = await import('../../shared/user-preferences-service.js');
@@ -204,19 +294,20 @@ export class SettingsHandler extends BaseHandler {
         ...prefs,
         paymentRemindersAuto: !prefs.paymentRemindersAuto
       });
-      await ctx.answerCbQuery('✅ Настройка обновлена');
-      await ctx.editMessageText('💰 Настройки уведомлений об оплате обновлены');
+      await ctx.answerCbQuery(t('settings.settingUpdated'));
+      await ctx.editMessageText(t('settings.payments.updated'));
     } catch (error) {
       SettingsHandler.logger.error('handleTogglePaymentAuto', 'Failed to toggle payment auto reminders',
         error as Error,
         { userId: user.id }
       );
-      await ctx.answerCbQuery('Ошибка');
+      await ctx.answerCbQuery(t('common.error'));
     }
   }
 
   static async handleTogglePaymentManual(ctx: Context): Promise<void> {
     const user = await SettingsHandler.requireUser(ctx);
+    const t = await SettingsHandler.translatorFor(ctx, user);
 
     try {
       const { userPreferencesService } = await import('../../shared/user-preferences-service.js');
@@ -225,19 +316,20 @@ export class SettingsHandler extends BaseHandler {
         ...prefs,
         paymentRemindersManual: !prefs.paymentRemindersManual
       });
-      await ctx.answerCbQuery('✅ Настройка обновлена');
-      await ctx.editMessageText('💰 Настройки уведомлений об оплате обновлены');
+      await ctx.answerCbQuery(t('settings.settingUpdated'));
+      await ctx.editMessageText(t('settings.payments.updated'));
     } catch (error) {
       SettingsHandler.logger.error('handleTogglePaymentManual', 'Failed to toggle payment manual reminders',
         error as Error,
         { userId: user.id }
       );
-      await ctx.answerCbQuery('Ошибка');
+      await ctx.answerCbQuery(t('common.error'));
     }
   }
 
   static async handleToggleGame24h(ctx: Context): Promise<void> {
     const user = await SettingsHandler.requireUser(ctx);
+    const t = await SettingsHandler.translatorFor(ctx, user);
 
     try {
       const { userPreferencesService } = await import('../../shared/user-preferences-service.js');
@@ -246,19 +338,20 @@ export class SettingsHandler extends BaseHandler {
         ...prefs,
         gameReminders24h: !prefs.gameReminders24h
       });
-      await ctx.answerCbQuery('✅ Настройка обновлена');
-      await ctx.editMessageText('🎾 Настройки уведомлений об играх обновлены');
+      await ctx.answerCbQuery(t('settings.settingUpdated'));
+      await ctx.editMessageText(t('settings.games.updated'));
     } catch (error) {
       SettingsHandler.logger.error('handleToggleGame24h', 'Failed to toggle game 24h reminders',
         error as Error,
         { userId: user.id }
       );
-      await ctx.answerCbQuery('Ошибка');
+      await ctx.answerCbQuery(t('common.error'));
     }
   }
 
   static async handleToggleGame2h(ctx: Context): Promise<void> {
     const user = await SettingsHandler.requireUser(ctx);
+    const t = await SettingsHandler.translatorFor(ctx, user);
 
     try {
       const { userPreferencesService } = await import('../../shared/user-preferences-service.js');
@@ -267,19 +360,20 @@ export class SettingsHandler extends BaseHandler {
         ...prefs,
         gameReminders2h: !prefs.gameReminders2h
       });
-      await ctx.answerCbQuery('✅ Настройка обновлена');
-      await ctx.editMessageText('🎾 Настройки уведомлений об играх обновлены');
+      await ctx.answerCbQuery(t('settings.settingUpdated'));
+      await ctx.editMessageText(t('settings.games.updated'));
     } catch (error) {
       SettingsHandler.logger.error('handleToggleGame2h', 'Failed to toggle game 2h reminders',
         error as Error,
         { userId: user.id }
       );
-      await ctx.answerCbQuery('Ошибка');
+      await ctx.answerCbQuery(t('common.error'));
     }
   }
 
   static async handleToggleOrganizerNotifications(ctx: Context): Promise<void> {
     const user = await SettingsHandler.requireUser(ctx);
+    const t = await SettingsHandler.translatorFor(ctx, user);
 
     try {
       const { userPreferencesService } = await import('../../shared/user-preferences-service.js');
@@ -288,14 +382,14 @@ export class SettingsHandler extends BaseHandler {
         ...prefs,
         organizerNotifications: !prefs.organizerNotifications
       });
-      await ctx.answerCbQuery('✅ Настройка обновлена');
-      await ctx.editMessageText('👥 Настройки уведомлений организатора обновлены');
+      await ctx.answerCbQuery(t('settings.settingUpdated'));
+      await ctx.editMessageText(t('settings.organizerNotifications.updated'));
     } catch (error) {
       SettingsHandler.logger.error('handleToggleOrganizerNotifications', 'Failed to toggle organizer notifications',
         error as Error,
         { userId: user.id }
       );
-      await ctx.answerCbQuery('Ошибка');
+      await ctx.answerCbQuery(t('common.error'));
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1 @@
+export { VenueHandler } from './venue-handler.js';
@@ -0,0 +1,157 @@
+import { Context } from 'telegraf';
+import { BaseHandler } from '../common/base-handler.js';
+import { CommandValidator } from '../common/command-validator.js';
+import { LoggerFactory } from '../../shared/layer-logger.js';
+import { ErrorHandler } from '../../shared/error-handler.js';
+import { createVenue, updateVenue, deleteVenue, listVenues } from '../../application/use-cases.js';
+import type { VenueFields } from '../../application/services/venue-service.js';
+import type { Venue } from '../../domain/venue.js';
+import type { Translator } from '../../shared/i18n/index.js';
+
+/**
+ * Обработчик управления площадками организатора
+ */
+export class VenueHandler extends BaseHandler {
+  protected static override logger = LoggerFactory.bot('venue-handler');
+
+  /**
+   * Обработчик команды /venues
+   * Показывает площадки, доступные организатору
+   */
+  static async handleVenues(ctx: Context): Promise<void> {
+    const t = await VenueHandler.translatorFor(ctx);
+    try {
+      const user = await VenueHandler.requireUser(ctx);
+      const venues = await listVenues(user.id);
+
+      if (venues.length === 0) {
+        await ctx.reply(t('venues.empty', { format: t('venues.format') }));
+        return;
+      }
+
+      const list = venues.map(venue => VenueHandler.formatVenue(venue, t)).join('\n\n');
+      await ctx.reply(t('venues.list', { list }), {
+        parse_mode: 'Markdown'
+      });
+    } catch (error: any) {
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик команды /addvenue Название | Адрес | Кортов | зал/улица | Вместимость | Цена
+   * Все поля, кроме названия, необязательны
+   */
+  static async handleAddVenue(ctx: Context): Promise<void> {
+    const t = await VenueHandler.translatorFor(ctx);
+    const args = CommandValidator.validateMultiArgCommand(ctx).trim();
+    if (!args) {
+      await ctx.reply(CommandValidator.createUsageMessage('addvenue', t('venues.format'), t));
+      return;
+    }
+
+    const fields = VenueHandler.parseFields(args.split('|'));
+    if (!fields || !fields.name) {
+      await ctx.reply(CommandValidator.createUsageMessage('addvenue', t('venues.format'), t));
+      return;
+    }
+
+    try {
+      const user = await VenueHandler.requireUser(ctx);
+      const venue = await createVenue(user.id, fields as VenueFields);
+      await ctx.reply(t('venues.added', { venue: VenueHandler.formatVenue(venue, t) }), { parse_mode: 'Markdown' });
+    } catch (error: any) {
+      VenueHandler.logger.error('handleAddVenue', 'Не удалось создать площадку', error as Error,
+        { telegramId: ctx.from?.id }
+      );
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик команды /editvenue ID | Название | Адрес | Кортов | зал/улица | Вместимость | Цена
+   * Пустые поля сохраняют текущее значение
+   */
+  static async handleEditVenue(ctx: Context): Promise<void> {
+    const t = await VenueHandler.translatorFor(ctx);
+    const [venueId = '', ...parts] = CommandValidator.validateMultiArgCommand(ctx).split('|');
+    const fields = VenueHandler.parseFields(parts);
+    if (!CommandValidator.isValidUUID(venueId.trim()) || !fields) {
+      await ctx.reply(CommandValidator.createUsageMessage('editvenue', `ID | ${t('venues.format')}`, t));
+      return;
+    }
+
+    try {
+      const user = await VenueHandler.requireUser(ctx);
+      const venue = await updateVenue(user.id, venueId.trim(), fields);
+      await ctx.reply(t('venues.updated', { venue: VenueHandler.formatVenue(venue, t) }), { parse_mode: 'Markdown' });
+    } catch (error: any) {
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Обработчик команды /deletevenue ID
+   * Площадка архивируется: существующие игры сохраняются
+   */
+  static async handleDeleteVenue(ctx: Context): Promise<void> {
+    const t = await VenueHandler.translatorFor(ctx);
+    const venueId = CommandValidator.validateMultiArgCommand(ctx).trim();
+    if (!CommandValidator.isValidUUID(venueId)) {
+      await ctx.reply(CommandValidator.createUsageMessage('deletevenue', 'ID', t));
+      return;
+    }
+
+    try {
+      const user = await VenueHandler.requireUser(ctx);
+      await deleteVenue(user.id, venueId);
+      await ctx.reply(t('venues.deleted'));
+    } catch (error: any) {
+      await ctx.reply(ErrorHandler.mapToUserMessage(error, t));
+    }
+  }
+
+  /**
+   * Разбирает позиционные поля площадки; пустые поля пропускаются.
+   * Возвращает null, если числовые поля или тип площадки заданы некорректно
+   */
+  private static parseFields(parts: string[]): Partial<VenueFields> | null {
+    const [name, address, courts, type, capacity, price] = parts.map(part => part.trim());
+    const fields: Partial<VenueFields> = {};
+
+    if (name) fields.name = name;
+    if (address) fields.address = address;
+    if (price) fields.defaultPriceText = price;
+
+    if (courts) {
+      const courtCount = parseInt(courts, 10);
+      if (isNaN(courtCount)) return null;
+      fields.courtCount = courtCount;
+    }
+
+    if (capacity) {
+      const defaultCapacity = parseInt(capacity, 10);
+      if (isNaN(defaultCapacity)) return null;
+      fields.defaultCapacity = defaultCapacity;
+    }
+
+    if (type) {
+      const normalized = type.toLowerCase();
+      if (['зал', 'indoor'].includes(normalized)) fields.isIndoor = true;
+      else if (['улица', 'outdoor'].includes(normalized)) fields.isIndoor = false;
+      else return null;
+    }
+
+    return fields;
+  }
+
+  private static formatVenue(venue: Venue, t: Translator): string {
+    const lines = [`*${venue.name}*${venue.organizerId ? '' : t('venues.shared')}`];
+    if (venue.address) lines.push(`📍 ${venue.address}`);
+    lines.push(t('venues.courts', { type: t(venue.isIndoor ? 'venues.indoor' : 'venues.outdoor'), count: venue.courtCount }));
+    lines.push(t('venues.defaultCapacity', { capacity: venue.defaultCapacity }));
+    if (venue.defaultPriceText) lines.push(`💰 ${venue.defaultPriceText}`);
+    lines.push(`ID: \`${venue.id}\``);
+    return lines.join('\n');
+  }
+}
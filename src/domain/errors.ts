@@ -18,6 +18,22 @@ export const ERROR_CODES = {
   NOT_CONFIRMED: 'NOT_CONFIRMED',
   PRIORITY_WINDOW_ACTIVE: 'PRIORITY_WINDOW_ACTIVE',
   VENUE_OCCUPIED: 'VENUE_OCCUPIED',
+  VENUE_ARCHIVED: 'VENUE_ARCHIVED',
+  GAME_NOT_CANCELABLE: 'GAME_NOT_CANCELABLE',
+  GAME_NOT_EDITABLE: 'GAME_NOT_EDITABLE',
+  CAPACITY_BELOW_CONFIRMED: 'CAPACITY_BELOW_CONFIRMED',
+  PAYMENT_DISPUTED: 'PAYMENT_DISPUTED',
+  PRICING_NOT_SET: 'PRICING_NOT_SET',
+  PAYMENT_ALREADY_MARKED: 'PAYMENT_ALREADY_MARKED',
+  INVOICE_OUTDATED: 'INVOICE_OUTDATED',
+  ILLEGAL_STATUS_TRANSITION: 'ILLEGAL_STATUS_TRANSITION',
+  NO_WAITLIST_OFFER: 'NO_WAITLIST_OFFER',
+  WAITLIST_OFFER_EXPIRED: 'WAITLIST_OFFER_EXPIRED',
+  GROUP_CHAT_ALREADY_BOUND: 'GROUP_CHAT_ALREADY_BOUND',
+  ALREADY_TEAM_MEMBER: 'ALREADY_TEAM_MEMBER',
+  LEVEL_NOT_ALLOWED: 'LEVEL_NOT_ALLOWED',
+  LEVEL_ALREADY_VERIFIED: 'LEVEL_ALREADY_VERIFIED',
+  PLAYER_NOT_LINKED: 'PLAYER_NOT_LINKED',
 
   // Валидация
   INVALID_INPUT: 'INVALID_INPUT',
@@ -0,0 +1,51 @@
+import { zonedTimeToUTC, getTimezoneOffsetMs } from '../shared/date-utils.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Доменная сущность "Серия игр" - регулярный слот организатора (например, вт и чт в 20:00)
+export class GameSeries {
+  constructor(
+    readonly id: string, // Уникальный идентификатор серии
+    readonly organizerId: string, // ID организатора
+    readonly venueId: string, // ID площадки (шаблон игры)
+    readonly weekdays: number[], // ISO дни недели: 1 - понедельник ... 7 - воскресенье
+    readonly startTime: string, // Время начала "HH:MM" в часовом поясе серии
+    readonly timezone: string, // Часовой пояс, в котором задано время начала
+    readonly capacity: number, // Вместимость (шаблон игры)
+    readonly levelTag?: string, // Уровень (шаблон игры)
+    readonly priceText?: string, // Стоимость (шаблон игры)
+    readonly createAheadDays: number = 7, // За сколько дней вперед создавать игры
+    private _active: boolean = true, // Активна ли серия
+  ) {}
+
+  get active(): boolean {
+    return this._active;
+  }
+
+  /**
+   * Вычисляет моменты начала игр серии в интервале (from, to]
+   * Время начала считается в часовом поясе серии, поэтому переход на летнее время не сдвигает слот
+   */
+  occurrencesBetween(from: Date, to: Date): Date[] {
+    const [hour = 0, minute = 0] = this.startTime.split(':').map(Number);
+    // Календарная дата "from" в часовом поясе серии
+    const localFrom = new Date(from.getTime() + getTimezoneOffsetMs(from, this.timezone));
+    const result: Date[] = [];
+
+    for (let dayOffset = 0; dayOffset * DAY_MS <= to.getTime() - from.getTime() + DAY_MS; dayOffset++) {
+      const day = new Date(Date.UTC(localFrom.getUTCFullYear(), localFrom.getUTCMonth(), localFrom.getUTCDate() + dayOffset));
+      const isoWeekday = day.getUTCDay() === 0 ? 7 : day.getUTCDay();
+      if (!this.weekdays.includes(isoWeekday)) continue;
+
+      const startsAt = zonedTimeToUTC(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), hour, minute, this.timezone);
+      if (startsAt > from && startsAt <= to) {
+        result.push(startsAt);
+      }
+    }
+
+    return result;
+  }
+
+  // Останавливает серию: новые игры больше не создаются, созданные остаются
+  stop() { this._active = false; }
+}
@@ -8,27 +8,103 @@ export enum GameStatus {
 
 import { ERROR_CODES } from './errors.js';
 import { BusinessRuleError } from './errors/business-rule-error.js';
+import { amountPerPlayer, type GamePricing } from './pricing.js';
+import { ensureValidLevelRange, isLevelInRange } from './skill-level.js';
+
+// Допустимые переходы жизненного цикла: завершенная и отмененная игра - конечные состояния
+const GAME_STATUS_TRANSITIONS: Record<GameStatus, GameStatus[]> = {
+  [GameStatus.open]: [GameStatus.closed, GameStatus.finished, GameStatus.canceled],
+  [GameStatus.closed]: [GameStatus.finished, GameStatus.canceled],
+  [GameStatus.finished]: [],
+  [GameStatus.canceled]: [],
+};
+
+// Параметры игры, которые организатор может изменить после создания
+export interface GameEditableFields {
+  startsAt: Date;
+  capacity: number;
+  venueId: string;
+  levelTag?: string;
+  priceText?: string;
+  minLevel?: string | null; // null снимает ограничение
+  maxLevel?: string | null;
+}
+
+// Изменение одного поля: старое и новое значение (даты в ISO)
+export interface GameFieldChange {
+  from: string | number | null;
+  to: string | number | null;
+}
+
+// Diff изменений игры - только реально измененные поля
+export type GameChanges = Partial<Record<keyof GameEditableFields, GameFieldChange>>;
 
 // Доменная сущность "Игра" - Aggregate Root
 export class Game {
+  cancelReason?: string; // Причина отмены, указанная организатором
+  canceledAt?: Date; // Время отмены
+
   constructor(
     readonly id: string, // Уникальный идентификатор игры
     readonly organizerId: string, // ID организатора
-    readonly venueId: string, // ID площадки
+    public venueId: string, // ID площадки
     public startsAt: Date, // Время начала игры
     public capacity: number, // Максимальное количество участников
     public levelTag?: string, // Уровень игры (новичок/любитель/профи)
     public priceText?: string, // Стоимость участия
     private _status: GameStatus = GameStatus.open, // Текущий статус
+    readonly seriesId?: string, // ID серии, если игра создана по расписанию
+    public pricing?: GamePricing, // Структурированная цена (если сумму удалось определить)
+    public minLevel?: string, // Минимальный уровень игроков (включительно)
+    public maxLevel?: string, // Максимальный уровень игроков (включительно)
   ) {}
 
   get status(): GameStatus {
     return this._status;
   }
 
-  // Проверяет, открыто ли окно оплаты (после начала игры)
+  // Проверяет, открыто ли окно оплаты: после начала игры (даже если запись закрыта) или после ее завершения
   get isPaymentWindowOpen(): boolean {
-    return new Date() >= this.startsAt && (this.status === GameStatus.open || this.status === GameStatus.finished);
+    if (this.status === GameStatus.canceled) return false;
+    return this.status === GameStatus.finished || new Date() >= this.startsAt;
+  }
+
+  // Можно ли перевести игру в указанный статус
+  canTransitionTo(next: GameStatus): boolean {
+    return GAME_STATUS_TRANSITIONS[this.status].includes(next);
+  }
+
+  /**
+   * Когда запись закрывается автоматически
+   * @param minutesBeforeStart - За сколько минут до начала закрывается запись
+   */
+  registrationClosesAt(minutesBeforeStart: number): Date {
+    return new Date(this.startsAt.getTime() - minutesBeforeStart * 60 * 1000);
+  }
+
+  /**
+   * Когда игра завершается автоматически
+   * @param durationMinutes - Ожидаемая продолжительность игры
+   */
+  expectedEndAt(durationMinutes: number): Date {
+    return new Date(this.startsAt.getTime() + durationMinutes * 60 * 1000);
+  }
+
+  /**
+   * До какого момента игрок из листа ожидания может принять освободившееся место.
+   * Срок не выходит за начало игры; null - игра уже началась или закончилась, предлагать место поздно
+   * @param windowMinutes - Сколько минут дается на ответ
+   */
+  waitlistOfferExpiresAt(windowMinutes: number, now: Date = new Date()): Date | null {
+    if (this.status === GameStatus.finished || this.status === GameStatus.canceled || now >= this.startsAt) {
+      return null;
+    }
+    return new Date(Math.min(now.getTime() + windowMinutes * 60 * 1000, this.startsAt.getTime()));
+  }
+
+  // Сумма к оплате одним игроком при текущем числе подтвержденных; undefined - цена не задана
+  amountDue(confirmedCount: number): number | undefined {
+    return this.pricing ? amountPerPlayer(this.pricing, confirmedCount) : undefined;
   }
 
   // Бизнес-правило: проверка возможности записи на игру
@@ -39,8 +115,85 @@ export class Game {
     if (confirmedCount >= this.capacity) throw new BusinessRuleError(ERROR_CODES.CAPACITY_REACHED, 'Достигнута максимальная вместимость');
   }
 
+  // Бизнес-правило: уровень игрока должен попадать в ограничение игры
+  ensureLevelAllowed(playerLevel: string | null | undefined) {
+    if (!isLevelInRange(playerLevel, { minLevel: this.minLevel, maxLevel: this.maxLevel })) {
+      throw new BusinessRuleError(ERROR_CODES.LEVEL_NOT_ALLOWED, 'Ваш уровень не подходит для этой игры',
+        { gameId: this.id, playerLevel: playerLevel ?? null, minLevel: this.minLevel ?? null, maxLevel: this.maxLevel ?? null });
+    }
+  }
+
+  /**
+   * Бизнес-правило: применяет изменения параметров игры
+   * @param fields - Новые значения (незаданные поля не меняются)
+   * @param confirmedCount - Текущее количество подтвержденных участников
+   * @returns Diff реально измененных полей
+   */
+  applyChanges(fields: Partial<GameEditableFields>, confirmedCount: number): GameChanges {
+    if (this.status !== GameStatus.open && this.status !== GameStatus.closed) {
+      throw new BusinessRuleError(ERROR_CODES.GAME_NOT_EDITABLE, 'Завершенную или отмененную игру нельзя изменить');
+    }
+    if (this.startsAt <= new Date()) throw new BusinessRuleError(ERROR_CODES.GAME_ALREADY_STARTED, 'Игра уже началась');
+    if (fields.startsAt && fields.startsAt <= new Date()) {
+      throw new BusinessRuleError(ERROR_CODES.VALUE_OUT_OF_RANGE, 'Время игры не может быть в прошлом');
+    }
+    const minLevel = fields.minLevel === undefined ? this.minLevel : fields.minLevel ?? undefined;
+    const maxLevel = fields.maxLevel === undefined ? this.maxLevel : fields.maxLevel ?? undefined;
+    ensureValidLevelRange({ minLevel, maxLevel });
+    if (fields.capacity !== undefined && fields.capacity < confirmedCount) {
+      throw new BusinessRuleError(ERROR_CODES.CAPACITY_BELOW_CONFIRMED, `Нельзя уменьшить вместимость ниже числа записавшихся (${confirmedCount})`);
+    }
+
+    const changes: GameChanges = {};
+    if (fields.startsAt && fields.startsAt.getTime() !== this.startsAt.getTime()) {
+      changes.startsAt = { from: this.startsAt.toISOString(), to: fields.startsAt.toISOString() };
+      this.startsAt = fields.startsAt;
+    }
+    if (fields.capacity !== undefined && fields.capacity !== this.capacity) {
+      changes.capacity = { from: this.capacity, to: fields.capacity };
+      this.capacity = fields.capacity;
+    }
+    if (fields.venueId && fields.venueId !== this.venueId) {
+      changes.venueId = { from: this.venueId, to: fields.venueId };
+      this.venueId = fields.venueId;
+    }
+    if (fields.levelTag !== undefined && fields.levelTag !== this.levelTag) {
+      changes.levelTag = { from: this.levelTag ?? null, to: fields.levelTag };
+      this.levelTag = fields.levelTag;
+    }
+    if (fields.priceText !== undefined && fields.priceText !== this.priceText) {
+      changes.priceText = { from: this.priceText ?? null, to: fields.priceText };
+      this.priceText = fields.priceText;
+    }
+    // Границы уровня - одно ограничение: при изменении любой из них в diff попадают обе
+    if (minLevel !== this.minLevel || maxLevel !== this.maxLevel) {
+      changes.minLevel = { from: this.minLevel ?? null, to: minLevel ?? null };
+      changes.maxLevel = { from: this.maxLevel ?? null, to: maxLevel ?? null };
+      this.minLevel = minLevel;
+      this.maxLevel = maxLevel;
+    }
+
+    return changes;
+  }
+
   // Методы изменения статуса игры
-  close() { this._status = GameStatus.closed; }
-  finish() { this._status = GameStatus.finished; }
-  cancel() { this._status = GameStatus.canceled; }
+  close() { this.transitionTo(GameStatus.closed); }
+  finish() { this.transitionTo(GameStatus.finished); }
+  cancel(reason?: string) {
+    if (!this.canTransitionTo(GameStatus.canceled)) {
+      throw new BusinessRuleError(ERROR_CODES.GAME_NOT_CANCELABLE, 'Завершенную или уже отмененную игру нельзя отменить');
+    }
+    this._status = GameStatus.canceled;
+    this.cancelReason = reason;
+    this.canceledAt = new Date();
+  }
+
+  // Бизнес-правило: переход только по разрешенным ребрам жизненного цикла
+  private transitionTo(next: GameStatus) {
+    if (!this.canTransitionTo(next)) {
+      throw new BusinessRuleError(ERROR_CODES.ILLEGAL_STATUS_TRANSITION, `Игру в статусе ${this.status} нельзя перевести в статус ${next}`,
+        { gameId: this.id, from: this.status, to: next });
+    }
+    this._status = next;
+  }
 }
\ No newline at end of file
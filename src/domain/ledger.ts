@@ -0,0 +1,47 @@
+import { ValidationError } from './errors/validation-error.js';
+
+// Тип движения по балансу игрока у организатора
+export enum LedgerEntryType {
+  deposit = 'deposit', // Предоплата игрока
+  game_charge = 'game_charge', // Списание за сыгранную игру
+  refund = 'refund', // Возврат на баланс
+  adjustment = 'adjustment' // Ручная корректировка организатором
+}
+
+// Типы, которые организатор вносит вручную; списания и возвраты за игры создает система
+export type ManualLedgerEntryType = LedgerEntryType.deposit | LedgerEntryType.refund | LedgerEntryType.adjustment;
+export const MANUAL_LEDGER_ENTRY_TYPES: ManualLedgerEntryType[] = [LedgerEntryType.deposit, LedgerEntryType.refund, LedgerEntryType.adjustment];
+
+/**
+ * Сумма записи со знаком, с которым она входит в баланс
+ * Пополнение и возврат всегда увеличивают баланс, списание уменьшает, корректировка - в обе стороны
+ * @param amount - Сумма в минимальных единицах валюты; знак учитывается только у корректировки
+ * @throws ValidationError если сумма не целая или равна нулю
+ */
+export function signedLedgerAmount(type: LedgerEntryType, amount: number): number {
+  if (!Number.isInteger(amount) || amount === 0) {
+    throw new ValidationError('amount', amount, 'non_zero_integer');
+  }
+  switch (type) {
+    case LedgerEntryType.deposit:
+    case LedgerEntryType.refund:
+      return Math.abs(amount);
+    case LedgerEntryType.game_charge:
+      return -Math.abs(amount);
+    case LedgerEntryType.adjustment:
+      return amount;
+  }
+}
+
+/**
+ * Разбирает ввод организатора "1500" / "-200,50 ошибка в прошлый раз" в сумму (в минимальных единицах) и комментарий
+ * @returns undefined, если ввод не начинается с суммы
+ */
+export function parseLedgerInput(text: string): { amount: number; note?: string } | undefined {
+  const match = /^\s*([+-]?)(\d+)(?:[.,](\d{1,2}))?(?:\s+(.+))?\s*$/s.exec(text);
+  if (!match) return undefined;
+  const amount = parseInt(match[2]!, 10) * 100 + (match[3] ? parseInt(match[3].padEnd(2, '0'), 10) : 0);
+  if (amount === 0) return undefined;
+  const note = match[4]?.trim();
+  return { amount: match[1] === '-' ? -amount : amount, ...(note ? { note } : {}) };
+}
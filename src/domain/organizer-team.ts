@@ -0,0 +1,31 @@
+// Роль участника в команде организатора
+export enum OrganizerRole {
+  owner = 'owner', // Создатель профиля организатора
+  co_organizer = 'co_organizer', // Соорганизатор
+  treasurer = 'treasurer' // Казначей
+}
+
+// Действия, на которые проверяется роль
+export enum TeamPermission {
+  manageGames = 'manageGames', // Создание, изменение, закрытие и отмена игр, площадки и серии
+  managePlayers = 'managePlayers', // Подтверждение и отклонение игроков
+  managePayments = 'managePayments', // Оплаты участников и балансы игроков
+  manageTeam = 'manageTeam' // Состав команды и группа клуба
+}
+
+const ROLE_PERMISSIONS: Record<OrganizerRole, TeamPermission[]> = {
+  [OrganizerRole.owner]: [TeamPermission.manageGames, TeamPermission.managePlayers, TeamPermission.managePayments, TeamPermission.manageTeam],
+  [OrganizerRole.co_organizer]: [TeamPermission.manageGames, TeamPermission.managePlayers, TeamPermission.managePayments],
+  [OrganizerRole.treasurer]: [TeamPermission.managePayments]
+};
+
+// Роли, которые владелец назначает участникам; владелец у команды один
+export type AssignableOrganizerRole = OrganizerRole.co_organizer | OrganizerRole.treasurer;
+export const ASSIGNABLE_ORGANIZER_ROLES: AssignableOrganizerRole[] = [OrganizerRole.co_organizer, OrganizerRole.treasurer];
+
+/**
+ * Разрешено ли роли действие
+ */
+export function hasTeamPermission(role: OrganizerRole, permission: TeamPermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,86 @@
+// Способ расчета стоимости участия
+export enum PricingMode {
+  per_player = 'per_player', // Фиксированная цена с каждого игрока
+  split_total = 'split_total' // Аренда корта делится поровну между подтвержденными игроками
+}
+
+// Структурированная цена игры
+export interface GamePricing {
+  mode: PricingMode;
+  amount: number; // Сумма в минимальных единицах валюты (копейки, центы)
+  currency: string; // Код валюты ISO 4217
+}
+
+// Обозначения валют в свободном тексте цены
+const CURRENCY_PATTERNS: Array<[RegExp, string]> = [
+  [/₽|руб|\brub\b|(?:^|[\s\d])р\.?(?=\s|$)/i, 'RUB'],
+  [/\$|\busd\b|долл/i, 'USD'],
+  [/€|\beur\b|евро/i, 'EUR'],
+];
+
+// Признаки того, что указана общая стоимость аренды, а не цена с игрока
+const SPLIT_TOTAL_PATTERN = /на\s+всех|аренд|за\s+корт|\bsplit\b|\btotal\b|\brent\b|per\s+court/i;
+
+// Число с разделителем тысяч (пробел) и дробной частью через точку или запятую
+const AMOUNT_PATTERN = /(\d{1,3}(?:[ \u00a0]\d{3})+|\d+)(?:[.,](\d{1,2}))?/g;
+
+/**
+ * Количество знаков минимальной единицы валюты: у RUB и USD - 2, у JPY - 0, у KWD - 3
+ */
+export function currencyFractionDigits(currency: string): number {
+  return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/**
+ * Известен ли код валюты ISO 4217
+ */
+export function isSupportedCurrency(currency: string): boolean {
+  return Intl.supportedValuesOf('currency').includes(currency);
+}
+
+/**
+ * Переводит сумму в основных единицах валюты (150.5 ₽) в минимальные (15050 копеек)
+ */
+export function toMinorUnits(value: number, currency: string): number {
+  return Math.round(value * 10 ** currencyFractionDigits(currency));
+}
+
+/**
+ * Разбирает свободный текст цены ("150₽", "3000 руб аренда на всех", "$10").
+ * Используется, только если цена не задана явно: текст с несколькими числами ("2 часа 600₽") неоднозначен
+ * и не разбирается
+ * @param defaultCurrency - Валюта, если в тексте она не указана
+ * @returns Структурированная цена или undefined, если в тексте нет суммы или сумма неоднозначна
+ */
+export function parsePriceText(text: string | undefined, defaultCurrency: string): GamePricing | undefined {
+  if (!text) return undefined;
+  const matches = [...text.matchAll(AMOUNT_PATTERN)];
+  if (matches.length !== 1) return undefined;
+  const [, whole, fraction] = matches[0]!;
+
+  const currency = CURRENCY_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? defaultCurrency;
+  const amount = toMinorUnits(Number(`${whole!.replace(/[ \u00a0]/g, '')}.${fraction ?? '0'}`), currency);
+  if (amount <= 0) return undefined;
+
+  const mode = SPLIT_TOTAL_PATTERN.test(text) ? PricingMode.split_total : PricingMode.per_player;
+  return { mode, amount, currency };
+}
+
+/**
+ * Сумма к оплате одним игроком
+ * Общая аренда делится на подтвержденных игроков с округлением вверх до целой минимальной единицы,
+ * чтобы собранная сумма покрывала аренду
+ * @param confirmedCount - Количество подтвержденных игроков
+ */
+export function amountPerPlayer(pricing: GamePricing, confirmedCount: number): number {
+  if (pricing.mode === PricingMode.per_player) return pricing.amount;
+  return Math.ceil(pricing.amount / Math.max(confirmedCount, 1));
+}
+
+/**
+ * Восстанавливает цену из сохраненных полей игры; undefined - цена не структурирована
+ */
+export function toGamePricing(record: { pricingMode: string | null; priceAmount: number | null; currency: string | null }): GamePricing | undefined {
+  if (!record.pricingMode || record.priceAmount === null || !record.currency) return undefined;
+  return { mode: record.pricingMode as PricingMode, amount: record.priceAmount, currency: record.currency };
+}
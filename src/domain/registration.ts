@@ -1,14 +1,21 @@
 export enum RegStatus {
   confirmed = 'confirmed',
   waitlisted = 'waitlisted',
+  offered = 'offered', // Место из листа ожидания предложено игроку и держится до ответа
   canceled = 'canceled'
 }
 
 export enum PaymentStatus {
   unpaid = 'unpaid',
-  paid = 'paid'
+  paid = 'paid',
+  refund_due = 'refund_due', // Игра отменена после оплаты
+  disputed = 'disputed' // Организатор оспорил оплату
 }
 
+// Статусы, которые организатор может выставить вручную
+export type PaymentOverrideStatus = PaymentStatus.paid | PaymentStatus.unpaid | PaymentStatus.disputed;
+export const PAYMENT_OVERRIDE_STATUSES: PaymentOverrideStatus[] = [PaymentStatus.paid, PaymentStatus.unpaid, PaymentStatus.disputed];
+
 import { ERROR_CODES } from './errors.js';
 import { BusinessRuleError } from './errors/business-rule-error.js';
 import type { Game } from './game.js';
@@ -22,20 +29,134 @@ export class Registration {
     public paymentStatus: PaymentStatus = PaymentStatus.unpaid,
     public paymentMarkedAt?: Date,
     readonly createdAt: Date = new Date(),
+    public amountPaid?: number, // Сколько заплачено (в минимальных единицах валюты игры)
+    public offerExpiresAt?: Date, // Срок ответа на предложенное место
   ) {}
 
   get status(): RegStatus {
     return this._status;
   }
 
-  markPaid(game: Game) {
+  /**
+   * Отметка оплаты игроком
+   * @param amountDue - Текущая доля игрока; undefined - цена игры не задана
+   */
+  markPaid(game: Game, amountDue?: number) {
     if (!game.isPaymentWindowOpen) throw new BusinessRuleError(ERROR_CODES.PAYMENT_WINDOW_NOT_OPEN, 'Окно оплаты еще не открыто');
     if (this.status !== RegStatus.confirmed) throw new BusinessRuleError(ERROR_CODES.NOT_CONFIRMED, 'Только подтвержденные участники могут отмечать оплату');
+    if (this.paymentStatus === PaymentStatus.disputed) throw new BusinessRuleError(ERROR_CODES.PAYMENT_DISPUTED, 'Оплата оспорена организатором - свяжись с ним');
+    this.paymentStatus = PaymentStatus.paid;
+    this.paymentMarkedAt = new Date();
+    this.amountPaid = amountDue;
+  }
+
+  /**
+   * Бизнес-правило: можно ли оплатить участие онлайн
+   * Окно оплаты не проверяется - онлайн можно оплатить заранее
+   */
+  ensureCanPayOnline() {
+    if (this.status !== RegStatus.confirmed) throw new BusinessRuleError(ERROR_CODES.NOT_CONFIRMED, 'Только подтвержденные участники могут оплатить игру');
+    if (this.paymentStatus === PaymentStatus.paid) throw new BusinessRuleError(ERROR_CODES.PAYMENT_ALREADY_MARKED, 'Оплата уже отмечена');
+    if (this.paymentStatus === PaymentStatus.refund_due) throw new BusinessRuleError(ERROR_CODES.INVALID_STATE, 'Игра отменена: оплату нужно вернуть');
+    if (this.paymentStatus === PaymentStatus.disputed) throw new BusinessRuleError(ERROR_CODES.PAYMENT_DISPUTED, 'Оплата оспорена организатором - свяжись с ним');
+  }
+
+  /**
+   * Оплата, подтвержденная платежным провайдером. Деньги уже списаны, поэтому правила не проверяются:
+   * повторная оплата добавляется к оплаченной сумме, а запись отмененной игры остается к возврату
+   * @param amount - Фактически списанная сумма
+   */
+  markPaidOnline(amount: number) {
+    if (this.paymentStatus === PaymentStatus.paid || this.paymentStatus === PaymentStatus.refund_due) {
+      this.amountPaid = (this.amountPaid ?? 0) + amount;
+      return;
+    }
+    this.paymentStatus = PaymentStatus.paid;
+    this.paymentMarkedAt = new Date();
+    this.amountPaid = amount;
+  }
+
+  /**
+   * Бизнес-правило: можно ли списать оплату с баланса игрока у организатора
+   * Списывается только за подтвержденное и еще не оплаченное участие
+   */
+  canPayFromBalance(): boolean {
+    return this.status === RegStatus.confirmed && this.paymentStatus === PaymentStatus.unpaid;
+  }
+
+  /**
+   * Оплата списанием с баланса игрока
+   * @param amount - Списанная сумма
+   */
+  markPaidFromBalance(amount: number) {
+    if (!this.canPayFromBalance()) throw new BusinessRuleError(ERROR_CODES.INVALID_STATE, 'Списать с баланса можно только неоплаченное участие');
     this.paymentStatus = PaymentStatus.paid;
     this.paymentMarkedAt = new Date();
+    this.amountPaid = amount;
   }
 
-  cancel() { this._status = RegStatus.canceled; }
+  /**
+   * Ручная установка статуса оплаты организатором: оплата наличными, отмена ошибочной отметки, спор.
+   * Окно оплаты не проверяется - организатор фиксирует уже свершившийся факт
+   */
+  overridePayment(status: PaymentOverrideStatus, amountDue?: number) {
+    if (this.status !== RegStatus.confirmed) throw new BusinessRuleError(ERROR_CODES.NOT_CONFIRMED, 'Статус оплаты можно менять только подтвержденным участникам');
+    if (this.paymentStatus === PaymentStatus.refund_due) throw new BusinessRuleError(ERROR_CODES.INVALID_STATE, 'Игра отменена: оплату нужно вернуть');
+    if (status === PaymentStatus.paid && this.paymentStatus !== PaymentStatus.paid) {
+      this.paymentMarkedAt = new Date();
+      this.amountPaid = amountDue;
+    }
+    if (status === PaymentStatus.unpaid) {
+      this.paymentMarkedAt = undefined;
+      this.amountPaid = undefined;
+    }
+    this.paymentStatus = status;
+  }
+
+  cancel() {
+    this._status = RegStatus.canceled;
+    this.offerExpiresAt = undefined;
+  }
+
+  /**
+   * Предложение освободившегося места игроку из листа ожидания
+   * Место держится за игроком до ответа или до истечения срока
+   */
+  offerSpot(expiresAt: Date) {
+    if (this.status !== RegStatus.waitlisted) throw new BusinessRuleError(ERROR_CODES.INVALID_STATE, 'Место можно предложить только игроку из листа ожидания');
+    this._status = RegStatus.offered;
+    this.offerExpiresAt = expiresAt;
+  }
+
+  isOfferExpired(now: Date = new Date()): boolean {
+    return this.status === RegStatus.offered && !!this.offerExpiresAt && this.offerExpiresAt <= now;
+  }
+
+  /**
+   * Игрок принимает предложенное место и переходит в основной состав
+   */
+  acceptOffer(now: Date = new Date()) {
+    if (this.status !== RegStatus.offered) throw new BusinessRuleError(ERROR_CODES.NO_WAITLIST_OFFER, 'Место не предлагалось или предложение уже закрыто');
+    if (this.isOfferExpired(now)) throw new BusinessRuleError(ERROR_CODES.WAITLIST_OFFER_EXPIRED, 'Срок ответа на предложение истек');
+    this._status = RegStatus.confirmed;
+    this.offerExpiresAt = undefined;
+  }
+
+  /**
+   * Отказ от предложенного места или истечение срока ответа: запись отменяется, место переходит следующему.
+   * Вернуться можно повторной записью на игру
+   */
+  declineOffer() {
+    if (this.status !== RegStatus.offered) throw new BusinessRuleError(ERROR_CODES.NO_WAITLIST_OFFER, 'Место не предлагалось или предложение уже закрыто');
+    this.cancel();
+  }
+
+  // При отмене игры оплаченная запись требует возврата денег
+  markRefundDue() {
+    if (this.paymentStatus === PaymentStatus.paid) {
+      this.paymentStatus = PaymentStatus.refund_due;
+    }
+  }
 
   reactivate(newStatus: RegStatus) {
     this._status = newStatus;
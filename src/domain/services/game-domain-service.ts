@@ -1,13 +1,18 @@
-import { GameRepo, RegistrationRepo } from '../../infrastructure/repositories/index.js';
+import { GameRepo, RegistrationRepo, UserRepo } from '../../infrastructure/repositories/index.js';
 import { BusinessRuleError } from '../errors/business-rule-error.js';
 import { RegStatus } from '../registration.js';
 import { v4 as uuid } from 'uuid';
 import { Registration } from '../registration.js';
 
+export interface JoinGameOptions {
+  ignoreLevel?: boolean; // Организатор записывает игрока в обход ограничения уровня
+}
+
 export class GameDomainService {
   constructor(
     private gameRepo: GameRepo,
-    private registrationRepo: RegistrationRepo
+    private registrationRepo: RegistrationRepo,
+    private userRepo: UserRepo
   ) {}
 
   async validatePaymentMarking(gameId: string, userId: string) {
@@ -27,7 +32,7 @@ export class GameDomainService {
     return { game, registration };
   }
 
-  async processJoinGame(gameId: string, userId: string) {
+  async processJoinGame(gameId: string, userId: string, options: JoinGameOptions = {}) {
     // Advisory lock уже в repo.transaction
     const game = await this.gameRepo.findById(gameId);
     if (!game) throw new BusinessRuleError('NOT_FOUND', 'Игра не найдена');
@@ -37,22 +42,29 @@ export class GameDomainService {
       throw new BusinessRuleError('GAME_NOT_OPEN', 'Игра не открыта для записи');
     }
 
-    const confirmedCount = await this.gameRepo.countConfirmed(gameId);
+    // Предложенные игрокам из листа ожидания места заняты до их ответа
+    const occupiedCount = await this.gameRepo.countOccupied(gameId);
     const existing = await this.registrationRepo.get(gameId, userId);
 
     if (existing && existing.status === RegStatus.confirmed) {
       throw new BusinessRuleError('ALREADY_REGISTERED', 'Вы уже зарегистрированы на эту игру');
     }
 
-    if (existing && existing.status === RegStatus.waitlisted) {
+    if (existing && (existing.status === RegStatus.waitlisted || existing.status === RegStatus.offered)) {
       return { status: existing.status, isReactivation: false };
     }
 
+    // Ограничение уровня проверяется и для листа ожидания: место потом все равно не достанется
+    if (!options.ignoreLevel) {
+      const player = await this.userRepo.findLevel(userId);
+      game.ensureLevelAllowed(player?.levelTag);
+    }
+
     // Если canceled или не существует, создаем/обновляем регистрацию
-    const status = confirmedCount < game.capacity ? RegStatus.confirmed : RegStatus.waitlisted;
+    const status = occupiedCount < game.capacity ? RegStatus.confirmed : RegStatus.waitlisted;
 
     if (status === RegStatus.confirmed) {
-      game.ensureCanJoin(confirmedCount);
+      game.ensureCanJoin(occupiedCount);
     }
 
     let isReactivation = false;
@@ -0,0 +1,55 @@
+import { ERROR_CODES } from './errors.js';
+import { BusinessRuleError } from './errors/business-rule-error.js';
+
+// Уровень игры игрока, по возрастанию (ID совпадают с GAME_LEVELS)
+export enum SkillLevel {
+  novice = 'novice',
+  amateur = 'amateur',
+  experienced = 'experienced',
+  pro = 'pro'
+}
+
+export const SKILL_LEVELS: readonly SkillLevel[] = [SkillLevel.novice, SkillLevel.amateur, SkillLevel.experienced, SkillLevel.pro];
+
+// Ограничение уровня игроков на игру; незаданная граница не ограничивает
+export interface LevelRange {
+  minLevel?: string;
+  maxLevel?: string;
+}
+
+export function isSkillLevel(value: string): value is SkillLevel {
+  return (SKILL_LEVELS as string[]).includes(value);
+}
+
+/**
+ * Сравнивает уровни: < 0, если a ниже b
+ */
+export function compareSkillLevels(a: SkillLevel, b: SkillLevel): number {
+  return SKILL_LEVELS.indexOf(a) - SKILL_LEVELS.indexOf(b);
+}
+
+/**
+ * Подходит ли уровень игрока под ограничение игры
+ * Игрок без уровня (или с неизвестным уровнем) проходит только игры без ограничения
+ */
+export function isLevelInRange(level: string | null | undefined, range: LevelRange): boolean {
+  if (!range.minLevel && !range.maxLevel) return true;
+  if (!level || !isSkillLevel(level)) return false;
+  if (range.minLevel && isSkillLevel(range.minLevel) && compareSkillLevels(level, range.minLevel) < 0) return false;
+  if (range.maxLevel && isSkillLevel(range.maxLevel) && compareSkillLevels(level, range.maxLevel) > 0) return false;
+  return true;
+}
+
+/**
+ * Бизнес-правило: границы ограничения - известные уровни, минимальный не выше максимального
+ */
+export function ensureValidLevelRange(range: LevelRange) {
+  for (const level of [range.minLevel, range.maxLevel]) {
+    if (level && !isSkillLevel(level)) {
+      throw new BusinessRuleError(ERROR_CODES.INVALID_INPUT, `Неизвестный уровень: ${level}`);
+    }
+  }
+  if (range.minLevel && range.maxLevel && compareSkillLevels(range.minLevel as SkillLevel, range.maxLevel as SkillLevel) > 0) {
+    throw new BusinessRuleError(ERROR_CODES.VALUE_OUT_OF_RANGE, 'Минимальный уровень выше максимального');
+  }
+}
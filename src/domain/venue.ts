@@ -0,0 +1,45 @@
+import { ERROR_CODES } from './errors.js';
+import { BusinessRuleError } from './errors/business-rule-error.js';
+
+// Доменная сущность "Площадка"
+export class Venue {
+  constructor(
+    readonly id: string, // Уникальный идентификатор площадки
+    readonly organizerId: string | null, // ID организатора-владельца (null - общая площадка)
+    public name: string, // Название площадки
+    public address?: string, // Адрес
+    public courtCount: number = 1, // Количество кортов
+    public isIndoor: boolean = true, // Зал или открытая площадка
+    public defaultPriceText?: string, // Стоимость по умолчанию для новых игр
+    public defaultCapacity: number = 12, // Вместимость по умолчанию для новых игр
+    private _archivedAt: Date | null = null, // Время архивации (мягкое удаление)
+  ) {}
+
+  get archivedAt(): Date | null {
+    return this._archivedAt;
+  }
+
+  get isArchived(): boolean {
+    return this._archivedAt !== null;
+  }
+
+  // Общие площадки доступны всем, собственные - только владельцу
+  isAvailableTo(organizerId: string): boolean {
+    return this.organizerId === null || this.organizerId === organizerId;
+  }
+
+  // Бизнес-правило: проверка возможности управлять площадкой
+  ensureCanManage(organizerId: string) {
+    if (this.organizerId !== organizerId) throw new BusinessRuleError(ERROR_CODES.FORBIDDEN, 'Можно изменять только свои площадки');
+    if (this.isArchived) throw new BusinessRuleError(ERROR_CODES.VENUE_ARCHIVED, 'Площадка уже удалена');
+  }
+
+  // Бизнес-правило: проверка возможности создать игру на площадке
+  ensureCanHostGame(organizerId: string) {
+    if (this.isArchived) throw new BusinessRuleError(ERROR_CODES.VENUE_ARCHIVED, 'Площадка удалена и недоступна для новых игр');
+    if (!this.isAvailableTo(organizerId)) throw new BusinessRuleError(ERROR_CODES.FORBIDDEN, 'Площадка принадлежит другому организатору');
+  }
+
+  // Архивирует площадку; уже созданные игры сохраняют ссылку на нее
+  archive() { this._archivedAt = new Date(); }
+}
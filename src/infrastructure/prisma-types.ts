@@ -6,6 +6,8 @@ export type User = {
   telegramId: bigint;
   name: string;
   levelTag: string | null;
+  timezone: string;
+  locale: string;
   createdAt: Date;
 };
 
@@ -16,6 +18,19 @@ export type Organizer = {
   description: string | null;
 };
 
+export type Venue = {
+  id: string;
+  organizerId: string | null;
+  name: string;
+  address: string | null;
+  courtCount: number;
+  isIndoor: boolean;
+  defaultPriceText: string | null;
+  defaultCapacity: number;
+  archivedAt: Date | null;
+  createdAt: Date;
+};
+
 export type Game = {
   id: string;
   organizerId: string;
@@ -39,7 +54,7 @@ export type Registration = {
 };
 
 export type GameStatus = 'open' | 'closed' | 'finished' | 'canceled';
-export type RegStatus = 'confirmed' | 'waitlisted' | 'canceled';
+export type RegStatus = 'confirmed' | 'waitlisted' | 'offered' | 'canceled';
 export type PaymentStatus = 'unpaid' | 'paid';
 
 // Extended types with relations
@@ -51,6 +66,7 @@ export type GameWithRelations = Game & {
   organizer: Organizer & {
     user: User;
   };
+  venue: Venue;
   registrations: (Registration & {
     user: User;
   })[];
@@ -75,7 +91,6 @@ export interface TypedRegistrationRepo {
   get(gameId: string, userId: string): Promise<Registration | null>;
   upsert(reg: Registration): Promise<void>;
   firstWaitlisted(gameId: string): Promise<Registration | null>;
-  promoteToConfirmed(regId: string): Promise<void>;
 }
 
 // Prisma client instance type
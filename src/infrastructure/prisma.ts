@@ -1,4 +1,5 @@
-import { PrismaClient } from '@prisma/client';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { PrismaClient, Prisma } from '@prisma/client';
 
 const globalForPrisma = globalThis as unknown as {
   prisma: PrismaClient | undefined;
@@ -6,4 +7,51 @@ const globalForPrisma = globalThis as unknown as {
 
 export const prisma = globalForPrisma.prisma ?? new PrismaClient();
 
-if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma;
\ No newline at end of file
+if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma;
+
+export type DbClient = PrismaClient | Prisma.TransactionClient;
+
+interface TransactionContext {
+  tx: Prisma.TransactionClient;
+  afterCommit: Array<() => Promise<void>>;
+}
+
+const transactionStorage = new AsyncLocalStorage<TransactionContext>();
+
+/**
+ * Клиент для запросов: внутри runInTransaction - клиент текущей транзакции, иначе общий
+ */
+export function getDb(): DbClient {
+  return transactionStorage.getStore()?.tx ?? prisma;
+}
+
+/**
+ * Выполняет функцию в транзакции; репозитории внутри нее пишут через getDb() в ту же транзакцию.
+ * Вложенный вызов присоединяется к внешней транзакции
+ */
+export async function runInTransaction<T>(fn: () => Promise<T>): Promise<T> {
+  if (transactionStorage.getStore()) {
+    return fn();
+  }
+
+  const afterCommit: TransactionContext['afterCommit'] = [];
+  const result = await prisma.$transaction(tx => transactionStorage.run({ tx, afterCommit }, fn));
+
+  for (const callback of afterCommit) {
+    await callback();
+  }
+  return result;
+}
+
+/**
+ * Откладывает действие до коммита текущей транзакции; вне транзакции выполняет сразу.
+ * При откате транзакции действие не выполняется
+ */
+export async function onCommit(callback: () => Promise<void>): Promise<void> {
+  const context = transactionStorage.getStore();
+  if (context) {
+    context.afterCommit.push(callback);
+    return;
+  }
+  await callback();
+}
@@ -1,6 +1,7 @@
-import { prisma } from '../prisma.js';
+import { runInTransaction } from '../prisma.js';
 import { LoggerFactory } from '../../shared/layer-logger.js';
 import { InputValidator } from '../../shared/input-validator.js';
+import { withSpan, SpanKind } from '../../shared/tracing.js';
 
 /**
  * Базовый класс для всех репозиториев Prisma
@@ -9,22 +10,23 @@ import { InputValidator } from '../../shared/input-validator.js';
 export abstract class BasePrismaRepository {
   protected readonly logger;
 
-  constructor(component: string) {
+  constructor(private readonly component: string) {
     this.logger = LoggerFactory.repository(component);
   }
 
   /**
    * Выполняет функцию в транзакции Prisma.
    * Используется для обеспечения ACID-свойств при операциях с несколькими таблицами.
+   * Запросы репозиториев внутри fn выполняются в этой же транзакции
    * @param fn - Функция, выполняемая в транзакции
    * @returns Результат выполнения функции
    */
   protected async transaction<T>(fn: () => Promise<T>): Promise<T> {
-    return prisma.$transaction(fn);
+    return runInTransaction(fn);
   }
 
   /**
-   * Выполняет операцию с логированием и обработкой ошибок
+   * Выполняет операцию с логированием и обработкой ошибок в отдельном спане трассировки
    * @param operation - Название операции
    * @param table - Название таблицы
    * @param action - Действие (SELECT, INSERT, UPDATE, DELETE)
@@ -39,16 +41,22 @@ export abstract class BasePrismaRepository {
     params: any,
     fn: () => Promise<T>
   ): Promise<T> {
-    this.logger.database(operation, table, action, params);
+    return withSpan(`repository ${this.component}.${operation}`, {
+      'db.system': 'postgresql',
+      'db.operation': action,
+      'db.sql.table': table
+    }, async () => {
+      this.logger.database(operation, table, action, params);
 
-    try {
-      const result = await fn();
-      this.logger.info(operation, `${action} успешно завершено`, params);
-      return result;
-    } catch (error) {
-      this.logger.error(operation, `Ошибка при выполнении ${action.toLowerCase()}`, error as Error, params);
-      throw error;
-    }
+      try {
+        const result = await fn();
+        this.logger.info(operation, `${action} успешно завершено`, params);
+        return result;
+      } catch (error) {
+        this.logger.error(operation, `Ошибка при выполнении ${action.toLowerCase()}`, error as Error, params);
+        throw error;
+      }
+    }, { kind: SpanKind.CLIENT });
   }
 
   /**
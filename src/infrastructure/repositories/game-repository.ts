@@ -1,6 +1,7 @@
 import { Game, GameStatus } from '../../domain/game.js';
+import { toGamePricing } from '../../domain/pricing.js';
 import { BasePrismaRepository } from './base-repository.js';
-import { prisma } from '../prisma.js';
+import { getDb } from '../prisma.js';
 
 /**
  * Интерфейс репозитория для работы с играми
@@ -20,6 +21,13 @@ export interface GameRepo {
    */
   countConfirmed(gameId: string): Promise<number>;
 
+  /**
+   * Подсчитывает занятые места: подтвержденные регистрации и места, предложенные игрокам из листа ожидания
+   * @param gameId - Идентификатор игры
+   * @returns Количество занятых мест
+   */
+  countOccupied(gameId: string): Promise<number>;
+
   /**
    * Создает новую игру
    * @param g - Объект игры для создания
@@ -33,6 +41,35 @@ export interface GameRepo {
    */
   updateStatus(gameId: string, status: GameStatus): Promise<void>;
 
+  /**
+   * Переводит игру в новый статус, только если текущий статус не изменился
+   * @param gameId - Идентификатор игры
+   * @param from - Ожидаемый текущий статус
+   * @param to - Новый статус
+   * @returns false, если статус уже изменен другим процессом
+   */
+  transitionStatus(gameId: string, from: GameStatus, to: GameStatus): Promise<boolean>;
+
+  /**
+   * Находит игры в указанных статусах, которые начинаются раньше заданного времени
+   * @param statuses - Статусы игр
+   * @param before - Граница времени начала
+   * @returns Идентификаторы игр
+   */
+  findIdsStartingBefore(statuses: GameStatus[], before: Date): Promise<string[]>;
+
+  /**
+   * Сохраняет отмену игры: статус, причину и время отмены
+   * @param g - Отмененная игра
+   */
+  saveCancellation(g: Game): Promise<void>;
+
+  /**
+   * Сохраняет изменяемые параметры игры: время, вместимость, площадку, уровень и цену
+   * @param g - Измененная игра
+   */
+  updateDetails(g: Game): Promise<void>;
+
   /**
    * Обновляет время закрытия приоритетного окна
    * @param gameId - Идентификатор игры
@@ -44,9 +81,10 @@ export interface GameRepo {
    * Ищет конфликтующие игры на той же площадке в заданное время
    * @param venueId - Идентификатор площадки
    * @param startsAt - Время начала игры
+   * @param excludeGameId - Игра, которую не учитывать (при изменении существующей игры)
    * @returns Конфликтующая игра или null
    */
-  findConflictingGame(venueId: string, startsAt: Date): Promise<Game | null>;
+  findConflictingGame(venueId: string, startsAt: Date, excludeGameId?: string): Promise<Game | null>;
 
   /**
    * Выполняет функцию в транзакции
@@ -74,7 +112,7 @@ export class PrismaGameRepo extends BasePrismaRepository implements GameRepo {
     this.validateRequired(id, 'id');
 
     return this.executeWithLogging('findById', 'games', 'SELECT', { id }, async () => {
-      const game = await prisma.game.findUnique({ where: { id } });
+      const game = await getDb().game.findUnique({ where: { id } });
       if (!game) return null;
 
       return new Game(
@@ -85,7 +123,11 @@ export class PrismaGameRepo extends BasePrismaRepository implements GameRepo {
         game.capacity,
         game.levelTag || undefined,
         game.priceText || undefined,
-        game.status as GameStatus
+        game.status as GameStatus,
+        game.seriesId || undefined,
+        toGamePricing(game),
+        game.minLevel || undefined,
+        game.maxLevel || undefined
       );
     });
   }
@@ -97,12 +139,25 @@ export class PrismaGameRepo extends BasePrismaRepository implements GameRepo {
     this.validateRequired(gameId, 'gameId');
 
     return this.executeWithLogging('countConfirmed', 'registrations', 'COUNT', { gameId }, async () => {
-      return prisma.registration.count({
+      return getDb().registration.count({
         where: { gameId, status: 'confirmed' }
       });
     });
   }
 
+  /**
+   * @inheritDoc
+   */
+  async countOccupied(gameId: string): Promise<number> {
+    this.validateRequired(gameId, 'gameId');
+
+    return this.executeWithLogging('countOccupied', 'registrations', 'COUNT', { gameId }, async () => {
+      return getDb().registration.count({
+        where: { gameId, status: { in: ['confirmed', 'offered'] } }
+      });
+    });
+  }
+
   /**
    * @inheritDoc
    */
@@ -122,9 +177,11 @@ export class PrismaGameRepo extends BasePrismaRepository implements GameRepo {
       capacity: g.capacity,
       levelTag: g.levelTag,
       priceText: g.priceText,
-      status: g.status
+      pricing: g.pricing,
+      status: g.status,
+      seriesId: g.seriesId
     }, async () => {
-      await prisma.game.create({
+      await getDb().game.create({
         data: {
           id: g.id,
           organizerId: g.organizerId,
@@ -133,7 +190,13 @@ export class PrismaGameRepo extends BasePrismaRepository implements GameRepo {
           capacity: g.capacity,
           levelTag: g.levelTag,
           priceText: g.priceText,
-          status: g.status as GameStatus
+          pricingMode: g.pricing?.mode ?? null,
+          priceAmount: g.pricing?.amount ?? null,
+          currency: g.pricing?.currency ?? null,
+          status: g.status as GameStatus,
+          seriesId: g.seriesId ?? null,
+          minLevel: g.minLevel ?? null,
+          maxLevel: g.maxLevel ?? null
         }
       });
     });
@@ -147,13 +210,90 @@ export class PrismaGameRepo extends BasePrismaRepository implements GameRepo {
     this.validateEnum(status, 'status', Object.values(GameStatus));
 
     await this.executeWithLogging('updateStatus', 'games', 'UPDATE', { gameId, status }, async () => {
-      await prisma.game.update({
+      await getDb().game.update({
         where: { id: gameId },
         data: { status }
       });
     });
   }
 
+  /**
+   * @inheritDoc
+   */
+  async transitionStatus(gameId: string, from: GameStatus, to: GameStatus): Promise<boolean> {
+    this.validateRequired(gameId, 'gameId');
+    this.validateEnum(to, 'status', Object.values(GameStatus));
+
+    return this.executeWithLogging('transitionStatus', 'games', 'UPDATE', { gameId, from, to }, async () => {
+      const { count } = await getDb().game.updateMany({
+        where: { id: gameId, status: from },
+        data: { status: to }
+      });
+      return count > 0;
+    });
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async findIdsStartingBefore(statuses: GameStatus[], before: Date): Promise<string[]> {
+    this.validateDate(before, 'before');
+
+    return this.executeWithLogging('findIdsStartingBefore', 'games', 'SELECT', { statuses, before }, async () => {
+      const games = await getDb().game.findMany({
+        where: { status: { in: statuses }, startsAt: { lt: before } },
+        select: { id: true },
+        orderBy: { startsAt: 'asc' }
+      });
+      return games.map(game => game.id);
+    });
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async saveCancellation(g: Game): Promise<void> {
+    this.validateRequired(g, 'game');
+    this.validateRequired(g.id, 'game.id');
+
+    await this.executeWithLogging('saveCancellation', 'games', 'UPDATE', { gameId: g.id, reason: g.cancelReason }, async () => {
+      await getDb().game.update({
+        where: { id: g.id },
+        data: {
+          status: g.status,
+          cancelReason: g.cancelReason ?? null,
+          canceledAt: g.canceledAt ?? null
+        }
+      });
+    });
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async updateDetails(g: Game): Promise<void> {
+    this.validateRequired(g, 'game');
+    this.validateRequired(g.id, 'game.id');
+
+    await this.executeWithLogging('updateDetails', 'games', 'UPDATE', { gameId: g.id }, async () => {
+      await getDb().game.update({
+        where: { id: g.id },
+        data: {
+          startsAt: g.startsAt,
+          capacity: g.capacity,
+          venueId: g.venueId,
+          levelTag: g.levelTag ?? null,
+          priceText: g.priceText ?? null,
+          pricingMode: g.pricing?.mode ?? null,
+          priceAmount: g.pricing?.amount ?? null,
+          currency: g.pricing?.currency ?? null,
+          minLevel: g.minLevel ?? null,
+          maxLevel: g.maxLevel ?? null
+        }
+      });
+    });
+  }
+
   /**
    * @inheritDoc
    */
@@ -162,7 +302,7 @@ export class PrismaGameRepo extends BasePrismaRepository implements GameRepo {
     this.validateDate(priorityWindowClosesAt, 'priorityWindowClosesAt');
 
     await this.executeWithLogging('updatePriorityWindow', 'games', 'UPDATE', { gameId, priorityWindowClosesAt }, async () => {
-      await prisma.game.update({
+      await getDb().game.update({
         where: { id: gameId },
         data: { priorityWindowClosesAt } as any
       });
@@ -172,16 +312,16 @@ export class PrismaGameRepo extends BasePrismaRepository implements GameRepo {
   /**
    * @inheritDoc
    */
-  async findConflictingGame(venueId: string, startsAt: Date): Promise<Game | null> {
+  async findConflictingGame(venueId: string, startsAt: Date, excludeGameId?: string): Promise<Game | null> {
     this.validateRequired(venueId, 'venueId');
     this.validateDate(startsAt, 'startsAt');
 
-    return this.executeWithLogging('findConflictingGame', 'games', 'SELECT', { venueId, startsAt }, async () => {
+    return this.executeWithLogging('findConflictingGame', 'games', 'SELECT', { venueId, startsAt, excludeGameId }, async () => {
       // Проверяем игры на той же площадке в то же время (в окне 2 часов)
       const startWindow = new Date(startsAt.getTime() - 2 * 60 * 60 * 1000); // 2 часа до
       const endWindow = new Date(startsAt.getTime() + 2 * 60 * 60 * 1000); // 2 часа после
 
-      const game = await prisma.game.findFirst({
+      const game = await getDb().game.findFirst({
         where: {
           venueId,
           startsAt: {
@@ -190,7 +330,8 @@ export class PrismaGameRepo extends BasePrismaRepository implements GameRepo {
           },
           status: {
             in: ['open', 'closed'] // Проверяем только активные игры
-          }
+          },
+          ...(excludeGameId ? { id: { not: excludeGameId } } : {})
         }
       });
 
@@ -204,7 +345,11 @@ export class PrismaGameRepo extends BasePrismaRepository implements GameRepo {
         game.capacity,
         game.levelTag || undefined,
         game.priceText || undefined,
-        game.status as GameStatus
+        game.status as GameStatus,
+        game.seriesId || undefined,
+        toGamePricing(game),
+        game.minLevel || undefined,
+        game.maxLevel || undefined
       );
     });
   }
@@ -0,0 +1,248 @@
+import { GameSeries } from '../../domain/game-series.js';
+import { BasePrismaRepository } from './base-repository.js';
+import { getDb } from '../prisma.js';
+
+/**
+ * Интерфейс репозитория для работы с сериями игр
+ */
+export interface GameSeriesRepo {
+  /**
+   * Находит серию по идентификатору
+   * @param id - Идентификатор серии
+   * @returns Серия или null, если не найдена
+   */
+  findById(id: string): Promise<GameSeries | null>;
+
+  /**
+   * Возвращает серии организатора (активные и остановленные)
+   * @param organizerId - Идентификатор организатора
+   */
+  listByOrganizer(organizerId: string): Promise<GameSeries[]>;
+
+  /**
+   * Возвращает все активные серии
+   */
+  listActive(): Promise<GameSeries[]>;
+
+  /**
+   * Возвращает моменты начала уже созданных игр серии в интервале
+   * @param seriesId - Идентификатор серии
+   * @param from - Начало интервала
+   * @param to - Конец интервала
+   */
+  findExistingStarts(seriesId: string, from: Date, to: Date): Promise<Date[]>;
+
+  /**
+   * Возвращает моменты начала игр серии, которые не удалось создать за maxAttempts попыток
+   * @param seriesId - Идентификатор серии
+   * @param maxAttempts - Предел попыток
+   */
+  findExhaustedStarts(seriesId: string, maxAttempts: number): Promise<Date[]>;
+
+  /**
+   * Засчитывает неудачную попытку создать игру серии
+   * @param seriesId - Идентификатор серии
+   * @param startsAt - Момент начала игры
+   * @param error - Текст ошибки
+   * @returns Количество неудачных попыток с учетом этой
+   */
+  recordGenerationFailure(seriesId: string, startsAt: Date, error: string): Promise<number>;
+
+  /**
+   * Сбрасывает счетчик неудачных попыток (перед ручным повтором)
+   * @param seriesId - Идентификатор серии
+   * @param startsAt - Момент начала игры
+   */
+  clearGenerationFailure(seriesId: string, startsAt: Date): Promise<void>;
+
+  /**
+   * Создает новую серию
+   * @param series - Объект серии для создания
+   */
+  insert(series: GameSeries): Promise<void>;
+
+  /**
+   * Обновляет признак активности серии
+   * @param seriesId - Идентификатор серии
+   * @param active - Новое значение
+   */
+  updateActive(seriesId: string, active: boolean): Promise<void>;
+}
+
+/**
+ * Реализация репозитория серий игр с использованием Prisma
+ */
+export class PrismaGameSeriesRepo extends BasePrismaRepository implements GameSeriesRepo {
+  /**
+   * Создает экземпляр репозитория серий игр
+   */
+  constructor() {
+    super('prisma-game-series-repo');
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async findById(id: string): Promise<GameSeries | null> {
+    this.validateRequired(id, 'id');
+
+    return this.executeWithLogging('findById', 'game_series', 'SELECT', { id }, async () => {
+      const series = await getDb().gameSeries.findUnique({ where: { id } });
+      return series ? this.toDomain(series) : null;
+    });
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async listByOrganizer(organizerId: string): Promise<GameSeries[]> {
+    this.validateRequired(organizerId, 'organizerId');
+
+    return this.executeWithLogging('listByOrganizer', 'game_series', 'SELECT', { organizerId }, async () => {
+      const series = await getDb().gameSeries.findMany({
+        where: { organizerId },
+        orderBy: { createdAt: 'asc' }
+      });
+      return series.map(s => this.toDomain(s));
+    });
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async listActive(): Promise<GameSeries[]> {
+    return this.executeWithLogging('listActive', 'game_series', 'SELECT', {}, async () => {
+      const series = await getDb().gameSeries.findMany({ where: { active: true } });
+      return series.map(s => this.toDomain(s));
+    });
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async findExistingStarts(seriesId: string, from: Date, to: Date): Promise<Date[]> {
+    this.validateRequired(seriesId, 'seriesId');
+    this.validateDate(from, 'from');
+    this.validateDate(to, 'to');
+
+    return this.executeWithLogging('findExistingStarts', 'games', 'SELECT', { seriesId, from, to }, async () => {
+      const games = await getDb().game.findMany({
+        where: { seriesId, startsAt: { gt: from, lte: to } },
+        select: { startsAt: true }
+      });
+      return games.map(g => g.startsAt);
+    });
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async findExhaustedStarts(seriesId: string, maxAttempts: number): Promise<Date[]> {
+    this.validateRequired(seriesId, 'seriesId');
+
+    return this.executeWithLogging('findExhaustedStarts', 'game_series_failures', 'SELECT', { seriesId, maxAttempts }, async () => {
+      const failures = await getDb().gameSeriesFailure.findMany({
+        where: { seriesId, attempts: { gte: maxAttempts } },
+        select: { startsAt: true }
+      });
+      return failures.map(f => f.startsAt);
+    });
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async recordGenerationFailure(seriesId: string, startsAt: Date, error: string): Promise<number> {
+    this.validateRequired(seriesId, 'seriesId');
+    this.validateDate(startsAt, 'startsAt');
+
+    return this.executeWithLogging('recordGenerationFailure', 'game_series_failures', 'UPSERT', { seriesId, startsAt }, async () => {
+      const failure = await getDb().gameSeriesFailure.upsert({
+        where: { seriesId_startsAt: { seriesId, startsAt } },
+        create: { seriesId, startsAt, attempts: 1, lastError: error },
+        update: { attempts: { increment: 1 }, lastError: error }
+      });
+      return failure.attempts;
+    });
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async clearGenerationFailure(seriesId: string, startsAt: Date): Promise<void> {
+    this.validateRequired(seriesId, 'seriesId');
+    this.validateDate(startsAt, 'startsAt');
+
+    await this.executeWithLogging('clearGenerationFailure', 'game_series_failures', 'DELETE', { seriesId, startsAt }, async () => {
+      await getDb().gameSeriesFailure.deleteMany({ where: { seriesId, startsAt } });
+    });
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async insert(series: GameSeries): Promise<void> {
+    this.validateRequired(series, 'series');
+    this.validateRequired(series.id, 'series.id');
+    this.validateRequired(series.organizerId, 'series.organizerId');
+    this.validateRequired(series.venueId, 'series.venueId');
+    this.validatePositiveNumber(series.capacity, 'series.capacity');
+
+    await this.executeWithLogging('insert', 'game_series', 'INSERT', {
+      id: series.id,
+      organizerId: series.organizerId,
+      venueId: series.venueId,
+      weekdays: series.weekdays,
+      startTime: series.startTime
+    }, async () => {
+      await getDb().gameSeries.create({
+        data: {
+          id: series.id,
+          organizerId: series.organizerId,
+          venueId: series.venueId,
+          weekdays: series.weekdays,
+          startTime: series.startTime,
+          timezone: series.timezone,
+          capacity: series.capacity,
+          levelTag: series.levelTag ?? null,
+          priceText: series.priceText ?? null,
+          createAheadDays: series.createAheadDays,
+          active: series.active
+        }
+      });
+    });
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async updateActive(seriesId: string, active: boolean): Promise<void> {
+    this.validateRequired(seriesId, 'seriesId');
+
+    await this.executeWithLogging('updateActive', 'game_series', 'UPDATE', { seriesId, active }, async () => {
+      await getDb().gameSeries.update({
+        where: { id: seriesId },
+        data: { active }
+      });
+    });
+  }
+
+  /**
+   * Преобразует запись Prisma в доменную сущность
+   */
+  private toDomain(series: any): GameSeries {
+    return new GameSeries(
+      series.id,
+      series.organizerId,
+      series.venueId,
+      series.weekdays,
+      series.startTime,
+      series.timezone,
+      series.capacity,
+      series.levelTag || undefined,
+      series.priceText || undefined,
+      series.createAheadDays,
+      series.active
+    );
+  }
+}
@@ -6,9 +6,13 @@ export { PrismaGameRepo } from './game-repository.js';
 export { PrismaRegistrationRepo } from './registration-repository.js';
 export { PrismaUserRepo } from './user-repository.js';
 export { PrismaOrganizerRepo } from './organizer-repository.js';
+export { PrismaVenueRepo } from './venue-repository.js';
+export { PrismaGameSeriesRepo } from './game-series-repository.js';
 
 // Интерфейсы репозиториев
 export type { GameRepo } from './game-repository.js';
 export type { RegistrationRepo } from './registration-repository.js';
 export type { UserRepo } from './user-repository.js';
-export type { OrganizerRepo } from './organizer-repository.js';
\ No newline at end of file
+export type { OrganizerRepo, OrganizerMembership } from './organizer-repository.js';
+export type { VenueRepo } from './venue-repository.js';
+export type { GameSeriesRepo } from './game-series-repository.js';
\ No newline at end of file
@@ -1,5 +1,15 @@
 import { BasePrismaRepository } from './base-repository.js';
-import { prisma } from '../prisma.js';
+import { getDb } from '../prisma.js';
+import type { OrganizerRole } from '../../domain/organizer-team.js';
+import type { Organizer } from '../prisma-types.js';
+
+/**
+ * Команда организатора, в которой состоит пользователь, и его роль в ней
+ */
+export interface OrganizerMembership {
+  organizer: Organizer;
+  role: OrganizerRole;
+}
 
 /**
  * Интерфейс репозитория для работы с организаторами
@@ -10,7 +20,21 @@ export interface OrganizerRepo {
    * @param userId - Идентификатор пользователя
    * @returns Организатор или null, если не найден
    */
-  findByUserId(userId: string): Promise<any | null>;
+  findByUserId(userId: string): Promise<Organizer | null>;
+
+  /**
+   * Находит организатора по ID
+   * @param id - Идентификатор организатора
+   * @returns Организатор или null, если не найден
+   */
+  findById(id: string): Promise<Organizer | null>;
+
+  /**
+   * Находит команду организатора, в которой состоит пользователь (владелец или участник)
+   * @param userId - Идентификатор пользователя
+   * @returns Организатор команды и роль пользователя или null, если пользователь не в команде
+   */
+  findMembershipByUserId(userId: string): Promise<OrganizerMembership | null>;
 }
 
 /**
@@ -27,13 +51,41 @@ export class PrismaOrganizerRepo extends BasePrismaRepository implements Organiz
   /**
    * @inheritDoc
    */
-  async findByUserId(userId: string): Promise<any | null> {
+  async findByUserId(userId: string): Promise<Organizer | null> {
     this.validateRequired(userId, 'userId');
 
     return this.executeWithLogging('findByUserId', 'organizers', 'SELECT', { userId }, async () => {
-      return prisma.organizer.findUnique({
+      return getDb().organizer.findUnique({
         where: { userId }
       });
     });
   }
-}
\ No newline at end of file
+
+  /**
+   * @inheritDoc
+   */
+  async findById(id: string): Promise<Organizer | null> {
+    this.validateRequired(id, 'id');
+
+    return this.executeWithLogging('findById', 'organizers', 'SELECT', { id }, async () => {
+      return getDb().organizer.findUnique({
+        where: { id }
+      });
+    });
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async findMembershipByUserId(userId: string): Promise<OrganizerMembership | null> {
+    this.validateRequired(userId, 'userId');
+
+    return this.executeWithLogging('findMembershipByUserId', 'organizer_members', 'SELECT', { userId }, async () => {
+      const member = await getDb().organizerMember.findUnique({
+        where: { userId },
+        include: { organizer: true }
+      });
+      return member ? { organizer: member.organizer, role: member.role as OrganizerRole } : null;
+    });
+  }
+}
@@ -1,6 +1,6 @@
 import { Registration, RegStatus, PaymentStatus } from '../../domain/registration.js';
 import { BasePrismaRepository } from './base-repository.js';
-import { prisma } from '../prisma.js';
+import { getDb } from '../prisma.js';
 
 /**
  * Интерфейс репозитория для работы с регистрациями
@@ -28,10 +28,17 @@ export interface RegistrationRepo {
   firstWaitlisted(gameId: string): Promise<Registration | null>;
 
   /**
-   * Повышает регистрацию до подтвержденной
-   * @param regId - Идентификатор регистрации
+   * Возвращает активные регистрации игры (основной состав, лист ожидания и предложенные места)
+   * @param gameId - Идентификатор игры
+   */
+  listActive(gameId: string): Promise<Registration[]>;
+
+  /**
+   * Находит предложенные места, срок ответа на которые истек
+   * @param now - Момент проверки
+   * @returns Пары игра-игрок с просроченным предложением
    */
-  promoteToConfirmed(regId: string): Promise<void>;
+  findExpiredOffers(now: Date): Promise<Array<{ gameId: string; userId: string }>>;
 }
 
 /**
@@ -53,7 +60,7 @@ export class PrismaRegistrationRepo extends BasePrismaRepository implements Regi
     this.validateRequired(userId, 'userId');
 
     return this.executeWithLogging('get', 'registrations', 'SELECT', { gameId, userId }, async () => {
-      const reg = await prisma.registration.findUnique({
+      const reg = await getDb().registration.findUnique({
         where: { gameId_userId: { gameId, userId } }
       });
       if (!reg) return null;
@@ -65,7 +72,9 @@ export class PrismaRegistrationRepo extends BasePrismaRepository implements Regi
         reg.status as RegStatus,
         reg.paymentStatus as PaymentStatus,
         reg.paymentMarkedAt || undefined,
-        reg.createdAt
+        reg.createdAt,
+        reg.amountPaid ?? undefined,
+        reg.offerExpiresAt ?? undefined
       );
     });
   }
@@ -88,14 +97,18 @@ export class PrismaRegistrationRepo extends BasePrismaRepository implements Regi
       status: reg.status,
       paymentStatus: reg.paymentStatus,
       paymentMarkedAt: reg.paymentMarkedAt,
+      amountPaid: reg.amountPaid,
+      offerExpiresAt: reg.offerExpiresAt,
       createdAt: reg.createdAt
     }, async () => {
-      await prisma.registration.upsert({
+      await getDb().registration.upsert({
         where: { gameId_userId: { gameId: reg.gameId, userId: reg.userId } },
         update: {
           status: reg.status as RegStatus,
           paymentStatus: reg.paymentStatus,
-          paymentMarkedAt: reg.paymentMarkedAt
+          paymentMarkedAt: reg.paymentMarkedAt ?? null,
+          amountPaid: reg.amountPaid ?? null,
+          offerExpiresAt: reg.offerExpiresAt ?? null
         },
         create: {
           id: reg.id,
@@ -104,6 +117,8 @@ export class PrismaRegistrationRepo extends BasePrismaRepository implements Regi
           status: reg.status as RegStatus,
           paymentStatus: reg.paymentStatus,
           paymentMarkedAt: reg.paymentMarkedAt,
+          amountPaid: reg.amountPaid,
+          offerExpiresAt: reg.offerExpiresAt,
           createdAt: reg.createdAt
         }
       });
@@ -117,7 +132,7 @@ export class PrismaRegistrationRepo extends BasePrismaRepository implements Regi
     this.validateRequired(gameId, 'gameId');
 
     return this.executeWithLogging('firstWaitlisted', 'registrations', 'SELECT', { gameId }, async () => {
-      const reg = await prisma.registration.findFirst({
+      const reg = await getDb().registration.findFirst({
         where: { gameId, status: RegStatus.waitlisted },
         orderBy: { createdAt: 'asc' }
       });
@@ -130,7 +145,9 @@ export class PrismaRegistrationRepo extends BasePrismaRepository implements Regi
         reg.status as RegStatus,
         reg.paymentStatus as PaymentStatus,
         reg.paymentMarkedAt || undefined,
-        reg.createdAt
+        reg.createdAt,
+        reg.amountPaid ?? undefined,
+        reg.offerExpiresAt ?? undefined
       );
     });
   }
@@ -138,14 +155,41 @@ export class PrismaRegistrationRepo extends BasePrismaRepository implements Regi
   /**
    * @inheritDoc
    */
-  async promoteToConfirmed(regId: string): Promise<void> {
-    this.validateRequired(regId, 'regId');
+  async listActive(gameId: string): Promise<Registration[]> {
+    this.validateRequired(gameId, 'gameId');
+
+    return this.executeWithLogging('listActive', 'registrations', 'SELECT', { gameId }, async () => {
+      const regs = await getDb().registration.findMany({
+        where: { gameId, status: { in: [RegStatus.confirmed, RegStatus.waitlisted, RegStatus.offered] } },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      return regs.map(reg => new Registration(
+        reg.id,
+        reg.gameId,
+        reg.userId,
+        reg.status as RegStatus,
+        reg.paymentStatus as PaymentStatus,
+        reg.paymentMarkedAt || undefined,
+        reg.createdAt,
+        reg.amountPaid ?? undefined,
+        reg.offerExpiresAt ?? undefined
+      ));
+    });
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async findExpiredOffers(now: Date): Promise<Array<{ gameId: string; userId: string }>> {
+    this.validateDate(now, 'now');
 
-    await this.executeWithLogging('promoteToConfirmed', 'registrations', 'UPDATE', { regId }, async () => {
-      await prisma.registration.update({
-        where: { id: regId },
-        data: { status: RegStatus.confirmed }
+    return this.executeWithLogging('findExpiredOffers', 'registrations', 'SELECT', { now }, async () => {
+      return getDb().registration.findMany({
+        where: { status: RegStatus.offered, offerExpiresAt: { lt: now } },
+        select: { gameId: true, userId: true },
+        orderBy: { offerExpiresAt: 'asc' }
       });
     });
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,5 @@
 import { BasePrismaRepository } from './base-repository.js';
-import { prisma } from '../prisma.js';
+import { getDb } from '../prisma.js';
 import { LOG_MESSAGES } from '../../shared/logging-messages.js';
 
 /**
@@ -21,6 +21,13 @@ export interface UserRepo {
    */
   updateUserLevel(userId: string, levelTag?: string): Promise<void>;
 
+  /**
+   * Получает уровень пользователя и отметку о его подтверждении организатором
+   * @param userId - Идентификатор пользователя
+   * @returns null, если пользователь не найден
+   */
+  findLevel(userId: string): Promise<{ levelTag: string | null; levelVerifiedAt: Date | null } | null>;
+
   /**
    * Выполняет функцию в транзакции
    * @param fn - Функция для выполнения в транзакции
@@ -48,7 +55,7 @@ export class PrismaUserRepo extends BasePrismaRepository implements UserRepo {
     this.validateStringLength(name, 'name', 1, 100);
 
     return this.executeWithLogging('upsertUser', 'users', 'UPSERT', { telegramId, name }, async () => {
-      const user = await prisma.user.upsert({
+      const user = await getDb().user.upsert({
         where: { telegramId },
         update: { name },
         create: { telegramId, name }
@@ -70,13 +77,27 @@ export class PrismaUserRepo extends BasePrismaRepository implements UserRepo {
     this.validateRequired(userId, 'userId');
 
     await this.executeWithLogging('updateUserLevel', 'users', 'UPDATE', { userId, levelTag }, async () => {
-      await prisma.user.update({
+      await getDb().user.update({
         where: { id: userId },
         data: { levelTag }
       });
     });
   }
 
+  /**
+   * @inheritDoc
+   */
+  async findLevel(userId: string): Promise<{ levelTag: string | null; levelVerifiedAt: Date | null } | null> {
+    this.validateRequired(userId, 'userId');
+
+    return this.executeWithLogging('findLevel', 'users', 'SELECT', { userId }, async () => {
+      return getDb().user.findUnique({
+        where: { id: userId },
+        select: { levelTag: true, levelVerifiedAt: true }
+      });
+    });
+  }
+
   /**
    * @inheritDoc
    */
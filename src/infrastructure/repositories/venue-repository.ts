@@ -0,0 +1,149 @@
+import { Venue } from '../../domain/venue.js';
+import { BasePrismaRepository } from './base-repository.js';
+import { getDb } from '../prisma.js';
+
+/**
+ * Интерфейс репозитория для работы с площадками
+ */
+export interface VenueRepo {
+  /**
+   * Находит площадку по идентификатору (включая архивные)
+   * @param id - Идентификатор площадки
+   * @returns Площадка или null, если не найдена
+   */
+  findById(id: string): Promise<Venue | null>;
+
+  /**
+   * Возвращает активные площадки, доступные организатору: собственные и общие
+   * @param organizerId - Идентификатор организатора
+   * @returns Список площадок, отсортированный по названию
+   */
+  listForOrganizer(organizerId: string): Promise<Venue[]>;
+
+  /**
+   * Создает новую площадку
+   * @param venue - Объект площадки для создания
+   */
+  insert(venue: Venue): Promise<void>;
+
+  /**
+   * Сохраняет изменения площадки
+   * @param venue - Объект площадки с обновленными полями
+   */
+  update(venue: Venue): Promise<void>;
+}
+
+/**
+ * Реализация репозитория площадок с использованием Prisma
+ */
+export class PrismaVenueRepo extends BasePrismaRepository implements VenueRepo {
+  /**
+   * Создает экземпляр репозитория площадок
+   */
+  constructor() {
+    super('prisma-venue-repo');
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async findById(id: string): Promise<Venue | null> {
+    this.validateRequired(id, 'id');
+
+    return this.executeWithLogging('findById', 'venues', 'SELECT', { id }, async () => {
+      const venue = await getDb().venue.findUnique({ where: { id } });
+      return venue ? this.toDomain(venue) : null;
+    });
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async listForOrganizer(organizerId: string): Promise<Venue[]> {
+    this.validateRequired(organizerId, 'organizerId');
+
+    return this.executeWithLogging('listForOrganizer', 'venues', 'SELECT', { organizerId }, async () => {
+      const venues = await getDb().venue.findMany({
+        where: {
+          archivedAt: null,
+          OR: [{ organizerId }, { organizerId: null }]
+        },
+        orderBy: { name: 'asc' }
+      });
+      return venues.map(v => this.toDomain(v));
+    });
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async insert(venue: Venue): Promise<void> {
+    this.validateRequired(venue, 'venue');
+    this.validateRequired(venue.id, 'venue.id');
+    this.validateStringLength(venue.name, 'venue.name', 1, 100);
+    this.validatePositiveNumber(venue.courtCount, 'venue.courtCount');
+    this.validatePositiveNumber(venue.defaultCapacity, 'venue.defaultCapacity');
+
+    await this.executeWithLogging('insert', 'venues', 'INSERT', {
+      id: venue.id,
+      organizerId: venue.organizerId,
+      name: venue.name
+    }, async () => {
+      await getDb().venue.create({
+        data: {
+          id: venue.id,
+          organizerId: venue.organizerId,
+          name: venue.name,
+          address: venue.address ?? null,
+          courtCount: venue.courtCount,
+          isIndoor: venue.isIndoor,
+          defaultPriceText: venue.defaultPriceText ?? null,
+          defaultCapacity: venue.defaultCapacity
+        }
+      });
+    });
+  }
+
+  /**
+   * @inheritDoc
+   */
+  async update(venue: Venue): Promise<void> {
+    this.validateRequired(venue, 'venue');
+    this.validateRequired(venue.id, 'venue.id');
+    this.validateStringLength(venue.name, 'venue.name', 1, 100);
+    this.validatePositiveNumber(venue.courtCount, 'venue.courtCount');
+    this.validatePositiveNumber(venue.defaultCapacity, 'venue.defaultCapacity');
+
+    await this.executeWithLogging('update', 'venues', 'UPDATE', { id: venue.id }, async () => {
+      await getDb().venue.update({
+        where: { id: venue.id },
+        data: {
+          name: venue.name,
+          address: venue.address ?? null,
+          courtCount: venue.courtCount,
+          isIndoor: venue.isIndoor,
+          defaultPriceText: venue.defaultPriceText ?? null,
+          defaultCapacity: venue.defaultCapacity,
+          archivedAt: venue.archivedAt
+        }
+      });
+    });
+  }
+
+  /**
+   * Преобразует запись Prisma в доменную сущность
+   */
+  private toDomain(venue: any): Venue {
+    return new Venue(
+      venue.id,
+      venue.organizerId,
+      venue.name,
+      venue.address || undefined,
+      venue.courtCount,
+      venue.isIndoor,
+      venue.defaultPriceText || undefined,
+      venue.defaultCapacity,
+      venue.archivedAt
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { prisma } from '../infrastructure/prisma.js';
+import { toStoredPayload } from './dead-letter-store.js';
+import type { EventBus, DomainEvent } from './event-bus.js';
+import type { DomainEvent as TypedDomainEvent } from './types.js';
+
+type EventOfType<T extends TypedDomainEvent['type']> = Extract<TypedDomainEvent, { type: T }>;
+
+/**
+ * Кто совершил действие: пользователь, организатор (по ID организатора или игры) или система (null)
+ */
+type ActorRef = { userId: string } | { organizerId: string } | { gameId: string } | null;
+
+/**
+ * Автор каждого типа события. Записи типа Record требуют описать все события из types.ts,
+ * поэтому новое событие не попадет мимо журнала
+ */
+const ACTORS: { [T in TypedDomainEvent['type']]: (payload: EventOfType<T>['payload']) => ActorRef } = {
+  GameCreated: ({ gameId }) => ({ gameId }),
+  GameReminder24h: () => null,
+  GameReminder2h: () => null,
+  PaymentReminder12h: () => null,
+  PaymentReminder24h: () => null,
+  SendPaymentReminders: () => null,
+  PlayerJoined: ({ userId }) => ({ userId }),
+  // Место предлагает система, принимает его сам игрок
+  WaitlistOfferMade: () => null,
+  WaitlistOfferExpired: () => null,
+  WaitlistedPromoted: ({ userId }) => ({ userId }),
+  PaymentMarked: ({ userId }) => ({ userId }),
+  // Действия команды организатора совершает конкретный участник команды, а не владелец
+  PaymentStatusOverridden: ({ actorId }) => ({ userId: actorId }),
+  // Списание с баланса при завершении игры
+  PaymentChargedFromBalance: () => null,
+  LedgerEntryRecorded: ({ organizerId }) => ({ organizerId }),
+  PaymentAttemptRejectedEarly: ({ userId }) => ({ userId }),
+  RegistrationCanceled: ({ userId }) => ({ userId }),
+  // Автоматические переходы жизненного цикла выполняет система
+  GameClosed: ({ gameId, automatic }) => automatic ? null : { gameId },
+  GameFinished: ({ gameId, automatic }) => automatic ? null : { gameId },
+  GameUpdated: ({ actorId }) => ({ userId: actorId }),
+  GameCanceled: ({ actorId }) => ({ userId: actorId }),
+  PlayerLinkedToOrganizer: ({ organizerId }) => ({ organizerId }),
+  PlayerSelectedOrganizers: ({ playerId }) => ({ userId: playerId }),
+  PlayerConfirmedByOrganizer: ({ organizerId }) => ({ organizerId }),
+  PlayerRejectedByOrganizer: ({ organizerId }) => ({ organizerId }),
+  PlayerLevelVerified: ({ verifiedByUserId }) => ({ userId: verifiedByUserId }),
+  GameCreatedWithPriorityWindow: ({ gameId }) => ({ gameId }),
+  PlayerRespondedToGameInvitation: ({ playerId }) => ({ userId: playerId }),
+  // Игра открывается для всех по истечении окна приоритета или после ответов всех приглашенных
+  GamePublishedForAll: () => null,
+  SeriesGameGenerationFailed: () => null,
+};
+
+export const AUDIT_EVENT_TYPES = Object.keys(ACTORS) as Array<TypedDomainEvent['type']>;
+
+async function resolveActorId(event: DomainEvent): Promise<string | null> {
+  const resolve = ACTORS[event.type] as (payload: DomainEvent['payload']) => ActorRef;
+  const actor = resolve(event.payload);
+  if (!actor) return null;
+  if ('userId' in actor) return actor.userId;
+
+  if ('organizerId' in actor) {
+    const organizer = await prisma.organizer.findUnique({ where: { id: actor.organizerId }, select: { userId: true } });
+    return organizer?.userId ?? null;
+  }
+
+  const game = await prisma.game.findUnique({
+    where: { id: actor.gameId },
+    select: { organizer: { select: { userId: true } } }
+  });
+  return game?.organizer.userId ?? null;
+}
+
+/**
+ * Добавляет событие в журнал. Повторная доставка события (с тем же ID) пропускается;
+ * ID есть у каждого события: его назначает outbox или EventBus при публикации
+ */
+export async function recordAuditEvent(event: DomainEvent): Promise<void> {
+  const payload = event.payload as { gameId?: unknown };
+  await prisma.auditEvent.createMany({
+    data: [{
+      eventId: event.id || null,
+      eventType: event.type,
+      gameId: typeof payload.gameId === 'string' ? payload.gameId : null,
+      actorId: await resolveActorId(event),
+      payload: toStoredPayload(event.payload),
+      occurredAt: event.occurredAt
+    }],
+    skipDuplicates: true
+  });
+}
+
+/**
+ * Подписывает журнал аудита на все доменные события
+ * @returns Функция, отменяющая подписку
+ */
+export function registerAuditLog(eventBus: EventBus): () => void {
+  const handler = { name: 'recordAuditEvent', handle: recordAuditEvent };
+  for (const eventType of AUDIT_EVENT_TYPES) {
+    eventBus.subscribe(eventType, handler);
+  }
+  return () => {
+    for (const eventType of AUDIT_EVENT_TYPES) {
+      eventBus.unsubscribe(eventType, handler);
+    }
+  };
+}
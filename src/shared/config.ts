@@ -13,10 +13,14 @@ export interface AppConfig {
   telegram: {
     botToken: string;
     webhookUrl?: string;
+    // Публичный HTTPS адрес Mini App (страница /app/ API сервера); без него кнопка приложения не показывается
+    webAppUrl?: string;
   };
   localization: {
     defaultTimezone: string;
     supportedTimezones: string[];
+    defaultLocale: string;
+    supportedLocales: string[];
   };
   notifications: {
     maxRetries: number;
@@ -28,6 +32,78 @@ export interface AppConfig {
     removeOnComplete: number;
     removeOnFail: number;
   };
+  series: {
+    defaultCreateAheadDays: number;
+    maxCreateAheadDays: number;
+    generationIntervalMinutes: number;
+    // Сколько раз пытаться создать одну игру серии, прежде чем отправить ее в dead letter queue
+    maxGenerationAttempts: number;
+  };
+  lifecycle: {
+    // За сколько минут до начала игры запись закрывается автоматически
+    autoCloseMinutesBeforeStart: number;
+    // Через сколько минут после начала игра считается завершенной
+    gameDurationMinutes: number;
+    // Как часто проверяются игры, пропустившие автоматический переход (например, после простоя воркера)
+    sweepIntervalMinutes: number;
+  };
+  waitlist: {
+    // Сколько минут игрок из листа ожидания может думать над освободившимся местом
+    offerWindowMinutes: number;
+    // Как часто проверять просроченные предложения, задачи истечения которых потерялись
+    sweepIntervalMinutes: number;
+  };
+  sessions: {
+    store: 'redis' | 'memory';
+    ttlSeconds: number;
+  };
+  outbox: {
+    // Как часто relay воркер забирает неопубликованные события
+    relayIntervalMs: number;
+    batchSize: number;
+    maxAttempts: number;
+    // На это время событие закрепляется за публикующим процессом; после падения процесса его подберет relay
+    leaseMs: number;
+    retentionDays: number;
+  };
+  admin: {
+    // Telegram ID администраторов бота (ADMIN_TELEGRAM_IDS через запятую)
+    telegramIds: string[];
+  };
+  webhooks: {
+    maxAttempts: number;
+    timeoutMs: number;
+  };
+  payments: {
+    // Валюта цены, если в тексте цены она не указана (ISO 4217)
+    defaultCurrency: string;
+    // Провайдер онлайн-оплаты; без него игроки отмечают оплату сами (/pay)
+    provider?: 'telegram' | 'fake';
+    // Токен платежного провайдера из BotFather (для provider = telegram)
+    providerToken?: string;
+  };
+  tracing: {
+    // Куда выгружаются спаны: console - в stdout для разработки, otlp - в коллектор по OTLP/HTTP, none - выключено
+    exporter: 'console' | 'otlp' | 'none';
+    // Адрес OTLP/HTTP коллектора; по умолчанию - из OTEL_EXPORTER_OTLP_TRACES_ENDPOINT или localhost:4318
+    otlpEndpoint?: string;
+    serviceName: string;
+  };
+  api: {
+    enabled: boolean;
+    port: number;
+    // Токен сервисного доступа к REST API (дашборд и другие доверенные клиенты)
+    token?: string;
+    // Секрет подписи сессионных токенов; по умолчанию выводится из токена бота
+    sessionSecret?: string;
+    sessionTtlSeconds: number;
+    // Максимальный возраст данных авторизации Telegram (auth_date)
+    authMaxAgeSeconds: number;
+  };
+  metrics: {
+    // Токен сборщика метрик (Authorization: Bearer); без него /metrics недоступен
+    token?: string;
+  };
 }
 
 function loadConfig(): AppConfig {
@@ -46,10 +122,13 @@ function loadConfig(): AppConfig {
     telegram: {
       botToken: process.env.TELEGRAM_BOT_TOKEN!,
       webhookUrl: process.env.TELEGRAM_WEBHOOK_URL,
+      webAppUrl: process.env.TELEGRAM_WEBAPP_URL,
     },
     localization: {
       defaultTimezone: process.env.DEFAULT_TIMEZONE || 'Asia/Irkutsk',
       supportedTimezones: ['Asia/Irkutsk', 'Europe/Moscow', 'UTC'],
+      defaultLocale: process.env.DEFAULT_LOCALE || 'ru-RU',
+      supportedLocales: ['ru-RU', 'en-US'],
     },
     notifications: {
       maxRetries: parseInt(process.env.NOTIFICATION_RETRIES || '3'),
@@ -61,6 +140,64 @@ function loadConfig(): AppConfig {
       removeOnComplete: parseInt(process.env.QUEUE_KEEP_COMPLETED || '100'),
       removeOnFail: parseInt(process.env.QUEUE_KEEP_FAILED || '50'),
     },
+    series: {
+      defaultCreateAheadDays: parseInt(process.env.SERIES_CREATE_AHEAD_DAYS || '7'),
+      maxCreateAheadDays: 30,
+      generationIntervalMinutes: parseInt(process.env.SERIES_GENERATION_INTERVAL_MINUTES || '60'),
+      maxGenerationAttempts: parseInt(process.env.SERIES_MAX_GENERATION_ATTEMPTS || '5'),
+    },
+    lifecycle: {
+      autoCloseMinutesBeforeStart: parseInt(process.env.GAME_AUTO_CLOSE_MINUTES_BEFORE_START || '30'),
+      gameDurationMinutes: parseInt(process.env.GAME_DURATION_MINUTES || '120'),
+      sweepIntervalMinutes: parseInt(process.env.GAME_LIFECYCLE_SWEEP_INTERVAL_MINUTES || '10'),
+    },
+    waitlist: {
+      offerWindowMinutes: parseInt(process.env.WAITLIST_OFFER_WINDOW_MINUTES || '60'),
+      sweepIntervalMinutes: parseInt(process.env.WAITLIST_OFFER_SWEEP_INTERVAL_MINUTES || '5'),
+    },
+    sessions: {
+      store: process.env.SESSION_STORE === 'memory' ? 'memory' : 'redis',
+      ttlSeconds: parseInt(process.env.SESSION_TTL_SECONDS || '1800'),
+    },
+    outbox: {
+      relayIntervalMs: parseInt(process.env.OUTBOX_RELAY_INTERVAL_MS || '5000'),
+      batchSize: parseInt(process.env.OUTBOX_BATCH_SIZE || '50'),
+      maxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '10'),
+      leaseMs: parseInt(process.env.OUTBOX_LEASE_MS || '60000'),
+      retentionDays: parseInt(process.env.OUTBOX_RETENTION_DAYS || '7'),
+    },
+    admin: {
+      telegramIds: (process.env.ADMIN_TELEGRAM_IDS || '').split(',').map(id => id.trim()).filter(Boolean),
+    },
+    webhooks: {
+      maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5'),
+      timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000'),
+    },
+    payments: {
+      defaultCurrency: (process.env.DEFAULT_CURRENCY || 'RUB').toUpperCase(),
+      provider: process.env.PAYMENT_PROVIDER === 'telegram' || process.env.PAYMENT_PROVIDER === 'fake'
+        ? process.env.PAYMENT_PROVIDER
+        : undefined,
+      providerToken: process.env.TELEGRAM_PAYMENT_PROVIDER_TOKEN,
+    },
+    tracing: {
+      exporter: process.env.TRACING_EXPORTER === 'console' || process.env.TRACING_EXPORTER === 'otlp'
+        ? process.env.TRACING_EXPORTER
+        : 'none',
+      otlpEndpoint: process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT,
+      serviceName: process.env.OTEL_SERVICE_NAME || 'vballagregator',
+    },
+    api: {
+      enabled: process.env.API_ENABLED !== 'false',
+      port: parseInt(process.env.API_PORT || '3001'),
+      token: process.env.API_TOKEN,
+      sessionSecret: process.env.API_SESSION_SECRET,
+      sessionTtlSeconds: parseInt(process.env.API_SESSION_TTL_SECONDS || '3600'),
+      authMaxAgeSeconds: parseInt(process.env.TELEGRAM_AUTH_MAX_AGE_SECONDS || '86400'),
+    },
+    metrics: {
+      token: process.env.METRICS_TOKEN,
+    },
   };
 }
 
@@ -71,9 +208,25 @@ export function validateConfig(config: AppConfig): void {
   if (!config.telegram.botToken) {
     throw new Error('TELEGRAM_BOT_TOKEN is required');
   }
+  if (config.payments.provider === 'telegram' && !config.payments.providerToken) {
+    throw new Error('TELEGRAM_PAYMENT_PROVIDER_TOKEN is required for PAYMENT_PROVIDER=telegram');
+  }
+  if (config.lifecycle.autoCloseMinutesBeforeStart < 0 || config.lifecycle.gameDurationMinutes <= 0) {
+    throw new Error('GAME_AUTO_CLOSE_MINUTES_BEFORE_START must be non-negative and GAME_DURATION_MINUTES positive');
+  }
+  if (config.waitlist.offerWindowMinutes <= 0 || config.waitlist.sweepIntervalMinutes <= 0) {
+    throw new Error('WAITLIST_OFFER_WINDOW_MINUTES and WAITLIST_OFFER_SWEEP_INTERVAL_MINUTES must be positive');
+  }
   if (config.notifications.maxRetries < 1 || config.notifications.maxRetries > 10) {
     throw new Error('NOTIFICATION_RETRIES must be between 1 and 10');
   }
 }
 
-export const config = loadConfig();
\ No newline at end of file
+export const config = loadConfig();
+
+/**
+ * Проверяет, является ли пользователь администратором бота
+ */
+export function isAdmin(telegramId: bigint | number | string): boolean {
+  return config.admin.telegramIds.includes(telegramId.toString());
+}
\ No newline at end of file
@@ -23,8 +23,17 @@ export function formatGameTime(date: Date, userTz: string = 'Asia/Irkutsk', loca
 /**
  * Форматирует время игры для уведомлений
  */
-export function formatGameTimeForNotification(date: Date, userTz?: string): string {
-  return formatGameTime(date, userTz);
+export function formatGameTimeForNotification(date: Date, userTz?: string, locale?: string): string {
+  return formatGameTime(date, userTz, locale);
+}
+
+/**
+ * Форматирует время игры в часовом поясе и локали получателя
+ * @param user - Запись пользователя (или ее часть) с настройками timezone и locale
+ */
+export function formatGameTimeForUser(date: Date, user?: UserLocalization | null): string {
+  const prefs = getUserPreferences(user);
+  return formatGameTime(date, prefs.timezone, prefs.locale);
 }
 
 /**
@@ -37,21 +46,26 @@ export function getDefaultUserPreferences(): UserPreferences {
   };
 }
 
+// Настройки часового пояса и языка, сохраненные в записи пользователя
+export type UserLocalization = { timezone?: string | null; locale?: string | null };
+
 /**
- * Получает часовой пояс пользователя (пока возвращает дефолтный)
- * В будущем можно расширить для хранения в БД
+ * Получает часовой пояс и локаль пользователя, незаполненные значения заменяются настройками по умолчанию
  */
-export function getUserTimezone(userId: string): string {
-  // TODO: Получать из БД или кеша настроек пользователя
-  return getDefaultUserPreferences().timezone;
+export function getUserPreferences(user?: UserLocalization | null): UserPreferences {
+  const defaults = getDefaultUserPreferences();
+  return {
+    timezone: user?.timezone || defaults.timezone,
+    locale: user?.locale || defaults.locale
+  };
 }
 
 /**
- * Получает локаль пользователя (пока возвращает дефолтную)
+ * Переводит момент времени в "настенное" время указанного TZ
+ * Возвращает Date объект, где getHours()/getDate() вернут значения в этом TZ
  */
-export function getUserLocale(userId: string): string {
-  // TODO: Получать из БД или кеша настроек пользователя
-  return getDefaultUserPreferences().locale;
+export function toTimezoneWallClock(date: Date, timezone: string): Date {
+  return new Date(date.toLocaleString('en-US', { timeZone: timezone }));
 }
 
 /**
@@ -79,11 +93,9 @@ export function isTodayInTimezone(date: Date, timezone: string): boolean {
  * Возвращает Date объект, где getHours() вернет часы в пользовательском TZ
  */
 export function getMinGameStartTime(timezone: string): Date {
+  // nowInTz уже содержит "настенное" время TZ, повторная конвертация сдвинула бы его еще раз
   const nowInTz = getCurrentTimeInTimezone(timezone);
-  const minTimeInTz = new Date(nowInTz.getTime() + 4 * 60 * 60 * 1000);
-  // Конвертируем обратно в строку и парсим, чтобы getHours() работал корректно
-  const timeString = minTimeInTz.toLocaleString('en-US', { timeZone: timezone });
-  return new Date(timeString);
+  return new Date(nowInTz.getTime() + 4 * 60 * 60 * 1000);
 }
 
 /**
@@ -108,7 +120,7 @@ export function convertUserTimeToUTC(userTime: Date, userTimezone: string): Date
 /**
  * Форматирует дату для кнопок: числами, год только если отличается от текущего
  */
-export function formatDateForButton(date: Date, userTz: string = 'Asia/Irkutsk'): string {
+export function formatDateForButton(date: Date, userTz: string = 'Asia/Irkutsk', locale: string = 'ru-RU'): string {
   const now = new Date();
   const gameDate = new Date(date.toLocaleString('en-US', { timeZone: userTz }));
 
@@ -124,5 +136,33 @@ export function formatDateForButton(date: Date, userTz: string = 'Asia/Irkutsk')
     timeZone: userTz
   };
 
-  return gameDate.toLocaleDateString('ru-RU', options);
-}
\ No newline at end of file
+  return date.toLocaleDateString(locale, options);
+}
+/**
+ * Возвращает смещение часового пояса относительно UTC (в мс) в указанный момент
+ */
+export function getTimezoneOffsetMs(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+
+  const wallClockAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Конвертирует "настенное" время в указанном TZ (год, месяц 1-12, день, часы, минуты) в момент UTC
+ */
+export function zonedTimeToUTC(year: number, month: number, day: number, hour: number, minute: number, timezone: string): Date {
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getTimezoneOffsetMs(new Date(wallClockAsUtc), timezone);
+  return new Date(wallClockAsUtc - offset);
+}
@@ -0,0 +1,58 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../infrastructure/prisma.js';
+import type { DomainEvent } from './event-bus.js';
+import { logger } from './logger.js';
+
+// BigInt (например, telegramId) в JSON не сериализуется - хранится объектом с маркером
+const BIGINT_MARKER = '$bigint';
+
+/**
+ * Payload события в виде JSON для хранения в базе
+ */
+export function toStoredPayload(payload: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(payload, (_key, value) =>
+    typeof value === 'bigint' ? { [BIGINT_MARKER]: value.toString() } : value
+  ));
+}
+
+/**
+ * Восстанавливает payload события из JSON, включая BigInt значения
+ */
+export function fromStoredPayload(payload: unknown): unknown {
+  return JSON.parse(JSON.stringify(payload), (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 1 && typeof value[BIGINT_MARKER] === 'string'
+      ? BigInt(value[BIGINT_MARKER])
+      : value
+  );
+}
+
+/**
+ * Сохраняет событие, которое обработчик не смог обработать, в dead letter queue
+ * Ошибка записи только логируется: публикация события не должна из-за нее падать
+ * @param handler - Имя обработчика
+ * @param reason - Ошибка обработчика
+ */
+export async function recordDeadLetter(event: DomainEvent, handler: string, reason: unknown): Promise<void> {
+  const error = reason instanceof Error ? reason.message : String(reason);
+  try {
+    await prisma.deadLetterEvent.create({
+      data: {
+        eventId: event.id || null,
+        eventType: event.type,
+        payload: toStoredPayload(event.payload),
+        occurredAt: event.occurredAt,
+        handler,
+        error
+      }
+    });
+    logger.warn('Event moved to dead letter queue', { eventType: event.type, eventId: event.id, handler, error });
+  } catch (storeError) {
+    logger.error('Failed to store dead letter event', {
+      eventType: event.type,
+      eventId: event.id,
+      handler,
+      error,
+      storeError: storeError instanceof Error ? storeError.message : 'Unknown error'
+    });
+  }
+}
@@ -3,6 +3,8 @@
  * Предоставляет структурированное логирование для многослойных приложений
  */
 
+import { currentTraceId } from './tracing.js';
+
 /**
  * Архитектурные слои в приложении
  */
@@ -140,10 +142,11 @@ export class PerformanceTracker {
 
 /**
  * Генератор корреляционных ID для трассировки операций
+ * Внутри активного спана корреляционным ID служит trace ID, поэтому логи связываются с трассой
  * @returns Уникальный корреляционный ID
  */
 export function generateCorrelationId(): string {
-  return `corr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  return currentTraceId() ?? `corr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
 /**
@@ -5,6 +5,7 @@ import { rateLimiter } from './rate-limiter.js';
 import { idempotencyService } from './idempotency-service.js';
 import { userPreferencesService } from './user-preferences-service.js';
 import { NotificationTracker } from './notification-service.js';
+import { NotificationTracker as NotificationOutcomes } from './notification-metrics.js';
 
 export interface NotificationRequest {
   userId: string;
@@ -36,6 +37,7 @@ export class EnhancedNotificationService {
       const isAllowed = await userPreferencesService.isAllowed(userId, type);
       if (!isAllowed) {
         logger.info('Notification blocked by user preferences', { userId, type });
+        NotificationOutcomes.recordBlocked(type, 'user_preferences');
         return { sent: false, reason: 'user_preferences' };
       }
 
@@ -49,6 +51,7 @@ export class EnhancedNotificationService {
         );
         if (!canSend) {
           logger.info('Notification blocked by idempotency', { userId, gameId, type });
+          NotificationOutcomes.recordBlocked(type, 'idempotency');
           return { sent: false, reason: 'idempotency' };
         }
       }
@@ -57,6 +60,7 @@ export class EnhancedNotificationService {
       const canSendRate = await rateLimiter.checkTelegramQuota();
       if (!canSendRate) {
         logger.warn('Notification blocked by rate limit', { userId, type });
+        NotificationOutcomes.recordBlocked(type, 'rate_limit');
         return { sent: false, reason: 'rate_limit' };
       }
 
@@ -67,6 +71,7 @@ export class EnhancedNotificationService {
       await rateLimiter.consumeTelegramQuota();
 
       logger.info('Notification sent successfully', { userId, type, gameId });
+      NotificationOutcomes.recordSent(type);
       return { sent: true };
 
     } catch (error) {
@@ -76,6 +81,7 @@ export class EnhancedNotificationService {
         gameId,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
+      NotificationOutcomes.recordFailed(type, 'error');
       return { sent: false, reason: 'error' };
     }
   }
@@ -102,11 +108,6 @@ export class EnhancedNotificationService {
             userId: notification.userId,
             reason: res.value.reason || 'unknown'
           });
-  
-          // Record blocked notifications in metrics
-          import('./notification-metrics.js').then(({ NotificationTracker }) => {
-            NotificationTracker.recordBlocked(notification.type, res.value.reason || 'unknown');
-          });
         }
       } else {
         result.failed++;
@@ -4,52 +4,51 @@ import {
   BusinessRuleError,
   SystemError
 } from '../domain/errors/index.js';
-import { DomainError, ERROR_CODES } from '../domain/errors.js';
+import { DomainError } from '../domain/errors.js';
+import { createTranslator, isMessageKey, type Translator } from './i18n/index.js';
+
+// Язык, на котором написаны тексты доменных ошибок (BusinessRuleError)
+const DOMAIN_MESSAGES_LOCALE = 'ru-RU';
 
 export class EnhancedErrorHandler {
-  private static domainErrorMessages: Record<string, string> = {
-    // Бизнес-правила
-    [ERROR_CODES.GAME_NOT_OPEN]: 'Игра не открыта для записи',
-    [ERROR_CODES.GAME_ALREADY_STARTED]: 'Игра уже началась',
-    [ERROR_CODES.CAPACITY_REACHED]: 'Все места заняты',
-    [ERROR_CODES.ALREADY_REGISTERED]: 'Вы уже зарегистрированы на эту игру',
-    [ERROR_CODES.VENUE_OCCUPIED]: 'Площадка занята в это время',
+  /**
+   * Текст ошибки для пользователя на его языке
+   * Сообщения берутся из каталога по коду ошибки (errors.<CODE>).
+   * Тексты BusinessRuleError конкретнее общего сообщения по коду, поэтому на их языке показываются как есть
+   * @param error - Ошибка
+   * @param t - Функция перевода получателя (по умолчанию - локаль по умолчанию)
+   */
+  static mapToUserMessage(error: Error, t: Translator = createTranslator()): string {
+    if (error instanceof ValidationError) {
+      return t('errors.validation', { field: String(error.context.field) });
+    }
 
-    // Валидация
-    [ERROR_CODES.INVALID_INPUT]: 'Некорректный ввод',
-    [ERROR_CODES.MISSING_REQUIRED_FIELD]: 'Обязательное поле не заполнено',
-    [ERROR_CODES.INVALID_FORMAT]: 'Некорректный формат данных',
-    [ERROR_CODES.VALUE_OUT_OF_RANGE]: 'Значение вне допустимого диапазона',
-    [ERROR_CODES.VALIDATION_FAILED]: 'Ошибка валидации',
+    if (error instanceof SystemError) {
+      return t('errors.system');
+    }
 
-    // Доступ
-    [ERROR_CODES.NOT_FOUND]: 'Сущность не найдена',
-    [ERROR_CODES.FORBIDDEN]: 'Доступ запрещен',
-    [ERROR_CODES.UNAUTHORIZED]: 'Необходима авторизация',
+    if (error instanceof BusinessRuleError && t.locale === DOMAIN_MESSAGES_LOCALE) {
+      return error.message;
+    }
 
-    // Системные
-    [ERROR_CODES.DATABASE_ERROR]: 'Ошибка базы данных',
-    [ERROR_CODES.EXTERNAL_SERVICE_ERROR]: 'Ошибка внешнего сервиса',
-    [ERROR_CODES.TIMEOUT_ERROR]: 'Превышено время ожидания',
-    [ERROR_CODES.SYSTEM_ERROR]: 'Системная ошибка',
-    [ERROR_CODES.INVALID_STATE]: 'Недопустимое состояние',
+    if (error instanceof AbstractDomainError || error instanceof DomainError) {
+      const key = `errors.${error.code}`;
+      if (isMessageKey(key)) return t(key);
+    }
 
-    // Устаревшие коды для обратной совместимости
-    [ERROR_CODES.PAYMENT_WINDOW_NOT_OPEN]: 'Окно оплаты еще не открыто',
-    [ERROR_CODES.NOT_CONFIRMED]: 'Только подтвержденные участники могут отмечать оплату',
-    [ERROR_CODES.PRIORITY_WINDOW_ACTIVE]: 'Игра доступна только для подтвержденных игроков организатора в приоритетное окно',
-  };
+    if (error instanceof BusinessRuleError) {
+      return error.message;
+    }
 
-  static mapToUserMessage(error: Error): string {
     if (error instanceof AbstractDomainError) {
       return error.getUserMessage();
     }
 
     if (error instanceof DomainError) {
-      return this.domainErrorMessages[error.code] || 'Неизвестная ошибка';
+      return t('errors.unknown');
     }
 
-    return 'Произошла ошибка. Попробуйте позже.';
+    return t('errors.generic');
   }
 
   static isRetryable(error: Error): boolean {
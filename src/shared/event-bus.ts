@@ -1,18 +1,28 @@
+import { v4 as uuid } from 'uuid';
 import { DomainEvent as TypedDomainEvent } from './types.js';
+import { withSpan, captureTraceContext, SpanKind, type TraceCarrier } from './tracing.js';
 
 export type DomainEvent = TypedDomainEvent & {
   occurredAt: Date;
   id?: string;
+  // Контекст трассы, в которой событие возникло (для событий из outbox - сохраненный при записи)
+  traceContext?: TraceCarrier;
 };
 
 export interface EventHandler {
+  // Имя для dead letter queue и повтора; по умолчанию - имя функции handle
+  name?: string;
   handle(event: DomainEvent): Promise<void>;
 }
 
+export interface PublishOptions {
+  // Отправлять ли событие в dead letter queue, если обработчики не справились (relay outbox повторит сам)
+  deadLetter?: boolean;
+}
+
 export class EventBus {
   private static instance: EventBus;
   private handlers = new Map<string, EventHandler[]>();
-  private deadLetterQueue: DomainEvent[] = [];
 
   private constructor() {}
 
@@ -30,28 +40,71 @@ export class EventBus {
     this.handlers.get(eventType)!.push(handler);
   }
 
-  async publish(event: DomainEvent): Promise<void> {
+  unsubscribe(eventType: string, handler: EventHandler): void {
+    const handlers = this.handlers.get(eventType) || [];
+    this.handlers.set(eventType, handlers.filter(candidate => candidate !== handler));
+  }
+
+  /**
+   * Передает событие всем подписчикам
+   * @returns true, если все обработчики завершились успешно
+   */
+  async publish(published: DomainEvent, options: PublishOptions = {}): Promise<boolean> {
+    // Событию без ID (опубликованному в обход outbox) назначается ID: с ним повторы из dead letter queue
+    // отсекаются так же, как повторы из outbox
+    const event = published.id ? published : { ...published, id: uuid() };
     logger.info('Publishing event via EventBus', { eventType: event.type, eventId: event.id });
     const handlers = this.handlers.get(event.type) || [];
 
     console.log('handlers', handlers)
 
+    // Каждый обработчик - в своем спане, продолжающем трассу источника события
+    const parent = event.traceContext ?? captureTraceContext();
     const results = await Promise.allSettled(
-      handlers.map(handler => this.handleWithRetry(handler, event))
+      handlers.map(handler => withSpan(`event ${event.type}`, {
+        'event.id': event.id,
+        'event.type': event.type,
+        'event.handler': getHandlerName(handler)
+      }, () => this.handleWithRetry(handler, event), { kind: SpanKind.CONSUMER, parent }))
     );
 
     // Проверяем неуспешную обработку
-    const failures = results.filter(r => r.status === 'rejected');
+    const failures = results.flatMap((result, index) =>
+      result.status === 'rejected' ? [{ handler: handlers[index]!, reason: result.reason }] : []
+    );
     if (failures.length > 0) {
       logger.error('Event processing failures', {
         eventType: event.type,
         failures: failures.length,
         totalHandlers: handlers.length
       });
+      for (const failure of failures) {
+        metrics.eventHandlerFailures.increment({ event_type: event.type, handler: getHandlerName(failure.handler) });
+      }
 
-      // Отправляем в dead letter queue
-      this.deadLetterQueue.push(event);
+      // Отправляем в dead letter queue: по записи на каждый обработчик, чтобы повторять только его
+      if (options.deadLetter ?? true) {
+        const { recordDeadLetter } = await import('./dead-letter-store.js');
+        for (const failure of failures) {
+          await recordDeadLetter(event, getHandlerName(failure.handler), failure.reason);
+        }
+      }
+      return false;
     }
+    return true;
+  }
+
+  /**
+   * Повторно передает событие одному обработчику (одна попытка, без повторов)
+   * @param handlerName - Имя обработчика из dead letter queue
+   * @throws Error если обработчик не найден или снова завершился с ошибкой
+   */
+  async replay(event: DomainEvent, handlerName: string): Promise<void> {
+    const handler = (this.handlers.get(event.type) || []).find(candidate => getHandlerName(candidate) === handlerName);
+    if (!handler) {
+      throw new Error(`Handler ${handlerName} is not subscribed to ${event.type}`);
+    }
+    await handler.handle(event);
   }
 
   private async handleWithRetry(handler: EventHandler, event: DomainEvent, maxRetries = 3): Promise<void> {
@@ -76,15 +129,12 @@ export class EventBus {
       }
     }
   }
+}
 
-  getDeadLetterQueue(): DomainEvent[] {
-    return [...this.deadLetterQueue];
-  }
-
-  clearDeadLetterQueue(): void {
-    this.deadLetterQueue.length = 0;
-  }
+function getHandlerName(handler: EventHandler): string {
+  return handler.name ?? (handler.handle.name || 'anonymous');
 }
 
-// Импорт logger для использования в EventBus
-import { logger } from './logger.js';
\ No newline at end of file
+// Импорт logger и метрик для использования в EventBus
+import { logger } from './logger.js';
+import { metrics } from './metrics.js';
\ No newline at end of file
@@ -1,44 +1,56 @@
 import { EventBus } from './event-bus.js';
+import { deduplicated } from './event-outbox.js';
 import { EnhancedNotificationService } from './enhanced-notification-service.js';
 import { config } from './config.js';
 import { prisma } from '../infrastructure/prisma.js';
-import { formatGameTimeForNotification, getUserTimezone } from './date-utils.js';
+import { formatGameTimeForUser } from './date-utils.js';
 import { LoggerFactory } from './layer-logger.js';
 import { LOG_MESSAGES } from './logging-messages.js';
 import { DomainEvent as TypedDomainEvent } from './types.js';
-import { getOrganizerName, getVenueName } from './game-constants.js';
+import { describeGameChanges, formatMoney, getAmountDueLine, getLedgerEntryTypeName, getLevelName, getOrganizerName, getPlayerLevelName, getVenueName } from './game-constants.js';
+import { getTranslator } from './i18n/index.js';
 
 const notificationService = new EnhancedNotificationService(config.telegram.botToken);
 const eventLogger = LoggerFactory.external('event-handlers');
 
 export async function registerEventHandlers(eventBus: EventBus): Promise<void> {
+  // События из outbox и очередей могут прийти повторно, их обработчики отсекают повторы по ID события
   // Game reminder handlers
-  eventBus.subscribe('GameReminder24h', { handle: handleGameReminder24h });
-  eventBus.subscribe('GameReminder2h', { handle: handleGameReminder2h });
+  eventBus.subscribe('GameReminder24h', deduplicated('handleGameReminder24h', { handle: handleGameReminder24h }));
+  eventBus.subscribe('GameReminder2h', deduplicated('handleGameReminder2h', { handle: handleGameReminder2h }));
 
   // Payment reminder handlers
-  eventBus.subscribe('PaymentReminder12h', { handle: handlePaymentReminder12h });
-  eventBus.subscribe('PaymentReminder24h', { handle: handlePaymentReminder24h });
-  eventBus.subscribe('SendPaymentReminders', { handle: handleSendPaymentReminders });
+  eventBus.subscribe('PaymentReminder12h', deduplicated('handlePaymentReminder12h', { handle: handlePaymentReminder12h }));
+  eventBus.subscribe('PaymentReminder24h', deduplicated('handlePaymentReminder24h', { handle: handlePaymentReminder24h }));
+  eventBus.subscribe('SendPaymentReminders', deduplicated('handleSendPaymentReminders', { handle: handleSendPaymentReminders }));
 
   // Player events
-  eventBus.subscribe('PlayerJoined', { handle: handlePlayerJoined });
-  eventBus.subscribe('WaitlistedPromoted', { handle: handleWaitlistedPromoted });
-  eventBus.subscribe('PaymentMarked', { handle: handlePaymentMarked });
+  eventBus.subscribe('PlayerJoined', deduplicated('handlePlayerJoined', { handle: handlePlayerJoined }));
+  eventBus.subscribe('WaitlistOfferMade', deduplicated('handleWaitlistOfferMade', { handle: handleWaitlistOfferMade }));
+  eventBus.subscribe('WaitlistOfferExpired', deduplicated('handleWaitlistOfferExpired', { handle: handleWaitlistOfferExpired }));
+  eventBus.subscribe('WaitlistedPromoted', deduplicated('handleWaitlistedPromoted', { handle: handleWaitlistedPromoted }));
+  eventBus.subscribe('PaymentMarked', deduplicated('handlePaymentMarked', { handle: handlePaymentMarked }));
+  eventBus.subscribe('PaymentChargedFromBalance', deduplicated('handlePaymentChargedFromBalance', { handle: handlePaymentChargedFromBalance }));
+  eventBus.subscribe('LedgerEntryRecorded', deduplicated('handleLedgerEntryRecorded', { handle: handleLedgerEntryRecorded }));
 
   // Additional events
-  eventBus.subscribe('RegistrationCanceled', { handle: handleRegistrationCanceled });
-  eventBus.subscribe('GameClosed', { handle: handleGameClosed });
-  eventBus.subscribe('PlayerLinkedToOrganizer', { handle: handlePlayerLinkedToOrganizer });
-  eventBus.subscribe('PaymentAttemptRejectedEarly', { handle: handlePaymentAttemptRejectedEarly });
+  eventBus.subscribe('RegistrationCanceled', deduplicated('handleRegistrationCanceled', { handle: handleRegistrationCanceled }));
+  eventBus.subscribe('GameClosed', deduplicated('handleGameClosed', { handle: handleGameClosed }));
+  eventBus.subscribe('GameUpdated', deduplicated('handleGameUpdated', { handle: handleGameUpdated }));
+  eventBus.subscribe('GameCanceled', deduplicated('handleGameCanceled', { handle: handleGameCanceled }));
+  eventBus.subscribe('PlayerLinkedToOrganizer', deduplicated('handlePlayerLinkedToOrganizer', { handle: handlePlayerLinkedToOrganizer }));
+  eventBus.subscribe('PaymentAttemptRejectedEarly', deduplicated('handlePaymentAttemptRejectedEarly', { handle: handlePaymentAttemptRejectedEarly }));
 
   // Player-Organizer relationship events
-  eventBus.subscribe('PlayerSelectedOrganizers', { handle: handlePlayerSelectedOrganizers });
-  eventBus.subscribe('PlayerConfirmedByOrganizer', { handle: handlePlayerConfirmedByOrganizer });
-  eventBus.subscribe('PlayerRejectedByOrganizer', { handle: handlePlayerRejectedByOrganizer });
-  eventBus.subscribe('GameCreatedWithPriorityWindow', { handle: handleGameCreatedWithPriorityWindow });
-  eventBus.subscribe('PlayerRespondedToGameInvitation', { handle: handlePlayerRespondedToGameInvitation });
-  eventBus.subscribe('GamePublishedForAll', { handle: handleGamePublishedForAll });
+  eventBus.subscribe('PlayerSelectedOrganizers', deduplicated('handlePlayerSelectedOrganizers', { handle: handlePlayerSelectedOrganizers }));
+  eventBus.subscribe('PlayerConfirmedByOrganizer', deduplicated('handlePlayerConfirmedByOrganizer', { handle: handlePlayerConfirmedByOrganizer }));
+  eventBus.subscribe('PlayerRejectedByOrganizer', deduplicated('handlePlayerRejectedByOrganizer', { handle: handlePlayerRejectedByOrganizer }));
+  eventBus.subscribe('PlayerLevelVerified', deduplicated('handlePlayerLevelVerified', { handle: handlePlayerLevelVerified }));
+  eventBus.subscribe('GameCreatedWithPriorityWindow', deduplicated('handleGameCreatedWithPriorityWindow', { handle: handleGameCreatedWithPriorityWindow }));
+  eventBus.subscribe('PlayerRespondedToGameInvitation', deduplicated('handlePlayerRespondedToGameInvitation', { handle: handlePlayerRespondedToGameInvitation }));
+  eventBus.subscribe('GamePublishedForAll', deduplicated('handleGamePublishedForAll', { handle: handleGamePublishedForAll }));
+  // Не публикуется: generateSeriesGames кладет событие прямо в dead letter queue, обработчик нужен для повтора оттуда
+  eventBus.subscribe('SeriesGameGenerationFailed', { handle: handleSeriesGameGenerationFailed });
 
   eventLogger.info('registerEventHandlers', LOG_MESSAGES.EVENT_HANDLERS.SETUP_COMPLETED);
 }
@@ -69,6 +81,7 @@ async function handleGameReminder24h(event: TypedDomainEvent) {
   const game = await prisma.game.findUnique({
     where: { id: gameId },
     include: {
+      venue: true,
       registrations: {
         where: { status: 'confirmed' },
         include: { user: true }
@@ -83,19 +96,20 @@ async function handleGameReminder24h(event: TypedDomainEvent) {
 
   const notifications = game.registrations
     .filter(reg => reg.user.telegramId)
-    .map(reg => ({
-      userId: reg.userId,
-      chatId: reg.user.telegramId!,
-      message: `⏰ Напоминание: игра завтра ${
-        formatGameTimeForNotification(game.startsAt, getUserTimezone(reg.userId))
-      }!\n${
-        getVenueName(game.venueId) || ''
-      }\n💰 ${
-        game.priceText || 'Бесплатно'
-      }`,
-      type: 'game-reminder-24h',
-      gameId
-    }));
+    .map(reg => {
+      const t = getTranslator(reg.user);
+      return {
+        userId: reg.userId,
+        chatId: reg.user.telegramId!,
+        message: t('notifications.gameReminder24h', {
+          time: formatGameTimeForUser(game.startsAt, reg.user),
+          venue: getVenueName(game.venue),
+          price: game.priceText || t('common.free')
+        }),
+        type: 'game-reminder-24h',
+        gameId
+      };
+    });
 
   try {
     const result = await notificationService.sendBatch(notifications);
@@ -118,6 +132,7 @@ async function handleGameReminder2h(event: TypedDomainEvent) {
   const game = await prisma.game.findUnique({
     where: { id: gameId },
     include: {
+      venue: true,
       registrations: {
         where: { status: 'confirmed' },
         include: { user: true }
@@ -132,19 +147,20 @@ async function handleGameReminder2h(event: TypedDomainEvent) {
 
   const notifications = game.registrations
     .filter(reg => reg.user.telegramId)
-    .map(reg => ({
-      userId: reg.userId,
-      chatId: reg.user.telegramId!,
-      message: `🚨 Через 2 часа игра!\n⏰ ${
-        formatGameTimeForNotification(game.startsAt, getUserTimezone(reg.userId))
-      }\n${
-        getVenueName(game.venueId) || ''
-      }\n💰 ${
-        game.priceText || 'Бесплатно'
-      }`,
-      type: 'game-reminder-2h',
-      gameId
-    }));
+    .map(reg => {
+      const t = getTranslator(reg.user);
+      return {
+        userId: reg.userId,
+        chatId: reg.user.telegramId!,
+        message: t('notifications.gameReminder2h', {
+          time: formatGameTimeForUser(game.startsAt, reg.user),
+          venue: getVenueName(game.venue),
+          price: game.priceText || t('common.free')
+        }),
+        type: 'game-reminder-2h',
+        gameId
+      };
+    });
 
   try {
     const result = await notificationService.sendBatch(notifications);
@@ -185,15 +201,24 @@ async function handlePaymentReminder12h(event: TypedDomainEvent) {
     return;
   }
 
+  // Сумма в напоминании - текущая доля игрока (аренда делится на всех подтвержденных)
+  const confirmedCount = await prisma.registration.count({ where: { gameId, status: 'confirmed' } });
   const notifications = game.registrations
     .filter(reg => reg.user.telegramId)
-    .map(reg => ({
-      userId: reg.userId,
-      chatId: reg.user.telegramId!,
-      message: `💰 Напоминание: оплата за игру ${game.id || ''}\n${getOrganizerName(game)}💳 Пожалуйста, произведите оплату`,
-      type: 'payment-reminder-12h',
-      gameId
-    }));
+    .map(reg => {
+      const t = getTranslator(reg.user);
+      return {
+        userId: reg.userId,
+        chatId: reg.user.telegramId!,
+        message: t('notifications.paymentReminder12h', {
+          gameId: game.id || '',
+          amountDue: getAmountDueLine(game, confirmedCount, t),
+          organizer: getOrganizerName(game, t)
+        }),
+        type: 'payment-reminder-12h',
+        gameId
+      };
+    });
 
   try {
     const result = await notificationService.sendBatch(notifications);
@@ -234,15 +259,24 @@ async function handlePaymentReminder24h(event: TypedDomainEvent) {
     return;
   }
 
+  // Сумма в напоминании - текущая доля игрока (аренда делится на всех подтвержденных)
+  const confirmedCount = await prisma.registration.count({ where: { gameId, status: 'confirmed' } });
   const notifications = game.registrations
     .filter(reg => reg.user.telegramId)
-    .map(reg => ({
-      userId: reg.userId,
-      chatId: reg.user.telegramId!,
-      message: `⚠️ Последнее напоминание об оплате!\n💰 Игра ${game.id || ''}\n${getOrganizerName(game)}⏰ Просьба оплатить в ближайшее время`,
-      type: 'payment-reminder-24h',
-      gameId
-    }));
+    .map(reg => {
+      const t = getTranslator(reg.user);
+      return {
+        userId: reg.userId,
+        chatId: reg.user.telegramId!,
+        message: t('notifications.paymentReminder24h', {
+          gameId: game.id || '',
+          amountDue: getAmountDueLine(game, confirmedCount, t),
+          organizer: getOrganizerName(game, t)
+        }),
+        type: 'payment-reminder-24h',
+        gameId
+      };
+    });
 
   try {
     const result = await notificationService.sendBatch(notifications);
@@ -279,8 +313,9 @@ async function handlePlayerJoined(event: TypedDomainEvent) {
     return;
   }
 
-  const statusText = status === 'confirmed' ? '✅ Подтвержден' : '⏳ В листе ожидания';
-  const message = `👤 Новый участник в игре!\n${player.name} - ${statusText}`;
+  const t = getTranslator(game.organizer.user);
+  const statusText = t(status === 'confirmed' ? 'notifications.playerJoinedConfirmed' : 'notifications.playerJoinedWaitlisted');
+  const message = t('notifications.playerJoined', { name: player.name, status: statusText });
 
   try {
     await notificationService.sendNotification({
@@ -296,6 +331,79 @@ async function handlePlayerJoined(event: TypedDomainEvent) {
   }
 }
 
+async function handleWaitlistOfferMade(event: TypedDomainEvent) {
+  if (event.type !== 'WaitlistOfferMade') return;
+  const { gameId, userId, expiresAt } = event.payload;
+  eventLogger.info('handleWaitlistOfferMade', LOG_MESSAGES.EVENT_HANDLERS.WAITLIST_OFFER_PROCESSING, { gameId, userId }, { gameId, userId });
+
+  const registration = await prisma.registration.findFirst({
+    where: { gameId, userId },
+    include: { user: true, game: { include: { venue: true } } }
+  });
+
+  if (!registration?.user?.telegramId) {
+    eventLogger.warn('handleWaitlistOfferMade', LOG_MESSAGES.EVENT_HANDLERS.WAITLIST_OFFER_USER_NOT_FOUND, { gameId, userId }, { gameId, userId });
+    return;
+  }
+
+  const t = getTranslator(registration.user);
+  const message = t('notifications.waitlistOffer', {
+    time: formatGameTimeForUser(registration.game.startsAt, registration.user),
+    venue: getVenueName(registration.game.venue),
+    expiresAt: formatGameTimeForUser(new Date(expiresAt), registration.user)
+  });
+
+  try {
+    // Без gameId: повторное предложение по той же игре не должно отсекаться защитой от повторов
+    await notificationService.sendNotification({
+      userId: registration.userId,
+      chatId: registration.user.telegramId,
+      message,
+      type: 'waitlist-offer',
+      buttons: [[
+        { text: t('waitlist.acceptButton'), callback_data: `offer_accept_${gameId}` },
+        { text: t('waitlist.declineButton'), callback_data: `offer_decline_${gameId}` }
+      ]]
+    });
+    eventLogger.info('handleWaitlistOfferMade', LOG_MESSAGES.EVENT_HANDLERS.WAITLIST_OFFER_NOTIFICATION_SENT, { gameId, userId, userTelegramId: registration.user.telegramId }, { gameId, userId });
+  } catch (error) {
+    eventLogger.error('handleWaitlistOfferMade', LOG_MESSAGES.EVENT_HANDLERS.WAITLIST_OFFER_NOTIFICATION_FAILED, error as Error, { gameId, userId }, { gameId, userId });
+  }
+}
+
+async function handleWaitlistOfferExpired(event: TypedDomainEvent) {
+  if (event.type !== 'WaitlistOfferExpired') return;
+  const { gameId, userId } = event.payload;
+  eventLogger.info('handleWaitlistOfferExpired', LOG_MESSAGES.EVENT_HANDLERS.WAITLIST_OFFER_PROCESSING, { gameId, userId }, { gameId, userId });
+
+  const registration = await prisma.registration.findFirst({
+    where: { gameId, userId },
+    include: { user: true, game: true }
+  });
+
+  if (!registration?.user?.telegramId) {
+    eventLogger.warn('handleWaitlistOfferExpired', LOG_MESSAGES.EVENT_HANDLERS.WAITLIST_OFFER_USER_NOT_FOUND, { gameId, userId }, { gameId, userId });
+    return;
+  }
+
+  const message = getTranslator(registration.user)('notifications.waitlistOfferExpired', {
+    time: formatGameTimeForUser(registration.game.startsAt, registration.user)
+  });
+
+  try {
+    await notificationService.sendNotification({
+      userId: registration.userId,
+      chatId: registration.user.telegramId,
+      message,
+      type: 'waitlist-offer-expired',
+      gameId
+    });
+    eventLogger.info('handleWaitlistOfferExpired', LOG_MESSAGES.EVENT_HANDLERS.WAITLIST_OFFER_NOTIFICATION_SENT, { gameId, userId, userTelegramId: registration.user.telegramId }, { gameId, userId });
+  } catch (error) {
+    eventLogger.error('handleWaitlistOfferExpired', LOG_MESSAGES.EVENT_HANDLERS.WAITLIST_OFFER_NOTIFICATION_FAILED, error as Error, { gameId, userId }, { gameId, userId });
+  }
+}
+
 async function handleWaitlistedPromoted(event: TypedDomainEvent) {
   if (event.type !== 'WaitlistedPromoted') return;
   const { gameId, userId } = event.payload;
@@ -312,9 +420,8 @@ async function handleWaitlistedPromoted(event: TypedDomainEvent) {
     return;
   }
 
-  const userTz = getUserTimezone(registration.userId);
-  const gameTime = formatGameTimeForNotification(registration.game.startsAt, userTz);
-  const message = `🎉 Поздравляем! Вы продвинуты из листа ожидания!\n✅ Место подтверждено на игру ${gameTime}\n💰 Не забудьте оплатить участие`;
+  const gameTime = formatGameTimeForUser(registration.game.startsAt, registration.user);
+  const message = getTranslator(registration.user)('notifications.waitlistPromoted', { time: gameTime });
 
   try {
     await notificationService.sendNotification({
@@ -352,7 +459,7 @@ async function handlePaymentMarked(event: TypedDomainEvent) {
     return;
   }
 
-  const message = `💰 Оплата получена!\n👤 ${user.name} отметил оплату за игру`;
+  const message = getTranslator(game.organizer.user)('notifications.paymentMarked', { name: user.name });
 
   try {
     await notificationService.sendNotification({
@@ -368,6 +475,110 @@ async function handlePaymentMarked(event: TypedDomainEvent) {
   }
 }
 
+async function handlePaymentChargedFromBalance(event: TypedDomainEvent) {
+  if (event.type !== 'PaymentChargedFromBalance') return;
+  const { gameId, userId, amount, currency, balance } = event.payload;
+  eventLogger.info('handlePaymentChargedFromBalance', LOG_MESSAGES.EVENT_HANDLERS.PAYMENT_CHARGED_FROM_BALANCE_PROCESSING, { gameId, userId, amount }, { gameId, userId });
+
+  const [game, user] = await Promise.all([
+    prisma.game.findUnique({ where: { id: gameId } }),
+    prisma.user.findUnique({ where: { id: userId } })
+  ]);
+  if (!game || !user?.telegramId) {
+    eventLogger.warn('handlePaymentChargedFromBalance', LOG_MESSAGES.EVENT_HANDLERS.PAYMENT_CHARGED_FROM_BALANCE_NOT_FOUND, { gameId, userId }, { gameId, userId });
+    return;
+  }
+
+  const t = getTranslator(user);
+  const message = t('notifications.paymentChargedFromBalance', {
+    time: formatGameTimeForUser(game.startsAt, user),
+    amount: formatMoney(amount, currency, t),
+    balance: formatMoney(balance, currency, t)
+  });
+
+  try {
+    await notificationService.sendNotification({
+      userId: user.id,
+      chatId: user.telegramId,
+      message,
+      type: 'payment-charged-from-balance',
+      gameId
+    });
+    eventLogger.info('handlePaymentChargedFromBalance', LOG_MESSAGES.EVENT_HANDLERS.PAYMENT_CHARGED_FROM_BALANCE_NOTIFICATION_SENT, { gameId, userId }, { gameId, userId });
+  } catch (error) {
+    eventLogger.error('handlePaymentChargedFromBalance', LOG_MESSAGES.EVENT_HANDLERS.PAYMENT_CHARGED_FROM_BALANCE_NOTIFICATION_FAILED, error as Error, { gameId, userId }, { gameId, userId });
+  }
+}
+
+async function handleLedgerEntryRecorded(event: TypedDomainEvent) {
+  if (event.type !== 'LedgerEntryRecorded') return;
+  const { organizerId, userId, type, amount, currency, balance } = event.payload;
+  eventLogger.info('handleLedgerEntryRecorded', LOG_MESSAGES.EVENT_HANDLERS.LEDGER_ENTRY_RECORDED_PROCESSING, { organizerId, userId, type, amount }, { userId });
+
+  const [organizer, user] = await Promise.all([
+    prisma.organizer.findUnique({ where: { id: organizerId }, include: { user: true } }),
+    prisma.user.findUnique({ where: { id: userId } })
+  ]);
+  if (!organizer || !user?.telegramId) {
+    eventLogger.warn('handleLedgerEntryRecorded', LOG_MESSAGES.EVENT_HANDLERS.LEDGER_ENTRY_RECORDED_NOT_FOUND, { organizerId, userId }, { userId });
+    return;
+  }
+
+  const t = getTranslator(user);
+  const message = t('notifications.ledgerEntryRecorded', {
+    type: getLedgerEntryTypeName(type, t),
+    amount: formatMoney(amount, currency, t),
+    organizer: organizer.title ?? organizer.user.name,
+    balance: formatMoney(balance, currency, t)
+  });
+
+  try {
+    await notificationService.sendNotification({
+      userId: user.id,
+      chatId: user.telegramId,
+      message,
+      type: 'ledger-entry-recorded'
+    });
+    eventLogger.info('handleLedgerEntryRecorded', LOG_MESSAGES.EVENT_HANDLERS.LEDGER_ENTRY_RECORDED_NOTIFICATION_SENT, { organizerId, userId }, { userId });
+  } catch (error) {
+    eventLogger.error('handleLedgerEntryRecorded', LOG_MESSAGES.EVENT_HANDLERS.LEDGER_ENTRY_RECORDED_NOTIFICATION_FAILED, error as Error, { organizerId, userId }, { userId });
+  }
+}
+
+async function handlePlayerLevelVerified(event: TypedDomainEvent) {
+  if (event.type !== 'PlayerLevelVerified') return;
+  const { organizerId, userId, from, to } = event.payload;
+  eventLogger.info('handlePlayerLevelVerified', LOG_MESSAGES.EVENT_HANDLERS.PLAYER_LEVEL_VERIFIED_PROCESSING, { organizerId, userId, from, to }, { userId });
+
+  const [organizer, user] = await Promise.all([
+    prisma.organizer.findUnique({ where: { id: organizerId }, include: { user: true } }),
+    prisma.user.findUnique({ where: { id: userId } })
+  ]);
+  if (!organizer || !user?.telegramId) {
+    eventLogger.warn('handlePlayerLevelVerified', LOG_MESSAGES.EVENT_HANDLERS.PLAYER_LEVEL_VERIFIED_NOT_FOUND, { organizerId, userId }, { userId });
+    return;
+  }
+
+  const t = getTranslator(user);
+  const organizerName = organizer.title ?? organizer.user.name;
+  // Организатор мог как подтвердить выбранный игроком уровень, так и исправить его
+  const message = from === to
+    ? t('notifications.levelVerified', { organizer: organizerName, level: getPlayerLevelName(to, t) })
+    : t('notifications.levelAdjusted', { organizer: organizerName, from: getPlayerLevelName(from, t), to: getPlayerLevelName(to, t) });
+
+  try {
+    await notificationService.sendNotification({
+      userId: user.id,
+      chatId: user.telegramId,
+      message,
+      type: 'player-level-verified'
+    });
+    eventLogger.info('handlePlayerLevelVerified', LOG_MESSAGES.EVENT_HANDLERS.PLAYER_LEVEL_VERIFIED_NOTIFICATION_SENT, { organizerId, userId }, { userId });
+  } catch (error) {
+    eventLogger.error('handlePlayerLevelVerified', LOG_MESSAGES.EVENT_HANDLERS.PLAYER_LEVEL_VERIFIED_NOTIFICATION_FAILED, error as Error, { organizerId, userId }, { userId });
+  }
+}
+
 async function handleSendPaymentReminders(event: TypedDomainEvent) {
   if (event.type !== 'SendPaymentReminders') return;
   const { gameId, unpaidRegistrations } = event.payload;
@@ -382,14 +593,31 @@ async function handleSendPaymentReminders(event: TypedDomainEvent) {
     return;
   }
   
-  const message = `💰 Напоминание об оплате!\nИгра "${game.levelTag || 'Волейбол'}" завершена\n${getOrganizerName(game)}⏰ Пожалуйста, отметьте оплату командой /pay ${gameId}`;
+  // Текст напоминания - на языке каждого получателя
+  const recipients = await prisma.user.findMany({
+    where: { id: { in: unpaidRegistrations.map(reg => reg.userId) } },
+    select: { id: true, locale: true }
+  });
+  const recipientsById = new Map(recipients.map(recipient => [recipient.id, recipient]));
+
+  const confirmedCount = await prisma.registration.count({ where: { gameId, status: 'confirmed' } });
+
+  const buildMessage = (userId: string) => {
+    const t = getTranslator(recipientsById.get(userId));
+    return t('notifications.manualPaymentReminder', {
+      game: getLevelName(game.levelTag ?? undefined, t) || t('notifications.defaultGameName'),
+      amountDue: getAmountDueLine(game, confirmedCount, t),
+      organizer: getOrganizerName(game, t),
+      gameId
+    });
+  };
 
   const notifications = unpaidRegistrations
     .filter(reg => reg.telegramId)
     .map(reg => ({
       userId: reg.userId,
       chatId: reg.telegramId!,
-      message,
+      message: buildMessage(reg.userId),
       type: 'manual-payment-reminder',
       gameId
     }));
@@ -429,7 +657,7 @@ async function handleRegistrationCanceled(event: TypedDomainEvent) {
     return;
   }
 
-  const message = `❌ Отмена регистрации\nИгрок ${player.name} отменил участие в игре`;
+  const message = getTranslator(game.organizer.user)('notifications.registrationCanceled', { name: player.name });
 
   try {
     await notificationService.sendNotification({
@@ -451,6 +679,114 @@ async function handleGameClosed(event: TypedDomainEvent) {
   eventLogger.info('handleGameClosed', LOG_MESSAGES.EVENT_HANDLERS.GAME_CLOSED_PROCESSING, { gameId: event.payload.gameId }, { gameId: event.payload.gameId });
 }
 
+async function handleGameUpdated(event: TypedDomainEvent) {
+  if (event.type !== 'GameUpdated') return;
+  const { gameId, changes, offeredUserIds } = event.payload;
+  eventLogger.info('handleGameUpdated', LOG_MESSAGES.EVENT_HANDLERS.GAME_UPDATED_PROCESSING, { gameId, fields: Object.keys(changes) }, { gameId });
+
+  const game = await prisma.game.findUnique({
+    where: { id: gameId },
+    include: {
+      venue: true,
+      registrations: {
+        where: { status: { in: ['confirmed', 'waitlisted', 'offered'] } },
+        include: { user: true }
+      }
+    }
+  });
+
+  if (!game) {
+    eventLogger.warn('handleGameUpdated', LOG_MESSAGES.EVENT_HANDLERS.GAME_UPDATED_NOT_FOUND, { gameId }, { gameId });
+    return;
+  }
+
+  const venueIds = changes.venueId ? [String(changes.venueId.from), String(changes.venueId.to)] : [];
+  const venues = venueIds.length > 0 ? await prisma.venue.findMany({ where: { id: { in: venueIds } } }) : [];
+  const venueNames = Object.fromEntries(venues.map(venue => [venue.id, venue.name]));
+
+  // Игроки, которым только что предложено место, получают отдельное уведомление WaitlistOfferMade
+  const offered = new Set(offeredUserIds);
+
+  const notifications = game.registrations
+    .filter(reg => reg.user.telegramId && !offered.has(reg.userId))
+    .map(reg => {
+      const t = getTranslator(reg.user);
+      return {
+        userId: reg.userId,
+        chatId: reg.user.telegramId!,
+        message: t('notifications.gameUpdated', {
+          time: formatGameTimeForUser(game.startsAt, reg.user),
+          venue: getVenueName(game.venue),
+          changes: describeGameChanges(changes, venueNames, reg.user).join('\n')
+        }),
+        type: 'game-updated',
+        gameId
+      };
+    });
+
+  try {
+    const result = await notificationService.sendBatch(notifications);
+    eventLogger.info('handleGameUpdated', LOG_MESSAGES.EVENT_HANDLERS.GAME_UPDATED_NOTIFICATIONS_SENT, {
+      gameId,
+      successful: result.successful,
+      failed: result.failed
+    }, { gameId });
+  } catch (error) {
+    eventLogger.error('handleGameUpdated', LOG_MESSAGES.EVENT_HANDLERS.GAME_UPDATED_NOTIFICATIONS_FAILED, error as Error, { gameId }, { gameId });
+  }
+}
+
+async function handleGameCanceled(event: TypedDomainEvent) {
+  if (event.type !== 'GameCanceled') return;
+  const { gameId, reason, notifyUserIds, refundDueUserIds } = event.payload;
+  eventLogger.info('handleGameCanceled', LOG_MESSAGES.EVENT_HANDLERS.GAME_CANCELED_PROCESSING, { gameId, players: notifyUserIds.length }, { gameId });
+
+  const game = await prisma.game.findUnique({
+    where: { id: gameId },
+    include: { venue: true, organizer: { include: { user: true } } }
+  });
+
+  if (!game) {
+    eventLogger.warn('handleGameCanceled', LOG_MESSAGES.EVENT_HANDLERS.GAME_CANCELED_NOT_FOUND, { gameId }, { gameId });
+    return;
+  }
+
+  const users = await prisma.user.findMany({ where: { id: { in: notifyUserIds } } });
+  const refundDue = new Set(refundDueUserIds);
+
+  const buildMessage = (user: typeof users[number]) => {
+    const t = getTranslator(user);
+    return `${
+      t('notifications.gameCanceled', { time: formatGameTimeForUser(game.startsAt, user), venue: getVenueName(game.venue) })
+    }${
+      reason ? `\n${t('cancel.reason', { reason })}` : ''
+    }${
+      refundDue.has(user.id) ? `\n\n${t('notifications.gameCanceledRefund', { organizer: game.organizer.user.name })}` : ''
+    }`;
+  };
+
+  const notifications = users
+    .filter(user => user.telegramId)
+    .map(user => ({
+      userId: user.id,
+      chatId: user.telegramId,
+      message: buildMessage(user),
+      type: 'game-canceled',
+      gameId
+    }));
+
+  try {
+    const result = await notificationService.sendBatch(notifications);
+    eventLogger.info('handleGameCanceled', LOG_MESSAGES.EVENT_HANDLERS.GAME_CANCELED_NOTIFICATIONS_SENT, {
+      gameId,
+      successful: result.successful,
+      failed: result.failed
+    }, { gameId });
+  } catch (error) {
+    eventLogger.error('handleGameCanceled', LOG_MESSAGES.EVENT_HANDLERS.GAME_CANCELED_NOTIFICATIONS_FAILED, error as Error, { gameId }, { gameId });
+  }
+}
+
 async function handlePlayerLinkedToOrganizer(event: TypedDomainEvent) {
   if (event.type !== 'PlayerLinkedToOrganizer') return;
   // Обработчик для связи игрока с организатором - пока пустой, можно добавить логику позже
@@ -484,23 +820,24 @@ async function handlePlayerSelectedOrganizers(event: TypedDomainEvent) {
     return;
   }
 
-  const message = `👤 Новый запрос на связь!\nИгрок ${player.name} хочет присоединиться к вашим играм.`;
-
   const notifications = organizers
     .filter(org => org.user?.telegramId)
-    .map(org => ({
-      userId: org.userId,
-      chatId: org.user!.telegramId!,
-      message,
-      type: 'player-selected-organizer',
-      gameId: undefined,
-      buttons: [
-        [
-          { text: '✅ Принять', callback_data: `confirm_player_${playerId}` },
-          { text: '❌ Отказать', callback_data: `reject_player_${playerId}` }
+    .map(org => {
+      const t = getTranslator(org.user);
+      return {
+        userId: org.userId,
+        chatId: org.user!.telegramId!,
+        message: t('notifications.playerSelectedOrganizers', { name: player.name }),
+        type: 'player-selected-organizer',
+        gameId: undefined,
+        buttons: [
+          [
+            { text: t('notifications.accept'), callback_data: `confirm_player_${playerId}` },
+            { text: t('notifications.decline'), callback_data: `reject_player_${playerId}` }
+          ]
         ]
-      ]
-    }));
+      };
+    });
 
   try {
     const result = await notificationService.sendBatch(notifications);
@@ -532,7 +869,10 @@ async function handlePlayerConfirmedByOrganizer(event: TypedDomainEvent) {
     include: { user: true }
   });
 
-  const message = `✅ Поздравляем!\nОрганизатор ${organizer?.title || organizer?.user?.name || 'Unknown'} подтвердил вашу связь.\nТеперь вы будете получать приоритетные приглашения на игры!`;
+  const t = getTranslator(player);
+  const message = t('notifications.playerConfirmed', {
+    organizer: organizer?.title || organizer?.user?.name || t('common.unknownName')
+  });
 
   try {
     await notificationService.sendNotification({
@@ -565,7 +905,10 @@ async function handlePlayerRejectedByOrganizer(event: TypedDomainEvent) {
     include: { user: true }
   });
 
-  const message = `❌ Связь отклонена\nОрганизатор ${organizer?.title || organizer?.user?.name || 'Unknown'} отклонил ваш запрос на связь.`;
+  const t = getTranslator(player);
+  const message = t('notifications.playerRejected', {
+    organizer: organizer?.title || organizer?.user?.name || t('common.unknownName')
+  });
 
   try {
     await notificationService.sendNotification({
@@ -589,7 +932,7 @@ async function handleGameCreatedWithPriorityWindow(event: TypedDomainEvent) {
   // Найти игру для получения деталей
   const game = await prisma.game.findUnique({
     where: { id: gameId },
-    include: { organizer: { include: { user: true } } }
+    include: { organizer: { include: { user: true } }, venue: true }
   });
 
   if (!game) {
@@ -597,32 +940,42 @@ async function handleGameCreatedWithPriorityWindow(event: TypedDomainEvent) {
     return;
   }
 
-  const gameTime = formatGameTimeForNotification(game.startsAt);
-  const message = `🎾 Приоритетное приглашение!\n${
-    gameTime
-  }\n${
-    getVenueName(game.venueId) || ''
-  }\n💰 ${
-    game.priceText || 'По согласованию'
-  }\n${
-    getOrganizerName(game)
-  }\n\n⏰ У вас есть 2 часа на ответ!`;
+  // Время игры показываем в часовом поясе каждого игрока
+  const recipients = await prisma.user.findMany({
+    where: { id: { in: confirmedPlayers.map(player => player.playerId) } },
+    select: { id: true, timezone: true, locale: true }
+  });
+  const recipientsById = new Map(recipients.map(recipient => [recipient.id, recipient]));
+
+  const buildMessage = (playerId: string) => {
+    const recipient = recipientsById.get(playerId);
+    const t = getTranslator(recipient);
+    return t('notifications.priorityInvitation', {
+      time: formatGameTimeForUser(game.startsAt, recipient),
+      venue: getVenueName(game.venue),
+      price: game.priceText || t('common.priceByAgreement'),
+      organizer: getOrganizerName(game, t)
+    });
+  };
 
   const notifications = confirmedPlayers
     .filter(player => player.telegramId)
-    .map(player => ({
-      userId: player.playerId,
-      chatId: player.telegramId,
-      message,
-      type: 'priority-game-invitation',
-      gameId,
-      buttons: [
-        [
-          { text: '✅ Да', callback_data: `respond_game_${gameId}_yes` },
-          { text: '❌ Нет', callback_data: `respond_game_${gameId}_no` }
+    .map(player => {
+      const t = getTranslator(recipientsById.get(player.playerId));
+      return {
+        userId: player.playerId,
+        chatId: player.telegramId,
+        message: buildMessage(player.playerId),
+        type: 'priority-game-invitation',
+        gameId,
+        buttons: [
+          [
+            { text: t('common.yes'), callback_data: `respond_game_${gameId}_yes` },
+            { text: t('common.no'), callback_data: `respond_game_${gameId}_no` }
+          ]
         ]
-      ]
-    }));
+      };
+    });
 
   try {
     const result = await notificationService.sendBatch(notifications);
@@ -654,7 +1007,8 @@ async function handlePlayerRespondedToGameInvitation(event: TypedDomainEvent) {
   }
 
   const player = await prisma.user.findUnique({ where: { id: playerId } });
-  const responseText = response === 'yes' ? '✅ Да' : response === 'no' ? '❌ Нет' : '⏳ Игнорирует';
+  const t = getTranslator(game.organizer.user);
+  const responseText = t(response === 'yes' ? 'common.yes' : response === 'no' ? 'common.no' : 'notifications.responseIgnored');
 
   // Если игрок ответил "yes", добавить его в игру
   if (response === 'yes') {
@@ -667,7 +1021,11 @@ async function handlePlayerRespondedToGameInvitation(event: TypedDomainEvent) {
     }
   }
 
-  const message = `📝 Ответ на приглашение\nИгрок ${player?.name || 'Unknown'}: ${responseText}\nИгра: ${gameId}`;
+  const message = t('notifications.invitationResponse', {
+    name: player?.name || t('common.unknownName'),
+    response: responseText,
+    gameId
+  });
 
   try {
     await notificationService.sendNotification({
@@ -730,16 +1088,15 @@ async function handleGamePublishedForAll(event: TypedDomainEvent) {
     user.telegramId !== null && !priorityPlayerIds.has(user.id)
   );
 
-  const gameTime = formatGameTimeForNotification(game.startsAt);
-  const message = `🎾 Новая игра доступна!\n${
-    gameTime
-  }\n${
-    game.levelTag || 'Общий уровень'
-  }\n💰 ${
-    game.priceText || 'По согласованию с организатором'
-  }\n${
-    getOrganizerName(game)
-  }\n`;
+  const buildMessage = (user: { timezone: string; locale: string }) => {
+    const t = getTranslator(user);
+    return t('notifications.gamePublished', {
+      time: formatGameTimeForUser(game.startsAt, user),
+      level: getLevelName(game.levelTag ?? undefined, t) || t('level.general'),
+      price: game.priceText || t('common.priceByOrganizer'),
+      organizer: getOrganizerName(game, t)
+    });
+  };
 
   const notifications = filteredUsers
     .filter(user => {
@@ -750,12 +1107,12 @@ async function handleGamePublishedForAll(event: TypedDomainEvent) {
     .map(user => ({
       userId: user.id,
       chatId: user.telegramId!,
-      message,
+      message: buildMessage(user),
       type: 'game-published-for-all',
       gameId,
       buttons: [
         [
-          { text: 'Присоединиться', callback_data: `join_game_${gameId}` }
+          { text: getTranslator(user)('notifications.join'), callback_data: `join_game_${gameId}` }
         ]
       ]
     }));
@@ -771,4 +1128,13 @@ async function handleGamePublishedForAll(event: TypedDomainEvent) {
   } catch (error) {
     eventLogger.error('handleGamePublishedForAll', LOG_MESSAGES.EVENT_HANDLERS.GAME_PUBLISHED_FOR_ALL_NOTIFICATIONS_FAILED, error as Error, { gameId }, { gameId });
   }
-}
\ No newline at end of file
+}
+
+async function handleSeriesGameGenerationFailed(event: TypedDomainEvent) {
+  if (event.type !== 'SeriesGameGenerationFailed') return;
+  const { seriesId, startsAt } = event.payload;
+
+  const { retrySeriesGame } = await import('../application/use-cases.js');
+  const created = await retrySeriesGame(seriesId, new Date(startsAt));
+  eventLogger.info('handleSeriesGameGenerationFailed', LOG_MESSAGES.EVENT_HANDLERS.SERIES_GAME_RETRIED, { seriesId, startsAt, created });
+}
@@ -0,0 +1,175 @@
+import { v4 as uuid } from 'uuid';
+import { prisma, getDb, onCommit } from '../infrastructure/prisma.js';
+import { EventBus, type DomainEvent, type EventHandler } from './event-bus.js';
+import type { DomainEvent as TypedDomainEvent } from './types.js';
+import { toStoredPayload, fromStoredPayload } from './dead-letter-store.js';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { captureTraceContext, type TraceCarrier } from './tracing.js';
+
+/**
+ * События, которые сохраняются в outbox; BigInt в payload (например, telegramId) хранится как в dead letter queue
+ */
+export type DurableDomainEvent = TypedDomainEvent;
+
+type OutboxRow = Awaited<ReturnType<typeof prisma.outboxEvent.findFirstOrThrow>>;
+
+/**
+ * Transactional outbox для EventBus
+ * Событие записывается в той же транзакции, что и изменение состояния, и публикуется после коммита.
+ * Если процесс упал или обработчики не справились, событие повторно публикует relay воркер (at-least-once),
+ * поэтому обработчики отсекают повторы по ID события (см. deduplicated)
+ */
+export class EventOutbox {
+  private static instance: EventOutbox;
+
+  private constructor(private eventBus: EventBus) {}
+
+  static getInstance(): EventOutbox {
+    if (!EventOutbox.instance) {
+      EventOutbox.instance = new EventOutbox(EventBus.getInstance());
+    }
+    return EventOutbox.instance;
+  }
+
+  /**
+   * Сохраняет событие в outbox текущей транзакции; публикация - после коммита
+   * @returns ID события
+   */
+  async record(event: DurableDomainEvent): Promise<string> {
+    const id = uuid();
+    await getDb().outboxEvent.create({
+      data: {
+        id,
+        type: event.type,
+        payload: toStoredPayload(event.payload),
+        occurredAt: new Date(),
+        traceContext: captureTraceContext()
+      }
+    });
+
+    await onCommit(async () => {
+      try {
+        const row = await this.claim(id);
+        if (row) await this.publishRow(row);
+      } catch (error) {
+        // Событие уже сохранено - его опубликует relay
+        logger.error('Outbox publish after commit failed', {
+          eventId: id,
+          eventType: event.type,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    });
+
+    return id;
+  }
+
+  /**
+   * Публикует события, которые не удалось опубликовать сразу (вызывается relay воркером)
+   * @returns Количество опубликованных событий
+   */
+  async relayPending(limit = config.outbox.batchSize): Promise<number> {
+    const candidates = await prisma.outboxEvent.findMany({
+      where: { status: 'pending', availableAt: { lte: new Date() } },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+      select: { id: true }
+    });
+
+    let published = 0;
+    for (const { id } of candidates) {
+      const row = await this.claim(id);
+      if (row && await this.publishRow(row)) {
+        published++;
+      }
+    }
+
+    if (candidates.length > 0) {
+      logger.info('Outbox relay completed', { candidates: candidates.length, published });
+    }
+    return published;
+  }
+
+  /**
+   * Удаляет опубликованные события и отметки обработки старше срока хранения
+   */
+  async purgeProcessed(retentionDays = config.outbox.retentionDays): Promise<number> {
+    const threshold = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    const [events] = await prisma.$transaction([
+      prisma.outboxEvent.deleteMany({ where: { status: 'published', publishedAt: { lt: threshold } } }),
+      prisma.processedEvent.deleteMany({ where: { processedAt: { lt: threshold } } })
+    ]);
+    return events.count;
+  }
+
+  // Закрепляет событие за текущим процессом на время аренды, чтобы relay и публикация после коммита не шли параллельно
+  private async claim(id: string): Promise<OutboxRow | null> {
+    const now = new Date();
+    const { count } = await prisma.outboxEvent.updateMany({
+      where: { id, status: 'pending', availableAt: { lte: now } },
+      data: { availableAt: new Date(now.getTime() + config.outbox.leaseMs), attempts: { increment: 1 } }
+    });
+    if (count === 0) return null;
+    return prisma.outboxEvent.findUnique({ where: { id } });
+  }
+
+  private async publishRow(row: OutboxRow): Promise<boolean> {
+    const isLastAttempt = row.attempts >= config.outbox.maxAttempts;
+    const event = {
+      id: row.id,
+      type: row.type,
+      payload: fromStoredPayload(row.payload),
+      occurredAt: row.occurredAt,
+      traceContext: (row.traceContext as TraceCarrier | null) ?? undefined
+    } as DomainEvent;
+
+    const delivered = await this.eventBus.publish(event, { deadLetter: isLastAttempt });
+
+    if (delivered) {
+      await prisma.outboxEvent.update({
+        where: { id: row.id },
+        data: { status: 'published', publishedAt: new Date(), lastError: null }
+      });
+      return true;
+    }
+
+    // Пауза перед повтором растет экспоненциально: 2с, 4с, 8с...
+    await prisma.outboxEvent.update({
+      where: { id: row.id },
+      data: isLastAttempt
+        ? { status: 'failed', lastError: 'Event handlers failed' }
+        : { availableAt: new Date(Date.now() + Math.pow(2, row.attempts) * 1000), lastError: 'Event handlers failed' }
+    });
+    logger.warn('Outbox event publishing failed', { eventId: row.id, eventType: row.type, attempts: row.attempts, isLastAttempt });
+    return false;
+  }
+}
+
+/**
+ * Обертка обработчика, которая пропускает уже обработанные им события.
+ * Нужна обработчикам событий из outbox: при повторной публикации они не должны, например, слать уведомление дважды
+ * @param handlerName - Уникальное имя обработчика
+ */
+export function deduplicated(handlerName: string, handler: EventHandler): EventHandler {
+  return {
+    name: handlerName,
+    handle: async (event) => {
+      // ID назначает outbox или EventBus; без него обработчик вызван напрямую
+      if (!event.id) {
+        await handler.handle(event);
+        return;
+      }
+
+      const key = { eventId: event.id, handler: handlerName };
+      const processed = await prisma.processedEvent.findUnique({ where: { eventId_handler: key } });
+      if (processed) {
+        logger.info('Event already processed, skipping', { eventId: event.id, eventType: event.type, handler: handlerName });
+        return;
+      }
+
+      await handler.handle(event);
+      await prisma.processedEvent.createMany({ data: [key], skipDuplicates: true });
+    }
+  };
+}
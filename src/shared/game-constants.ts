@@ -1,30 +1,19 @@
 /**
- * Константы для уровней игры, мест проведения, статусов записи и оплаты
- * Централизованное хранение идентификаторов и их человеко-читаемых названий
+ * Константы для уровней игры, статусов записи и оплаты
+ * Здесь хранятся идентификаторы, человеко-читаемые названия - в каталогах сообщений (shared/i18n)
+ * Площадки хранятся в БД (модель Venue)
  */
 
-export const VENUE_IDS = {
-  CHAIKA: 'venue-chaika-id',
-  FOK: 'venue-fok-id',
-  FIFTH_SCHOOL: 'venue-5th-school-id',
-} as const;
-
-export const VENUE_NAMES = {
-  [VENUE_IDS.CHAIKA]: '🏟️ "Чайка"',
-  [VENUE_IDS.FOK]: '🏟️ "ФОК"',
-  [VENUE_IDS.FIFTH_SCHOOL]: '🏟️ 5-ая школа',
-} as const;
+import type { GameChanges } from '../domain/game.js';
+import { amountPerPlayer, currencyFractionDigits, toGamePricing } from '../domain/pricing.js';
+import { formatGameTimeForUser, type UserLocalization } from './date-utils.js';
+import { createTranslator, getTranslator, isMessageKey, type Translator } from './i18n/index.js';
 
 export const GAME_LEVELS = {
-  BEGINNER: 'beginner',
+  NOVICE: 'novice',
   AMATEUR: 'amateur',
-  PROFESSIONAL: 'professional',
-} as const;
-
-export const GAME_LEVEL_NAMES = {
-  [GAME_LEVELS.BEGINNER]: 'Новичок',
-  [GAME_LEVELS.AMATEUR]: 'Любитель',
-  [GAME_LEVELS.PROFESSIONAL]: 'Профи',
+  EXPERIENCED: 'experienced',
+  PRO: 'pro',
 } as const;
 
 export const REGISTRATION_STATUSES = {
@@ -33,20 +22,11 @@ export const REGISTRATION_STATUSES = {
   CANCELED: 'canceled',
 } as const;
 
-export const REGISTRATION_STATUS_NAMES = {
-  [REGISTRATION_STATUSES.CONFIRMED]: '✅ Подтвержден',
-  [REGISTRATION_STATUSES.WAITLISTED]: '⏳ В ожидании',
-  [REGISTRATION_STATUSES.CANCELED]: '❌ Отменен',
-} as const;
-
 export const PAYMENT_STATUSES = {
   PAID: 'paid',
   UNPAID: 'unpaid',
-} as const;
-
-export const PAYMENT_STATUS_NAMES = {
-  [PAYMENT_STATUSES.PAID]: '💰 Оплачено',
-  [PAYMENT_STATUSES.UNPAID]: '⏳ Не оплачено',
+  REFUND_DUE: 'refund_due',
+  DISPUTED: 'disputed',
 } as const;
 
 export const GAME_STATUSES = {
@@ -56,66 +36,186 @@ export const GAME_STATUSES = {
   CANCELED: 'canceled',
 } as const;
 
-export const GAME_STATUS_NAMES = {
-  [GAME_STATUSES.OPEN]: '🟢 Открыта',
-  [GAME_STATUSES.CLOSED]: '🔴 Закрыта',
-  [GAME_STATUSES.FINISHED]: '✅ Завершена',
-  [GAME_STATUSES.CANCELED]: '❌ Отменена',
-} as const;
+// Название по ID из каталога сообщений; неизвестные значения (например, старые уровни, сохраненные текстом) показываются как есть
+function translateId(prefix: string, id: string, t: Translator): string {
+  const key = `${prefix}.${id}`;
+  return isMessageKey(key) ? t(key) : id;
+}
 
 /**
- * Получить название места по его ID
+ * Получить отображаемое название площадки (игра должна быть загружена с include: { venue: true })
  */
-export function getVenueName(venueId: string): string {
-  return VENUE_NAMES[venueId as keyof typeof VENUE_NAMES] || venueId;
+export function getVenueName(venue?: { name: string } | null): string {
+  return venue?.name ? `🏟️ ${venue.name}` : '';
 }
 
 /**
  * Получить название уровня по его ID
  */
-export function getLevelName(levelTag?: string): string {
+export function getLevelName(levelTag?: string, t: Translator = createTranslator()): string {
   if (!levelTag) return '';
-  return GAME_LEVEL_NAMES[levelTag as keyof typeof GAME_LEVEL_NAMES] || levelTag;
+  return translateId('level', levelTag, t);
+}
+
+/**
+ * Получить название уровня игрока по его ID (выбирается при регистрации)
+ */
+export function getPlayerLevelName(levelTag: string | null | undefined, t: Translator = createTranslator()): string {
+  if (!levelTag) return t('playerLevel.none');
+  return translateId('playerLevel', levelTag, t);
+}
+
+/**
+ * Описание ограничения уровня игроков на игру ("Любитель - Опытный", "не ниже: Любитель")
+ * @returns Пустая строка, если ограничения нет
+ */
+export function getLevelRangeName(range: { minLevel?: string | null; maxLevel?: string | null }, t: Translator = createTranslator()): string {
+  const { minLevel, maxLevel } = range;
+  if (minLevel && maxLevel) {
+    return minLevel === maxLevel
+      ? getPlayerLevelName(minLevel, t)
+      : t('levelRange.between', { min: getPlayerLevelName(minLevel, t), max: getPlayerLevelName(maxLevel, t) });
+  }
+  if (minLevel) return t('levelRange.atLeast', { level: getPlayerLevelName(minLevel, t) });
+  if (maxLevel) return t('levelRange.atMost', { level: getPlayerLevelName(maxLevel, t) });
+  return '';
+}
+
+/**
+ * Строка с ограничением уровня для карточки игры; пустая, если ограничения нет
+ */
+export function getLevelRestrictionLine(range: { minLevel?: string | null; maxLevel?: string | null }, t: Translator = createTranslator()): string {
+  const name = getLevelRangeName(range, t);
+  return name ? t('games.levelRestriction', { range: name }) : '';
 }
 
 /**
  * Получить название статуса записи по его ID
  */
-export function getRegistrationStatusName(status: string): string {
-  return REGISTRATION_STATUS_NAMES[status as keyof typeof REGISTRATION_STATUS_NAMES] || status;
+export function getRegistrationStatusName(status: string, t: Translator = createTranslator()): string {
+  return translateId('registrationStatus', status, t);
 }
 
 /**
  * Получить название статуса оплаты по его ID
  */
-export function getPaymentStatusName(status: string): string {
-  return PAYMENT_STATUS_NAMES[status as keyof typeof PAYMENT_STATUS_NAMES] || status;
+export function getPaymentStatusName(status: string, t: Translator = createTranslator()): string {
+  return translateId('paymentStatus', status, t);
+}
+
+/**
+ * Получить название типа движения по балансу игрока
+ */
+export function getLedgerEntryTypeName(type: string, t: Translator = createTranslator()): string {
+  return translateId('ledgerEntryType', type, t);
+}
+
+/**
+ * Получить название роли в команде организатора
+ */
+export function getOrganizerRoleName(role: string, t: Translator = createTranslator()): string {
+  return translateId('organizerRole', role, t);
 }
 
 /**
  * Получить название статуса игры по его ID
  */
-export function getGameStatusName(status: string): string {
-  return GAME_STATUS_NAMES[status as keyof typeof GAME_STATUS_NAMES] || status;
+export function getGameStatusName(status: string, t: Translator = createTranslator()): string {
+  return translateId('gameStatus', status, t);
 }
 
 /**
- * Получить все доступные места проведения
+ * Получить название языка по коду локали
  */
-export function getAllVenues(): Array<{ id: string; name: string }> {
-  return Object.entries(VENUE_NAMES).map(([id, name]) => ({ id, name }));
+export function getLocaleName(locale: string, t: Translator = createTranslator()): string {
+  return translateId('localeName', locale, t);
 }
 
 /**
  * Получить все доступные уровни игры
  */
-export function getAllLevels(): Array<{ id: string; name: string }> {
-  return Object.entries(GAME_LEVEL_NAMES).map(([id, name]) => ({ id, name }));
+export function getAllLevels(t: Translator = createTranslator()): Array<{ id: string; name: string }> {
+  return Object.values(GAME_LEVELS).map(id => ({ id, name: getLevelName(id, t) }));
 }
 
 /**
  * Получить имя организатора из объекта игры
  */
-export function getOrganizerName(game: any): string {
-  return game.organizer?.user?.name ? `Организатор: ${game.organizer.user.name}\n` : '';
-}
\ No newline at end of file
+export function getOrganizerName(game: any, t: Translator = createTranslator()): string {
+  return game.organizer?.user?.name ? t('common.organizerLine', { name: game.organizer.user.name }) : '';
+}
+
+/**
+ * Форматирует сумму в минимальных единицах валюты по локали получателя ("150 ₽", "$10.50", "¥1,000");
+ * число знаков минимальной единицы зависит от валюты
+ */
+export function formatMoney(amount: number, currency: string, t: Translator = createTranslator()): string {
+  const minorUnits = 10 ** currencyFractionDigits(currency);
+  return new Intl.NumberFormat(t.locale, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: amount % minorUnits === 0 ? 0 : undefined
+  }).format(amount / minorUnits);
+}
+
+/**
+ * Строка с суммой к оплате одним игроком для напоминаний; пустая, если цена игры не структурирована
+ * @param confirmedCount - Количество подтвержденных игроков (аренда делится между ними)
+ */
+export function getAmountDueLine(
+  game: { pricingMode: string | null; priceAmount: number | null; currency: string | null },
+  confirmedCount: number,
+  t: Translator = createTranslator()
+): string {
+  const pricing = toGamePricing(game);
+  if (!pricing) return '';
+  return t('common.amountDueLine', { amount: formatMoney(amountPerPlayer(pricing, confirmedCount), pricing.currency, t) });
+}
+
+/**
+ * Описать изменения игры построчно для уведомлений ("было → стало")
+ * @param changes - Diff изменений из события GameUpdated
+ * @param venueNames - Названия площадок по ID (для изменения площадки)
+ * @param recipient - Получатель (часовой пояс и локаль для времени)
+ */
+export function describeGameChanges(changes: GameChanges, venueNames: Record<string, string>, recipient?: UserLocalization | null): string[] {
+  const t = getTranslator(recipient);
+  const lines: string[] = [];
+  const orDash = (value: string | number | null | undefined) => value === null || value === undefined ? '—' : String(value);
+  const orNull = (value: string | number | null) => value === null ? null : String(value);
+
+  if (changes.startsAt) {
+    lines.push(t('changes.time', {
+      from: formatGameTimeForUser(new Date(String(changes.startsAt.from)), recipient),
+      to: formatGameTimeForUser(new Date(String(changes.startsAt.to)), recipient),
+    }));
+  }
+  if (changes.venueId) {
+    lines.push(t('changes.venue', {
+      from: venueNames[String(changes.venueId.from)] ?? '—',
+      to: venueNames[String(changes.venueId.to)] ?? '—',
+    }));
+  }
+  if (changes.capacity) {
+    lines.push(t('changes.capacity', { from: orDash(changes.capacity.from), to: orDash(changes.capacity.to) }));
+  }
+  if (changes.levelTag) {
+    const { from, to } = changes.levelTag;
+    lines.push(t('changes.level', {
+      from: orDash(from && getLevelName(String(from), t)),
+      to: orDash(to && getLevelName(String(to), t)),
+    }));
+  }
+  if (changes.minLevel && changes.maxLevel) {
+    const { minLevel, maxLevel } = changes;
+    lines.push(t('changes.levelRange', {
+      from: getLevelRangeName({ minLevel: orNull(minLevel.from), maxLevel: orNull(maxLevel.from) }, t) || t('levelRange.any'),
+      to: getLevelRangeName({ minLevel: orNull(minLevel.to), maxLevel: orNull(maxLevel.to) }, t) || t('levelRange.any'),
+    }));
+  }
+  if (changes.priceText) {
+    lines.push(t('changes.price', { from: orDash(changes.priceText.from), to: orDash(changes.priceText.to) }));
+  }
+
+  return lines;
+}
@@ -0,0 +1,196 @@
+import type { InlineKeyboardButton } from 'telegraf/types';
+import { prisma } from '../infrastructure/prisma.js';
+import type { EventBus, DomainEvent } from './event-bus.js';
+import { deduplicated } from './event-outbox.js';
+import { formatGameTimeForUser } from './date-utils.js';
+import { getGameStatusName, getLevelName, getLevelRestrictionLine, getVenueName } from './game-constants.js';
+import { getTranslator } from './i18n/index.js';
+import { LoggerFactory } from './layer-logger.js';
+import type { DomainEvent as TypedDomainEvent } from './types.js';
+
+type AnnouncementExtra = { reply_markup: { inline_keyboard: InlineKeyboardButton[][] } };
+
+/**
+ * Методы Telegram API, которыми пользуются публикации в группах; реализуется telegram запущенного бота
+ */
+export interface AnnouncementTelegram {
+  sendMessage(chatId: string, text: string, extra: AnnouncementExtra): Promise<{ message_id: number }>;
+  editMessageText(chatId: string, messageId: number, inlineMessageId: undefined, text: string, extra: AnnouncementExtra): Promise<unknown>;
+}
+
+/**
+ * События, после которых сообщение игры в группе перерисовывается с текущим составом
+ */
+export const ANNOUNCEMENT_REFRESH_EVENT_TYPES = [
+  'PlayerJoined',
+  'RegistrationCanceled',
+  'WaitlistedPromoted',
+  'WaitlistOfferMade',
+  'WaitlistOfferExpired',
+  'GameUpdated',
+  'GameClosed',
+  'GameFinished',
+  'GameCanceled',
+] as const satisfies ReadonlyArray<TypedDomainEvent['type']>;
+
+const announcementLogger = LoggerFactory.external('group-announcements');
+
+async function loadAnnouncedGame(gameId: string) {
+  return prisma.game.findUnique({
+    where: { id: gameId },
+    include: {
+      venue: true,
+      organizer: { include: { user: true } },
+      registrations: { include: { user: true }, orderBy: { createdAt: 'asc' } }
+    }
+  });
+}
+
+type AnnouncedGame = NonNullable<Awaited<ReturnType<typeof loadAnnouncedGame>>>;
+
+/**
+ * Текст и кнопки сообщения игры в группе
+ * Сообщение общее для всех участников группы, поэтому язык и часовой пояс берутся у организатора
+ */
+export function renderGameAnnouncement(game: AnnouncedGame): { text: string; buttons: InlineKeyboardButton[][] } {
+  const organizerUser = game.organizer.user;
+  const t = getTranslator(organizerUser);
+
+  const confirmed = game.registrations.filter(reg => reg.status === 'confirmed');
+  const offeredCount = game.registrations.filter(reg => reg.status === 'offered').length;
+  const waitlistedCount = game.registrations.filter(reg => reg.status === 'waitlisted').length;
+  // Предложенное из листа ожидания место держится за игроком до ответа
+  const freeSpots = Math.max(game.capacity - confirmed.length - offeredCount, 0);
+
+  const level = game.levelTag ? ` (${getLevelName(game.levelTag, t)})` : '';
+  const price = game.priceText ? ` - ${game.priceText}` : '';
+  const restriction = getLevelRestrictionLine(game, t);
+  const lines = [
+    `🎾 ${formatGameTimeForUser(game.startsAt, organizerUser)}${level}${price}`,
+    getVenueName(game.venue),
+    ...(restriction ? [restriction] : []),
+    `${getGameStatusName(game.status, t)}${game.organizer.title ? ` · ${game.organizer.title}` : ''}`,
+    '',
+    t('games.participants', { confirmed: confirmed.length, capacity: game.capacity }),
+    ...confirmed.map((reg, index) => `${index + 1}. ${reg.user.name}`),
+  ];
+  if (game.status === 'open') {
+    lines.push('', freeSpots > 0 ? t('games.freeSpots', { count: freeSpots }) : t('groupChat.noFreeSpots'));
+  }
+  if (waitlistedCount > 0) {
+    lines.push(t('games.waitlisted', { count: waitlistedCount }));
+  }
+
+  // Записаться и отписаться можно только пока запись открыта
+  const buttons: InlineKeyboardButton[][] = game.status === 'open'
+    ? [[
+        { text: t('groupChat.joinButton'), callback_data: `group_join_${game.id}` },
+        { text: t('groupChat.leaveButton'), callback_data: `group_leave_${game.id}` }
+      ]]
+    : [];
+
+  return { text: lines.join('\n'), buttons };
+}
+
+// Ошибка Telegram API распознается по полям, а не по классу: модуль telegraf может быть подменен
+function telegramErrorOf(error: unknown): { code: number; description: string } | null {
+  if (typeof error !== 'object' || error === null) return null;
+  const { code, description } = error as { code?: unknown; description?: unknown };
+  return typeof code === 'number' && typeof description === 'string' ? { code, description } : null;
+}
+
+function isMessageNotModified(error: unknown): boolean {
+  return telegramErrorOf(error)?.description.includes('message is not modified') ?? false;
+}
+
+// Бота удалили из группы или сообщение удалено: повторы не помогут
+function isUnreachable(error: unknown): boolean {
+  const code = telegramErrorOf(error)?.code;
+  return code === 403 || code === 400;
+}
+
+/**
+ * Публикует игру в группе организатора, если группа привязана
+ * Вызывается после открытия игры для всех: пока идет приоритетное окно, игру видят только свои игроки
+ */
+export async function announceGame(gameId: string, telegram: AnnouncementTelegram): Promise<void> {
+  const game = await loadAnnouncedGame(gameId);
+  if (!game?.organizer.groupChatId || game.announcementMessageId) return;
+
+  const chatId = game.organizer.groupChatId;
+  const { text, buttons } = renderGameAnnouncement(game);
+  try {
+    const message = await telegram.sendMessage(chatId.toString(), text, {
+      reply_markup: { inline_keyboard: buttons }
+    });
+    await prisma.game.update({
+      where: { id: gameId },
+      data: { announcementChatId: chatId, announcementMessageId: message.message_id }
+    });
+    announcementLogger.info('announceGame', 'Игра опубликована в группе организатора',
+      { gameId, chatId: chatId.toString(), messageId: message.message_id }, { gameId }
+    );
+  } catch (error) {
+    if (!isUnreachable(error)) throw error;
+    announcementLogger.warn('announceGame', 'Не удалось опубликовать игру в группе организатора',
+      { gameId, chatId: chatId.toString(), error: (error as Error).message }, { gameId }
+    );
+  }
+}
+
+/**
+ * Обновляет опубликованное сообщение игры: состав, свободные места и кнопки
+ */
+export async function refreshGameAnnouncement(gameId: string, telegram: AnnouncementTelegram): Promise<void> {
+  const game = await loadAnnouncedGame(gameId);
+  if (!game?.announcementChatId || !game.announcementMessageId) return;
+
+  const { text, buttons } = renderGameAnnouncement(game);
+  try {
+    await telegram.editMessageText(game.announcementChatId.toString(), game.announcementMessageId, undefined, text, {
+      reply_markup: { inline_keyboard: buttons }
+    });
+  } catch (error) {
+    if (isMessageNotModified(error)) return;
+    if (!isUnreachable(error)) throw error;
+    announcementLogger.warn('refreshGameAnnouncement', 'Не удалось обновить сообщение игры в группе',
+      { gameId, chatId: game.announcementChatId.toString(), error: (error as Error).message }, { gameId }
+    );
+  }
+}
+
+/**
+ * Подписывает публикацию игр в группах организаторов на доменные события
+ * @param telegram - Telegram API запущенного бота
+ * @returns Функция отписки
+ */
+export function registerGroupAnnouncements(eventBus: EventBus, telegram: AnnouncementTelegram): () => void {
+  // GamePublishedForAll приходит сразу после создания игры без приоритетных игроков, иначе - после приоритетного окна
+  const announceHandler = deduplicated('announceGame', {
+    handle: async (event: DomainEvent) => {
+      if (event.type !== 'GamePublishedForAll') return;
+      await announceGame(event.payload.gameId, telegram);
+    }
+  });
+  eventBus.subscribe('GamePublishedForAll', announceHandler);
+
+  // Сообщение каждый раз строится по текущему состоянию игры, поэтому повтор события безопасен
+  const refreshHandler = {
+    name: 'refreshGameAnnouncement',
+    handle: async (event: DomainEvent) => {
+      const payload = event.payload as { gameId?: unknown };
+      if (typeof payload.gameId !== 'string') return;
+      await refreshGameAnnouncement(payload.gameId, telegram);
+    }
+  };
+  for (const eventType of ANNOUNCEMENT_REFRESH_EVENT_TYPES) {
+    eventBus.subscribe(eventType, refreshHandler);
+  }
+
+  return () => {
+    eventBus.unsubscribe('GamePublishedForAll', announceHandler);
+    for (const eventType of ANNOUNCEMENT_REFRESH_EVENT_TYPES) {
+      eventBus.unsubscribe(eventType, refreshHandler);
+    }
+  };
+}
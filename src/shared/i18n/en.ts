@@ -0,0 +1,557 @@
+import type { MessageCatalog } from './index.js';
+
+/**
+ * Английский каталог сообщений бота
+ */
+export const en: MessageCatalog = {
+  // Общие сообщения
+  'common.registerFirst': 'Please register first with /start',
+  'common.userNotFound': 'User not found',
+  'common.userNotFoundStart': 'User not found. Start with /start',
+  'common.notOrganizer': 'You are not registered as an organizer',
+  'common.notOrganizerChooseRole': 'You are not registered as an organizer. Choose the organizer role in /start',
+  'common.notGameOrganizer': 'You are not the organizer of this game',
+  'common.invalidGameIdUuid': 'Invalid game ID format. Use a UUID.',
+  'common.invalidGameId': 'Invalid game ID format',
+  'common.invalidPlayerId': 'Invalid player ID format',
+  'common.invalidAction': 'Invalid action format',
+  'common.gameNotFound': 'Game not found',
+  'common.usage': 'Usage: /{command} {usage}',
+  'common.yes': '✅ Yes',
+  'common.no': '❌ No',
+  'common.back': '⬅️ Back',
+  'common.done': '✅ Done',
+  'common.enabled': '✅ On',
+  'common.disabled': '❌ Off',
+  'common.error': 'Error',
+  'common.free': 'Free',
+  'common.priceByAgreement': 'To be agreed',
+  'common.priceByOrganizer': 'To be agreed with the organizer',
+  'common.unknownName': 'Unknown',
+  'common.organizerLine': 'Organizer: {name}\n',
+  'common.amountDueLine': '💵 Amount due: {amount}\n',
+  'common.players': { one: '{count} player', other: '{count} players' },
+  'common.days': { one: '{count} day', other: '{count} days' },
+  'common.unknownCommand': 'Unknown command. Use /help to see available commands or /menu for quick access.',
+  'common.fixAndRetry': 'Please fix the data and try again.',
+  'common.retryLater': 'Please try again in a few minutes.',
+  'common.unexpectedError': 'An unexpected error occurred. Please try again later.',
+
+  // Уровни игр и игроков
+  'level.novice': 'Beginners',
+  'level.amateur': 'Amateurs',
+  'level.experienced': 'Experienced',
+  'level.pro': 'Pro',
+  'level.general': 'Any level',
+  'playerLevel.novice': 'Beginner',
+  'playerLevel.amateur': 'Amateur',
+  'playerLevel.experienced': 'Experienced',
+  'playerLevel.pro': 'Pro',
+  'playerLevel.none': 'No level',
+  'levelRange.any': 'any',
+  'levelRange.between': '{min} - {max}',
+  'levelRange.atLeast': '{level} or higher',
+  'levelRange.atMost': '{level} or lower',
+
+  // Статусы
+  'registrationStatus.confirmed': '✅ Confirmed',
+  'registrationStatus.waitlisted': '⏳ Waitlisted',
+  'registrationStatus.offered': '🎟 Spot offered',
+  'registrationStatus.canceled': '❌ Canceled',
+  'paymentStatus.paid': '💰 Paid',
+  'paymentStatus.unpaid': '⏳ Unpaid',
+  'paymentStatus.refund_due': '↩️ Refund due',
+  'paymentStatus.disputed': '⚠️ Disputed',
+  'ledgerEntryType.deposit': '➕ Deposit',
+  'ledgerEntryType.game_charge': '🏐 Game charge',
+  'ledgerEntryType.refund': '↩️ Refund',
+  'ledgerEntryType.adjustment': '✏️ Adjustment',
+  'organizerRole.owner': '👑 Owner',
+  'organizerRole.co_organizer': '🤝 Co-organizer',
+  'organizerRole.treasurer': '💼 Treasurer',
+  'gameStatus.open': '🟢 Open',
+  'gameStatus.closed': '🔴 Closed',
+  'gameStatus.finished': '✅ Finished',
+  'gameStatus.canceled': '❌ Canceled',
+
+  // Названия языков (каждый язык - на нем самом)
+  'localeName.ru-RU': 'Русский',
+  'localeName.en-US': 'English',
+
+  // Ошибки по кодам доменных ошибок
+  'errors.GAME_NOT_OPEN': 'The game is not open for registration',
+  'errors.GAME_ALREADY_STARTED': 'The game has already started',
+  'errors.CAPACITY_REACHED': 'All spots are taken',
+  'errors.ALREADY_REGISTERED': 'You are already registered for this game',
+  'errors.VENUE_OCCUPIED': 'The venue is booked at this time',
+  'errors.VENUE_ARCHIVED': 'The venue has been deleted and is unavailable for new games',
+  'errors.GAME_NOT_CANCELABLE': 'A finished or already canceled game cannot be canceled',
+  'errors.GAME_NOT_EDITABLE': 'A finished or canceled game cannot be changed',
+  'errors.CAPACITY_BELOW_CONFIRMED': 'Capacity cannot be lower than the number of registered players',
+  'errors.PAYMENT_DISPUTED': 'The organizer disputed this payment — please contact them',
+  'errors.PRICING_NOT_SET': 'The game has no amount set for online payment',
+  'errors.PAYMENT_ALREADY_MARKED': 'Payment is already marked',
+  'errors.INVOICE_OUTDATED': 'The invoice is outdated - request a new one with /pay',
+  'errors.ILLEGAL_STATUS_TRANSITION': 'This action is not available: the game is already closed, finished or canceled',
+  'errors.NO_WAITLIST_OFFER': 'No spot was offered to you or the offer is already closed',
+  'errors.WAITLIST_OFFER_EXPIRED': 'The time to accept the spot has run out - it went to the next player in line',
+  'errors.GROUP_CHAT_ALREADY_BOUND': 'This group is already linked to another organizer',
+  'errors.ALREADY_TEAM_MEMBER': 'This user is already on the team of another organizer',
+  'errors.LEVEL_NOT_ALLOWED': 'Your level does not match this game',
+  'errors.LEVEL_ALREADY_VERIFIED': 'Your level was verified by an organizer and only an organizer can change it',
+  'errors.PLAYER_NOT_LINKED': 'Balances are kept only for confirmed players of the organizer',
+  'errors.INVALID_INPUT': 'Invalid input',
+  'errors.MISSING_REQUIRED_FIELD': 'A required field is missing',
+  'errors.INVALID_FORMAT': 'Invalid data format',
+  'errors.VALUE_OUT_OF_RANGE': 'Value is out of range',
+  'errors.VALIDATION_FAILED': 'Validation failed',
+  'errors.NOT_FOUND': 'Not found',
+  'errors.FORBIDDEN': 'Access denied',
+  'errors.UNAUTHORIZED': 'Authorization required',
+  'errors.DATABASE_ERROR': 'Database error',
+  'errors.EXTERNAL_SERVICE_ERROR': 'External service error',
+  'errors.TIMEOUT_ERROR': 'Request timed out',
+  'errors.SYSTEM_ERROR': 'System error',
+  'errors.INVALID_STATE': 'Invalid state',
+  'errors.PAYMENT_WINDOW_NOT_OPEN': 'The payment window is not open yet',
+  'errors.NOT_CONFIRMED': 'Only confirmed players can mark a payment',
+  'errors.PRIORITY_WINDOW_ACTIVE': "During the priority window the game is open only to the organizer's confirmed players",
+  'errors.validation': 'Invalid data: {field}',
+  'errors.system': 'A system error occurred. Please try again later.',
+  'errors.unknown': 'Unknown error',
+  'errors.generic': 'Something went wrong. Please try again later.',
+
+  // Уведомления
+  'notifications.gameReminder24h': '⏰ Reminder: the game is tomorrow at {time}!\n{venue}\n💰 {price}',
+  'notifications.gameReminder2h': '🚨 The game starts in 2 hours!\n⏰ {time}\n{venue}\n💰 {price}',
+  'notifications.paymentReminder12h': '💰 Reminder: payment for game {gameId}\n{amountDue}{organizer}💳 Please make the payment',
+  'notifications.paymentReminder24h': '⚠️ Final payment reminder!\n💰 Game {gameId}\n{amountDue}{organizer}⏰ Please pay as soon as possible',
+  'notifications.manualPaymentReminder': '💰 Payment reminder!\nThe game "{game}" is over\n{amountDue}{organizer}⏰ Please mark your payment with /pay {gameId}',
+  'notifications.defaultGameName': 'Volleyball',
+  'notifications.playerJoined': '👤 New player in the game!\n{name} - {status}',
+  'notifications.playerJoinedConfirmed': '✅ Confirmed',
+  'notifications.playerJoinedWaitlisted': '⏳ On the waitlist',
+  'notifications.waitlistPromoted': "🎉 Congratulations! You've been moved up from the waitlist!\n✅ Your spot is confirmed for the game at {time}\n💰 Don't forget to pay",
+  'notifications.waitlistOffer': '🎟 A spot opened up for the game at {time}\n📍 {venue}\n\nConfirm by {expiresAt}, otherwise the spot goes to the next player in line',
+  'notifications.waitlistOfferExpired': "⌛ You didn't answer the spot offered for the game at {time} - it went to the next player in line.\nIf your plans change, join again",
+  'notifications.paymentMarked': '💰 Payment received!\n👤 {name} marked the payment for the game',
+  'notifications.paymentChargedFromBalance': '💳 {amount} was charged from your organizer balance for the game on {time}\nRemaining: {balance}',
+  'notifications.ledgerEntryRecorded': '{type}: {amount}\nOrganizer: {organizer}\nBalance: {balance}',
+  'notifications.levelVerified': '🎯 Organizer {organizer} verified your level: {level}',
+  'notifications.levelAdjusted': '🎯 Organizer {organizer} changed your level: {from} → {to}',
+  'notifications.registrationCanceled': '❌ Registration canceled\nPlayer {name} left the game',
+  'notifications.gameUpdated': '✏️ The organizer changed the game\n⏰ {time}\n{venue}\n\n{changes}',
+  'notifications.gameCanceled': '❌ Game canceled\n⏰ {time}\n{venue}',
+  'notifications.gameCanceledRefund': '💸 You have already paid for the game — organizer {organizer} will refund you.',
+  'notifications.playerSelectedOrganizers': '👤 New connection request!\nPlayer {name} wants to join your games.',
+  'notifications.accept': '✅ Accept',
+  'notifications.decline': '❌ Decline',
+  'notifications.playerConfirmed': '✅ Congratulations!\nOrganizer {organizer} confirmed your connection.\nYou will now receive priority game invitations!',
+  'notifications.playerRejected': '❌ Connection declined\nOrganizer {organizer} declined your connection request.',
+  'notifications.priorityInvitation': '🎾 Priority invitation!\n{time}\n{venue}\n💰 {price}\n{organizer}\n\n⏰ You have 2 hours to respond!',
+  'notifications.invitationResponse': '📝 Invitation response\nPlayer {name}: {response}\nGame: {gameId}',
+  'notifications.responseIgnored': '⏳ Ignored',
+  'notifications.gamePublished': '🎾 New game available!\n{time}\n{level}\n💰 {price}\n{organizer}\n',
+  'notifications.join': 'Join',
+
+  // Изменения игры ("было → стало")
+  'changes.time': '⏰ Time: {from} → {to}',
+  'changes.venue': '🏟️ Venue: {from} → {to}',
+  'changes.capacity': '👥 Capacity: {from} → {to}',
+  'changes.level': '🎯 Level: {from} → {to}',
+  'changes.levelRange': '🚧 Allowed level: {from} → {to}',
+  'changes.price': '💰 Price: {from} → {to}',
+
+  // Игры: список, информация, запись
+  'games.participants': 'Players: {confirmed}/{capacity}',
+  'games.waitlisted': 'Waitlisted: {count}',
+  'games.freeSpots': { one: '{count} spot left', other: '{count} spots left' },
+  'games.levelRestriction': '🚧 Player level: {range}',
+  'games.noneOrganizer': 'No active games. Create one with /newgame',
+  'games.nonePlayer': 'No active games. Wait for organizers to create new ones',
+  'games.allJoined': "You've already joined every available game. Check your registrations with /my",
+  'games.available': 'Available games:\n\n{list}',
+  'games.joinButton': '{date} 🎾 Join',
+  'games.joinedConfirmed': 'Spot booked ✅',
+  'games.joinedWaitlisted': "Waitlist ⏳ (we'll let you know if a spot opens up)",
+  'games.left': 'Registration canceled. If a spot opened up, the next player has been invited.',
+  'games.paymentMarked': 'Payment marked 💰 Thank you!',
+  'games.closed': 'The game is closed for new registrations 🔒',
+
+  // Мои игры
+  'my.playerGames': '🎾 *Games as a player:*',
+  'my.organizerGames': '👑 *Games you created:*',
+  'my.rejoinButton': '🔄 {date} Join',
+  'my.leaveButton': '❌ {date} Leave',
+  'my.payButton': '💰 {date} Pay',
+  'my.acceptOfferButton': '✅ {date} Take the spot',
+  'my.declineOfferButton': '❌ {date} Decline',
+  'my.closeButton': '🔒 {date} Close',
+  'my.paymentsButton': '💰 {date} Payments',
+  'my.editButton': '✏️ {date} Edit',
+  'my.cancelButton': '❌ {date} Cancel',
+  'my.empty': "You don't have any active registrations or created games. Find a game with /games or create one with /newgame",
+
+  // Оплаты
+  'payments.status': '💰 Payment status for the game on {date}\n\n{payments}\n\nPaid: {paid}/{total}',
+  'payments.loadFailed': 'Failed to load payment data',
+  'payments.remindButton': '📢 Send reminders',
+  'payments.remindersSent': 'Reminders sent!',
+  'payments.remindersSentMark': '✅ Reminders sent!',
+  'payments.remindersFailed': 'Failed to send reminders',
+  'payments.editButton': '✏️ {name}',
+  'payments.totals': '💵 Per player: {perPlayer}\nCollected: {collected}\nOutstanding: {outstanding}',
+  'payments.disputedCount': '⚠️ Disputed: {count}',
+  'payments.chooseStatus': '💳 Payment of {name}: {status}\n\nChoose the new status:',
+  'payments.setPaidButton': '💰 Paid',
+  'payments.setUnpaidButton': '⏳ Unpaid',
+  'payments.setDisputedButton': '⚠️ Dispute',
+  'payments.statusChanged': '✅ Payment of {name}: {status}',
+  'onlinePayments.invoiceTitle': '🏐 Game {date}',
+  'onlinePayments.invoiceDescription': 'Payment for the game on {date}: {amount}',
+  'onlinePayments.priceLabel': 'Game participation',
+  'onlinePayments.fakeInvoice': '🧪 Test invoice (no money is charged)\nGame {date}\nAmount due: {amount}',
+  'onlinePayments.fakePayButton': '💳 Pay (test)',
+  'onlinePayments.paid': '✅ Payment of {amount} received - you are marked as paid',
+  'onlinePayments.alreadyProcessed': 'This payment has already been recorded',
+  'balance.title': '💳 Your balances with organizers:\n\n{balances}',
+  'balance.line': '👤 {organizer}: {amount}',
+  'balance.empty': "You don't have a prepaid balance with any organizer yet",
+  'balance.overviewTitle': '💳 Player balances:\n\n{players}\n\nChoose a player to see their entries or record a deposit',
+  'balance.overviewLine': '👤 {name}: {amount}',
+  'balance.overviewEmpty': 'You have no confirmed players or balance entries yet',
+  'balance.playerButton': '👤 {name}',
+  'balance.ledgerTitle': '💳 Balance of {name}: {amount}\n\n{entries}',
+  'balance.ledgerEntry': '{date} {type}: {amount}',
+  'balance.noEntries': 'No entries yet',
+  'balance.depositButton': '➕ Deposit',
+  'balance.refundButton': '↩️ Refund',
+  'balance.adjustmentButton': '✏️ Adjustment',
+  'balance.askAmount': '{type} for {name}\n\nSend the amount and an optional note, e.g.: 3000 for October\nFor a negative adjustment use a sign: -150',
+  'balance.invalidAmount': "Couldn't read the amount. Send a number, e.g.: 3000 or -150.50 note",
+  'balance.recorded': '✅ {type} for {name}: {amount}\nBalance: {balance}',
+  'balance.abortButton': '↩️ Cancel',
+  'balance.aborted': 'Amount entry canceled',
+  'waitlist.acceptButton': "✅ I'm in",
+  'waitlist.declineButton': "❌ Can't make it",
+  'waitlist.accepted': '✅ The spot is yours! See you at the game',
+  'waitlist.declined': 'Got it, the spot went to the next player in line',
+  'waitlist.position': "⏳ You're on the waitlist: {position} of {count}",
+  'waitlist.positionShort': '#{position} in line',
+  'waitlist.offeredUntil': '🎟 A spot is offered to you - answer by {time}',
+
+  // Club group chat
+  'groupChat.groupOnly': 'Send /bindgroup in the club group the bot has been added to',
+  'groupChat.adminOnly': 'Only a group administrator can link the group',
+  'groupChat.startPrivately': 'Register first: open the bot in a private chat and press /start',
+  'groupChat.bound': '✅ Group "{title}" is linked. New games will be posted here with sign-up buttons',
+  'groupChat.unbound': 'Group unlinked. New games will no longer be posted there',
+  'groupChat.joinButton': '🎾 Join',
+  'groupChat.leaveButton': '❌ Leave',
+  'groupChat.noFreeSpots': 'No free spots - new sign-ups go to the waitlist',
+  'groupChat.notJoined': 'You are not signed up for this game',
+
+  // Organizer team
+  'team.title': '👥 {organizer} team:\n\n{members}',
+  'team.memberLine': '{role} - {name}',
+  'team.addButton': '➕ Add to team',
+  'team.removeButton': '❌ {name}',
+  'team.noCandidates': 'Nobody to add: confirmed players (/myplayers) who are not on another team can join',
+  'team.chooseCandidate': 'Who should join the team?',
+  'team.chooseRole': 'Which role should {name} get?\n\n🤝 A co-organizer runs games, players and payments\n💼 A treasurer handles payments and balances only',
+  'team.added': '✅ {name} is on the team: {role}',
+  'team.removed': '{name} is no longer on the team',
+  'team.roleForbidden': 'Your role on the organizer team does not allow this',
+
+  // Настройки
+  'settings.title': '🔔 Notification settings:',
+  'settings.global': '🌐 All notifications: {state}',
+  'settings.paymentAuto': '💰 Automatic payment reminders: {state}',
+  'settings.paymentManual': '📢 Manual payment reminders: {state}',
+  'settings.reminder24h': '🎾 24-hour reminders: {state}',
+  'settings.reminder2h': '🚨 2-hour reminders: {state}',
+  'settings.organizer': '👥 Organizer notifications: {state}',
+  'settings.timezone': '🌍 Time zone: {timezone}',
+  'settings.language': '🗣 Language: {language}',
+  'settings.disableAll': '❌ Turn all off',
+  'settings.enableAll': '✅ Turn all on',
+  'settings.paymentsButton': '💰 Payments',
+  'settings.gamesButton': '🎾 Games',
+  'settings.organizerButton': '👥 Organizer',
+  'settings.selectOrganizersButton': '🔗 Choose organizers',
+  'settings.localeButton': '🌍 Time zone and language',
+  'settings.loadFailed': 'Failed to load settings',
+  'settings.loadError': 'Error loading settings',
+  'settings.updateError': 'Error updating settings',
+  'settings.updated': '✅ Settings updated',
+  'settings.settingUpdated': '✅ Setting updated',
+  'settings.payments.title': '💰 Payment notification settings:',
+  'settings.payments.auto': '🤖 Automatic reminders: {state}',
+  'settings.payments.manual': '📢 Manual reminders: {state}',
+  'settings.payments.disableAuto': '❌ Turn off automatic',
+  'settings.payments.enableAuto': '✅ Turn on automatic',
+  'settings.payments.disableManual': '❌ Turn off manual',
+  'settings.payments.enableManual': '✅ Turn on manual',
+  'settings.payments.updated': '💰 Payment notification settings updated',
+  'settings.games.title': '🎾 Game notification settings:',
+  'settings.games.reminder24h': '⏰ 24-hour reminders: {state}',
+  'settings.games.reminder2h': '🚨 2-hour reminders: {state}',
+  'settings.games.disable24h': '❌ Turn off 24h',
+  'settings.games.enable24h': '✅ Turn on 24h',
+  'settings.games.disable2h': '❌ Turn off 2h',
+  'settings.games.enable2h': '✅ Turn on 2h',
+  'settings.games.updated': '🎾 Game notification settings updated',
+  'settings.organizerNotifications.title': '👥 Organizer notification settings:',
+  'settings.organizerNotifications.state': '📬 Organizer notifications: {state}',
+  'settings.organizerNotifications.disable': '❌ Turn off',
+  'settings.organizerNotifications.enable': '✅ Turn on',
+  'settings.organizerNotifications.updated': '👥 Organizer notification settings updated',
+  'settings.locale.title': '🌍 Time zone and language:',
+  'settings.locale.timezone': '🕐 Time zone: {timezone}',
+  'settings.locale.language': '🗣 Language: {language}',
+  'settings.locale.hint': 'Game times in bot messages are shown in the selected time zone.',
+  'settings.locale.timezoneSet': '✅ Time zone: {timezone}',
+  'settings.locale.languageSet': '✅ Language: {language}',
+
+  // Организаторы игрока
+  'organizers.selectUsage': 'List organizer IDs separated by commas. Example: /selectorganizers uuid1,uuid2',
+  'organizers.requestsSent': 'Requests sent to the organizers. Wait for confirmation ✅',
+  'organizers.none': "You aren't connected to any organizers. Choose organizers with /selectorganizers",
+  'organizers.list': '👥 My organizers:\n\n{list}',
+  'organizers.status.confirmed': '✅ Confirmed',
+  'organizers.status.pending': '⏳ Pending',
+  'organizers.status.rejected': '❌ Declined',
+  'organizers.loadFailed': 'Failed to load the list of organizers',
+  'organizers.noneAvailable': 'No organizers available',
+  'organizers.selectPrompt': '🔗 Choose organizers:',
+  'organizers.selectLoadFailed': 'Failed to load the list of organizers',
+  'organizers.selectionUpdated': '✅ Selection updated',
+  'organizers.selectionUpdateFailed': 'Error updating the selection',
+  'organizers.selectionSaved': '✅ Organizer selection saved',
+  'organizers.selectionSavedMessage': '🔗 Organizer selection saved. The organizers will receive a confirmation request.',
+  'organizers.allRemoved': '🔗 All organizer connections removed.',
+  'organizers.selectionSaveFailed': 'Error saving the selection',
+
+  // Игроки организатора
+  'players.noConfirmed': "You don't have any confirmed players. Use /pendingplayers to see players awaiting confirmation",
+  'players.confirmedList': '👥 My confirmed players:\n\n{list}',
+  'players.verifyLevelButton': '🎯 Level: {name}',
+  'players.chooseVerifiedLevel': 'Level of {name} (currently: {level}). The chosen level will be verified and the player will no longer be able to change it:',
+  'players.levelVerified': '✅ {name} level: {level}',
+  'players.noPending': 'No players awaiting confirmation',
+  'players.pendingList': '⏳ Players awaiting confirmation:\n\n{list}',
+  'players.loadFailed': 'Failed to load the list of players',
+  'players.confirmed': 'Player confirmed ✅',
+  'players.rejected': 'Player declined ❌',
+  'players.confirmedToast': '✅ Player confirmed',
+  'players.rejectedToast': '❌ Player declined',
+
+  // Приглашения
+  'invitations.usage': 'Format: /respondtogame <game_id> <yes/no>',
+  'invitations.invalidResponse': 'The answer must be "yes" or "no"',
+  'invitations.responseSent': 'Answer "{response}" sent to the organizer',
+  'invitations.answeredYesToast': '✅ "Yes" sent',
+  'invitations.answeredYes': '✅ You answered "Yes" to the invitation!',
+  'invitations.answeredNoToast': '❌ "No" sent',
+  'invitations.answeredNo': '❌ You answered "No" to the invitation!',
+  'invitations.responseFailed': 'Error sending the answer',
+
+  // Справка и палитра команд
+  'help.title': '🎾 Available commands:',
+  'help.common': 'General commands:\n/start - Register with the bot\n/games - Active games\n/game ID - Game details\n/my - My games and registrations\n/menu - Command palette',
+  'help.player': 'Player commands:\n/join ID - Join a game\n/leave ID - Leave a game\n/pay ID - Mark a payment\n/balance - My prepaid balances\n/selectorganizers - Choose organizers\n/myorganizers - My organizers\n/respondtogame GAME_ID yes/no - Answer an invitation',
+  'help.organizer': 'Organizer commands:\n/newgame - Create a game\n/venues - My venues\n/series - Recurring game series\n/close ID - Close registration\n/editgame ID - Edit a game\n/cancel ID - Cancel a game\n/history ID - Game history\n/payments ID - Player payment status\n/balances - Player balances\n/myplayers - My confirmed players\n/pendingplayers - Players awaiting confirmation\n/bindgroup - Link the club group (send in the group)\n/unbindgroup - Unlink the club group\n/team - Organizer team',
+  'menu.title': '🎾 *Command palette*\n\nChoose an action:',
+  'menu.callbackFailed': 'Error processing the command',
+  'menu.unknownCommand': 'Unknown command',
+  'menu.done': '✅ Done',
+  'menu.failed': '❌ Command failed',
+
+  // Кнопки клавиатур
+  'keyboard.join': '📥 Join',
+  'keyboard.leave': '📤 Leave',
+  'keyboard.pay': '💰 Mark payment',
+  'keyboard.payments': '📊 Payment status',
+  'keyboard.close': '🔒 Close game',
+  'keyboard.globalNotifications': '🌐 All notifications: {state}',
+  'keyboard.paymentSettings': '💰 Payment settings',
+  'keyboard.gameSettings': '🎾 Game settings',
+  'keyboard.organizerNotifications': '👥 Organizer notifications',
+  'keyboard.rolePlayer': 'Player',
+  'keyboard.roleOrganizer': 'Organizer',
+  'keyboard.selectOrganizers': '🔗 Choose organizers',
+  'keyboard.finishRegistration': '✅ Finish registration',
+  'keyboard.findGames': '🎾 Find games',
+  'keyboard.myGames': '📋 My games',
+  'keyboard.settings': '⚙️ Settings',
+  'keyboard.myOrganizers': '👥 My organizers',
+  'keyboard.newGame': '➕ New game',
+  'keyboard.myPlayers': '👑 My players',
+  'keyboard.help': '❓ Help',
+  'keyboard.openApp': '📱 Open app',
+  'keyboard.quickGames': '🎾 Games',
+  'keyboard.quickMy': '📋 Mine',
+  'keyboard.quickNewGame': '➕ New',
+  'keyboard.confirmPlayer': '✅ Confirm',
+  'keyboard.rejectPlayer': '❌ Decline',
+
+  // Регистрация
+  'registration.welcome': "Hi! I'm a bot for organizing volleyball games. Choose your role:",
+  'registration.organizerRegistered': "You're registered as an organizer! Create a game with /newgame",
+  'registration.chooseLevel': 'You chose the player role. Now rate your level:',
+  'registration.selectOrganizersPrompt': 'Great! Would you like to choose organizers for priority game invitations?',
+  'registration.completed': 'Great! Now you can look for games with /games',
+
+  // Отмена игры
+  'cancel.onlyOrganizer': 'Only the game organizer can cancel it',
+  'cancel.askReason': '❌ Canceling the game at {time}\n\n📝 Send the reason in one message — players will see it.',
+  'cancel.noReasonButton': 'No reason',
+  'cancel.keepButton': "↩️ Don't cancel",
+  'cancel.confirmButton': '❌ Yes, cancel the game',
+  'cancel.sessionExpired': 'Session expired. Start again with /cancel',
+  'cancel.confirm': 'Cancel the game? Players will be notified, paid registrations will be marked for refund.',
+  'cancel.reason': '📝 Reason: {reason}',
+  'cancel.canceledToast': 'Game canceled',
+  'cancel.done': '❌ Game canceled. Players notified: {count}.',
+  'cancel.refundDue': '💸 Paid in advance: {count}. Refund them — the statuses are in /payments {gameId}',
+  'cancel.aborted': 'The game was not canceled 👍',
+
+  // История игры (журнал аудита)
+  'history.title': '📜 Game history {time}\n\n{timeline}',
+  'history.empty': '📜 No events for this game yet',
+  'history.line': '{time} — {text}',
+  'history.unknownUser': 'Unknown player',
+  'history.PlayerJoined': '✅ {player} joined',
+  'history.PlayerJoinedWaitlist': '⏳ {player} joined the waitlist',
+  'history.RegistrationCanceled': '❌ {player} left',
+  'history.WaitlistOfferMade': '🎟 {player} was offered a spot from the waitlist (answer by {time})',
+  'history.WaitlistOfferExpired': "⌛ {player} didn't answer the offered spot",
+  'history.WaitlistedPromoted': '⬆️ {player} moved from the waitlist to the roster',
+  'history.PaymentMarked': '💰 {player} marked payment',
+  'history.PaymentStatusOverridden': '✍️ {actor} set payment for {player}: {status}',
+  'history.PaymentChargedFromBalance': '💳 {amount} charged from the balance of {player}',
+  'history.GameUpdated': '✏️ {actor} edited the game',
+  'history.GameClosed': '🔒 {actor} closed registration',
+  'history.GameClosedAutomatically': '🔒 Registration closed automatically before the game',
+  'history.GameFinished': '🏁 {actor} finished the game',
+  'history.GameFinishedAutomatically': '🏁 The game finished automatically',
+  'history.GameCanceled': '🚫 {actor} canceled the game',
+  'history.GameCanceledReason': '🚫 {actor} canceled the game: {reason}',
+  'history.GamePublishedForAll': '📢 The game was opened to all players',
+
+  // Серии игр
+  'series.format': 'VENUE_ID | tue,thu | 20:00 | Capacity | Level | Price | Days ahead',
+  'series.weekdays': 'mon,tue,wed,thu,fri,sat,sun',
+  'series.empty': '🔁 No series yet.\n\nCreate a recurring game:\n/addseries {format}\n\nVenue IDs: /venues',
+  'series.list': '🔁 *Game series:*\n\n{list}\n\nStop: /stopseries ID',
+  'series.created': '✅ Series created\n\n{series}\n\nGames created: {created}. The rest will appear automatically {days} in advance.',
+  'series.stopped': '⏹️ Series stopped. Games already created are kept.',
+  'series.schedule': '*{days} at {time}*',
+  'series.inactive': ' (stopped)',
+  'series.createdAhead': '🗓️ Games are created {days} in advance',
+
+  // Площадки
+  'venues.format': 'Name | Address | Courts | indoor/outdoor | Capacity | Price',
+  'venues.empty': '🏟️ No venues yet.\n\nAdd a venue:\n/addvenue {format}',
+  'venues.list': '🏟️ *Venues:*\n\n{list}\n\nAdd: /addvenue\nEdit: /editvenue ID | ...\nDelete: /deletevenue ID',
+  'venues.added': '✅ Venue added\n\n{venue}',
+  'venues.updated': '✅ Venue updated\n\n{venue}',
+  'venues.deleted': '🗑️ Venue deleted. Games already created there are kept.',
+  'venues.shared': ' (shared)',
+  'venues.indoor': '🏠 Indoor',
+  'venues.outdoor': '☀️ Outdoor',
+  'venues.courts': '{type}, courts: {count}',
+  'venues.defaultCapacity': '👥 Default capacity: {capacity}',
+
+  // Dead letter queue событий (для администраторов)
+  'deadLetters.usage': '/deadletters - events that failed to process\n/deadletter ID - details and payload\n/replayevent ID|all - replay\n/discardevent ID|all - discard',
+  'deadLetters.empty': '✅ No failed events',
+  'deadLetters.list': '📭 Failed events: {total}\n\n{list}\n\n{usage}',
+  'deadLetters.item': '{id}\n{eventType} → {handler}\n🕒 {createdAt}\n❗ {error}',
+  'deadLetters.details': '📨 {eventType} → {handler}\nID: {id}\nStatus: {status}\nEvent time: {occurredAt}\nDead-lettered: {createdAt}\nReplays: {attempts}\n❗ {error}\n\nPayload:\n{payload}',
+  'deadLetters.replayed': '✅ Event replayed',
+  'deadLetters.replayFailed': '❌ Replay failed: {error}\nThe event stays in the queue.',
+  'deadLetters.replayedAll': '🔁 Replayed: {replayed}, failed: {failed}',
+  'deadLetters.discarded': '🗑️ Event discarded',
+  'deadLetters.discardedAll': '🗑️ Events discarded: {count}',
+
+  // Mini App (каталог отдается клиенту через /app/messages)
+  'webapp.title': 'Games',
+  'webapp.allLevels': 'All levels',
+  'webapp.allVenues': 'All venues',
+  'webapp.noGames': 'No matching games',
+  'webapp.players': 'Players',
+  'webapp.waitlist': 'Waitlist',
+  'webapp.spots': 'Spots: {confirmed}/{capacity}',
+  'webapp.join': 'Join',
+  'webapp.leave': 'Leave',
+  'webapp.pay': 'Mark as paid',
+  'webapp.payments': 'Payments',
+  'webapp.paid': 'Paid',
+  'webapp.unpaid': 'Unpaid',
+  'webapp.disputed': 'Disputed',
+  'webapp.collected': 'Collected',
+  'webapp.outstanding': 'Outstanding',
+  'webapp.noPlayers': 'Nobody yet',
+  'webapp.joined': 'You are in the main roster',
+  'webapp.waitlisted': 'You are on the waitlist',
+  'webapp.left': 'Registration canceled',
+  'webapp.paymentMarked': 'Payment marked',
+  'webapp.openInTelegram': 'Open the app from the bot menu in Telegram',
+  'webapp.loadFailed': 'Failed to load data',
+
+  // Мастер создания и изменения игры
+  'wizard.unfinished': '📝 You have an unfinished game draft\n\n{summary}\n\nContinue where you left off?',
+  'wizard.resumeButton': '▶️ Continue',
+  'wizard.restartButton': '🔄 Start over',
+  'wizard.sessionExpired': 'Session expired. Start again with /newgame',
+  'wizard.resumeFailed': 'Could not continue creating the game. Start again with /newgame',
+  'wizard.chooseDate': '🗓️ Choose the game date:',
+  'wizard.chooseNewDate': '🗓️ Choose the new game date:',
+  'wizard.chooseTime': '⏰ Choose the start time:',
+  'wizard.chooseLevel': '🎯 Choose the game level:',
+  'wizard.chooseVenue': '🏟️ Choose the venue:',
+  'wizard.chooseCapacity': '👥 Choose the game capacity:',
+  'wizard.choosePrice': '💰 Choose the game price:',
+  'wizard.today': 'Today',
+  'wizard.tomorrow': 'Tomorrow',
+  'wizard.dayAfter': 'Day after tomorrow',
+  'wizard.invalidDate': 'Invalid date',
+  'wizard.dateLine': '📅 Date: {date}',
+  'wizard.dayLine': '📅 {date}',
+  'wizard.dateTimeLine': '📅 {date} at {time}',
+  'wizard.levelLine': '🎯 Level: {level}',
+  'wizard.capacityLine': '👥 Capacity: {players}',
+  'wizard.defaultCapacity': '{players} (default)',
+  'wizard.priceOther': 'Other',
+  'wizard.venuePrice': '{price} (venue price)',
+  'wizard.splitPrice': '{price}₽ rent split between players',
+  'wizard.noVenues': '🏟️ No venues available. Add one with /addvenue and start again with /newgame',
+  'wizard.noVenuesEdit': '🏟️ No venues available. Add one with /addvenue',
+  'wizard.venueNotFound': 'Venue not found. Start again with /newgame',
+  'wizard.venueMissing': 'Venue not found',
+  'wizard.pastTime': '❌ Error: the game time cannot be in the past. Start again with /newgame',
+  'wizard.created': '✅ Game created!\n\n📅 {time}\n🎯 Level: {level}\n{venue}\n👥 Capacity: {players}\n💰 {price}\n\nGame ID: `{gameId}`\n\nTell your friends: `/join {gameId}`',
+  'wizard.createFailed': '❌ Error creating the game: {error}',
+  'wizard.onlyOrganizerCanEdit': 'Only the game organizer can change it',
+  'wizard.editSummary': '✏️ Editing the game\n\n📅 {time}\n🎯 Level: {level}\n🚧 Player level: {range}\n{venue}\n👥 Capacity: {players}\n💰 {price}\n\nWhat do you want to change?',
+  'wizard.editDatetimeButton': '📅 Date and time',
+  'wizard.editLevelButton': '🎯 Level',
+  'wizard.editLevelRangeButton': '🚧 Player level',
+  'wizard.editVenueButton': '🏟️ Venue',
+  'wizard.editCapacityButton': '👥 Capacity',
+  'wizard.editPriceButton': '💰 Price',
+  'wizard.editSessionExpired': 'Session expired. Start again with /editgame',
+  'wizard.unknownField': 'Unknown field. Start again with /editgame',
+  'wizard.chooseLevelRange': '🚧 Who can join? Game level: {level}',
+  'wizard.levelRangeNeedsLevel': 'Set the game level first: the restriction is based on it',
+  'wizard.rangeAnyButton': 'Everyone, no restriction',
+  'wizard.rangeOnlyButton': 'Only: {level}',
+  'wizard.rangeMinButton': '{level} or higher',
+  'wizard.rangeMaxButton': '{level} or lower',
+  'wizard.nothingChanged': 'Nothing changed — the current value was selected',
+  'wizard.updated': '✅ Game updated\n\n{changes}',
+  'wizard.offered': '🎟 Spots offered to waitlisted players: {count}',
+  'wizard.participantsNotified': 'Players will be notified about the changes.',
+  'wizard.updateFailed': '❌ Error updating the game: {error}',
+};
@@ -0,0 +1,130 @@
+/**
+ * Локализация текстов бота
+ * Тексты хранятся в каталогах сообщений по локалям, ключ - идентификатор сообщения.
+ * Локаль выбирается по настройке пользователя (User.locale)
+ */
+
+import { config } from '../config.js';
+import type { UserLocalization } from '../date-utils.js';
+import { ru } from './ru.js';
+import { en } from './en.js';
+
+export type Locale = 'ru-RU' | 'en-US';
+
+// Категории множественного числа по CLDR: русскому нужны one/few/many, английскому - one/other
+export type PluralCategory = 'one' | 'few' | 'many' | 'other';
+export type PluralMessage = Partial<Record<PluralCategory, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof ru;
+export type MessageCatalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Функция перевода, привязанная к локали получателя
+ */
+export interface Translator {
+  (key: MessageKey, params?: MessageParams): string;
+  readonly locale: Locale;
+}
+
+const catalogs: Record<Locale, MessageCatalog> = {
+  'ru-RU': ru,
+  'en-US': en,
+};
+
+const pluralRules: Record<Locale, (count: number) => PluralCategory> = {
+  'ru-RU': count => {
+    const n = Math.abs(count);
+    if (!Number.isInteger(n)) return 'other';
+    const mod10 = n % 10;
+    const mod100 = n % 100;
+    if (mod10 === 1 && mod100 !== 11) return 'one';
+    if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return 'few';
+    return 'many';
+  },
+  'en-US': count => (count === 1 ? 'one' : 'other'),
+};
+
+function isLocale(locale: string): locale is Locale {
+  return locale in catalogs && config.localization.supportedLocales.includes(locale);
+}
+
+/**
+ * Приводит код языка к поддерживаемой локали
+ * Принимает как полные локали ("en-US"), так и коды языка Telegram ("en"); неизвестные - локаль по умолчанию
+ */
+export function resolveLocale(locale?: string | null): Locale {
+  if (locale) {
+    if (isLocale(locale)) return locale;
+    const language = locale.split('-')[0]!.toLowerCase();
+    const match = config.localization.supportedLocales.find(supported => supported.split('-')[0] === language);
+    if (match && isLocale(match)) return match;
+  }
+  const fallback = config.localization.defaultLocale;
+  return isLocale(fallback) ? fallback : 'ru-RU';
+}
+
+/**
+ * Проверяет, есть ли сообщение с таким ключом в каталоге
+ * Нужна для динамических ключей (коды ошибок, уровни, статусы)
+ */
+export function isMessageKey(key: string): key is MessageKey {
+  return key in ru;
+}
+
+/**
+ * Выбирает форму множественного числа по правилам локали
+ */
+export function selectPluralForm(locale: Locale, count: number, message: PluralMessage): string {
+  return message[pluralRules[locale](count)] ?? message.other;
+}
+
+/**
+ * Переводит сообщение в указанную локаль
+ * Параметры подставляются вместо {name}; для сообщений с формами множественного числа нужен параметр count.
+ * Если перевода нет, используется русский каталог
+ */
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const message = catalogs[locale][key] ?? ru[key];
+  const template = typeof message === 'string'
+    ? message
+    : selectPluralForm(locale, Number(params.count ?? 0), message);
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Сообщения локали из указанных разделов каталога (префикс ключа до точки), без подстановки параметров
+ * Для клиентов со своим рендерингом (Mini App); формы множественного числа не передаются
+ * @param sections - Разделы, например ['webapp', 'level']
+ */
+export function getCatalogSections(locale: Locale, sections: string[]): Record<string, string> {
+  const messages: Record<string, string> = {};
+  for (const key of Object.keys(ru) as MessageKey[]) {
+    if (!sections.includes(key.split('.')[0]!)) continue;
+    const message = catalogs[locale][key] ?? ru[key];
+    if (typeof message === 'string') messages[key] = message;
+  }
+  return messages;
+}
+
+/**
+ * Создает функцию перевода для локали
+ */
+export function createTranslator(locale?: string | null): Translator {
+  const resolved = resolveLocale(locale);
+  const translator = (key: MessageKey, params?: MessageParams) => translate(resolved, key, params);
+  return Object.assign(translator, { locale: resolved });
+}
+
+/**
+ * Создает функцию перевода для пользователя по сохраненной локали
+ * @param user - Запись пользователя (или ее часть) с настройкой locale
+ * @param fallbackLocale - Локаль, если пользователь не найден (например, язык клиента Telegram)
+ */
+export function getTranslator(user?: UserLocalization | null, fallbackLocale?: string | null): Translator {
+  return createTranslator(user?.locale || fallbackLocale);
+}
@@ -0,0 +1,558 @@
+import type { Message } from './index.js';
+
+/**
+ * Русский каталог сообщений бота
+ * Основной каталог: набор ключей других каталогов сверяется с ним при компиляции
+ */
+export const ru = {
+  // Общие сообщения
+  'common.registerFirst': 'Сначала зарегистрируйся командой /start',
+  'common.userNotFound': 'Пользователь не найден',
+  'common.userNotFoundStart': 'Пользователь не найден. Начни с команды /start',
+  'common.notOrganizer': 'Ты не зарегистрирован как организатор',
+  'common.notOrganizerChooseRole': 'Ты не зарегистрирован как организатор. Выбери роль организатора в /start',
+  'common.notGameOrganizer': 'Ты не организатор этой игры',
+  'common.invalidGameIdUuid': 'Неверный формат ID игры. Используй UUID.',
+  'common.invalidGameId': 'Неверный формат ID игры',
+  'common.invalidPlayerId': 'Неверный формат ID игрока',
+  'common.invalidAction': 'Неверный формат действия',
+  'common.gameNotFound': 'Игра не найдена',
+  'common.usage': 'Использование: /{command} {usage}',
+  'common.yes': '✅ Да',
+  'common.no': '❌ Нет',
+  'common.back': '⬅️ Назад',
+  'common.done': '✅ Готово',
+  'common.enabled': '✅ Включены',
+  'common.disabled': '❌ Отключены',
+  'common.error': 'Ошибка',
+  'common.free': 'Бесплатно',
+  'common.priceByAgreement': 'По согласованию',
+  'common.priceByOrganizer': 'По согласованию с организатором',
+  'common.unknownName': 'Неизвестно',
+  'common.organizerLine': 'Организатор: {name}\n',
+  'common.amountDueLine': '💵 К оплате: {amount}\n',
+  'common.players': { one: '{count} игрок', few: '{count} игрока', many: '{count} игроков', other: '{count} игрока' },
+  'common.days': { one: '{count} день', few: '{count} дня', many: '{count} дней', other: '{count} дня' },
+  'common.unknownCommand': 'Неизвестная команда. Используй /help для просмотра доступных команд или /menu для быстрого доступа к командам.',
+  'common.fixAndRetry': 'Исправьте данные и попробуйте снова.',
+  'common.retryLater': 'Попробуйте повторить операцию через несколько минут.',
+  'common.unexpectedError': 'Произошла неожиданная ошибка. Попробуйте позже.',
+
+  // Уровни игр и игроков
+  'level.novice': 'Новички',
+  'level.amateur': 'Любители',
+  'level.experienced': 'Опытные',
+  'level.pro': 'Профи',
+  'level.general': 'Общий уровень',
+  'playerLevel.novice': 'Новичок',
+  'playerLevel.amateur': 'Любитель',
+  'playerLevel.experienced': 'Опытный',
+  'playerLevel.pro': 'Профи',
+  'playerLevel.none': 'Без уровня',
+  'levelRange.any': 'любой',
+  'levelRange.between': '{min} - {max}',
+  'levelRange.atLeast': 'не ниже: {level}',
+  'levelRange.atMost': 'не выше: {level}',
+
+  // Статусы
+  'registrationStatus.confirmed': '✅ Подтвержден',
+  'registrationStatus.waitlisted': '⏳ В ожидании',
+  'registrationStatus.offered': '🎟 Предложено место',
+  'registrationStatus.canceled': '❌ Отменен',
+  'paymentStatus.paid': '💰 Оплачено',
+  'paymentStatus.unpaid': '⏳ Не оплачено',
+  'paymentStatus.refund_due': '↩️ Нужен возврат',
+  'paymentStatus.disputed': '⚠️ Оплата оспорена',
+  'ledgerEntryType.deposit': '➕ Пополнение',
+  'ledgerEntryType.game_charge': '🏐 Списание за игру',
+  'ledgerEntryType.refund': '↩️ Возврат',
+  'ledgerEntryType.adjustment': '✏️ Корректировка',
+  'organizerRole.owner': '👑 Владелец',
+  'organizerRole.co_organizer': '🤝 Соорганизатор',
+  'organizerRole.treasurer': '💼 Казначей',
+  'gameStatus.open': '🟢 Открыта',
+  'gameStatus.closed': '🔴 Закрыта',
+  'gameStatus.finished': '✅ Завершена',
+  'gameStatus.canceled': '❌ Отменена',
+
+  // Названия языков (каждый язык - на нем самом)
+  'localeName.ru-RU': 'Русский',
+  'localeName.en-US': 'English',
+
+  // Ошибки по кодам доменных ошибок
+  'errors.GAME_NOT_OPEN': 'Игра не открыта для записи',
+  'errors.GAME_ALREADY_STARTED': 'Игра уже началась',
+  'errors.CAPACITY_REACHED': 'Все места заняты',
+  'errors.ALREADY_REGISTERED': 'Вы уже зарегистрированы на эту игру',
+  'errors.VENUE_OCCUPIED': 'Площадка занята в это время',
+  'errors.VENUE_ARCHIVED': 'Площадка удалена и недоступна для новых игр',
+  'errors.GAME_NOT_CANCELABLE': 'Завершенную или уже отмененную игру нельзя отменить',
+  'errors.GAME_NOT_EDITABLE': 'Завершенную или отмененную игру нельзя изменить',
+  'errors.CAPACITY_BELOW_CONFIRMED': 'Нельзя уменьшить вместимость ниже числа записавшихся',
+  'errors.PAYMENT_DISPUTED': 'Оплата оспорена организатором - свяжись с ним',
+  'errors.PRICING_NOT_SET': 'У игры не указана сумма для онлайн-оплаты',
+  'errors.PAYMENT_ALREADY_MARKED': 'Оплата уже отмечена',
+  'errors.INVOICE_OUTDATED': 'Счет устарел - запроси новый командой /pay',
+  'errors.ILLEGAL_STATUS_TRANSITION': 'Это действие недоступно: игра уже закрыта, завершена или отменена',
+  'errors.NO_WAITLIST_OFFER': 'Место тебе не предлагалось или предложение уже закрыто',
+  'errors.WAITLIST_OFFER_EXPIRED': 'Время ответа на предложенное место истекло - оно передано следующему в очереди',
+  'errors.GROUP_CHAT_ALREADY_BOUND': 'Эта группа уже привязана к другому организатору',
+  'errors.ALREADY_TEAM_MEMBER': 'Пользователь уже состоит в команде другого организатора',
+  'errors.LEVEL_NOT_ALLOWED': 'Ваш уровень не подходит для этой игры',
+  'errors.LEVEL_ALREADY_VERIFIED': 'Уровень подтвержден организатором, изменить его может только организатор',
+  'errors.PLAYER_NOT_LINKED': 'Баланс ведется только для подтвержденных игроков организатора',
+  'errors.INVALID_INPUT': 'Некорректный ввод',
+  'errors.MISSING_REQUIRED_FIELD': 'Обязательное поле не заполнено',
+  'errors.INVALID_FORMAT': 'Некорректный формат данных',
+  'errors.VALUE_OUT_OF_RANGE': 'Значение вне допустимого диапазона',
+  'errors.VALIDATION_FAILED': 'Ошибка валидации',
+  'errors.NOT_FOUND': 'Сущность не найдена',
+  'errors.FORBIDDEN': 'Доступ запрещен',
+  'errors.UNAUTHORIZED': 'Необходима авторизация',
+  'errors.DATABASE_ERROR': 'Ошибка базы данных',
+  'errors.EXTERNAL_SERVICE_ERROR': 'Ошибка внешнего сервиса',
+  'errors.TIMEOUT_ERROR': 'Превышено время ожидания',
+  'errors.SYSTEM_ERROR': 'Системная ошибка',
+  'errors.INVALID_STATE': 'Недопустимое состояние',
+  'errors.PAYMENT_WINDOW_NOT_OPEN': 'Окно оплаты еще не открыто',
+  'errors.NOT_CONFIRMED': 'Только подтвержденные участники могут отмечать оплату',
+  'errors.PRIORITY_WINDOW_ACTIVE': 'Игра доступна только для подтвержденных игроков организатора в приоритетное окно',
+  'errors.validation': 'Некорректные данные: {field}',
+  'errors.system': 'Произошла системная ошибка. Попробуйте позже.',
+  'errors.unknown': 'Неизвестная ошибка',
+  'errors.generic': 'Произошла ошибка. Попробуйте позже.',
+
+  // Уведомления
+  'notifications.gameReminder24h': '⏰ Напоминание: игра завтра {time}!\n{venue}\n💰 {price}',
+  'notifications.gameReminder2h': '🚨 Через 2 часа игра!\n⏰ {time}\n{venue}\n💰 {price}',
+  'notifications.paymentReminder12h': '💰 Напоминание: оплата за игру {gameId}\n{amountDue}{organizer}💳 Пожалуйста, произведите оплату',
+  'notifications.paymentReminder24h': '⚠️ Последнее напоминание об оплате!\n💰 Игра {gameId}\n{amountDue}{organizer}⏰ Просьба оплатить в ближайшее время',
+  'notifications.manualPaymentReminder': '💰 Напоминание об оплате!\nИгра "{game}" завершена\n{amountDue}{organizer}⏰ Пожалуйста, отметьте оплату командой /pay {gameId}',
+  'notifications.defaultGameName': 'Волейбол',
+  'notifications.playerJoined': '👤 Новый участник в игре!\n{name} - {status}',
+  'notifications.playerJoinedConfirmed': '✅ Подтвержден',
+  'notifications.playerJoinedWaitlisted': '⏳ В листе ожидания',
+  'notifications.waitlistPromoted': '🎉 Поздравляем! Вы продвинуты из листа ожидания!\n✅ Место подтверждено на игру {time}\n💰 Не забудьте оплатить участие',
+  'notifications.waitlistOffer': '🎟 Освободилось место на игру {time}\n📍 {venue}\n\nПодтверди участие до {expiresAt}, иначе место перейдет следующему в очереди',
+  'notifications.waitlistOfferExpired': '⌛ Ты не ответил на предложенное место на игру {time} - оно передано следующему в очереди.\nЕсли планы изменятся, запишись снова',
+  'notifications.paymentMarked': '💰 Оплата получена!\n👤 {name} отметил оплату за игру',
+  'notifications.paymentChargedFromBalance': '💳 За игру {time} с твоего баланса у организатора списано {amount}\nОстаток: {balance}',
+  'notifications.ledgerEntryRecorded': '{type}: {amount}\nОрганизатор: {organizer}\nБаланс: {balance}',
+  'notifications.levelVerified': '🎯 Организатор {organizer} подтвердил ваш уровень: {level}',
+  'notifications.levelAdjusted': '🎯 Организатор {organizer} изменил ваш уровень: {from} → {to}',
+  'notifications.registrationCanceled': '❌ Отмена регистрации\nИгрок {name} отменил участие в игре',
+  'notifications.gameUpdated': '✏️ Организатор изменил игру\n⏰ {time}\n{venue}\n\n{changes}',
+  'notifications.gameCanceled': '❌ Игра отменена\n⏰ {time}\n{venue}',
+  'notifications.gameCanceledRefund': '💸 Ты уже оплатил игру — организатор {organizer} вернет деньги.',
+  'notifications.playerSelectedOrganizers': '👤 Новый запрос на связь!\nИгрок {name} хочет присоединиться к вашим играм.',
+  'notifications.accept': '✅ Принять',
+  'notifications.decline': '❌ Отказать',
+  'notifications.playerConfirmed': '✅ Поздравляем!\nОрганизатор {organizer} подтвердил вашу связь.\nТеперь вы будете получать приоритетные приглашения на игры!',
+  'notifications.playerRejected': '❌ Связь отклонена\nОрганизатор {organizer} отклонил ваш запрос на связь.',
+  'notifications.priorityInvitation': '🎾 Приоритетное приглашение!\n{time}\n{venue}\n💰 {price}\n{organizer}\n\n⏰ У вас есть 2 часа на ответ!',
+  'notifications.invitationResponse': '📝 Ответ на приглашение\nИгрок {name}: {response}\nИгра: {gameId}',
+  'notifications.responseIgnored': '⏳ Игнорирует',
+  'notifications.gamePublished': '🎾 Новая игра доступна!\n{time}\n{level}\n💰 {price}\n{organizer}\n',
+  'notifications.join': 'Присоединиться',
+
+  // Изменения игры ("было → стало")
+  'changes.time': '⏰ Время: {from} → {to}',
+  'changes.venue': '🏟️ Площадка: {from} → {to}',
+  'changes.capacity': '👥 Вместимость: {from} → {to}',
+  'changes.level': '🎯 Уровень: {from} → {to}',
+  'changes.levelRange': '🚧 Допустимый уровень: {from} → {to}',
+  'changes.price': '💰 Стоимость: {from} → {to}',
+
+  // Игры: список, информация, запись
+  'games.participants': 'Участников: {confirmed}/{capacity}',
+  'games.waitlisted': 'В ожидании: {count}',
+  'games.freeSpots': { one: '{count} место свободно', few: '{count} места свободно', many: '{count} мест свободно', other: '{count} места свободно' },
+  'games.levelRestriction': '🚧 Уровень игроков: {range}',
+  'games.noneOrganizer': 'Нет активных игр. Создай новую командой /newgame',
+  'games.nonePlayer': 'Нет активных игр. Ждем, когда организаторы создадут новые игры',
+  'games.allJoined': 'Все доступные игры уже заняты тобой. Проверь свои регистрации командой /my',
+  'games.available': 'Доступные игры:\n\n{list}',
+  'games.joinButton': '{date} 🎾 Присоединиться',
+  'games.joinedConfirmed': 'Место забронировано ✅',
+  'games.joinedWaitlisted': 'Лист ожидания ⏳ (сообщим, если место освободится)',
+  'games.left': 'Запись отменена. Если освободилось место, пригласили следующего.',
+  'games.paymentMarked': 'Оплата отмечена 💰 Спасибо!',
+  'games.closed': 'Игра закрыта для новых записей 🔒',
+
+  // Мои игры
+  'my.playerGames': '🎾 *Игры как участник:*',
+  'my.organizerGames': '👑 *Созданные игры:*',
+  'my.rejoinButton': '🔄 {date} Присоединиться',
+  'my.leaveButton': '❌ {date} Отменить',
+  'my.payButton': '💰 {date} Оплатить',
+  'my.acceptOfferButton': '✅ {date} Принять место',
+  'my.declineOfferButton': '❌ {date} Отказаться',
+  'my.closeButton': '🔒 {date} Закрыть',
+  'my.paymentsButton': '💰 {date} Оплаты',
+  'my.editButton': '✏️ {date} Изменить',
+  'my.cancelButton': '❌ {date} Отменить',
+  'my.empty': 'У тебя нет активных регистраций и созданных игр. Найди игру командой /games или создай новую командой /newgame',
+
+  // Оплаты
+  'payments.status': '💰 Статус оплат для игры {date}\n\n{payments}\n\nОплачено: {paid}/{total}',
+  'payments.loadFailed': 'Не удалось получить данные об оплатах',
+  'payments.remindButton': '📢 Отправить напоминания',
+  'payments.remindersSent': 'Напоминания отправлены!',
+  'payments.remindersSentMark': '✅ Напоминания отправлены!',
+  'payments.remindersFailed': 'Ошибка при отправке напоминаний',
+  'payments.editButton': '✏️ {name}',
+  'payments.disputedCount': '⚠️ Оспорено: {count}',
+  'payments.totals': '💵 С игрока: {perPlayer}\nСобрано: {collected}\nОсталось собрать: {outstanding}',
+  'payments.chooseStatus': '💳 Оплата игрока {name}: {status}\n\nВыбери новый статус:',
+  'payments.setPaidButton': '💰 Оплачено',
+  'payments.setUnpaidButton': '⏳ Не оплачено',
+  'payments.setDisputedButton': '⚠️ Оспорить',
+  'payments.statusChanged': '✅ Оплата игрока {name}: {status}',
+  'onlinePayments.invoiceTitle': '🏐 Игра {date}',
+  'onlinePayments.invoiceDescription': 'Оплата участия в игре {date}: {amount}',
+  'onlinePayments.priceLabel': 'Участие в игре',
+  'onlinePayments.fakeInvoice': '🧪 Тестовый счет (деньги не списываются)\nИгра {date}\nК оплате: {amount}',
+  'onlinePayments.fakePayButton': '💳 Оплатить (тест)',
+  'onlinePayments.paid': '✅ Оплата {amount} получена - ты отмечен как оплативший',
+  'onlinePayments.alreadyProcessed': 'Эта оплата уже учтена',
+  'balance.title': '💳 Твой баланс у организаторов:\n\n{balances}',
+  'balance.line': '👤 {organizer}: {amount}',
+  'balance.empty': 'У тебя пока нет предоплаты ни у одного организатора',
+  'balance.overviewTitle': '💳 Балансы игроков:\n\n{players}\n\nВыбери игрока, чтобы посмотреть движения или внести пополнение',
+  'balance.overviewLine': '👤 {name}: {amount}',
+  'balance.overviewEmpty': 'У тебя пока нет подтвержденных игроков и движений по балансам',
+  'balance.playerButton': '👤 {name}',
+  'balance.ledgerTitle': '💳 Баланс игрока {name}: {amount}\n\n{entries}',
+  'balance.ledgerEntry': '{date} {type}: {amount}',
+  'balance.noEntries': 'Движений пока нет',
+  'balance.depositButton': '➕ Пополнение',
+  'balance.refundButton': '↩️ Возврат',
+  'balance.adjustmentButton': '✏️ Корректировка',
+  'balance.askAmount': '{type} для игрока {name}\n\nОтправь сумму и, если нужно, комментарий, например: 3000 за октябрь\nДля корректировки в минус укажи сумму со знаком: -150',
+  'balance.invalidAmount': 'Не получилось разобрать сумму. Отправь число, например: 3000 или -150,50 комментарий',
+  'balance.recorded': '✅ {type} для игрока {name}: {amount}\nБаланс: {balance}',
+  'balance.abortButton': '↩️ Отменить',
+  'balance.aborted': 'Ввод суммы отменен',
+  'waitlist.acceptButton': '✅ Иду',
+  'waitlist.declineButton': '❌ Не смогу',
+  'waitlist.accepted': '✅ Место твое! Ждем на игре',
+  'waitlist.declined': 'Понятно, место передано следующему в очереди',
+  'waitlist.position': '⏳ Ты в листе ожидания: {position} из {count}',
+  'waitlist.positionShort': '{position}-й в очереди',
+  'waitlist.offeredUntil': '🎟 Тебе предложено место - ответь до {time}',
+
+  // Группа клуба
+  'groupChat.groupOnly': 'Команду /bindgroup нужно отправить в группе клуба, куда добавлен бот',
+  'groupChat.adminOnly': 'Привязать группу может только ее администратор',
+  'groupChat.startPrivately': 'Сначала зарегистрируйся: открой бота в личных сообщениях и нажми /start',
+  'groupChat.bound': '✅ Группа «{title}» привязана. Новые игры будут публиковаться здесь с кнопками записи',
+  'groupChat.unbound': 'Группа отвязана. Новые игры больше не будут публиковаться в ней',
+  'groupChat.joinButton': '🎾 Записаться',
+  'groupChat.leaveButton': '❌ Отменить запись',
+  'groupChat.noFreeSpots': 'Свободных мест нет - запись в лист ожидания',
+  'groupChat.notJoined': 'Ты не записан на эту игру',
+
+  // Команда организатора
+  'team.title': '👥 Команда {organizer}:\n\n{members}',
+  'team.memberLine': '{role} - {name}',
+  'team.addButton': '➕ Добавить в команду',
+  'team.removeButton': '❌ {name}',
+  'team.noCandidates': 'Некого добавить: в команду добавляются подтвержденные игроки (/myplayers), которые еще не состоят в другой команде',
+  'team.chooseCandidate': 'Кого добавить в команду?',
+  'team.chooseRole': 'Какую роль дать игроку {name}?\n\n🤝 Соорганизатор ведет игры, игроков и оплаты\n💼 Казначей ведет только оплаты и балансы',
+  'team.added': '✅ {name} в команде: {role}',
+  'team.removed': '{name} больше не в команде',
+  'team.roleForbidden': 'Твоя роль в команде организатора не позволяет это сделать',
+
+  // Настройки
+  'settings.title': '🔔 Настройки уведомлений:',
+  'settings.global': '🌐 Глобальные уведомления: {state}',
+  'settings.paymentAuto': '💰 Автоматические напоминания об оплате: {state}',
+  'settings.paymentManual': '📢 Ручные напоминания об оплате: {state}',
+  'settings.reminder24h': '🎾 Напоминания за 24 часа: {state}',
+  'settings.reminder2h': '🚨 Напоминания за 2 часа: {state}',
+  'settings.organizer': '👥 Уведомления организатора: {state}',
+  'settings.timezone': '🌍 Часовой пояс: {timezone}',
+  'settings.language': '🗣 Язык: {language}',
+  'settings.disableAll': '❌ Отключить все',
+  'settings.enableAll': '✅ Включить все',
+  'settings.paymentsButton': '💰 Оплаты',
+  'settings.gamesButton': '🎾 Игры',
+  'settings.organizerButton': '👥 Организатор',
+  'settings.selectOrganizersButton': '🔗 Выбрать организаторов',
+  'settings.localeButton': '🌍 Часовой пояс и язык',
+  'settings.loadFailed': 'Не удалось загрузить настройки',
+  'settings.loadError': 'Ошибка при загрузке настроек',
+  'settings.updateError': 'Ошибка при обновлении настроек',
+  'settings.updated': '✅ Настройки обновлены',
+  'settings.settingUpdated': '✅ Настройка обновлена',
+  'settings.payments.title': '💰 Настройки уведомлений об оплате:',
+  'settings.payments.auto': '🤖 Автоматические напоминания: {state}',
+  'settings.payments.manual': '📢 Ручные напоминания: {state}',
+  'settings.payments.disableAuto': '❌ Отключить авто',
+  'settings.payments.enableAuto': '✅ Включить авто',
+  'settings.payments.disableManual': '❌ Отключить ручные',
+  'settings.payments.enableManual': '✅ Включить ручные',
+  'settings.payments.updated': '💰 Настройки уведомлений об оплате обновлены',
+  'settings.games.title': '🎾 Настройки уведомлений об играх:',
+  'settings.games.reminder24h': '⏰ Напоминания за 24 часа: {state}',
+  'settings.games.reminder2h': '🚨 Напоминания за 2 часа: {state}',
+  'settings.games.disable24h': '❌ Отключить 24ч',
+  'settings.games.enable24h': '✅ Включить 24ч',
+  'settings.games.disable2h': '❌ Отключить 2ч',
+  'settings.games.enable2h': '✅ Включить 2ч',
+  'settings.games.updated': '🎾 Настройки уведомлений об играх обновлены',
+  'settings.organizerNotifications.title': '👥 Настройки уведомлений организатора:',
+  'settings.organizerNotifications.state': '📬 Уведомления организатора: {state}',
+  'settings.organizerNotifications.disable': '❌ Отключить',
+  'settings.organizerNotifications.enable': '✅ Включить',
+  'settings.organizerNotifications.updated': '👥 Настройки уведомлений организатора обновлены',
+  'settings.locale.title': '🌍 Часовой пояс и язык:',
+  'settings.locale.timezone': '🕐 Часовой пояс: {timezone}',
+  'settings.locale.language': '🗣 Язык: {language}',
+  'settings.locale.hint': 'Время игр в сообщениях бота показывается в выбранном часовом поясе.',
+  'settings.locale.timezoneSet': '✅ Часовой пояс: {timezone}',
+  'settings.locale.languageSet': '✅ Язык: {language}',
+
+  // Организаторы игрока
+  'organizers.selectUsage': 'Укажи ID организаторов через запятую. Пример: /selectorganizers uuid1,uuid2',
+  'organizers.requestsSent': 'Запросы отправлены организаторам. Ожидай подтверждения ✅',
+  'organizers.none': 'У тебя нет связей с организаторами. Выбери организаторов командой /selectorganizers',
+  'organizers.list': '👥 Мои организаторы:\n\n{list}',
+  'organizers.status.confirmed': '✅ Подтвержден',
+  'organizers.status.pending': '⏳ Ожидает',
+  'organizers.status.rejected': '❌ Отклонен',
+  'organizers.loadFailed': 'Не удалось получить список организаторов',
+  'organizers.noneAvailable': 'Нет доступных организаторов',
+  'organizers.selectPrompt': '🔗 Выбери организаторов:',
+  'organizers.selectLoadFailed': 'Не удалось загрузить список организаторов',
+  'organizers.selectionUpdated': '✅ Выбор обновлен',
+  'organizers.selectionUpdateFailed': 'Ошибка при обновлении выбора',
+  'organizers.selectionSaved': '✅ Выбор организаторов сохранен',
+  'organizers.selectionSavedMessage': '🔗 Выбор организаторов сохранен. Организаторы получат запрос на подтверждение.',
+  'organizers.allRemoved': '🔗 Все связи с организаторами удалены.',
+  'organizers.selectionSaveFailed': 'Ошибка при сохранении выбора',
+
+  // Игроки организатора
+  'players.noConfirmed': 'У тебя нет подтвержденных игроков. Используй /pendingplayers для просмотра ожидающих подтверждения',
+  'players.confirmedList': '👥 Мои подтвержденные игроки:\n\n{list}',
+  'players.verifyLevelButton': '🎯 Уровень: {name}',
+  'players.chooseVerifiedLevel': 'Уровень игрока {name} (сейчас: {level}). Выбранный уровень будет подтвержден, игрок больше не сможет изменить его сам:',
+  'players.levelVerified': '✅ Уровень игрока {name}: {level}',
+  'players.noPending': 'Нет игроков, ожидающих подтверждения',
+  'players.pendingList': '⏳ Игроки, ожидающие подтверждения:\n\n{list}',
+  'players.loadFailed': 'Не удалось получить список игроков',
+  'players.confirmed': 'Игрок подтвержден ✅',
+  'players.rejected': 'Игрок отклонен ❌',
+  'players.confirmedToast': '✅ Игрок подтвержден',
+  'players.rejectedToast': '❌ Игрок отклонен',
+
+  // Приглашения
+  'invitations.usage': 'Формат: /respondtogame <game_id> <yes/no>',
+  'invitations.invalidResponse': 'Ответ должен быть "yes" или "no"',
+  'invitations.responseSent': 'Ответ "{response}" отправлен организатору',
+  'invitations.answeredYesToast': '✅ Ответ "Да" отправлен',
+  'invitations.answeredYes': '✅ Вы ответили "Да" на приглашение!',
+  'invitations.answeredNoToast': '❌ Ответ "Нет" отправлен',
+  'invitations.answeredNo': '❌ Вы ответили "Нет" на приглашение!',
+  'invitations.responseFailed': 'Ошибка при отправке ответа',
+
+  // Справка и палитра команд
+  'help.title': '🎾 Доступные команды:',
+  'help.common': 'Общие команды:\n/start - Регистрация в боте\n/games - Список активных игр\n/game ID - Информация об игре\n/my - Мои игры и регистрации\n/menu - Палитра команд',
+  'help.player': 'Команды для игроков:\n/join ID - Записаться на игру\n/leave ID - Отменить запись\n/pay ID - Отметить оплату\n/balance - Мой баланс предоплаты\n/selectorganizers - Выбрать организаторов\n/myorganizers - Мои организаторы\n/respondtogame GAME_ID yes/no - Ответить на приглашение',
+  'help.organizer': 'Команды для организаторов:\n/newgame - Создать новую игру\n/venues - Мои площадки\n/series - Регулярные серии игр\n/close ID - Закрыть запись на игру\n/editgame ID - Изменить игру\n/cancel ID - Отменить игру\n/history ID - История игры\n/payments ID - Статус оплат участников\n/balances - Балансы игроков\n/myplayers - Мои подтвержденные игроки\n/pendingplayers - Игроки, ожидающие подтверждения\n/bindgroup - Привязать группу клуба (в группе)\n/unbindgroup - Отвязать группу клуба\n/team - Команда организатора',
+  'menu.title': '🎾 *Палитра команд*\n\nВыбери нужное действие:',
+  'menu.callbackFailed': 'Ошибка обработки команды',
+  'menu.unknownCommand': 'Неизвестная команда',
+  'menu.done': '✅ Выполнено',
+  'menu.failed': '❌ Ошибка выполнения команды',
+
+  // Кнопки клавиатур
+  'keyboard.join': '📥 Присоединиться',
+  'keyboard.leave': '📤 Отменить запись',
+  'keyboard.pay': '💰 Отметить оплату',
+  'keyboard.payments': '📊 Статус оплат',
+  'keyboard.close': '🔒 Закрыть игру',
+  'keyboard.globalNotifications': '🌐 Глобальные уведомления: {state}',
+  'keyboard.paymentSettings': '💰 Настройки оплат',
+  'keyboard.gameSettings': '🎾 Настройки игр',
+  'keyboard.organizerNotifications': '👥 Уведомления организатора',
+  'keyboard.rolePlayer': 'Игрок',
+  'keyboard.roleOrganizer': 'Организатор',
+  'keyboard.selectOrganizers': '🔗 Выбрать организаторов',
+  'keyboard.finishRegistration': '✅ Завершить регистрацию',
+  'keyboard.findGames': '🎾 Найти игры',
+  'keyboard.myGames': '📋 Мои игры',
+  'keyboard.settings': '⚙️ Настройки',
+  'keyboard.myOrganizers': '👥 Мои организаторы',
+  'keyboard.newGame': '➕ Создать игру',
+  'keyboard.myPlayers': '👑 Мои игроки',
+  'keyboard.help': '❓ Помощь',
+  'keyboard.openApp': '📱 Открыть приложение',
+  'keyboard.quickGames': '🎾 Игры',
+  'keyboard.quickMy': '📋 Мои',
+  'keyboard.quickNewGame': '➕ Создать',
+  'keyboard.confirmPlayer': '✅ Подтвердить',
+  'keyboard.rejectPlayer': '❌ Отклонить',
+
+  // Регистрация
+  'registration.welcome': 'Привет! Я бот для организации волейбольных игр. Выбери свою роль:',
+  'registration.organizerRegistered': 'Ты зарегистрирован как организатор! Создай игру командой /newgame',
+  'registration.chooseLevel': 'Ты выбрал роль игрока. Теперь оцени свой уровень:',
+  'registration.selectOrganizersPrompt': 'Отлично! Хочешь выбрать организаторов для приоритетных приглашений на игры?',
+  'registration.completed': 'Отлично! Теперь ты можешь искать игры командой /games',
+
+  // Отмена игры
+  'cancel.onlyOrganizer': 'Только организатор игры может её отменить',
+  'cancel.askReason': '❌ Отмена игры {time}\n\n📝 Напиши причину отмены одним сообщением — ее увидят участники.',
+  'cancel.noReasonButton': 'Без причины',
+  'cancel.keepButton': '↩️ Не отменять',
+  'cancel.confirmButton': '❌ Да, отменить игру',
+  'cancel.sessionExpired': 'Сессия истекла. Начни заново с /cancel',
+  'cancel.confirm': 'Отменить игру? Участники получат уведомление, оплаченные записи будут отмечены к возврату.',
+  'cancel.reason': '📝 Причина: {reason}',
+  'cancel.canceledToast': 'Игра отменена',
+  'cancel.done': '❌ Игра отменена. Уведомлено игроков: {count}.',
+  'cancel.refundDue': '💸 Оплатили заранее: {count}. Верни им деньги — статусы видны в /payments {gameId}',
+  'cancel.aborted': 'Игра не отменена 👍',
+
+  // История игры (журнал аудита)
+  'history.title': '📜 История игры {time}\n\n{timeline}',
+  'history.empty': '📜 По этой игре пока нет событий',
+  'history.line': '{time} — {text}',
+  'history.unknownUser': 'Неизвестный игрок',
+  'history.PlayerJoined': '✅ {player} записался',
+  'history.PlayerJoinedWaitlist': '⏳ {player} записался в лист ожидания',
+  'history.RegistrationCanceled': '❌ {player} отменил запись',
+  'history.WaitlistOfferMade': '🎟 {player}: предложено место из листа ожидания (ответ до {time})',
+  'history.WaitlistOfferExpired': '⌛ {player} не ответил на предложенное место',
+  'history.WaitlistedPromoted': '⬆️ {player} переведен из листа ожидания в основной состав',
+  'history.PaymentMarked': '💰 {player} отметил оплату',
+  'history.PaymentStatusOverridden': '✍️ {actor} изменил оплату {player}: {status}',
+  'history.PaymentChargedFromBalance': '💳 С баланса {player} списано {amount}',
+  'history.GameUpdated': '✏️ {actor} изменил игру',
+  'history.GameClosed': '🔒 {actor} закрыл запись',
+  'history.GameClosedAutomatically': '🔒 Запись закрыта автоматически перед началом игры',
+  'history.GameFinished': '🏁 {actor} завершил игру',
+  'history.GameFinishedAutomatically': '🏁 Игра завершена автоматически',
+  'history.GameCanceled': '🚫 {actor} отменил игру',
+  'history.GameCanceledReason': '🚫 {actor} отменил игру: {reason}',
+  'history.GamePublishedForAll': '📢 Игра открыта для всех игроков',
+
+  // Серии игр
+  'series.format': 'ID_площадки | вт,чт | 20:00 | Вместимость | Уровень | Цена | Дней вперед',
+  'series.weekdays': 'пн,вт,ср,чт,пт,сб,вс',
+  'series.empty': '🔁 Серий пока нет.\n\nСоздай регулярную игру:\n/addseries {format}\n\nID площадок: /venues',
+  'series.list': '🔁 *Серии игр:*\n\n{list}\n\nОстановить: /stopseries ID',
+  'series.created': '✅ Серия создана\n\n{series}\n\nСоздано игр: {created}. Остальные появятся автоматически за {days} до начала.',
+  'series.stopped': '⏹️ Серия остановлена. Уже созданные игры сохранены.',
+  'series.schedule': '*{days} в {time}*',
+  'series.inactive': ' (остановлена)',
+  'series.createdAhead': '🗓️ Игры создаются за {days}',
+
+  // Площадки
+  'venues.format': 'Название | Адрес | Кортов | зал/улица | Вместимость | Цена',
+  'venues.empty': '🏟️ Площадок пока нет.\n\nДобавь площадку:\n/addvenue {format}',
+  'venues.list': '🏟️ *Площадки:*\n\n{list}\n\nДобавить: /addvenue\nИзменить: /editvenue ID | ...\nУдалить: /deletevenue ID',
+  'venues.added': '✅ Площадка добавлена\n\n{venue}',
+  'venues.updated': '✅ Площадка обновлена\n\n{venue}',
+  'venues.deleted': '🗑️ Площадка удалена. Уже созданные игры на ней сохранены.',
+  'venues.shared': ' (общая)',
+  'venues.indoor': '🏠 Зал',
+  'venues.outdoor': '☀️ Улица',
+  'venues.courts': '{type}, кортов: {count}',
+  'venues.defaultCapacity': '👥 Вместимость по умолчанию: {capacity}',
+
+  // Dead letter queue событий (для администраторов)
+  'deadLetters.usage': '/deadletters - события, которые не удалось обработать\n/deadletter ID - подробности и payload\n/replayevent ID|all - повторить обработку\n/discardevent ID|all - отбросить',
+  'deadLetters.empty': '✅ Необработанных событий нет',
+  'deadLetters.list': '📭 Необработанные события: {total}\n\n{list}\n\n{usage}',
+  'deadLetters.item': '{id}\n{eventType} → {handler}\n🕒 {createdAt}\n❗ {error}',
+  'deadLetters.details': '📨 {eventType} → {handler}\nID: {id}\nСтатус: {status}\nСобытие от: {occurredAt}\nПопал в очередь: {createdAt}\nПовторов: {attempts}\n❗ {error}\n\nPayload:\n{payload}',
+  'deadLetters.replayed': '✅ Событие обработано повторно',
+  'deadLetters.replayFailed': '❌ Повтор не удался: {error}\nСобытие осталось в очереди.',
+  'deadLetters.replayedAll': '🔁 Повторено: {replayed}, не удалось: {failed}',
+  'deadLetters.discarded': '🗑️ Событие отброшено',
+  'deadLetters.discardedAll': '🗑️ Отброшено событий: {count}',
+
+  // Mini App (каталог отдается клиенту через /app/messages)
+  'webapp.title': 'Игры',
+  'webapp.allLevels': 'Все уровни',
+  'webapp.allVenues': 'Все площадки',
+  'webapp.noGames': 'Подходящих игр нет',
+  'webapp.players': 'Участники',
+  'webapp.waitlist': 'Лист ожидания',
+  'webapp.spots': 'Мест: {confirmed}/{capacity}',
+  'webapp.join': 'Записаться',
+  'webapp.leave': 'Отменить запись',
+  'webapp.pay': 'Отметить оплату',
+  'webapp.payments': 'Статус оплат',
+  'webapp.paid': 'Оплачено',
+  'webapp.unpaid': 'Не оплачено',
+  'webapp.disputed': 'Оспорено',
+  'webapp.collected': 'Собрано',
+  'webapp.outstanding': 'Осталось собрать',
+  'webapp.noPlayers': 'Пока никого',
+  'webapp.joined': 'Ты в основном составе',
+  'webapp.waitlisted': 'Ты в листе ожидания',
+  'webapp.left': 'Запись отменена',
+  'webapp.paymentMarked': 'Оплата отмечена',
+  'webapp.openInTelegram': 'Открой приложение из меню бота в Telegram',
+  'webapp.loadFailed': 'Не удалось загрузить данные',
+
+  // Мастер создания и изменения игры
+  'wizard.unfinished': '📝 У тебя есть незавершенное создание игры\n\n{summary}\n\nПродолжить с того же места?',
+  'wizard.resumeButton': '▶️ Продолжить',
+  'wizard.restartButton': '🔄 Начать заново',
+  'wizard.sessionExpired': 'Сессия истекла. Начни заново с /newgame',
+  'wizard.resumeFailed': 'Не удалось продолжить создание игры. Начни заново с /newgame',
+  'wizard.chooseDate': '🗓️ Выбери дату игры:',
+  'wizard.chooseNewDate': '🗓️ Выбери новую дату игры:',
+  'wizard.chooseTime': '⏰ Выбери время начала:',
+  'wizard.chooseLevel': '🎯 Выбери уровень игры:',
+  'wizard.chooseVenue': '🏟️ Выбери площадку:',
+  'wizard.chooseCapacity': '👥 Выбери вместимость игры:',
+  'wizard.choosePrice': '💰 Выбери стоимость игры:',
+  'wizard.today': 'Сегодня',
+  'wizard.tomorrow': 'Завтра',
+  'wizard.dayAfter': 'Послезавтра',
+  'wizard.invalidDate': 'Неверная дата',
+  'wizard.dateLine': '📅 Дата: {date}',
+  'wizard.dayLine': '📅 {date}',
+  'wizard.dateTimeLine': '📅 {date} в {time}',
+  'wizard.levelLine': '🎯 Уровень: {level}',
+  'wizard.capacityLine': '👥 Вместимость: {players}',
+  'wizard.defaultCapacity': '{players} (по умолчанию)',
+  'wizard.priceOther': 'Другое',
+  'wizard.venuePrice': '{price} (цена площадки)',
+  'wizard.splitPrice': '{price}₽ аренда на всех',
+  'wizard.noVenues': '🏟️ Нет доступных площадок. Добавь площадку командой /addvenue и начни заново с /newgame',
+  'wizard.noVenuesEdit': '🏟️ Нет доступных площадок. Добавь площадку командой /addvenue',
+  'wizard.venueNotFound': 'Площадка не найдена. Начни заново с /newgame',
+  'wizard.venueMissing': 'Площадка не найдена',
+  'wizard.pastTime': '❌ Ошибка: время игры не может быть в прошлом. Начни заново с /newgame',
+  'wizard.created': '✅ Игра создана!\n\n📅 {time}\n🎯 Уровень: {level}\n{venue}\n👥 Вместимость: {players}\n💰 {price}\n\nID игры: `{gameId}`\n\nРасскажи друзьям: `/join {gameId}`',
+  'wizard.createFailed': '❌ Ошибка создания игры: {error}',
+  'wizard.onlyOrganizerCanEdit': 'Только организатор игры может её изменить',
+  'wizard.editSummary': '✏️ Изменение игры\n\n📅 {time}\n🎯 Уровень: {level}\n🚧 Уровень игроков: {range}\n{venue}\n👥 Вместимость: {players}\n💰 {price}\n\nЧто изменить?',
+  'wizard.editDatetimeButton': '📅 Дату и время',
+  'wizard.editLevelButton': '🎯 Уровень',
+  'wizard.editLevelRangeButton': '🚧 Уровень игроков',
+  'wizard.editVenueButton': '🏟️ Площадку',
+  'wizard.editCapacityButton': '👥 Вместимость',
+  'wizard.editPriceButton': '💰 Стоимость',
+  'wizard.editSessionExpired': 'Сессия истекла. Начни заново с /editgame',
+  'wizard.unknownField': 'Неизвестное поле. Начни заново с /editgame',
+  'wizard.chooseLevelRange': '🚧 Кого пускать на игру? Уровень игры: {level}',
+  'wizard.levelRangeNeedsLevel': 'Сначала укажи уровень игры — ограничение задается относительно него',
+  'wizard.rangeAnyButton': 'Всех, без ограничений',
+  'wizard.rangeOnlyButton': 'Только: {level}',
+  'wizard.rangeMinButton': 'Не ниже: {level}',
+  'wizard.rangeMaxButton': 'Не выше: {level}',
+  'wizard.nothingChanged': 'Ничего не изменилось — выбрано текущее значение',
+  'wizard.updated': '✅ Игра изменена\n\n{changes}',
+  'wizard.offered': '🎟 Места предложены игрокам из листа ожидания: {count}',
+  'wizard.participantsNotified': 'Участники получат уведомление об изменениях.',
+  'wizard.updateFailed': '❌ Ошибка изменения игры: {error}',
+} satisfies Record<string, Message>;
@@ -30,9 +30,11 @@ export const LOG_MESSAGES = {
     EVENT_HANDLERS_REGISTERED: 'Обработчики событий зарегистрированы',
     QUEUE_WORKERS_INITIALIZED: 'Workers очереди инициализированы',
     HEALTH_CHECK_PASSED: 'Проверка здоровья системы пройдена',
+    API_SERVER_STARTED: 'API сервер запущен',
     BOT_STARTED_SUCCESSFULLY: 'Бот успешно запущен',
     GRACEFUL_SHUTDOWN_INITIATED: 'Graceful shutdown инициирован',
     BOT_STOPPED: 'Бот остановлен',
+    API_SERVER_CLOSED: 'API сервер остановлен',
     SCHEDULER_CLOSED: 'Scheduler закрыт',
     REDIS_DISCONNECTED: 'Redis отключен',
     DATABASE_DISCONNECTED: 'База данных отключена',
@@ -50,6 +52,22 @@ export const LOG_MESSAGES = {
     GAME_SERVICE_ORGANIZER_NOT_FOUND: 'Организатор не найден',
     GAME_SERVICE_VENUE_CONFLICT: 'Обнаружен конфликт площадок',
     GAME_SERVICE_CREATE_COMPLETED: 'Игра создана успешно',
+    VENUE_SERVICE_CREATED: 'Площадка создана',
+    VENUE_SERVICE_UPDATED: 'Площадка обновлена',
+    VENUE_SERVICE_ARCHIVED: 'Площадка перенесена в архив',
+    SERIES_SERVICE_CREATED: 'Серия игр создана',
+    SERIES_SERVICE_STOPPED: 'Серия игр остановлена',
+    WEBHOOK_SERVICE_CREATED: 'Webhook эндпоинт зарегистрирован',
+    WEBHOOK_SERVICE_DELETED: 'Webhook эндпоинт удален',
+    GROUP_CHAT_BOUND: 'Группа привязана к организатору',
+    GROUP_CHAT_UNBOUND: 'Группа отвязана от организатора',
+    TEAM_MEMBER_ADDED: 'Участник добавлен в команду организатора',
+    TEAM_MEMBER_REMOVED: 'Участник исключен из команды организатора',
+    PLAYER_LEVEL_VERIFIED: 'Организатор подтвердил уровень игрока',
+    DEAD_LETTER_REPLAYED: 'Событие из dead letter queue обработано повторно',
+    DEAD_LETTER_REPLAY_FAILED: 'Повтор события из dead letter queue не удался',
+    DEAD_LETTER_REPLAYED_ALL: 'Повтор событий из dead letter queue завершен',
+    DEAD_LETTER_DISCARDED: 'Событие отброшено из dead letter queue',
   },
 
   // Infrastructure Layer - Repositories
@@ -87,11 +105,27 @@ export const LOG_MESSAGES = {
     WAITLIST_PROMOTED_USER_NOT_FOUND: 'Пользователь не найден для уведомления о продвижении из списка ожидания',
     WAITLIST_PROMOTED_NOTIFICATION_SENT: 'Уведомление о продвижении из списка ожидания отправлено',
     WAITLIST_PROMOTED_NOTIFICATION_FAILED: 'Не удалось отправить уведомление о продвижении из списка ожидания',
+    WAITLIST_OFFER_PROCESSING: 'Обработка предложения места из списка ожидания',
+    WAITLIST_OFFER_USER_NOT_FOUND: 'Пользователь не найден для уведомления о предложенном месте',
+    WAITLIST_OFFER_NOTIFICATION_SENT: 'Уведомление о предложенном месте отправлено',
+    WAITLIST_OFFER_NOTIFICATION_FAILED: 'Не удалось отправить уведомление о предложенном месте',
     PAYMENT_MARKED_PROCESSING: 'Обработка отметки оплаты',
     PAYMENT_MARKED_ORGANIZER_NOT_FOUND: 'Организатор не найден для уведомления об отметке оплаты',
     PAYMENT_MARKED_USER_NOT_FOUND: 'Пользователь не найден для уведомления об отметке оплаты',
     PAYMENT_MARKED_NOTIFICATION_SENT: 'Уведомление об отметке оплаты отправлено организатору',
     PAYMENT_MARKED_NOTIFICATION_FAILED: 'Не удалось отправить уведомление об отметке оплаты',
+    PAYMENT_CHARGED_FROM_BALANCE_PROCESSING: 'Обработка списания оплаты с баланса',
+    PAYMENT_CHARGED_FROM_BALANCE_NOT_FOUND: 'Игра или игрок не найдены для уведомления о списании с баланса',
+    PAYMENT_CHARGED_FROM_BALANCE_NOTIFICATION_SENT: 'Уведомление о списании с баланса отправлено игроку',
+    PAYMENT_CHARGED_FROM_BALANCE_NOTIFICATION_FAILED: 'Не удалось отправить уведомление о списании с баланса',
+    LEDGER_ENTRY_RECORDED_PROCESSING: 'Обработка движения по балансу',
+    LEDGER_ENTRY_RECORDED_NOT_FOUND: 'Организатор или игрок не найдены для уведомления о движении по балансу',
+    LEDGER_ENTRY_RECORDED_NOTIFICATION_SENT: 'Уведомление о движении по балансу отправлено игроку',
+    LEDGER_ENTRY_RECORDED_NOTIFICATION_FAILED: 'Не удалось отправить уведомление о движении по балансу',
+    PLAYER_LEVEL_VERIFIED_PROCESSING: 'Обработка подтверждения уровня игрока',
+    PLAYER_LEVEL_VERIFIED_NOT_FOUND: 'Организатор или игрок не найдены для уведомления о подтверждении уровня',
+    PLAYER_LEVEL_VERIFIED_NOTIFICATION_SENT: 'Уведомление о подтверждении уровня отправлено игроку',
+    PLAYER_LEVEL_VERIFIED_NOTIFICATION_FAILED: 'Не удалось отправить уведомление о подтверждении уровня',
     SEND_PAYMENT_REMINDERS_PROCESSING: 'Обработка отправки напоминаний об оплате',
     SEND_PAYMENT_REMINDERS_GAME_NOT_FOUND: 'Игра не найдена для отправки напоминаний об оплате',
     SEND_PAYMENT_REMINDERS_SENT: 'Ручные напоминания об оплате отправлены',
@@ -102,6 +136,14 @@ export const LOG_MESSAGES = {
     REGISTRATION_CANCELED_NOTIFICATION_SENT: 'Уведомление об отмене регистрации отправлено организатору',
     REGISTRATION_CANCELED_NOTIFICATION_FAILED: 'Не удалось отправить уведомление об отмене регистрации',
     GAME_CLOSED_PROCESSING: 'Обработка закрытия игры',
+    GAME_UPDATED_PROCESSING: 'Обработка изменения игры',
+    GAME_UPDATED_NOT_FOUND: 'Игра не найдена для уведомления об изменении',
+    GAME_UPDATED_NOTIFICATIONS_SENT: 'Уведомления об изменении игры отправлены',
+    GAME_UPDATED_NOTIFICATIONS_FAILED: 'Не удалось отправить уведомления об изменении игры',
+    GAME_CANCELED_PROCESSING: 'Обработка отмены игры',
+    GAME_CANCELED_NOT_FOUND: 'Игра не найдена для уведомления об отмене',
+    GAME_CANCELED_NOTIFICATIONS_SENT: 'Уведомления об отмене игры отправлены',
+    GAME_CANCELED_NOTIFICATIONS_FAILED: 'Не удалось отправить уведомления об отмене игры',
     PLAYER_LINKED_TO_ORGANIZER_PROCESSING: 'Обработка связи игрока с организатором',
     PAYMENT_ATTEMPT_REJECTED_EARLY_PROCESSING: 'Обработка ранней попытки оплаты',
     PLAYER_SELECTED_ORGANIZERS_PROCESSING: 'Обработка выбора организаторов игроком',
@@ -130,6 +172,7 @@ export const LOG_MESSAGES = {
     GAME_PUBLISHED_FOR_ALL_GAME_NOT_FOUND: 'Игра не найдена для отправки уведомлений о публикации',
     GAME_PUBLISHED_FOR_ALL_NOTIFICATIONS_SENT: 'Уведомления о публикации игры для всех отправлены',
     GAME_PUBLISHED_FOR_ALL_NOTIFICATIONS_FAILED: 'Не удалось отправить уведомления о публикации игры для всех',
+    SERIES_GAME_RETRIED: 'Повтор создания игры серии выполнен',
   },
 } as const;
 
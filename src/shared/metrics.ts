@@ -1,25 +1,196 @@
-export class Counter {
-  private count = 0;
+/**
+ * Метрики приложения в памяти процесса и их выгрузка в текстовом формате Prometheus
+ * Метки хранятся по отдельным сериям: одна серия на уникальный набор значений меток
+ */
 
-  constructor(private name: string) {}
+export type MetricLabels = Record<string, string>;
 
-  increment(): void {
-    this.count++;
+interface Series<T> {
+  labels: MetricLabels;
+  value: T;
+}
+
+// Границы бакетов гистограммы длительностей по умолчанию, в секундах
+const DEFAULT_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+// Ключ серии не зависит от порядка меток
+function seriesKey(labels: MetricLabels): string {
+  return Object.keys(labels).sort().map(name => `${name}=${labels[name]}`).join(',');
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatHeader(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${escapeHelp(help)}`, `# TYPE ${name} ${type}`];
+}
+
+/**
+ * Общий интерфейс метрик реестра
+ */
+export interface Metric {
+  getName(): string;
+  // Строки серии в формате Prometheus, включая HELP и TYPE
+  render(): string[];
+}
+
+export class Counter implements Metric {
+  private series = new Map<string, Series<number>>();
+
+  constructor(private name: string, private help: string = name) {}
+
+  increment(labels: MetricLabels = {}, value = 1): void {
+    const key = seriesKey(labels);
+    const current = this.series.get(key);
+    if (current) {
+      current.value += value;
+    } else {
+      this.series.set(key, { labels: { ...labels }, value });
+    }
+  }
+
+  getValue(labels: MetricLabels = {}): number {
+    return this.series.get(seriesKey(labels))?.value ?? 0;
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  render(): string[] {
+    const lines = formatHeader(this.name, this.help, 'counter');
+    for (const { labels, value } of this.series.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
   }
+}
+
+/**
+ * Мгновенное значение (глубина очереди и т.п.); обновляется при каждом сборе метрик
+ */
+export class Gauge implements Metric {
+  private series = new Map<string, Series<number>>();
 
-  getValue(): number {
-    return this.count;
+  constructor(private name: string, private help: string = name) {}
+
+  set(labels: MetricLabels, value: number): void {
+    this.series.set(seriesKey(labels), { labels: { ...labels }, value });
+  }
+
+  getValue(labels: MetricLabels = {}): number | undefined {
+    return this.series.get(seriesKey(labels))?.value;
   }
 
   getName(): string {
     return this.name;
   }
+
+  render(): string[] {
+    const lines = formatHeader(this.name, this.help, 'gauge');
+    for (const { labels, value } of this.series.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+interface HistogramValue {
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Распределение наблюдений по бакетам (кумулятивно, как ожидает Prometheus)
+ */
+export class Histogram implements Metric {
+  private series = new Map<string, Series<HistogramValue>>();
+
+  constructor(
+    private name: string,
+    private help: string = name,
+    private buckets: number[] = DEFAULT_DURATION_BUCKETS
+  ) {}
+
+  observe(value: number, labels: MetricLabels = {}): void {
+    const key = seriesKey(labels);
+    let current = this.series.get(key);
+    if (!current) {
+      current = { labels: { ...labels }, value: { bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 } };
+      this.series.set(key, current);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) current!.value.bucketCounts[index]!++;
+    });
+    current.value.sum += value;
+    current.value.count++;
+  }
+
+  getCount(labels: MetricLabels = {}): number {
+    return this.series.get(seriesKey(labels))?.value.count ?? 0;
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  render(): string[] {
+    const lines = formatHeader(this.name, this.help, 'histogram');
+    for (const { labels, value } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.bucketCounts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
 }
 
 export const metrics = {
-  gamesCreated: new Counter('games_created'),
-  registrationsProcessed: new Counter('registrations_processed'),
-  notificationsSent: new Counter('notifications_sent'),
-  notificationsFailed: new Counter('notifications_failed'),
-  errorsHandled: new Counter('errors_handled'),
-};
\ No newline at end of file
+  gamesCreated: new Counter('vball_games_created_total', 'Созданные игры'),
+  registrationsProcessed: new Counter('vball_registrations_processed_total', 'Обработанные записи на игры'),
+  notificationsSent: new Counter('vball_notifications_sent_total', 'Отправленные сообщения Telegram, включая повторы'),
+  notificationsFailed: new Counter('vball_notifications_failed_total', 'Неудачные попытки отправки уведомлений'),
+  errorsHandled: new Counter('vball_errors_handled_total', 'Обработанные ошибки'),
+  // Длительность use case, включая неудачные вызовы (метка outcome: success или error)
+  useCaseDuration: new Histogram('vball_use_case_duration_seconds', 'Длительность выполнения use case'),
+  // Итог уведомления по типу: sent, blocked или failed
+  notificationOutcomes: new Counter('vball_notification_outcomes_total', 'Итоги уведомлений по типу'),
+  // Уведомления, не отправленные из-за настроек, идемпотентности или лимита
+  notificationsBlocked: new Counter('vball_notifications_blocked_total', 'Заблокированные уведомления по типу и причине'),
+  queueJobs: new Gauge('vball_queue_jobs', 'Задачи в очередях BullMQ по состоянию'),
+  eventHandlerFailures: new Counter('vball_event_handler_failures_total', 'Обработчики событий, не справившиеся после всех повторов'),
+};
+
+/**
+ * Выгружает все метрики в текстовом формате Prometheus (text/plain; version=0.0.4)
+ */
+export function renderPrometheusMetrics(): string {
+  const lines = Object.values(metrics).flatMap((metric: Metric) => metric.render());
+  return lines.join('\n') + '\n';
+}
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { metrics } from './metrics.js';
+
 /**
  * Метрики доставки уведомлений
  */
@@ -16,6 +18,7 @@ export class NotificationTracker {
     const current = this.metrics.get(key) || { sent: 0, delivered: 0, failed: 0, retries: 0 };
     current.sent++;
     this.metrics.set(key, current);
+    metrics.notificationOutcomes.increment({ type, outcome: 'sent' });
   }
 
   static recordDelivered(type: string): void {
@@ -32,13 +35,19 @@ export class NotificationTracker {
     this.metrics.set(key, current);
 
     // Update global metrics
-    import('./metrics.js').then(({ metrics }) => {
-      metrics.notificationsFailed.increment();
-    });
+    metrics.notificationsFailed.increment();
+    metrics.notificationOutcomes.increment({ type, outcome: 'failed' });
   }
 
+  // Заблокированное уведомление в дневной статистике считается неотправленным, в Prometheus - отдельным итогом
   static recordBlocked(type: string, reason: string): void {
-    this.recordFailed(type, reason);
+    const key = this.getKey(type);
+    const current = this.metrics.get(key) || { sent: 0, delivered: 0, failed: 0, retries: 0 };
+    current.failed++;
+    this.metrics.set(key, current);
+
+    metrics.notificationOutcomes.increment({ type, outcome: 'blocked' });
+    metrics.notificationsBlocked.increment({ type, reason });
   }
 
   static recordRetry(type: string): void {
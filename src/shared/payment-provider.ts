@@ -0,0 +1,94 @@
+import type { Telegram } from 'telegraf';
+import { config } from './config.js';
+import { formatMoney } from './game-constants.js';
+import { formatGameTimeForUser, type UserLocalization } from './date-utils.js';
+import { getTranslator } from './i18n/index.js';
+import type { PaymentInvoice } from '../application/services/online-payment-service.js';
+
+export type PaymentProviderName = 'telegram' | 'fake';
+
+/**
+ * Провайдер онлайн-оплаты: отправляет игроку счет
+ * Подтверждение оплаты приходит боту (pre_checkout_query, successful_payment) и не зависит от провайдера
+ */
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  sendInvoice(telegram: Telegram, chatId: number, invoice: PaymentInvoice, recipient: UserLocalization): Promise<void>;
+}
+
+/**
+ * Telegram Payments: счет оплачивается через подключенного в BotFather эквайера
+ */
+export class TelegramPaymentProvider implements PaymentProvider {
+  readonly name = 'telegram';
+
+  constructor(private providerToken: string) {}
+
+  async sendInvoice(telegram: Telegram, chatId: number, invoice: PaymentInvoice, recipient: UserLocalization): Promise<void> {
+    const t = getTranslator(recipient);
+    const date = formatGameTimeForUser(invoice.startsAt, recipient);
+    await telegram.sendInvoice(chatId, {
+      title: t('onlinePayments.invoiceTitle', { date }),
+      description: t('onlinePayments.invoiceDescription', { date, amount: formatMoney(invoice.amount, invoice.currency, t) }),
+      payload: invoice.paymentId,
+      provider_token: this.providerToken,
+      currency: invoice.currency,
+      prices: [{ label: t('onlinePayments.priceLabel'), amount: invoice.amount }]
+    });
+  }
+}
+
+/**
+ * Тестовый провайдер без эквайера: вместо счета присылает кнопку, нажатие на которую
+ * проходит тот же путь, что и настоящая оплата (проверка счета и подтверждение)
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+
+  // Отправленные счета - для проверки в тестах
+  readonly sentInvoices: PaymentInvoice[] = [];
+
+  async sendInvoice(telegram: Telegram, chatId: number, invoice: PaymentInvoice, recipient: UserLocalization): Promise<void> {
+    this.sentInvoices.push(invoice);
+    const t = getTranslator(recipient);
+    const date = formatGameTimeForUser(invoice.startsAt, recipient);
+    await telegram.sendMessage(chatId, t('onlinePayments.fakeInvoice', {
+      date,
+      amount: formatMoney(invoice.amount, invoice.currency, t)
+    }), {
+      reply_markup: {
+        inline_keyboard: [[{ text: t('onlinePayments.fakePayButton'), callback_data: `fakepay_${invoice.paymentId}` }]]
+      }
+    });
+  }
+}
+
+let paymentProvider: PaymentProvider | null | undefined;
+
+/**
+ * Провайдер онлайн-оплаты из конфигурации; null - онлайн-оплата выключена
+ */
+export function getPaymentProvider(): PaymentProvider | null {
+  if (paymentProvider === undefined) {
+    paymentProvider = createPaymentProvider();
+  }
+  return paymentProvider;
+}
+
+/**
+ * Подменяет провайдера (тесты, локальная разработка)
+ */
+export function setPaymentProvider(provider: PaymentProvider | null): void {
+  paymentProvider = provider;
+}
+
+function createPaymentProvider(): PaymentProvider | null {
+  switch (config.payments.provider) {
+    case 'telegram':
+      return new TelegramPaymentProvider(config.payments.providerToken!);
+    case 'fake':
+      return new FakePaymentProvider();
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,65 @@
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+
+// Диапазоны, куда нельзя отправлять запросы по адресам от пользователей (webhooks):
+// loopback, частные сети, link-local (в том числе метаданные облаков 169.254.169.254), CGNAT, multicast и служебные
+// Отдельные списки: BlockList сопоставляет IPv4 с IPv6 правилом ::ffff:0:0/96
+const BLOCKED_IPV4 = new BlockList();
+const BLOCKED_IPV6 = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_IPV4.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['::ffff:0:0', 96],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_IPV6.addSubnet(network, prefix, 'ipv6');
+}
+
+const IPV4_MAPPED_PREFIX = '::ffff:';
+
+/**
+ * Проверяет, что адрес публичный: не loopback, не частная сеть, не link-local и не служебный диапазон
+ */
+export function isPublicAddress(address: string): boolean {
+  // IPv4, записанный как IPv6 (::ffff:127.0.0.1), проверяется по правилам IPv4
+  const mapped = address.toLowerCase().startsWith(IPV4_MAPPED_PREFIX) ? address.slice(IPV4_MAPPED_PREFIX.length) : null;
+  if (mapped && isIP(mapped) === 4) return !BLOCKED_IPV4.check(mapped, 'ipv4');
+
+  switch (isIP(address)) {
+    case 4: return !BLOCKED_IPV4.check(address, 'ipv4');
+    case 6: return !BLOCKED_IPV6.check(address, 'ipv6');
+    default: return false;
+  }
+}
+
+/**
+ * Разрешает имя хоста и проверяет, что все его адреса публичные
+ * Проверка повторяется перед каждым запросом: DNS запись могут поменять после проверки при создании
+ * @param hostname - Хост из URL (IPv6 - в квадратных скобках или без)
+ * @throws Error если имя не разрешается
+ */
+export async function isPublicHost(hostname: string): Promise<boolean> {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  if (isIP(host) !== 0) return isPublicAddress(host);
+
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address));
+}
@@ -1,12 +1,18 @@
-import { Queue, Worker, Job } from 'bullmq';
+import { Queue, Worker, Job, type JobType } from 'bullmq';
 import { config } from './config.js';
 import { EventBus } from './event-bus.js';
 import { logger } from './logger.js';
+import { withSpan, captureTraceContext, SpanKind, type TraceCarrier } from './tracing.js';
 
 export class SchedulerService {
   private reminderQueue: Queue;
   private paymentReminderQueue: Queue;
   private priorityWindowQueue: Queue;
+  private seriesQueue: Queue;
+  private webhookQueue: Queue;
+  private outboxQueue: Queue;
+  private lifecycleQueue: Queue;
+  private waitlistOfferQueue: Queue;
   private workers: Worker[] = [];
 
   constructor(private eventBus: EventBus) {
@@ -48,6 +54,69 @@ export class SchedulerService {
         },
       },
     });
+
+    this.seriesQueue = new Queue('game-series', {
+      connection: config.redis,
+      defaultJobOptions: {
+        removeOnComplete: config.queues.removeOnComplete,
+        removeOnFail: config.queues.removeOnFail,
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+      },
+    });
+
+    // Доставка webhooks: повторы с растущей паузой, пока получатель недоступен
+    this.webhookQueue = new Queue('webhook-deliveries', {
+      connection: config.redis,
+      defaultJobOptions: {
+        removeOnComplete: config.queues.removeOnComplete,
+        removeOnFail: config.queues.removeOnFail,
+        attempts: config.webhooks.maxAttempts,
+        backoff: {
+          type: 'exponential',
+          delay: 5000,
+        },
+      },
+    });
+
+    // Relay outbox: повторы не нужны - следующий запуск подберет те же события
+    this.outboxQueue = new Queue('outbox-relay', {
+      connection: config.redis,
+      defaultJobOptions: {
+        removeOnComplete: config.queues.removeOnComplete,
+        removeOnFail: config.queues.removeOnFail,
+        attempts: 1,
+      },
+    });
+
+    this.lifecycleQueue = new Queue('game-lifecycle', {
+      connection: config.redis,
+      defaultJobOptions: {
+        removeOnComplete: config.queues.removeOnComplete,
+        removeOnFail: config.queues.removeOnFail,
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+      },
+    });
+
+    this.waitlistOfferQueue = new Queue('waitlist-offer-expiry', {
+      connection: config.redis,
+      defaultJobOptions: {
+        removeOnComplete: config.queues.removeOnComplete,
+        removeOnFail: config.queues.removeOnFail,
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+      },
+    });
   }
 
   async scheduleGameReminder24h(gameId: string, startsAt: Date): Promise<void> {
@@ -56,7 +125,7 @@ export class SchedulerService {
 
     await this.reminderQueue.add(
       'game-reminder-24h',
-      { gameId },
+      this.withTraceContext({ gameId }),
       {
         delay,
         jobId: `game-reminder-24h-${gameId}`, // Предотвращаем дублирование
@@ -69,13 +138,32 @@ export class SchedulerService {
     });
   }
 
+  async scheduleGameReminder2h(gameId: string, startsAt: Date): Promise<void> {
+    const delay = startsAt.getTime() - Date.now() - 2 * 60 * 60 * 1000;
+    if (delay <= 0) return;
+
+    await this.reminderQueue.add(
+      'game-reminder-2h',
+      this.withTraceContext({ gameId }),
+      {
+        delay,
+        jobId: `game-reminder-2h-${gameId}`,
+      }
+    );
+
+    logger.info('Scheduled 2h reminder', {
+      gameId,
+      scheduledFor: new Date(Date.now() + delay).toISOString()
+    });
+  }
+
   async schedulePaymentReminder12h(gameId: string, startsAt: Date): Promise<void> {
     const delay = startsAt.getTime() - Date.now() + 12 * 60 * 60 * 1000;
     if (delay <= 0) return;
 
     await this.paymentReminderQueue.add(
       'payment-reminder-12h',
-      { gameId },
+      this.withTraceContext({ gameId }),
       {
         delay,
         jobId: `payment-reminder-12h-${gameId}`,
@@ -94,7 +182,7 @@ export class SchedulerService {
 
     await this.paymentReminderQueue.add(
       'payment-reminder-24h',
-      { gameId },
+      this.withTraceContext({ gameId }),
       {
         delay,
         jobId: `payment-reminder-24h-${gameId}`,
@@ -113,7 +201,7 @@ export class SchedulerService {
 
     await this.priorityWindowQueue.add(
       'priority-window-check',
-      { gameId },
+      this.withTraceContext({ gameId }),
       {
         delay,
         jobId: `priority-window-check-${gameId}`,
@@ -126,12 +214,221 @@ export class SchedulerService {
     });
   }
 
+  /**
+   * Планирует автоматическое закрытие записи перед началом игры и завершение игры после ее окончания
+   */
+  async scheduleGameLifecycle(gameId: string, startsAt: Date): Promise<void> {
+    const closesAt = startsAt.getTime() - config.lifecycle.autoCloseMinutesBeforeStart * 60 * 1000;
+    const endsAt = startsAt.getTime() + config.lifecycle.gameDurationMinutes * 60 * 1000;
+
+    await this.lifecycleQueue.add(
+      'game-auto-close',
+      this.withTraceContext({ gameId }),
+      {
+        delay: Math.max(closesAt - Date.now(), 0),
+        jobId: `game-auto-close-${gameId}`,
+      }
+    );
+    await this.lifecycleQueue.add(
+      'game-auto-finish',
+      this.withTraceContext({ gameId }),
+      {
+        delay: Math.max(endsAt - Date.now(), 0),
+        jobId: `game-auto-finish-${gameId}`,
+      }
+    );
+
+    logger.info('Scheduled game lifecycle', {
+      gameId,
+      closesAt: new Date(closesAt).toISOString(),
+      endsAt: new Date(endsAt).toISOString()
+    });
+  }
+
+  /**
+   * Планирует истечение срока ответа на предложенное из листа ожидания место.
+   * Срок входит в jobId: повторное предложение тому же игроку получает свою задачу
+   */
+  async scheduleWaitlistOfferExpiry(gameId: string, userId: string, expiresAt: Date): Promise<void> {
+    await this.waitlistOfferQueue.add(
+      'waitlist-offer-expiry',
+      this.withTraceContext({ gameId, userId }),
+      {
+        delay: Math.max(expiresAt.getTime() - Date.now(), 0),
+        jobId: `waitlist-offer-${gameId}-${userId}-${expiresAt.getTime()}`,
+      }
+    );
+
+    logger.info('Scheduled waitlist offer expiry', {
+      gameId,
+      userId,
+      expiresAt: expiresAt.toISOString()
+    });
+  }
+
+  /**
+   * Удаляет отложенные задачи игры (напоминания и проверку приоритетного окна).
+   * Используется при отмене игры, чтобы участники не получили напоминания
+   * @returns Количество удаленных задач
+   */
+  async removeGameJobs(gameId: string): Promise<number> {
+    const jobs: Array<[Queue, string]> = [
+      [this.reminderQueue, `game-reminder-24h-${gameId}`],
+      [this.reminderQueue, `game-reminder-2h-${gameId}`],
+      [this.paymentReminderQueue, `payment-reminder-12h-${gameId}`],
+      [this.paymentReminderQueue, `payment-reminder-24h-${gameId}`],
+      [this.priorityWindowQueue, `priority-window-check-${gameId}`],
+      [this.lifecycleQueue, `game-auto-close-${gameId}`],
+      [this.lifecycleQueue, `game-auto-finish-${gameId}`],
+    ];
+
+    const results = await Promise.all(jobs.map(([queue, jobId]) => queue.remove(jobId)));
+    const removed = results.filter(result => result === 1).length;
+
+    logger.info('Removed scheduled game jobs', { gameId, removed });
+    return removed;
+  }
+
+  /**
+   * Переносит напоминания игры на новое время начала.
+   * Напоминания за 24ч и 2ч пересоздаются всегда, напоминания об оплате и проверка
+   * приоритетного окна - только если уже были запланированы
+   * @param priorityWindowClosesAt - Новое время закрытия приоритетного окна
+   */
+  async rescheduleGameJobs(gameId: string, startsAt: Date, priorityWindowClosesAt: Date): Promise<void> {
+    await Promise.all([
+      this.reminderQueue.remove(`game-reminder-24h-${gameId}`),
+      this.reminderQueue.remove(`game-reminder-2h-${gameId}`),
+      this.lifecycleQueue.remove(`game-auto-close-${gameId}`),
+      this.lifecycleQueue.remove(`game-auto-finish-${gameId}`),
+    ]);
+    await this.scheduleGameReminder24h(gameId, startsAt);
+    await this.scheduleGameReminder2h(gameId, startsAt);
+    await this.scheduleGameLifecycle(gameId, startsAt);
+
+    const removedPaymentJobs = await Promise.all([
+      this.paymentReminderQueue.remove(`payment-reminder-12h-${gameId}`),
+      this.paymentReminderQueue.remove(`payment-reminder-24h-${gameId}`),
+    ]);
+    if (removedPaymentJobs.some(result => result === 1)) {
+      await this.schedulePaymentReminder12h(gameId, startsAt);
+      await this.schedulePaymentReminder24h(gameId, startsAt);
+    }
+
+    // Проверка окна уже выполнена, если задачи нет: игра открыта для всех, переносить нечего
+    if (await this.priorityWindowQueue.remove(`priority-window-check-${gameId}`) === 1) {
+      await this.schedulePriorityWindowCheck(gameId, priorityWindowClosesAt);
+    }
+
+    logger.info('Rescheduled game jobs', { gameId, startsAt: startsAt.toISOString() });
+  }
+
+  /**
+   * Регистрирует периодическую задачу создания игр по сериям.
+   * Повторяемая задача с фиксированным jobId, поэтому повторный вызов при рестарте не дублирует ее
+   */
+  async scheduleSeriesGeneration(): Promise<void> {
+    const every = config.series.generationIntervalMinutes * 60 * 1000;
+
+    await this.seriesQueue.add(
+      'game-series-generation',
+      {},
+      {
+        repeat: { every },
+        jobId: 'game-series-generation',
+      }
+    );
+
+    logger.info('Scheduled game series generation', { everyMinutes: config.series.generationIntervalMinutes });
+  }
+
+  /**
+   * Регистрирует периодические задачи outbox: публикацию отложенных событий и очистку опубликованных.
+   * Фиксированные jobId не дают задачам задублироваться при рестарте
+   */
+  async scheduleOutboxRelay(): Promise<void> {
+    await this.outboxQueue.add(
+      'outbox-relay',
+      {},
+      {
+        repeat: { every: config.outbox.relayIntervalMs },
+        jobId: 'outbox-relay',
+      }
+    );
+    await this.outboxQueue.add(
+      'outbox-cleanup',
+      {},
+      {
+        repeat: { every: 60 * 60 * 1000 },
+        jobId: 'outbox-cleanup',
+      }
+    );
+
+    logger.info('Scheduled outbox relay', { everyMs: config.outbox.relayIntervalMs });
+  }
+
+  /**
+   * Регистрирует периодическую проверку игр, пропустивших автоматическое закрытие или завершение.
+   * Фиксированный jobId не дает задаче задублироваться при рестарте
+   */
+  async scheduleGameLifecycleSweep(): Promise<void> {
+    const every = config.lifecycle.sweepIntervalMinutes * 60 * 1000;
+
+    await this.lifecycleQueue.add(
+      'game-lifecycle-sweep',
+      {},
+      {
+        repeat: { every },
+        jobId: 'game-lifecycle-sweep',
+      }
+    );
+
+    logger.info('Scheduled game lifecycle sweep', { everyMinutes: config.lifecycle.sweepIntervalMinutes });
+  }
+
+  /**
+   * Регистрирует периодическую проверку предложений из листа ожидания, пропустивших задачу истечения.
+   * Фиксированный jobId не дает задаче задублироваться при рестарте
+   */
+  async scheduleWaitlistOfferSweep(): Promise<void> {
+    const every = config.waitlist.sweepIntervalMinutes * 60 * 1000;
+
+    await this.waitlistOfferQueue.add(
+      'waitlist-offer-sweep',
+      {},
+      {
+        repeat: { every },
+        jobId: 'waitlist-offer-sweep',
+      }
+    );
+
+    logger.info('Scheduled waitlist offer sweep', { everyMinutes: config.waitlist.sweepIntervalMinutes });
+  }
+
+  /**
+   * Ставит доставку webhook в очередь; jobId по ID доставки не дает отправить ее дважды
+   */
+  async enqueueWebhookDelivery(deliveryId: string): Promise<void> {
+    await this.webhookQueue.add(
+      'webhook-delivery',
+      this.withTraceContext({ deliveryId }),
+      {
+        jobId: `webhook-delivery-${deliveryId}`,
+      }
+    );
+  }
+
+  /**
+   * Запускает обработчики очередей; повторный вызов ничего не делает - у очередей с concurrency 1 должен быть один обработчик
+   */
   initializeWorkers(): void {
+    if (this.workers.length > 0) return;
+
     // Game reminders worker
     const reminderWorker = new Worker(
       'game-reminders',
       async (job: Job) => {
-        await this.processReminderJob(job);
+        await this.runTraced(job, () => this.processReminderJob(job));
       },
       {
         connection: config.redis,
@@ -143,7 +440,7 @@ export class SchedulerService {
     const paymentWorker = new Worker(
       'payment-reminders',
       async (job: Job) => {
-        await this.processPaymentReminderJob(job);
+        await this.runTraced(job, () => this.processPaymentReminderJob(job));
       },
       {
         connection: config.redis,
@@ -155,7 +452,7 @@ export class SchedulerService {
     const priorityWindowWorker = new Worker(
       'priority-window-checks',
       async (job: Job) => {
-        await this.processPriorityWindowCheckJob(job);
+        await this.runTraced(job, () => this.processPriorityWindowCheckJob(job));
       },
       {
         connection: config.redis,
@@ -163,7 +460,67 @@ export class SchedulerService {
       }
     );
 
-    this.workers = [reminderWorker, paymentWorker, priorityWindowWorker];
+    // Game series generation worker
+    const seriesWorker = new Worker(
+      'game-series',
+      async (job: Job) => {
+        await this.runTraced(job, () => this.processSeriesJob(job));
+      },
+      {
+        connection: config.redis,
+        concurrency: 1, // Генерация последовательная, чтобы не создавать дубликаты
+      }
+    );
+
+    // Webhook deliveries worker
+    const webhookWorker = new Worker(
+      'webhook-deliveries',
+      async (job: Job) => {
+        await this.runTraced(job, () => this.processWebhookJob(job));
+      },
+      {
+        connection: config.redis,
+        concurrency: config.queues.concurrency,
+      }
+    );
+
+    // Outbox relay worker
+    const outboxWorker = new Worker(
+      'outbox-relay',
+      async (job: Job) => {
+        await this.runTraced(job, () => this.processOutboxJob(job));
+      },
+      {
+        connection: config.redis,
+        concurrency: 1,
+      }
+    );
+
+    // Game lifecycle worker
+    const lifecycleWorker = new Worker(
+      'game-lifecycle',
+      async (job: Job) => {
+        await this.runTraced(job, () => this.processLifecycleJob(job));
+      },
+      {
+        connection: config.redis,
+        concurrency: 1, // Переходы последовательные, чтобы проверка и задача игры не пересекались
+      }
+    );
+
+    // Waitlist offer expiry worker
+    const waitlistOfferWorker = new Worker(
+      'waitlist-offer-expiry',
+      async (job: Job) => {
+        await this.runTraced(job, () => this.processWaitlistOfferJob(job));
+      },
+      {
+        connection: config.redis,
+        concurrency: 1, // Истечения последовательные, чтобы два освободившихся места не предложили одному игроку
+      }
+    );
+
+    this.workers = [reminderWorker, paymentWorker, priorityWindowWorker, seriesWorker, webhookWorker, outboxWorker, lifecycleWorker, waitlistOfferWorker];
 
     // Error handling
     this.workers.forEach(worker => {
@@ -182,22 +539,40 @@ export class SchedulerService {
     });
   }
 
+  /**
+   * Данные задачи с контекстом текущей трассы: воркер продолжит трассу того, кто поставил задачу
+   */
+  private withTraceContext<T extends object>(data: T): T & { traceContext?: TraceCarrier } {
+    return { ...data, traceContext: captureTraceContext() };
+  }
+
+  /**
+   * Выполняет задачу в спане, дочернем к трассе из данных задачи (у повторяемых задач трасса новая)
+   */
+  private runTraced(job: Job, process: () => Promise<void>): Promise<void> {
+    return withSpan(`job ${job.queueName} ${job.name}`, {
+      'messaging.system': 'bullmq',
+      'messaging.destination.name': job.queueName,
+      'messaging.message.id': job.id,
+      'messaging.bullmq.attempts_made': job.attemptsMade
+    }, process, { kind: SpanKind.CONSUMER, parent: job.data?.traceContext });
+  }
+
   private async processReminderJob(job: Job): Promise<void> {
     const { gameId } = job.data;
+    const { EventOutbox } = await import('./event-outbox.js');
 
     switch (job.name) {
       case 'game-reminder-24h':
-        await this.eventBus.publish({
+        await EventOutbox.getInstance().record({
           type: 'GameReminder24h',
           payload: { gameId },
-          occurredAt: new Date(),
         });
         break;
       case 'game-reminder-2h':
-        await this.eventBus.publish({
+        await EventOutbox.getInstance().record({
           type: 'GameReminder2h',
           payload: { gameId },
-          occurredAt: new Date(),
         });
         break;
       default:
@@ -207,20 +582,19 @@ export class SchedulerService {
 
   private async processPaymentReminderJob(job: Job): Promise<void> {
     const { gameId } = job.data;
+    const { EventOutbox } = await import('./event-outbox.js');
 
     switch (job.name) {
       case 'payment-reminder-12h':
-        await this.eventBus.publish({
+        await EventOutbox.getInstance().record({
           type: 'PaymentReminder12h',
           payload: { gameId },
-          occurredAt: new Date(),
         });
         break;
       case 'payment-reminder-24h':
-        await this.eventBus.publish({
+        await EventOutbox.getInstance().record({
           type: 'PaymentReminder24h',
           payload: { gameId },
-          occurredAt: new Date(),
         });
         break;
       default:
@@ -240,8 +614,90 @@ export class SchedulerService {
     }
   }
 
+  private async processSeriesJob(job: Job): Promise<void> {
+    if (job.name === 'game-series-generation') {
+      const { generateSeriesGames } = await import('../application/use-cases.js');
+      const created = await generateSeriesGames();
+      logger.info('Game series generation completed', { created });
+    } else {
+      logger.warn('Unknown game series job type', { jobName: job.name });
+    }
+  }
+
+  private async processWebhookJob(job: Job): Promise<void> {
+    if (job.name === 'webhook-delivery') {
+      const { deliverWebhook } = await import('./webhook-dispatcher.js');
+      const isLastAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+      await deliverWebhook(job.data.deliveryId, isLastAttempt);
+    } else {
+      logger.warn('Unknown webhook job type', { jobName: job.name });
+    }
+  }
+
+  private async processOutboxJob(job: Job): Promise<void> {
+    const { EventOutbox } = await import('./event-outbox.js');
+    switch (job.name) {
+      case 'outbox-relay':
+        await EventOutbox.getInstance().relayPending();
+        break;
+      case 'outbox-cleanup': {
+        const removed = await EventOutbox.getInstance().purgeProcessed();
+        logger.info('Outbox cleanup completed', { removed });
+        break;
+      }
+      default:
+        logger.warn('Unknown outbox job type', { jobName: job.name });
+    }
+  }
+
+  private async processLifecycleJob(job: Job): Promise<void> {
+    const { advanceGameLifecycle, advanceDueGames } = await import('../application/use-cases.js');
+    switch (job.name) {
+      case 'game-auto-close':
+      case 'game-auto-finish':
+        await advanceGameLifecycle(job.data.gameId);
+        break;
+      case 'game-lifecycle-sweep':
+        await advanceDueGames();
+        break;
+      default:
+        logger.warn('Unknown game lifecycle job type', { jobName: job.name });
+    }
+  }
+
+  private async processWaitlistOfferJob(job: Job): Promise<void> {
+    const { expireWaitlistOffer, expireDueWaitlistOffers } = await import('../application/use-cases.js');
+    switch (job.name) {
+      case 'waitlist-offer-expiry':
+        await expireWaitlistOffer(job.data.gameId, job.data.userId);
+        break;
+      case 'waitlist-offer-sweep':
+        await expireDueWaitlistOffers();
+        break;
+      default:
+        logger.warn('Unknown waitlist offer job type', { jobName: job.name });
+    }
+  }
+
+  /**
+   * Количество задач в каждой очереди по состояниям; счетчики без выгрузки самих задач
+   */
+  async getQueueJobCounts(states: JobType[]): Promise<Array<{ name: string; counts: Record<string, number> }>> {
+    const queues = [
+      this.reminderQueue,
+      this.paymentReminderQueue,
+      this.priorityWindowQueue,
+      this.seriesQueue,
+      this.webhookQueue,
+      this.outboxQueue,
+      this.lifecycleQueue,
+      this.waitlistOfferQueue,
+    ];
+    return Promise.all(queues.map(async queue => ({ name: queue.name, counts: await queue.getJobCounts(...states) })));
+  }
+
   async getQueueStats() {
-    const [reminderStats, paymentStats, priorityWindowStats] = await Promise.all([
+    const [reminderStats, paymentStats, priorityWindowStats, seriesStats, webhookStats, outboxStats, lifecycleStats, waitlistOfferStats] = await Promise.all([
       {
         name: 'game-reminders',
         waiting: await this.reminderQueue.getWaiting(),
@@ -263,9 +719,44 @@ export class SchedulerService {
         completed: await this.priorityWindowQueue.getCompleted(),
         failed: await this.priorityWindowQueue.getFailed(),
       },
+      {
+        name: 'game-series',
+        waiting: await this.seriesQueue.getWaiting(),
+        active: await this.seriesQueue.getActive(),
+        completed: await this.seriesQueue.getCompleted(),
+        failed: await this.seriesQueue.getFailed(),
+      },
+      {
+        name: 'webhook-deliveries',
+        waiting: await this.webhookQueue.getWaiting(),
+        active: await this.webhookQueue.getActive(),
+        completed: await this.webhookQueue.getCompleted(),
+        failed: await this.webhookQueue.getFailed(),
+      },
+      {
+        name: 'outbox-relay',
+        waiting: await this.outboxQueue.getWaiting(),
+        active: await this.outboxQueue.getActive(),
+        completed: await this.outboxQueue.getCompleted(),
+        failed: await this.outboxQueue.getFailed(),
+      },
+      {
+        name: 'game-lifecycle',
+        waiting: await this.lifecycleQueue.getWaiting(),
+        active: await this.lifecycleQueue.getActive(),
+        completed: await this.lifecycleQueue.getCompleted(),
+        failed: await this.lifecycleQueue.getFailed(),
+      },
+      {
+        name: 'waitlist-offer-expiry',
+        waiting: await this.waitlistOfferQueue.getWaiting(),
+        active: await this.waitlistOfferQueue.getActive(),
+        completed: await this.waitlistOfferQueue.getCompleted(),
+        failed: await this.waitlistOfferQueue.getFailed(),
+      },
     ]);
 
-    return { reminderStats, paymentStats, priorityWindowStats };
+    return { reminderStats, paymentStats, priorityWindowStats, seriesStats, webhookStats, outboxStats, lifecycleStats, waitlistOfferStats };
   }
 
   async close(): Promise<void> {
@@ -274,6 +765,11 @@ export class SchedulerService {
       this.reminderQueue.close(),
       this.paymentReminderQueue.close(),
       this.priorityWindowQueue.close(),
+      this.seriesQueue.close(),
+      this.webhookQueue.close(),
+      this.outboxQueue.close(),
+      this.lifecycleQueue.close(),
+      this.waitlistOfferQueue.close(),
     ]);
   }
 }
\ No newline at end of file
@@ -0,0 +1,194 @@
+import { createClient } from 'redis';
+import { config } from './config.js';
+import { logger } from './logger.js';
+
+/**
+ * Хранилище сессий многошаговых сценариев бота (мастер создания игры, выбор организаторов и т.п.)
+ * Ключ - Telegram ID пользователя, у каждой сессии есть TTL, который продлевается при каждом сохранении
+ */
+export interface SessionStore<T> {
+  get(telegramId: number): Promise<T | null>;
+  set(telegramId: number, session: T): Promise<void>;
+  delete(telegramId: number): Promise<void>;
+}
+
+/**
+ * Хранилище сессий в памяти процесса
+ * Сессии теряются при рестарте и не видны другим репликам бота
+ */
+export class InMemorySessionStore<T> implements SessionStore<T> {
+  private sessions = new Map<number, { data: string; expiresAt: number }>();
+
+  constructor(private ttlSeconds: number) {}
+
+  async get(telegramId: number): Promise<T | null> {
+    const entry = this.sessions.get(telegramId);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.sessions.delete(telegramId);
+      return null;
+    }
+    return deserializeSession<T>(entry.data);
+  }
+
+  async set(telegramId: number, session: T): Promise<void> {
+    this.sessions.set(telegramId, {
+      data: serializeSession(session),
+      expiresAt: Date.now() + this.ttlSeconds * 1000
+    });
+  }
+
+  async delete(telegramId: number): Promise<void> {
+    this.sessions.delete(telegramId);
+  }
+}
+
+/**
+ * Хранилище сессий в Redis
+ * Сессии переживают рестарт и доступны всем репликам бота.
+ * При недоступности Redis используется запасное хранилище в памяти
+ */
+export class RedisSessionStore<T> implements SessionStore<T> {
+  private fallback: InMemorySessionStore<T>;
+
+  constructor(
+    private namespace: string,
+    private ttlSeconds: number
+  ) {
+    this.fallback = new InMemorySessionStore<T>(ttlSeconds);
+  }
+
+  async get(telegramId: number): Promise<T | null> {
+    try {
+      const data = await withSessionClient(client => client.get(this.key(telegramId)));
+      return data ? deserializeSession<T>(data) : null;
+    } catch (error) {
+      this.logFallback('get', telegramId, error);
+      return this.fallback.get(telegramId);
+    }
+  }
+
+  async set(telegramId: number, session: T): Promise<void> {
+    try {
+      await withSessionClient(client => client.set(this.key(telegramId), serializeSession(session), { EX: this.ttlSeconds }));
+    } catch (error) {
+      this.logFallback('set', telegramId, error);
+      await this.fallback.set(telegramId, session);
+    }
+  }
+
+  async delete(telegramId: number): Promise<void> {
+    await this.fallback.delete(telegramId);
+    try {
+      await withSessionClient(client => client.del(this.key(telegramId)));
+    } catch (error) {
+      this.logFallback('delete', telegramId, error);
+    }
+  }
+
+  private key(telegramId: number): string {
+    return `session:${this.namespace}:${telegramId}`;
+  }
+
+  private logFallback(operation: string, telegramId: number, error: unknown): void {
+    logger.warn('Session store Redis operation failed, using in-memory fallback', {
+      namespace: this.namespace,
+      operation,
+      telegramId,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+type RedisClient = ReturnType<typeof createClient>;
+
+// Клиент Redis, общий для всех хранилищ сессий
+let sessionClient: RedisClient | null = null;
+let ownsSessionClient = false;
+
+/**
+ * Передает хранилищам сессий клиент Redis приложения (вызывается при старте)
+ * Без этого вызова хранилища при первом обращении создают собственное соединение
+ */
+export function setSessionRedisClient(client: RedisClient): void {
+  sessionClient = client;
+  ownsSessionClient = false;
+}
+
+async function getSessionClient(): Promise<RedisClient> {
+  if (!sessionClient) {
+    sessionClient = createClient({
+      socket: {
+        host: config.redis.host,
+        port: config.redis.port,
+        connectTimeout: 5000,
+      },
+      password: config.redis.password,
+    });
+    sessionClient.on('error', (err) => {
+      logger.error('Redis connection error in session store', { error: err.message });
+    });
+    ownsSessionClient = true;
+  }
+  if (!sessionClient.isOpen) {
+    await sessionClient.connect();
+  }
+  return sessionClient;
+}
+
+// Пока Redis недоступен, клиент бесконечно переподключается - ограничиваем ожидание, чтобы бот не зависал
+const SESSION_REDIS_TIMEOUT_MS = 2000;
+
+async function withSessionClient<R>(operation: (client: RedisClient) => Promise<R>): Promise<R> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('Session store Redis timeout')), SESSION_REDIS_TIMEOUT_MS);
+  });
+
+  try {
+    return await Promise.race([getSessionClient().then(operation), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Закрывает собственное соединение хранилища сессий с Redis, если оно создавалось
+ */
+export async function disconnectSessionStore(): Promise<void> {
+  if (ownsSessionClient && sessionClient?.isOpen) {
+    await sessionClient.disconnect();
+  }
+}
+
+/**
+ * Создает хранилище сессий для сценария согласно конфигурации (SESSION_STORE=redis|memory)
+ * @param namespace - Имя сценария, используется в ключе Redis
+ * @param ttlSeconds - Время жизни сессии без активности
+ */
+export function createSessionStore<T>(namespace: string, ttlSeconds: number = config.sessions.ttlSeconds): SessionStore<T> {
+  if (config.sessions.store === 'memory') {
+    return new InMemorySessionStore<T>(ttlSeconds);
+  }
+  return new RedisSessionStore<T>(namespace, ttlSeconds);
+}
+
+// Даты и множества не переживают JSON как есть - сохраняем их с пометкой типа
+function serializeSession(session: unknown): string {
+  return JSON.stringify(session, function (this: any, key: string, value: unknown) {
+    const raw = this[key];
+    if (raw instanceof Date) return { $date: raw.toISOString() };
+    if (raw instanceof Set) return { $set: Array.from(raw) };
+    return value;
+  });
+}
+
+function deserializeSession<T>(data: string): T {
+  return JSON.parse(data, (_key, value) => {
+    if (value && typeof value === 'object') {
+      if (typeof value.$date === 'string') return new Date(value.$date);
+      if (Array.isArray(value.$set)) return new Set(value.$set);
+    }
+    return value;
+  }) as T;
+}
@@ -0,0 +1,105 @@
+/**
+ * Трассировка OpenTelemetry
+ * Спаны создаются на каждое обновление Telegram, use case, запрос репозитория, обработчик события и задачу BullMQ.
+ * Контекст трассы переносится через EventBus, outbox и данные задач в виде W3C traceparent,
+ * а его trace ID служит корреляционным ID логов
+ */
+
+import { context, propagation, trace, SpanKind, SpanStatusCode, type Attributes } from '@opentelemetry/api';
+import { NodeTracerProvider, ConsoleSpanExporter, SimpleSpanProcessor, BatchSpanProcessor, type SpanProcessor } from '@opentelemetry/sdk-trace-node';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import { config } from './config.js';
+
+export { SpanKind };
+
+// Сериализованный контекст трассы (заголовки W3C traceparent/tracestate)
+export type TraceCarrier = Record<string, string>;
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  // Контекст, захваченный в другом месте (событие outbox, задача очереди); по умолчанию - активный
+  parent?: TraceCarrier;
+}
+
+const tracer = trace.getTracer('vballagregator');
+
+let provider: NodeTracerProvider | null = null;
+
+/**
+ * Регистрирует провайдер трассировки; без вызова спаны не записываются, а хелперы работают как no-op
+ */
+export function initTracing(): void {
+  if (provider || config.tracing.exporter === 'none') return;
+
+  const spanProcessor: SpanProcessor = config.tracing.exporter === 'otlp'
+    ? new BatchSpanProcessor(new OTLPTraceExporter({ url: config.tracing.otlpEndpoint }))
+    : new SimpleSpanProcessor(new ConsoleSpanExporter());
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: config.tracing.serviceName }),
+    spanProcessors: [spanProcessor]
+  });
+  // Регистрирует контекст на AsyncLocalStorage и W3C propagator
+  provider.register();
+}
+
+/**
+ * Выгружает накопленные спаны и останавливает провайдер (при graceful shutdown)
+ */
+export async function shutdownTracing(): Promise<void> {
+  if (!provider) return;
+  await provider.shutdown();
+  provider = null;
+}
+
+/**
+ * Выполняет fn в новом активном спане: вложенные спаны и захваченный контекст становятся его потомками.
+ * Ошибка fn записывается в спан и пробрасывается дальше
+ * @param name - Имя спана (малой кардинальности: без ID)
+ * @param attributes - Атрибуты спана
+ * @param fn - Выполняемая операция
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: () => Promise<T>,
+  options: SpanOptions = {}
+): Promise<T> {
+  const parentContext = options.parent
+    ? propagation.extract(context.active(), options.parent)
+    : context.active();
+
+  return tracer.startActiveSpan(name, { kind: options.kind ?? SpanKind.INTERNAL, attributes }, parentContext, async span => {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof Error) {
+        span.recordException(error);
+      }
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Trace ID активного спана; undefined, если трассировка выключена или спана нет
+ */
+export function currentTraceId(): string | undefined {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  return spanContext && trace.isSpanContextValid(spanContext) ? spanContext.traceId : undefined;
+}
+
+/**
+ * Сериализует активный контекст трассы, чтобы продолжить ее после outbox или очереди
+ * @returns undefined, если активной трассы нет
+ */
+export function captureTraceContext(): TraceCarrier | undefined {
+  const carrier: TraceCarrier = {};
+  propagation.inject(context.active(), carrier);
+  return Object.keys(carrier).length > 0 ? carrier : undefined;
+}
@@ -1,3 +1,5 @@
+import type { GameChanges } from '../domain/game.js';
+
 export type DomainEvent =
   | { type: 'GameCreated'; payload: { gameId: string; startsAt: string; capacity: number; levelTag?: string; priceText?: string } }
   | { type: 'GameReminder24h'; payload: { gameId: string } }
@@ -6,15 +8,25 @@ export type DomainEvent =
   | { type: 'PaymentReminder24h'; payload: { gameId: string } }
   | { type: 'SendPaymentReminders'; payload: { gameId: string; unpaidRegistrations: Array<{ userId: string; telegramId: bigint }> } }
   | { type: 'PlayerJoined'; payload: { gameId: string; userId: string; status: string } }
+  | { type: 'WaitlistOfferMade'; payload: { gameId: string; userId: string; expiresAt: string } }
+  | { type: 'WaitlistOfferExpired'; payload: { gameId: string; userId: string } }
   | { type: 'WaitlistedPromoted'; payload: { gameId: string; userId: string } }
   | { type: 'PaymentMarked'; payload: { gameId: string; userId: string } }
+  | { type: 'PaymentStatusOverridden'; payload: { gameId: string; actorId: string; userId: string; from: string; to: string } }
+  | { type: 'PaymentChargedFromBalance'; payload: { gameId: string; userId: string; amount: number; currency: string; balance: number } }
+  | { type: 'LedgerEntryRecorded'; payload: { organizerId: string; userId: string; type: string; amount: number; currency: string; balance: number; gameId?: string } }
   | { type: 'PaymentAttemptRejectedEarly'; payload: { gameId: string; userId: string } }
   | { type: 'RegistrationCanceled'; payload: { gameId: string; userId: string } }
-  | { type: 'GameClosed'; payload: { gameId: string } }
+  | { type: 'GameClosed'; payload: { gameId: string; automatic?: boolean } }
+  | { type: 'GameFinished'; payload: { gameId: string; automatic: boolean } }
+  | { type: 'GameUpdated'; payload: { gameId: string; actorId: string; changes: GameChanges; offeredUserIds: string[] } }
+  | { type: 'GameCanceled'; payload: { gameId: string; actorId: string; reason?: string; notifyUserIds: string[]; refundDueUserIds: string[] } }
   | { type: 'PlayerLinkedToOrganizer'; payload: { playerId: string; organizerId: string; playerName: string } }
   | { type: 'PlayerSelectedOrganizers'; payload: { playerId: string; organizerIds: string[] } }
   | { type: 'PlayerConfirmedByOrganizer'; payload: { organizerId: string; playerId: string; playerName: string } }
   | { type: 'PlayerRejectedByOrganizer'; payload: { organizerId: string; playerId: string; playerName: string } }
+  | { type: 'PlayerLevelVerified'; payload: { organizerId: string; verifiedByUserId: string; userId: string; from: string | null; to: string } }
   | { type: 'GameCreatedWithPriorityWindow'; payload: { gameId: string; priorityWindowClosesAt: string; confirmedPlayers: Array<{ playerId: string; telegramId: bigint }> } }
   | { type: 'PlayerRespondedToGameInvitation'; payload: { gameId: string; playerId: string; response: string } }
-  | { type: 'GamePublishedForAll'; payload: { gameId: string } };
\ No newline at end of file
+  | { type: 'GamePublishedForAll'; payload: { gameId: string } }
+  | { type: 'SeriesGameGenerationFailed'; payload: { seriesId: string; startsAt: string } };
\ No newline at end of file
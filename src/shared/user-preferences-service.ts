@@ -1,5 +1,8 @@
 import { prisma } from '../infrastructure/prisma.js';
 import { logger } from './logger.js';
+import { config } from './config.js';
+import { UserPreferences } from './date-utils.js';
+import { ValidationError } from '../domain/errors/validation-error.js';
 
 export interface NotificationPreferences {
   globalNotifications: boolean;
@@ -14,6 +17,7 @@ export interface UserPreferencesService {
   getPreferences(userId: string): Promise<NotificationPreferences>;
   updatePreferences(userId: string, preferences: Partial<NotificationPreferences>): Promise<void>;
   isAllowed(userId: string, notificationType: string): Promise<boolean>;
+  updateLocalization(userId: string, localization: Partial<UserPreferences>): Promise<void>;
 }
 
 export class PrismaUserPreferencesService implements UserPreferencesService {
@@ -85,6 +89,36 @@ export class PrismaUserPreferencesService implements UserPreferencesService {
     }
   }
 
+  /**
+   * Сохраняет часовой пояс и язык пользователя
+   * Допускаются только значения из config.localization
+   */
+  async updateLocalization(userId: string, localization: Partial<UserPreferences>): Promise<void> {
+    const { supportedTimezones, supportedLocales } = config.localization;
+    if (localization.timezone !== undefined && !supportedTimezones.includes(localization.timezone)) {
+      throw new ValidationError('timezone', localization.timezone, `must be one of: ${supportedTimezones.join(', ')}`);
+    }
+    if (localization.locale !== undefined && !supportedLocales.includes(localization.locale)) {
+      throw new ValidationError('locale', localization.locale, `must be one of: ${supportedLocales.join(', ')}`);
+    }
+
+    try {
+      await prisma.user.update({
+        where: { id: userId },
+        data: localization
+      });
+
+      logger.info('User localization updated', { userId, localization });
+    } catch (error) {
+      logger.error('Failed to update user localization', {
+        userId,
+        localization,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
   async isAllowed(userId: string, notificationType: string): Promise<boolean> {
     try {
       const prefs = await this.getPreferences(userId);
@@ -114,6 +148,14 @@ export class PrismaUserPreferencesService implements UserPreferencesService {
         case 'waitlist-promoted':
           return prefs.organizerNotifications;
 
+        case 'game-canceled':
+        case 'game-updated':
+          return true; // Об отмене и изменении игры сообщаем всегда
+
+        case 'waitlist-offer':
+        case 'waitlist-offer-expired':
+          return true; // На предложенное место игрок должен успеть ответить
+
         default:
           logger.warn('Unknown notification type for preferences check', {
             userId,
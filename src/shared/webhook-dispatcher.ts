@@ -0,0 +1,197 @@
+import { createHmac } from 'node:crypto';
+import { v4 as uuid } from 'uuid';
+import { prisma } from '../infrastructure/prisma.js';
+import { WEBHOOK_EVENT_TYPES } from '../application/services/webhook-service.js';
+import type { EventBus, DomainEvent } from './event-bus.js';
+import type { SchedulerService } from './scheduler-service.js';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { isPublicHost } from './public-address.js';
+
+// Ошибки доставки для журнала: фиксированные тексты без подробностей ответа и сети
+const DELIVERY_ERRORS = {
+  BLOCKED_ADDRESS: 'Blocked address',
+  TIMEOUT: 'Timeout',
+  NETWORK: 'Network error',
+} as const;
+
+// Заголовки запроса доставки
+export const WEBHOOK_HEADERS = {
+  EVENT: 'X-VBall-Event',
+  DELIVERY: 'X-VBall-Delivery',
+  TIMESTAMP: 'X-VBall-Timestamp',
+  SIGNATURE: 'X-VBall-Signature',
+} as const;
+
+/**
+ * Подпись тела запроса: HMAC-SHA256 секретом эндпоинта от строки "<timestamp>.<body>"
+ * Получатель проверяет подпись и отбрасывает запросы со старым timestamp
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+// Тело запроса: событие в JSON (BigInt, например telegramId, передается строкой)
+function serializeEvent(event: DomainEvent, eventId: string) {
+  return JSON.parse(JSON.stringify({
+    id: eventId,
+    type: event.type,
+    occurredAt: event.occurredAt,
+    payload: event.payload,
+  }, (_key, value) => (typeof value === 'bigint' ? value.toString() : value)));
+}
+
+/**
+ * Создает доставки события на подписанные эндпоинты и ставит их в очередь
+ * Эндпоинт организатора получает события только своих игр, эндпоинт администратора - всех
+ */
+export async function dispatchWebhooks(
+  event: DomainEvent,
+  schedulerService: Pick<SchedulerService, 'enqueueWebhookDelivery'>
+): Promise<number> {
+  const gameId = 'gameId' in event.payload ? event.payload.gameId : undefined;
+  const game = gameId
+    ? await prisma.game.findUnique({ where: { id: gameId }, select: { organizerId: true } })
+    : null;
+
+  const endpoints = await prisma.webhookEndpoint.findMany({
+    where: {
+      active: true,
+      eventTypes: { has: event.type },
+      OR: [{ organizerId: null }, ...(game ? [{ organizerId: game.organizerId }] : [])]
+    }
+  });
+  if (endpoints.length === 0) return 0;
+
+  // Без ID события повтор обработчика EventBus создал бы дубликаты доставок
+  const eventId = event.id || uuid();
+  const payload = serializeEvent(event, eventId);
+
+  for (const endpoint of endpoints) {
+    const delivery = await prisma.webhookDelivery.upsert({
+      where: { endpointId_eventId: { endpointId: endpoint.id, eventId } },
+      create: { endpointId: endpoint.id, eventId, eventType: event.type, payload },
+      update: {}
+    });
+    if (delivery.status === 'pending') {
+      await schedulerService.enqueueWebhookDelivery(delivery.id);
+    }
+  }
+
+  logger.info('Webhook deliveries queued', { eventType: event.type, eventId, endpoints: endpoints.length });
+  return endpoints.length;
+}
+
+/**
+ * Отправляет одну доставку и записывает результат в журнал
+ * Ошибка пробрасывается, чтобы очередь повторила попытку; после последней попытки доставка помечается failed
+ * @param deliveryId - ID записи WebhookDelivery
+ * @param isLastAttempt - Последняя ли это попытка очереди
+ */
+export async function deliverWebhook(deliveryId: string, isLastAttempt: boolean): Promise<void> {
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { endpoint: true }
+  });
+  if (!delivery || delivery.status === 'delivered') return;
+  if (!delivery.endpoint.active) {
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'failed', error: 'Endpoint disabled' }
+    });
+    return;
+  }
+
+  // Адрес проверяется перед каждой отправкой: DNS запись могли перенаправить во внутреннюю сеть после регистрации
+  // null - имя не разрешилось: это сетевая ошибка, попытка повторится
+  const isPublic = await isPublicHost(new URL(delivery.endpoint.url).hostname).catch(() => null);
+  if (isPublic === false) {
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { attempts: { increment: 1 }, status: 'failed', error: DELIVERY_ERRORS.BLOCKED_ADDRESS }
+    });
+    logger.warn('Webhook delivery blocked: endpoint resolves to a non-public address', {
+      deliveryId,
+      endpointId: delivery.endpointId
+    });
+    return;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    if (isPublic === null) {
+      throw new Error(`DNS lookup failed for ${delivery.endpoint.url}`);
+    }
+    const response = await fetch(delivery.endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'VBallAgregator-Webhooks/1.0',
+        [WEBHOOK_HEADERS.EVENT]: delivery.eventType,
+        [WEBHOOK_HEADERS.DELIVERY]: delivery.id,
+        [WEBHOOK_HEADERS.TIMESTAMP]: String(timestamp),
+        [WEBHOOK_HEADERS.SIGNATURE]: signWebhookPayload(delivery.endpoint.secret, timestamp, body),
+      },
+      body,
+      // Переадресация не выполняется: 3xx считается ошибкой доставки
+      redirect: 'manual',
+      signal: AbortSignal.timeout(config.webhooks.timeoutMs),
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      error = `HTTP ${response.status}`;
+    }
+  } catch (err) {
+    // В журнал доставок (его видит владелец эндпоинта) - только категория ошибки, подробности - в лог сервера
+    error = err instanceof Error && err.name === 'TimeoutError' ? DELIVERY_ERRORS.TIMEOUT : DELIVERY_ERRORS.NETWORK;
+    logger.warn('Webhook request error', {
+      deliveryId,
+      endpointId: delivery.endpointId,
+      error: err instanceof Error ? err.message : 'Unknown error'
+    });
+  }
+
+  await prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      attempts: { increment: 1 },
+      responseStatus,
+      error,
+      status: error ? (isLastAttempt ? 'failed' : 'pending') : 'delivered',
+      deliveredAt: error ? null : new Date(),
+    }
+  });
+
+  if (error) {
+    logger.warn('Webhook delivery failed', {
+      deliveryId,
+      endpointId: delivery.endpointId,
+      eventType: delivery.eventType,
+      responseStatus,
+      error,
+      isLastAttempt
+    });
+    throw new Error(`Webhook delivery ${deliveryId} failed: ${error}`);
+  }
+}
+
+/**
+ * Подписывает отправку webhooks на события, которые можно получать снаружи
+ */
+export function registerWebhookDispatcher(
+  eventBus: EventBus,
+  schedulerService: Pick<SchedulerService, 'enqueueWebhookDelivery'>
+): void {
+  for (const eventType of WEBHOOK_EVENT_TYPES) {
+    eventBus.subscribe(eventType, {
+      name: 'dispatchWebhooks',
+      handle: async (event) => {
+        await dispatchWebhooks(event, schedulerService);
+      }
+    });
+  }
+}
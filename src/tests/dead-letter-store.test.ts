@@ -0,0 +1,16 @@
+import { describe, it, expect } from '@jest/globals';
+import { toStoredPayload, fromStoredPayload } from '../shared/dead-letter-store.js';
+
+describe('Dead Letter Payloads', () => {
+  it('should keep BigInt values when storing event payloads', () => {
+    const payload = { gameId: 'g1', telegramIds: [123456789n], nested: { telegramId: 42n } };
+
+    const stored = toStoredPayload(payload);
+    expect(JSON.parse(JSON.stringify(stored))).toEqual({
+      gameId: 'g1',
+      telegramIds: [{ $bigint: '123456789' }],
+      nested: { telegramId: { $bigint: '42' } }
+    });
+    expect(fromStoredPayload(stored)).toEqual(payload);
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from '@jest/globals';
+import { Game, GameStatus } from '../domain/game.js';
+
+describe('Game Lifecycle', () => {
+  it('should reject illegal status transitions in the aggregate', () => {
+    const game = new Game('g1', 'o1', 'venue1', new Date(Date.now() - 60 * 60 * 1000), 10);
+    game.close();
+    // Запись закрыта, но игра началась - оплата доступна
+    expect(game.isPaymentWindowOpen).toBe(true);
+    expect(() => game.close()).toThrow(expect.objectContaining({ code: 'ILLEGAL_STATUS_TRANSITION' }));
+    game.finish();
+    expect(() => game.finish()).toThrow(expect.objectContaining({ code: 'ILLEGAL_STATUS_TRANSITION' }));
+    expect(() => game.cancel()).toThrow(expect.objectContaining({ code: 'GAME_NOT_CANCELABLE' }));
+
+    const canceled = new Game('g2', 'o1', 'venue1', new Date(Date.now() - 60 * 60 * 1000), 10);
+    canceled.cancel('дождь');
+    expect(canceled.isPaymentWindowOpen).toBe(false);
+    expect(canceled.canTransitionTo(GameStatus.finished)).toBe(false);
+    expect(() => canceled.finish()).toThrow('нельзя перевести в статус finished');
+  });
+});
@@ -1,9 +1,18 @@
-import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import { prisma } from '../infrastructure/prisma.js';
 import { registerUser, registerOrganizer, createGame, joinGame, markPayment } from '../application/use-cases.js';
 import { GameStatus } from '../domain/game.js';
 import { RegStatus } from '../domain/registration.js';
 import { clearDatabase } from './setup.js';
+import { createServer } from '../api/server.js';
+import { config } from '../shared/config.js';
+import { issueSessionToken } from '../api/session-token.js';
+import { KeyboardBuilder } from '../bot/common/keyboard-builder.js';
+import { dispatchWebhooks } from '../shared/webhook-dispatcher.js';
+import { recordDeadLetter } from '../shared/dead-letter-store.js';
+import { announceGame, refreshGameAnnouncement, registerGroupAnnouncements } from '../shared/group-announcements.js';
+import type { AnnouncementTelegram } from '../shared/group-announcements.js';
+import { EventBus } from '../shared/event-bus.js';
 
 describe('Integration Tests - Full User Journey', () => {
    beforeEach(async () => {
@@ -82,7 +91,7 @@ describe('Integration Tests - Full User Journey', () => {
     expect(updatedRegistration?.paymentMarkedAt).toBeDefined();
   });
 
-  it('should handle waitlist promotion when confirmed player leaves', async () => {
+  it('should offer the freed spot to the waitlist when confirmed player leaves', async () => {
     // Step 1: Setup organizer and players
     const organizerResult = await registerUser(111111111n, 'Organizer');
     const organizerReg = await registerOrganizer(organizerResult.userId, 'Club');
@@ -118,11 +127,17 @@ describe('Integration Tests - Full User Journey', () => {
     const joinResult2 = await joinGame(game.id, player2Result.userId);
     expect(joinResult2.status).toBe(RegStatus.waitlisted);
 
-    // Step 5: First player leaves, second should be promoted
-    const { leaveGame } = await import('../application/use-cases.js');
+    // Step 5: First player leaves, second should get the spot offered
+    const { leaveGame, acceptWaitlistOffer } = await import('../application/use-cases.js');
     await leaveGame(game.id, player1Result.userId);
 
-    // Step 6: Verify promotion
+    const offeredReg = await prisma.registration.findFirst({
+      where: { gameId: game.id, userId: player2Result.userId }
+    });
+    expect(offeredReg?.status).toBe('offered');
+
+    // Step 6: Second player accepts the offer
+    await acceptWaitlistOffer(game.id, player2Result.userId);
     const promotedReg = await prisma.registration.findFirst({
       where: { gameId: game.id, userId: player2Result.userId }
     });
@@ -161,4 +176,444 @@ describe('Integration Tests - Full User Journey', () => {
     const { markPayment } = await import('../application/use-cases.js');
     await expect(markPayment(game.id, playerResult.userId)).rejects.toThrow('Окно оплаты еще не открыто');
   });
+
+  it('should announce a game in the bound group chat and keep the roster up to date', async () => {
+    const organizerResult = await registerUser(666666666n, 'Organizer');
+    await registerOrganizer(organizerResult.userId, 'Club');
+    const playerResult = await registerUser(777777777n, 'Group Player');
+    const otherOrganizer = await registerUser(888888888n, 'Other Organizer');
+    await registerOrganizer(otherOrganizer.userId, 'Other Club');
+
+    const { bindGroupChat, leaveGame } = await import('../application/use-cases.js');
+    await bindGroupChat({ userId: organizerResult.userId, chatId: -100123n, chatTitle: 'Club chat' });
+    await expect(bindGroupChat({ userId: otherOrganizer.userId, chatId: -100123n }))
+      .rejects.toMatchObject({ code: 'GROUP_CHAT_ALREADY_BOUND' });
+    await expect(bindGroupChat({ userId: playerResult.userId, chatId: -100456n }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const game = await createGame({
+      organizerId: organizerResult.userId,
+      venueId: 'venue-1',
+      startsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      capacity: 2
+    });
+    await prisma.game.update({
+      where: { id: game.id },
+      data: { createdAt: new Date(Date.now() - 3 * 60 * 60 * 1000) }
+    });
+
+    const sendMessage = jest.fn<AnnouncementTelegram['sendMessage']>(async () => ({ message_id: 42 }));
+    const editMessageText = jest.fn<AnnouncementTelegram['editMessageText']>(async () => true);
+    const telegram: AnnouncementTelegram = { sendMessage, editMessageText };
+
+    // Игра публикуется в группе, когда открывается для всех
+    const unregisterGroupAnnouncements = registerGroupAnnouncements(EventBus.getInstance(), telegram);
+    try {
+      await EventBus.getInstance().publish({ type: 'GamePublishedForAll', payload: { gameId: game.id }, occurredAt: new Date() });
+    } finally {
+      unregisterGroupAnnouncements();
+    }
+    // Повторная публикация не отправляет игру второй раз
+    await announceGame(game.id, telegram);
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(sendMessage).toHaveBeenCalledWith('-100123', expect.any(String), expect.objectContaining({
+      reply_markup: { inline_keyboard: [[
+        expect.objectContaining({ callback_data: `group_join_${game.id}` }),
+        expect.objectContaining({ callback_data: `group_leave_${game.id}` })
+      ]] }
+    }));
+
+    const announced = await prisma.game.findUnique({ where: { id: game.id } });
+    expect(announced?.announcementChatId).toBe(-100123n);
+    expect(announced?.announcementMessageId).toBe(42);
+
+    await joinGame(game.id, playerResult.userId);
+    await refreshGameAnnouncement(game.id, telegram);
+    const joinedText = editMessageText.mock.calls[0]?.[3];
+    expect(joinedText).toContain('1. Group Player');
+    expect(joinedText).toContain('1/2');
+
+    await leaveGame(game.id, playerResult.userId);
+    await refreshGameAnnouncement(game.id, telegram);
+    const leftText = editMessageText.mock.calls[1]?.[3];
+    expect(leftText).not.toContain('Group Player');
+    expect(leftText).toContain('0/2');
+  });
+});
+
+describe('Integration Tests - REST API', () => {
+   beforeEach(async () => {
+     await clearDatabase();
+     config.api.token = 'test-api-token';
+   }, 10000);
+
+   afterEach(async () => {
+     await clearDatabase();
+   }, 10000);
+
+  it('should join a game and read the payments dashboard through the API', async () => {
+    const organizerResult = await registerUser(123123123n, 'API Organizer');
+    await registerOrganizer(organizerResult.userId, 'API Club');
+    const playerResult = await registerUser(321321321n, 'API Player');
+
+    const game = await createGame({
+      organizerId: organizerResult.userId,
+      venueId: 'venue-1',
+      startsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      capacity: 1
+    });
+    await prisma.game.update({
+      where: { id: game.id },
+      data: { createdAt: new Date(Date.now() - 3 * 60 * 60 * 1000) }
+    });
+
+    const server = await createServer();
+    const headers = (telegramId: bigint) => ({
+      authorization: 'Bearer test-api-token',
+      'x-telegram-user-id': telegramId.toString()
+    });
+
+    try {
+      // Запрос без токена отклоняется
+      const unauthorized = await server.inject({ method: 'GET', url: '/api/v1/games' });
+      expect(unauthorized.statusCode).toBe(401);
+
+      const join = await server.inject({ method: 'POST', url: `/api/v1/games/${game.id}/join`, headers: headers(321321321n) });
+      expect(join.statusCode).toBe(200);
+      expect(join.json()).toEqual({ status: RegStatus.confirmed });
+
+      // Повторная запись - конфликт с кодом доменной ошибки
+      const again = await server.inject({ method: 'POST', url: `/api/v1/games/${game.id}/join`, headers: headers(321321321n) });
+      expect(again.statusCode).toBe(409);
+      expect(again.json().error.code).toBe('ALREADY_REGISTERED');
+
+      const details = await server.inject({ method: 'GET', url: `/api/v1/games/${game.id}`, headers: headers(321321321n) });
+      expect(details.json()).toMatchObject({ id: game.id, confirmedCount: 1, players: [{ name: 'API Player', status: 'confirmed' }] });
+
+      // Дашборд оплат доступен только организатору
+      const forbidden = await server.inject({ method: 'GET', url: `/api/v1/games/${game.id}/payments`, headers: headers(321321321n) });
+      expect(forbidden.statusCode).toBe(403);
+
+      const dashboard = await server.inject({ method: 'GET', url: `/api/v1/games/${game.id}/payments`, headers: headers(123123123n) });
+      expect(dashboard.statusCode).toBe(200);
+      expect(dashboard.json()).toMatchObject({ gameId: game.id, paidCount: 0, unpaidCount: 1 });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should hide a game in the priority window from players without priority', async () => {
+    const organizerResult = await registerUser(123123123n, 'API Organizer');
+    await registerOrganizer(organizerResult.userId, 'API Club');
+    await registerUser(321321321n, 'API Player');
+
+    const game = await createGame({
+      organizerId: organizerResult.userId,
+      venueId: 'venue-1',
+      startsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      capacity: 4
+    });
+
+    const server = await createServer();
+    const headers = (telegramId: bigint) => ({
+      authorization: 'Bearer test-api-token',
+      'x-telegram-user-id': telegramId.toString()
+    });
+
+    try {
+      const hidden = await server.inject({ method: 'GET', url: `/api/v1/games/${game.id}`, headers: headers(321321321n) });
+      expect(hidden.statusCode).toBe(404);
+
+      const visible = await server.inject({ method: 'GET', url: `/api/v1/games/${game.id}`, headers: headers(123123123n) });
+      expect(visible.statusCode).toBe(200);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should create a game with explicit pricing through the API', async () => {
+    const organizerResult = await registerUser(123123123n, 'API Organizer');
+    await registerOrganizer(organizerResult.userId, 'API Club');
+
+    const server = await createServer();
+    const headers = { authorization: 'Bearer test-api-token', 'x-telegram-user-id': '123123123' };
+
+    try {
+      const created = await server.inject({
+        method: 'POST',
+        url: '/api/v1/games',
+        headers,
+        payload: {
+          venueId: 'venue-1',
+          startsAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+          capacity: 8,
+          priceText: '2 часа 600₽',
+          pricing: { mode: 'split_total', amount: 60000, currency: 'RUB' }
+        }
+      });
+      expect(created.statusCode).toBe(201);
+      expect(created.json()).toMatchObject({ capacity: 8, pricing: { mode: 'split_total', amount: 60000, currency: 'RUB' } });
+
+      const invalid = await server.inject({
+        method: 'POST',
+        url: '/api/v1/games',
+        headers,
+        payload: {
+          venueId: 'venue-1',
+          startsAt: new Date(Date.now() + 48 * 60 * 60 * 1000).toISOString(),
+          capacity: 8,
+          pricing: { mode: 'per_player', amount: 500, currency: 'XXY' }
+        }
+      });
+      expect(invalid.statusCode).toBe(400);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should authorize with a session token and enforce organizer role', async () => {
+    const playerResult = await registerUser(456456456n, 'Session Player');
+    const player = await prisma.user.findUniqueOrThrow({ where: { id: playerResult.userId } });
+    const { token } = issueSessionToken(player);
+
+    const server = await createServer();
+    try {
+      const games = await server.inject({ method: 'GET', url: '/api/v1/games', headers: { authorization: `Bearer ${token}` } });
+      expect(games.statusCode).toBe(200);
+      expect(games.json()).toEqual({ games: [] });
+
+      const dashboard = await server.inject({
+        method: 'GET',
+        url: '/api/v1/games/00000000-0000-0000-0000-000000000000/payments',
+        headers: { authorization: `Bearer ${token}` }
+      });
+      expect(dashboard.statusCode).toBe(403);
+
+      const invalidLogin = await server.inject({ method: 'POST', url: '/api/v1/auth/webapp', payload: { initData: 'user=%7B%7D&hash=00' } });
+      expect(invalidLogin.statusCode).toBe(401);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should serve the Mini App and add its button to the command palette', async () => {
+    const server = await createServer();
+    try {
+      const page = await server.inject({ method: 'GET', url: '/app/' });
+      expect(page.statusCode).toBe(200);
+      expect(page.headers['content-type']).toContain('text/html');
+
+      const unknown = await server.inject({ method: 'GET', url: '/app/secret.txt' });
+      expect(unknown.statusCode).toBe(404);
+
+      // Тексты Mini App - из общего каталога бота
+      const messages = await server.inject({ method: 'GET', url: '/app/messages?locale=en' });
+      expect(messages.json()).toMatchObject({
+        locale: 'en-US',
+        messages: { 'webapp.join': 'Join', 'level.pro': 'Pro' }
+      });
+    } finally {
+      await server.close();
+    }
+
+    const palette = KeyboardBuilder.createMainCommandPalette({
+      isOrganizer: false,
+      hasPlayerRegistrations: true,
+      webAppUrl: 'https://example.com/app/'
+    });
+    expect(palette[0]).toEqual([expect.objectContaining({ web_app: { url: 'https://example.com/app/' } })]);
+  });
+
+  it('should manage webhooks through the API and record deliveries for game events', async () => {
+    const organizerResult = await registerUser(555000111n, 'Hook Organizer');
+    await registerOrganizer(organizerResult.userId, 'Hook Club');
+    await registerUser(555000222n, 'Hook Player');
+
+    const server = await createServer();
+    const headers = (telegramId: bigint) => ({
+      authorization: 'Bearer test-api-token',
+      'x-telegram-user-id': telegramId.toString()
+    });
+
+    try {
+      // Игрок без прав организатора не может создавать webhooks
+      const forbidden = await server.inject({
+        method: 'POST', url: '/api/v1/webhooks', headers: headers(555000222n),
+        payload: { url: 'https://example.com/hook', eventTypes: ['PlayerJoined'] }
+      });
+      expect(forbidden.statusCode).toBe(403);
+
+      const insecure = await server.inject({
+        method: 'POST', url: '/api/v1/webhooks', headers: headers(555000111n),
+        payload: { url: 'http://example.com/hook', eventTypes: ['PlayerJoined'] }
+      });
+      expect(insecure.statusCode).toBe(400);
+
+      // Адреса внутренней сети и метаданных облака недопустимы
+      for (const internalUrl of ['https://127.0.0.1/hook', 'https://169.254.169.254/latest', 'https://[::1]/hook']) {
+        const internal = await server.inject({
+          method: 'POST', url: '/api/v1/webhooks', headers: headers(555000111n),
+          payload: { url: internalUrl, eventTypes: ['PlayerJoined'] }
+        });
+        expect(internal.statusCode).toBe(400);
+      }
+
+      const created = await server.inject({
+        method: 'POST', url: '/api/v1/webhooks', headers: headers(555000111n),
+        payload: { url: 'https://example.com/hook', eventTypes: ['PlayerJoined'] }
+      });
+      expect(created.statusCode).toBe(201);
+      const webhook = created.json();
+      expect(webhook.secret).toHaveLength(64);
+
+      // Секрет отдается только при создании
+      const list = await server.inject({ method: 'GET', url: '/api/v1/webhooks', headers: headers(555000111n) });
+      expect(list.json().webhooks).toEqual([expect.not.objectContaining({ secret: expect.anything() })]);
+
+      const game = await createGame({
+        organizerId: organizerResult.userId,
+        venueId: 'venue-1',
+        startsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        capacity: 10
+      });
+      await dispatchWebhooks(
+        { id: 'event-1', type: 'PlayerJoined', payload: { gameId: game.id, userId: organizerResult.userId, status: 'confirmed' }, occurredAt: new Date() },
+        { enqueueWebhookDelivery: async () => {} }
+      );
+
+      const deliveries = await server.inject({ method: 'GET', url: `/api/v1/webhooks/${webhook.id}/deliveries`, headers: headers(555000111n) });
+      expect(deliveries.json().deliveries).toEqual([expect.objectContaining({ eventId: 'event-1', status: 'pending', attempts: 0 })]);
+
+      const removed = await server.inject({ method: 'DELETE', url: `/api/v1/webhooks/${webhook.id}`, headers: headers(555000111n) });
+      expect(removed.json()).toEqual({ ok: true });
+      expect(await prisma.webhookDelivery.count()).toBe(0);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should let only admins list and replay dead-lettered events through the API', async () => {
+    const originalAdmins = config.admin.telegramIds;
+    config.admin.telegramIds = ['777000111'];
+    await registerUser(777000111n, 'Admin');
+    await registerUser(777000222n, 'Player');
+    await recordDeadLetter(
+      { id: 'dead-event-1', type: 'GameClosed', payload: { gameId: 'game-1' }, occurredAt: new Date() },
+      'missingHandler',
+      new Error('Telegram is unavailable')
+    );
+
+    const server = await createServer();
+    const headers = (telegramId: bigint) => ({
+      authorization: 'Bearer test-api-token',
+      'x-telegram-user-id': telegramId.toString()
+    });
+
+    try {
+      const forbidden = await server.inject({ method: 'GET', url: '/api/v1/admin/dead-letters', headers: headers(777000222n) });
+      expect(forbidden.statusCode).toBe(403);
+
+      const list = await server.inject({ method: 'GET', url: '/api/v1/admin/dead-letters', headers: headers(777000111n) });
+      expect(list.statusCode).toBe(200);
+      expect(list.json()).toMatchObject({
+        total: 1,
+        deadLetters: [{ eventId: 'dead-event-1', eventType: 'GameClosed', handler: 'missingHandler', status: 'pending' }]
+      });
+      const deadLetterId = list.json().deadLetters[0].id;
+
+      const details = await server.inject({ method: 'GET', url: `/api/v1/admin/dead-letters/${deadLetterId}`, headers: headers(777000111n) });
+      expect(details.json().payload).toEqual({ gameId: 'game-1' });
+
+      // Обработчик не подписан - повтор не удается, событие остается в очереди
+      const replay = await server.inject({ method: 'POST', url: `/api/v1/admin/dead-letters/${deadLetterId}/replay`, headers: headers(777000111n) });
+      expect(replay.json()).toEqual({ replayed: false, error: 'Handler missingHandler is not subscribed to GameClosed' });
+
+      const discarded = await server.inject({ method: 'DELETE', url: `/api/v1/admin/dead-letters/${deadLetterId}`, headers: headers(777000111n) });
+      expect(discarded.json()).toEqual({ ok: true });
+      expect(await prisma.deadLetterEvent.findUnique({ where: { id: deadLetterId } })).toMatchObject({ status: 'discarded', replayAttempts: 1 });
+    } finally {
+      config.admin.telegramIds = originalAdmins;
+      await server.close();
+    }
+  });
+
+  it('should let the organizer override payment statuses from the payments dashboard API', async () => {
+    const organizerResult = await registerUser(888000111n, 'Cash Organizer');
+    await registerOrganizer(organizerResult.userId, 'Cash Club');
+    const playerResult = await registerUser(888000222n, 'Cash Player');
+    const game = await createGame({
+      organizerId: organizerResult.userId,
+      venueId: 'venue-1',
+      startsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      capacity: 10
+    });
+    await prisma.game.update({ where: { id: game.id }, data: { createdAt: new Date(Date.now() - 3 * 60 * 60 * 1000) } });
+    await joinGame(game.id, playerResult.userId);
+
+    const server = await createServer();
+    const headers = (telegramId: bigint) => ({
+      authorization: 'Bearer test-api-token',
+      'x-telegram-user-id': telegramId.toString()
+    });
+    const url = `/api/v1/games/${game.id}/payments/${playerResult.userId}`;
+
+    try {
+      const forbidden = await server.inject({ method: 'PUT', url, headers: headers(888000222n), payload: { status: 'paid' } });
+      expect(forbidden.statusCode).toBe(403);
+
+      const invalid = await server.inject({ method: 'PUT', url, headers: headers(888000111n), payload: { status: 'refund_due' } });
+      expect(invalid.statusCode).toBe(400);
+
+      const disputed = await server.inject({ method: 'PUT', url, headers: headers(888000111n), payload: { status: 'disputed' } });
+      expect(disputed.json()).toEqual({ from: 'unpaid', to: 'disputed' });
+
+      const dashboard = await server.inject({ method: 'GET', url: `/api/v1/games/${game.id}/payments`, headers: headers(888000111n) });
+      expect(dashboard.json()).toMatchObject({
+        paidCount: 0,
+        unpaidCount: 0,
+        disputedCount: 1,
+        players: [{ userId: playerResult.userId, paymentStatus: 'disputed' }]
+      });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should expose use-case latency and queue depths on the Prometheus metrics endpoint', async () => {
+    const organizerResult = await registerUser(999000111n, 'Metrics Organizer');
+    await registerOrganizer(organizerResult.userId, 'Metrics Club');
+    await createGame({
+      organizerId: organizerResult.userId,
+      venueId: 'venue-1',
+      startsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      capacity: 4
+    });
+
+    // Неудачный вызов тоже попадает в гистограмму
+    await expect(createGame({
+      organizerId: organizerResult.userId,
+      venueId: 'venue-1',
+      startsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      capacity: 0
+    })).rejects.toThrow();
+
+    const originalToken = config.metrics.token;
+    config.metrics.token = 'test-metrics-token';
+    const server = await createServer();
+    try {
+      const anonymous = await server.inject({ method: 'GET', url: '/metrics' });
+      expect(anonymous.statusCode).toBe(401);
+
+      const response = await server.inject({ method: 'GET', url: '/metrics', headers: { authorization: 'Bearer test-metrics-token' } });
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toContain('text/plain; version=0.0.4');
+      expect(response.body).toContain('# TYPE vball_use_case_duration_seconds histogram');
+      expect(response.body).toMatch(/vball_use_case_duration_seconds_count\{use_case="createGame",outcome="success"\} \d+/);
+      expect(response.body).toMatch(/vball_use_case_duration_seconds_count\{use_case="createGame",outcome="error"\} \d+/);
+      expect(response.body).toContain('vball_queue_jobs{queue="waitlist-offer-expiry",state="waiting"}');
+    } finally {
+      config.metrics.token = originalToken;
+      await server.close();
+    }
+  });
 });
\ No newline at end of file
@@ -0,0 +1,10 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseLedgerInput } from '../domain/ledger.js';
+
+describe('Ledger Input', () => {
+  it('should parse the amount with an optional note', () => {
+    expect(parseLedgerInput('3000 за октябрь')).toEqual({ amount: 300000, note: 'за октябрь' });
+    expect(parseLedgerInput('-150,5')).toEqual({ amount: -15050 });
+    expect(parseLedgerInput('много')).toBeUndefined();
+  });
+});
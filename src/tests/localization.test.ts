@@ -0,0 +1,38 @@
+import { describe, it, expect } from '@jest/globals';
+import { createTranslator, getTranslator } from '../shared/i18n/index.js';
+import { getLevelName } from '../shared/game-constants.js';
+import { ErrorHandler } from '../shared/error-handler.js';
+import { BusinessRuleError } from '../domain/errors/index.js';
+
+describe('Localization', () => {
+  it('should select Russian and English plural forms', () => {
+    const ru = createTranslator('ru-RU');
+    expect(ru('common.players', { count: 1 })).toBe('1 игрок');
+    expect(ru('common.players', { count: 2 })).toBe('2 игрока');
+    expect(ru('common.players', { count: 5 })).toBe('5 игроков');
+    expect(ru('common.players', { count: 11 })).toBe('11 игроков');
+    expect(ru('common.players', { count: 22 })).toBe('22 игрока');
+
+    const en = createTranslator('en-US');
+    expect(en('common.players', { count: 1 })).toBe('1 player');
+    expect(en('common.players', { count: 12 })).toBe('12 players');
+  });
+
+  it('should resolve locale from user settings and Telegram language', () => {
+    expect(getTranslator({ locale: 'en-US' }).locale).toBe('en-US');
+    expect(getTranslator(null, 'en').locale).toBe('en-US');
+    expect(getTranslator(null, 'de').locale).toBe('ru-RU');
+    expect(createTranslator('en-US')('common.usage', { command: 'join', usage: '<id>' })).toBe('Usage: /join <id>');
+  });
+
+  it('should translate levels and domain errors for the recipient', () => {
+    const en = createTranslator('en-US');
+    expect(getLevelName('novice', en)).toBe('Beginners');
+    // Уровни, сохраненные старыми версиями текстом, показываются как есть
+    expect(getLevelName('Новички', en)).toBe('Новички');
+
+    const error = new BusinessRuleError('CAPACITY_REACHED', 'Все места заняты');
+    expect(ErrorHandler.mapToUserMessage(error, createTranslator('ru-RU'))).toBe('Все места заняты');
+    expect(ErrorHandler.mapToUserMessage(error, en)).toBe('All spots are taken');
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from '@jest/globals';
+import { PricingMode, parsePriceText, toMinorUnits, amountPerPlayer } from '../domain/pricing.js';
+import { formatMoney } from '../shared/game-constants.js';
+import { createTranslator } from '../shared/i18n/index.js';
+
+describe('Pricing', () => {
+  it('should parse free-text prices and split court rent among players', () => {
+    expect(parsePriceText('150₽', 'RUB')).toEqual({ mode: PricingMode.per_player, amount: 15000, currency: 'RUB' });
+    expect(parsePriceText('$10.50', 'RUB')).toEqual({ mode: PricingMode.per_player, amount: 1050, currency: 'USD' });
+    expect(parsePriceText('3 000 руб аренда на всех', 'EUR')).toEqual({ mode: PricingMode.split_total, amount: 300000, currency: 'RUB' });
+    expect(parsePriceText('по договоренности', 'RUB')).toBeUndefined();
+
+    const rent = { mode: PricingMode.split_total, amount: 100000, currency: 'RUB' };
+    expect(amountPerPlayer(rent, 3)).toBe(33334);
+    expect(amountPerPlayer(rent, 0)).toBe(100000);
+    expect(formatMoney(15000, 'RUB', createTranslator('en-US'))).toMatch(/^RUB\s150$/);
+  });
+
+  it('should refuse to guess the price from text with several numbers', () => {
+    expect(parsePriceText('2 часа 600₽', 'RUB')).toBeUndefined();
+    expect(parsePriceText('150₽ до 20.12', 'RUB')).toBeUndefined();
+    expect(parsePriceText('600₽ за 2 часа', 'RUB')).toBeUndefined();
+    expect(parsePriceText('600₽ за корт', 'RUB')).toEqual({ mode: PricingMode.split_total, amount: 60000, currency: 'RUB' });
+  });
+
+  it('should use the minor units of each currency', () => {
+    expect(toMinorUnits(150.5, 'RUB')).toBe(15050);
+    expect(toMinorUnits(1000, 'JPY')).toBe(1000);
+    expect(toMinorUnits(1.234, 'KWD')).toBe(1234);
+    expect(parsePriceText('1000 JPY', 'JPY')).toEqual({ mode: PricingMode.per_player, amount: 1000, currency: 'JPY' });
+
+    const t = createTranslator('en-US');
+    expect(formatMoney(1050, 'USD', t)).toBe('$10.50');
+    expect(formatMoney(1000, 'JPY', t)).toBe('¥1,000');
+    expect(formatMoney(1234, 'KWD', t)).toMatch(/^KWD\s1\.234$/);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from '@jest/globals';
+import { isPublicAddress, isPublicHost } from '../shared/public-address.js';
+
+describe('Public Address Guard', () => {
+  it('should reject loopback, private, link-local and metadata addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00:ec2::254', 'fe80::1', '::ffff:127.0.0.1', '::ffff:7f00:1']) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+  });
+
+  it('should accept public addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111']) {
+      expect(isPublicAddress(address)).toBe(true);
+    }
+  });
+
+  it('should check IP literals in URLs without DNS', async () => {
+    expect(await isPublicHost('[::1]')).toBe(false);
+    expect(await isPublicHost('169.254.169.254')).toBe(false);
+    expect(await isPublicHost('8.8.8.8')).toBe(true);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from '@jest/globals';
+import { Registration, RegStatus } from '../domain/registration.js';
+
+describe('Waitlist Offer Rules', () => {
+  const now = new Date('2030-01-15T12:00:00.000Z');
+  const waitlisted = () => new Registration('r1', 'g1', 'u1', RegStatus.waitlisted);
+
+  it('should offer a spot only from the waitlist and confirm it before the deadline', () => {
+    const registration = waitlisted();
+    registration.offerSpot(new Date(now.getTime() + 60 * 1000));
+
+    expect(registration.status).toBe(RegStatus.offered);
+    expect(registration.isOfferExpired(now)).toBe(false);
+    expect(() => registration.offerSpot(now)).toThrow(expect.objectContaining({ code: 'INVALID_STATE' }));
+
+    registration.acceptOffer(now);
+    expect(registration.status).toBe(RegStatus.confirmed);
+    expect(registration.offerExpiresAt).toBeUndefined();
+    expect(() => registration.acceptOffer(now)).toThrow(expect.objectContaining({ code: 'NO_WAITLIST_OFFER' }));
+  });
+
+  it('should refuse an expired offer and cancel a declined one', () => {
+    const expired = waitlisted();
+    expired.offerSpot(now);
+    expect(expired.isOfferExpired(now)).toBe(true);
+    expect(() => expired.acceptOffer(now)).toThrow(expect.objectContaining({ code: 'WAITLIST_OFFER_EXPIRED' }));
+
+    expired.declineOffer();
+    expect(expired.status).toBe(RegStatus.canceled);
+    expect(expired.offerExpiresAt).toBeUndefined();
+    expect(() => waitlisted().declineOffer()).toThrow(expect.objectContaining({ code: 'NO_WAITLIST_OFFER' }));
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from '@jest/globals';
+import { InMemorySessionStore } from '../shared/session-store.js';
+
+describe('Session Store', () => {
+  it('should keep dates and sets in session and expire it after TTL', async () => {
+    // Given: store with 1 second TTL
+    const store = new InMemorySessionStore<{ date: Date; selectedIds: Set<string> }>(1);
+    const date = new Date('2030-01-15T12:00:00.000Z');
+
+    // When: session is saved and read back
+    await store.set(123, { date, selectedIds: new Set(['org-1', 'org-2']) });
+    const session = await store.get(123);
+
+    // Then: values are restored with their types, and session expires after TTL
+    expect(session?.date).toBeInstanceOf(Date);
+    expect(session?.date.getTime()).toBe(date.getTime());
+    expect(session?.selectedIds).toEqual(new Set(['org-1', 'org-2']));
+
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    expect(await store.get(123)).toBeNull();
+  }, 10000);
+});
@@ -1,25 +1,105 @@
 import { jest } from '@jest/globals';
+import type { Prisma } from '@prisma/client';
+import type { Context, Telegram } from 'telegraf';
+import type { InlineKeyboardMarkup } from 'telegraf/types';
 import { prisma } from '../infrastructure/prisma.js';
+import { GameStatus } from '../domain/game.js';
 
 // Хелпер-функция для очистки базы данных в правильном порядке
 export async function clearDatabase(): Promise<void> {
+  await prisma.outboxEvent.deleteMany();
+  await prisma.processedEvent.deleteMany();
+  await prisma.deadLetterEvent.deleteMany();
+  await prisma.auditEvent.deleteMany();
+  await prisma.webhookDelivery.deleteMany();
+  await prisma.webhookEndpoint.deleteMany();
+  await prisma.onlinePayment.deleteMany();
+  await prisma.ledgerEntry.deleteMany();
   await prisma.registration.deleteMany();
   await prisma.game.deleteMany();
+  await prisma.gameSeries.deleteMany();
+  await prisma.venue.deleteMany();
+  await prisma.organizerMember.deleteMany();
   await prisma.organizer.deleteMany();
   await prisma.user.deleteMany();
+  await createTestVenues();
 }
 
-// Хелпер-функция для создания тестового пользователя и организатора
+// Хелпер-функция для блоков тестов с базой данных: очищает ее до и после каждого теста
+export function useCleanDatabase(): void {
+  beforeEach(clearDatabase, 10000);
+  afterEach(clearDatabase, 10000);
+}
+
+// Общие площадки, на которые ссылаются тестовые игры
+export const TEST_VENUE_IDS = ['venue1', 'venue2', 'venue-1', 'venue-beach-1', 'venue-chaika-id'];
+
+// Хелпер-функция для создания общих тестовых площадок
+export async function createTestVenues(): Promise<void> {
+  await prisma.venue.createMany({
+    data: TEST_VENUE_IDS.map(id => ({ id, name: id })),
+    skipDuplicates: true
+  });
+}
+
+// Хелпер-функция для создания тестового пользователя и организатора (владельца команды)
 export async function createTestOrganizer(telegramId: bigint, name: string, title: string) {
   const user = await prisma.user.create({
     data: { telegramId, name }
   });
   const organizer = await prisma.organizer.create({
-    data: { userId: user.id, title }
+    data: { userId: user.id, title, members: { create: { userId: user.id, role: 'owner' } } }
   });
   return { user, organizer };
 }
 
+// Хелпер-функция для создания открытой игры через сутки (приоритетное окно уже закрыто)
+export async function createTestGame(organizerId: string, data: Partial<Prisma.GameUncheckedCreateInput> = {}) {
+  return prisma.game.create({
+    data: {
+      organizerId,
+      venueId: 'venue1',
+      startsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      capacity: 10,
+      status: GameStatus.open,
+      createdAt: new Date(Date.now() - 3 * 60 * 60 * 1000),
+      ...data
+    }
+  });
+}
+
+// Контекст Telegram для тестов обработчиков бота: ответы записываются в mock-функции
+export type TestContext = Context & {
+  reply: jest.Mock<Context['reply']>;
+  answerCbQuery: jest.Mock<Context['answerCbQuery']>;
+  editMessageText: jest.Mock<Context['editMessageText']>;
+  editMessageReplyMarkup: jest.Mock<Context['editMessageReplyMarkup']>;
+  telegram: { sendMessage: jest.Mock<Telegram['sendMessage']> };
+};
+
+// Хелпер-функция для создания контекста личного чата пользователя Telegram
+export function createTestContext(telegramId: number | bigint, languageCode = 'ru'): TestContext {
+  const id = Number(telegramId);
+  const fake = {
+    from: { id, is_bot: false, first_name: 'Test', language_code: languageCode },
+    chat: { id, type: 'private', first_name: 'Test' },
+    telegram: { sendMessage: jest.fn<Telegram['sendMessage']>() },
+    reply: jest.fn<Context['reply']>(),
+    answerCbQuery: jest.fn<Context['answerCbQuery']>(),
+    editMessageText: jest.fn<Context['editMessageText']>(),
+    editMessageReplyMarkup: jest.fn<Context['editMessageReplyMarkup']>()
+  };
+  return fake as unknown as TestContext;
+}
+
+// Хелпер-функция для получения callback_data кнопок встроенной клавиатуры сообщения
+export function callbackDataOf(extra?: { reply_markup?: object }): string[] {
+  const markup = extra?.reply_markup;
+  if (!markup || !('inline_keyboard' in markup)) return [];
+  return (markup as InlineKeyboardMarkup).inline_keyboard.flat()
+    .flatMap(button => 'callback_data' in button ? [button.callback_data] : []);
+}
+
 // Мокирование BullMQ
 jest.mock('bullmq', () => ({
   Queue: jest.fn().mockImplementation(() => ({
@@ -0,0 +1,25 @@
+import { describe, it, expect } from '@jest/globals';
+import { Game } from '../domain/game.js';
+import { SkillLevel, isLevelInRange } from '../domain/skill-level.js';
+
+describe('Skill Levels', () => {
+  it('should check player levels against the game range', () => {
+    expect(isLevelInRange(SkillLevel.novice, {})).toBe(true);
+    expect(isLevelInRange(null, {})).toBe(true);
+    expect(isLevelInRange(null, { minLevel: SkillLevel.novice })).toBe(false);
+    expect(isLevelInRange(SkillLevel.amateur, { minLevel: SkillLevel.amateur, maxLevel: SkillLevel.experienced })).toBe(true);
+    expect(isLevelInRange(SkillLevel.pro, { maxLevel: SkillLevel.experienced })).toBe(false);
+
+    const game = new Game('g1', 'o1', 'venue1', new Date(Date.now() + 24 * 60 * 60 * 1000), 10, SkillLevel.amateur);
+    expect(game.applyChanges({ minLevel: SkillLevel.amateur }, 0)).toEqual({
+      minLevel: { from: null, to: SkillLevel.amateur },
+      maxLevel: { from: null, to: null }
+    });
+    expect(() => game.applyChanges({ maxLevel: SkillLevel.novice }, 0)).toThrow(expect.objectContaining({ code: 'VALUE_OUT_OF_RANGE' }));
+    expect(() => game.applyChanges({ maxLevel: 'legend' }, 0)).toThrow(expect.objectContaining({ code: 'INVALID_INPUT' }));
+    expect(game.applyChanges({ minLevel: null }, 0)).toEqual({
+      minLevel: { from: SkillLevel.amateur, to: null },
+      maxLevel: { from: null, to: null }
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from '@jest/globals';
+import { createHash, createHmac } from 'node:crypto';
+import { verifyLoginWidgetData, verifyWebAppInitData } from '../api/telegram-auth.js';
+import { issueSessionToken, verifySessionToken } from '../api/session-token.js';
+
+describe('Telegram Auth', () => {
+  const botToken = '123456:TEST-TOKEN';
+  const now = new Date('2030-01-15T12:00:00.000Z');
+  const authDate = Math.floor(now.getTime() / 1000) - 60;
+
+  it('should verify Login Widget data signed with the bot token', () => {
+    const fields = { id: 42, first_name: 'Ivan', username: 'ivan', auth_date: authDate };
+    const checkString = Object.entries(fields).sort(([a], [b]) => a.localeCompare(b)).map(([k, v]) => `${k}=${v}`).join('\n');
+    const secret = createHash('sha256').update(botToken).digest();
+    const hash = createHmac('sha256', secret).update(checkString).digest('hex');
+
+    expect(verifyLoginWidgetData({ ...fields, hash }, botToken, 86400, now)).toMatchObject({ id: 42, firstName: 'Ivan' });
+    expect(verifyLoginWidgetData({ ...fields, first_name: 'Petr', hash }, botToken, 86400, now)).toBeNull();
+    expect(verifyLoginWidgetData({ ...fields, hash }, botToken, 30, now)).toBeNull();
+  });
+
+  it('should verify Mini App initData and issue session tokens', () => {
+    const params = new URLSearchParams({ auth_date: String(authDate), query_id: 'AAH', user: JSON.stringify({ id: 42, first_name: 'Ivan' }) });
+    const checkString = Array.from(params.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([k, v]) => `${k}=${v}`).join('\n');
+    const secret = createHmac('sha256', 'WebAppData').update(botToken).digest();
+    params.set('hash', createHmac('sha256', secret).update(checkString).digest('hex'));
+
+    expect(verifyWebAppInitData(params.toString(), botToken, 86400, now)).toMatchObject({ id: 42 });
+    expect(verifyWebAppInitData(params.toString(), 'other:token', 86400, now)).toBeNull();
+
+    const { token } = issueSessionToken({ id: 'user-1', telegramId: 42n }, 60, now);
+    expect(verifySessionToken(token, now)).toMatchObject({ sub: 'user-1', tid: '42' });
+    expect(verifySessionToken(token, new Date(now.getTime() + 61 * 1000))).toBeNull();
+    expect(verifySessionToken(`${token}x`, now)).toBeNull();
+  });
+});
@@ -1,10 +1,28 @@
-import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
-import { prisma } from '../infrastructure/prisma.js';
-import { joinGame, leaveGame, markPayment, createGame, linkPlayerToOrganizer, finishGame } from '../application/use-cases.js';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, jest } from '@jest/globals';
+import { prisma, runInTransaction } from '../infrastructure/prisma.js';
+import { joinGame, leaveGame, markPayment, createGame, linkPlayerToOrganizer, finishGame, createVenue, deleteVenue, listVenues, createGameSeries, generateSeriesGames, cancelGame, updateGame, listDeadLetters, replayDeadLetter, discardAllDeadLetters, getGameHistory, overridePayment, createPaymentInvoice, validatePaymentCheckout, completeOnlinePayment, recordLedgerEntry, getPlayerBalances, getOrganizerBalances, getPlayerLedger, closeGame, advanceGameLifecycle, advanceDueGames, acceptWaitlistOffer, declineWaitlistOffer, expireWaitlistOffer, expireDueWaitlistOffers, addTeamMember, removeTeamMember, listTeamMembers, listTeamCandidates, updateUserLevel, verifyPlayerLevel, admitPlayer } from '../application/use-cases.js';
 import { GameStatus } from '../domain/game.js';
 import { RegStatus } from '../domain/registration.js';
-import { clearDatabase, createTestOrganizer } from './setup.js';
+import { clearDatabase, createTestOrganizer, createTestGame, createTestContext, callbackDataOf, useCleanDatabase } from './setup.js';
 import { CommandHandlers } from '../bot/command-handlers.js';
+import { userPreferencesService } from '../shared/user-preferences-service.js';
+import { formatGameTimeForUser } from '../shared/date-utils.js';
+import { getTranslator } from '../shared/i18n/index.js';
+import { ValidationError } from '../domain/errors/index.js';
+import { dispatchWebhooks } from '../shared/webhook-dispatcher.js';
+import { EventOutbox, deduplicated } from '../shared/event-outbox.js';
+import { EventBus, type EventHandler } from '../shared/event-bus.js';
+import { recordDeadLetter } from '../shared/dead-letter-store.js';
+import { config } from '../shared/config.js';
+import { recordAuditEvent, registerAuditLog } from '../shared/audit-log.js';
+import { GameHistoryHandler } from '../bot/game-management/index.js';
+import { parsePriceText } from '../domain/pricing.js';
+import { LedgerEntryType } from '../domain/ledger.js';
+import { GamePaymentsDashboardQuery } from '../application/queries/GamePaymentsDashboardQuery.js';
+import { OrganizerRole } from '../domain/organizer-team.js';
+import { SkillLevel } from '../domain/skill-level.js';
+import { FakePaymentProvider, setPaymentProvider } from '../shared/payment-provider.js';
+import { PaymentHandler, OnlinePaymentHandler } from '../bot/payments/index.js';
 
 describe('Race Conditions Test', () => {
    beforeEach(async () => {
@@ -144,7 +162,7 @@ describe('Game Registration Use Cases', () => {
   });
 
   describe('leaveGame', () => {
-    it('should allow leaving a game and promote waitlisted user', async () => {
+    it('should allow leaving a game and offer the spot to the waitlisted user', async () => {
       // Given: game with confirmed user and waitlisted user
       const { user: user1, organizer } = await createTestOrganizer(123456789n, 'User 1', 'Test Organizer');
       const user2 = await prisma.user.create({
@@ -167,11 +185,22 @@ describe('Game Registration Use Cases', () => {
       // When: confirmed user leaves
       await leaveGame(game.id, user1.id);
 
-      // Then: waitlisted user should be promoted
-      const promotedReg = await prisma.registration.findFirst({
+      // Then: waitlisted user should get an offer instead of a silent promotion
+      const offeredReg = await prisma.registration.findFirst({
         where: { gameId: game.id, userId: user2.id }
       });
-      expect(promotedReg?.status).toBe(RegStatus.confirmed);
+      expect(offeredReg?.status).toBe(RegStatus.offered);
+      expect(offeredReg?.offerExpiresAt?.getTime()).toBeGreaterThan(Date.now());
+
+      // When: the offer is accepted
+      await acceptWaitlistOffer(game.id, user2.id);
+
+      // Then: the player is confirmed
+      const acceptedReg = await prisma.registration.findFirst({
+        where: { gameId: game.id, userId: user2.id }
+      });
+      expect(acceptedReg?.status).toBe(RegStatus.confirmed);
+      expect(acceptedReg?.offerExpiresAt).toBeNull();
     }, 10000);
   });
 
@@ -230,6 +259,68 @@ describe('Game Registration Use Cases', () => {
     }, 10000);
   });
 
+  describe('overridePayment', () => {
+    it('should let the organizer mark cash payment, undo it and dispute it', async () => {
+      const { user: organizerUser, organizer } = await createTestOrganizer(123456789n, 'Test Organizer', 'Test Organizer');
+      const player = await prisma.user.create({ data: { telegramId: 987654321n, name: 'Player' } });
+      const game = await prisma.game.create({
+        data: {
+          organizerId: organizer.id,
+          venueId: 'venue1',
+          startsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+          capacity: 10,
+          status: GameStatus.open,
+          createdAt: new Date(Date.now() - 3 * 60 * 60 * 1000)
+        }
+      });
+      await joinGame(game.id, player.id);
+
+      // Наличные можно отметить и до начала игры
+      expect(await overridePayment(game.id, organizerUser.id, player.id, 'paid')).toEqual({ from: 'unpaid', to: 'paid' });
+      let registration = await prisma.registration.findFirst({ where: { gameId: game.id, userId: player.id } });
+      expect(registration).toMatchObject({ paymentStatus: 'paid', paymentMarkedAt: expect.any(Date) });
+
+      await overridePayment(game.id, organizerUser.id, player.id, 'unpaid');
+      registration = await prisma.registration.findFirst({ where: { gameId: game.id, userId: player.id } });
+      expect(registration).toMatchObject({ paymentStatus: 'unpaid', paymentMarkedAt: null });
+
+      // Оспоренную оплату игрок сам отметить не может
+      await overridePayment(game.id, organizerUser.id, player.id, 'disputed');
+      await prisma.game.update({ where: { id: game.id }, data: { startsAt: new Date(Date.now() - 60 * 60 * 1000) } });
+      await expect(markPayment(game.id, player.id)).rejects.toThrow('Оплата оспорена организатором');
+
+      const events = await prisma.outboxEvent.findMany({ where: { type: 'PaymentStatusOverridden' }, orderBy: { createdAt: 'asc' } });
+      expect(events.map(event => event.payload)).toEqual([
+        { gameId: game.id, actorId: organizerUser.id, userId: player.id, from: 'unpaid', to: 'paid' },
+        { gameId: game.id, actorId: organizerUser.id, userId: player.id, from: 'paid', to: 'unpaid' },
+        { gameId: game.id, actorId: organizerUser.id, userId: player.id, from: 'unpaid', to: 'disputed' }
+      ]);
+    }, 10000);
+
+    it('should reject overrides from other organizers and for unconfirmed players', async () => {
+      const { user: organizerUser, organizer } = await createTestOrganizer(123456789n, 'Test Organizer', 'Test Organizer');
+      const { user: otherOrganizerUser } = await createTestOrganizer(111111111n, 'Other Organizer', 'Other Club');
+      const player = await prisma.user.create({ data: { telegramId: 987654321n, name: 'Player' } });
+      const waitlisted = await prisma.user.create({ data: { telegramId: 555555555n, name: 'Waitlisted' } });
+      const game = await prisma.game.create({
+        data: {
+          organizerId: organizer.id,
+          venueId: 'venue1',
+          startsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+          capacity: 1,
+          status: GameStatus.open,
+          createdAt: new Date(Date.now() - 3 * 60 * 60 * 1000)
+        }
+      });
+      await joinGame(game.id, player.id);
+      await joinGame(game.id, waitlisted.id);
+
+      await expect(overridePayment(game.id, otherOrganizerUser.id, player.id, 'paid')).rejects.toThrow('Только команда организатора игры может менять статус оплаты');
+      await expect(overridePayment(game.id, organizerUser.id, waitlisted.id, 'paid')).rejects.toThrow('Статус оплаты можно менять только подтвержденным участникам');
+      await expect(overridePayment(game.id, organizerUser.id, player.id, 'refund_due')).rejects.toThrow(ValidationError);
+    }, 10000);
+  });
+
   describe('createGame', () => {
     it('should create a new game successfully', async () => {
       // Given: organizer
@@ -254,8 +345,184 @@ describe('Game Registration Use Cases', () => {
       expect(game.capacity).toBe(10);
       expect(game.levelTag).toBe('intermediate');
       expect(game.priceText).toBe('500 руб');
+      expect(game.pricing).toEqual({ mode: 'per_player', amount: 50000, currency: 'RUB' });
       expect(game.status).toBe(GameStatus.open);
     }, 10000);
+
+    it('should reject game on archived venue', async () => {
+      // Given: organizer with own venue that was deleted
+      const { user } = await createTestOrganizer(123456789n, 'Test User', 'Test Organizer');
+      const venue = await createVenue(user.id, { name: 'Пляж', isIndoor: false, defaultCapacity: 8 });
+      await deleteVenue(user.id, venue.id);
+
+      // When & Then: archived venue is not listed and cannot host new games
+      const venues = await listVenues(user.id);
+      expect(venues.map(v => v.id)).not.toContain(venue.id);
+      await expect(createGame({
+        organizerId: user.id,
+        venueId: venue.id,
+        startsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        capacity: 8
+      })).rejects.toThrow('Площадка удалена и недоступна для новых игр');
+    }, 10000);
+
+    it('should not allow editing venue of another organizer', async () => {
+      // Given: two organizers, venue belongs to the first
+      const { user: owner } = await createTestOrganizer(123456789n, 'Owner', 'Owner Org');
+      const { user: other } = await createTestOrganizer(987654321n, 'Other', 'Other Org');
+      const venue = await createVenue(owner.id, { name: 'Чайка-2' });
+
+      // When & Then: second organizer cannot delete it
+      await expect(deleteVenue(other.id, venue.id)).rejects.toThrow('Можно изменять только свои площадки');
+    }, 10000);
+  });
+  describe('createGameSeries', () => {
+    it('should create series games ahead without duplicates', async () => {
+      // Given: organizer
+      const { user } = await createTestOrganizer(123456789n, 'Test User', 'Test Organizer');
+
+      // When: create series for every day, 3 days ahead, and run generation again
+      const { series, createdGames } = await createGameSeries(user.id, {
+        venueId: 'venue1',
+        weekdays: [1, 2, 3, 4, 5, 6, 7],
+        startTime: '20:00',
+        capacity: 12,
+        priceText: '200₽',
+        createAheadDays: 3
+      });
+      const createdOnRerun = await generateSeriesGames(series.id);
+
+      // Then: every instance is a regular game linked to the series
+      const games = await prisma.game.findMany({ where: { seriesId: series.id } });
+      expect(createdGames).toBeGreaterThanOrEqual(2);
+      expect(createdOnRerun).toBe(0);
+      expect(games).toHaveLength(createdGames);
+      expect(games.every(g => g.capacity === 12 && g.priceText === '200₽' && g.status === 'open')).toBe(true);
+    }, 10000);
+
+    it('should stop retrying a failing series game and move it to the dead letter queue', async () => {
+      // Given: series whose organizer can no longer create games
+      const { user, organizer } = await createTestOrganizer(123456789n, 'Test User', 'Test Organizer');
+      const { series, createdGames } = await createGameSeries(user.id, {
+        venueId: 'venue1',
+        weekdays: [1, 2, 3, 4, 5, 6, 7],
+        startTime: '20:00',
+        capacity: 12,
+        createAheadDays: 3
+      });
+      await prisma.game.deleteMany({ where: { seriesId: series.id } });
+      await prisma.organizerMember.deleteMany({ where: { organizerId: organizer.id } });
+
+      // When: generation runs more times than allowed
+      for (let run = 0; run <= config.series.maxGenerationAttempts; run++) {
+        await generateSeriesGames(series.id);
+      }
+
+      // Then: every game was tried maxGenerationAttempts times and dead-lettered once
+      const failures = await prisma.gameSeriesFailure.findMany({ where: { seriesId: series.id } });
+      const deadLetters = await prisma.deadLetterEvent.findMany({ where: { eventType: 'SeriesGameGenerationFailed' } });
+      expect(failures).toHaveLength(createdGames);
+      expect(failures.every(f => f.attempts === config.series.maxGenerationAttempts)).toBe(true);
+      expect(deadLetters).toHaveLength(createdGames);
+      expect(deadLetters.every(d => d.handler === 'handleSeriesGameGenerationFailed')).toBe(true);
+    }, 20000);
+  });
+
+  describe('updateGame', () => {
+    it('should offer spots to waitlisted players when capacity is raised', async () => {
+      // Given: full game with two waitlisted players
+      const { user: organizerUser, organizer } = await createTestOrganizer(123456789n, 'Test User', 'Test Organizer');
+      const confirmed = await prisma.user.create({ data: { telegramId: 111111111n, name: 'Confirmed' } });
+      const first = await prisma.user.create({ data: { telegramId: 222222222n, name: 'First Waitlisted' } });
+      const second = await prisma.user.create({ data: { telegramId: 333333333n, name: 'Second Waitlisted' } });
+      const game = await prisma.game.create({
+        data: {
+          organizerId: organizer.id,
+          venueId: 'venue1',
+          startsAt: new Date(Date.now() + 48 * 60 * 60 * 1000),
+          capacity: 1,
+          status: GameStatus.open,
+          createdAt: new Date(Date.now() - 3 * 60 * 60 * 1000)
+        }
+      });
+      await prisma.registration.create({ data: { gameId: game.id, userId: confirmed.id, status: RegStatus.confirmed } });
+      await prisma.registration.create({ data: { gameId: game.id, userId: first.id, status: RegStatus.waitlisted } });
+      await prisma.registration.create({ data: { gameId: game.id, userId: second.id, status: RegStatus.waitlisted } });
+
+      // When: organizer raises capacity by one and moves the game
+      const newStartsAt = new Date(Date.now() + 72 * 60 * 60 * 1000);
+      const result = await updateGame(game.id, organizerUser.id, { capacity: 2, startsAt: newStartsAt });
+
+      // Then: diff contains both fields, first waitlisted player gets an offer
+      expect(result.changes.capacity).toEqual({ from: 1, to: 2 });
+      expect(result.changes.startsAt?.to).toBe(newStartsAt.toISOString());
+      expect(result.offeredUserIds).toEqual([first.id]);
+
+      const regs = await prisma.registration.findMany({ where: { gameId: game.id } });
+      expect(regs.find(r => r.userId === first.id)?.status).toBe('offered');
+      expect(regs.find(r => r.userId === second.id)?.status).toBe('waitlisted');
+      const updatedGame = await prisma.game.findUnique({ where: { id: game.id } });
+      expect(updatedGame?.startsAt.getTime()).toBe(newStartsAt.getTime());
+    }, 10000);
+
+    it('should reject lowering capacity below confirmed players', async () => {
+      const { user, organizer } = await createTestOrganizer(123456789n, 'Test User', 'Test Organizer');
+      const game = await prisma.game.create({
+        data: {
+          organizerId: organizer.id,
+          venueId: 'venue1',
+          startsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+          capacity: 2,
+          status: GameStatus.open,
+          createdAt: new Date(Date.now() - 3 * 60 * 60 * 1000)
+        }
+      });
+      const other = await prisma.user.create({ data: { telegramId: 111111111n, name: 'Other' } });
+      await prisma.registration.create({ data: { gameId: game.id, userId: user.id, status: RegStatus.confirmed } });
+      await prisma.registration.create({ data: { gameId: game.id, userId: other.id, status: RegStatus.confirmed } });
+
+      await expect(updateGame(game.id, user.id, { capacity: 1 })).rejects.toThrow('Нельзя уменьшить вместимость ниже числа записавшихся');
+    }, 10000);
+  });
+
+  describe('cancelGame', () => {
+    it('should cancel game and mark paid registrations as refund due', async () => {
+      // Given: game with paid confirmed player and waitlisted player
+      const { user: organizerUser, organizer } = await createTestOrganizer(123456789n, 'Test User', 'Test Organizer');
+      const paidPlayer = await prisma.user.create({ data: { telegramId: 111111111n, name: 'Paid Player' } });
+      const waitlisted = await prisma.user.create({ data: { telegramId: 222222222n, name: 'Waitlisted Player' } });
+      const game = await prisma.game.create({
+        data: {
+          organizerId: organizer.id,
+          venueId: 'venue1',
+          startsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+          capacity: 1,
+          status: GameStatus.open,
+          createdAt: new Date(Date.now() - 3 * 60 * 60 * 1000)
+        }
+      });
+      await prisma.registration.create({
+        data: { gameId: game.id, userId: paidPlayer.id, status: RegStatus.confirmed, paymentStatus: 'paid', paymentMarkedAt: new Date() }
+      });
+      await prisma.registration.create({
+        data: { gameId: game.id, userId: waitlisted.id, status: RegStatus.waitlisted }
+      });
+
+      // When: organizer cancels the game
+      const result = await cancelGame(game.id, organizerUser.id, 'Зал закрыт на ремонт');
+
+      // Then: game canceled, paid registration marked for refund
+      const updatedGame = await prisma.game.findUnique({ where: { id: game.id } });
+      const paidReg = await prisma.registration.findFirst({ where: { gameId: game.id, userId: paidPlayer.id } });
+      expect(updatedGame?.status).toBe('canceled');
+      expect(updatedGame?.cancelReason).toBe('Зал закрыт на ремонт');
+      expect(updatedGame?.canceledAt).toBeDefined();
+      expect(paidReg?.paymentStatus).toBe('refund_due');
+      expect(result).toEqual({ notified: 2, refundDue: 1 });
+
+      // And: repeated cancel is rejected
+      await expect(cancelGame(game.id, organizerUser.id)).rejects.toThrow('Завершенную или уже отмененную игру нельзя отменить');
+    }, 10000);
   });
   describe('linkPlayerToOrganizer', () => {
     it('should successfully link player to organizer', async () => {
@@ -683,4 +950,638 @@ describe('Game Registration Use Cases', () => {
      expect(mockCtx.reply).toHaveBeenCalledWith('Оплата отмечена 💰 Спасибо!');
    }, 10000);
  });
-});
\ No newline at end of file
+});
+
+describe('Webhooks', () => {
+  useCleanDatabase();
+
+  it('should queue one delivery per subscribed endpoint of the game organizer', async () => {
+    const { organizer, user } = await createTestOrganizer(999000222n, 'Hook Owner', 'Hook Club');
+    const other = await prisma.user.create({ data: { telegramId: 999000111n, name: 'Other' } });
+    const otherOrganizer = await prisma.organizer.create({ data: { userId: other.id, title: 'Other Club' } });
+    const game = await createGame({ organizerId: user.id, venueId: 'venue-1', startsAt: new Date(Date.now() + 86400000), capacity: 10 });
+
+    const own = await prisma.webhookEndpoint.create({
+      data: { organizerId: organizer.id, url: 'https://example.com/hook', secret: 's', eventTypes: ['PlayerJoined'] }
+    });
+    await prisma.webhookEndpoint.create({
+      data: { organizerId: otherOrganizer.id, url: 'https://example.org/hook', secret: 's', eventTypes: ['PlayerJoined'] }
+    });
+    await prisma.webhookEndpoint.create({
+      data: { organizerId: organizer.id, url: 'https://example.com/paid', secret: 's', eventTypes: ['PaymentMarked'] }
+    });
+
+    const enqueued: string[] = [];
+    const scheduler = { enqueueWebhookDelivery: async (deliveryId: string) => { enqueued.push(deliveryId); } };
+    const event = {
+      id: 'event-1',
+      type: 'PlayerJoined' as const,
+      payload: { gameId: game.id, userId: user.id, status: 'confirmed' },
+      occurredAt: new Date()
+    };
+
+    expect(await dispatchWebhooks(event, scheduler)).toBe(1);
+    // Повтор того же события не создает вторую доставку
+    await dispatchWebhooks(event, scheduler);
+
+    const deliveries = await prisma.webhookDelivery.findMany();
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0]).toMatchObject({ endpointId: own.id, eventId: 'event-1', eventType: 'PlayerJoined', status: 'pending' });
+    expect(enqueued).toEqual([deliveries[0]!.id, deliveries[0]!.id]);
+  });
+});
+
+describe('Dead Letter Queue', () => {
+  const originalAdmins = config.admin.telegramIds;
+  useCleanDatabase();
+
+  beforeEach(() => {
+    config.admin.telegramIds = ['111111111'];
+  });
+
+  afterEach(() => {
+    config.admin.telegramIds = originalAdmins;
+  });
+
+  it('should replay a dead-lettered event only for the failed handler', async () => {
+    const admin = await prisma.user.create({ data: { telegramId: 111111111n, name: 'Admin' } });
+    let available = false;
+    const handled: string[] = [];
+    const handler: EventHandler = {
+      name: 'deadLetterTestHandler',
+      handle: async (event) => {
+        if (!available) throw new Error('Telegram is unavailable');
+        if (event.type === 'GameClosed') handled.push(event.payload.gameId);
+      }
+    };
+    EventBus.getInstance().subscribe('GameClosed', handler);
+
+    await recordDeadLetter(
+      { id: 'dead-event-1', type: 'GameClosed', payload: { gameId: 'g1' }, occurredAt: new Date() },
+      'deadLetterTestHandler',
+      new Error('Telegram is unavailable')
+    );
+
+    const { items, total } = await listDeadLetters(admin.id);
+    expect(total).toBe(1);
+    expect(items[0]).toMatchObject({ eventType: 'GameClosed', handler: 'deadLetterTestHandler', error: 'Telegram is unavailable' });
+
+    // Пока причина не устранена, событие остается в очереди
+    expect(await replayDeadLetter(admin.id, items[0]!.id)).toEqual({ replayed: false, error: 'Telegram is unavailable' });
+
+    available = true;
+    expect(await replayDeadLetter(admin.id, items[0]!.id)).toEqual({ replayed: true });
+    expect(handled).toEqual(['g1']);
+    expect(await prisma.deadLetterEvent.findUnique({ where: { id: items[0]!.id } }))
+      .toMatchObject({ status: 'replayed', replayAttempts: 2, lastReplayError: null });
+    await expect(replayDeadLetter(admin.id, items[0]!.id)).rejects.toThrow('Событие уже обработано');
+  });
+
+  it('should allow only admins to manage dead letters', async () => {
+    const admin = await prisma.user.create({ data: { telegramId: 111111111n, name: 'Admin' } });
+    const player = await prisma.user.create({ data: { telegramId: 222222222n, name: 'Player' } });
+    for (const gameId of ['g1', 'g2']) {
+      await recordDeadLetter({ type: 'GameClosed', payload: { gameId }, occurredAt: new Date() }, 'someHandler', 'boom');
+    }
+
+    await expect(listDeadLetters(player.id)).rejects.toThrow('Доступно только администраторам');
+    await expect(discardAllDeadLetters(player.id)).rejects.toThrow('Доступно только администраторам');
+
+    expect(await discardAllDeadLetters(admin.id)).toEqual({ discarded: 2 });
+    expect((await listDeadLetters(admin.id)).total).toBe(0);
+    expect((await listDeadLetters(admin.id, { status: 'discarded' })).total).toBe(2);
+  });
+});
+
+describe('Structured Pricing', () => {
+  useCleanDatabase();
+
+  it('should show collected and outstanding amounts on the payments dashboard', async () => {
+    const { user: organizerUser, organizer } = await createTestOrganizer(123456789n, 'Organizer', 'Test Organizer');
+    const players = await Promise.all([987654321n, 555555555n, 444444444n].map((telegramId, index) =>
+      prisma.user.create({ data: { telegramId, name: `Player ${index + 1}` } })
+    ));
+    const game = await createTestGame(organizer.id, {
+      priceText: '3000₽ аренда на всех',
+      pricingMode: 'split_total',
+      priceAmount: 300000,
+      currency: 'RUB'
+    });
+    for (const player of players) {
+      await joinGame(game.id, player.id);
+    }
+
+    await overridePayment(game.id, organizerUser.id, players[0]!.id, 'paid');
+    await overridePayment(game.id, organizerUser.id, players[1]!.id, 'disputed');
+    expect(await prisma.registration.findFirst({ where: { gameId: game.id, userId: players[0]!.id } }))
+      .toMatchObject({ amountPaid: 100000 });
+
+    const dashboard = await new GamePaymentsDashboardQuery(game.id, organizerUser.id).execute();
+    expect(dashboard.totals).toEqual({ currency: 'RUB', amountPerPlayer: 100000, collected: 100000, outstanding: 200000 });
+    expect(dashboard.players.map(player => player.amountPaid)).toEqual([100000, undefined, undefined]);
+  }, 10000);
+});
+
+describe('Online Payments', () => {
+  useCleanDatabase();
+
+  afterEach(() => {
+    setPaymentProvider(null);
+  });
+
+  function createPricedGame(organizerId: string, priceText: string) {
+    const pricing = parsePriceText(priceText, 'RUB')!;
+    return createTestGame(organizerId, { priceText, pricingMode: pricing.mode, priceAmount: pricing.amount, currency: pricing.currency });
+  }
+
+  it('should send an invoice through the fake provider and mark the registration paid', async () => {
+    const provider = new FakePaymentProvider();
+    setPaymentProvider(provider);
+    const { organizer } = await createTestOrganizer(123456789n, 'Organizer', 'Test Organizer');
+    const player = await prisma.user.create({ data: { telegramId: 987654321n, name: 'Player' } });
+    const game = await createPricedGame(organizer.id, '500₽');
+    await joinGame(game.id, player.id);
+
+    const ctx = createTestContext(player.telegramId);
+    await PaymentHandler.handlePay(ctx, game.id);
+
+    expect(provider.sentInvoices).toEqual([expect.objectContaining({ gameId: game.id, amount: 50000, currency: 'RUB' })]);
+    const paymentId = provider.sentInvoices[0]!.paymentId;
+    expect(callbackDataOf(ctx.telegram.sendMessage.mock.calls[0]?.[2])).toEqual([`fakepay_${paymentId}`]);
+
+    // Оплата онлайн возможна до начала игры
+    await OnlinePaymentHandler.handleFakePay(ctx, paymentId);
+    expect(ctx.reply).toHaveBeenCalledWith(expect.stringContaining('Оплата 500'));
+    expect(await prisma.registration.findFirst({ where: { gameId: game.id, userId: player.id } }))
+      .toMatchObject({ paymentStatus: 'paid', amountPaid: 50000 });
+
+    // Повторное уведомление об оплате не засчитывается
+    const repeated = await completeOnlinePayment({ paymentId, totalAmount: 50000, currency: 'RUB', telegramChargeId: 'charge-2', providerChargeId: 'provider-2' });
+    expect(repeated.paid).toBe(false);
+    expect(await prisma.outboxEvent.count({ where: { type: 'PaymentMarked' } })).toBe(1);
+    await expect(createPaymentInvoice(game.id, player.id, 'fake')).rejects.toThrow('Оплата уже отмечена');
+  }, 10000);
+
+  it('should reject checkout when the invoice no longer matches the player share', async () => {
+    const { organizer } = await createTestOrganizer(123456789n, 'Organizer', 'Test Organizer');
+    const first = await prisma.user.create({ data: { telegramId: 987654321n, name: 'First' } });
+    const second = await prisma.user.create({ data: { telegramId: 555555555n, name: 'Second' } });
+    const game = await createPricedGame(organizer.id, '2000₽ аренда на всех');
+    const unpriced = await createTestGame(organizer.id, { startsAt: new Date(Date.now() + 48 * 60 * 60 * 1000) });
+    await joinGame(game.id, first.id);
+    await joinGame(unpriced.id, first.id);
+
+    const invoice = await createPaymentInvoice(game.id, first.id, 'fake');
+    expect(invoice.amount).toBe(200000);
+    await expect(validatePaymentCheckout(invoice.paymentId, 100000, 'RUB')).rejects.toThrow('Сумма оплаты не совпадает со счетом');
+
+    // Второй игрок уменьшил долю - старый счет не принимается
+    await joinGame(game.id, second.id);
+    await expect(validatePaymentCheckout(invoice.paymentId, 200000, 'RUB')).rejects.toThrow('Доля игрока изменилась');
+    const fresh = await createPaymentInvoice(game.id, first.id, 'fake');
+    expect(fresh.amount).toBe(100000);
+    await expect(validatePaymentCheckout(fresh.paymentId, 100000, 'RUB')).resolves.toBeUndefined();
+
+    await expect(createPaymentInvoice(unpriced.id, first.id, 'fake')).rejects.toThrow('У игры не указана сумма');
+  }, 10000);
+});
+
+describe('Player Balance Ledger', () => {
+  useCleanDatabase();
+
+  it('should charge prepaid players when the game finishes and leave the rest unpaid', async () => {
+    const { user: organizerUser, organizer } = await createTestOrganizer(123456789n, 'Organizer', 'Test Organizer');
+    const regular = await prisma.user.create({ data: { telegramId: 987654321n, name: 'Regular' } });
+    const newcomer = await prisma.user.create({ data: { telegramId: 555555555n, name: 'Newcomer' } });
+    await prisma.playerOrganizer.createMany({
+      data: [regular, newcomer].map(player => ({ playerId: player.id, organizerId: organizer.id, status: 'confirmed' as const }))
+    });
+    const pricing = parsePriceText('3000₽ аренда на всех', 'RUB')!;
+    const game = await createTestGame(organizer.id, { pricingMode: pricing.mode, priceAmount: pricing.amount, currency: pricing.currency });
+    await joinGame(game.id, regular.id);
+    await joinGame(game.id, newcomer.id);
+
+    await recordLedgerEntry({ organizerUserId: organizerUser.id, userId: regular.id, type: LedgerEntryType.deposit, amount: 400000, note: 'октябрь' });
+    await recordLedgerEntry({ organizerUserId: organizerUser.id, userId: newcomer.id, type: LedgerEntryType.deposit, amount: 100000 });
+
+    await finishGame(game.id);
+
+    // Доля 1500₽: у постоянного игрока хватает предоплаты, у новичка - нет
+    expect(await prisma.registration.findFirst({ where: { gameId: game.id, userId: regular.id } }))
+      .toMatchObject({ paymentStatus: 'paid', amountPaid: 150000 });
+    expect(await prisma.registration.findFirst({ where: { gameId: game.id, userId: newcomer.id } }))
+      .toMatchObject({ paymentStatus: 'unpaid', amountPaid: null });
+    expect(await getPlayerBalances(regular.id)).toEqual([
+      expect.objectContaining({ organizerId: organizer.id, organizerName: 'Test Organizer', currency: 'RUB', balance: 250000 })
+    ]);
+    expect(await prisma.outboxEvent.count({ where: { type: 'PaymentChargedFromBalance' } })).toBe(1);
+
+    // Снятая организатором отметка возвращает списание на баланс один раз
+    await overridePayment(game.id, organizerUser.id, regular.id, 'unpaid');
+    await overridePayment(game.id, organizerUser.id, regular.id, 'paid');
+    await overridePayment(game.id, organizerUser.id, regular.id, 'unpaid');
+    const ledger = await getPlayerLedger(organizerUser.id, regular.id);
+    expect(ledger.balances).toEqual([{ currency: 'RUB', balance: 400000 }]);
+    expect(ledger.entries.map(entry => entry.type).sort()).toEqual([LedgerEntryType.deposit, LedgerEntryType.game_charge, LedgerEntryType.refund]);
+  }, 10000);
+
+  it('should show the organizer overview and validate manual entries', async () => {
+    const { user: organizerUser, organizer } = await createTestOrganizer(123456789n, 'Organizer', 'Test Organizer');
+    const linked = await prisma.user.create({ data: { telegramId: 987654321n, name: 'Anna' } });
+    const other = await prisma.user.create({ data: { telegramId: 555555555n, name: 'Boris' } });
+    const stranger = await prisma.user.create({ data: { telegramId: 444444444n, name: 'Victor' } });
+    await prisma.playerOrganizer.create({ data: { playerId: linked.id, organizerId: organizer.id, status: 'confirmed' } });
+    await prisma.playerOrganizer.create({ data: { playerId: other.id, organizerId: organizer.id, status: 'confirmed' } });
+    await prisma.playerOrganizer.create({ data: { playerId: stranger.id, organizerId: organizer.id, status: 'pending' } });
+
+    const result = await recordLedgerEntry({ organizerUserId: organizerUser.id, userId: other.id, type: LedgerEntryType.adjustment, amount: -5000 });
+    expect(result.balance).toBe(-5000);
+    expect(await getOrganizerBalances(organizerUser.id)).toEqual([
+      { userId: linked.id, name: 'Anna', balances: [] },
+      { userId: other.id, name: 'Boris', balances: [{ currency: 'RUB', balance: -5000 }] }
+    ]);
+
+    // Пополнение всегда увеличивает баланс, нулевая сумма и списание вручную не принимаются
+    await recordLedgerEntry({ organizerUserId: organizerUser.id, userId: other.id, type: LedgerEntryType.deposit, amount: -20000 });
+    expect((await getPlayerLedger(organizerUser.id, other.id)).balances).toEqual([{ currency: 'RUB', balance: 15000 }]);
+    await expect(recordLedgerEntry({ organizerUserId: organizerUser.id, userId: other.id, type: LedgerEntryType.deposit, amount: 0 }))
+      .rejects.toThrow(ValidationError);
+    // Баланс ведется только подтвержденным игрокам организатора
+    await expect(recordLedgerEntry({ organizerUserId: organizerUser.id, userId: stranger.id, type: LedgerEntryType.deposit, amount: 100 }))
+      .rejects.toThrow(expect.objectContaining({ code: 'PLAYER_NOT_LINKED' }));
+    await expect(recordLedgerEntry({ organizerUserId: linked.id, userId: other.id, type: LedgerEntryType.deposit, amount: 100 }))
+      .rejects.toThrow('Балансами игроков управляет только организатор');
+  }, 10000);
+});
+
+describe('Game Lifecycle', () => {
+  useCleanDatabase();
+
+  function createGameStartingIn(organizerId: string, minutes: number) {
+    return createTestGame(organizerId, { startsAt: new Date(Date.now() + minutes * 60 * 1000) });
+  }
+
+  it('should close registration before the start and finish the game after its duration', async () => {
+    const { user: organizerUser, organizer } = await createTestOrganizer(123456789n, 'Organizer', 'Test Organizer');
+    const soon = await createGameStartingIn(organizer.id, config.lifecycle.autoCloseMinutesBeforeStart - 5);
+    const later = await createGameStartingIn(organizer.id, 24 * 60);
+    const played = await createGameStartingIn(organizer.id, -config.lifecycle.gameDurationMinutes - 10);
+    const canceled = await createGameStartingIn(organizer.id, -config.lifecycle.gameDurationMinutes - 10);
+    await cancelGame(canceled.id, organizerUser.id);
+
+    expect(await advanceGameLifecycle(soon.id)).toBe(GameStatus.closed);
+    expect(await advanceGameLifecycle(later.id)).toBeNull();
+    // Устаревшая задача для уже закрытой игры ничего не делает
+    expect(await advanceGameLifecycle(soon.id)).toBeNull();
+
+    expect(await advanceDueGames()).toEqual({ closed: 0, finished: 1 });
+    const statuses = await prisma.game.findMany({ select: { id: true, status: true } });
+    expect(Object.fromEntries(statuses.map(game => [game.id, game.status]))).toEqual({
+      [soon.id]: GameStatus.closed,
+      [later.id]: GameStatus.open,
+      [played.id]: GameStatus.finished,
+      [canceled.id]: GameStatus.canceled
+    });
+
+    const events = await prisma.outboxEvent.findMany({ where: { type: { in: ['GameClosed', 'GameFinished'] } } });
+    expect(events.map(event => [event.type, event.payload])).toEqual(expect.arrayContaining([
+      ['GameClosed', { gameId: soon.id, automatic: true }],
+      ['GameFinished', { gameId: played.id, automatic: true }]
+    ]));
+
+    await expect(finishGame(canceled.id)).rejects.toThrow(expect.objectContaining({ code: 'ILLEGAL_STATUS_TRANSITION' }));
+    await expect(closeGame(played.id, organizerUser.id)).rejects.toThrow(expect.objectContaining({ code: 'ILLEGAL_STATUS_TRANSITION' }));
+  }, 10000);
+});
+
+describe('Waitlist Offers', () => {
+  useCleanDatabase();
+
+  async function createFullGame() {
+    const { organizer } = await createTestOrganizer(123456789n, 'Organizer', 'Test Organizer');
+    const game = await createTestGame(organizer.id, { capacity: 1 });
+    const players = [];
+    for (const [index, name] of ['Confirmed', 'First', 'Second', 'Third'].entries()) {
+      const player = await prisma.user.create({ data: { telegramId: BigInt(200000000 + index), name } });
+      await joinGame(game.id, player.id);
+      players.push(player);
+    }
+    return { game, players: players as [typeof players[0], typeof players[0], typeof players[0], typeof players[0]] };
+  }
+
+  it('should hold an offered spot and pass it on when the player declines', async () => {
+    const { game, players: [confirmed, first, second, third] } = await createFullGame();
+    await leaveGame(game.id, confirmed.id);
+
+    // Пока первый думает, место занято: новый игрок встает в лист ожидания
+    const latecomer = await prisma.user.create({ data: { telegramId: 299999999n, name: 'Latecomer' } });
+    expect((await joinGame(game.id, latecomer.id)).status).toBe(RegStatus.waitlisted);
+    await expect(acceptWaitlistOffer(game.id, second.id)).rejects.toThrow(expect.objectContaining({ code: 'NO_WAITLIST_OFFER' }));
+
+    await declineWaitlistOffer(game.id, first.id);
+
+    const regs = await prisma.registration.findMany({ where: { gameId: game.id } });
+    const statusOf = (userId: string) => regs.find(r => r.userId === userId)?.status;
+    expect(statusOf(first.id)).toBe(RegStatus.canceled);
+    expect(statusOf(second.id)).toBe(RegStatus.offered);
+    expect(statusOf(third.id)).toBe(RegStatus.waitlisted);
+
+    const events = await prisma.outboxEvent.findMany({ where: { type: 'WaitlistOfferMade' }, orderBy: { createdAt: 'asc' } });
+    expect(events.map(event => (event.payload as { userId: string }).userId)).toEqual([first.id, second.id]);
+  }, 10000);
+
+  it('should expire an unanswered offer and show waitlist positions', async () => {
+    const { game, players: [confirmed, first, second, third] } = await createFullGame();
+    await leaveGame(game.id, confirmed.id);
+
+    // Задача истечения до срока ничего не делает
+    expect(await expireWaitlistOffer(game.id, first.id)).toBe(false);
+
+    await prisma.registration.update({
+      where: { gameId_userId: { gameId: game.id, userId: first.id } },
+      data: { offerExpiresAt: new Date(Date.now() - 1000) }
+    });
+    expect(await expireWaitlistOffer(game.id, first.id)).toBe(true);
+    await expect(acceptWaitlistOffer(game.id, first.id)).rejects.toThrow(expect.objectContaining({ code: 'NO_WAITLIST_OFFER' }));
+
+    const secondReg = await prisma.registration.findFirst({ where: { gameId: game.id, userId: second.id } });
+    expect(secondReg?.status).toBe(RegStatus.offered);
+    expect(await prisma.outboxEvent.count({ where: { type: 'WaitlistOfferExpired' } })).toBe(1);
+
+    // Игрок видит свое место в очереди в /my
+    const thirdCtx = createTestContext(third.telegramId);
+    await CommandHandlers.handleMy(thirdCtx);
+    expect(thirdCtx.reply.mock.calls[0]?.[0]).toContain(getTranslator(third)('waitlist.positionShort', { position: 1 }));
+
+    // А тот, кому предложено место, - кнопки ответа
+    const secondCtx = createTestContext(second.telegramId);
+    await CommandHandlers.handleMy(secondCtx);
+    expect(callbackDataOf(secondCtx.reply.mock.calls[0]?.[1]))
+      .toEqual(expect.arrayContaining([`offer_accept_${game.id}`, `offer_decline_${game.id}`]));
+  }, 10000);
+
+  it('should expire overdue offers whose expiry job was lost', async () => {
+    const { game, players: [confirmed, first, second] } = await createFullGame();
+    await leaveGame(game.id, confirmed.id);
+
+    // Предложение в срок проверка не трогает
+    expect(await expireDueWaitlistOffers()).toBe(0);
+
+    await prisma.registration.update({
+      where: { gameId_userId: { gameId: game.id, userId: first.id } },
+      data: { offerExpiresAt: new Date(Date.now() - 1000) }
+    });
+    expect(await expireDueWaitlistOffers()).toBe(1);
+
+    const regs = await prisma.registration.findMany({ where: { gameId: game.id } });
+    expect(regs.find(r => r.userId === first.id)?.status).toBe(RegStatus.canceled);
+    expect(regs.find(r => r.userId === second.id)?.status).toBe(RegStatus.offered);
+  }, 10000);
+});
+
+describe('Organizer Teams', () => {
+  useCleanDatabase();
+
+  it('should let co-organizers manage games and treasurers only payments', async () => {
+    const { user: owner, organizer } = await createTestOrganizer(123456789n, 'Owner', 'Test Organizer');
+    const [coOrganizer, treasurer] = await Promise.all([987654321n, 555555555n].map((telegramId, index) =>
+      prisma.user.create({ data: { telegramId, name: `Helper ${index + 1}` } })
+    ));
+    for (const helper of [coOrganizer!, treasurer!]) {
+      await prisma.playerOrganizer.create({ data: { playerId: helper.id, organizerId: organizer.id, status: 'confirmed' } });
+    }
+    expect((await listTeamCandidates(owner.id)).map(candidate => candidate.userId).sort()).toEqual([coOrganizer!.id, treasurer!.id].sort());
+
+    await addTeamMember({ ownerUserId: owner.id, userId: coOrganizer!.id, role: OrganizerRole.co_organizer });
+    await addTeamMember({ ownerUserId: owner.id, userId: treasurer!.id, role: OrganizerRole.treasurer });
+    expect((await listTeamMembers(treasurer!.id)).map(member => member.role))
+      .toEqual([OrganizerRole.owner, OrganizerRole.co_organizer, OrganizerRole.treasurer]);
+    expect(await listTeamCandidates(owner.id)).toEqual([]);
+
+    // Соорганизатор создает игру от имени организатора
+    const game = await createGame({ organizerId: coOrganizer!.id, venueId: 'venue1', startsAt: new Date(Date.now() + 86400000), capacity: 10 });
+    expect(game.organizerId).toBe(organizer.id);
+
+    // Казначей видит оплаты, но не управляет играми и командой
+    const dashboard = await new GamePaymentsDashboardQuery(game.id, treasurer!.id).execute();
+    expect(dashboard.players).toEqual([]);
+    await expect(closeGame(game.id, treasurer!.id)).rejects.toThrow(expect.objectContaining({ code: 'FORBIDDEN' }));
+    await expect(updateGame(game.id, treasurer!.id, { capacity: 12 })).rejects.toThrow(expect.objectContaining({ code: 'FORBIDDEN' }));
+    await expect(cancelGame(game.id, treasurer!.id)).rejects.toThrow(expect.objectContaining({ code: 'FORBIDDEN' }));
+    await expect(removeTeamMember(treasurer!.id, coOrganizer!.id)).rejects.toThrow(expect.objectContaining({ code: 'FORBIDDEN' }));
+
+    await closeGame(game.id, coOrganizer!.id);
+    expect((await prisma.game.findUnique({ where: { id: game.id } }))?.status).toBe(GameStatus.closed);
+  }, 10000);
+
+  it('should keep one team per user and protect the owner', async () => {
+    const { user: owner } = await createTestOrganizer(123456789n, 'Owner', 'Test Organizer');
+    const { user: otherOwner } = await createTestOrganizer(987654321n, 'Other Owner', 'Other Club');
+    const helper = await prisma.user.create({ data: { telegramId: 555555555n, name: 'Helper' } });
+
+    await expect(addTeamMember({ ownerUserId: owner.id, userId: otherOwner.id, role: OrganizerRole.co_organizer }))
+      .rejects.toThrow(expect.objectContaining({ code: 'ALREADY_TEAM_MEMBER' }));
+    await expect(removeTeamMember(owner.id, owner.id)).rejects.toThrow(expect.objectContaining({ code: 'FORBIDDEN' }));
+
+    await addTeamMember({ ownerUserId: owner.id, userId: helper.id, role: OrganizerRole.treasurer });
+    // Повторное добавление меняет роль участника
+    await addTeamMember({ ownerUserId: owner.id, userId: helper.id, role: OrganizerRole.co_organizer });
+    expect(await prisma.organizerMember.findUnique({ where: { userId: helper.id } }))
+      .toMatchObject({ role: OrganizerRole.co_organizer });
+
+    await removeTeamMember(owner.id, helper.id);
+    await expect(listTeamMembers(helper.id)).rejects.toThrow(expect.objectContaining({ code: 'FORBIDDEN' }));
+  }, 10000);
+});
+
+describe('Skill Levels', () => {
+  useCleanDatabase();
+
+  it('should enforce the game level range with verification and an organizer override', async () => {
+    const { user: organizerUser, organizer } = await createTestOrganizer(123456789n, 'Organizer', 'Test Organizer');
+    const [novice, unknown, experienced] = await Promise.all([
+      { telegramId: 987654321n, name: 'Novice', levelTag: SkillLevel.novice },
+      { telegramId: 555555555n, name: 'Unknown' },
+      { telegramId: 444444444n, name: 'Experienced', levelTag: SkillLevel.experienced }
+    ].map(data => prisma.user.create({ data })));
+    const game = await createTestGame(organizer.id, { levelTag: SkillLevel.amateur, minLevel: SkillLevel.amateur });
+
+    await expect(joinGame(game.id, novice!.id)).rejects.toThrow(expect.objectContaining({ code: 'LEVEL_NOT_ALLOWED' }));
+    await expect(joinGame(game.id, unknown!.id)).rejects.toThrow(expect.objectContaining({ code: 'LEVEL_NOT_ALLOWED' }));
+    expect(await joinGame(game.id, experienced!.id)).toMatchObject({ status: RegStatus.confirmed });
+
+    // Уровень подтверждает организатор только своим подтвержденным игрокам
+    await expect(verifyPlayerLevel({ organizerUserId: organizerUser.id, userId: novice!.id, levelTag: SkillLevel.amateur }))
+      .rejects.toThrow(expect.objectContaining({ code: 'NOT_FOUND' }));
+    await prisma.playerOrganizer.create({ data: { playerId: novice!.id, organizerId: organizer.id, status: 'confirmed' } });
+    await expect(verifyPlayerLevel({ organizerUserId: novice!.id, userId: novice!.id, levelTag: SkillLevel.pro }))
+      .rejects.toThrow(expect.objectContaining({ code: 'FORBIDDEN' }));
+    expect(await verifyPlayerLevel({ organizerUserId: organizerUser.id, userId: novice!.id, levelTag: SkillLevel.amateur }))
+      .toEqual({ userId: novice!.id, name: 'Novice', from: SkillLevel.novice, to: SkillLevel.amateur });
+    expect(await prisma.outboxEvent.count({ where: { type: 'PlayerLevelVerified' } })).toBe(1);
+
+    // Подтвержденный уровень игрок сам не меняет
+    await expect(updateUserLevel(novice!.id, SkillLevel.pro)).rejects.toThrow(expect.objectContaining({ code: 'LEVEL_ALREADY_VERIFIED' }));
+    expect(await joinGame(game.id, novice!.id)).toMatchObject({ status: RegStatus.confirmed });
+
+    // Организатор записывает игрока в обход ограничения
+    await expect(admitPlayer(game.id, experienced!.id, unknown!.id)).rejects.toThrow(expect.objectContaining({ code: 'FORBIDDEN' }));
+    expect(await admitPlayer(game.id, organizerUser.id, unknown!.id)).toEqual({ status: RegStatus.confirmed });
+    expect(await prisma.registration.count({ where: { gameId: game.id, status: 'confirmed' } })).toBe(3);
+  }, 10000);
+});
+
+describe('User Localization', () => {
+  useCleanDatabase();
+
+  it('should store timezone and locale and format game time for the user', async () => {
+    // Given: user with default localization
+    const user = await prisma.user.create({
+      data: { telegramId: 777000111n, name: 'Moscow Player' }
+    });
+    const startsAt = new Date('2030-01-15T12:00:00.000Z');
+    expect(formatGameTimeForUser(startsAt, user)).toContain('20:00');
+
+    // When: user switches to Moscow time
+    await userPreferencesService.updateLocalization(user.id, { timezone: 'Europe/Moscow', locale: 'ru-RU' });
+
+    // Then: game time is formatted in the new timezone
+    const updated = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+    expect(updated.timezone).toBe('Europe/Moscow');
+    expect(formatGameTimeForUser(startsAt, updated)).toContain('15:00');
+
+    // And: unsupported timezone is rejected
+    await expect(userPreferencesService.updateLocalization(user.id, { timezone: 'Mars/Olympus' }))
+      .rejects.toThrow('Validation failed for timezone');
+  }, 10000);
+});
+
+describe('Event Outbox', () => {
+  useCleanDatabase();
+
+  it('should write events in the same transaction as the state change and publish them after commit', async () => {
+    const { user: user1, organizer } = await createTestOrganizer(123456789n, 'User 1', 'Test Organizer');
+    const user2 = await prisma.user.create({ data: { telegramId: 987654321n, name: 'User 2' } });
+    const game = await createTestGame(organizer.id, { capacity: 1 });
+    await joinGame(game.id, user1.id);
+    await joinGame(game.id, user2.id);
+
+    await leaveGame(game.id, user1.id);
+
+    const events = await prisma.outboxEvent.findMany({
+      where: { type: { in: ['RegistrationCanceled', 'WaitlistedPromoted'] } },
+      orderBy: { createdAt: 'asc' }
+    });
+    expect(events.map(event => event.type)).toEqual(['RegistrationCanceled', 'WaitlistedPromoted']);
+    expect(events.every(event => event.status === 'published')).toBe(true);
+  }, 10000);
+
+  it('should drop recorded events when the transaction rolls back', async () => {
+    await expect(runInTransaction(async () => {
+      await EventOutbox.getInstance().record({ type: 'GameClosed', payload: { gameId: 'rolled-back' } });
+      throw new Error('rollback');
+    })).rejects.toThrow('rollback');
+
+    expect(await prisma.outboxEvent.count()).toBe(0);
+  });
+
+  it('should relay pending events and let handlers skip redelivered ones', async () => {
+    const handled: string[] = [];
+    EventBus.getInstance().subscribe('PlayerLinkedToOrganizer', deduplicated('outboxTestHandler', {
+      handle: async (event) => { handled.push(event.id!); }
+    }));
+
+    // Событие сохранено, но процесс упал до публикации
+    await prisma.outboxEvent.create({
+      data: {
+        id: 'outbox-event-1',
+        type: 'PlayerLinkedToOrganizer',
+        payload: { playerId: 'p1', organizerId: 'o1', playerName: 'Player' },
+        occurredAt: new Date()
+      }
+    });
+
+    expect(await EventOutbox.getInstance().relayPending()).toBe(1);
+    expect(await prisma.outboxEvent.findUnique({ where: { id: 'outbox-event-1' } })).toMatchObject({ status: 'published', attempts: 1 });
+
+    // Повторная доставка того же события не обрабатывается второй раз
+    await prisma.outboxEvent.update({ where: { id: 'outbox-event-1' }, data: { status: 'pending', availableAt: new Date() } });
+    await EventOutbox.getInstance().relayPending();
+    expect(handled).toEqual(['outbox-event-1']);
+  });
+});
+
+describe('Game History', () => {
+  let unregisterAuditLog: () => void;
+
+  beforeAll(() => {
+    unregisterAuditLog = registerAuditLog(EventBus.getInstance());
+  });
+
+  afterAll(() => {
+    unregisterAuditLog();
+  });
+
+  useCleanDatabase();
+
+  it('should build a game timeline from the audit log', async () => {
+    const { user: organizerUser, organizer } = await createTestOrganizer(123456789n, 'Organizer', 'Test Organizer');
+    const first = await prisma.user.create({ data: { telegramId: 987654321n, name: 'First' } });
+    const second = await prisma.user.create({ data: { telegramId: 555555555n, name: 'Second' } });
+    const game = await createTestGame(organizer.id, { capacity: 1 });
+
+    await joinGame(game.id, first.id);
+    await joinGame(game.id, second.id);
+    await leaveGame(game.id, first.id);
+
+    const history = await getGameHistory(organizerUser.id, game.id);
+    expect(history.slice(0, 2)).toEqual([
+      expect.objectContaining({ type: 'PlayerJoined', actorName: 'First', playerName: 'First', payload: expect.objectContaining({ status: 'confirmed' }) }),
+      expect.objectContaining({ type: 'PlayerJoined', actorName: 'Second', playerName: 'Second', payload: expect.objectContaining({ status: 'waitlisted' }) })
+    ]);
+    expect(history.slice(2)).toEqual(expect.arrayContaining([
+      expect.objectContaining({ type: 'RegistrationCanceled', actorName: 'First', playerName: 'First' }),
+      expect.objectContaining({ type: 'WaitlistedPromoted', actorName: null, playerName: 'Second' })
+    ]));
+    expect(history).toHaveLength(4);
+
+    // Чужую историю игрок не видит
+    await expect(getGameHistory(first.id, game.id)).rejects.toThrow('Историю игры может смотреть только ее организатор');
+  }, 10000);
+
+  it('should skip redelivered events and show the timeline to the organizer', async () => {
+    const { user: organizerUser, organizer } = await createTestOrganizer(123456789n, 'Organizer', 'Test Organizer');
+    const player = await prisma.user.create({ data: { telegramId: 987654321n, name: 'Player' } });
+    const game = await createTestGame(organizer.id);
+
+    const paid = { id: 'audit-event-1', type: 'PaymentMarked' as const, payload: { gameId: game.id, userId: player.id }, occurredAt: new Date() };
+    await recordAuditEvent(paid);
+    await recordAuditEvent(paid);
+    await recordAuditEvent({ id: 'audit-event-2', type: 'GameClosed', payload: { gameId: game.id }, occurredAt: new Date(Date.now() + 1000) });
+
+    expect(await prisma.auditEvent.findMany({ where: { gameId: game.id }, orderBy: { occurredAt: 'asc' } })).toEqual([
+      expect.objectContaining({ eventType: 'PaymentMarked', actorId: player.id }),
+      expect.objectContaining({ eventType: 'GameClosed', actorId: organizerUser.id })
+    ]);
+
+    const ctx = createTestContext(123456789n);
+    await GameHistoryHandler.handleHistory(ctx, game.id);
+
+    const message = String(ctx.reply.mock.calls[0]?.[0]);
+    expect(message).toContain('💰 Player отметил оплату');
+    expect(message).toContain('🔒 Organizer закрыл запись');
+    expect(message.indexOf('отметил оплату')).toBeLessThan(message.indexOf('закрыл запись'));
+  });
+
+  it('should record the team member who changed the game instead of the owner', async () => {
+    const { organizer } = await createTestOrganizer(123456789n, 'Organizer', 'Test Organizer');
+    const manager = await prisma.user.create({ data: { telegramId: 987654321n, name: 'Manager' } });
+    const game = await createTestGame(organizer.id);
+
+    // Событие без ID получает его при публикации: повторы из dead letter queue отсекаются журналом
+    const canceled = { type: 'GameCanceled' as const, payload: { gameId: game.id, actorId: manager.id, notifyUserIds: [], refundDueUserIds: [] }, occurredAt: new Date() };
+    await EventBus.getInstance().publish(canceled);
+    const [entry] = await prisma.auditEvent.findMany({ where: { gameId: game.id } });
+    expect(entry).toMatchObject({ eventType: 'GameCanceled', actorId: manager.id, eventId: expect.any(String) });
+  });
+});
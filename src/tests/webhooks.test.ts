@@ -0,0 +1,13 @@
+import { describe, it, expect } from '@jest/globals';
+import { createHmac } from 'node:crypto';
+import { signWebhookPayload } from '../shared/webhook-dispatcher.js';
+
+describe('Webhook Signature', () => {
+  it('should sign the body together with the timestamp', () => {
+    const body = JSON.stringify({ type: 'PlayerJoined' });
+    const signature = signWebhookPayload('secret', 1700000000, body);
+
+    expect(signature).toBe(`sha256=${createHmac('sha256', 'secret').update(`1700000000.${body}`).digest('hex')}`);
+    expect(signWebhookPayload('secret', 1700000001, body)).not.toBe(signature);
+  });
+});
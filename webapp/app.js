@@ -0,0 +1,293 @@
+/**
+ * Telegram Mini App: список игр с фильтрами, карточка игры с составом и действиями,
+ * дашборд оплат для организатора. Данные - через REST API (/api/v1), вход - по initData
+ */
+(function () {
+  'use strict';
+
+  var tg = window.Telegram && window.Telegram.WebApp;
+  var app = document.getElementById('app');
+
+  var state = {
+    token: null,
+    user: null,
+    locale: 'ru-RU',
+    // Тексты из общего каталога бота (/app/messages): ключ -> шаблон
+    messages: {},
+    levels: [],
+    filters: { level: '', venueId: '' }
+  };
+
+  function loadMessages(locale) {
+    return fetch('/app/messages?locale=' + encodeURIComponent(locale)).then(function (response) {
+      if (!response.ok) throw new Error('Failed to load data');
+      return response.json();
+    }).then(function (catalog) {
+      state.messages = catalog.messages;
+      state.levels = catalog.levels;
+    });
+  }
+
+  // Ключ без перевода показывается как есть - так пропуск в каталоге сразу виден
+  function t(key, params) {
+    var template = state.messages[key] || key;
+    return template.replace(/\{(\w+)\}/g, function (placeholder, name) {
+      return params && params[name] !== undefined ? String(params[name]) : placeholder;
+    });
+  }
+
+  // Уровни, сохраненные старыми версиями текстом, показываются как есть
+  function levelName(levelTag) {
+    return (levelTag && state.messages['level.' + levelTag]) || levelTag || '';
+  }
+
+  function formatTime(iso) {
+    var options = { weekday: 'short', day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit' };
+    if (state.user && state.user.timezone) options.timeZone = state.user.timezone;
+    return new Date(iso).toLocaleString(state.locale, options);
+  }
+
+  // Элементы создаются через textContent - данные пользователей не попадают в разметку
+  function el(tag, attrs, children) {
+    var node = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (key) {
+      if (key === 'onclick') node.addEventListener('click', attrs[key]);
+      else if (key === 'text') node.textContent = attrs[key];
+      else node.setAttribute(key, attrs[key]);
+    });
+    (children || []).forEach(function (child) {
+      if (child) node.appendChild(child);
+    });
+    return node;
+  }
+
+  function render(nodes) {
+    app.replaceChildren.apply(app, nodes);
+  }
+
+  function notify(message) {
+    if (tg && tg.showAlert) tg.showAlert(message);
+    else window.alert(message);
+  }
+
+  function api(method, path, body) {
+    var headers = { 'accept-language': state.locale };
+    if (state.token) headers.authorization = 'Bearer ' + state.token;
+    if (body) headers['content-type'] = 'application/json';
+
+    return fetch('/api/v1' + path, {
+      method: method,
+      headers: headers,
+      body: body ? JSON.stringify(body) : undefined
+    }).then(function (response) {
+      return response.json().catch(function () { return {}; }).then(function (data) {
+        if (!response.ok) {
+          throw new Error((data.error && data.error.message) || t('webapp.loadFailed'));
+        }
+        return data;
+      });
+    });
+  }
+
+  function setBackButton(handler) {
+    if (!tg || !tg.BackButton) return;
+    tg.BackButton.offClick(state.backHandler || function () {});
+    state.backHandler = handler;
+    if (handler) {
+      tg.BackButton.onClick(handler);
+      tg.BackButton.show();
+    } else {
+      tg.BackButton.hide();
+    }
+  }
+
+  function showError(error) {
+    render([el('p', { class: 'error', text: error.message || t('webapp.loadFailed') })]);
+  }
+
+  function showGames() {
+    setBackButton(null);
+    var query = [];
+    if (state.filters.level) query.push('level=' + encodeURIComponent(state.filters.level));
+    if (state.filters.venueId) query.push('venueId=' + encodeURIComponent(state.filters.venueId));
+
+    return api('GET', '/games' + (query.length ? '?' + query.join('&') : '')).then(function (data) {
+      // Площадки для фильтра собираются из полного списка, чтобы фильтр не сужал сам себя
+      if (!state.venues) {
+        state.venues = {};
+        data.games.forEach(function (game) {
+          if (game.venue) state.venues[game.venue.id] = game.venue.name;
+        });
+      }
+      renderGames(data.games);
+    }).catch(showError);
+  }
+
+  function renderGames(games) {
+    var levelSelect = el('select', {}, [el('option', { value: '', text: t('webapp.allLevels') })].concat(
+      state.levels.map(function (level) {
+        return el('option', { value: level, text: levelName(level) });
+      })
+    ));
+    levelSelect.value = state.filters.level;
+    levelSelect.addEventListener('change', function () {
+      state.filters.level = levelSelect.value;
+      showGames();
+    });
+
+    var venueSelect = el('select', {}, [el('option', { value: '', text: t('webapp.allVenues') })].concat(
+      Object.keys(state.venues || {}).map(function (id) {
+        return el('option', { value: id, text: state.venues[id] });
+      })
+    ));
+    venueSelect.value = state.filters.venueId;
+    venueSelect.addEventListener('change', function () {
+      state.filters.venueId = venueSelect.value;
+      showGames();
+    });
+
+    var cards = games.map(function (game) {
+      var details = [game.venue ? game.venue.name : '', levelName(game.levelTag), game.priceText || '']
+        .filter(Boolean)
+        .join(' · ');
+      return el('button', { class: 'card', onclick: function () { showGame(game.id); } }, [
+        el('div', { class: 'title', text: formatTime(game.startsAt) }),
+        el('div', { text: details }),
+        el('div', { class: 'muted', text: t('webapp.spots', { confirmed: game.confirmedCount, capacity: game.capacity }) })
+      ]);
+    });
+
+    render([
+      el('h1', { text: t('webapp.title') }),
+      el('div', { class: 'filters' }, [levelSelect, venueSelect])
+    ].concat(cards.length ? cards : [el('p', { class: 'muted', text: t('webapp.noGames') })]));
+  }
+
+  function showGame(gameId) {
+    setBackButton(showGames);
+    return api('GET', '/games/' + gameId).then(renderGame).catch(showError);
+  }
+
+  function runAction(promise, message, gameId) {
+    return promise.then(function (result) {
+      if (result && result.status === 'waitlisted') notify(t('webapp.waitlisted'));
+      else if (message) notify(message);
+      return showGame(gameId);
+    }).catch(function (error) {
+      notify(error.message);
+    });
+  }
+
+  function renderGame(game) {
+    var me = state.user && game.players.filter(function (player) { return player.userId === state.user.id; })[0];
+    var isGameOrganizer = state.user && state.user.organizerId === game.organizer.id;
+
+    var actions = [];
+    if (!me && game.status === 'open') {
+      actions.push(el('button', { class: 'button', text: t('webapp.join'), onclick: function () {
+        runAction(api('POST', '/games/' + game.id + '/join'), t('webapp.joined'), game.id);
+      } }));
+    }
+    if (me) {
+      actions.push(el('button', { class: 'button secondary', text: t('webapp.leave'), onclick: function () {
+        runAction(api('POST', '/games/' + game.id + '/leave'), t('webapp.left'), game.id);
+      } }));
+    }
+    if (me && me.status === 'confirmed') {
+      actions.push(el('button', { class: 'button', text: t('webapp.pay'), onclick: function () {
+        runAction(api('POST', '/games/' + game.id + '/payment'), t('webapp.paymentMarked'), game.id);
+      } }));
+    }
+    if (isGameOrganizer) {
+      actions.push(el('button', { class: 'button secondary', text: t('webapp.payments'), onclick: function () {
+        showPayments(game.id);
+      } }));
+    }
+
+    var roster = function (status) {
+      var players = game.players.filter(function (player) { return player.status === status; });
+      if (!players.length) return el('p', { class: 'muted', text: t('webapp.noPlayers') });
+      return el('ul', { class: 'roster' }, players.map(function (player) {
+        return el('li', {}, [
+          el('span', { text: player.name }),
+          el('span', { class: 'muted', text: levelName(player.levelTag) })
+        ]);
+      }));
+    };
+
+    render([
+      el('h1', { text: formatTime(game.startsAt) }),
+      el('div', { text: [game.venue.name, game.venue.address].filter(Boolean).join(', ') }),
+      el('div', { class: 'muted', text: [levelName(game.levelTag), game.priceText, state.messages['gameStatus.' + game.status] || game.status].filter(Boolean).join(' · ') }),
+      me ? el('p', { text: me.status === 'confirmed' ? t('webapp.joined') : t('webapp.waitlisted') }) : null,
+      el('div', { class: 'actions' }, actions),
+      el('h2', { text: t('webapp.players') + ' (' + game.confirmedCount + '/' + game.capacity + ')' }),
+      roster('confirmed'),
+      game.waitlistedCount ? el('h2', { text: t('webapp.waitlist') + ' (' + game.waitlistedCount + ')' }) : null,
+      game.waitlistedCount ? roster('waitlisted') : null
+    ]);
+  }
+
+  // Суммы в API - в минимальных единицах валюты; число знаков зависит от валюты (у JPY их нет)
+  function formatMoney(amount, currency) {
+    var digits = new Intl.NumberFormat('en', { style: 'currency', currency: currency }).resolvedOptions().maximumFractionDigits;
+    var minorUnits = Math.pow(10, digits);
+    return new Intl.NumberFormat(state.locale, {
+      style: 'currency',
+      currency: currency,
+      minimumFractionDigits: amount % minorUnits === 0 ? 0 : undefined
+    }).format(amount / minorUnits);
+  }
+
+  function showPayments(gameId) {
+    setBackButton(function () { showGame(gameId); });
+    return api('GET', '/games/' + gameId + '/payments').then(function (dashboard) {
+      render([
+        el('h1', { text: t('webapp.payments') }),
+        el('div', { class: 'summary' }, [
+          el('span', { text: t('webapp.paid') + ': ' + dashboard.paidCount }),
+          el('span', { text: t('webapp.unpaid') + ': ' + dashboard.unpaidCount }),
+          dashboard.disputedCount ? el('span', { text: t('webapp.disputed') + ': ' + dashboard.disputedCount }) : null
+        ]),
+        dashboard.totals ? el('div', { class: 'summary' }, [
+          el('span', { text: t('webapp.collected') + ': ' + formatMoney(dashboard.totals.collected, dashboard.totals.currency) }),
+          el('span', { text: t('webapp.outstanding') + ': ' + formatMoney(dashboard.totals.outstanding, dashboard.totals.currency) })
+        ]) : null,
+        dashboard.players.length
+          ? el('ul', { class: 'roster' }, dashboard.players.map(function (player) {
+            return el('li', {}, [
+              el('span', { text: player.name }),
+              el('span', { class: player.paymentStatus === 'paid' ? '' : 'error', text: state.messages['webapp.' + player.paymentStatus] || t('webapp.unpaid') })
+            ]);
+          }))
+          : el('p', { class: 'muted', text: t('webapp.noPlayers') })
+      ]);
+    }).catch(showError);
+  }
+
+  function start() {
+    var telegramUser = tg && tg.initDataUnsafe && tg.initDataUnsafe.user;
+    if (telegramUser && telegramUser.language_code) state.locale = telegramUser.language_code;
+
+    loadMessages(state.locale).then(function () {
+      if (!tg || !tg.initData) {
+        render([el('p', { class: 'muted', text: t('webapp.openInTelegram') })]);
+        return;
+      }
+
+      tg.ready();
+      tg.expand();
+
+      return api('POST', '/auth/webapp', { initData: tg.initData }).then(function (session) {
+        state.token = session.token;
+        state.user = session.user;
+        if (!session.user.locale || session.user.locale === state.locale) return;
+        // Сохраненная в боте локаль важнее языка клиента Telegram
+        state.locale = session.user.locale;
+        return loadMessages(state.locale);
+      }).then(showGames);
+    }).catch(showError);
+  }
+
+  start();
+})();